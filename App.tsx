@@ -23,6 +23,7 @@ import ShotTimeline from './components/ShotTimeline';
 import VerificationPanel from './components/VerificationPanel';
 import FinalCutPanel from './components/FinalCutPanel';
 import { t } from './i18n';
+import { BUILTIN_STRUCTURE_TEMPLATES } from './lib/storyStructure';
 
 const MainLayout: React.FC = () => {
   const {
@@ -58,6 +59,7 @@ const MainLayout: React.FC = () => {
   const [shotCount, setShotCount] = useState<number>(5); // ★ 新增：镜头数量快速选择
   const [forceHasCast, setForceHasCast] = useState<boolean | undefined>(undefined);
   const [projectType, setProjectType] = useState<string>('');
+  const [structureTemplate, setStructureTemplate] = useState<string>('');
   const [showAdvancedProjectSettings, setShowAdvancedProjectSettings] = useState<boolean>(false);
   const [directorControls, setDirectorControls] = useState<DirectorControls>(() => {
     try {
@@ -156,7 +158,7 @@ const MainLayout: React.FC = () => {
 
     try {
       console.log(`[App] Generating with extractedAnchor: "${extractedAnchor?.substring(0, 80) || 'EMPTY'}..." (length: ${extractedAnchor?.length || 0})`);
-      const data = await generateStoryboard(storyIdea, settings.videoStyle, settings.lang, settings.generationMode, extractedAnchor, sceneCount, forceHasCast, projectType, directorControls);
+      const data = await generateStoryboard(storyIdea, settings.videoStyle, settings.lang, settings.generationMode, extractedAnchor, sceneCount, forceHasCast, projectType, directorControls, structureTemplate || undefined);
       setProject(data);
       setPipelineStage((data as any)?.pipeline_state?.current_stage || 'shots_ready');
 
@@ -543,6 +545,19 @@ const MainLayout: React.FC = () => {
                       <option value="object_driven">🚗 Object Driven</option>
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t(settings.lang, 'structureTemplateLabel')}</label>
+                    <select
+                      value={structureTemplate}
+                      onChange={e => setStructureTemplate(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-800 rounded-lg p-3 text-sm focus:border-indigo-500 outline-none"
+                    >
+                      <option value="">{t(settings.lang, 'structureTemplateNone')}</option>
+                      {BUILTIN_STRUCTURE_TEMPLATES.map(tpl => (
+                        <option key={tpl.id} value={tpl.id}>{tpl.label}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div>
                     <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{settings.lang === 'zh' ? '强制拥有主角' : 'Force Character Presence'}</label>
                     <div className="flex gap-4">
@@ -32,24 +32,149 @@ import {
 import {
     initProjectRuntime,
     getProjectRuntime,
-    setProjectStage,
+    transitionProjectStage,
     buildShotContextPack,
     scoreStoryboardCandidate,
     registerStoryboardCandidate,
     approveStoryboardShot,
     markShotRegenerated,
+    promoteStoryboardCandidate,
     controlStoryboardQueue,
     hasApprovedStoryboard,
     getApprovedStoryboardFrame,
-    serializePipelineState,
+    getApprovedNeighborFrames,
     deserializePipelineState,
-    restorePipelineState,
+    adoptLegacyPipelineState,
+    configurePipelineStore,
+    hydrateProjectRuntime,
+    flushPipelineEvents,
+    getPipelineStore,
+    onPipelineEvent,
+    type ProjectRuntimeState,
+    type RuntimeShotState,
 } from '../lib/storyPipeline.js';
+import { createPipelineStoreFromEnv } from '../lib/pipelineStore.js';
+import {
+    formatSSE,
+    getPredictionWatches,
+    pipelineStreamSubscriberCount,
+    publishPipelineStreamEvent,
+    publishRuntimeEvent,
+    subscribePipelineStream,
+    unwatchPrediction,
+    watchPrediction,
+    type PipelineStreamEvent,
+} from '../lib/pipelineEventStream.js';
+import {
+    PIPELINE_TRANSITIONS,
+    PipelineTransitionError,
+    availableTransitions,
+    checkStageTransition,
+    isPipelineTransition,
+    type PipelineTransition,
+} from '../lib/pipelineTransitions.js';
+import { planRegenerationCascade, type CascadePlan } from '../lib/regenerationCascade.js';
+import {
+    configureBatchQueue,
+    registerBatchExecutor,
+    createBatchJob,
+    runBatchJob,
+    getBatchJobStatus,
+    getBatchQueueStore,
+    cancelBatchJob,
+    retryFailedBatchItems,
+    recoverBatchJobs,
+    type BatchItemExecutor,
+} from '../lib/batchQueue.js';
+import {
+    createBatchQueueStoreFromEnv,
+    type BatchJob,
+    type BatchJobItem,
+} from '../lib/batchQueueStore.js';
+import { generationScheduler, tierForProfile, type SchedulerTier } from '../lib/generationScheduler.js';
+import { ModelRateLimiterRegistry, parseModelRateLimits, POLL_BUCKET, TokenBucketLimiter } from '../lib/modelRateLimiter.js';
+import {
+    registerGenerationProvider,
+    resolveGenerationProvider,
+    configuredProviderName,
+    listGenerationProviders,
+    GENERATION_CAPABILITIES,
+    type MediaResult,
+    type VideoGenerationRequest,
+} from '../lib/generationProvider.js';
+import {
+    configureGenerationCache,
+    canonicalGenerationRequest,
+    generationCacheKey,
+    lookupGenerationCache,
+    storeGenerationResult,
+    settleCachedPrediction,
+    parseGenerationCacheMode,
+    isGenerationCacheable,
+    getGenerationCacheEntry,
+    listGenerationCache,
+    deleteGenerationCacheEntry,
+    type GenerationCacheMode,
+    type GenerationCacheRequest,
+} from '../lib/generationCache.js';
+import { createGenerationCacheStoreFromEnv, type GenerationCacheKind } from '../lib/generationCacheStore.js';
+import {
+    createLocalGenerationProvider,
+    localMediaPath,
+    localMediaMimeType,
+} from '../lib/localGenerationProvider.js';
 import {
     buildShotImagePrompt,
     buildShotGenerationPayload,
     composeAllPrompts,
 } from '../lib/shotPromptCompiler.js';
+import { foldNegativeIntoPrompt, getPromptDialect } from '../lib/promptDialects.js';
+import { diffGenerations, diffShotVersions } from '../lib/promptDiff.js';
+import {
+    directorRuleFailReasons,
+    enforceDirectorRules,
+    mergeDirectorRuleReports,
+    parseDirectorRules,
+    SCENE_RULE_FIELDS,
+    SHOT_RULE_FIELDS,
+    type DirectorRuleReport,
+} from '../lib/directorRules.js';
+import {
+    getVerifierProfile,
+    listVerifierProfiles,
+    resolveVerifierProfile,
+    VERIFIER_PROFILE_BY_PROJECT_TYPE,
+} from '../lib/verifierProfiles.js';
+import { buildShotSimilarityIndex } from '../lib/shotSimilarityIndex.js';
+import {
+    checkStoryStructure,
+    getStructureTemplate,
+    listStructureTemplates,
+    planStructureSlots,
+    DEFAULT_STRUCTURE_TEMPLATE_ID,
+} from '../lib/storyStructure.js';
+import { editShotGraph, ShotGraphEditError, type ShotGraphEdit } from '../lib/shotGraphEditor.js';
+import { scoreShotPerceptualContinuity } from '../lib/perceptualContinuity.js';
+import { assertSafePublicUrl } from '../lib/publicUrl.js';
+import { buildPaletteConsistencyReport, isValidColorGrade, type PaletteShotInput } from '../lib/paletteConsistency.js';
+import { buildContinuityLedger, ledgerStatesForShot, type ContinuityLedger, type ContinuityLedgerSources } from '../lib/continuityLedger.js';
+import { buildContinuityLog, renderContinuityLogHtml, renderContinuityLogPdf } from '../lib/continuityLog.js';
+import type { ContinuityStatePin } from '../types.js';
+import { ADDON_SERVICES } from '../types.js';
+import {
+    buildMustShowChecklist,
+    buildMustShowVisionPrompt,
+    configuredMustShowProviderName,
+    createStubMustShowProvider,
+    failedMustShowCheck,
+    getMustShowProvider,
+    mergeMustShowIntoReport,
+    parseMustShowVisionResponse,
+    registerMustShowProvider,
+    resolveMustShowProvider,
+    verifyMustShow,
+    type MustShowFrame,
+} from '../lib/mustShowVerifier.js';
 import {
     extractCharacterBibles,
     extractDirectorBrainForShot,
@@ -63,7 +188,11 @@ import {
     buildVerificationReport,
     buildSequenceContext,
     validateContinuityAgainstPrevNext,
+    resolveBranchSequence,
+    ShotBranchError,
+    type ShotGraphBranch,
 } from '../lib/directorOS.js';
+import { compareShotBranches, normalizeShotBranches } from '../lib/shotBranches.js';
 
 
 // ═══════════════════════════════════════════════════════════════
@@ -90,45 +219,6 @@ type VideoModel =
     | 'seedance_pro'          // ★ ByteDance Seedance Pro - 首帧尾帧
     | 'sora_2';              // ★ OpenAI Sora 2 - 最新AI
 type ImageModel = 'flux' | 'flux_schnell' | 'nano_banana';
-type BatchJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-type BatchItemStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
-
-interface BatchJob {
-    id: string;
-    project_id: string;
-    user_id?: string;
-    type: 'gen_images' | 'gen_images_continue';
-    total: number;
-    done: number;
-    succeeded: number;
-    failed: number;
-    status: BatchJobStatus;
-    created_at: string;
-    updated_at: string;
-    concurrency: number;
-    range_start_scene?: number;
-    range_start_shot?: number;
-    range_end_scene?: number;
-    range_end_shot?: number;
-    strategy?: 'strict' | 'skip_failed';
-    all_done?: boolean;
-    remaining_count?: number;
-}
-
-interface BatchJobItem {
-    id: string;
-    job_id: string;
-    shot_id: string;
-    shot_number: number;
-    scene_number: number;
-    status: BatchItemStatus;
-    image_id?: string;
-    image_url?: string;
-    error?: string;
-    started_at?: string;
-    completed_at?: string;
-}
-
 const REPLICATE_MODEL_PATHS: Record<VideoModel | ImageModel, string> = {
     // ★ 性价比模型
     wan_2_2_fast: "wan-video/wan-2.2-i2v-fast",
@@ -550,11 +640,13 @@ app.post('/api/billing/webhook', express.raw({ type: 'application/json' }), asyn
         let creditsToGrant = 0;
         let isSubscription = false;
         let planTier = '';
+        let addonToGrant = '';
         const eventRefId = String(event.id || obj.id || '');
 
         if (event.type === 'checkout.session.completed' && obj.mode === 'payment') {
             userId = obj.client_reference_id || obj.metadata?.user_id;
             creditsToGrant = Number(obj.metadata?.credits || 0);
+            addonToGrant = String(obj.metadata?.addon || '');
         } else if (event.type === 'invoice.paid' && obj.subscription) {
             try {
                 const subscription = await stripe.subscriptions.retrieve(obj.subscription as string);
@@ -571,6 +663,24 @@ app.post('/api/billing/webhook', express.raw({ type: 'application/json' }), asyn
             }
         }
 
+        // Add-ons from ADDON_SERVICES (e.g. priority_queue) are kept on profiles.addons;
+        // granting one twice is a no-op, so a replayed event needs no ledger row
+        if (userId && addonToGrant && Object.prototype.hasOwnProperty.call(ADDON_SERVICES, addonToGrant)) {
+            const supabaseUrl = (process.env.VITE_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '').trim();
+            const supabaseKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
+            if (supabaseUrl && supabaseKey) {
+                const supabase = createClient(supabaseUrl, supabaseKey);
+                const { error: addonErr } = await supabase.rpc('grant_profile_addon', { target_user_id: userId, addon: addonToGrant });
+                if (addonErr) {
+                    logger.payment.error('addon_grant_failed', addonErr.message, { userId, addon: addonToGrant, eventRef: eventRefId });
+                    return res.status(500).json({ error: 'Add-on grant failed' });
+                }
+                // The scheduler tier is cached per user; the new add-on applies from the next call
+                schedulingTierCache.delete(userId);
+                logger.payment.info('addon_granted', { userId, addon: addonToGrant, eventRef: eventRefId });
+            }
+        }
+
         if (userId && creditsToGrant > 0) {
             const supabaseUrl = (process.env.VITE_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '').trim();
             const supabaseKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
@@ -652,6 +762,15 @@ const getSupabaseAdmin = () => {
     return _supabaseAdminSingleton;
 };
 
+// Storyboard pipeline runtime is event-sourced; pick the durable backend once at boot
+configurePipelineStore(createPipelineStoreFromEnv(getSupabaseAdmin));
+// Every runtime event is also fanned out to GET /api/pipeline/:projectId/events subscribers
+onPipelineEvent(publishRuntimeEvent);
+// Batch jobs and their items outlive the process that started them
+configureBatchQueue(createBatchQueueStoreFromEnv(getSupabaseAdmin));
+// Identical generations are served from the content-addressed cache instead of re-paying
+configureGenerationCache(createGenerationCacheStoreFromEnv(getSupabaseAdmin));
+
 const getStripe = () => {
     const key = process.env.STRIPE_SECRET_KEY?.replace(/\s+/g, '');
     if (!key) throw new Error('STRIPE_SECRET_KEY missing');
@@ -726,82 +845,58 @@ const computeDeterministicShotSeed = (projectSeed: number, shotId: string, shotN
 };
 
 // ★ Replicate Request Queue (prevent 429 rate limit errors)
-// Queues all Replicate API calls to limit concurrency and retry with backoff
-interface ReplicateQueuedRequest {
-    id: string;
-    fn: () => Promise<Response>;
-    resolve: (val: Response) => void;
-    reject: (err: any) => void;
-    retries: number;
+// Every Replicate API call first takes a token from its model's adaptive bucket
+// (lib/modelRateLimiter.ts; status polls use the separate poll bucket), then waits for a 'replicate' slot in the fair-share
+// generation scheduler. A 429 slows that model's bucket down and the retry waits
+// out Retry-After; 503s retry with backoff. Both waits happen outside the slot.
+interface ReplicateRequestOwner {
+    userId?: string;
+    tier?: SchedulerTier;
+    /** REPLICATE_MODEL_PATHS key or model path; ignored for polls, which use the poll bucket. */
+    model?: string;
 }
 
-const replicateQueue: ReplicateQueuedRequest[] = [];
-let replicateProcessing = false;
-const MAX_CONCURRENT_REPLICATE = 2;  // 2 concurrent requests max
-const REPLICATE_RETRY_DELAY_MS = 2000; // 2 second base delay
+const REPLICATE_RETRY_DELAY_MS = 2000; // 2 second base delay (503)
 const MAX_REPLICATE_RETRIES = 3;
 
-const enqueueReplicateRequest = async (fn: () => Promise<Response>): Promise<Response> => {
-    return new Promise((resolve, reject) => {
-        replicateQueue.push({
-            id: `req-${Date.now()}-${Math.random()}`,
-            fn,
-            resolve,
-            reject,
-            retries: 0,
-        });
-        processReplicateQueue();
-    });
-};
+const replicateRateLimiters = new ModelRateLimiterRegistry({
+    limits: parseModelRateLimits(process.env.REPLICATE_MODEL_RATE_LIMITS),
+    modelPaths: REPLICATE_MODEL_PATHS,
+});
 
-const processReplicateQueue = async () => {
-    if (replicateProcessing || replicateQueue.length === 0) {
-        return;
+// One Replicate call under its model's bucket: a 429 throttles the bucket and the
+// next acquire() waits out Retry-After; 503s retry with backoff.
+const withReplicateRateLimit = async (
+    limiter: TokenBucketLimiter,
+    send: () => Promise<Response>
+): Promise<Response> => {
+    for (let retries = 0; ; retries += 1) {
+        await limiter.acquire();
+        const response = await send();
+        limiter.observe(response.status, response.headers);
+
+        // 429 = rate limited (the bucket now holds the retry), 503 = service unavailable
+        if ((response.status === 429 || response.status === 503) && retries < MAX_REPLICATE_RETRIES) {
+            const delay = response.status === 429 ? limiter.msUntilTokens(1) : REPLICATE_RETRY_DELAY_MS * Math.pow(2, retries);
+            console.log(`[Replicate Queue] ${response.status} for ${limiter.model}, retry ${retries + 1}/${MAX_REPLICATE_RETRIES} after ${delay}ms`);
+            if (response.status === 503) await new Promise(r => setTimeout(r, delay));
+            continue;
+        }
+        // Max retries exceeded: the caller sees the 429/503 response
+        return response;
     }
+};
 
-    replicateProcessing = true;
-
-    try {
-        while (replicateQueue.length > 0) {
-            // Process up to MAX_CONCURRENT_REPLICATE at a time
-            const batch = replicateQueue.splice(0, MAX_CONCURRENT_REPLICATE);
-            const promises = batch.map(async (req) => {
-                try {
-                    const response = await req.fn();
-
-                    // 429 = rate limited, 503 = service unavailable
-                    if (response.status === 429 || response.status === 503) {
-                        if (req.retries < MAX_REPLICATE_RETRIES) {
-                            req.retries += 1;
-                            const delay = REPLICATE_RETRY_DELAY_MS * Math.pow(2, req.retries - 1);
-                            console.log(`[Replicate Queue] 429/503 detected, retry ${req.retries}/${MAX_REPLICATE_RETRIES} after ${delay}ms`);
-
-                            // Re-queue with exponential backoff
-                            await new Promise(r => setTimeout(r, delay));
-                            replicateQueue.unshift(req);
-                            return;
-                        } else {
-                            // Max retries exceeded, return 429 response
-                            req.resolve(response);
-                            return;
-                        }
-                    }
-
-                    req.resolve(response);
-                } catch (err) {
-                    req.reject(err);
-                }
-            });
-
-            await Promise.all(promises);
-        }
-    } finally {
-        replicateProcessing = false;
-        // If new requests were added during processing, continue
-        if (replicateQueue.length > 0) {
-            processReplicateQueue();
-        }
-    }
+const enqueueReplicateRequest = async (
+    fn: () => Promise<Response>,
+    owner: ReplicateRequestOwner = {},
+    kind: 'replicate:predict' | 'replicate:poll' = 'replicate:predict'
+): Promise<Response> => {
+    const limiter = replicateRateLimiters.forModel(kind === 'replicate:poll' ? POLL_BUCKET : owner.model);
+    return withReplicateRateLimit(limiter, () => generationScheduler.schedule(
+        { userId: owner.userId || 'anonymous', tier: owner.tier, provider: 'replicate', kind },
+        fn
+    ));
 };
 
 const isDuplicateKeyError = (errorLike: any): boolean => {
@@ -845,36 +940,6 @@ const ensureProfileExists = async (supabaseAdmin: any, userId: string, email: st
     }
 };
 
-const isPrivateHostname = (hostname: string): boolean => {
-    const host = hostname.toLowerCase();
-    if (!host) return true;
-    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true;
-    if (host === '::1' || host === '[::1]') return true;
-    if (/^127\./.test(host) || /^10\./.test(host) || /^192\.168\./.test(host) || /^169\.254\./.test(host)) return true;
-    if (/^172\.(1[6-9]|2\d|3[0-1])\./.test(host)) return true;
-    if (/^(fc|fd|fe80):/i.test(host)) return true;
-    return false;
-};
-
-const assertSafePublicUrl = (rawUrl: string): URL => {
-    let parsed: URL;
-    try {
-        parsed = new URL(String(rawUrl || '').trim());
-    } catch {
-        throw new Error('Invalid url');
-    }
-
-    if (!/^https?:$/i.test(parsed.protocol)) {
-        throw new Error('Only http(s) URLs are allowed');
-    }
-
-    if (isPrivateHostname(parsed.hostname)) {
-        throw new Error('Private network URLs are not allowed');
-    }
-
-    return parsed;
-};
-
 // --- Auth ---
 const requireAuth = async (req: any, res: any, next: any) => {
     const authHeader = req.headers.authorization;
@@ -1266,7 +1331,7 @@ const isAdminUser = (email: string | undefined): boolean => {
     return isDeveloper(email);
 };
 
-// MiniMax removed — all text and vision calls now use Gemini (getGeminiTextCompletion)
+// MiniMax removed — all text and vision calls now use Gemini (getTextCompletion)
 
 // ═══════════════════════════════════════════════════════════════
 // Entitlement Types
@@ -1402,6 +1467,30 @@ const checkEntitlement = async (
     };
 };
 
+// ★ Scheduling tier — fair-share weight of a user's generation calls
+// (plan_type / is_pro, or the priority_queue add-on). Cached briefly since
+// every Replicate call and batch item needs it.
+const SCHEDULING_TIER_TTL_MS = 60_000;
+const schedulingTierCache = new Map<string, { tier: SchedulerTier; at: number }>();
+
+const resolveSchedulingTier = async (userId?: string, email?: string): Promise<SchedulerTier> => {
+    if (!userId) return 'free';
+    if (email && isDeveloper(email)) return 'priority';
+    const cached = schedulingTierCache.get(userId);
+    if (cached && Date.now() - cached.at < SCHEDULING_TIER_TTL_MS) return cached.tier;
+
+    let tier: SchedulerTier = 'free';
+    try {
+        // select('*') so profiles without the addons column still resolve plan tiers
+        const { data } = await getSupabaseAdmin().from('profiles').select('*').eq('id', userId).maybeSingle();
+        tier = tierForProfile(data as any);
+    } catch (e: any) {
+        logger.auth.warn('scheduling_tier_lookup_failed', { userId, error: e?.message });
+    }
+    schedulingTierCache.set(userId, { tier, at: Date.now() });
+    return tier;
+};
+
 const isNsfwError = (text: string) => /nsfw|safety|moderation|content policy/i.test(text || '');
 
 const sanitizePromptForSafety = (prompt: string) => {
@@ -1550,6 +1639,7 @@ async function preprocessVideoInput(input: Record<string, any>): Promise<Record<
 app.post('/api/replicate/generate-image', requireAuth, async (req: any, res: any) => {
     try {
         const { prompt, imageModel, visualStyle, aspectRatio, characterAnchor, referenceImageDataUrl, storyEntities } = req.body;
+        const cacheMode = parseGenerationCacheMode(req.body?.cache);
         const authHeader = `Bearer ${req.accessToken}`;
         const userId = req.user?.id;
         const userEmail = req.user?.email;
@@ -1572,6 +1662,52 @@ app.post('/api/replicate/generate-image', requireAuth, async (req: any, res: any
         const skipCreditCheck = entitlement.mode === 'developer';
         const jobRef = `replicate-img:${Date.now()}:${Math.random().toString(36).slice(2)}`;
 
+        // ★ Build strict consistency instructions from Story Entities
+        let entityRules = '';
+        if (Array.isArray(storyEntities) && storyEntities.length > 0) {
+            const lockedEntities = storyEntities.filter(e => e.is_locked);
+            if (lockedEntities.length > 0) {
+                entityRules = `\n[IDENTITY LOCK] Ensure the following entities appear exactly as described: ` +
+                    lockedEntities.map(e => `[${e.type.toUpperCase()}: ${e.name}] ${e.description}`).join(' | ');
+            }
+        }
+
+        // Fallback to legacy character anchor if no new entities are passed
+        const legacyAnchorRule = (characterAnchor && !entityRules.includes('[CHARACTER:'))
+            ? `\n[IDENTITY LOCK] The character must look EXACTLY like this description: ${characterAnchor}. Same hair, same clothing, same features.`
+            : '';
+
+        const promptWithLocks = `${prompt} ${entityRules} ${legacyAnchorRule}`.trim();
+        const finalPrompt = appendLockedCastToPrompt(promptWithLocks, storyEntities);
+        const nonHumanGuide = detectNonHumanCharacterGuide(
+            finalPrompt,
+            characterAnchor,
+            ...(Array.isArray(storyEntities) ? storyEntities.map((e: any) => `${e?.name || ''} ${e?.description || ''}`) : [])
+        );
+        const modelToRun = (REPLICATE_MODEL_PATHS as any)[imageModel] || REPLICATE_MODEL_PATHS['flux'];
+        const useUniversalGuide = !!referenceImageDataUrl;
+        const disableFaceCloning = nonHumanGuide.hasNonHuman || isRemoteImageReference(referenceImageDataUrl);
+        const imageParams: Parameters<typeof callReplicateImage>[0] = {
+            prompt: finalPrompt,
+            model: modelToRun,
+            aspectRatio: aspectRatio || '16:9',
+            seed: null,
+            imagePrompt: useUniversalGuide ? referenceImageDataUrl : undefined,
+            referenceImageDataUrl: referenceImageDataUrl,
+            disableFaceCloning,
+            allowReferenceFallback: true,
+        };
+
+        // ★ Identical request already generated for this user → serve it without reserving credits
+        const cache = prepareGenerationCache(imageCacheRequest('image', imageParams), cacheMode);
+        if (cache.mode !== 'bypass') {
+            const hit = await lookupGenerationCache(userId, cache.key);
+            if (hit?.entry.output_url) {
+                res.setHeader('X-Generation-Cache', 'hit');
+                return res.json({ url: hit.entry.output_url, cache: { hit: true, key: cache.key } });
+            }
+        }
+
         const supabaseUser = createClient(
             (process.env.VITE_SUPABASE_URL || '').trim(),
             (process.env.VITE_SUPABASE_ANON_KEY || '').trim(),
@@ -1589,44 +1725,10 @@ app.post('/api/replicate/generate-image', requireAuth, async (req: any, res: any
 
         let resultUrl = '';
         try {
-            // ★ Build strict consistency instructions from Story Entities
-            let entityRules = '';
-            if (Array.isArray(storyEntities) && storyEntities.length > 0) {
-                const lockedEntities = storyEntities.filter(e => e.is_locked);
-                if (lockedEntities.length > 0) {
-                    entityRules = `\n[IDENTITY LOCK] Ensure the following entities appear exactly as described: ` +
-                        lockedEntities.map(e => `[${e.type.toUpperCase()}: ${e.name}] ${e.description}`).join(' | ');
-                }
-            }
-
-            // Fallback to legacy character anchor if no new entities are passed
-            const legacyAnchorRule = (characterAnchor && !entityRules.includes('[CHARACTER:'))
-                ? `\n[IDENTITY LOCK] The character must look EXACTLY like this description: ${characterAnchor}. Same hair, same clothing, same features.`
-                : '';
-
-            const promptWithLocks = `${prompt} ${entityRules} ${legacyAnchorRule}`.trim();
-            const finalPrompt = appendLockedCastToPrompt(promptWithLocks, storyEntities);
-            const nonHumanGuide = detectNonHumanCharacterGuide(
-                finalPrompt,
-                characterAnchor,
-                ...(Array.isArray(storyEntities) ? storyEntities.map((e: any) => `${e?.name || ''} ${e?.description || ''}`) : [])
-            );
-            const modelToRun = (REPLICATE_MODEL_PATHS as any)[imageModel] || REPLICATE_MODEL_PATHS['flux'];
-            const useUniversalGuide = !!referenceImageDataUrl;
-            const disableFaceCloning = nonHumanGuide.hasNonHuman || isRemoteImageReference(referenceImageDataUrl);
-
             // ★ Replicate image generation (Flux / PuLID face-clone)
-            const result = await callReplicateImage({
-                prompt: finalPrompt,
-                model: modelToRun,
-                aspectRatio: aspectRatio || '16:9',
-                seed: null,
-                imagePrompt: useUniversalGuide ? referenceImageDataUrl : undefined,
-                referenceImageDataUrl: referenceImageDataUrl,
-                disableFaceCloning,
-                allowReferenceFallback: true,
-            });
+            const result = await generateImageWithProvider(imageParams);
             resultUrl = result.url;
+            await storeGenerationResult({ ...cache, userId, outputUrl: result.url, predictionId: result.predictionId });
         } catch (genErr: any) {
             if (!skipCreditCheck) { try { await supabaseUser.rpc('refund_reserve', { amount: cost, ref_type: 'replicate-img', ref_id: jobRef }); } catch (_) { } }
             throw genErr;
@@ -1634,7 +1736,8 @@ app.post('/api/replicate/generate-image', requireAuth, async (req: any, res: any
 
         if (!skipCreditCheck) { await supabaseUser.rpc('finalize_reserve', { ref_type: 'replicate-img', ref_id: jobRef }); }
 
-        res.json({ url: resultUrl });
+        res.setHeader('X-Generation-Cache', cache.mode === 'bypass' ? 'bypass' : 'miss');
+        res.json({ url: resultUrl, cache: { hit: false, key: cache.key } });
     } catch (err: any) {
         console.error('[/api/replicate/generate-image Error]', err);
         if (err.message === 'FACE_ALIGN_FAIL') {
@@ -1662,6 +1765,7 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
     const traceId: string = req.traceId || generateTraceId();
     let { version, input: rawInput, storyEntities, continuity, project_id, shot_id } = req.body;
     const requireApprovedStoryboard = req.body?.require_approved_storyboard === true;
+    const cacheMode = parseGenerationCacheMode(req.body?.cache);
 
     // --- Input Validation ---
     if (!version) {
@@ -1672,10 +1776,8 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
         storyEntities = (rawInput as any).storyEntities;
     }
 
-    if (requireApprovedStoryboard && project_id && shot_id) {
-        if (!getProjectRuntime(project_id)) {
-            await restorePipelineStateFromDB(project_id);
-        }
+    if (project_id) {
+        await loadProjectRuntime(project_id);
     }
     if (requireApprovedStoryboard && project_id && shot_id && !hasApprovedStoryboard(project_id, shot_id)) {
         logger.pipeline.warn('storyboard_not_approved', { project_id, shot_id }, traceId);
@@ -1684,8 +1786,20 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
         ));
     }
 
-    if (project_id && shot_id && hasApprovedStoryboard(project_id, shot_id)) {
-        setProjectStage(project_id, 'video_generating');
+    // The project only enters video_generating once every non-skipped shot is approved;
+    // a video for a project whose stage machine rejects start_video is refused.
+    const predictRuntime = project_id ? getProjectRuntime(project_id) : null;
+    if (predictRuntime && predictRuntime.stage !== 'video_generating') {
+        const check = checkStageTransition(predictRuntime, 'start_video');
+        if (check.allowed === true) {
+            transitionProjectStage(project_id, 'start_video', { actor: req.user?.id, reason: `video requested for ${shot_id || 'project'}` });
+            await flushPipelineEvents(project_id);
+        } else {
+            logger.pipeline.warn('video_transition_rejected', { project_id, shot_id, stage: predictRuntime.stage }, traceId);
+            return res.status(409).json(createErrorResponse(
+                createError.invalidPipelineTransition(project_id, 'start_video', predictRuntime.stage, check.rejection), traceId
+            ));
+        }
     }
 
     // Log story entities for debugging character consistency
@@ -1724,6 +1838,7 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
     if (skipCreditCheck) {
         logDeveloperAccess(userEmail, `replicate:${version}:cost=${estimatedCost}`);
     }
+    const queueOwner: ReplicateRequestOwner = { userId, tier: await resolveSchedulingTier(userId, userEmail), model: version };
 
     // User-context client for RPC
     const supabaseUser = createClient(
@@ -1732,33 +1847,11 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
         { global: { headers: { Authorization: authHeader } } }
     );
 
-    // 1) Reserve credits (skip for GOD MODE)
-    let reserved = true;
-    if (!skipCreditCheck) {
-        const { data, error: reserveErr } = await supabaseUser.rpc('reserve_credits', {
-            amount: estimatedCost,
-            ref_type: 'replicate',
-            ref_id: jobRef
-        });
-        reserved = data;
-
-        if (reserveErr) {
-            logger.payment.error('reserve_failed', reserveErr.message || 'Reserve error', { userId, jobRef }, traceId);
-            return res.status(500).json(createErrorResponse(createError.internalError('Credit reserve failed'), traceId));
-        }
-
-        if (!reserved) {
-            return res.status(402).json({
-                error: 'INSUFFICIENT_CREDITS',
-                code: 'INSUFFICIENT_CREDITS',
-                message: 'Insufficient credits'
-            });
-        }
-    }
+    // Credits are reserved once the final input is known and the cache missed
+    let reserved = false;
 
     // 2) Call Replicate
     try {
-        const token = getReplicateToken();
         const base = 'https://api.replicate.com/v1';
 
         // ★ Preprocess input for video models - convert expired image URLs to base64
@@ -1834,13 +1927,6 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
                 input = await preprocessVideoInput(input);
             } catch (err: any) {
                 // Image download failed (likely expired URL)
-                if (!skipCreditCheck) {
-                    await supabaseUser.rpc('refund_reserve', {
-                        amount: estimatedCost,
-                        ref_type: 'replicate',
-                        ref_id: jobRef
-                    });
-                }
                 return res.status(400).json({
                     error: err.message,
                     code: 'IMAGE_EXPIRED'
@@ -1906,7 +1992,108 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
             }
         }
 
+        // Models without a negative_prompt input (Seedance, Sora) take negatives inline
+        const dialect = promptDialectForPath(version);
+        if (promptField && dialect?.negativePrompt === 'inline' && input.negative_prompt) {
+            input[promptField] = foldNegativeIntoPrompt(String(input[promptField] || ''), input.negative_prompt, dialect.maxNegativeChars);
+            delete input.negative_prompt;
+        }
+
+        // ★ Identical prediction already made for this user → return it (or the one still running)
+        //   without reserving credits
+        const mediaCapability = isVideoModelRequest(version) ? 'video' : 'image';
+        const predictionCacheRequest = (model: string, sentInput: Record<string, any>): GenerationCacheRequest => ({
+            kind: 'prediction',
+            provider: configuredProviderName(mediaCapability),
+            model,
+            prompt: String(promptField ? sentInput[promptField] || '' : ''),
+            negativePrompt: sentInput.negative_prompt,
+            aspectRatio: sentInput.aspect_ratio,
+            seed: sentInput.seed ?? null,
+            references: [sentInput.image],
+            params: { input: sentInput },
+        });
+        const cache = prepareGenerationCache(predictionCacheRequest(version, input), cacheMode);
+        if (cache.mode !== 'bypass') {
+            const hit = await lookupGenerationCache(userId, cache.key, { acceptPending: true });
+            if (hit?.entry.output?.id) {
+                logger.replicate.info('prediction_cache_hit', { key: cache.key, pending: hit.pending, project_id, shot_id }, traceId);
+                res.setHeader('X-Generation-Cache', 'hit');
+                return res.json({ ...hit.entry.output, cache: { hit: true, key: cache.key } });
+            }
+        }
+        res.setHeader('X-Generation-Cache', cache.mode === 'bypass' ? 'bypass' : 'miss');
+        const cachePrediction = (prediction: ReplicateResponse, entry = cache) => storeGenerationResult({
+            ...entry,
+            userId,
+            outputUrl: prediction.status === 'succeeded' ? (Array.isArray(prediction.output) ? prediction.output[0] : prediction.output) || null : null,
+            output: prediction,
+            predictionId: prediction.id,
+            status: prediction.status === 'succeeded' ? 'ready' : 'pending',
+        });
+
+        // 1) Reserve credits (skip for GOD MODE)
+        if (!skipCreditCheck) {
+            const { data, error: reserveErr } = await supabaseUser.rpc('reserve_credits', {
+                amount: estimatedCost,
+                ref_type: 'replicate',
+                ref_id: jobRef
+            });
+
+            if (reserveErr) {
+                logger.payment.error('reserve_failed', reserveErr.message || 'Reserve error', { userId, jobRef }, traceId);
+                return res.status(500).json(createErrorResponse(createError.internalError('Credit reserve failed'), traceId));
+            }
+
+            if (!data) {
+                return res.status(402).json({
+                    error: 'INSUFFICIENT_CREDITS',
+                    code: 'INSUFFICIENT_CREDITS',
+                    message: 'Insufficient credits'
+                });
+            }
+            reserved = true;
+        }
+
+        // ★ Other providers (e.g. local) render synchronously: answer with a finished prediction
+        const mediaProvider = resolveGenerationProvider(mediaCapability);
+        if (mediaProvider.name !== 'replicate') {
+            const promptText = String(input.prompt || input.motion_prompt || input.video_prompt || '');
+            const result = isVideoModelRequest(version)
+                ? await mediaProvider.generateVideo!({
+                    prompt: promptText,
+                    model: version,
+                    imageUrl: input.image,
+                    durationSec: Number(input.duration) || undefined,
+                    aspectRatio: input.aspect_ratio,
+                    input,
+                })
+                : await mediaProvider.generateImage!({
+                    prompt: promptText,
+                    model: version,
+                    aspectRatio: input.aspect_ratio,
+                    seed: input.seed ?? null,
+                    negativePrompt: input.negative_prompt,
+                });
+            const prediction = rememberProviderPrediction({
+                id: result.predictionId || `${mediaProvider.name}-${Date.now()}`,
+                status: 'succeeded',
+                output: result.url,
+            });
+            if (!skipCreditCheck) {
+                await supabaseUser.rpc('finalize_reserve', {
+                    ref_type: 'replicate',
+                    ref_id: jobRef
+                });
+            }
+            await cachePrediction(prediction);
+            logger.replicate.info('provider_prediction', { provider: mediaProvider.name, version, project_id, shot_id }, traceId);
+            watchProjectPrediction(project_id, prediction, { shotId: shot_id, kind: mediaCapability });
+            return res.json(prediction);
+        }
+
         // ★ Use request queue to avoid Replicate 429 rate limits
+        const token = getReplicateToken();
         const response = await enqueueReplicateRequest(() =>
             fetch(targetUrl, {
                 method: 'POST',
@@ -1916,7 +2103,8 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
                     Prefer: 'wait',
                 },
                 body: JSON.stringify(isModelPath ? { input } : { version, input }),
-            })
+            }),
+            queueOwner
         );
 
         if (!response.ok) {
@@ -1929,6 +2117,7 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
                     ? version
                     : 'black-forest-labs/flux-schnell';
                 const fallbackTargetUrl = `${base}/models/${fallbackVersion}/predictions`;
+                const fallbackInput = { ...input, prompt: safePrompt };
                 const fallbackResponse = await enqueueReplicateRequest(() =>
                     fetch(fallbackTargetUrl, {
                         method: 'POST',
@@ -1937,8 +2126,9 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
                             'Content-Type': 'application/json',
                             Prefer: 'wait',
                         },
-                        body: JSON.stringify({ input: { ...input, prompt: safePrompt } })
-                    })
+                        body: JSON.stringify({ input: fallbackInput })
+                    }),
+                    { ...queueOwner, model: fallbackVersion }
                 );
 
                 if (fallbackResponse.ok) {
@@ -1946,12 +2136,15 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
                     if (keepModelForContinuity) {
                         logger.replicate.warn('nsfw_fallback_kept_model', { reason: 'continuity_lock' }, traceId);
                     }
+                    // Cached under the request actually sent, so the original prompt keeps missing
+                    await cachePrediction(prediction, prepareGenerationCache(predictionCacheRequest(fallbackVersion, fallbackInput), cache.mode));
                     if (!skipCreditCheck) {
                         await supabaseUser.rpc('finalize_reserve', {
                             ref_type: 'replicate',
                             ref_id: jobRef
                         });
                     }
+                    watchProjectPrediction(project_id, prediction, { shotId: shot_id, kind: mediaCapability });
                     return res.json(prediction);
                 }
             }
@@ -1968,6 +2161,7 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
         }
 
         const prediction = await response.json() as ReplicateResponse;
+        if (!['failed', 'canceled'].includes(prediction.status)) await cachePrediction(prediction);
 
         // 3b) Finalize reserve (skip for admin)
         if (!skipCreditCheck) {
@@ -1977,12 +2171,13 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
             });
         }
 
+        watchProjectPrediction(project_id, prediction, { shotId: shot_id, kind: mediaCapability });
         res.json(prediction);
 
     } catch (err: any) {
         logger.replicate.error('predict_error', (err as any)?.message || String(err));
         // Safety refund on unexpected error (skip for admin)
-        if (!skipCreditCheck) {
+        if (reserved) {
             await supabaseUser.rpc('refund_reserve', {
                 amount: estimatedCost,
                 ref_type: 'replicate',
@@ -1997,16 +2192,22 @@ app.post('/api/replicate/predict', requireAuth, async (req: any, res: any) => {
 app.get('/api/replicate/status/:id', requireAuth, async (req: any, res: any) => {
     try {
         const { id } = req.params;
+        const providerPrediction = providerPredictions.get(id);
+        if (providerPrediction) return res.json(providerPrediction);
         const token = getReplicateToken();
 
         const response = await enqueueReplicateRequest(() =>
             fetch(`https://api.replicate.com/v1/predictions/${id}`, {
                 headers: { Authorization: `Bearer ${token}` }
-            })
+            }),
+            { userId: req.user?.id, tier: await resolveSchedulingTier(req.user?.id, req.user?.email) },
+            'replicate:poll'
         );
 
         if (!response.ok) return res.status(response.status).json({ error: await response.text() });
         const prediction = await response.json() as ReplicateResponse;
+        // Cache the prediction as Replicate returned it, before the audio engine rewrites the output
+        await settleCachedPrediction(prediction);
 
         // --- AUDIO ENGINE INTEGRATION (BYPASSABLE) ---
         // Only run if the video prediction succeeded and Audio Engine is enabled
@@ -2100,7 +2301,7 @@ const getGeminiAI = () => {
 const GEMINI_TEXT_MODEL = 'gemini-2.0-flash';
 // NOTE: Gemini is ONLY used for planning/analysis/text. Image and video generation use Replicate.
 
-const getGeminiTextCompletion = async (promptContent: any, options: {
+const callGeminiTextCompletion = async (promptContent: any, options: {
     systemInstruction?: string;
     temperature?: number;
     responseMimeType?: string;
@@ -2152,6 +2353,14 @@ const getGeminiTextCompletion = async (promptContent: any, options: {
     return ''; // unreachable but satisfies TS
 };
 
+// ★ Text/planning entry point: routes to the configured llm provider (Gemini unless GENERATION_PROVIDER[_LLM] says otherwise)
+const getTextCompletion = async (promptContent: any, options: Parameters<typeof callGeminiTextCompletion>[1] = {}): Promise<string> => {
+    const provider = resolveGenerationProvider('llm');
+    if (provider.name === 'gemini') return callGeminiTextCompletion(promptContent, options);
+    const result = await provider.completeText!({ prompt: promptContent, ...options });
+    return result.text;
+};
+
 const storyBrainSchema = {
     // @ts-ignore
     type: Type.OBJECT,
@@ -2213,6 +2422,8 @@ const storyBrainSchema = {
                     // @ts-ignore
                     act: { type: Type.INTEGER },
                     // @ts-ignore
+                    structure_beat: { type: Type.STRING },
+                    // @ts-ignore
                     location: { type: Type.STRING },
                     // @ts-ignore
                     time_of_day: { type: Type.STRING },
@@ -2394,7 +2605,7 @@ app.post('/api/gemini/generate', requireAuth, async (req: any, res: any) => {
     const traceId: string = req.traceId || generateTraceId();
     const jobRef = `gemini:${Date.now()}:${Math.random().toString(36).slice(2)}`;
     try {
-        const { storyIdea, visualStyle, language, identityAnchor, sceneCount, directorControls } = req.body;
+        const { storyIdea, visualStyle, language, identityAnchor, sceneCount, directorControls, verifierProfile, projectType, structureTemplate } = req.body;
         const safeStoryIdea = sanitizePromptInput(storyIdea, 2500);
         const safeVisualStyle = sanitizePromptInput(visualStyle, 300);
         const safeIdentityAnchor = sanitizePromptInput(identityAnchor, 1000);
@@ -2408,6 +2619,18 @@ app.post('/api/gemini/generate', requireAuth, async (req: any, res: any) => {
         if (!safeStoryIdea) {
             return res.status(400).json(createErrorResponse(createError.missingField('storyIdea'), traceId));
         }
+        if (verifierProfile != null && (typeof verifierProfile !== 'string' || !getVerifierProfile(verifierProfile))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('verifierProfile', '未知的校验配置'), traceId));
+        }
+        if (projectType != null && !(projectType in VERIFIER_PROFILE_BY_PROJECT_TYPE)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('projectType', '未知的项目类型'), traceId));
+        }
+        const structure = structureTemplate != null && typeof structureTemplate === 'string'
+            ? getStructureTemplate(structureTemplate)
+            : undefined;
+        if (structureTemplate != null && !structure) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('structureTemplate', '未知的故事结构模板'), traceId));
+        }
 
         const targetScenes = Math.min(Math.max(Number(sceneCount) || 5, 1), 50);
         const nonHumanGuide = detectNonHumanCharacterGuide(safeStoryIdea, safeIdentityAnchor);
@@ -2462,6 +2685,7 @@ app.post('/api/gemini/generate', requireAuth, async (req: any, res: any) => {
             identityAnchor: safeIdentityAnchor,
             sceneCount: targetScenes,
             directorControls: safeDirectorControls,
+            structure: structure ? { template: structure, plan: planStructureSlots(structure, targetScenes) } : undefined,
         });
 
         const systemInstruction = `You are an elite cinematic AI director capable of pre-visualizing both character-driven narratives and zero-character sequences.
@@ -2469,7 +2693,7 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
 
         let storyBrainResponse = '';
         try {
-            storyBrainResponse = await getGeminiTextCompletion(
+            storyBrainResponse = await getTextCompletion(
                 storyBrainPrompt,
                 {
                     systemInstruction,
@@ -2480,7 +2704,7 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
             );
         } catch (initialError: any) {
             logger.gemini.warn('story_brain_retry', { error: initialError.message }, traceId);
-            storyBrainResponse = await getGeminiTextCompletion(
+            storyBrainResponse = await getTextCompletion(
                 storyBrainPrompt,
                 {
                     systemInstruction: systemInstruction + " Ensure strict JSON output.",
@@ -2521,6 +2745,9 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
             ? safeStoryIdea.substring(0, 60).trim()
             : (sanitizePromptInput(parsedBrain.logline || '', 60) || 'Untitled AI Film');
 
+        const resolvedProjectType = projectType || (nonHumanGuide.hasNonHuman ? 'hybrid' : 'character_driven');
+        const shotVerifierProfile = resolveVerifierProfile({ profile: verifierProfile, projectType: resolvedProjectType });
+
         const project: any = {
             id: project_id,
             project_title: derivedTitle,
@@ -2528,7 +2755,8 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
             world_setting: sanitizePromptInput(parsedBrain.world_setting || '', 600),
             director_controls: safeDirectorControls || null,
             visual_style: safeVisualStyle,
-            project_type: nonHumanGuide.hasNonHuman ? 'hybrid' : 'character_driven',
+            project_type: resolvedProjectType,
+            verifier_profile: shotVerifierProfile.id,
             has_cast: story_entities.length > 0,
             character_anchor: safeIdentityAnchor || (story_entities[0]?.description) || '',
             story_entities: story_entities,
@@ -2568,6 +2796,24 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
         const rawScenes = Array.isArray(parsedBrain.scenes) ? parsedBrain.scenes : [];
         logger.gemini.info('story_brain_done', { scenes: rawScenes.length, targetScenes }, traceId);
 
+        // Structure template: keep the slot the model chose when it is one of the
+        // template's, otherwise the planned one — re-planned if the scene count moved.
+        // Slots left without a scene of their own are recorded on the scene that carries them.
+        if (structure) {
+            const usedScenes = rawScenes.slice(0, targetScenes);
+            const plan = planStructureSlots(structure, usedScenes.length, usedScenes.map((scn: any) => scn.structure_beat));
+            usedScenes.forEach((scn: any, idx: number) => {
+                const { slot, also_covers } = plan[idx];
+                if (slot.id !== scn.structure_beat) {
+                    logger.gemini.warn('structure_beat_repaired', { scene: idx + 1, was: scn.structure_beat, assigned: slot.id }, traceId);
+                }
+                scn.structure_beat = slot.id;
+                scn.structure_also_covers = also_covers.map(s => s.id);
+                scn.act_position = slot.beat_position;
+                scn.act = slot.act;
+            });
+        }
+
         // ── Post-parse Story Brain validation (Findings 1.1, 1.2, 10.1) ─────────
         const normLoc = (s: string) => (s || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
         for (let vi = 1; vi < rawScenes.length; vi++) {
@@ -2623,6 +2869,11 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
         const convertedScenes: any[] = [];
         let globalShotIndex = 1;
 
+        // bannedElements / avoidPhrases as hard rules: every scene, shot prompt and
+        // dialogue line below is scanned and repaired; unrepairable shots are blocked.
+        const directorRules = parseDirectorRules(safeDirectorControls);
+        const directorRuleReports: DirectorRuleReport[] = [];
+
         // Process scenes sequentially or in small batches to respect rate limits
         for (let i = 0; i < Math.min(rawScenes.length, targetScenes); i++) {
             const scn = rawScenes[i];
@@ -2638,6 +2889,17 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                 logger.gemini.warn('missing_scene_id_repaired', { index: i, assigned: scn.scene_id }, traceId);
             }
 
+            // Repair the scene text before the shot planner sees it
+            const sceneRuleReport = enforceDirectorRules(scn, directorRules, SCENE_RULE_FIELDS);
+            if (sceneRuleReport.violations.length > 0) {
+                directorRuleReports.push(sceneRuleReport);
+                logger.gemini.warn('director_rule_violation', {
+                    scene: i + 1,
+                    violations: sceneRuleReport.violations.map(v => `${v.field}:${v.term}`),
+                    blocked: sceneRuleReport.blocked,
+                }, traceId);
+            }
+
             const shotPrompt = generateShotListPrompt({
                 scene: scn,
                 characterBible: parsedBrain.character_bible,
@@ -2649,7 +2911,7 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
             let shotResponse = '';
             let parsedShots: any;
             try {
-                shotResponse = await getGeminiTextCompletion(
+                shotResponse = await getTextCompletion(
                     shotPrompt,
                     {
                         systemInstruction: "You are a master storyboard artist. Break the scene down into a precise cinematic shot list. Output strict JSON.",
@@ -2837,7 +3099,7 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                         : [];
 
                     try {
-                        const result = rewriteShot(shot, scn, prevShot, shotChars, styleBible, arcIdx);
+                        const result = rewriteShot(shot, scn, prevShot, shotChars, styleBible, arcIdx, directorRules, shotVerifierProfile);
 
                         // Replace image_prompt with the approved canonical version
                         shot.image_prompt        = result.canonical_prompt;
@@ -2848,10 +3110,13 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                         shot.screenplay_beat       = result.screenplay_beat;
                         shot.must_show             = result.must_show;
                         shot.verifier_score        = result.verifier.total;
+                        shot.verifier_max_score    = result.verifier.max_total;
+                        shot.verifier_profile      = result.verifier.profile;
                         shot.verifier_pass         = result.approved;
                         shot.verifier_dimensions   = result.verifier.dimensions;
                         shot.verifier_fail_reasons = result.verifier.fail_reasons;
                         shot.rewrite_count         = result.rewrite_count;
+                        shot.director_rule_violations = result.director_rules.violations;
 
                         // ── SDC fields (TASK 1) — Shot Difference Contract ──────────────
                         shot.narrative_function                = result.sdc.narrative_function;
@@ -2885,6 +3150,13 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                                 duplicateRisk: result.sdc.duplicate_risk_score,
                             }, traceId);
                         }
+                        if (result.director_rules.violations.length > 0) {
+                            logger.gemini.warn('director_rule_violation', {
+                                scene: i + 1, shot: sIdx + 1,
+                                violations: result.director_rules.violations.map((v: any) => `${v.field}:${v.term}`),
+                                blocked: result.director_rules.blocked,
+                            }, traceId);
+                        }
                         if (result.gemini_prose_discarded) {
                             logger.gemini.debug('gemini_prose_discarded', { scene: i + 1, shot: sIdx + 1 }, traceId);
                         }
@@ -3048,7 +3320,7 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                     ? shot.duration_sec
                     : tensionFallback;
 
-                convertedScenes.push({
+                const convertedShot: any = {
                     scene_number: sequenceOrder, // Frontend expects a flat ordinal
                     scene_setting: setting,
                     characters: charNames,
@@ -3070,6 +3342,8 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                     emotional_goal: sanitizePromptInput(scn.emotional_goal || '', 180),
                     dramatic_function: sanitizePromptInput(scn.dramatic_function || '', 80),
                     tension_level: typeof scn.tension_level === 'number' ? scn.tension_level : null,
+                    ...(scn.structure_beat ? { structure_beat: scn.structure_beat, act_position: scn.act_position } : {}),
+                    ...(scn.structure_also_covers?.length ? { structure_also_covers: scn.structure_also_covers } : {}),
                     framing: sanitizePromptInput(shot.composition || '', 220),
                     camera_angle: sanitizePromptInput(shot.camera_angle || 'medium', 80),
                     camera_motion: sanitizePromptInput(shot.camera_movement || 'static', 80),
@@ -3109,11 +3383,52 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
 
                     // Character consistency validation metadata (only on first shot of each scene where image_prompt is set)
                     ...(consistencyMeta ? { _consistency_check: consistencyMeta } : {}),
-                });
+                };
+
+                // Final pass over the text that actually ships (prompts rebuilt above, dialogue)
+                const shotRuleReport = mergeDirectorRuleReports(directorRules.length, [
+                    { rules: directorRules.length, violations: shot.director_rule_violations || [], repaired: 0, blocked: false },
+                    enforceDirectorRules(convertedShot, directorRules, SHOT_RULE_FIELDS),
+                ]);
+                if (shotRuleReport.violations.length > 0) {
+                    directorRuleReports.push(shotRuleReport);
+                    convertedShot.director_rule_violations = shotRuleReport.violations;
+                    convertedShot.director_rules_blocked = shotRuleReport.blocked;
+                    if (shotRuleReport.blocked) {
+                        convertedShot.verifier_pass = false;
+                        convertedShot.verifier_fail_reasons = [
+                            ...(shot.verifier_fail_reasons || []),
+                            ...directorRuleFailReasons(shotRuleReport),
+                        ];
+                    }
+                }
+                convertedScenes.push(convertedShot);
             }
         }
 
         project.scenes = convertedScenes;
+        if (structure) {
+            project.structure_template = structure.id;
+            const structureCheck = checkStoryStructure(structure, convertedScenes);
+            project.structure_check = structureCheck;
+            logger.gemini.info('structure_check', {
+                template: structure.id,
+                pass: structureCheck.pass,
+                missing: structureCheck.missing,
+                misplaced: structureCheck.misplaced,
+                overlong: structureCheck.overlong,
+            }, traceId);
+        }
+        const directorRuleSummary = mergeDirectorRuleReports(directorRules.length, directorRuleReports);
+        (project as any).director_rules = directorRuleSummary;
+        if (directorRuleSummary.violations.length > 0) {
+            logger.gemini.info('director_rules_summary', {
+                rules: directorRuleSummary.rules,
+                violations: directorRuleSummary.violations.length,
+                repaired: directorRuleSummary.repaired,
+                blocked: directorRuleSummary.blocked,
+            }, traceId);
+        }
 
         // ==========================================
         // DIRECTOR OS — Per-layer tracked execution
@@ -3267,6 +3582,7 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
             convertedScenes: convertedScenes.length,
             targetScenes,
         }, traceId);
+        await loadProjectRuntime(project_id);
         initProjectRuntime({
             projectId: project_id,
             shots: convertedScenes.map((s: any) => ({
@@ -3276,9 +3592,11 @@ Output strictly valid JSON according to the schema. No markdown formatting.`;
                 shot_number: s.scene_number,
             })),
             stage: 'shots_ready',
+            actor: req.user?.id,
         });
-        setProjectStage(project_id, 'shots_ready');
-        project.pipeline_state.current_stage = 'shots_ready';
+        advanceProjectStage(project_id, 'generate_shots', { actor: req.user?.id, reason: 'story regenerated' });
+        await flushPipelineEvents(project_id);
+        project.pipeline_state.current_stage = getProjectRuntime(project_id)?.stage || 'shots_ready';
 
         if (!skipCreditCheck) {
             await supabaseUser.rpc('finalize_reserve', { ref_type: 'gemini', ref_id: jobRef });
@@ -3335,7 +3653,7 @@ app.post('/api/gemini/analyze', requireAuth, async (req: any, res: any) => {
     - Use English.`;
 
         // Gemini Vision: pass image as inlineData alongside the text prompt
-        const anchor = await getGeminiTextCompletion(
+        const anchor = await getTextCompletion(
             [{
                 role: 'user',
                 parts: [
@@ -3399,7 +3717,7 @@ app.post('/api/gemini/analyze-bible', requireAuth, async (req: any, res: any) =>
     - Output ONLY valid JSON. Do not include markdown formatting or backticks around the json.
     - Be exhaustive and hyper-detailed in describing physical aspects to prevent AI models from hallucinating new details.`;
 
-        const result = await getGeminiTextCompletion(
+        const result = await getTextCompletion(
             [{
                 role: 'user',
                 parts: [
@@ -3458,7 +3776,7 @@ app.post('/api/gemini/validate-video', requireAuth, async (req: any, res: any) =
         
         ONLY output valid JSON without markdown wrapping.`;
 
-        const result = await getGeminiTextCompletion(
+        const result = await getTextCompletion(
             [{
                 role: 'user',
                 parts: [
@@ -3481,6 +3799,44 @@ app.post('/api/gemini/validate-video', requireAuth, async (req: any, res: any) =
     }
 });
 
+// Image-grounded must_show check: the frame plus the shot's must_show checklist and
+// required_visible_action go to the must-show vision provider (lib/mustShowVerifier.ts).
+// Input:    { extractedFrameBase64 | image_url, shot, provider?, continuity_report? }
+// Response: { provider, passed, results, failed, continuity_report? } — the report,
+//           when given, comes back with the failures merged into violation_tags
+app.post('/api/gemini/validate-must-show', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { extractedFrameBase64, image_url, shot, provider, continuity_report } = req.body || {};
+        if (!extractedFrameBase64 && !image_url) {
+            return res.status(400).json(createErrorResponse(createError.missingField('extractedFrameBase64'), traceId));
+        }
+        if (!shot || typeof shot !== 'object') {
+            return res.status(400).json(createErrorResponse(createError.missingField('shot'), traceId));
+        }
+        if (provider != null && (typeof provider !== 'string' || !getMustShowProvider(provider))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('provider', '未知的校验服务'), traceId));
+        }
+        if (!extractedFrameBase64) {
+            try { assertSafePublicUrl(image_url); } catch (urlErr: any) {
+                return res.status(400).json(createErrorResponse(createError.invalidParameter('image_url', urlErr.message), traceId));
+            }
+        }
+
+        const frame = extractedFrameBase64
+            ? await loadImageForVision(extractedFrameBase64.startsWith('data:') ? extractedFrameBase64 : `data:image/jpeg;base64,${extractedFrameBase64}`)
+            : await loadImageForVision(image_url);
+        const check = await verifyMustShow(frame, shot, resolveMustShowProvider(provider));
+        const report = continuity_report && typeof continuity_report === 'object'
+            ? mergeMustShowIntoReport({ ...continuity_report, violation_tags: continuity_report.violation_tags || [], regen_recommendation: continuity_report.regen_recommendation || 'none' }, check)
+            : undefined;
+        return res.json({ ...check, ...(report ? { continuity_report: report } : {}) });
+    } catch (error: any) {
+        logger.gemini.error('validate_must_show_error', error?.message || String(error));
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // ★ SHOT SYSTEM + SHOT IMAGES + BATCH IMAGE GENERATION
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -3523,6 +3879,13 @@ async function getUserId(supabaseUser: any): Promise<string | null> {
 
 const REPLICATE_API_BASE = 'https://api.replicate.com/v1';
 
+/** Prompt dialect for a Replicate model path (pinned versions included), or null for unknown models. */
+function promptDialectForPath(modelPath: string) {
+    const path = modelPath.split(':')[0];
+    const key = (Object.keys(REPLICATE_MODEL_PATHS) as Array<VideoModel | ImageModel>).find(m => REPLICATE_MODEL_PATHS[m] === path);
+    return key ? getPromptDialect(key) : null;
+}
+
 async function callReplicateImage(params: {
     prompt: string; model: string; aspectRatio: string; seed: number | null;
     negativePrompt?: string;
@@ -3560,6 +3923,15 @@ async function callReplicateImage(params: {
         else if (params.aspectRatio === '4:3') { width = 1024; height = 768; }
     }
 
+    // One negative channel per model (lib/promptDialects.ts): Flux has no
+    // negative_prompt input, so its negatives are folded into the prompt,
+    // skipping any a dialect "Avoid:" section already carries.
+    const imageDialect = promptDialectForPath(modelPath);
+    const inlineNegative = !isFaceCloning && imageDialect?.negativePrompt === 'inline';
+    const prompt = inlineNegative
+        ? foldNegativeIntoPrompt(params.prompt, params.negativePrompt, imageDialect!.maxNegativeChars)
+        : params.prompt;
+
     const input: Record<string, any> = isFaceCloning ? {
         prompt: params.prompt,
         main_face_image: params.referenceImageDataUrl, // PuLID uses main_face_image
@@ -3570,11 +3942,11 @@ async function callReplicateImage(params: {
         id_weight: 1.0,
         true_cfg: 1.0,
     } : {
-        prompt: params.prompt, aspect_ratio: params.aspectRatio, output_format: 'jpg',
+        prompt, aspect_ratio: params.aspectRatio, output_format: 'jpg',
         output_quality: 90,        // ★ LOCK: Consistent quality across all shots
     };
 
-    if (!isFaceCloning && params.negativePrompt) {
+    if (!isFaceCloning && !inlineNegative && params.negativePrompt) {
         input.negative_prompt = params.negativePrompt;
     }
 
@@ -3598,11 +3970,13 @@ async function callReplicateImage(params: {
         console.log(`[Replicate] Calling ${targetUrl} with model=${modelPath}`);
     }
 
-    const response = await fetch(targetUrl, {
+    // Batch items call this from inside their scheduler slot, so the create and the polls
+    // take the model / poll buckets directly instead of queueing for a second slot
+    const response = await withReplicateRateLimit(replicateRateLimiters.forModel(modelPath), () => fetch(targetUrl, {
         method: 'POST',
         headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', Prefer: 'wait' },
         body: JSON.stringify(body),
-    });
+    }));
 
     if (!response.ok) {
         const errText = await response.text();
@@ -3626,9 +4000,10 @@ async function callReplicateImage(params: {
     let prediction: any = await response.json();
     while (['starting', 'processing'].includes(prediction.status)) {
         await new Promise(r => setTimeout(r, 3000));
-        const pollRes = await fetch(`${REPLICATE_API_BASE}/predictions/${prediction.id}`, {
+        const pollRes = await withReplicateRateLimit(replicateRateLimiters.forModel(POLL_BUCKET), () => fetch(`${REPLICATE_API_BASE}/predictions/${prediction.id}`, {
             headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
-        });
+        }));
+        if (!pollRes.ok) throw new Error(`Replicate poll failed: ${pollRes.status}`);
         prediction = await pollRes.json();
     }
 
@@ -3666,176 +4041,311 @@ async function callReplicateImage(params: {
     return { url: Array.isArray(output) ? output[0] : output, predictionId: prediction.id };
 }
 
-function buildFinalPrompt(params: {
-    basePrompt: string; deltaInstruction?: string; characterAnchor?: string; style?: string; referencePolicy?: string; storyEntities?: any[]; suppressCharacterLock?: boolean;
-}): string {
-    const parts: string[] = [];
-    // ★ POSITION 1: VISUAL STYLE ANCHOR — FIRST for maximum attention weight
-    const stylePreset = (params.style && params.style !== 'none')
-        ? STYLE_PRESETS.find(s => s.id === params.style)
-        : null;
-    if (stylePreset) {
-        parts.push(stylePreset.promptModifier.replace(/^,\s*/, ''));
-    } else {
-        parts.push('Professional cinematic photography, consistent warm lighting, unified color grading, photorealistic, high quality, 35mm film');
+// Video predictions run for minutes; give up polling after this long
+const VIDEO_PREDICTION_TIMEOUT_MS = 15 * 60_000;
+
+// ★ Image-to-video input per model (server-side twin of buildVideoInput in services/replicateService.ts)
+function buildBatchVideoInput(model: VideoModel, prompt: string, imageUrl: string, durationSec: number): Record<string, any> {
+    // Replicate accepts 6 or 10 seconds; Kling only 5 or 10
+    const duration = durationSec >= 8 ? 10 : 6;
+    switch (model) {
+        case 'wan_2_2_fast':
+            return { prompt, image: imageUrl, prompt_optimizer: false, seed: 142857 };
+        case 'kling_2_5_pro':
+            return { prompt, image: imageUrl, duration: duration === 10 ? 10 : 5, cfg_scale: 0.5, seed: 142857 };
+        case 'seedance_pro':
+            return { prompt, image: imageUrl, duration, resolution: '720p', seed: 142857 };
+        case 'veo_3':
+            return { prompt, image: imageUrl, duration, generate_audio: true, seed: 142857 };
+        default:
+            return { prompt, image: imageUrl, seed: 142857 };
     }
+}
 
-    // ★ POSITION 2: STORY ENTITY LOCKS
-    let hasEntityAnchor = false;
-    if (!params.suppressCharacterLock && Array.isArray(params.storyEntities)) {
-        const lockedEntities = params.storyEntities.filter(e => e.is_locked);
-        if (lockedEntities.length > 0) {
-            const entityString = lockedEntities.map(e => `[${e.type.toUpperCase()}: ${e.name}] ${e.description}`).join(' | ');
-            parts.push(`[STORY ENTITY LOCK] ${entityString}`);
-            hasEntityAnchor = entityString.toLowerCase().includes('[character:');
-        }
+async function callReplicateVideo(modelPath: string, input: Record<string, any>): Promise<{ url: string; predictionId: string }> {
+    const token = getReplicateToken();
+    const body = JSON.stringify({ input: await preprocessVideoInput(input) });
+    const limiter = replicateRateLimiters.forModel(modelPath);
+    await limiter.acquire();
+    const response = await fetch(`${REPLICATE_API_BASE}/models/${modelPath}/predictions`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body,
+    });
+    limiter.observe(response.status, response.headers);
+
+    if (!response.ok) {
+        const parsed = parseReplicateErrorText(await response.text());
+        const error: any = new Error(parsed.message || `Replicate error ${response.status}`);
+        error.status = response.status;
+        error.code = parsed.code;
+        error.retryAfter = parsed.retryAfter;
+        throw error;
     }
 
-    // ★ POSITION 3: LEGACY CHARACTER ANCHOR (Fallback if storyEntities is missing/empty)
-    if (!params.suppressCharacterLock && params.characterAnchor && params.referencePolicy !== 'none' && !hasEntityAnchor) {
-        parts.push(`Same character throughout: ${params.characterAnchor}`);
+    let prediction: any = await response.json();
+    const deadline = Date.now() + VIDEO_PREDICTION_TIMEOUT_MS;
+    while (['starting', 'processing'].includes(prediction.status)) {
+        if (Date.now() > deadline) throw new Error(`Video prediction ${prediction.id} timed out`);
+        await new Promise(r => setTimeout(r, 5000));
+        const pollRes = await fetch(`${REPLICATE_API_BASE}/predictions/${prediction.id}`, {
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        });
+        prediction = await pollRes.json();
     }
 
-    // ★ POSITION 4: SHOT-SPECIFIC CONTENT
-    parts.push(params.basePrompt);
-    if (params.deltaInstruction) parts.push(`Edit: ${params.deltaInstruction}`);
-    // ★ POSITION 4: IDENTITY LOCK SUFFIX — maximum consistency enforcement
-    if (!params.suppressCharacterLock) {
-        parts.push('IDENTITY LOCK: same person, identical face, identical hairstyle, identical outfit and accessories, same skin tone, same body proportions. Same color grading, same lighting setup, same film grain, same art direction across all frames');
+    if (prediction.status !== 'succeeded') {
+        throw new Error(String(prediction.error || 'Video generation failed'));
     }
-    return parts.join('. ');
+    const output = prediction.output;
+    const url = Array.isArray(output) ? output[0] : output;
+    if (!url) throw new Error('No video returned');
+    return { url, predictionId: prediction.id };
 }
 
-function shouldSuppressCharacterLock(basePrompt: string, characterAnchor?: string, storyEntities?: any[]): boolean {
-    const p = sanitizePromptInput(basePrompt || '', 2400).toLowerCase();
-    if (!p) return false;
+// ═══════════════════════════════════════════════════════════════
+// Generation providers (lib/generationProvider.ts)
+// ═══════════════════════════════════════════════════════════════
+// Image, video, TTS and text calls go through the provider configured by
+// GENERATION_PROVIDER / GENERATION_PROVIDER_<CAPABILITY>. The defaults keep
+// Replicate, ElevenLabs and Gemini; GENERATION_PROVIDER=local renders
+// placeholder media with ffmpeg so the pipeline runs with no network.
+
+registerGenerationProvider({
+    name: 'replicate',
+    generateImage: async (req) => {
+        const result = await callReplicateImage({
+            prompt: req.prompt,
+            model: req.model || REPLICATE_MODEL_PATHS['flux'],
+            aspectRatio: req.aspectRatio || '16:9',
+            seed: req.seed ?? null,
+            negativePrompt: req.negativePrompt,
+            imagePrompt: req.referenceImageUrl,
+        });
+        return { url: result.url, mimeType: 'image/jpeg', predictionId: result.predictionId };
+    },
+    generateVideo: async (req) => {
+        const result = await callReplicateVideo(
+            req.model || REPLICATE_MODEL_PATHS['wan_2_2_fast'],
+            req.input || { prompt: req.prompt, image: req.imageUrl, duration: req.durationSec }
+        );
+        return { url: result.url, mimeType: 'video/mp4', durationSec: req.durationSec, predictionId: result.predictionId };
+    },
+});
 
-    const explicitNoCharacter = /\b(no\s+(people|person|characters?|humans?)|without\s+(people|person|characters?|humans?)|environment\s*only|architecture\s*only|cityscape\s*only|empty\s+street)\b/i.test(p);
-    if (explicitNoCharacter) return true;
+registerGenerationProvider({
+    name: 'gemini',
+    completeText: async ({ prompt, ...options }) => ({ text: await callGeminiTextCompletion(prompt, options) }),
+});
 
-    const disasterKeywords = [
-        'meteor', 'meteorite', 'explosion', 'blast', 'shockwave', 'skyscraper', 'building', 'city street',
-        'debris', 'smoke', 'fireball', 'burning sky', 'falling meteors', 'disaster', 'collapse', 'evacuation',
-        'apocalypse', 'earthquake', 'tsunami', 'wildfire'
-    ];
-    const disasterHits = disasterKeywords.reduce((acc, kw) => acc + (p.includes(kw) ? 1 : 0), 0);
+registerGenerationProvider({
+    name: 'elevenlabs',
+    synthesizeSpeech: async (req) => {
+        const apiKey = process.env.ELEVENLABS_API_KEY || process.env.ELEVEN_LABS_API_KEY;
+        if (!apiKey) throw new Error('Voice unavailable: missing ELEVENLABS_API_KEY. Provider: ElevenLabs.');
+        const result = await elevenLabsTTSWithTiming({
+            text: req.text,
+            voiceId: ELEVENLABS_VOICES[req.voiceId || ''] || req.voiceId || ELEVENLABS_VOICES['en_female_rachel'],
+            apiKey,
+            emotion: req.emotion,
+        });
+        return { url: `data:audio/mpeg;base64,${result.audioBuffer.toString('base64')}`, mimeType: 'audio/mpeg', durationSec: result.durationSec };
+    },
+});
 
-    const anchorTokens = extractCriticalKeywordsFromAnchor(characterAnchor || '')
-        .map((t) => t.toLowerCase())
-        .filter((t) => t.length > 2);
-    const mentionAnchor = anchorTokens.some((t) => p.includes(t));
+registerGenerationProvider(createLocalGenerationProvider());
 
-    const lockedNames = Array.isArray(storyEntities)
-        ? storyEntities
-            .filter((e: any) => !!e?.is_locked && normalizeEntityType(e?.type) === 'character')
-            .map((e: any) => String(e?.name || '').toLowerCase().trim())
-            .filter(Boolean)
-        : [];
-    const mentionLockedName = lockedNames.some((n: string) => p.includes(n));
+// Must-show vision checks (lib/mustShowVerifier.ts): Gemini reads the frame
+// against the checklist. The stub never looks at the frame, so it exists only when
+// MUST_SHOW_PROVIDER=stub (tests, offline runs) and no request body can select it.
+if (configuredMustShowProviderName() === 'stub') registerMustShowProvider(createStubMustShowProvider());
+registerMustShowProvider({
+    name: 'gemini',
+    check: async ({ frame, checklist, context }) => {
+        const raw = await getTextCompletion(
+            [{
+                role: 'user',
+                parts: [
+                    { inlineData: { mimeType: frame.mimeType, data: frame.base64 } },
+                    { text: buildMustShowVisionPrompt(checklist, context) },
+                ],
+            }],
+            {
+                systemInstruction: 'You are a strict storyboard supervisor. Output strictly JSON.',
+                model: GEMINI_TEXT_MODEL,
+                temperature: 0.1,
+            }
+        );
+        return parseMustShowVisionResponse(parseAiJsonWithRepair(raw, 'validate-must-show'), checklist);
+    },
+});
 
-    return disasterHits >= 2 && !mentionAnchor && !mentionLockedName;
+// Data URL or remote image → raw base64 + mime type (server-side fetch avoids CORS)
+async function loadImageForVision(imageUrl: string): Promise<MustShowFrame> {
+    if (imageUrl.startsWith('data:')) {
+        const prefixMatch = imageUrl.match(/^data:(image\/[a-zA-Z+]+);base64,/);
+        return { base64: imageUrl.split(',')[1], mimeType: prefixMatch ? prefixMatch[1] : 'image/jpeg' };
+    }
+    const safeUrl = assertSafePublicUrl(imageUrl);
+    const imgResp = await fetch(safeUrl.toString());
+    if (!imgResp.ok) throw new Error(`Image fetch failed: HTTP ${imgResp.status}`);
+    const contentType = imgResp.headers.get('content-type') || 'image/jpeg';
+    const arrayBuffer = await imgResp.arrayBuffer();
+    return { base64: Buffer.from(arrayBuffer).toString('base64'), mimeType: contentType.split(';')[0].trim() };
 }
 
-// --- In-memory BatchQueue (same as server/batchQueue.ts) ---
-
-interface BatchJobState {
-    job: BatchJob; items: BatchJobItem[]; cancelRequested: boolean; workerPromise?: Promise<void>;
+// ★ Image entry point for every shot/storyboard call; Replicate keeps its face-cloning and NSFW retries
+async function generateImageWithProvider(params: Parameters<typeof callReplicateImage>[0]): Promise<{ url: string; predictionId: string }> {
+    const provider = resolveGenerationProvider('image');
+    if (provider.name === 'replicate') return callReplicateImage(params);
+    const result = await provider.generateImage!({
+        prompt: params.prompt,
+        model: params.model,
+        aspectRatio: params.aspectRatio,
+        seed: params.seed,
+        negativePrompt: params.negativePrompt,
+        referenceImageUrl: params.imagePrompt || params.referenceImageDataUrl,
+    });
+    return { url: result.url, predictionId: result.predictionId || `${provider.name}-${Date.now()}` };
 }
-type TaskExecutor = (item: BatchJobItem, job: BatchJob) => Promise<{ image_id: string; image_url: string }>;
-const batchJobs = new Map<string, BatchJobState>();
-
-function createBatchJob(p: {
-    jobId: string; projectId: string; userId: string;
-    items: Array<{ shotId: string; shotNumber: number; sceneNumber: number }>;
-    concurrency: number; executor: TaskExecutor;
-}): BatchJob {
-    const now = new Date().toISOString();
-    const job: BatchJob = {
-        id: p.jobId, project_id: p.projectId, user_id: p.userId, type: 'gen_images',
-        total: p.items.length, done: 0, succeeded: 0, failed: 0, status: 'pending',
-        created_at: now, updated_at: now, concurrency: p.concurrency,
-    };
-    const batchItems: BatchJobItem[] = p.items.map(item => ({
-        id: crypto.randomUUID(), job_id: p.jobId, shot_id: item.shotId,
-        shot_number: item.shotNumber, scene_number: item.sceneNumber, status: 'queued' as BatchItemStatus,
-    }));
-    const state: BatchJobState = { job, items: batchItems, cancelRequested: false };
-    batchJobs.set(p.jobId, state);
-    state.workerPromise = runBatchWorker(state, p.executor);
-    return job;
+
+async function generateVideoWithProvider(req: VideoGenerationRequest): Promise<{ url: string; predictionId: string }> {
+    const provider = resolveGenerationProvider('video');
+    const result = await provider.generateVideo!(req);
+    return { url: result.url, predictionId: result.predictionId || `${provider.name}-${Date.now()}` };
 }
 
-function getBatchJobStatus(jobId: string): { job: BatchJob; items: BatchJobItem[] } | null {
-    const s = batchJobs.get(jobId);
-    return s ? { job: { ...s.job }, items: s.items.map(i => ({ ...i })) } : null;
+// Bytes of a provider result: local files are read directly, anything else is fetched
+async function readGeneratedMedia(result: MediaResult): Promise<Buffer> {
+    if (result.filePath) {
+        const fs = await import('fs');
+        return fs.promises.readFile(result.filePath);
+    }
+    if (result.url.startsWith('data:')) {
+        return Buffer.from(result.url.slice(result.url.indexOf(',') + 1), 'base64');
+    }
+    const response = await fetch(result.url);
+    if (!response.ok) throw new Error(`Failed to fetch generated media: ${response.status}`);
+    return Buffer.from(await response.arrayBuffer());
 }
 
-function cancelBatchJob(jobId: string): boolean {
-    const s = batchJobs.get(jobId);
-    if (!s || s.job.status === 'completed' || s.job.status === 'cancelled') return false;
-    s.cancelRequested = true;
-    return true;
+// Recent non-Replicate predictions, so /api/replicate/status/:id can answer for them
+const providerPredictions = new Map<string, ReplicateResponse>();
+const MAX_PROVIDER_PREDICTIONS = 500;
+
+function rememberProviderPrediction(prediction: ReplicateResponse): ReplicateResponse {
+    providerPredictions.delete(prediction.id);
+    providerPredictions.set(prediction.id, prediction);
+    if (providerPredictions.size > MAX_PROVIDER_PREDICTIONS) {
+        providerPredictions.delete(providerPredictions.keys().next().value as string);
+    }
+    return prediction;
 }
 
-function retryFailedBatchItems(jobId: string, executor: TaskExecutor): boolean {
-    const s = batchJobs.get(jobId);
-    if (!s || s.job.status === 'running') return false;
-    let hasRetries = false;
-    for (const item of s.items) {
-        if (item.status === 'failed') {
-            item.status = 'queued'; item.error = undefined;
-            item.started_at = undefined; item.completed_at = undefined;
-            item.image_id = undefined; item.image_url = undefined;
-            hasRetries = true;
-        }
-    }
-    if (!hasRetries) return false;
-    s.job.failed = 0;
-    s.job.done = s.items.filter(i => i.status === 'succeeded').length;
-    s.job.status = 'pending';
-    s.cancelRequested = false;
-    s.job.updated_at = new Date().toISOString();
-    s.workerPromise = runBatchWorker(s, executor);
-    return true;
+// ═══════════════════════════════════════════════════════════════
+// Generation cache (lib/generationCache.ts)
+// ═══════════════════════════════════════════════════════════════
+// Keys are built from exactly what goes to the provider, so a hit is the
+// output that request would have produced. Routes accept `cache: 'bypass'`
+// in the body and report hit / miss / bypass in X-Generation-Cache. Unseeded
+// requests always bypass: each run is a new sample.
+
+function prepareGenerationCache(request: GenerationCacheRequest, mode: GenerationCacheMode) {
+    const canonical = canonicalGenerationRequest(request);
+    return {
+        request,
+        canonical,
+        key: generationCacheKey(canonical),
+        mode: isGenerationCacheable(request) ? mode : 'bypass' as GenerationCacheMode,
+    };
 }
 
-async function runBatchWorker(state: BatchJobState, executor: TaskExecutor): Promise<void> {
-    state.job.status = 'running';
-    state.job.updated_at = new Date().toISOString();
-    const queue = state.items.filter(i => i.status === 'queued');
-    let qi = 0;
-    const runNext = async (): Promise<void> => {
-        while (qi < queue.length) {
-            if (state.cancelRequested) return;
-            const item = queue[qi++];
-            if (!item || item.status !== 'queued') continue;
-            if (state.cancelRequested) { item.status = 'cancelled'; continue; }
-            item.status = 'running'; item.started_at = new Date().toISOString();
-            state.job.updated_at = new Date().toISOString();
-            try {
-                const r = await executor(item, state.job);
-                item.status = 'succeeded'; item.image_id = r.image_id; item.image_url = r.image_url;
-                item.completed_at = new Date().toISOString(); state.job.succeeded += 1;
-            } catch (err: any) {
-                item.status = 'failed'; item.error = err.message || 'Unknown error';
-                item.completed_at = new Date().toISOString(); state.job.failed += 1;
-                console.error(`[BatchQueue] Item ${item.id} (shot ${item.shot_id}) failed:`, err.message);
-            }
-            state.job.done += 1; state.job.updated_at = new Date().toISOString();
-        }
+function imageCacheRequest(
+    kind: GenerationCacheKind,
+    params: Parameters<typeof callReplicateImage>[0],
+    extra?: Record<string, unknown>
+): GenerationCacheRequest {
+    return {
+        kind,
+        provider: configuredProviderName('image'),
+        model: params.model,
+        prompt: params.prompt,
+        negativePrompt: params.negativePrompt,
+        aspectRatio: params.aspectRatio,
+        seed: params.seed,
+        references: [params.imagePrompt, params.referenceImageDataUrl],
+        params: { disable_face_cloning: !!params.disableFaceCloning, ...extra },
     };
-    const workers: Promise<void>[] = [];
-    for (let i = 0; i < state.job.concurrency; i++) workers.push(runNext());
-    await Promise.all(workers);
-    if (state.cancelRequested) {
-        for (const item of state.items) { if (item.status === 'queued') item.status = 'cancelled'; }
-        state.job.status = 'cancelled';
-    } else if (state.job.failed > 0 && state.job.succeeded === 0) {
-        state.job.status = 'failed';
+}
+
+function buildFinalPrompt(params: {
+    basePrompt: string; deltaInstruction?: string; characterAnchor?: string; style?: string; referencePolicy?: string; storyEntities?: any[]; suppressCharacterLock?: boolean;
+}): string {
+    const parts: string[] = [];
+    // ★ POSITION 1: VISUAL STYLE ANCHOR — FIRST for maximum attention weight
+    const stylePreset = (params.style && params.style !== 'none')
+        ? STYLE_PRESETS.find(s => s.id === params.style)
+        : null;
+    if (stylePreset) {
+        parts.push(stylePreset.promptModifier.replace(/^,\s*/, ''));
     } else {
-        state.job.status = 'completed';
+        parts.push('Professional cinematic photography, consistent warm lighting, unified color grading, photorealistic, high quality, 35mm film');
+    }
+
+    // ★ POSITION 2: STORY ENTITY LOCKS
+    let hasEntityAnchor = false;
+    if (!params.suppressCharacterLock && Array.isArray(params.storyEntities)) {
+        const lockedEntities = params.storyEntities.filter(e => e.is_locked);
+        if (lockedEntities.length > 0) {
+            const entityString = lockedEntities.map(e => `[${e.type.toUpperCase()}: ${e.name}] ${e.description}`).join(' | ');
+            parts.push(`[STORY ENTITY LOCK] ${entityString}`);
+            hasEntityAnchor = entityString.toLowerCase().includes('[character:');
+        }
+    }
+
+    // ★ POSITION 3: LEGACY CHARACTER ANCHOR (Fallback if storyEntities is missing/empty)
+    if (!params.suppressCharacterLock && params.characterAnchor && params.referencePolicy !== 'none' && !hasEntityAnchor) {
+        parts.push(`Same character throughout: ${params.characterAnchor}`);
+    }
+
+    // ★ POSITION 4: SHOT-SPECIFIC CONTENT
+    parts.push(params.basePrompt);
+    if (params.deltaInstruction) parts.push(`Edit: ${params.deltaInstruction}`);
+    // ★ POSITION 4: IDENTITY LOCK SUFFIX — maximum consistency enforcement
+    if (!params.suppressCharacterLock) {
+        parts.push('IDENTITY LOCK: same person, identical face, identical hairstyle, identical outfit and accessories, same skin tone, same body proportions. Same color grading, same lighting setup, same film grain, same art direction across all frames');
     }
-    state.job.updated_at = new Date().toISOString();
+    return parts.join('. ');
+}
+
+function shouldSuppressCharacterLock(basePrompt: string, characterAnchor?: string, storyEntities?: any[]): boolean {
+    const p = sanitizePromptInput(basePrompt || '', 2400).toLowerCase();
+    if (!p) return false;
+
+    const explicitNoCharacter = /\b(no\s+(people|person|characters?|humans?)|without\s+(people|person|characters?|humans?)|environment\s*only|architecture\s*only|cityscape\s*only|empty\s+street)\b/i.test(p);
+    if (explicitNoCharacter) return true;
+
+    const disasterKeywords = [
+        'meteor', 'meteorite', 'explosion', 'blast', 'shockwave', 'skyscraper', 'building', 'city street',
+        'debris', 'smoke', 'fireball', 'burning sky', 'falling meteors', 'disaster', 'collapse', 'evacuation',
+        'apocalypse', 'earthquake', 'tsunami', 'wildfire'
+    ];
+    const disasterHits = disasterKeywords.reduce((acc, kw) => acc + (p.includes(kw) ? 1 : 0), 0);
+
+    const anchorTokens = extractCriticalKeywordsFromAnchor(characterAnchor || '')
+        .map((t) => t.toLowerCase())
+        .filter((t) => t.length > 2);
+    const mentionAnchor = anchorTokens.some((t) => p.includes(t));
+
+    const lockedNames = Array.isArray(storyEntities)
+        ? storyEntities
+            .filter((e: any) => !!e?.is_locked && normalizeEntityType(e?.type) === 'character')
+            .map((e: any) => String(e?.name || '').toLowerCase().trim())
+            .filter(Boolean)
+        : [];
+    const mentionLockedName = lockedNames.some((n: string) => p.includes(n));
+
+    return disasterHits >= 2 && !mentionAnchor && !mentionLockedName;
 }
 
 const countWords = (text: string): number =>
@@ -3910,8 +4420,11 @@ app.post('/api/shots/generate', async (req: any, res: any) => {
         const {
             scene_number, visual_description, audio_description, shot_type,
             visual_style, character_anchor, language, num_shots, story_entities,
-            director_brain,
+            director_brain, image_model, video_model,
         } = req.body;
+        // Optional target models: prompts are reshaped into each model's dialect (lib/promptDialects.ts)
+        const targetImageModel: ImageModel | undefined = image_model && image_model in IMAGE_MODEL_COSTS ? image_model : undefined;
+        const targetVideoModel: VideoModel | undefined = getPromptDialect(video_model)?.kind === 'video' ? video_model : undefined;
 
         const lockedCharacters = Array.isArray(story_entities)
             ? story_entities
@@ -4090,7 +4603,7 @@ You MUST return EXACTLY ONE JSON object strictly matching this schema. Return ex
         let responseText = '';
         let result: any = null;
         try {
-            responseText = await getGeminiTextCompletion(
+            responseText = await getTextCompletion(
                 `Break Scene ${scene_number || 1} into ${targetShots} shots. Scene description: ${visual_description}`,
                 {
                     systemInstruction,
@@ -4102,7 +4615,7 @@ You MUST return EXACTLY ONE JSON object strictly matching this schema. Return ex
         } catch (initialError: any) {
             logger.gemini.warn('shots_primary_retry', { error: initialError.message });
             try {
-                responseText = await getGeminiTextCompletion(
+                responseText = await getTextCompletion(
                     `Break Scene ${scene_number || 1} into ${targetShots} shots. Scene description: ${visual_description}`,
                     {
                         systemInstruction: systemInstruction + "\nOutput strictly valid JSON, no markdown formatting.",
@@ -4211,6 +4724,8 @@ You MUST return EXACTLY ONE JSON object strictly matching this schema. Return ex
                 characterAnchor: character_anchor || lockedCharacters.map((c: any) => c.description).filter(Boolean).join(' | '),
                 directorBrain: shotDirectorBrain,
                 styleLabel: visual_style,
+                targetImageModel,
+                targetVideoModel,
             });
 
             return {
@@ -4234,6 +4749,7 @@ You MUST return EXACTLY ONE JSON object strictly matching this schema. Return ex
                 status: 'draft' as const, locked_fields: [], version: 1,
                 updated_at: new Date().toISOString(),
                 characters: normalizedCharacters,
+                ...(targetImageModel || targetVideoModel ? { prompt_dialects: composedShotPrompts.prompt_dialects } : {}),
             };
         });
 
@@ -4243,6 +4759,7 @@ You MUST return EXACTLY ONE JSON object strictly matching this schema. Return ex
 
         const inferredProjectId = sanitizePromptInput(req.body?.project_id || req.body?.projectId || '', 100);
         if (inferredProjectId) {
+            await loadProjectRuntime(inferredProjectId);
             initProjectRuntime({
                 projectId: inferredProjectId,
                 shots: enrichedShots.map((s: any) => ({
@@ -4252,8 +4769,10 @@ You MUST return EXACTLY ONE JSON object strictly matching this schema. Return ex
                     shot_number: s.shot_number,
                 })),
                 stage: 'shots_ready',
+                actor: req.user?.id,
             });
-            setProjectStage(inferredProjectId, 'shots_ready');
+            advanceProjectStage(inferredProjectId, 'generate_shots', { actor: req.user?.id, reason: `shots generated for scene ${scene_number || 1}` });
+            await flushPipelineEvents(inferredProjectId);
         }
 
         res.json({ scene_title: result.scene_title || `Scene ${scene_number || 1}`, shots: enrichedShots });
@@ -4348,7 +4867,7 @@ Example: {"image_prompt": "new prompt here", "dialogue": "new line here"}
 
         let responseText = '';
         try {
-            responseText = await getGeminiTextCompletion(
+            responseText = await getTextCompletion(
                 `Rewrite fields [${fieldsStr}] for shot ${shotId}. ${user_instruction || ''}`,
                 {
                     systemInstruction,
@@ -4358,7 +4877,7 @@ Example: {"image_prompt": "new prompt here", "dialogue": "new line here"}
             );
         } catch (initialError: any) {
             logger.gemini.warn('shot_rewrite_retry', { error: initialError.message });
-            responseText = await getGeminiTextCompletion(
+            responseText = await getTextCompletion(
                 `Rewrite fields [${fieldsStr}] for shot ${shotId}. ${user_instruction || ''}`,
                 {
                     systemInstruction: systemInstruction + "\nOutput strictly valid JSON, no markdown formatting.",
@@ -4428,6 +4947,7 @@ app.post('/api/shot-images/:shotId/generate', async (req: any, res: any) => {
             previous_shot,
             previous_prompt,
         } = req.body;
+        const cacheMode = parseGenerationCacheMode(req.body?.cache);
 
         const authHeader = req.headers.authorization;
         if (!authHeader) return res.status(401).json({ error: 'Missing Authorization header' });
@@ -4458,17 +4978,6 @@ app.post('/api/shot-images/:shotId/generate', async (req: any, res: any) => {
 
         const skipCreditCheck = entitlement.mode === 'developer';
 
-        const jobRef = `shot-img:${Date.now()}:${Math.random().toString(36).slice(2)}`;
-        if (!skipCreditCheck) {
-            const { data: reserved, error: reserveErr } = await supabaseUser.rpc('reserve_credits', {
-                amount: cost, ref_type: 'shot-image', ref_id: jobRef,
-            });
-            if (reserveErr) return res.status(500).json({ error: 'Credit verification failed' });
-            if (!reserved) return res.status(402).json({ error: 'Insufficient credits', code: 'INSUFFICIENT_CREDITS' });
-        } else {
-            logDeveloperAccess(userEmail, `shot-image:generate:model=${imageModel}:cost=${cost}`);
-        }
-
         const suppressCharacterLock = shouldSuppressCharacterLock(
             `${prompt || ''} ${delta_instruction || ''}`,
             character_anchor,
@@ -4516,6 +5025,7 @@ app.post('/api/shot-images/:shotId/generate', async (req: any, res: any) => {
                 characterAnchor: suppressCharacterLock ? '' : character_anchor,
                 styleLabel: style || 'none',
                 shotGraphNode: shot_payload,
+                targetImageModel: imageModel in IMAGE_MODEL_COSTS ? imageModel : undefined,
             });
 
             if (compiledShot.variance_report.requires_substantive_change && !compiledShot.variance_report.pass) {
@@ -4542,53 +5052,92 @@ app.post('/api/shot-images/:shotId/generate', async (req: any, res: any) => {
         const effectiveGuideImage = anchor_image_url || referenceImageDataUrl || memoryReference || undefined;
         const disableFaceCloning = nonHumanGuide.hasNonHuman || isRemoteImageReference(referenceImageDataUrl);
 
+        // ★ Identical request already generated for this user → serve it without reserving credits.
+        //   The key covers the pre-retry prompt; the retry loop below is deterministic from it.
+        const cache = prepareGenerationCache(imageCacheRequest('shot_image', {
+            prompt: promptCandidate,
+            negativePrompt: continuityNegative,
+            model: replicatePath,
+            aspectRatio: aspect_ratio || '16:9',
+            seed: seed ?? 142857,
+            imagePrompt: effectiveGuideImage,
+            referenceImageDataUrl: referenceImageDataUrl || undefined,
+            disableFaceCloning,
+        }, { strictness: continuityProfile.strictness }), cacheMode);
+        const lookup = cache.mode === 'bypass' ? null : await lookupGenerationCache(userId, cache.key);
+        const cacheHit = lookup?.entry.output_url ? lookup : null;
+
         let result: { url: string; predictionId: string } | null = null;
         const maxAttempts = continuityProfile.strictness === 'high' ? 3 : (continuityProfile.strictness === 'medium' ? 2 : 1);
         const threshold = continuityThreshold(continuityProfile.strictness);
         let finalContinuityScore: any = null;
 
-        try {
-            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-                const scored = scoreContinuityPrompt(promptCandidate, continuityProfile);
-                finalContinuityScore = scored;
+        if (cacheHit) {
+            result = { url: cacheHit.entry.output_url, predictionId: cacheHit.entry.prediction_id || '' };
+            promptCandidate = cacheHit.entry.output?.prompt || promptCandidate;
+            finalContinuityScore = cacheHit.entry.output?.continuity || null;
+        } else {
+            const jobRef = `shot-img:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+            if (!skipCreditCheck) {
+                const { data: reserved, error: reserveErr } = await supabaseUser.rpc('reserve_credits', {
+                    amount: cost, ref_type: 'shot-image', ref_id: jobRef,
+                });
+                if (reserveErr) return res.status(500).json({ error: 'Credit verification failed' });
+                if (!reserved) return res.status(402).json({ error: 'Insufficient credits', code: 'INSUFFICIENT_CREDITS' });
+            } else {
+                logDeveloperAccess(userEmail, `shot-image:generate:model=${imageModel}:cost=${cost}`);
+            }
 
-                if (scored.overall < threshold) {
-                    console.warn(`[Continuity] shot=${shotId} prompt score ${scored.overall.toFixed(2)} < ${threshold.toFixed(2)}; failures=${scored.failures.join(',')}`);
-                    promptCandidate = strengthenPromptForRetry(promptCandidate, continuityProfile, attempt, scored.failures);
-                }
+            try {
+                for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                    const scored = scoreContinuityPrompt(promptCandidate, continuityProfile);
+                    finalContinuityScore = scored;
 
-                // ★ Replicate image generation (provider: Replicate, env: REPLICATE_API_TOKEN)
-                result = await callReplicateImage({
-                    prompt: promptCandidate,
-                    negativePrompt: continuityNegative,
-                    model: replicatePath,
-                    aspectRatio: aspect_ratio || '16:9',
-                    seed: seed ?? 142857,
-                    imagePrompt: effectiveGuideImage,
-                    referenceImageDataUrl: referenceImageDataUrl || undefined,
-                    disableFaceCloning,
-                    allowReferenceFallback: true,
-                });
+                    if (scored.overall < threshold) {
+                        console.warn(`[Continuity] shot=${shotId} prompt score ${scored.overall.toFixed(2)} < ${threshold.toFixed(2)}; failures=${scored.failures.join(',')}`);
+                        promptCandidate = strengthenPromptForRetry(promptCandidate, continuityProfile, attempt, scored.failures);
+                    }
 
-                if (scored.overall >= threshold || attempt === maxAttempts) {
-                    break;
-                }
+                    // ★ Replicate image generation (provider: Replicate, env: REPLICATE_API_TOKEN)
+                    result = await generateImageWithProvider({
+                        prompt: promptCandidate,
+                        negativePrompt: continuityNegative,
+                        model: replicatePath,
+                        aspectRatio: aspect_ratio || '16:9',
+                        seed: seed ?? 142857,
+                        imagePrompt: effectiveGuideImage,
+                        referenceImageDataUrl: referenceImageDataUrl || undefined,
+                        disableFaceCloning,
+                        allowReferenceFallback: true,
+                    });
+
+                    if (scored.overall >= threshold || attempt === maxAttempts) {
+                        break;
+                    }
 
-                promptCandidate = strengthenPromptForRetry(promptCandidate, continuityProfile, attempt + 1, scored.failures);
+                    promptCandidate = strengthenPromptForRetry(promptCandidate, continuityProfile, attempt + 1, scored.failures);
+                }
+            } catch (genErr: any) {
+                if (!skipCreditCheck) { try { await supabaseUser.rpc('refund_reserve', { amount: cost, ref_type: 'shot-image', ref_id: jobRef }); } catch (_) { } }
+                throw genErr;
             }
-        } catch (genErr: any) {
-            if (!skipCreditCheck) { try { await supabaseUser.rpc('refund_reserve', { amount: cost, ref_type: 'shot-image', ref_id: jobRef }); } catch (_) { } }
-            throw genErr;
-        }
 
-        if (!result?.url) {
-            throw new Error('Continuity generation failed to produce output');
+            if (!result?.url) {
+                throw new Error('Continuity generation failed to produce output');
+            }
+            if (!skipCreditCheck) { await supabaseUser.rpc('finalize_reserve', { ref_type: 'shot-image', ref_id: jobRef }); }
+            await storeGenerationResult({
+                ...cache,
+                userId,
+                outputUrl: result.url,
+                predictionId: result.predictionId,
+                output: { prompt: promptCandidate, continuity: finalContinuityScore },
+            });
         }
         const resolvedResult = result;
 
-        if (!skipCreditCheck) { await supabaseUser.rpc('finalize_reserve', { ref_type: 'shot-image', ref_id: jobRef }); }
-
         if (project_id && resolvedResult.url) {
+            await loadProjectRuntime(project_id);
             registerApprovedFrame(project_id, {
                 shotId,
                 sceneId: continuity?.scene_memory?.scene_id || continuity?.shot_context?.scene_id,
@@ -4608,12 +5157,14 @@ app.post('/api/shot-images/:shotId/generate', async (req: any, res: any) => {
                 narrativeScore: Math.max(60, Number(finalContinuityScore?.overall || 70) - 5),
                 visualMatchScore: Math.max(60, Number(finalContinuityScore?.overall || 70) - 2),
                 violations: finalContinuityScore?.failures || [],
+                actor: req.user?.id,
             });
-            setProjectStage(project_id, 'storyboard_review');
+            await flushPipelineEvents(project_id);
         }
 
         const now = new Date().toISOString();
         const imageId = crypto.randomUUID();
+        res.setHeader('X-Generation-Cache', cacheHit ? 'hit' : (cache.mode === 'bypass' ? 'bypass' : 'miss'));
         res.json({
             image: { id: imageId, shot_id: shotId, project_id: project_id || null, url: resolvedResult.url, is_primary: false, status: 'succeeded', label: null, created_at: now },
             generation: {
@@ -4631,6 +5182,7 @@ app.post('/api/shot-images/:shotId/generate', async (req: any, res: any) => {
                     variance_report: compiledPromptMeta.variance_report,
                 } : null,
             },
+            cache: { hit: !!cacheHit, key: cache.key },
         });
     } catch (error: any) {
         logger.shot.error('shot_image_generate_error', error.message);
@@ -4768,7 +5320,7 @@ app.post('/api/shot-images/:imageId/edit', async (req: any, res: any) => {
                     candidate = strengthenPromptForRetry(candidate, continuityProfile, attempt, scored.failures);
                 }
                 // ★ Replicate image generation (provider: Replicate, env: REPLICATE_API_TOKEN)
-                result = await callReplicateImage({
+                result = await generateImageWithProvider({
                     prompt: candidate,
                     negativePrompt: continuityNegative,
                     model: replicatePath,
@@ -4797,6 +5349,7 @@ app.post('/api/shot-images/:imageId/edit', async (req: any, res: any) => {
         const now = new Date().toISOString();
         const newImageId = crypto.randomUUID();
         if (project_id && resolvedResult.url && shot_id) {
+            await loadProjectRuntime(project_id);
             registerApprovedFrame(project_id, {
                 shotId: shot_id,
                 sceneId: continuity?.scene_memory?.scene_id || continuity?.shot_context?.scene_id,
@@ -4816,8 +5369,9 @@ app.post('/api/shot-images/:imageId/edit', async (req: any, res: any) => {
                 narrativeScore: 72,
                 visualMatchScore: 74,
                 violations: [],
+                actor: req.user?.id,
             });
-            setProjectStage(project_id, 'storyboard_review');
+            await flushPipelineEvents(project_id);
         }
 
         res.json({
@@ -4844,27 +5398,22 @@ app.post('/api/shot-images/:imageId/edit', async (req: any, res: any) => {
 // ───────────────────────────────────────────────────────────────
 
 // ───────────────────────────────────────────────────────────────
-// Helper: persist in-memory pipeline state → storyboards.pipeline_state
-// Fails silently if column doesn't exist yet (pre-migration).
+// Helper: bring the pipeline runtime up to date with the event log.
+// Projects created before the log existed fall back to the legacy
+// storyboards.pipeline_state snapshot.
 // ───────────────────────────────────────────────────────────────
-async function persistPipelineState(projectId: string): Promise<void> {
-    const runtime = getProjectRuntime(projectId);
-    if (!runtime) return;
+async function loadProjectRuntime(projectId: string): Promise<ProjectRuntimeState | null> {
     try {
-        const serialized = serializePipelineState(runtime);
-        const supabaseAdmin = getSupabaseAdmin();
-        await (supabaseAdmin as any)
-            .from('storyboards')
-            .update({ pipeline_state: serialized })
-            .eq('id', projectId);
+        const runtime = await hydrateProjectRuntime(projectId);
+        if (runtime) return runtime;
     } catch (e: any) {
-        // Non-fatal: column may not exist until migration is applied
-        logger.pipeline.warn('persist_failed', { projectId, error: e?.message });
+        logger.pipeline.warn('hydrate_failed', { projectId, error: e?.message });
+        return getProjectRuntime(projectId);
     }
+    return restoreLegacyPipelineState(projectId);
 }
 
-// Helper: restore pipeline state from Supabase if runtime is missing
-async function restorePipelineStateFromDB(projectId: string): Promise<boolean> {
+async function restoreLegacyPipelineState(projectId: string): Promise<ProjectRuntimeState | null> {
     try {
         const supabaseAdmin = getSupabaseAdmin();
         const { data, error } = await (supabaseAdmin as any)
@@ -4872,25 +5421,50 @@ async function restorePipelineStateFromDB(projectId: string): Promise<boolean> {
             .select('pipeline_state')
             .eq('id', projectId)
             .maybeSingle();
-        if (error || !data?.pipeline_state) return false;
-        const state = deserializePipelineState(data.pipeline_state);
-        restorePipelineState(state);
-        return true;
+        if (error || !data?.pipeline_state) return null;
+        // Seeds the event log with it, so cold instances hydrate this project from now on
+        return await adoptLegacyPipelineState(deserializePipelineState(data.pipeline_state));
     } catch (e: any) {
         logger.pipeline.warn('restore_failed', { projectId, error: e?.message });
+        return null;
+    }
+}
+
+// Helper: wait until the runtime events a request recorded are in the event log,
+// so a response never gets ahead of durable state. Sends a 500 and returns false
+// when they could not be stored.
+async function awaitPipelinePersisted(projectId: string, res: any, traceId?: string): Promise<boolean> {
+    try {
+        await flushPipelineEvents(projectId);
+        return true;
+    } catch (e: any) {
+        logger.pipeline.error('pipeline_persist_failed', e?.message || String(e), { projectId }, traceId);
+        res.status(500).json(createErrorResponse(createError.internalError('Pipeline event could not be stored'), traceId));
         return false;
     }
 }
 
-app.get('/api/pipeline/:projectId/status', requireAuth, async (req: any, res: any) => {
-    const { projectId } = req.params;
-    let runtime = getProjectRuntime(projectId);
+// Helper: fire a transition when the stage machine allows it right now, and
+// quietly keep the current stage otherwise (used by idempotent generation routes)
+function advanceProjectStage(
+    projectId: string,
+    transition: PipelineTransition,
+    meta: { actor?: string; reason?: string }
+): ProjectRuntimeState | null {
+    const runtime = getProjectRuntime(projectId);
+    if (!runtime || runtime.stage === PIPELINE_TRANSITIONS[transition].to) return runtime;
 
-    // Auto-restore from Supabase if in-memory state was lost (server restart)
-    if (!runtime) {
-        const restored = await restorePipelineStateFromDB(projectId);
-        if (restored) runtime = getProjectRuntime(projectId);
+    const check = checkStageTransition(runtime, transition);
+    if (check.allowed === false) {
+        logger.pipeline.debug('transition_skipped', { projectId, transition, stage: runtime.stage, rejection: check.rejection });
+        return runtime;
     }
+    return transitionProjectStage(projectId, transition, meta);
+}
+
+app.get('/api/pipeline/:projectId/status', requireAuth, async (req: any, res: any) => {
+    const { projectId } = req.params;
+    const runtime = await loadProjectRuntime(projectId);
 
     if (!runtime) {
         return res.status(404).json({ error: 'Pipeline runtime not found for project' });
@@ -4902,11 +5476,185 @@ app.get('/api/pipeline/:projectId/status', requireAuth, async (req: any, res: an
         paused: runtime.paused,
         skipped_shot_ids: [...runtime.skippedShotIds.values()],
         shots: [...runtime.shots.values()],
+        stage_history: runtime.stageHistory,
+        available_transitions: availableTransitions(runtime),
         created_at: runtime.createdAt,
         updated_at: runtime.updatedAt,
     });
 });
 
+// ───────────────────────────────────────────────────────────────
+// GET /api/pipeline/:projectId/events — Server-Sent Events for one project
+// Pushes stage changes, candidates, approvals, regenerations, batch item
+// completions, render progress and watched prediction updates.
+// Resume with the Last-Event-ID header (or ?last_event_id=); a 'resync'
+// event means the id is gone and the client should refetch /status.
+// ───────────────────────────────────────────────────────────────
+const STREAM_HEARTBEAT_MS = 15000;
+const STREAM_PUMP_INTERVAL_MS = 4000;
+const TERMINAL_PREDICTION_STATUSES = ['succeeded', 'failed', 'canceled'];
+const streamPumps = new Map<string, ReturnType<typeof setInterval>>();
+
+// Helper: one pump per project while anyone is subscribed. It replays events
+// other instances appended to the durable log and polls watched predictions,
+// so N open tabs cost one Replicate poll instead of N.
+function ensureStreamPump(projectId: string) {
+    if (streamPumps.has(projectId)) return;
+
+    let running = false;
+    const timer = setInterval(async () => {
+        if (pipelineStreamSubscriberCount(projectId) === 0) {
+            clearInterval(timer);
+            streamPumps.delete(projectId);
+            return;
+        }
+        if (running) return;
+        running = true;
+        try {
+            if (getPipelineStore()) await hydrateProjectRuntime(projectId);
+            await pollWatchedPredictions(projectId);
+        } catch (e: any) {
+            logger.pipeline.warn('event_stream_pump_failed', { projectId, error: e?.message });
+        } finally {
+            running = false;
+        }
+    }, STREAM_PUMP_INTERVAL_MS);
+    streamPumps.set(projectId, timer);
+}
+
+async function pollWatchedPredictions(projectId: string) {
+    const watches = getPredictionWatches(projectId);
+    if (watches.length === 0) return;
+
+    const token = getReplicateToken();
+    for (const watch of watches) {
+        const response = await enqueueReplicateRequest(() =>
+            fetch(`https://api.replicate.com/v1/predictions/${watch.predictionId}`, {
+                headers: { Authorization: `Bearer ${token}` }
+            }),
+            { userId: `project:${projectId}` },
+            'replicate:poll'
+        );
+        if (!response.ok) continue;
+
+        const prediction = await response.json() as ReplicateResponse;
+        if (prediction.status !== watch.lastStatus) {
+            watch.lastStatus = prediction.status;
+            publishPredictionUpdated(projectId, prediction, watch);
+        }
+        if (TERMINAL_PREDICTION_STATUSES.includes(prediction.status)) {
+            await settleCachedPrediction(prediction);
+            unwatchPrediction(projectId, watch.predictionId);
+        }
+    }
+}
+
+function publishPredictionUpdated(projectId: string, prediction: ReplicateResponse, meta: { shotId?: string; kind?: string }) {
+    publishPipelineStreamEvent(projectId, 'prediction_updated', {
+        prediction_id: prediction.id,
+        shot_id: meta.shotId || null,
+        kind: meta.kind || null,
+        status: prediction.status,
+        output: prediction.output,
+        error: prediction.error || null,
+    });
+}
+
+// Helper: announce a freshly created prediction and keep watching it until it settles
+function watchProjectPrediction(projectId: string | undefined, prediction: ReplicateResponse, meta: { shotId?: string; kind?: string }) {
+    if (!projectId || !prediction?.id) return;
+    publishPredictionUpdated(projectId, prediction, meta);
+    if (!TERMINAL_PREDICTION_STATUSES.includes(prediction.status)) {
+        watchPrediction(projectId, { predictionId: prediction.id, shotId: meta.shotId, kind: meta.kind, lastStatus: prediction.status });
+    }
+}
+
+function publishBatchItemCompleted(job: BatchJob, item: BatchJobItem) {
+    if (!job.project_id) return;
+    publishPipelineStreamEvent(job.project_id, 'batch_item_completed', {
+        job: { ...job },
+        item: { ...item },
+    });
+}
+
+app.get('/api/pipeline/:projectId/events', requireAuth, async (req: any, res: any) => {
+    const { projectId } = req.params;
+    const lastEventId = String(req.headers['last-event-id'] || req.query.last_event_id || '').trim() || undefined;
+
+    try {
+        await loadProjectRuntime(projectId);
+    } catch (e: any) {
+        // The stream still carries batch/render/prediction events without a runtime
+        logger.pipeline.warn('event_stream_hydrate_failed', { projectId, error: e?.message });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 3000\n\n');
+
+    const send = (event: PipelineStreamEvent) => {
+        res.write(formatSSE({ id: event.id, type: event.type, data: event.data }));
+    };
+    const subscription = subscribePipelineStream(projectId, lastEventId, send);
+    if (subscription.resync) {
+        res.write(formatSSE({ type: 'resync', data: { reason: 'last_event_id_unavailable' } }));
+    }
+    subscription.backlog.forEach(send);
+    ensureStreamPump(projectId);
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        subscription.unsubscribe();
+    });
+});
+
+// ───────────────────────────────────────────────────────────────
+// POST /api/pipeline/:projectId/transition — Move the stage via a named transition
+// Body: { transition: PipelineTransition, reason?: string }
+// ───────────────────────────────────────────────────────────────
+app.post('/api/pipeline/:projectId/transition', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    const { projectId } = req.params;
+    const { transition, reason } = req.body || {};
+
+    if (!isPipelineTransition(transition)) {
+        return res.status(400).json(createErrorResponse(
+            createError.invalidParameter('transition', `expected one of: ${Object.keys(PIPELINE_TRANSITIONS).join(', ')}`), traceId
+        ));
+    }
+
+    const runtime = await loadProjectRuntime(projectId);
+    if (!runtime) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Pipeline runtime'), traceId));
+    }
+
+    try {
+        const state = transitionProjectStage(projectId, transition, {
+            actor: req.user?.id,
+            reason: typeof reason === 'string' ? reason.slice(0, 500) : undefined,
+        });
+        if (!(await awaitPipelinePersisted(projectId, res, traceId))) return;
+        return res.json({
+            ok: true,
+            stage: state?.stage,
+            transition: state?.stageHistory[state.stageHistory.length - 1],
+            available_transitions: state ? availableTransitions(state) : [],
+        });
+    } catch (error: any) {
+        if (error instanceof PipelineTransitionError) {
+            logger.pipeline.warn('transition_rejected', { projectId, transition, from: error.from, rejection: error.rejection }, traceId);
+            const apiErr = createError.invalidPipelineTransition(projectId, transition, error.from, error.rejection);
+            return res.status(apiErr.statusCode).json(createErrorResponse(apiErr, traceId));
+        }
+        throw error;
+    }
+});
+
 app.post('/api/pipeline/:projectId/queue/control', requireAuth, async (req: any, res: any) => {
     const { projectId } = req.params;
     const { action, shot_id } = req.body || {};
@@ -4914,8 +5662,10 @@ app.post('/api/pipeline/:projectId/queue/control', requireAuth, async (req: any,
         return res.status(400).json({ error: 'Invalid queue action' });
     }
 
-    const state = controlStoryboardQueue(projectId, action, shot_id);
+    await loadProjectRuntime(projectId);
+    const state = controlStoryboardQueue(projectId, action, shot_id, req.user?.id);
     if (!state) return res.status(404).json({ error: 'Pipeline runtime not found for project' });
+    if (!(await awaitPipelinePersisted(projectId, res))) return;
 
     return res.json({
         ok: true,
@@ -4925,17 +5675,364 @@ app.post('/api/pipeline/:projectId/queue/control', requireAuth, async (req: any,
     });
 });
 
-app.post('/api/storyboard/:projectId/shots/:shotId/validate', requireAuth, async (req: any, res: any) => {
-    try {
-        const { projectId, shotId } = req.params;
-        const {
-            image_url,
-            shot,
-            previous_shot,
-            scene_state,
-            character_state,
-        } = req.body || {};
-
+// Helper: ledger inputs for a project — the storyboard's stored prop/costume
+// bibles, pins and story entities, with whatever the request body sends
+// taking precedence (unsaved projects send everything). Request handlers pass
+// the caller's user client so RLS scopes the read; background jobs use admin.
+async function loadContinuityLedgerSources(
+    projectId: string | undefined,
+    body: any,
+    client: any = getSupabaseAdmin()
+): Promise<{ sources: ContinuityLedgerSources; pins: ContinuityStatePin[] }> {
+    let row: any = null;
+    if (projectId) {
+        const { data, error } = await client.from('storyboards').select('*').eq('id', projectId).maybeSingle();
+        if (error) logger.pipeline.warn('ledger_sources_load_failed', { projectId, error: error.message });
+        row = data;
+    }
+    const identityLaw = body?.character_identity_law || row?.character_identity_law;
+    return {
+        sources: {
+            prop_bible: body?.prop_bible ?? row?.prop_bible ?? [],
+            costume_bible: body?.costume_bible ?? row?.costume_bible ?? [],
+            outfit_memory: body?.outfit_memory ?? identityLaw?.identity_lock_bundle?.outfit_memory,
+            characters: body?.characters ?? identityLaw?.character_registry,
+            story_entities: body?.story_entities ?? row?.story_entities ?? [],
+        },
+        pins: Array.isArray(body?.pins) ? body.pins : (row?.continuity_pins || []),
+    };
+}
+
+const isValidStatePin = (pin: any) =>
+    pin && typeof pin === 'object'
+    && typeof pin.shot_id === 'string' && typeof pin.entity_id === 'string' && typeof pin.state === 'string'
+    && (pin.note == null || typeof pin.note === 'string');
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/continuity/ledger — Prop and wardrobe state per shot (lib/continuityLedger.ts)
+//
+// Derives each prop's and outfit's state at every shot from the shot actions,
+// the costume bible / outfit_memory and user pins, and reports regressions
+// (a broken prop shown whole again, a bloodied outfit clean again with no wash).
+//
+// Input (one of):  { shots: [...] }  — shots in story order
+//                  { project_id }    — stored shots of a storyboard
+//                  + optional { pins, prop_bible, costume_bible, outfit_memory,
+//                               characters, story_entities, character_identity_law }
+//                  (stored on the storyboard when omitted)
+// Response:        { entities, shots, regressions, unresolved_pins, pass }
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/continuity/ledger', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { shots, project_id, pins } = req.body || {};
+        if (pins != null && (!Array.isArray(pins) || !pins.every(isValidStatePin))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('pins', '必须是 { shot_id, entity_id, state } 数组'), traceId));
+        }
+
+        // User client: RLS limits stored shots and bibles to the caller's own storyboards
+        const supabaseUser = getUserClient(req.headers.authorization);
+        let projectShots: any[];
+        if (Array.isArray(shots)) {
+            projectShots = shots.filter((s: any) => s && typeof s === 'object');
+        } else if (project_id) {
+            projectShots = await loadStoryboardShots(project_id, supabaseUser);
+            if (projectShots.length === 0) {
+                return res.status(404).json(createErrorResponse(createError.notFound('Storyboard shots'), traceId));
+            }
+        } else {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+
+        const { sources, pins: ledgerPins } = await loadContinuityLedgerSources(project_id, req.body, supabaseUser);
+        const ledger = buildContinuityLedger(projectShots, sources, ledgerPins);
+        logger.pipeline.info('continuity_ledger', {
+            shots: ledger.shots.length,
+            entities: ledger.entities.length,
+            regressions: ledger.regressions.length,
+            unresolved_pins: ledger.unresolved_pins.length,
+        });
+        return res.json(ledger);
+    } catch (error: any) {
+        logger.pipeline.error('continuity_ledger_error', error?.message || String(error));
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// PUT /api/continuity/ledger/:projectId/pins — replace the storyboard's state pins
+// Input: { pins: [{ shot_id, entity_id, state, note? }] }   Response: { project_id, pins }
+app.put('/api/continuity/ledger/:projectId/pins', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { projectId } = req.params;
+        const { pins } = req.body || {};
+        if (!Array.isArray(pins)) return res.status(400).json(createErrorResponse(createError.missingField('pins'), traceId));
+        if (!pins.every(isValidStatePin)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('pins', '必须是 { shot_id, entity_id, state } 数组'), traceId));
+        }
+        const cleaned: ContinuityStatePin[] = pins.map((p: any) => ({
+            shot_id: p.shot_id,
+            entity_id: p.entity_id,
+            state: p.state.trim().toLowerCase(),
+            ...(p.note ? { note: sanitizePromptInput(p.note, 240) } : {}),
+        }));
+
+        // User client: RLS limits the update to the caller's own storyboards
+        const supabaseUser = getUserClient(req.headers.authorization);
+        const { data, error } = await (supabaseUser.from('storyboards') as any)
+            .update({ continuity_pins: cleaned })
+            .eq('id', projectId)
+            .select('id')
+            .maybeSingle();
+        if (error) throw error;
+        if (!data) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), traceId));
+
+        logger.pipeline.info('continuity_pins_saved', { projectId, pins: cleaned.length });
+        return res.json({ project_id: projectId, pins: cleaned });
+    } catch (error: any) {
+        logger.pipeline.error('continuity_pins_error', error?.message || String(error));
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/export/continuity-report — Script supervisor's continuity log
+// (lib/continuityLog.ts)
+//
+// Shot by shot: characters, wardrobe and props (continuity ledger), location /
+// time of day, screen direction, continuity in/out, scores and open violations,
+// with the project's director verification summary on top. Rendered server-side
+// so the file can be attached to review emails as-is.
+//
+// Input:    { project } (full StoryboardProject, e.g. unsaved) or { project_id }
+//           + optional { format: 'html' | 'pdf' } (default html)
+// Response: the file, as an attachment
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/export/continuity-report', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { project, project_id, format = 'html' } = req.body || {};
+        if (format !== 'html' && format !== 'pdf') {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('format', '必须是 html 或 pdf'), traceId));
+        }
+
+        // User client: RLS keeps the export to the caller's own storyboards
+        const supabaseUser = getUserClient(req.headers.authorization);
+        let exportProject: any;
+        let projectId: string | undefined;
+        if (project && typeof project === 'object' && Array.isArray(project.scenes)) {
+            exportProject = project;
+            // A sent project only reaches stored runtime and bibles when the caller owns that id
+            const sentId = typeof project.id === 'string' ? project.id : typeof project_id === 'string' ? project_id : '';
+            if (sentId) {
+                const { data: owned, error } = await (supabaseUser.from('storyboards') as any)
+                    .select('id')
+                    .eq('id', sentId)
+                    .maybeSingle();
+                if (error) throw error;
+                projectId = owned ? sentId : undefined;
+            }
+        } else if (project_id) {
+            const { data: row, error } = await (supabaseUser.from('storyboards') as any)
+                .select('*')
+                .eq('id', project_id)
+                .maybeSingle();
+            if (error) throw error;
+            if (!row) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), traceId));
+            exportProject = {
+                ...row,
+                project_title: row.title || row.project_title,
+                scenes: await loadStoryboardShots(project_id, supabaseUser),
+            };
+            projectId = project_id;
+        } else {
+            return res.status(400).json(createErrorResponse(createError.missingField('project_id'), traceId));
+        }
+
+        const runtime = projectId ? (await loadProjectRuntime(projectId))?.shots : undefined;
+        const { sources, pins } = await loadContinuityLedgerSources(projectId, {
+            ...exportProject,
+            pins: exportProject.continuity_pins,
+        }, supabaseUser);
+        const ledger = buildContinuityLedger(exportProject.scenes, sources, pins);
+        const log = buildContinuityLog(exportProject, { runtime, ledger });
+
+        logger.pipeline.info('continuity_report_export', {
+            projectId,
+            format,
+            shots: log.shot_count,
+            open_violations: log.open_violation_count,
+        }, traceId);
+
+        const slug = String(log.project_title).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'project';
+        if (format === 'pdf') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${slug}_continuity-log.pdf"`);
+            return res.send(renderContinuityLogPdf(log));
+        }
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${slug}_continuity-log.html"`);
+        return res.send(renderContinuityLogHtml(log));
+    } catch (error: any) {
+        logger.pipeline.error('continuity_report_export_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/continuity/perceptual — ffmpeg frame comparison (lib/perceptualContinuity.ts)
+//
+// Storyboard frame vs video first frame, video last frame vs next shot, and the
+// frame vs approved neighbours, scored with dHash + colour histogram + SSIM.
+// With { project_id, shot_id } the shot's approved frame and its approved
+// neighbours in the same scene fill in whatever the body leaves out.
+//
+// Input:    { storyboard_frame_url?, video_url?, next_shot_frame_url?, neighbor_frame_urls?,
+//             project_id?, shot_id? }
+// Response: { checks, errors, continuity_score?, visual_match_score?, violation_tags }
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/continuity/perceptual', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { storyboard_frame_url, video_url, next_shot_frame_url, neighbor_frame_urls, project_id, shot_id } = req.body || {};
+        if (neighbor_frame_urls != null && (!Array.isArray(neighbor_frame_urls) || neighbor_frame_urls.some((u: any) => typeof u !== 'string'))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('neighbor_frame_urls', '必须是字符串数组'), traceId));
+        }
+
+        let storyboardFrameUrl: string | undefined = storyboard_frame_url;
+        let neighborFrameUrls: string[] = neighbor_frame_urls || [];
+        if (project_id && shot_id) {
+            await loadProjectRuntime(project_id);
+            storyboardFrameUrl = storyboardFrameUrl || getApprovedStoryboardFrame(project_id, shot_id);
+            if (!neighbor_frame_urls) neighborFrameUrls = getApprovedNeighborFrames(project_id, shot_id);
+        }
+        if (!storyboardFrameUrl && !video_url) {
+            return res.status(400).json(createErrorResponse(createError.missingField('storyboard_frame_url'), traceId));
+        }
+
+        const report = await scoreShotPerceptualContinuity({
+            storyboardFrameUrl,
+            videoUrl: video_url,
+            nextShotFrameUrl: next_shot_frame_url,
+            neighborFrameUrls,
+        });
+        return res.json(report);
+    } catch (error: any) {
+        logger.pipeline.error('perceptual_continuity_error', error?.message || String(error));
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/continuity/palette — Palette and grade consistency (lib/paletteConsistency.ts)
+//
+// Extracts dominant colours, a luma histogram and a white-balance estimate from
+// each shot's approved frame and video keyframes, compares every scene's shots
+// with its intended palette (SceneBible.palette, else StyleBible.color_palette)
+// and with each other, and suggests a corrective grade per outlier shot — pass
+// it back as segments[].grade to /api/video/finalize.
+//
+// Every shot costs up to three sequential ffmpeg decodes, so a request covers
+// at most MAX_PALETTE_SHOTS shots — check long projects scene by scene. Frame
+// URLs are vetted by extractFrameRaster (public http(s) or data: only).
+//
+// Input (one of):  { shots: [{ shot_id, scene_id?, image_url?, video_url? }] }
+//                  { project_id, scene_id? } — stored shots (of one scene); approved
+//                  frames from the pipeline runtime
+//                  + optional { scene_bibles: SceneBible[], style_palette }
+//                  (style_palette defaults to the storyboard's style_bible.color_palette)
+// Response:        { shots, scenes, errors, outlier_shot_ids, grades, pass }
+// ═══════════════════════════════════════════════════════════════════════════════
+const MAX_PALETTE_SHOTS = 12;
+
+app.post('/api/continuity/palette', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { shots, project_id, scene_id, scene_bibles, style_palette } = req.body || {};
+        if (scene_id != null && typeof scene_id !== 'string') {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('scene_id', '必须是字符串'), traceId));
+        }
+        if (scene_bibles != null && !Array.isArray(scene_bibles)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('scene_bibles', '必须是数组'), traceId));
+        }
+
+        let inputs: PaletteShotInput[];
+        let stylePalette: string | undefined = typeof style_palette === 'string' ? style_palette : undefined;
+        if (Array.isArray(shots)) {
+            inputs = shots
+                .filter((s: any) => s && typeof s.shot_id === 'string' && (typeof s.image_url === 'string' || typeof s.video_url === 'string'))
+                .map((s: any) => ({ shot_id: s.shot_id, scene_id: s.scene_id, image_url: s.image_url, video_url: s.video_url }));
+        } else if (project_id) {
+            // User client: RLS limits stored shots and the style bible to the caller's own storyboards
+            const supabaseUser = getUserClient(req.headers.authorization);
+            const rows = await loadStoryboardShots(project_id, supabaseUser);
+            if (rows.length === 0) {
+                return res.status(404).json(createErrorResponse(createError.notFound('Storyboard shots'), traceId));
+            }
+            const runtime = (await loadProjectRuntime(project_id))?.shots;
+            inputs = rows.map((row: any) => {
+                const shotId = String(row.shot_id || row.id || `shot-${row.scene_number}`);
+                const runtimeShot = [row.shot_id, row.id, `shot-${row.scene_number}`].map((k) => k && runtime?.get(String(k))).find(Boolean);
+                // Storyboard scenes rows carry no scene_id; shots at the same setting share a look
+                const setting = String(row.scene_setting || '').trim().toLowerCase();
+                return {
+                    shot_id: shotId,
+                    scene_id: row.scene_id || runtimeShot?.sceneId || setting || undefined,
+                    image_url: runtimeShot?.approvedImageUrl || row.image_url || undefined,
+                    video_url: row.video_url || undefined,
+                };
+            }).filter((s) => (s.image_url || s.video_url) && (!scene_id || s.scene_id === scene_id));
+            if (stylePalette === undefined) {
+                const { data: row, error } = await (supabaseUser.from('storyboards') as any).select('style_bible').eq('id', project_id).maybeSingle();
+                if (error) logger.pipeline.warn('palette_style_bible_load_failed', { project_id, error: error.message });
+                stylePalette = (row as any)?.style_bible?.color_palette;
+            }
+        } else {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+        if (inputs.length === 0) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('shots', '没有可分析的 image_url / video_url'), traceId));
+        }
+        if (inputs.length > MAX_PALETTE_SHOTS) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('shots', `最多 ${MAX_PALETTE_SHOTS} 个镜头，请按场景分批检查 (scene_id)`), traceId));
+        }
+
+        const scenePalettes: Record<string, string> = {};
+        for (const bible of scene_bibles || []) {
+            if (bible && typeof bible.scene_id === 'string' && typeof bible.palette === 'string') scenePalettes[bible.scene_id] = bible.palette;
+        }
+
+        const report = await buildPaletteConsistencyReport(inputs, { scene_palettes: scenePalettes, style_palette: stylePalette });
+        logger.pipeline.info('palette_consistency', {
+            project_id,
+            shots: report.shots.length,
+            scenes: report.scenes.length,
+            outliers: report.outlier_shot_ids.length,
+            grades: Object.keys(report.grades).length,
+            errors: report.errors.length,
+        }, traceId);
+        return res.json(report);
+    } catch (error: any) {
+        logger.pipeline.error('palette_consistency_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+app.post('/api/storyboard/:projectId/shots/:shotId/validate', requireAuth, async (req: any, res: any) => {
+    try {
+        const { projectId, shotId } = req.params;
+        const {
+            image_url,
+            shot,
+            previous_shot,
+            scene_state,
+            character_state,
+            must_show_provider,
+            video_url,
+            next_shot_frame_url,
+        } = req.body || {};
+
+        await loadProjectRuntime(projectId);
         const contextPack = buildShotContextPack({
             projectId,
             shotId,
@@ -4945,31 +6042,36 @@ app.post('/api/storyboard/:projectId/shots/:shotId/validate', requireAuth, async
             characterState: character_state || {},
         });
 
+        // ★ Perceptual continuity: ffmpeg-decoded frame vs approved neighbours, and vs
+        // the shot's video / the next shot when those are passed
+        const perceptual = image_url
+            ? await scoreShotPerceptualContinuity({
+                storyboardFrameUrl: image_url,
+                videoUrl: video_url,
+                nextShotFrameUrl: next_shot_frame_url,
+                neighborFrameUrls: getApprovedNeighborFrames(projectId, shotId),
+            })
+            : undefined;
+        if (perceptual?.errors.length) {
+            logger.pipeline.warn('perceptual_check_errors', { shot_id: shotId, errors: perceptual.errors.map((e) => `${e.kind}: ${e.error}`) });
+        }
+
         // ★ Gemini Vision scoring: when an image_url is provided, use actual vision analysis
+        let frame: MustShowFrame | null = null;
         let report = scoreStoryboardCandidate({
             imagePrompt: shot?.image_prompt || shot?.imagePrompt,
             action: shot?.action,
             framing: shot?.composition || shot?.framing,
             lighting: shot?.lighting,
             imageUrl: image_url,
+            perceptual,
         });
 
         if (image_url) {
             try {
                 // Fetch the image server-side (avoids CORS) and encode as base64
-                let imageBase64: string;
-                let mimeType = 'image/jpeg';
-                if (image_url.startsWith('data:')) {
-                    const prefixMatch = image_url.match(/^data:(image\/[a-zA-Z+]+);base64,/);
-                    if (prefixMatch) mimeType = prefixMatch[1];
-                    imageBase64 = image_url.split(',')[1];
-                } else {
-                    const imgResp = await fetch(image_url);
-                    const contentType = imgResp.headers.get('content-type') || 'image/jpeg';
-                    mimeType = contentType.split(';')[0].trim();
-                    const arrayBuffer = await imgResp.arrayBuffer();
-                    imageBase64 = Buffer.from(arrayBuffer).toString('base64');
-                }
+                frame = await loadImageForVision(image_url);
+                const { base64: imageBase64, mimeType } = frame;
 
                 const shotContext = [
                     shot?.action && `Action: ${shot.action}`,
@@ -5021,11 +6123,14 @@ Output ONLY a valid JSON object with this exact shape:
 
                 const parsed = parseAiJsonWithRepair(rawText, 'storyboard-validate');
                 if (parsed && typeof parsed.continuity_score === 'number') {
+                    // Measured (ffmpeg) scores win over the model's estimate of the same thing
                     report = {
-                        continuity_score: Math.min(100, Math.max(0, parsed.continuity_score)),
+                        continuity_score: perceptual?.continuity_score ?? Math.min(100, Math.max(0, parsed.continuity_score)),
                         narrative_score: Math.min(100, Math.max(0, parsed.narrative_score ?? report.narrative_score)),
-                        visual_match_score: Math.min(100, Math.max(0, parsed.visual_match_score ?? report.visual_match_score)),
-                        violation_tags: Array.isArray(parsed.violation_tags) ? parsed.violation_tags : report.violation_tags,
+                        visual_match_score: perceptual?.visual_match_score ?? Math.min(100, Math.max(0, parsed.visual_match_score ?? report.visual_match_score)),
+                        violation_tags: Array.isArray(parsed.violation_tags)
+                            ? [...new Set([...parsed.violation_tags, ...(perceptual?.violation_tags || [])])]
+                            : report.violation_tags,
                         regen_recommendation: parsed.regen_recommendation || report.regen_recommendation,
                     };
                 }
@@ -5035,6 +6140,27 @@ Output ONLY a valid JSON object with this exact shape:
             }
         }
 
+        // ★ Image-grounded must_show: failing checklist items become violation_tags
+        // and pick a regen_recommendation when vision scoring did not
+        // A check that cannot run fails every item rather than passing the frame unchecked
+        let mustShowResults: any[] | undefined;
+        if (image_url && buildMustShowChecklist(shot).length > 0) {
+            let check;
+            try {
+                if (!frame) throw new Error('frame could not be loaded');
+                const provider = typeof must_show_provider === 'string' && getMustShowProvider(must_show_provider)
+                    ? getMustShowProvider(must_show_provider)!
+                    : resolveMustShowProvider();
+                check = await verifyMustShow(frame, shot, provider);
+            } catch (mustShowErr: any) {
+                logger.gemini.warn('must_show_check_failed', { shot_id: shotId, error: mustShowErr?.message });
+                check = failedMustShowCheck(shot, mustShowErr?.message || 'must-show check failed');
+            }
+            const merged = mergeMustShowIntoReport(report, check);
+            report = merged;
+            mustShowResults = merged.must_show_results;
+        }
+
         const candidateId = crypto.randomUUID();
         const runtimeShot = registerStoryboardCandidate({
             projectId,
@@ -5045,20 +6171,21 @@ Output ONLY a valid JSON object with this exact shape:
             narrativeScore: report.narrative_score,
             visualMatchScore: report.visual_match_score,
             violations: report.violation_tags,
+            actor: req.user?.id,
         });
+        if (!(await awaitPipelinePersisted(projectId, res, req.traceId))) return;
 
         const runtime = getProjectRuntime(projectId);
 
-        // Persist to Supabase (non-blocking)
-        persistPipelineState(projectId).catch(() => {});
-
         return res.json({
             shot_context_pack: contextPack,
             continuity_report: {
                 shot_id: shotId,
                 ...report,
+                ...(mustShowResults ? { must_show_results: mustShowResults } : {}),
                 validated_at: new Date().toISOString(),
             },
+            perceptual_checks: perceptual?.checks || [],
             candidate_id: candidateId,
             runtime_shot: runtimeShot,
             stage: runtime?.stage || 'storyboard_review',
@@ -5072,16 +6199,12 @@ Output ONLY a valid JSON object with this exact shape:
 app.post('/api/storyboard/:projectId/shots/:shotId/approve', requireAuth, async (req: any, res: any) => {
     const { projectId, shotId } = req.params;
     const { image_url } = req.body || {};
-    const runtimeShot = approveStoryboardShot(projectId, shotId, image_url);
+    await loadProjectRuntime(projectId);
+    const runtimeShot = approveStoryboardShot(projectId, shotId, image_url, req.user?.id);
     if (!runtimeShot) return res.status(404).json({ error: 'Shot runtime not found' });
+    if (!(await awaitPipelinePersisted(projectId, res))) return;
 
     const runtime = getProjectRuntime(projectId);
-    if (runtime?.stage === 'storyboard_approved') {
-        setProjectStage(projectId, 'storyboard_approved');
-    }
-
-    // Persist to Supabase (non-blocking)
-    persistPipelineState(projectId).catch(() => {});
 
     return res.json({
         ok: true,
@@ -5094,7 +6217,7 @@ app.post('/api/storyboard/:projectId/shots/:shotId/approve', requireAuth, async
 
 app.post('/api/storyboard/:projectId/shots/:shotId/regenerate', requireAuth, async (req: any, res: any) => {
     const { projectId, shotId } = req.params;
-    const { mode, reason } = req.body || {};
+    const { mode, reason, freeze_approved, shot_order, model = 'flux' } = req.body || {};
 
     const allowModes = new Set([
         'regenerate_same_shot_keep_bible',
@@ -5110,19 +6233,41 @@ app.post('/api/storyboard/:projectId/shots/:shotId/regenerate', requireAuth, asy
         return res.status(400).json({ error: 'Invalid regeneration mode' });
     }
 
+    const loaded = await loadProjectRuntime(projectId);
+    // Forward regeneration re-renders and charges for every downstream shot, so nothing
+    // is invalidated here: the caller gets the priced plan and confirms it through
+    // POST .../cascade with expected_cost. Approved shots are in the plan unless
+    // freeze_approved: true.
+    if (mode === 'regenerate_from_shot_forward') {
+        const plan = loaded
+            ? planRegenerationCascade(loaded, shotId, {
+                freezeApproved: freeze_approved === true,
+                costPerShot: (IMAGE_MODEL_COSTS as any)[model] ?? 6,
+                order: shot_order,
+            })
+            : null;
+        if (!plan) return res.status(404).json({ error: 'Shot runtime not found' });
+        return res.status(409).json({
+            error: `Forward regeneration needs confirmation: ${plan.regenerateShotIds.length} shot(s), estimated ${plan.estimatedCost} credits`,
+            code: 'CASCADE_CONFIRM_REQUIRED',
+            confirm_required: true,
+            confirm_endpoint: `/api/storyboard/${projectId}/shots/${shotId}/cascade`,
+            cascade: toCascadePlanResponse(plan),
+        });
+    }
+
     const runtimeShot = markShotRegenerated({
         projectId,
         shotId,
         mode,
         reason,
+        actor: req.user?.id,
     });
 
     if (!runtimeShot) return res.status(404).json({ error: 'Shot runtime not found' });
+    if (!(await awaitPipelinePersisted(projectId, res))) return;
     const runtime = getProjectRuntime(projectId);
 
-    // Persist to Supabase (non-blocking)
-    persistPipelineState(projectId).catch(() => {});
-
     return res.json({
         ok: true,
         shot_id: shotId,
@@ -5133,13 +6278,339 @@ app.post('/api/storyboard/:projectId/shots/:shotId/regenerate', requireAuth, asy
     });
 });
 
-app.get('/api/storyboard/:projectId/ready-for-video', requireAuth, async (req: any, res: any) => {
+// Helper: regeneration cascade plan in API shape
+function toCascadePlanResponse(plan: CascadePlan) {
+    return {
+        project_id: plan.projectId,
+        from_shot_id: plan.fromShotId,
+        freeze_approved: plan.freezeApproved,
+        shots: plan.entries.map((e) => ({
+            shot_id: e.shotId,
+            sequence_order: e.sequenceOrder,
+            status: e.status,
+            action: e.action,
+        })),
+        regenerate_shot_ids: plan.regenerateShotIds,
+        frozen_shot_ids: plan.frozenShotIds,
+        regenerate_count: plan.regenerateShotIds.length,
+        cost_per_shot: plan.costPerShot,
+        estimated_cost: plan.estimatedCost,
+    };
+}
+
+// Helper: shot ids in story order (scene, then shot number) from a client shot list
+function storyOrderShotIds(shots: any[]): string[] | undefined {
+    if (!Array.isArray(shots) || shots.length === 0) return undefined;
+    return [...shots]
+        .sort((a: any, b: any) => ((a.scene_number || 0) - (b.scene_number || 0)) || ((a.shot_number || 0) - (b.shot_number || 0)))
+        .map((s: any) => String(s.shot_id || ''))
+        .filter(Boolean);
+}
+
+// ───────────────────────────────────────────────────────────────
+// POST /api/storyboard/:projectId/shots/:shotId/cascade/preview
+// Plans a regenerate_from_shot_forward cascade without changing anything:
+// which downstream shots are regenerated, which stay frozen, and the cost.
+// Body: { freeze_approved?: boolean (default false), model?: ImageModel, shots?: ShotForBatch[] }
+// With freeze_approved: true, approved downstream shots are kept and listed in frozen_shot_ids.
+// ───────────────────────────────────────────────────────────────
+app.post('/api/storyboard/:projectId/shots/:shotId/cascade/preview', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    const { projectId, shotId } = req.params;
+    const { freeze_approved = false, model = 'flux', shots } = req.body || {};
+
+    const runtime = await loadProjectRuntime(projectId);
+    if (!runtime) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Pipeline runtime'), traceId));
+    }
+    const plan = planRegenerationCascade(runtime, shotId, {
+        freezeApproved: freeze_approved === true,
+        costPerShot: (IMAGE_MODEL_COSTS as any)[model] ?? 6,
+        order: storyOrderShotIds(shots),
+    });
+    if (!plan) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Shot runtime'), traceId));
+    }
+
+    return res.json(toCascadePlanResponse(plan));
+});
+
+// ───────────────────────────────────────────────────────────────
+// POST /api/storyboard/:projectId/shots/:shotId/cascade — Run a confirmed cascade (SSE)
+// Re-plans, rejects with 409 when the cost differs from the previewed
+// expected_cost, invalidates the planned shots, then regenerates them in story
+// order. Each new frame is registered as the continuity reference for the next.
+// Body: { expected_cost: number, shots: ShotForBatch[], freeze_approved? (default false), model?,
+//         aspect_ratio?, style?, character_anchor?, story_entities?, style_bible?,
+//         director_brain?, reason? }
+// Streams 'plan', then 'progress' / 'done' in the /api/batch/gen-images shape.
+// ───────────────────────────────────────────────────────────────
+app.post('/api/storyboard/:projectId/shots/:shotId/cascade', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    const { projectId, shotId } = req.params;
+    try {
+        const { expected_cost, shots, freeze_approved = false, model = 'flux', aspect_ratio = '16:9', style = 'none', character_anchor = '', story_entities, style_bible, director_brain, reason } = req.body || {};
+        if (!shots?.length) return res.status(400).json(createErrorResponse(createError.invalidParameter('shots', '不能为空'), traceId));
+        if (typeof expected_cost !== 'number') return res.status(400).json(createErrorResponse(createError.missingField('expected_cost'), traceId));
+
+        const supabaseUser = getUserClient(req.headers.authorization);
+        const userId = req.user?.id;
+        const userEmail = req.user?.email;
+        if (!userId || !userEmail) return res.status(401).json(createErrorResponse(createError.unauthorized(), traceId));
+
+        const runtime = await loadProjectRuntime(projectId);
+        if (!runtime) {
+            return res.status(404).json(createErrorResponse(createError.notFound('Pipeline runtime'), traceId));
+        }
+
+        const costPerImage = (IMAGE_MODEL_COSTS as any)[model] ?? 6;
+        const plan = planRegenerationCascade(runtime, shotId, {
+            freezeApproved: freeze_approved === true,
+            costPerShot: costPerImage,
+            order: storyOrderShotIds(shots),
+        });
+        if (!plan) {
+            return res.status(404).json(createErrorResponse(createError.notFound('Shot runtime'), traceId));
+        }
+        if (plan.estimatedCost !== expected_cost) {
+            // Shots were approved or regenerated since the preview; show the new plan again
+            return res.status(409).json({
+                ...createErrorResponse(createError.invalidParameter('expected_cost', `级联费用已变为 ${plan.estimatedCost} 积分，请重新确认`), traceId),
+                cascade: toCascadePlanResponse(plan),
+            });
+        }
+
+        const shotById = new Map<string, any>(shots.map((s: any) => [String(s.shot_id), s]));
+        const missing = plan.regenerateShotIds.filter((id) => !shotById.has(id));
+        if (missing.length) {
+            return res.status(400).json(createErrorResponse(
+                createError.invalidParameter('shots', `缺少镜头数据: ${missing.slice(0, 5).join(', ')}`), traceId
+            ));
+        }
+
+        const entitlement = await checkEntitlement(userId, userEmail, 'batch_images', plan.estimatedCost);
+        if (!entitlement.allowed) {
+            const status = entitlement.errorCode === 'NEED_PAYMENT' ? 402
+                : entitlement.errorCode === 'INSUFFICIENT_CREDITS' ? 402 : 403;
+            return res.status(status).json({
+                error: entitlement.reason,
+                code: entitlement.errorCode,
+                credits: entitlement.credits,
+                needed: plan.estimatedCost,
+            });
+        }
+
+        const skipCreditCheck = entitlement.mode === 'developer';
+        const cascadeRef = `cascade-img:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+        if (!skipCreditCheck) {
+            const { data: reserved, error: reserveErr } = await supabaseUser.rpc('reserve_credits', { amount: plan.estimatedCost, ref_type: 'cascade-image', ref_id: cascadeRef });
+            if (reserveErr) return res.status(500).json({ error: 'Credit verification failed' });
+            if (!reserved) return res.status(402).json({ error: 'Insufficient credits', code: 'INSUFFICIENT_CREDITS', needed: plan.estimatedCost });
+        } else {
+            logDeveloperAccess(userEmail, `storyboard:cascade:count=${plan.regenerateShotIds.length}:totalCost=${plan.estimatedCost}`);
+        }
+
+        markShotRegenerated({
+            projectId,
+            shotId,
+            mode: 'regenerate_from_shot_forward',
+            reason: typeof reason === 'string' ? reason.slice(0, 500) : undefined,
+            cascadeShotIds: plan.regenerateShotIds,
+            actor: userId,
+        });
+        await flushPipelineEvents(projectId);
+        logger.pipeline.info('cascade_started', {
+            projectId, shotId, regenerate: plan.regenerateShotIds.length, frozen: plan.frozenShotIds.length, cost: plan.estimatedCost,
+        }, traceId);
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+
+        const sendSSE = (event: string, data: any) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+        sendSSE('plan', toCascadePlanResponse(plan));
+
+        const reservation: BatchCreditReservation | undefined = skipCreditCheck
+            ? undefined
+            : { ref_type: 'cascade-image', ref_id: cascadeRef, cost_per_item: costPerImage };
+        const jobId = crypto.randomUUID();
+        const storyOrder = storyOrderShotIds(shots) || [];
+        const orderedShots = storyOrder.length > 0 ? storyOrder.map((id) => shotById.get(id)).filter(Boolean) : shots;
+        // Every shot is compiled so each cascade shot is prompted against its story predecessor
+        const runParams: ImageShotRunParams = { shots: orderedShots, model, aspect_ratio, style, character_anchor, story_entities, style_bible, director_brain, reference_mode: 'previous_frame' };
+        const created = await createBatchJob({
+            jobId,
+            projectId,
+            userId,
+            type: 'regen_cascade',
+            concurrency: 1,
+            items: plan.regenerateShotIds.map((id) => {
+                const s = shotById.get(id);
+                return { shotId: s.shot_id, shotNumber: s.shot_number, sceneNumber: s.scene_number };
+            }),
+            params: { ...runParams, reservation },
+            tier: await resolveSchedulingTier(userId, userEmail),
+        });
+        sendSSE('progress', created);
+
+        let cancelled = false;
+        req.on('close', () => { cancelled = true; });
+
+        const { sources: ledgerSources, pins: ledgerPins } = await loadContinuityLedgerSources(projectId, req.body);
+        const continuityLedger = buildContinuityLedger(orderedShots, ledgerSources, ledgerPins);
+
+        const executeCascadeShot = createImageShotExecutor(projectId, runParams, {
+            continuityLedger,
+            onGenerated: recordCascadeCandidate(projectId, userId),
+        });
+
+        const { job, items } = (await runBatchJob(jobId, {
+            executor: executeCascadeShot,
+            onProgress: (job, items, item) => {
+                sendSSE('progress', { job, items });
+                if (item.status === 'failed') logger.replicate.error('cascade_shot_failed', item.error, { shot_id: item.shot_id });
+                if (item.status !== 'running') publishBatchItemCompleted(job, item);
+            },
+            shouldStop: () => cancelled,
+        })) || created;
+
+        await settleBatchReservation(job, reservation);
+        logger.pipeline.info('cascade_finished', { projectId, shotId, status: job.status, succeeded: job.succeeded, failed: job.failed }, traceId);
+
+        sendSSE('done', { job, items });
+        res.end();
+    } catch (error: any) {
+        logger.pipeline.error('cascade_error', error?.message || String(error), { projectId, shotId }, traceId);
+        if (!res.headersSent) {
+            res.status(500).json({ error: error?.message || 'Regeneration cascade failed' });
+        } else {
+            res.write(`event: error\ndata: ${JSON.stringify({ error: error?.message })}\n\n`);
+            res.end();
+        }
+    }
+});
+
+// Helper: candidate history of one runtime shot, newest first, in API shape
+function toShotCandidateHistory(projectId: string, shot: RuntimeShotState) {
+    const latestId = shot.history[shot.history.length - 1]?.candidateId;
+    return {
+        shot_id: shot.shotId,
+        version: shot.version,
+        status: shot.status,
+        approved_image_url: shot.approvedImageUrl || null,
+        approved_candidate_id: shot.approvedCandidateId || null,
+        candidates: [...shot.history].reverse().map((c) => ({
+            candidate_id: c.candidateId,
+            image_url: c.imageUrl || null,
+            continuity_score: c.continuityScore,
+            narrative_score: c.narrativeScore,
+            visual_match_score: c.visualMatchScore,
+            overall_score: Math.round((c.continuityScore + c.narrativeScore + c.visualMatchScore) / 3),
+            violation_tags: c.violations,
+            created_at: new Date(c.createdAt).toISOString(),
+            is_approved: shot.status === 'approved' && c.candidateId === shot.approvedCandidateId,
+            is_latest: c.candidateId === latestId,
+        })),
+        regeneration_jobs: shot.regenerationJobs.map((j) => ({
+            id: j.id,
+            shot_id: shot.shotId,
+            project_id: projectId,
+            mode: j.mode,
+            reason: j.reason,
+            from_version: j.fromVersion,
+            to_version: j.toVersion,
+            candidate_id: j.candidateId,
+            actor: j.actor,
+            created_at: new Date(j.createdAt).toISOString(),
+        })),
+    };
+}
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/storyboard/:projectId/candidates[?shot_id=] — Candidate history per shot
+// ───────────────────────────────────────────────────────────────
+app.get('/api/storyboard/:projectId/candidates', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
     const { projectId } = req.params;
+    const shotId = typeof req.query.shot_id === 'string' ? req.query.shot_id : '';
+
+    const runtime = await loadProjectRuntime(projectId);
+    if (!runtime) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Pipeline runtime'), traceId));
+    }
+
+    const shots = [...runtime.shots.values()]
+        .filter((s) => !shotId || s.shotId === shotId)
+        .sort((a, b) => a.sequenceOrder - b.sequenceOrder);
+    if (shotId && shots.length === 0) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Shot runtime'), traceId));
+    }
 
-    // Auto-restore if runtime was lost
-    if (!getProjectRuntime(projectId)) {
-        await restorePipelineStateFromDB(projectId);
+    return res.json({
+        project_id: projectId,
+        shots: shots.map((s) => toShotCandidateHistory(projectId, s)),
+    });
+});
+
+// ───────────────────────────────────────────────────────────────
+// POST /api/storyboard/:projectId/shots/:shotId/candidates/:candidateId/promote
+// Rolls the shot back to an earlier candidate; the version bump is logged
+// as a rollback_to_candidate regeneration job.
+// Body: { reason?: string }
+// ───────────────────────────────────────────────────────────────
+app.post('/api/storyboard/:projectId/shots/:shotId/candidates/:candidateId/promote', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    const { projectId, shotId, candidateId } = req.params;
+    const { reason } = req.body || {};
+
+    const runtime = await loadProjectRuntime(projectId);
+    const shot = runtime?.shots.get(shotId);
+    if (!shot) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Shot runtime'), traceId));
+    }
+    const candidate = shot.history.find((c) => c.candidateId === candidateId);
+    if (!candidate) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Storyboard candidate'), traceId));
+    }
+    if (!candidate.imageUrl) {
+        return res.status(400).json(createErrorResponse(
+            createError.invalidParameter('candidateId', 'candidate has no image to restore'), traceId
+        ));
+    }
+
+    const runtimeShot = promoteStoryboardCandidate({
+        projectId,
+        shotId,
+        candidateId,
+        reason: typeof reason === 'string' ? reason.slice(0, 500) : undefined,
+        actor: req.user?.id,
+    });
+    if (!runtimeShot) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Storyboard candidate'), traceId));
     }
+    if (!(await awaitPipelinePersisted(projectId, res, traceId))) return;
+    logger.pipeline.info('candidate_promoted', { projectId, shotId, candidateId, version: runtimeShot.version }, traceId);
+
+    const history = toShotCandidateHistory(projectId, runtimeShot);
+    return res.json({
+        ok: true,
+        shot_id: shotId,
+        approved_frame: runtimeShot.approvedImageUrl,
+        version: runtimeShot.version,
+        regeneration_job: history.regeneration_jobs[history.regeneration_jobs.length - 1],
+        history,
+        stage: getProjectRuntime(projectId)?.stage || 'storyboard_review',
+    });
+});
+
+app.get('/api/storyboard/:projectId/ready-for-video', requireAuth, async (req: any, res: any) => {
+    const { projectId } = req.params;
+    await loadProjectRuntime(projectId);
 
     const ready = hasApprovedStoryboard(projectId);
     return res.json({
@@ -5152,16 +6623,11 @@ app.get('/api/storyboard/:projectId/ready-for-video', requireAuth, async (req: a
 // ───────────────────────────────────────────────────────────────
 // GET /api/storyboard/:projectId/assembly-manifest
 // Returns a full shot-level status manifest for the project pipeline
+// ?branches=a,b picks the alternate takes to assemble (default: the stored selection)
 // ───────────────────────────────────────────────────────────────
 app.get('/api/storyboard/:projectId/assembly-manifest', requireAuth, async (req: any, res: any) => {
     const { projectId } = req.params;
-    let runtime = getProjectRuntime(projectId);
-
-    // Auto-restore from Supabase on miss
-    if (!runtime) {
-        await restorePipelineStateFromDB(projectId);
-        runtime = getProjectRuntime(projectId);
-    }
+    const runtime = await loadProjectRuntime(projectId);
 
     if (!runtime) {
         // Gracefully return empty manifest if runtime not initialised yet
@@ -5177,7 +6643,48 @@ app.get('/api/storyboard/:projectId/assembly-manifest', requireAuth, async (req:
         });
     }
 
-    const shotsArray = [...runtime.shots.values()].sort((a, b) => a.sequenceOrder - b.sequenceOrder);
+    const mainShots = [...runtime.shots.values()].sort((a, b) => a.sequenceOrder - b.sequenceOrder);
+
+    // Active alternates replace their main-line range. Branch shots have no runtime
+    // state: one with an image counts as approved, since picking the take is the approval.
+    let branchSources: Awaited<ReturnType<typeof loadShotBranchSources>>;
+    try {
+        branchSources = await loadShotBranchSources(projectId, {
+            shots: mainShots.map(s => ({ shot_id: s.shotId, sequence_order: s.sequenceOrder })),
+            ...(typeof req.query.branches === 'string'
+                ? { active_branch_ids: req.query.branches.split(',').map((id: string) => id.trim()).filter(Boolean) }
+                : {}),
+        }, getUserClient(req.headers.authorization));
+    } catch (error: any) {
+        logger.pipeline.error('assembly_manifest_branches_failed', error?.message || String(error), { projectId }, req.traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), req.traceId));
+    }
+    if (!branchSources) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), req.traceId));
+    let shotsArray: Array<RuntimeShotState & { branchId?: string }> = mainShots;
+    if (branchSources.active_branch_ids.length > 0) {
+        try {
+            shotsArray = resolveBranchSequence(branchSources).map((shot: any): RuntimeShotState & { branchId?: string } => {
+                const main = shot.branch_id ? undefined : runtime.shots.get(shot.shot_id);
+                if (main) return { ...main, sequenceOrder: shot.sequence_order };
+                return {
+                    shotId: shot.shot_id,
+                    sceneId: shot.scene_id || shot.shot_id,
+                    sequenceOrder: shot.sequence_order,
+                    status: shot.image_url ? 'approved' : 'pending',
+                    version: Number(shot.version) || 1,
+                    approvedImageUrl: shot.image_url,
+                    lastImageUrl: shot.image_url,
+                    violationTags: [],
+                    history: [],
+                    regenerationJobs: [],
+                    branchId: shot.branch_id,
+                };
+            });
+        } catch (error: any) {
+            if (!(error instanceof ShotBranchError)) throw error;
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('branches', error.message), req.traceId || generateTraceId()));
+        }
+    }
     const approvedShots = shotsArray.filter(s => s.status === 'approved');
     const failedShots = shotsArray.filter(s => s.status === 'failed');
     const weakShots = shotsArray.filter(s =>
@@ -5209,12 +6716,14 @@ app.get('/api/storyboard/:projectId/assembly-manifest', requireAuth, async (req:
         regen_reason: s.regenerateReason,
         has_approved_storyboard: s.status === 'approved',
         history_count: s.history.length,
+        ...(s.branchId ? { branch_id: s.branchId } : {}),
     }));
 
     return res.json({
         project_id: projectId,
         stage: runtime.stage,
         paused: runtime.paused,
+        active_branch_ids: branchSources.active_branch_ids,
         total_shots: shotsArray.length,
         approved_shots: approvedShots.length,
         failed_shots: failedShots.length,
@@ -5261,62 +6770,483 @@ app.post('/api/batch/compile-prompts', async (req: any, res: any) => {
             characterAnchor: character_anchor,
         });
 
-        const sortedShots = [...shots].sort((a: any, b: any) => (a.scene_number - b.scene_number) || (a.shot_number - b.shot_number));
-        const compiled: any[] = [];
+        const sortedShots = [...shots].sort((a: any, b: any) => (a.scene_number - b.scene_number) || (a.shot_number - b.shot_number));
+        const compiled: any[] = [];
+
+        for (let i = 0; i < sortedShots.length; i += 1) {
+            const shot = sortedShots[i];
+            const previousShot = i > 0 ? sortedShots[i - 1] : undefined;
+            const previousPrompt = i > 0 ? compiled[i - 1]?.model_prompt : undefined;
+
+            const compileShotDirectorBrain = extractDirectorBrainForShot({
+                directorBrain: compileDirBrain,
+                sceneId: shot.scene_id,
+                sceneNumber: shot.scene_number,
+            });
+
+            const compiledShot = buildShotImagePrompt({
+                shot,
+                scene: {
+                    scene_id: shot.scene_id,
+                    synopsis: shot.scene_summary || shot.visual_description || '',
+                    location: shot.location || shot.scene_setting || '',
+                    time_of_day: shot.time_of_day || '',
+                },
+                styleBible: style_bible || {},
+                previousShot,
+                previousPrompt,
+                characterBibles: compileCharacterBibles,
+                characterAnchor: character_anchor,
+                directorBrain: compileShotDirectorBrain,
+                styleLabel: style,
+            });
+
+            compiled.push(compiledShot);
+        }
+
+        const duplicateWarnings: any[] = [];
+        for (let i = 2; i < compiled.length; i += 1) {
+            const a = compiled[i - 2]?.variance_report?.similarity_score ?? 0;
+            const b = compiled[i - 1]?.variance_report?.similarity_score ?? 0;
+            if (a > 0.92 && b > 0.92) {
+                duplicateWarnings.push({
+                    code: 'PROMPT_REPEAT_ALERT',
+                    shot_id: compiled[i]?.shot_id,
+                    message: '该镜头未充分响应剧本内容，请重新编译 prompt',
+                });
+            }
+        }
+
+        return res.json({
+            success: true,
+            project_id,
+            compiled_shots: compiled,
+            duplicate_warnings: duplicateWarnings,
+        });
+    } catch (error: any) {
+        logger.replicate.error('batch_compile_prompts_error', error?.message || String(error));
+        return res.status(500).json({ error: error?.message || 'Failed to compile prompts' });
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/shots/prompt-diff — Section-aware diff of two prompt versions
+//
+// Compares the image prompts two shot revisions compile to (canonical prompt +
+// identity lock + continuity locks + negatives), or the prompts two
+// ImageGeneration records were sent with, and attributes each changed section
+// to the field that caused it (see lib/promptDiff.ts).
+//
+// Input (one of):  { from, to }  — { shot, scene?, previous_shot?, style_bible?, style?,
+//                                    character_anchor?, director_brain?, continuity?, image_model? }
+//                  { from_generation, to_generation } — ImageGeneration records
+// Response:        { mode, from, to, sections, changed_fields, summary }
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/shots/prompt-diff', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { from, to, from_generation, to_generation } = req.body || {};
+
+        if (from_generation || to_generation) {
+            for (const [field, generation] of [['from_generation', from_generation], ['to_generation', to_generation]] as const) {
+                if (!generation || typeof generation !== 'object') {
+                    return res.status(400).json(createErrorResponse(createError.missingField(field), traceId));
+                }
+                if (typeof generation.prompt !== 'string') {
+                    return res.status(400).json(createErrorResponse(createError.invalidParameter(`${field}.prompt`, '必须是字符串'), traceId));
+                }
+            }
+            return res.json(diffGenerations(from_generation, to_generation));
+        }
+
+        for (const [field, side] of [['from', from], ['to', to]] as const) {
+            if (!side || typeof side !== 'object') {
+                return res.status(400).json(createErrorResponse(createError.missingField(field), traceId));
+            }
+            if (!side.shot || typeof side.shot !== 'object') {
+                return res.status(400).json(createErrorResponse(createError.invalidParameter(`${field}.shot`, '缺少镜头数据'), traceId));
+            }
+        }
+        return res.json(diffShotVersions(from, to));
+    } catch (error: any) {
+        logger.shot.error('prompt_diff_error', error?.message || String(error));
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/shots/verifier-profiles — Verifier profiles and the default
+// profile for each ProjectType.
+// ───────────────────────────────────────────────────────────────
+app.get('/api/shots/verifier-profiles', requireAuth, (req: any, res: any) => {
+    res.json({
+        profiles: listVerifierProfiles(),
+        by_project_type: VERIFIER_PROFILE_BY_PROJECT_TYPE,
+    });
+});
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/shots/structure-templates — Story structure templates and the default
+// ───────────────────────────────────────────────────────────────
+app.get('/api/shots/structure-templates', requireAuth, (req: any, res: any) => {
+    res.json({
+        templates: listStructureTemplates(),
+        default_template_id: DEFAULT_STRUCTURE_TEMPLATE_ID,
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/shots/structure-check — Beats missing, misplaced or overlong
+//
+// Lays the shots out on the runtime (duration_sec) and measures each beat of a
+// structure template against its target window (see lib/storyStructure.ts).
+// Shots are assigned by structure_beat, else by act_position, and also carry
+// the slots folded into their scene (structure_also_covers).
+//
+// Input (one of):  { shots: [...] }  — shots in story order
+//                  { project_id }    — stored shots of a storyboard
+//                  + optional { template_id } (default: the storyboard's, else three_act),
+//                    { tolerance_pct, overlong_ratio }
+// Response:        StructureCheckReport
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/shots/structure-check', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { shots, project_id, template_id, tolerance_pct, overlong_ratio } = req.body || {};
+        if (template_id != null && (typeof template_id !== 'string' || !getStructureTemplate(template_id))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('template_id', '未知的故事结构模板'), traceId));
+        }
+        for (const [name, value] of [['tolerance_pct', tolerance_pct], ['overlong_ratio', overlong_ratio]] as const) {
+            if (value != null && !(typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+                return res.status(400).json(createErrorResponse(createError.invalidParameter(name, '必须是非负数'), traceId));
+            }
+        }
+
+        let shotList: any[];
+        let templateId: string = template_id || '';
+        if (Array.isArray(shots)) {
+            shotList = shots.filter((s: any) => s && typeof s === 'object');
+        } else if (project_id) {
+            // User client: RLS limits the storyboard and shots reads to the caller's own storyboards
+            const supabaseUser = getUserClient(req.headers.authorization);
+            const { data, error } = await supabaseUser.from('storyboards').select('structure_template').eq('id', project_id).maybeSingle();
+            if (error) throw error;
+            if (!data) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), traceId));
+            templateId = templateId || (data as any).structure_template || '';
+            shotList = await loadStoryboardShots(project_id, supabaseUser);
+        } else {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+        const template = getStructureTemplate(templateId) || getStructureTemplate(DEFAULT_STRUCTURE_TEMPLATE_ID)!;
+
+        const report = checkStoryStructure(template, shotList, { tolerance_pct, overlong_ratio });
+        logger.shot.info('structure_check', {
+            project_id,
+            template: template.id,
+            shots: shotList.length,
+            pass: report.pass,
+            missing: report.missing.length,
+            misplaced: report.misplaced.length,
+            overlong: report.overlong.length,
+        }, traceId);
+        return res.json(report);
+    } catch (error: any) {
+        logger.shot.error('structure_check_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// Helper: a storyboard's stored shots (scenes rows) in story order, characters parsed
+async function loadStoryboardShots(projectId: string, client: any = getSupabaseAdmin()): Promise<any[]> {
+    const { data, error } = await client
+        .from('scenes')
+        .select('*')
+        .eq('storyboard_id', projectId)
+        .order('scene_number', { ascending: true });
+    if (error) throw error;
+    return ((data as any[]) || []).map((row: any) => {
+        let characters: string[] = [];
+        if (row.characters_json) {
+            try { characters = JSON.parse(row.characters_json); } catch {}
+        }
+        let structureAlsoCovers: string[] | undefined;
+        if (row.structure_also_covers_json) {
+            try { structureAlsoCovers = JSON.parse(row.structure_also_covers_json); } catch {}
+        }
+        return { ...row, characters, ...(structureAlsoCovers ? { structure_also_covers: structureAlsoCovers } : {}) };
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/shots/similarity-index — Project-wide redundant shot clusters
+//
+// Compares every pair of shots (canonical prompt TF-IDF + CinematicFingerprint),
+// clusters the ones at or above the threshold wherever they sit in the sequence,
+// and ranks each cluster by screenplay removal value (see lib/shotSimilarityIndex.ts).
+//
+// Input (one of):  { shots: [...] }  — shots in story order (e.g. an unsaved project)
+//                  { project_id }    — stored shots of a storyboard
+//                  + optional { threshold } (0–1, default 0.65)
+// Response:        { threshold, shot_count, pairs, clusters, redundant_shot_ids }
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/shots/similarity-index', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { shots, project_id, threshold } = req.body || {};
+        if (threshold != null && (typeof threshold !== 'number' || threshold <= 0 || threshold > 1)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('threshold', '必须是 0 到 1 之间的数字'), traceId));
+        }
+
+        let projectShots: any[];
+        if (Array.isArray(shots)) {
+            projectShots = shots.filter((s: any) => s && typeof s === 'object');
+        } else if (project_id) {
+            // User client: RLS limits the shots read to the caller's own storyboards
+            projectShots = await loadStoryboardShots(project_id, getUserClient(req.headers.authorization));
+            if (projectShots.length === 0) {
+                return res.status(404).json(createErrorResponse(createError.notFound('Storyboard shots'), traceId));
+            }
+        } else {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+
+        const index = buildShotSimilarityIndex(projectShots, { threshold });
+        logger.shot.info('similarity_index', { shots: index.shot_count, clusters: index.clusters.length, redundant: index.redundant_shot_ids.length });
+        return res.json(index);
+    } catch (error: any) {
+        logger.shot.error('similarity_index_error', error?.message || String(error));
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/shots/graph/edit — Insert / delete / move / split / merge shots
+// (lib/shotGraphEditor.ts)
+//
+// Applies the edits in order, re-links prev/next and recomputes bridges and
+// temporal guidance for the affected window only. Each edit may carry
+// expected_versions ({ shot_id: version }), checked against the caller's
+// stored shots rows; a mismatch rejects the whole request with 409 and
+// nothing is applied. Changed shots — moved ones included — come back with
+// version + 1.
+//
+// Input:    { shots: [...] (story order), shot_graph?: ShotGraphNode[], edits: ShotGraphEdit[] }
+// Response: { shots, graph, inserted_shot_ids, removed_shot_ids, recomputed_shot_ids, changed_shot_ids }
+// ═══════════════════════════════════════════════════════════════════════════════
+const SHOT_GRAPH_OPS = new Set(['insert', 'delete', 'move', 'split', 'merge']);
+// shots.shot_id is a uuid; other ids have no stored row
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+app.post('/api/shots/graph/edit', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { shots, shot_graph, edits } = req.body || {};
+        if (!Array.isArray(shots) || shots.length === 0) {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+        if (!Array.isArray(edits) || edits.length === 0) {
+            return res.status(400).json(createErrorResponse(createError.missingField('edits'), traceId));
+        }
+        if (!edits.every((e: any) => e && SHOT_GRAPH_OPS.has(e.op))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('edits', 'op 必须是 insert / delete / move / split / merge'), traceId));
+        }
+        if (shot_graph != null && !Array.isArray(shot_graph)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('shot_graph', '必须是数组'), traceId));
+        }
+
+        // Stored versions of the locked shots; user client, so RLS scopes them to the caller
+        const lockedIds = [...new Set(edits.flatMap((e: any) => Object.keys(e.expected_versions || {})))] as string[];
+        const storedVersions: Record<string, number> = {};
+        const storedIds = lockedIds.filter((id) => UUID_RE.test(id));
+        if (storedIds.length > 0) {
+            const { data, error } = await (getUserClient(req.headers.authorization).from('shots') as any)
+                .select('shot_id, version')
+                .in('shot_id', storedIds);
+            if (error) throw error;
+            for (const row of (data as any[]) || []) storedVersions[row.shot_id] = row.version;
+        }
+
+        const result = editShotGraph({
+            shots: shots.filter((s: any) => s && typeof s === 'object'),
+            graph: shot_graph || undefined,
+            edits: edits as ShotGraphEdit[],
+            stored_versions: storedVersions,
+        });
+        logger.shot.info('shot_graph_edited', {
+            ops: edits.map((e: any) => e.op),
+            shots: result.shots.length,
+            recomputed: result.recomputed_shot_ids.length,
+            changed: result.changed_shot_ids.length,
+        }, traceId);
+        return res.json(result);
+    } catch (error: any) {
+        if (error instanceof ShotGraphEditError) {
+            logger.shot.warn('shot_graph_edit_rejected', { code: error.code, message: error.message }, traceId);
+            const apiErr = error.code === 'version_conflict'
+                ? createError.versionConflict('Shot', error.details)
+                : error.code === 'not_found'
+                ? createError.notFound(`Shot ${error.details.shot_id}`)
+                : createError.invalidParameter('edits', error.message);
+            return res.status(apiErr.statusCode).json(createErrorResponse(apiErr, traceId));
+        }
+        logger.shot.error('shot_graph_edit_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// Helper: a storyboard's stored shots keyed the way the pipeline runtime keys them
+// (initProjectRuntime: shot_id, else shot-{scene_number}), so branch ranges checked
+// against them resolve against the assembly manifest's runtime shots too.
+async function loadBranchMainLine(projectId: string, client: any = getSupabaseAdmin()): Promise<any[]> {
+    return (await loadStoryboardShots(projectId, client)).map((row: any) => ({
+        ...row,
+        shot_id: row.shot_id || `shot-${row.scene_number}`,
+    }));
+}
 
-        for (let i = 0; i < sortedShots.length; i += 1) {
-            const shot = sortedShots[i];
-            const previousShot = i > 0 ? sortedShots[i - 1] : undefined;
-            const previousPrompt = i > 0 ? compiled[i - 1]?.model_prompt : undefined;
+// Helper: a storyboard's main-line shots, stored branches and active selection,
+// with whatever the request body sends taking precedence (unsaved projects send all).
+// Pass the caller's user client: null when RLS hides the storyboard or it does not exist.
+async function loadShotBranchSources(
+    projectId: string | undefined,
+    body: any,
+    client: any = getSupabaseAdmin()
+): Promise<{ shots: any[]; branches: ShotGraphBranch[]; active_branch_ids: string[] } | null> {
+    let row: any = null;
+    let shots: any[] = Array.isArray(body?.shots) ? body.shots.filter((s: any) => s && typeof s === 'object') : [];
+    if (projectId) {
+        const { data, error } = await client.from('storyboards').select('shot_branches, active_branch_ids').eq('id', projectId).maybeSingle();
+        if (error) throw error;
+        if (!data) return null;
+        row = data;
+        if (!Array.isArray(body?.shots)) shots = await loadBranchMainLine(projectId, client);
+    }
+    return {
+        shots,
+        branches: Array.isArray(body?.branches) ? body.branches : (row?.shot_branches || []),
+        active_branch_ids: Array.isArray(body?.active_branch_ids) ? body.active_branch_ids : (row?.active_branch_ids || []),
+    };
+}
 
-            const compileShotDirectorBrain = extractDirectorBrainForShot({
-                directorBrain: compileDirBrain,
-                sceneId: shot.scene_id,
-                sceneNumber: shot.scene_number,
-            });
+const isStringArray = (v: any) => Array.isArray(v) && v.every((x: any) => typeof x === 'string');
 
-            const compiledShot = buildShotImagePrompt({
-                shot,
-                scene: {
-                    scene_id: shot.scene_id,
-                    synopsis: shot.scene_summary || shot.visual_description || '',
-                    location: shot.location || shot.scene_setting || '',
-                    time_of_day: shot.time_of_day || '',
-                },
-                styleBible: style_bible || {},
-                previousShot,
-                previousPrompt,
-                characterBibles: compileCharacterBibles,
-                characterAnchor: character_anchor,
-                directorBrain: compileShotDirectorBrain,
-                styleLabel: style,
-            });
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/shots/branches/resolve — The cut for a branch selection
+//
+// Main-line shots with each active alternate's range replaced by its own shots,
+// re-linked into a shot graph, with the edit plan for that cut.
+//
+// Input (one of):  { shots: [...], branches: ShotGraphBranch[] }
+//                  { project_id } — stored shots and branches
+//                  + optional { active_branch_ids } (default: the storyboard's stored selection)
+// Response:        { active_branch_ids, shots, shot_graph, edit_plan }
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/shots/branches/resolve', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { project_id, active_branch_ids } = req.body || {};
+        if (active_branch_ids != null && !isStringArray(active_branch_ids)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('active_branch_ids', '必须是字符串数组'), traceId));
+        }
+        // User client: RLS limits the shots and branches read to the caller's own storyboards
+        const sources = await loadShotBranchSources(project_id, req.body, getUserClient(req.headers.authorization));
+        if (!sources) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), traceId));
+        if (sources.shots.length === 0) {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+
+        const shots = resolveBranchSequence(sources);
+        const shotGraph = buildShotGraph({ shots, panels: [] });
+        const editPlan = buildEditPlan({
+            project_id: project_id || 'unsaved',
+            shots: sources.shots,
+            branches: sources.branches,
+            active_branch_ids: sources.active_branch_ids,
+        });
+        logger.shot.info('shot_branches_resolved', {
+            project_id,
+            active: sources.active_branch_ids.length,
+            shots: shots.length,
+        }, traceId);
+        return res.json({ active_branch_ids: sources.active_branch_ids, shots, shot_graph: shotGraph, edit_plan: editPlan });
+    } catch (error: any) {
+        if (error instanceof ShotBranchError) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('active_branch_ids', error.message), traceId));
+        }
+        logger.shot.error('shot_branches_resolve_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
 
-            compiled.push(compiledShot);
+// ═══════════════════════════════════════════════════════════════════════════════
+// POST /api/shots/branches/compare — Alternates side by side (lib/shotBranches.ts)
+//
+// Main line and each listed branch over the union of their ranges: shots,
+// duration, image / video coverage and the bridges where each joins the main line.
+//
+// Input (one of):  { shots: [...], branches: ShotGraphBranch[] }  |  { project_id }
+//                  + { branch_ids: string[] }, optional { active_branch_ids }
+// Response:        { from_shot_id, to_shot_id, columns }
+// ═══════════════════════════════════════════════════════════════════════════════
+app.post('/api/shots/branches/compare', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { project_id, branch_ids } = req.body || {};
+        if (!isStringArray(branch_ids) || branch_ids.length === 0) {
+            return res.status(400).json(createErrorResponse(createError.missingField('branch_ids'), traceId));
+        }
+        // User client: RLS limits the shots and branches read to the caller's own storyboards
+        const sources = await loadShotBranchSources(project_id, req.body, getUserClient(req.headers.authorization));
+        if (!sources) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), traceId));
+        if (sources.shots.length === 0) {
+            return res.status(400).json(createErrorResponse(createError.missingField('shots'), traceId));
+        }
+        return res.json(compareShotBranches({ ...sources, branch_ids }));
+    } catch (error: any) {
+        if (error instanceof ShotBranchError) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('branch_ids', error.message), traceId));
+        }
+        logger.shot.error('shot_branches_compare_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
+    }
+});
+
+// PUT /api/storyboard/:projectId/branches — replace the storyboard's branches and active selection
+// Input: { branches: ShotGraphBranch[], active_branch_ids? }   Response: { project_id, branches, active_branch_ids }
+app.put('/api/storyboard/:projectId/branches', requireAuth, async (req: any, res: any) => {
+    const traceId = req.traceId || generateTraceId();
+    try {
+        const { projectId } = req.params;
+        const { branches, active_branch_ids = [] } = req.body || {};
+        if (!Array.isArray(branches)) return res.status(400).json(createErrorResponse(createError.missingField('branches'), traceId));
+        if (!isStringArray(active_branch_ids)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('active_branch_ids', '必须是字符串数组'), traceId));
         }
 
-        const duplicateWarnings: any[] = [];
-        for (let i = 2; i < compiled.length; i += 1) {
-            const a = compiled[i - 2]?.variance_report?.similarity_score ?? 0;
-            const b = compiled[i - 1]?.variance_report?.similarity_score ?? 0;
-            if (a > 0.92 && b > 0.92) {
-                duplicateWarnings.push({
-                    code: 'PROMPT_REPEAT_ALERT',
-                    shot_id: compiled[i]?.shot_id,
-                    message: '该镜头未充分响应剧本内容，请重新编译 prompt',
-                });
-            }
+        // User client: RLS limits the read and the update to the caller's own storyboards
+        const supabaseUser = getUserClient(req.headers.authorization);
+        const mainShots = await loadBranchMainLine(projectId, supabaseUser);
+        let normalized: ShotGraphBranch[];
+        try {
+            normalized = normalizeShotBranches(mainShots, branches, active_branch_ids);
+        } catch (error: any) {
+            if (!(error instanceof ShotBranchError)) throw error;
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('branches', error.message), traceId));
         }
 
-        return res.json({
-            success: true,
-            project_id,
-            compiled_shots: compiled,
-            duplicate_warnings: duplicateWarnings,
-        });
+        const { data, error } = await (supabaseUser.from('storyboards') as any)
+            .update({ shot_branches: normalized, active_branch_ids })
+            .eq('id', projectId)
+            .select('id')
+            .maybeSingle();
+        if (error) throw error;
+        if (!data) return res.status(404).json(createErrorResponse(createError.notFound('Storyboard'), traceId));
+
+        logger.shot.info('shot_branches_saved', { projectId, branches: normalized.length, active: active_branch_ids.length }, traceId);
+        return res.json({ project_id: projectId, branches: normalized, active_branch_ids });
     } catch (error: any) {
-        logger.replicate.error('batch_compile_prompts_error', error?.message || String(error));
-        return res.status(500).json({ error: error?.message || 'Failed to compile prompts' });
+        logger.shot.error('shot_branches_save_error', error?.message || String(error), {}, traceId);
+        return res.status(500).json(createErrorResponse(createError.internalError(error?.message), traceId));
     }
 });
 
@@ -5326,18 +7256,30 @@ app.post('/api/batch/compile-prompts', async (req: any, res: any) => {
 // TASK 1: Loads stored shots from Supabase, runs the canonical prompt rewriter
 // and screenplay verifier on each, then writes canonical_prompt / verifier_score /
 // verifier_pass / must_show_json / screenplay_beat back to the scenes table.
+// The storyboard's director_controls bannedElements / avoidPhrases are enforced
+// too: prompts are repaired, dialogue is never rewritten, and any hit that
+// is not repaired (dialogue included) fails the shot.
+// Scores use the body's verifier_profile, else the storyboard's, else the
+// profile for the project type (body project_type, else the storyboard's).
 //
 // Input (one of):  { project_id }  |  { scene_id }  |  { shot_id }
+//                  + optional { verifier_profile, project_type }
 // Response:        { total, passed, failed, shots: [...audit rows] }
 // ═══════════════════════════════════════════════════════════════════════════════
 app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any) => {
     const traceId = req.traceId || generateTraceId();
     const supabase = getSupabaseAdmin();
     try {
-        const { project_id, scene_id, shot_id } = req.body;
+        const { project_id, scene_id, shot_id, verifier_profile, project_type } = req.body;
         if (!project_id && !scene_id && !shot_id) {
             return res.status(400).json({ error: 'Provide project_id, scene_id, or shot_id' });
         }
+        if (verifier_profile != null && (typeof verifier_profile !== 'string' || !getVerifierProfile(verifier_profile))) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('verifier_profile', '未知的校验配置'), traceId));
+        }
+        if (project_type != null && !(project_type in VERIFIER_PROFILE_BY_PROJECT_TYPE)) {
+            return res.status(400).json(createErrorResponse(createError.invalidParameter('project_type', '未知的项目类型'), traceId));
+        }
 
         // ── Load the rewriter module ────────────────────────────────────────────
         let rewriterModule: any;
@@ -5367,9 +7309,10 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
         // ── Load story bibles for character locks ──────────────────────────────
         let characterBible: any[] = [];
         let styleBible: any = {};
+        let directorControls: any = null;
         const sbId = project_id || rawScenes[0]?.storyboard_id;
         if (sbId) {
-            const { data: sbRowTyped } = await supabase.from('storyboards').select('story_entities, style_bible').eq('id', sbId).maybeSingle();
+            const { data: sbRowTyped } = await supabase.from('storyboards').select('story_entities, style_bible, director_controls').eq('id', sbId).maybeSingle();
             const sbRow = sbRowTyped as any;
             if (sbRow?.story_entities) {
                 try { characterBible = typeof sbRow.story_entities === 'string' ? JSON.parse(sbRow.story_entities) : (sbRow.story_entities || []); } catch {}
@@ -5377,7 +7320,27 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
             if (sbRow?.style_bible) {
                 try { styleBible = typeof sbRow.style_bible === 'string' ? JSON.parse(sbRow.style_bible) : (sbRow.style_bible || {}); } catch {}
             }
+            if (sbRow?.director_controls) {
+                try { directorControls = typeof sbRow.director_controls === 'string' ? JSON.parse(sbRow.director_controls) : sbRow.director_controls; } catch {}
+            }
+        }
+        const directorRules = parseDirectorRules(directorControls);
+
+        // Separate reads: storyboards.verifier_profile / project_type may not exist on pre-migration DBs
+        let storedVerifierProfile: string | null = null;
+        let storedProjectType: string | null = null;
+        if (sbId && !verifier_profile) {
+            const { data: vpRow } = await supabase.from('storyboards').select('verifier_profile').eq('id', sbId).maybeSingle();
+            storedVerifierProfile = (vpRow as any)?.verifier_profile || null;
+            if (!storedVerifierProfile && !project_type) {
+                const { data: ptRow } = await supabase.from('storyboards').select('project_type').eq('id', sbId).maybeSingle();
+                storedProjectType = (ptRow as any)?.project_type || null;
+            }
         }
+        const verifierProfile = resolveVerifierProfile({
+            profile: verifier_profile || storedVerifierProfile,
+            projectType: project_type || storedProjectType,
+        });
 
         // ── Arc enforcer constants (same as pipeline) ──────────────────────────
         const SCENE_ARC_MANDATES = [
@@ -5426,6 +7389,7 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
                     emotional_beat:       rawShot.emotional_beat     || '',
                     image_prompt:         rawShot.image_prompt       || '',
                     video_prompt:         rawShot.video_motion_prompt || '',
+                    dialogue_text:        rawShot.dialogue_text      || '',
                     characters,
                     dramatic_function:    rawShot.dramatic_function  || '',
                 };
@@ -5450,7 +7414,7 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
 
                 let result: any;
                 try {
-                    result = rewriteShot(shotCtx, sceneCtx, prevShot, shotCharBibles, styleBible, arcIdx);
+                    result = rewriteShot(shotCtx, sceneCtx, prevShot, shotCharBibles, styleBible, arcIdx, directorRules, verifierProfile);
                 } catch (rewriteErr: any) {
                     logger.gemini.warn('retrofit_rewrite_error', { id: rawShot.id, err: String(rewriteErr.message) }, traceId);
                     auditRows.push({ shot_id: rawShot.id, scene_number: rawShot.scene_number, status: 'error', error: rewriteErr.message });
@@ -5469,6 +7433,7 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
                     image_prompt:     result.canonical_prompt,
                     canonical_prompt: result.canonical_prompt,
                     verifier_score:   result.verifier.total,
+                    verifier_profile: result.verifier.profile,
                     verifier_pass:    retrofitPass,
                     must_show_json:   JSON.stringify(result.must_show),
                     screenplay_beat:  result.screenplay_beat,
@@ -5490,9 +7455,12 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
                     old_prompt_summary:     oldPromptSummary,
                     new_canonical_prompt:   result.canonical_prompt.slice(0, 200),
                     verifier_score:         result.verifier.total,
+                    verifier_max_score:     result.verifier.max_total,
+                    verifier_profile:       result.verifier.profile,
                     pass:                   retrofitPass,
                     fail_reasons:           allFailReasons,
                     rewrite_count:          result.rewrite_count,
+                    director_rule_violations: result.director_rules?.violations || [],
                     duplicate_risk_score:   result.sdc?.duplicate_risk_score,
                     duplicate_fail_reason:  result.sdc?.duplicate_fail_reason,
                     narrative_function:     result.sdc?.narrative_function,
@@ -5510,17 +7478,25 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
             const updatePayload: any = {
                 image_prompt:    upd.image_prompt,
                 screenplay_beat: upd.screenplay_beat,
+                ...(upd.dialogue_text !== undefined ? { dialogue_text: upd.dialogue_text } : {}),
             };
-            // Try with new columns; fall back to base on column-missing error
-            let { error: upErr } = await (supabase.from('scenes') as any).update({
-                ...updatePayload,
+            const verifierPayload: any = {
                 canonical_prompt: upd.canonical_prompt,
                 verifier_score:   upd.verifier_score,
+                verifier_profile: upd.verifier_profile,
                 verifier_pass:    upd.verifier_pass,
                 must_show_json:   upd.must_show_json,
-            }).eq('id', upd.id);
+            };
+            const isColumnMissing = (e: any) => e && (e.code === '42703' || e.code === 'PGRST204' || e.message?.includes('column'));
+            // Try with new columns; fall back to base on column-missing error
+            let { error: upErr } = await (supabase.from('scenes') as any).update({ ...updatePayload, ...verifierPayload }).eq('id', upd.id);
+            if (isColumnMissing(upErr)) {
+                // verifier_profile is newer than the other verifier columns — retry without it first
+                const { verifier_profile: _profile, ...withoutProfile } = verifierPayload;
+                ({ error: upErr } = await (supabase.from('scenes') as any).update({ ...updatePayload, ...withoutProfile }).eq('id', upd.id));
+            }
 
-            if (upErr && (upErr.code === '42703' || upErr.code === 'PGRST204' || upErr.message?.includes('column'))) {
+            if (isColumnMissing(upErr)) {
                 // Column doesn't exist yet — fall back to updating only image_prompt
                 const { error: fallbackErr } = await (supabase.from('scenes') as any).update(updatePayload).eq('id', upd.id);
                 if (fallbackErr) persistErrors.push(`shot ${upd.id}: ${fallbackErr.message}`);
@@ -5553,6 +7529,254 @@ app.post('/api/shots/rewrite-canonical', requireAuth, async (req: any, res: any)
     }
 });
 
+// ───────────────────────────────────────────────────────────────
+// Image shot executor shared by /api/batch/gen-images, the regeneration
+// cascade and recovered durable-queue items. Everything it needs lives in the
+// job params, so a resumed item builds the same prompt as the live run.
+// ───────────────────────────────────────────────────────────────
+
+/** Job params of an image batch; `shots` is every shot of the run in story order. */
+interface ImageShotRunParams {
+    shots: any[];
+    model?: string;
+    aspect_ratio?: string;
+    style?: string;
+    character_anchor?: string;
+    story_entities?: any[];
+    style_bible?: any;
+    director_brain?: any;
+    /**
+     * 'scene_first': follow-up shots of a scene use the scene's first generated
+     * frame as Redux reference. 'previous_frame': each shot uses the previous
+     * shot's registered frame (cascade).
+     */
+    reference_mode?: 'scene_first' | 'previous_frame';
+}
+
+interface ImageShotRunHooks {
+    /** Built by the caller from every project shot so states set before the run carry in */
+    continuityLedger?: ContinuityLedger;
+    /** Prompts already compiled for the 'compiled' SSE event */
+    compiled?: Map<string, any>;
+    /** Frames this run already produced by shot id (a resumed job's succeeded items) */
+    generatedFrames?: Map<string, string>;
+    /** Called after the frame is registered, e.g. to score and record a candidate */
+    onGenerated?: (shotData: any, imageUrl: string, prompt: string, reference: string | undefined) => Promise<void>;
+}
+
+/** Compiles every run shot in order, each against the previous shot and prompt. */
+function compileImageShotPrompts(params: ImageShotRunParams, label: string) {
+    const { shots, style = 'none', character_anchor = '', story_entities, style_bible, director_brain } = params;
+    const characterBibles = extractCharacterBibles({
+        storyEntities: story_entities,
+        characterAnchor: character_anchor,
+    });
+
+    const compiledMap = new Map<string, any>();
+    const compiledOrdered: any[] = [];
+    for (let i = 0; i < shots.length; i += 1) {
+        const shot = shots[i];
+        const compiledShot = buildShotImagePrompt({
+            shot,
+            scene: {
+                scene_id: shot.scene_id,
+                synopsis: shot.scene_summary || shot.visual_description || '',
+                location: shot.location || shot.scene_setting || '',
+                time_of_day: shot.time_of_day || '',
+            },
+            styleBible: style_bible || {},
+            previousShot: i > 0 ? shots[i - 1] : undefined,
+            previousPrompt: i > 0 ? compiledOrdered[i - 1]?.model_prompt : undefined,
+            characterBibles,
+            characterAnchor: character_anchor,
+            // Per-shot Director Brain (matched by scene_id so framing/lighting/emotion are scene-specific)
+            directorBrain: extractDirectorBrainForShot({
+                directorBrain: director_brain,
+                sceneId: shot.scene_id,
+                sceneNumber: shot.scene_number,
+            }),
+            styleLabel: style,
+            shotGraphNode: shot,
+        });
+
+        if (compiledShot.variance_report.requires_substantive_change && !compiledShot.variance_report.pass) {
+            console.warn(`[${label}] Variance warning shot ${shot.shot_id}: ${(compiledShot.variance_report as any).fail_reasons?.join('; ')}`);
+        }
+
+        compiledMap.set(shot.shot_id, compiledShot);
+        compiledOrdered.push(compiledShot);
+    }
+    return { compiledMap, compiledOrdered };
+}
+
+function createImageShotExecutor(projectId: string, params: ImageShotRunParams, hooks: ImageShotRunHooks = {}): BatchItemExecutor {
+    const { shots, model = 'flux', aspect_ratio = '16:9', style = 'none', character_anchor = '', story_entities, style_bible, reference_mode = 'scene_first' } = params;
+    const replicatePath = (REPLICATE_MODEL_PATHS as any)[model] || REPLICATE_MODEL_PATHS['flux'];
+    const projectSeed = Math.abs([...projectId].reduce((hash: number, c: string) => ((hash << 5) - hash + c.charCodeAt(0)) | 0, 0)) % 1000000 || 142857;
+    const compiledMap = hooks.compiled || compileImageShotPrompts(params, 'image-executor').compiledMap;
+    const generatedByShot = new Map<string, string>(hooks.generatedFrames || []);
+    const generatedUrlOwner = new Map<string, string>();
+    const sceneKeyOf = (shot: any) => String(shot.scene_id || shot.scene_number || '');
+
+    return async (item) => {
+        const shotData = shots.find((s: any) => s.shot_id === item.shot_id);
+        if (!shotData) throw new Error('Shot data not found');
+
+        // ★ BATCH CONTINUITY STRATEGY:
+        // - lockScene: FALSE — different scenes MUST look different
+        // - strictness: 'medium' — character/costume locked but composition free
+        // - previous approved frame only anchors cascades, so batches don't converge on the first shot
+        const continuityProfile = buildContinuityProfile({
+            strictness: 'medium',
+            lockCharacter: true,
+            lockStyle: true,
+            lockCostume: true,
+            lockScene: false,
+            usePreviousApprovedAsReference: reference_mode === 'previous_frame',
+            scene_memory: {
+                scene_id: shotData.scene_id,
+                scene_number: shotData.scene_number,
+                environment: shotData.location,
+                time_of_day: shotData.time_of_day,
+                lighting: shotData.lighting,
+            },
+            entity_states: hooks.continuityLedger ? ledgerStatesForShot(hooks.continuityLedger, shotData.shot_id) : undefined,
+            character_bible: story_entities?.length ? story_entities[0] : undefined,
+            style_bible,
+            project_context: {
+                project_id: projectId,
+                visual_style: style,
+                character_anchor,
+            }
+        }, {
+            characterAnchor: character_anchor,
+            visualStyle: style,
+        });
+
+        const compiledShot = compiledMap.get(item.shot_id);
+        if (!compiledShot) throw new Error('Shot prompt not compiled');
+
+        // ★ SMART REDUX REFERENCE SELECTION:
+        // - The raw user anchor photo is never used as Redux; the character is
+        //   already locked in the text prompt and Redux would make shots identical.
+        // - scene_first: 2nd+ shot of a scene uses the scene's first generated frame.
+        // - previous_frame: the previous shot's frame (freshly regenerated earlier
+        //   in this cascade, or a frozen approved one) anchors this shot.
+        const shotIndex = shots.indexOf(shotData);
+        let reference: string | undefined;
+        if (reference_mode === 'previous_frame') {
+            const previous = shotIndex > 0 ? shots[shotIndex - 1] : undefined;
+            reference = (previous && generatedByShot.get(previous.shot_id))
+                || getContinuityReference(projectId, item.shot_id, { preferPrevious: true });
+        } else {
+            const sceneFirst = shots.slice(0, shotIndex)
+                .find((s: any) => sceneKeyOf(s) === sceneKeyOf(shotData) && generatedByShot.has(s.shot_id));
+            reference = sceneFirst ? generatedByShot.get(sceneFirst.shot_id) : undefined;
+        }
+        const payload = buildShotGenerationPayload(compiledShot, reference_mode === 'previous_frame'
+            ? { previousFrame: reference }
+            : { anchorImage: undefined, previousFrame: undefined, firstFrameInScene: reference });
+
+        const finalPrompt = applyContinuityLocks(payload.prompt, continuityProfile);
+        // ★ Single attempt (retrying doubles cost; variance already handled by prompt compiler)
+        const result = await generateImageWithProvider({
+            prompt: finalPrompt,
+            negativePrompt: buildContinuityNegativePrompt(payload.negative_prompt || '', continuityProfile),
+            model: replicatePath,
+            aspectRatio: aspect_ratio,
+            seed: shotData.seed_hint ?? computeDeterministicShotSeed(projectSeed, shotData.shot_id, shotData.shot_number),
+            imagePrompt: reference,
+        });
+        if (!result?.url) throw new Error('No image returned');
+
+        generatedByShot.set(item.shot_id, result.url);
+        const existingOwner = generatedUrlOwner.get(result.url);
+        if (existingOwner && existingOwner !== item.shot_id) {
+            // Duplicate URL from Replicate (identical seed / highly similar prompt).
+            // This is a prompt-diversity warning, NOT a batch-stopping error.
+            console.warn(`[image-executor] URL collision: shot ${item.shot_id} got same URL as ${existingOwner}. Accepting image and continuing.`);
+        }
+        generatedUrlOwner.set(result.url, item.shot_id);
+
+        registerApprovedFrame(projectId, {
+            shotId: item.shot_id,
+            sceneId: shotData.scene_id,
+            sceneNumber: shotData.scene_number,
+            shotNumber: shotData.shot_number,
+            imageUrl: result.url,
+            prompt: finalPrompt,
+            createdAt: Date.now(),
+        });
+        await hooks.onGenerated?.(shotData, result.url, finalPrompt, reference);
+        return { image_id: crypto.randomUUID(), image_url: result.url };
+    };
+}
+
+/** Records a cascade frame as a scored candidate of its shot. */
+function recordCascadeCandidate(projectId: string, actor: string | undefined): NonNullable<ImageShotRunHooks['onGenerated']> {
+    return async (shotData, imageUrl, prompt, reference) => {
+        const report = scoreStoryboardCandidate({
+            imagePrompt: prompt,
+            action: shotData.action,
+            framing: shotData.composition || shotData.camera_framing,
+            lighting: shotData.lighting,
+            imageUrl,
+            perceptual: reference
+                ? await scoreShotPerceptualContinuity({ storyboardFrameUrl: imageUrl, neighborFrameUrls: [reference] })
+                : undefined,
+        });
+        registerStoryboardCandidate({
+            projectId,
+            shotId: shotData.shot_id,
+            candidateId: `cand_${crypto.randomUUID().slice(0, 8)}`,
+            imageUrl,
+            continuityScore: report.continuity_score,
+            narrativeScore: report.narrative_score,
+            visualMatchScore: report.visual_match_score,
+            violations: report.violation_tags,
+            actor,
+        });
+        await flushPipelineEvents(projectId);
+    };
+}
+
+/**
+ * Credits an image batch reserved up front, stored in the job params so the
+ * batch is settled by whichever worker finishes it — the request, or a
+ * recovered worker after the request's instance died.
+ */
+interface BatchCreditReservation {
+    ref_type: string;
+    ref_id: string;
+    cost_per_item: number;
+    /** Items a retry reserved for; absent when the reservation covers the whole job. */
+    item_ids?: string[];
+}
+
+/**
+ * Refunds the job's unfinished items and settles the rest of its reservation.
+ * Does nothing while items are still queued or running elsewhere; settling
+ * twice is a no-op, since only a pending reservation is touched.
+ */
+async function settleBatchReservation(job: BatchJob, reservation: BatchCreditReservation | undefined, items: BatchJobItem[] = []) {
+    if (!reservation || !job.user_id) return;
+    if (job.status === 'pending' || job.status === 'running') return;
+    const unfinished = reservation.item_ids
+        ? reservation.item_ids.filter((id) => items.find((i) => i.id === id)?.status !== 'succeeded').length
+        : job.total - job.succeeded;
+    try {
+        const { error } = await (getSupabaseAdmin() as any).rpc('settle_reserve_for_user', {
+            target_user_id: job.user_id,
+            ref_type: reservation.ref_type,
+            ref_id: reservation.ref_id,
+            refund_amount: unfinished * reservation.cost_per_item,
+        });
+        if (error) throw error;
+    } catch (e: any) {
+        logger.replicate.error('batch_reservation_settle_failed', e?.message || String(e), { job_id: job.id, ref_id: reservation.ref_id });
+    }
+}
+
 // ───────────────────────────────────────────────────────────────
 // POST /api/batch/gen-images — Synchronous batch image generation with SSE streaming
 // On Vercel serverless, in-memory state doesn't persist across requests.
@@ -5576,56 +7800,21 @@ app.post('/api/batch/gen-images', async (req: any, res: any) => {
             return res.status(401).json({ error: 'Unauthorized' });
         }
 
-        const sortedShots = [...shots].sort((a: any, b: any) => (a.scene_number - b.scene_number) || (a.shot_number - b.shot_number)).slice(0, count);
-        const replicatePath = (REPLICATE_MODEL_PATHS as any)[model] || REPLICATE_MODEL_PATHS['flux'];
+        const orderedShots = [...shots].sort((a: any, b: any) => (a.scene_number - b.scene_number) || (a.shot_number - b.shot_number));
+        const sortedShots = orderedShots.slice(0, count);
         const costPerImage = (IMAGE_MODEL_COSTS as any)[model] ?? 6;
         const totalCost = costPerImage * sortedShots.length;
 
-        // ── Phase 2: Extract Character Bibles + Director Brain once before loop ─
-        const batchCharacterBibles = extractCharacterBibles({
-            storyEntities: story_entities,
-            characterAnchor: character_anchor,
-        });
-
         // Compile prompts shot-by-shot (script/shot driven), then validate variance.
-        const compiledMap = new Map<string, any>();
-        const compiledOrdered: any[] = [];
-        for (let i = 0; i < sortedShots.length; i += 1) {
-            const shot = sortedShots[i];
-            const previousShot = i > 0 ? sortedShots[i - 1] : undefined;
-            const previousPrompt = i > 0 ? compiledOrdered[i - 1]?.model_prompt : undefined;
-
-            // Per-shot Director Brain (matched by scene_id so framing/lighting/emotion are scene-specific)
-            const shotDirectorBrain = extractDirectorBrainForShot({
-                directorBrain: director_brain,
-                sceneId: shot.scene_id,
-                sceneNumber: shot.scene_number,
-            });
-
-            const compiledShot = buildShotImagePrompt({
-                shot,
-                scene: {
-                    scene_id: shot.scene_id,
-                    synopsis: shot.scene_summary || shot.visual_description || '',
-                    location: shot.location || shot.scene_setting || '',
-                    time_of_day: shot.time_of_day || '',
-                },
-                styleBible: style_bible || {},
-                previousShot,
-                previousPrompt,
-                characterBibles: batchCharacterBibles,
-                characterAnchor: character_anchor,
-                directorBrain: shotDirectorBrain,
-                styleLabel: style,
-                shotGraphNode: shot,
-            });
-
-            if (compiledShot.variance_report.requires_substantive_change && !compiledShot.variance_report.pass) {
-                console.warn(`[batch/gen-images] Variance warning shot ${shot.shot_id}: ${(compiledShot.variance_report as any).fail_reasons?.join('; ')}`);
-            }
+        const runParams: ImageShotRunParams = { shots: sortedShots, model, aspect_ratio, style, character_anchor, story_entities, style_bible, director_brain, reference_mode: 'scene_first' };
+        const { compiledMap, compiledOrdered } = compileImageShotPrompts(runParams, 'batch/gen-images');
 
-            compiledMap.set(shot.shot_id, compiledShot);
-            compiledOrdered.push(compiledShot);
+        // ── Prop / wardrobe state at each shot — walked over every shot so states
+        // established before the batch window still carry into it ───────────────
+        const { sources: ledgerSources, pins: ledgerPins } = await loadContinuityLedgerSources(project_id, req.body);
+        const continuityLedger = buildContinuityLedger(orderedShots, ledgerSources, ledgerPins);
+        if (continuityLedger.regressions.length > 0) {
+            logger.pipeline.warn('batch_continuity_regressions', { project_id, regressions: continuityLedger.regressions.map((r) => r.reason) }, traceId);
         }
 
         // ★ GOD MODE: Check entitlement
@@ -5664,22 +7853,24 @@ app.post('/api/batch/gen-images', async (req: any, res: any) => {
             res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
         };
 
+        const reservation: BatchCreditReservation | undefined = skipCreditCheck
+            ? undefined
+            : { ref_type: 'batch-image', ref_id: batchRef, cost_per_item: costPerImage };
         const jobId = crypto.randomUUID();
-        const projectSeed = Math.abs([...project_id].reduce((hash: number, c: string) => ((hash << 5) - hash + c.charCodeAt(0)) | 0, 0)) % 1000000 || 142857;
 
-        const items: BatchJobItem[] = sortedShots.map((s: any) => ({
-            id: crypto.randomUUID(), job_id: jobId, shot_id: s.shot_id,
-            shot_number: s.shot_number, scene_number: s.scene_number, status: 'queued' as BatchItemStatus,
-        }));
-
-        const job: BatchJob = {
-            id: jobId, project_id, user_id: userId, type: 'gen_images',
-            total: items.length, done: 0, succeeded: 0, failed: 0, status: 'running',
-            created_at: new Date().toISOString(), updated_at: new Date().toISOString(), concurrency: 1,
-        };
+        const created = await createBatchJob({
+            jobId,
+            projectId: project_id,
+            userId,
+            type: 'gen_images',
+            concurrency: 1,
+            items: sortedShots.map((s: any) => ({ shotId: s.shot_id, shotNumber: s.shot_number, sceneNumber: s.scene_number })),
+            params: { ...runParams, reservation },
+            tier: await resolveSchedulingTier(userId, userEmail),
+        });
 
         // Send initial progress
-        sendSSE('progress', { job, items });
+        sendSSE('progress', created);
 
         const anchorImageUrl: string | null = reference_image_url || null;
         if (anchorImageUrl) {
@@ -5697,183 +7888,28 @@ app.post('/api/batch/gen-images', async (req: any, res: any) => {
                 continuity_notes: c.continuity_notes,
                 variance_report: c.variance_report,
             })),
+            continuity_regressions: continuityLedger.regressions,
         });
 
         // ★ Process each image sequentially
         let cancelled = false;
         req.on('close', () => { cancelled = true; });
 
-        const generatedByShot = new Map<string, string>();
-        const firstFrameByScene = new Map<string, string>();
-        const generatedUrlOwner = new Map<string, string>();
-
-        for (const item of items) {
-            if (cancelled) {
-                item.status = 'cancelled';
-                continue;
-            }
-
-            item.status = 'running';
-            item.started_at = new Date().toISOString();
-            job.updated_at = new Date().toISOString();
-            sendSSE('progress', { job, items });
-
-            try {
-                const shotData = sortedShots.find((s: any) => s.shot_id === item.shot_id);
-                if (!shotData) throw new Error('Shot data not found');
-
-                // ★ BATCH CONTINUITY STRATEGY (redesigned):
-                // - lockScene: FALSE — different scenes MUST look different
-                // - strictness: 'medium' — character/costume locked but composition free
-                // - usePreviousApprovedAsReference: FALSE — prevents all shots converging on first
-                const continuityProfile = buildContinuityProfile({
-                    strictness: 'medium',
-                    lockCharacter: true,
-                    lockStyle: true,
-                    lockCostume: true,
-                    lockScene: false,   // ★ allow location/environment to change between scenes
-                    usePreviousApprovedAsReference: false,
-                    scene_memory: {
-                        scene_id: shotData.scene_id,
-                        scene_number: shotData.scene_number,
-                        environment: shotData.location,
-                        time_of_day: shotData.time_of_day,
-                        lighting: shotData.lighting,
-                    },
-                    character_bible: story_entities?.length ? story_entities[0] : undefined,
-                    style_bible: style_bible,
-                    project_context: {
-                        project_id,
-                        visual_style: style,
-                        character_anchor,
-                    }
-                }, {
-                    characterAnchor: character_anchor,
-                    visualStyle: style,
-                });
-
-                let compiledShot = compiledMap.get(item.shot_id);
-                if (!compiledShot) {
-                    // ── Fallback A: re-compile from shotData on the fly ──────────────────────
-                    console.warn(`[batch/gen-images] compiledMap miss for shot ${item.shot_id} — rebuilding prompt from shotData`);
-                    const fallbackBasePrompt = [
-                        shotData.image_prompt || shotData.visual_description || shotData.action || '',
-                        character_anchor ? `CHARACTER IDENTITY LOCK: ${character_anchor}` : '',
-                        shotData.location ? `Location: ${shotData.location}` : '',
-                        shotData.camera ? `Camera: ${shotData.camera}` : '',
-                        shotData.lighting ? `Lighting: ${shotData.lighting}` : '',
-                        'Cinematic still frame, high detail, physically plausible lighting.',
-                    ].filter(Boolean).join('. ');
-                    compiledShot = {
-                        shot_id: item.shot_id,
-                        scene_id: shotData.scene_id || '',
-                        shot_summary: `Shot ${shotData.shot_number || item.shot_id}`,
-                        user_readable_prompt: fallbackBasePrompt.slice(0, 120),
-                        model_prompt: fallbackBasePrompt,
-                        negative_prompt: 'identity drift, watermark, blurry, extra limbs',
-                        continuity_notes: [],
-                        variance_report: { similarity_score: 0, overlap_score: 0, requires_substantive_change: false, has_substantive_change: true, pass: true, fail_reasons: [], delta: { changed_fields: [], summary: 'fallback' } },
-                        generation_payload: { prompt: fallbackBasePrompt, negative_prompt: 'identity drift, watermark, blurry, extra limbs', reference_policy: 'none', continuity_notes: [] },
-                    };
-                }
-
-                // ★ SMART REDUX REFERENCE SELECTION (fixes identical-image problem):
-                // ① Raw user anchor photo (base64) → NEVER used as Flux Redux in batch.
-                //    The character description is already embedded in the text prompt via
-                //    identity-lock blocks. Using Redux on top makes every shot look identical.
-                // ② For the 2nd+ shot within the SAME scene: use the first generated frame
-                //    of that scene as Redux — maintains scene location/mood consistency
-                //    without forcing character pose/composition to repeat.
-                // ③ First shot of any scene (or no prior frame) → text-only generation.
-                const sceneIdKey = String(shotData.scene_id || shotData.scene_number || '');
-                const sceneFirstFrame = firstFrameByScene.get(sceneIdKey);
-                const isFirstShotOfScene = !sceneFirstFrame;
-                // Use generated scene-frame as Redux reference only for same-scene follow-up shots
-                const reduxReference = isFirstShotOfScene ? undefined : sceneFirstFrame;
-
-                const payload = buildShotGenerationPayload(compiledShot, {
-                    anchorImage: undefined,          // ★ never inject raw anchor as Redux
-                    previousFrame: undefined,         // ★ don't lock to previous shot
-                    firstFrameInScene: reduxReference, // ★ only for same-scene follow-ups
-                });
-
-                let finalPrompt = applyContinuityLocks(payload.prompt, continuityProfile);
-                const continuityNegative = buildContinuityNegativePrompt(payload.negative_prompt || '', continuityProfile);
-
-                // ★ Single attempt in batch mode (retrying doubles cost; variance already handled by prompt compiler)
-                let result: { url: string; predictionId: string } | null = null;
-                result = await callReplicateImage({
-                    prompt: finalPrompt,
-                    negativePrompt: continuityNegative,
-                    model: replicatePath,
-                    aspectRatio: aspect_ratio,
-                    seed: shotData.seed_hint ?? computeDeterministicShotSeed(projectSeed, shotData.shot_id, shotData.shot_number),
-                    imagePrompt: reduxReference,  // ★ only set for same-scene follow-up shots
-                });
-
-                if (result?.url) {
-                    generatedByShot.set(item.shot_id, result.url);
-                    if (!firstFrameByScene.has(String(shotData.scene_id || ''))) {
-                        firstFrameByScene.set(String(shotData.scene_id || ''), result.url);
-                    }
-
-                    const existingOwner = generatedUrlOwner.get(result.url);
-                    if (existingOwner && existingOwner !== item.shot_id) {
-                        // Duplicate URL from Replicate (identical seed / highly similar prompt).
-                        // This is a prompt-diversity warning, NOT a batch-stopping error.
-                        console.warn(`[batch/gen-images] URL collision: shot ${item.shot_id} got same URL as ${existingOwner}. Prompts too similar. Accepting image and continuing.`);
-                    }
-                    generatedUrlOwner.set(result.url, item.shot_id);
-                }
-
-                item.status = 'succeeded';
-                item.image_id = crypto.randomUUID();
-                item.image_url = result?.url;
-                item.completed_at = new Date().toISOString();
-                job.succeeded += 1;
-
-                if (result?.url) {
-                    registerApprovedFrame(project_id, {
-                        shotId: item.shot_id,
-                        sceneId: shotData.scene_id,
-                        sceneNumber: shotData.scene_number,
-                        shotNumber: shotData.shot_number,
-                        imageUrl: result.url,
-                        prompt: finalPrompt,
-                        createdAt: Date.now(),
-                    });
-                }
-            } catch (err: any) {
-                item.status = 'failed';
-                item.error = err.message || 'Unknown error';
-                item.completed_at = new Date().toISOString();
-                job.failed += 1;
-                logger.replicate.error('batch_shot_failed', err.message, { shot_id: item.shot_id });
-            }
-
-            job.done += 1;
-            job.updated_at = new Date().toISOString();
-            sendSSE('progress', { job, items });
-        }
+        const executeBatchShot = createImageShotExecutor(project_id, runParams, { continuityLedger, compiled: compiledMap });
 
-        // Finalize
-        if (cancelled) {
-            job.status = 'cancelled';
-        } else if (job.failed > 0 && job.succeeded === 0) {
-            job.status = 'failed';
-        } else {
-            job.status = 'completed';
-        }
-        job.updated_at = new Date().toISOString();
+        // Items run through the durable queue, so /api/batch/:jobId and cancel see them
+        const { job, items } = (await runBatchJob(jobId, {
+            executor: executeBatchShot,
+            onProgress: (job, items, item) => {
+                sendSSE('progress', { job, items });
+                if (item.status === 'failed') logger.replicate.error('batch_shot_failed', item.error, { shot_id: item.shot_id });
+                if (item.status !== 'running') publishBatchItemCompleted(job, item);
+            },
+            shouldStop: () => cancelled,
+        })) || created;
 
-        // ★ Credit finalization
-        if (!skipCreditCheck) {
-            const notOk = job.total - job.succeeded;
-            if (notOk > 0) {
-                try { await supabaseUser.rpc('refund_reserve', { amount: notOk * costPerImage, ref_type: 'batch-image-partial', ref_id: batchRef }); } catch (e) { }
-            }
-            try { await supabaseUser.rpc('finalize_reserve', { ref_type: 'batch-image', ref_id: batchRef }); } catch (e) { }
-        }
+        // ★ Credit finalization — left to the worker that finishes the job if items still run elsewhere
+        await settleBatchReservation(job, reservation);
 
         sendSSE('done', { job, items, anchor_image_url: anchorImageUrl });
         res.end();
@@ -5934,52 +7970,14 @@ app.post('/api/batch/gen-images/continue', async (req: any, res: any) => {
 
         const totalMissing = sortedAll.filter((s: any) => !hasImageSet.has(s.shot_id)).length;
         const remainingAfter = totalMissing - nextBatch.length;
-        const replicatePath = (REPLICATE_MODEL_PATHS as any)[model] || REPLICATE_MODEL_PATHS['flux'];
         const costPerImage = (IMAGE_MODEL_COSTS as any)[model] ?? 6;
         const totalCost = costPerImage * nextBatch.length;
 
-        // ── Phase 2: Extract character bibles + director brain for continue batch ─
-        const continueCharacterBibles = extractCharacterBibles({
-            storyEntities: story_entities,
-            characterAnchor: character_anchor,
-        });
-
-        const compiledMap = new Map<string, any>();
-        const compiledOrdered: any[] = [];
-        for (let i = 0; i < nextBatch.length; i += 1) {
-            const shot = nextBatch[i];
-            const previousShot = i > 0 ? nextBatch[i - 1] : undefined;
-            const previousPrompt = i > 0 ? compiledOrdered[i - 1]?.model_prompt : undefined;
-            const continueShotDirBrain = extractDirectorBrainForShot({
-                directorBrain: continueDirBrain,
-                sceneId: shot.scene_id,
-                sceneNumber: shot.scene_number,
-            });
-            const compiledShot = buildShotImagePrompt({
-                shot,
-                scene: {
-                    scene_id: shot.scene_id,
-                    synopsis: shot.scene_summary || shot.visual_description || '',
-                    location: shot.location || shot.scene_setting || '',
-                    time_of_day: shot.time_of_day || '',
-                },
-                styleBible: style_bible || {},
-                previousShot,
-                previousPrompt,
-                characterBibles: continueCharacterBibles,
-                characterAnchor: character_anchor,
-                directorBrain: continueShotDirBrain,
-                styleLabel: style,
-                shotGraphNode: shot,
-            });
-
-            if (compiledShot.variance_report.requires_substantive_change && !compiledShot.variance_report.pass) {
-                console.warn(`[batch/gen-images/continue] Variance warning shot ${shot.shot_id}: ${(compiledShot.variance_report as any).fail_reasons?.join('; ')}`);
-            }
+        const runParams: ImageShotRunParams = { shots: nextBatch, model, aspect_ratio, style, character_anchor, story_entities, style_bible, director_brain: continueDirBrain, reference_mode: 'scene_first' };
+        const { compiledMap, compiledOrdered } = compileImageShotPrompts(runParams, 'batch/gen-images/continue');
 
-            compiledMap.set(shot.shot_id, compiledShot);
-            compiledOrdered.push(compiledShot);
-        }
+        const { sources: ledgerSources, pins: ledgerPins } = await loadContinuityLedgerSources(project_id, req.body);
+        const continuityLedger = buildContinuityLedger(sortedAll, ledgerSources, ledgerPins);
 
         // ★ GOD MODE: Check entitlement
         const entitlement = await checkEntitlement(userId, userEmail, 'batch_images', totalCost);
@@ -6017,22 +8015,33 @@ app.post('/api/batch/gen-images/continue', async (req: any, res: any) => {
             res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
         };
 
+        const reservation: BatchCreditReservation | undefined = skipCreditCheck
+            ? undefined
+            : { ref_type: 'batch-image-continue', ref_id: batchRef, cost_per_item: costPerImage };
         const jobId = crypto.randomUUID();
-        const projectSeed = Math.abs([...project_id].reduce((hash: number, c: string) => ((hash << 5) - hash + c.charCodeAt(0)) | 0, 0)) % 1000000 || 142857;
         const rangeLabel = `S${nextBatch[0].scene_number}.${nextBatch[0].shot_number} → S${nextBatch[nextBatch.length - 1].scene_number}.${nextBatch[nextBatch.length - 1].shot_number}`;
 
-        const items: BatchJobItem[] = nextBatch.map((s: any) => ({
-            id: crypto.randomUUID(), job_id: jobId, shot_id: s.shot_id,
-            shot_number: s.shot_number, scene_number: s.scene_number, status: 'queued' as BatchItemStatus,
-        }));
-
-        const job: BatchJob = {
-            id: jobId, project_id, user_id: userId, type: 'gen_images_continue',
-            total: items.length, done: 0, succeeded: 0, failed: 0, status: 'running',
-            created_at: new Date().toISOString(), updated_at: new Date().toISOString(), concurrency: 1,
-        };
+        const created = await createBatchJob({
+            jobId,
+            projectId: project_id,
+            userId,
+            type: 'gen_images_continue',
+            concurrency: 1,
+            items: nextBatch.map((s: any) => ({ shotId: s.shot_id, shotNumber: s.shot_number, sceneNumber: s.scene_number })),
+            params: { ...runParams, reservation },
+            tier: await resolveSchedulingTier(userId, userEmail),
+            extra: {
+                range_start_scene: nextBatch[0].scene_number,
+                range_start_shot: nextBatch[0].shot_number,
+                range_end_scene: nextBatch[nextBatch.length - 1].scene_number,
+                range_end_shot: nextBatch[nextBatch.length - 1].shot_number,
+                strategy: strategy === 'strict' ? 'strict' : 'skip_failed',
+                remaining_count: remainingAfter,
+                all_done: remainingAfter === 0,
+            },
+        });
 
-        sendSSE('progress', { job, items, range_label: rangeLabel });
+        sendSSE('progress', { ...created, range_label: rangeLabel });
 
         // Use explicit user/previous-batch anchor only. Do not globally reuse first generated frame.
         let anchorImageUrl: string | null = anchor_image_url || reference_image_url || null;
@@ -6043,10 +8052,6 @@ app.post('/api/batch/gen-images/continue', async (req: any, res: any) => {
         let cancelled = false;
         req.on('close', () => { cancelled = true; });
 
-        const generatedByShot = new Map<string, string>();
-        const firstFrameByScene = new Map<string, string>();
-        const generatedUrlOwner = new Map<string, string>();
-
         sendSSE('compiled', {
             compiled_shots: compiledOrdered.map((c: any) => ({
                 shot_id: c.shot_id,
@@ -6060,103 +8065,262 @@ app.post('/api/batch/gen-images/continue', async (req: any, res: any) => {
             })),
         });
 
-        for (const item of items) {
-            if (cancelled) { item.status = 'cancelled'; continue; }
-            item.status = 'running';
-            item.started_at = new Date().toISOString();
-            job.updated_at = new Date().toISOString();
-            sendSSE('progress', { job, items });
+        const executeContinueShot = createImageShotExecutor(project_id, runParams, { continuityLedger, compiled: compiledMap });
 
-            try {
-                const shotData = nextBatch.find((s: any) => s.shot_id === item.shot_id);
-                if (!shotData) throw new Error('Shot data not found');
-
-                let compiledShot = compiledMap.get(item.shot_id);
-                if (!compiledShot) {
-                    // ── Fallback: re-compile from shotData on the fly ──────────────────────
-                    console.warn(`[batch/gen-images/continue] compiledMap miss for shot ${item.shot_id} — rebuilding from shotData`);
-                    const fallbackBasePrompt = [
-                        shotData.image_prompt || shotData.visual_description || shotData.action || '',
-                        character_anchor ? `CHARACTER IDENTITY LOCK: ${character_anchor}` : '',
-                        shotData.location ? `Location: ${shotData.location}` : '',
-                        shotData.camera ? `Camera: ${shotData.camera}` : '',
-                        'Cinematic still frame, high detail, physically plausible lighting.',
-                    ].filter(Boolean).join('. ');
-                    compiledShot = {
-                        shot_id: item.shot_id,
-                        scene_id: shotData.scene_id || '',
-                        shot_summary: `Shot ${shotData.shot_number || item.shot_id}`,
-                        user_readable_prompt: fallbackBasePrompt.slice(0, 120),
-                        model_prompt: fallbackBasePrompt,
-                        negative_prompt: 'identity drift, watermark, blurry, extra limbs',
-                        continuity_notes: [],
-                        variance_report: { similarity_score: 0, overlap_score: 0, requires_substantive_change: false, has_substantive_change: true, pass: true, fail_reasons: [], delta: { changed_fields: [], summary: 'fallback' } },
-                        generation_payload: { prompt: fallbackBasePrompt, negative_prompt: 'identity drift, watermark, blurry, extra limbs', reference_policy: 'none', continuity_notes: [] },
-                    };
-                }
+        const { job, items } = (await runBatchJob(jobId, {
+            executor: executeContinueShot,
+            onProgress: (job, items, item) => {
+                sendSSE('progress', { job, items });
+                if (item.status === 'failed') logger.replicate.error('batch_continue_shot_failed', item.error, { shot_id: item.shot_id });
+                if (item.status !== 'running') publishBatchItemCompleted(job, item);
+            },
+            shouldStop: () => cancelled,
+        })) || created;
 
-                // ★ Same smart Redux reference logic as gen-images:
-                // Only use a scene-internal frame as Redux for follow-up shots in the same scene.
-                const continueSceneKey = String(shotData.scene_id || shotData.scene_number || '');
-                const continueSceneFirst = firstFrameByScene.get(continueSceneKey);
-                const continueRedux = continueSceneFirst || undefined; // first frame or nothing
+        await settleBatchReservation(job, reservation);
 
-                const payload = buildShotGenerationPayload(compiledShot, {
-                    anchorImage: undefined,
-                    previousFrame: undefined,
-                    firstFrameInScene: continueRedux,
-                });
+        sendSSE('done', { job, items, range_label: rangeLabel, remaining_count: remainingAfter, all_done: remainingAfter === 0, anchor_image_url: anchorImageUrl });
+        res.end();
+    } catch (error: any) {
+        logger.replicate.error('batch_continue_error', error.message);
+        if (!res.headersSent) {
+            res.status(500).json({ error: error.message || 'Failed to start continue batch job' });
+        } else {
+            res.write(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+            res.end();
+        }
+    }
+});
 
-                // ★ Replicate image generation (provider: Replicate, env: REPLICATE_API_TOKEN)
-                const result = await callReplicateImage({
-                    prompt: payload.prompt,
-                    negativePrompt: payload.negative_prompt,
-                    model: replicatePath,
-                    aspectRatio: aspect_ratio,
-                    seed: shotData.seed_hint ?? computeDeterministicShotSeed(projectSeed, shotData.shot_id, shotData.shot_number),
-                    imagePrompt: continueRedux,
-                });
-                if (result.url) {
-                    generatedByShot.set(item.shot_id, result.url);
-                    if (!firstFrameByScene.has(continueSceneKey)) {
-                        firstFrameByScene.set(continueSceneKey, result.url);
-                    }
-                    const existingOwner = generatedUrlOwner.get(result.url);
-                    if (existingOwner && existingOwner !== item.shot_id) {
-                        // Duplicate URL from Replicate — prompt-diversity warning, not a batch error.
-                        console.warn(`[batch/gen-images/continue] URL collision: shot ${item.shot_id} got same URL as ${existingOwner}. Accepting and continuing.`);
-                    }
-                    generatedUrlOwner.set(result.url, item.shot_id);
-                }
+// ───────────────────────────────────────────────────────────────
+// Batch video generation (gen_videos)
+// Each item animates a shot's approved storyboard frame with the shot's own
+// model and duration. Credits are reserved per item right before the call,
+// then finalized on success or refunded on failure.
+// ───────────────────────────────────────────────────────────────
 
-                item.status = 'succeeded'; item.image_id = crypto.randomUUID(); item.image_url = result.url;
-                item.completed_at = new Date().toISOString(); job.succeeded += 1;
-            } catch (err: any) {
-                item.status = 'failed'; item.error = err.message || 'Unknown error';
-                item.completed_at = new Date().toISOString(); job.failed += 1;
-                logger.replicate.error('batch_continue_shot_failed', err.message, { shot_id: item.shot_id });
-            }
-            job.done += 1; job.updated_at = new Date().toISOString();
-            sendSSE('progress', { job, items });
+/** Per-run credit context for gen_videos items; never stored with the job. */
+interface BatchVideoCredits {
+    supabaseUser: any;
+    skipCreditCheck: boolean;
+    batchRef: string;
+}
+
+interface BatchVideoShot {
+    shot_id: string;
+    scene_id?: string;
+    scene_number: number;
+    shot_number: number;
+    frame_url: string;
+    video_model: VideoModel;
+    duration_sec: number;
+    cost: number;
+    prompt: string;
+}
+
+function isServerVideoModel(model: unknown): model is VideoModel {
+    return typeof model === 'string' && Object.prototype.hasOwnProperty.call(VIDEO_MODEL_COSTS, model);
+}
+
+/**
+ * Splits shots into videos to generate and blocked ones. A shot is blocked when
+ * video_approved === false or it has no approved storyboard frame.
+ */
+function planBatchVideoShots(projectId: string, shots: any[], defaults: { model: VideoModel; duration: number }) {
+    const eligible: BatchVideoShot[] = [];
+    const blocked: Array<{ shot_id: string; reason: 'video_not_approved' | 'no_approved_frame' }> = [];
+    for (const shot of shots) {
+        if (shot.video_approved === false) {
+            blocked.push({ shot_id: shot.shot_id, reason: 'video_not_approved' });
+            continue;
+        }
+        const frameUrl = getApprovedStoryboardFrame(projectId, shot.shot_id);
+        if (!frameUrl) {
+            blocked.push({ shot_id: shot.shot_id, reason: 'no_approved_frame' });
+            continue;
+        }
+        const videoModel = isServerVideoModel(shot.video_model) ? shot.video_model : defaults.model;
+        eligible.push({
+            shot_id: shot.shot_id,
+            scene_id: shot.scene_id,
+            scene_number: shot.scene_number,
+            shot_number: shot.shot_number,
+            frame_url: frameUrl,
+            video_model: videoModel,
+            duration_sec: Number(shot.duration_sec) > 0 ? Number(shot.duration_sec) : defaults.duration,
+            cost: VIDEO_MODEL_COSTS[videoModel],
+            prompt: shot.video_prompt || shot.action || shot.image_prompt || '',
+        });
+    }
+    return { eligible, blocked };
+}
+
+async function generateBatchVideoItem(
+    item: BatchJobItem,
+    job: BatchJob,
+    params: Record<string, any>,
+    credits: BatchVideoCredits
+): Promise<{ image_url: string; video_url: string }> {
+    const shot: BatchVideoShot | undefined = (params.shots || []).find((s: any) => s.shot_id === item.shot_id);
+    if (!shot) throw new Error('Shot data not found');
+
+    // The approved frame may have changed since the job was queued (e.g. on retry)
+    const frameUrl = getApprovedStoryboardFrame(job.project_id, shot.shot_id) || shot.frame_url;
+    const continuityProfile = buildContinuityProfile({
+        strictness: 'medium',
+        lockCharacter: true,
+        lockStyle: true,
+        lockCostume: true,
+        lockScene: false,
+        usePreviousApprovedAsReference: false,
+        project_context: {
+            project_id: job.project_id,
+            character_anchor: params.character_anchor || '',
+        }
+    }, {
+        characterAnchor: params.character_anchor || '',
+        visualStyle: params.style || '',
+    });
+    const prompt = applyContinuityLocks(shot.prompt, continuityProfile);
+
+    const itemRef = `${credits.batchRef}:${item.shot_id}`;
+    if (!credits.skipCreditCheck) {
+        const { data: reserved, error: reserveErr } = await credits.supabaseUser.rpc('reserve_credits', { amount: shot.cost, ref_type: 'batch-video', ref_id: itemRef });
+        if (reserveErr) throw new Error('Credit verification failed');
+        if (!reserved) throw new Error('Insufficient credits');
+    }
+
+    try {
+        // ★ Video generation via the configured provider (default: Replicate, env: REPLICATE_API_TOKEN)
+        const result = await generateVideoWithProvider({
+            prompt,
+            model: REPLICATE_MODEL_PATHS[shot.video_model],
+            imageUrl: frameUrl,
+            durationSec: shot.duration_sec,
+            aspectRatio: params.aspect_ratio,
+            input: buildBatchVideoInput(shot.video_model, prompt, frameUrl, shot.duration_sec),
+        });
+        if (!credits.skipCreditCheck) {
+            try { await credits.supabaseUser.rpc('finalize_reserve', { ref_type: 'batch-video', ref_id: itemRef }); } catch (e) { }
+        }
+        return { image_url: frameUrl, video_url: result.url };
+    } catch (err) {
+        if (!credits.skipCreditCheck) {
+            try { await credits.supabaseUser.rpc('refund_reserve', { amount: shot.cost, ref_type: 'batch-video', ref_id: itemRef }); } catch (e) { }
+        }
+        throw err;
+    }
+}
+
+// ───────────────────────────────────────────────────────────────
+// POST /api/batch/gen-videos — Batch image-to-video from approved frames (SSE)
+// Shots with video_approved === false or without an approved frame are
+// reported as blocked and not queued.
+// ───────────────────────────────────────────────────────────────
+app.post('/api/batch/gen-videos', async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    try {
+        const { project_id, shots, model = 'wan_2_2_fast', duration = 6, aspect_ratio = '16:9', style = 'none', character_anchor = '' } = req.body;
+        if (!project_id) return res.status(400).json(createErrorResponse(createError.missingField('project_id'), traceId));
+        if (!shots?.length) return res.status(400).json(createErrorResponse(createError.invalidParameter('shots', '不能为空'), traceId));
+        if (!isServerVideoModel(model)) return res.status(400).json(createErrorResponse(createError.invalidParameter('model', '不支持的视频模型'), traceId));
+
+        const authHeader = req.headers.authorization;
+        if (!authHeader) return res.status(401).json(createErrorResponse(createError.unauthorized(), traceId));
+
+        const supabaseUser = getUserClient(authHeader);
+        const userId = await getUserId(supabaseUser);
+        const userEmail = await getUserEmail(supabaseUser);
+
+        if (!userId || !userEmail) {
+            return res.status(401).json({ error: 'Unauthorized' });
         }
 
-        if (cancelled) { job.status = 'cancelled'; }
-        else if (job.failed > 0 && job.succeeded === 0) { job.status = 'failed'; }
-        else { job.status = 'completed'; }
-        job.updated_at = new Date().toISOString();
+        const runtime = await loadProjectRuntime(project_id);
+        const sortedShots = [...shots].sort((a: any, b: any) => (a.scene_number - b.scene_number) || (a.shot_number - b.shot_number));
+        const { eligible, blocked } = planBatchVideoShots(project_id, sortedShots, { model, duration: Number(duration) || 6 });
+        if (eligible.length === 0) {
+            return res.status(409).json({ error: 'No shots with an approved storyboard frame', code: 'NO_ELIGIBLE_SHOTS', blocked });
+        }
+        const totalCost = eligible.reduce((sum, s) => sum + s.cost, 0);
 
-        if (!skipCreditCheck) {
-            const notOk = job.total - job.succeeded;
-            if (notOk > 0) { try { await supabaseUser.rpc('refund_reserve', { amount: notOk * costPerImage, ref_type: 'batch-continue-partial', ref_id: batchRef }); } catch (e) { } }
-            try { await supabaseUser.rpc('finalize_reserve', { ref_type: 'batch-image-continue', ref_id: batchRef }); } catch (e) { }
+        // ★ GOD MODE: Check entitlement for the whole batch; credits are reserved per item
+        const entitlement = await checkEntitlement(userId, userEmail, 'generate_video', totalCost);
+        if (!entitlement.allowed) {
+            const status = entitlement.errorCode === 'NEED_PAYMENT' ? 402
+                : entitlement.errorCode === 'INSUFFICIENT_CREDITS' ? 402 : 403;
+            return res.status(status).json({
+                error: entitlement.reason,
+                code: entitlement.errorCode,
+                credits: entitlement.credits,
+                needed: totalCost,
+            });
         }
 
-        sendSSE('done', { job, items, range_label: rangeLabel, remaining_count: remainingAfter, all_done: remainingAfter === 0, anchor_image_url: anchorImageUrl });
+        const skipCreditCheck = entitlement.mode === 'developer';
+        if (skipCreditCheck) {
+            logDeveloperAccess(userEmail, `batch:gen-videos:count=${eligible.length}:totalCost=${totalCost}`);
+        }
+
+        if (runtime && runtime.stage !== 'video_generating' && checkStageTransition(runtime, 'start_video').allowed === true) {
+            transitionProjectStage(project_id, 'start_video', { actor: userId, reason: `batch video for ${eligible.length} shots` });
+            await flushPipelineEvents(project_id);
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+
+        const sendSSE = (event: string, data: any) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        const jobId = crypto.randomUUID();
+        const created = await createBatchJob({
+            jobId,
+            projectId: project_id,
+            userId,
+            type: 'gen_videos',
+            concurrency: 1,
+            items: eligible.map((s) => ({ shotId: s.shot_id, shotNumber: s.shot_number, sceneNumber: s.scene_number })),
+            params: { shots: eligible, model, aspect_ratio, style, character_anchor },
+            tier: await resolveSchedulingTier(userId, userEmail),
+        });
+        sendSSE('progress', { ...created, blocked, total_cost: totalCost });
+
+        let cancelled = false;
+        req.on('close', () => { cancelled = true; });
+
+        const credits: BatchVideoCredits = {
+            supabaseUser,
+            skipCreditCheck,
+            batchRef: `batch-video:${Date.now()}:${Math.random().toString(36).slice(2)}`,
+        };
+        const { job, items } = (await runBatchJob(jobId, {
+            executor: (item, job, params) => generateBatchVideoItem(item, job, params, credits),
+            onProgress: (job, items, item) => {
+                sendSSE('progress', { job, items });
+                if (item.status === 'failed') logger.replicate.error('batch_video_shot_failed', item.error, { shot_id: item.shot_id });
+                if (item.status !== 'running') publishBatchItemCompleted(job, item);
+            },
+            shouldStop: () => cancelled,
+        })) || created;
+
+        if (job.failed > 0 && getProjectRuntime(project_id)?.stage === 'video_generating') {
+            transitionProjectStage(project_id, 'video_failed', { actor: userId, reason: `${job.failed} batch video(s) failed` });
+            await flushPipelineEvents(project_id);
+        }
+        logger.replicate.info('batch_videos_finished', { project_id, status: job.status, succeeded: job.succeeded, failed: job.failed, blocked: blocked.length }, traceId);
+
+        sendSSE('done', { job, items, blocked });
         res.end();
     } catch (error: any) {
-        logger.replicate.error('batch_continue_error', error.message);
+        logger.replicate.error('batch_videos_error', error.message);
         if (!res.headersSent) {
-            res.status(500).json({ error: error.message || 'Failed to start continue batch job' });
+            res.status(500).json({ error: error.message || 'Failed to start batch video job' });
         } else {
             res.write(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
             res.end();
@@ -6164,23 +8328,184 @@ app.post('/api/batch/gen-images/continue', async (req: any, res: any) => {
     }
 });
 
+// ───────────────────────────────────────────────────────────────
+// Durable batch queue — executor for retried / recovered image items
+// Runs the item through the same executor as the live SSE routes, from the
+// params stored with the job. Frames the job already produced stand in for
+// the run's Redux references; prop/wardrobe states are walked over the
+// job's shots only.
+// ───────────────────────────────────────────────────────────────
+const executeStoredImageItem: BatchItemExecutor = async (item, job, params) => {
+    const runParams: ImageShotRunParams = {
+        ...params,
+        shots: params.shots || [],
+        reference_mode: params.reference_mode || (job.type === 'regen_cascade' ? 'previous_frame' : 'scene_first'),
+    };
+    const generatedFrames = new Map<string, string>();
+    for (const done of (await getBatchJobStatus(job.id))?.items || []) {
+        if (done.status === 'succeeded' && done.image_url) generatedFrames.set(done.shot_id, done.image_url);
+    }
+    const { sources: ledgerSources, pins: ledgerPins } = await loadContinuityLedgerSources(job.project_id, {});
+    const execute = createImageShotExecutor(job.project_id, runParams, {
+        continuityLedger: buildContinuityLedger(runParams.shots, ledgerSources, ledgerPins),
+        generatedFrames,
+        onGenerated: job.type === 'regen_cascade' ? recordCascadeCandidate(job.project_id, job.user_id) : undefined,
+    });
+    return execute(item, job, runParams);
+};
+
+registerBatchExecutor('gen_images', executeStoredImageItem);
+registerBatchExecutor('gen_images_continue', executeStoredImageItem);
+registerBatchExecutor('regen_cascade', executeStoredImageItem);
+// Video items reserve credits as they run, so only a retry by the user can
+// carry them; a resumed job without that context fails its items for retry.
+registerBatchExecutor('gen_videos', async (item, job, params) => {
+    if (!params.credits) throw new Error('Interrupted video item: retry the batch to resume it');
+    return generateBatchVideoItem(item, job, params, params.credits);
+});
+
+/** How often this instance looks for items whose worker died. */
+const BATCH_RECOVERY_INTERVAL_MS = 60_000;
+
+const recoverInterruptedBatches = () => {
+    recoverBatchJobs(
+        (job, _items, item) => {
+            if (item.status !== 'running') publishBatchItemCompleted(job, item);
+        },
+        // The request that reserved the credits is gone; settle them here
+        (job, _items, params) => settleBatchReservation(job, params.reservation),
+    )
+        .then((resumed) => {
+            if (resumed.length) logger.replicate.info('batch_jobs_resumed', { jobs: resumed });
+        })
+        .catch((e: any) => logger.replicate.warn('batch_recovery_failed', { error: e?.message || String(e) }));
+};
+recoverInterruptedBatches();
+(setInterval(recoverInterruptedBatches, BATCH_RECOVERY_INTERVAL_MS) as any).unref?.();
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/queue/status — The caller's generation tasks with queue position
+// and ETA in the fair-share scheduler, plus per-provider load.
+// ───────────────────────────────────────────────────────────────
+app.get('/api/queue/status', requireAuth, async (req: any, res: any) => {
+    try {
+        const userId = req.user?.id;
+        const tier = await resolveSchedulingTier(userId, req.user?.email);
+        const tasks = generationScheduler.getStatus(userId).map((t) => ({
+            id: t.id,
+            kind: t.kind,
+            provider: t.provider,
+            status: t.status,
+            position: t.position,
+            eta_ms: t.etaMs,
+        }));
+        res.json({ tier, tasks, providers: generationScheduler.getLoad() });
+    } catch (error: any) { res.status(500).json({ error: error.message }); }
+});
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/generation/providers — Registered generation providers and the
+// one configured for each capability.
+// ───────────────────────────────────────────────────────────────
+app.get('/api/generation/providers', requireAuth, (req: any, res: any) => {
+    res.json({
+        providers: listGenerationProviders(),
+        configured: Object.fromEntries(GENERATION_CAPABILITIES.map((c) => [c, configuredProviderName(c)])),
+    });
+});
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/generation-cache — The caller's cached generations, newest first
+// Query: ?kind=image|shot_image|prediction&limit=50
+// ───────────────────────────────────────────────────────────────
+app.get('/api/generation-cache', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    const kind = req.query.kind ? String(req.query.kind) : undefined;
+    if (kind && !['image', 'shot_image', 'prediction'].includes(kind)) {
+        return res.status(400).json(createErrorResponse(createError.invalidParameter('kind', 'expected image, shot_image or prediction'), traceId));
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 200);
+    try {
+        const entries = await listGenerationCache(req.user.id, { kind: kind as GenerationCacheKind | undefined, limit });
+        res.json({ entries });
+    } catch (error: any) {
+        logger.replicate.error('generation_cache_list_failed', error.message, {}, traceId);
+        res.status(500).json(createErrorResponse(createError.internalError('Generation cache unavailable'), traceId));
+    }
+});
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/generation-cache/:key — One entry: canonical request, output, hit count
+// ───────────────────────────────────────────────────────────────
+app.get('/api/generation-cache/:key', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    try {
+        const entry = await getGenerationCacheEntry(req.user.id, String(req.params.key));
+        if (!entry) {
+            return res.status(404).json(createErrorResponse(createError.notFound('Generation cache entry'), traceId));
+        }
+        res.json(entry);
+    } catch (error: any) {
+        logger.replicate.error('generation_cache_get_failed', error.message, { key: req.params.key }, traceId);
+        res.status(500).json(createErrorResponse(createError.internalError('Generation cache unavailable'), traceId));
+    }
+});
+
+// ───────────────────────────────────────────────────────────────
+// DELETE /api/generation-cache/:key — Evict an entry so the next identical
+// request generates again
+// ───────────────────────────────────────────────────────────────
+app.delete('/api/generation-cache/:key', requireAuth, async (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    try {
+        const deleted = await deleteGenerationCacheEntry(req.user.id, String(req.params.key));
+        if (!deleted) {
+            return res.status(404).json(createErrorResponse(createError.notFound('Generation cache entry'), traceId));
+        }
+        res.json({ ok: true });
+    } catch (error: any) {
+        logger.replicate.error('generation_cache_delete_failed', error.message, { key: req.params.key }, traceId);
+        res.status(500).json(createErrorResponse(createError.internalError('Generation cache unavailable'), traceId));
+    }
+});
+
+// ───────────────────────────────────────────────────────────────
+// GET /api/local-media/:file — Media rendered by the local provider.
+// Unauthenticated like storage public URLs: <img>/<video> tags load it directly,
+// and file names are content hashes.
+// ───────────────────────────────────────────────────────────────
+app.get('/api/local-media/:file', (req: any, res: any) => {
+    const traceId: string = req.traceId || generateTraceId();
+    const filePath = localMediaPath(String(req.params.file || ''));
+    if (!filePath) {
+        return res.status(404).json(createErrorResponse(createError.notFound('Local media'), traceId));
+    }
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.type(localMediaMimeType(filePath));
+    res.sendFile(filePath);
+});
+
 // ───────────────────────────────────────────────────────────────
 // GET /api/batch/:jobId — Get batch job status
 // ───────────────────────────────────────────────────────────────
-app.get('/api/batch/:jobId', async (req: any, res: any) => {
+app.get('/api/batch/:jobId', requireAuth, async (req: any, res: any) => {
     try {
-        const status = getBatchJobStatus(req.params.jobId);
-        if (!status) return res.status(404).json({ error: 'Job not found' });
+        const status = await getBatchJobStatus(req.params.jobId);
+        // Another user's job is reported as missing
+        if (!status || status.job.user_id !== req.user.id) return res.status(404).json({ error: 'Job not found' });
         res.json(status);
     } catch (error: any) { res.status(500).json({ error: error.message }); }
 });
 
 // ───────────────────────────────────────────────────────────────
 // POST /api/batch/:jobId/cancel — Cancel a running batch job
+// The flag lives in the queue store, so the instance running the job sees it.
 // ───────────────────────────────────────────────────────────────
-app.post('/api/batch/:jobId/cancel', async (req: any, res: any) => {
+app.post('/api/batch/:jobId/cancel', requireAuth, async (req: any, res: any) => {
     try {
-        const ok = cancelBatchJob(req.params.jobId);
+        const status = await getBatchJobStatus(req.params.jobId);
+        if (!status || status.job.user_id !== req.user.id) return res.status(404).json({ error: 'Job not found' });
+        const ok = await cancelBatchJob(req.params.jobId);
         if (!ok) return res.status(400).json({ error: 'Job cannot be cancelled' });
         res.json({ ok: true, message: 'Cancellation requested' });
     } catch (error: any) { res.status(500).json({ error: error.message }); }
@@ -6188,52 +8513,71 @@ app.post('/api/batch/:jobId/cancel', async (req: any, res: any) => {
 
 // ───────────────────────────────────────────────────────────────
 // POST /api/batch/:jobId/retry — Retry failed items
+// Body fields override the params stored with the job for this retry.
+// gen_videos retries reserve credits again, per item; image retries reserve the
+// failed items' cost up front. Only the job's owner may retry it.
 // ───────────────────────────────────────────────────────────────
-app.post('/api/batch/:jobId/retry', async (req: any, res: any) => {
+app.post('/api/batch/:jobId/retry', requireAuth, async (req: any, res: any) => {
     try {
-        const { model = 'flux', aspect_ratio = '16:9', style = 'none', character_anchor = '', shots = [] } = req.body;
-        const replicatePath = (REPLICATE_MODEL_PATHS as any)[model] || REPLICATE_MODEL_PATHS['flux'];
-        // Derive project-level consistent seed from the job's project_id
-        const retryJobStatus = getBatchJobStatus(req.params.jobId);
-        const retryProjectId = retryJobStatus?.job?.project_id || '';
-        const retryProjectSeed = retryProjectId
-            ? Math.abs([...retryProjectId].reduce((hash, c) => ((hash << 5) - hash + c.charCodeAt(0)) | 0, 0)) % 1000000 || 142857
-            : 142857;
-        const executor: TaskExecutor = async (item) => {
-            const shotData = shots.find((s: any) => s.shot_id === item.shot_id);
-            const continuityProfile = buildContinuityProfile({
-                strictness: 'high',
-                lockCharacter: true,
-                lockStyle: true,
-                lockCostume: true,
-                lockScene: true,
-                usePreviousApprovedAsReference: true,
-                scene_memory: {
-                    scene_id: shotData?.scene_id,
-                    scene_number: shotData?.scene_number,
-                    environment: shotData?.location,
-                    time_of_day: shotData?.time_of_day,
-                    lighting: shotData?.lighting,
-                },
-                project_context: {
-                    project_id: retryProjectId,
-                    visual_style: style,
-                    character_anchor,
-                }
-            }, {
-                characterAnchor: character_anchor,
-                visualStyle: style,
-            });
-
-            let finalPrompt = buildFinalPrompt({ basePrompt: shotData?.image_prompt || '', characterAnchor: character_anchor, style, referencePolicy: shotData?.reference_policy || 'anchor' });
-            finalPrompt = applyContinuityLocks(finalPrompt, continuityProfile);
-            const continuityNegative = buildContinuityNegativePrompt('', continuityProfile);
-            // ★ Replicate image generation (provider: Replicate, env: REPLICATE_API_TOKEN)
-            const result = await callReplicateImage({ prompt: finalPrompt, negativePrompt: continuityNegative, model: replicatePath, aspectRatio: aspect_ratio, seed: shotData?.seed_hint ?? retryProjectSeed });
-            return { image_id: crypto.randomUUID(), image_url: result.url };
-        };
-        const ok = retryFailedBatchItems(req.params.jobId, executor);
-        if (!ok) return res.status(400).json({ error: 'No failed items to retry or job is still running' });
+        const { model, aspect_ratio, style, character_anchor, shots } = req.body || {};
+        const overrides = Object.fromEntries(
+            Object.entries({ model, aspect_ratio, style, character_anchor, shots: shots?.length ? shots : undefined })
+                .filter(([, v]) => v !== undefined)
+        );
+        const status = await getBatchJobStatus(req.params.jobId);
+        if (!status || status.job.user_id !== req.user.id) return res.status(404).json({ error: 'Job not found' });
+        const supabaseUser = getUserClient(req.headers.authorization);
+        const userId: string = req.user.id;
+        const userEmail: string = req.user.email || '';
+
+        let retryReservation: BatchCreditReservation | undefined;
+        if (status.job.type === 'gen_videos') {
+            const entitlement = await checkEntitlement(userId, userEmail, 'generate_video', 0);
+            if (!entitlement.allowed) return res.status(402).json({ error: entitlement.reason, code: entitlement.errorCode });
+            overrides.credits = {
+                supabaseUser,
+                skipCreditCheck: entitlement.mode === 'developer',
+                batchRef: `batch-video-retry:${Date.now()}:${Math.random().toString(36).slice(2)}`,
+            } as BatchVideoCredits;
+        } else {
+            // Image items are paid up front like the original batch: reserve the retried
+            // items under their own ref, settled when the retry worker finishes
+            const failedIds = status.items.filter((i) => i.status === 'failed').map((i) => i.id);
+            if (failedIds.length === 0) return res.status(400).json({ error: 'No failed items to retry or job is still running' });
+            const storedParams = (await getBatchQueueStore().loadJob(req.params.jobId))?.params || {};
+            const retryModel = overrides.model || storedParams.model || 'flux';
+            const costPerImage = (IMAGE_MODEL_COSTS as any)[retryModel] ?? storedParams.reservation?.cost_per_item ?? 6;
+            const totalCost = costPerImage * failedIds.length;
+            const entitlement = await checkEntitlement(userId, userEmail, 'batch_images', totalCost);
+            if (!entitlement.allowed) {
+                return res.status(402).json({ error: entitlement.reason, code: entitlement.errorCode, credits: entitlement.credits, needed: totalCost });
+            }
+            if (entitlement.mode === 'developer') {
+                logDeveloperAccess(userEmail, `batch:retry:${req.params.jobId}:count=${failedIds.length}:totalCost=${totalCost}`);
+            } else {
+                retryReservation = {
+                    ref_type: 'batch-image-retry',
+                    ref_id: `batch-img-retry:${Date.now()}:${Math.random().toString(36).slice(2)}`,
+                    cost_per_item: costPerImage,
+                    item_ids: failedIds,
+                };
+                const { data: reserved, error: reserveErr } = await supabaseUser.rpc('reserve_credits', { amount: totalCost, ref_type: retryReservation.ref_type, ref_id: retryReservation.ref_id });
+                if (reserveErr) return res.status(500).json({ error: 'Credit verification failed' });
+                if (!reserved) return res.status(402).json({ error: 'Insufficient credits', code: 'INSUFFICIENT_CREDITS', needed: totalCost });
+            }
+            // Replaces the job's settled reservation for this run only
+            overrides.reservation = retryReservation;
+        }
+        const ok = await retryFailedBatchItems(req.params.jobId, overrides, (job, items, params) =>
+            settleBatchReservation(job, params.reservation, items));
+        if (!ok) {
+            if (retryReservation) {
+                try {
+                    await supabaseUser.rpc('refund_reserve', { amount: retryReservation.cost_per_item * (retryReservation.item_ids?.length || 0), ref_type: retryReservation.ref_type, ref_id: retryReservation.ref_id });
+                } catch (_) { }
+            }
+            return res.status(400).json({ error: 'No failed items to retry or job is still running' });
+        }
         res.json({ ok: true, message: 'Retry started' });
     } catch (error: any) { res.status(500).json({ error: error.message }); }
 });
@@ -6283,6 +8627,52 @@ app.post('/api/billing/checkout', async (req: any, res: any) => {
     }
 });
 
+// ───────────────────────────────────────────────────────────────
+// POST /api/billing/addon-checkout — One-off Stripe Checkout for an ADDON_SERVICES entry
+// ───────────────────────────────────────────────────────────────
+app.post('/api/billing/addon-checkout', async (req: any, res: any) => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader) return res.status(401).json({ error: 'Missing Authorization header' });
+        const supabaseUser = getUserClient(authHeader);
+        const userId = await getUserId(supabaseUser);
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { addonId } = req.body;
+        if (!addonId || !Object.prototype.hasOwnProperty.call(ADDON_SERVICES, addonId)) {
+            return res.status(400).json({ error: 'Invalid add-on' });
+        }
+        const addon = ADDON_SERVICES[addonId as keyof typeof ADDON_SERVICES];
+        const stripe = getStripe();
+
+        const session = await stripe.checkout.sessions.create({
+            payment_method_types: ['card'],
+            line_items: [{
+                price_data: {
+                    currency: 'usd',
+                    unit_amount: addon.price * 100,
+                    product_data: { name: addon.name }
+                },
+                quantity: 1
+            }],
+            mode: 'payment',
+            success_url: `${req.headers.origin || process.env.VITE_APP_URL || 'http://localhost:3000'}/?addon=success`,
+            cancel_url: `${req.headers.origin || process.env.VITE_APP_URL || 'http://localhost:3000'}/?addon=cancelled`,
+            client_reference_id: userId,
+            // The webhook grants metadata.addon onto profiles.addons
+            metadata: {
+                user_id: userId,
+                addon: addonId
+            }
+        });
+
+        res.json({ url: session.url });
+    } catch (err: any) {
+        logger.payment.error('billing_addon_checkout_error', (err as any)?.message || String(err));
+        res.status(500).json({ error: err.message });
+    }
+});
+
 // ───────────────────────────────────────────────────────────────
 // POST /api/billing/subscribe — Create Stripe Checkout Session for Subscriptions
 // ───────────────────────────────────────────────────────────────
@@ -6470,6 +8860,8 @@ app.get('/api/health/detailed', asyncHandler(async (req: any, res: any) => {
         },
         environment: process.env.NODE_ENV || 'unknown',
         uptime: process.uptime(),
+        // Adaptive per-model Replicate buckets: current vs configured rate, tokens, active blocks
+        replicate_rate_limits: replicateRateLimiters.snapshot(),
     }, undefined, req.traceId));
 }));
 
@@ -6751,6 +9143,47 @@ async function elevenLabsTTSWithTiming(params: {
     return { audioBuffer, alignment, durationSec, timingBlocks, timingSource: 'elevenlabs_alignment', voiceIdUsed: voiceId };
 }
 
+// ── Provider-routed TTS ─────────────────────────────────────────
+// ElevenLabs keeps its real alignment; other tts providers (e.g. local) get
+// timing blocks spread evenly over the clip, flagged timing_source "estimated".
+async function synthesizeSpeechWithTiming(params: Parameters<typeof elevenLabsTTSWithTiming>[0]): Promise<{
+    audioBuffer: Buffer;
+    durationSec: number;
+    timingBlocks: TimingBlock[];
+    timingSource: 'elevenlabs_alignment' | 'estimated';
+    voiceIdUsed: string;
+    mimeType: string;
+    fileExt: string;
+}> {
+    const provider = resolveGenerationProvider('tts');
+    if (provider.name === 'elevenlabs') {
+        const result = await elevenLabsTTSWithTiming(params);
+        return { ...result, mimeType: 'audio/mpeg', fileExt: 'mp3' };
+    }
+
+    const speech = await provider.synthesizeSpeech!({
+        text: params.text, voiceId: params.voiceId, emotion: params.emotion, speed: params.speed,
+    });
+    const audioBuffer = await readGeneratedMedia(speech);
+    const durationSec = speech.durationSec ?? Math.max(1, params.text.split(/\s+/).length / 2.5);
+    const characters = params.text.split('');
+    const step = durationSec / Math.max(1, characters.length);
+    const timingBlocks = alignmentToTimingBlocks(params.text, {
+        characters,
+        character_start_times_seconds: characters.map((_, i) => i * step),
+        character_end_times_seconds: characters.map((_, i) => (i + 1) * step),
+    });
+    return {
+        audioBuffer,
+        durationSec,
+        timingBlocks,
+        timingSource: 'estimated',
+        voiceIdUsed: params.voiceId,
+        mimeType: speech.mimeType,
+        fileExt: speech.mimeType === 'audio/wav' ? 'wav' : 'mp3',
+    };
+}
+
 // POST /api/audio/elevenlabs - Generate voice using ElevenLabs (with real alignment timing)
 app.post('/api/audio/elevenlabs', requireAuth, async (req: any, res: any) => {
     try {
@@ -6766,7 +9199,7 @@ app.post('/api/audio/elevenlabs', requireAuth, async (req: any, res: any) => {
         }
 
         const elevenlabsKey = process.env.ELEVENLABS_API_KEY;
-        if (!elevenlabsKey) {
+        if (!elevenlabsKey && configuredProviderName('tts') === 'elevenlabs') {
             return res.status(500).json({ error: 'ElevenLabs API key not configured — add ELEVENLABS_API_KEY to Vercel env vars' });
         }
 
@@ -6779,18 +9212,18 @@ app.post('/api/audio/elevenlabs', requireAuth, async (req: any, res: any) => {
         console.log('[ElevenLabs] Voice preset:', voice_id, '→ EL ID:', selectedVoice);
 
         // ★ Use /with-timestamps to get real character-level alignment
-        const { audioBuffer, durationSec, timingBlocks, timingSource, voiceIdUsed } = await elevenLabsTTSWithTiming({
+        const { audioBuffer, durationSec, timingBlocks, timingSource, voiceIdUsed, mimeType, fileExt } = await synthesizeSpeechWithTiming({
             text, voiceId: selectedVoice, apiKey: elevenlabsKey,
             stability, similarityBoost: similarity_boost, speed,
         });
 
         const supabaseAdmin = getSupabaseAdmin();
-        const fileName = `voice_${Date.now()}_${Math.random().toString(36).substring(7)}.mp3`;
+        const fileName = `voice_${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
 
         const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
             .from('videos')
             .upload(`audio/${fileName}`, audioBuffer, {
-                contentType: 'audio/mpeg',
+                contentType: mimeType,
                 upsert: false,
             });
 
@@ -6874,7 +9307,7 @@ app.post('/api/audio/generate-all', requireAuth, async (req: any, res: any) => {
         }
 
         const elevenlabsKey = process.env.ELEVENLABS_API_KEY;
-        if (!elevenlabsKey) {
+        if (!elevenlabsKey && configuredProviderName('tts') === 'elevenlabs') {
             return res.status(500).json({ error: 'ElevenLabs API key not configured — add ELEVENLABS_API_KEY to Vercel env vars' });
         }
 
@@ -6905,15 +9338,15 @@ app.post('/api/audio/generate-all', requireAuth, async (req: any, res: any) => {
 
             try {
                 // ★ Use /with-timestamps for real alignment timing
-                const { audioBuffer, durationSec, timingBlocks, timingSource, voiceIdUsed }
-                    = await elevenLabsTTSWithTiming({ text: textToSpeak, voiceId: selectedVoice, apiKey: elevenlabsKey });
+                const { audioBuffer, durationSec, timingBlocks, timingSource, voiceIdUsed, mimeType, fileExt }
+                    = await synthesizeSpeechWithTiming({ text: textToSpeak, voiceId: selectedVoice, apiKey: elevenlabsKey });
 
-                const fileName = `voice_scene${scene_number}_${Date.now()}.mp3`;
+                const fileName = `voice_scene${scene_number}_${Date.now()}.${fileExt}`;
 
                 const { error: uploadError } = await supabaseAdmin.storage
                     .from('videos')
                     .upload(`audio/${fileName}`, audioBuffer, {
-                        contentType: 'audio/mpeg',
+                        contentType: mimeType,
                         upsert: false,
                     });
 
@@ -7012,10 +9445,38 @@ app.post('/api/video/stitch', requireAuth, async (req: any, res: any) => {
 
 // ───────────────────────────────────────────────────────────────
 // POST /api/video/finalize — Finalize & stitch all scene videos (REAL FFmpeg stitching)
+// { project_id, active_branch_ids } without segments stitches the stored shots' videos
+// with those alternate takes in place of their main-line range; 400 with
+// missing_video_shot_ids when a shot of that cut has no video yet
 // ───────────────────────────────────────────────────────────────
 app.post('/api/video/finalize', requireAuth, async (req: any, res: any) => {
+    let publishRender: ((data: Record<string, any>) => void) | null = null;
     try {
-        const { project_id, segments, background_music, transitions, output_format } = req.body;
+        const { project_id, background_music, transitions, output_format, render_id } = req.body;
+        let { segments } = req.body;
+
+        // No segments but a branch selection: assemble the stored cut with those alternates
+        if ((!Array.isArray(segments) || segments.length === 0) && project_id && Array.isArray(req.body.active_branch_ids)) {
+            // User client: RLS limits the stored cut to the caller's own storyboards
+            const sources = await loadShotBranchSources(project_id, { active_branch_ids: req.body.active_branch_ids }, getUserClient(req.headers.authorization));
+            if (!sources) return res.status(404).json({ error: 'Storyboard not found' });
+            let cut: any[];
+            try {
+                cut = resolveBranchSequence(sources);
+            } catch (error: any) {
+                if (!(error instanceof ShotBranchError)) throw error;
+                return res.status(400).json({ error: error.message });
+            }
+            // A cut with holes is not a finished film: name the shots still missing a video
+            const missing = cut.filter((shot: any) => !shot.video_url);
+            if (missing.length > 0) {
+                return res.status(400).json({
+                    error: `${missing.length} shot(s) in the cut have no video`,
+                    missing_video_shot_ids: missing.map((shot: any) => shot.shot_id),
+                });
+            }
+            segments = cut.map((shot: any) => ({ scene_number: shot.sequence_order, video_url: shot.video_url, subtitle_text: shot.dialogue || undefined }));
+        }
 
         if (!segments || !Array.isArray(segments) || segments.length === 0) {
             return res.status(400).json({ error: 'Missing segments array' });
@@ -7023,6 +9484,14 @@ app.post('/api/video/finalize', requireAuth, async (req: any, res: any) => {
 
         console.log(`[Video Finalize] Project ${project_id}: ${segments.length} segments — REAL FFmpeg stitching`);
 
+        // render_id is chosen by the client so it can follow render_progress on the
+        // project event stream while this request is still in flight
+        const renderId: string = typeof render_id === 'string' && render_id ? render_id.slice(0, 100) : crypto.randomUUID();
+        publishRender = (data: Record<string, any>) => {
+            if (project_id) publishPipelineStreamEvent(project_id, 'render_progress', { render_id: renderId, ...data });
+        };
+        cacheStitchResult(renderId, { status: 'processing', progress: 0 });
+
         const { stitchVideos } = await import('../lib/videoStitcher.js');
 
         const supabaseUrl = (process.env.VITE_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '').trim();
@@ -7036,6 +9505,7 @@ app.post('/api/video/finalize', requireAuth, async (req: any, res: any) => {
                     video_url: s.video_url,
                     audio_url: s.audio_url,
                     subtitle_text: s.subtitle_text,
+                    grade: isValidColorGrade(s.grade) ? s.grade : undefined,
                 })),
                 background_music: background_music || undefined,
                 transitions: transitions || { type: 'cut', duration: 0 },
@@ -7043,10 +9513,25 @@ app.post('/api/video/finalize', requireAuth, async (req: any, res: any) => {
             },
             supabaseUrl,
             supabaseKey,
+            (stage, percent) => {
+                cacheStitchResult(renderId, { status: 'processing', progress: percent });
+                publishRender({ stage, progress: percent, status: 'rendering' });
+            },
         );
 
+        const settled = {
+            status: result.success ? 'succeeded' : 'failed',
+            progress: result.success ? 100 : result.progress,
+            output_url: result.output_url,
+            error: result.error,
+        };
+        cacheStitchResult(renderId, settled);
+        cacheStitchResult(result.job_id, settled);
+        publishRender({ stage: result.success ? 'completed' : 'failed', ...settled, job_id: result.job_id });
+
         res.json({
             success: result.success,
+            render_id: renderId,
             job_id: result.job_id,
             status: result.status,
             progress: result.progress,
@@ -7062,6 +9547,7 @@ app.post('/api/video/finalize', requireAuth, async (req: any, res: any) => {
         });
     } catch (err: any) {
         console.error('[Video Finalize] Error:', err);
+        publishRender?.({ stage: 'failed', progress: 0, status: 'failed', error: err.message || 'Failed to finalize video' });
         res.status(500).json({ error: err.message || 'Failed to finalize video' });
     }
 });
@@ -7123,7 +9609,7 @@ app.post('/api/audio/generate-dialogue', requireAuth, async (req: any, res: any)
             ?? process.env.ELEVEN_LABS_VOICE_ID
             ?? 'pNInz6obpgDQGcFmaJgB'; // fallback: Adam
 
-        if (!ELEVEN_LABS_API_KEY) {
+        if (!ELEVEN_LABS_API_KEY && configuredProviderName('tts') === 'elevenlabs') {
             return res.status(500).json({ error: 'ElevenLabs API key not configured — add ELEVENLABS_API_KEY to Vercel env vars' });
         }
 
@@ -7140,8 +9626,8 @@ app.post('/api/audio/generate-dialogue', requireAuth, async (req: any, res: any)
         console.log(`[ElevenLabs/dialogue] voice="${voicePresetKey}"→"${ELEVEN_LABS_VOICE_ID}" emotion="${emotion}" text="${text.substring(0, 60)}..."`);
 
         // ★ Use /with-timestamps for real sentence-level timing (not word-count estimate)
-        const { audioBuffer, durationSec, timingBlocks, timingSource, voiceIdUsed }
-            = await elevenLabsTTSWithTiming({
+        const { audioBuffer, durationSec, timingBlocks, timingSource, voiceIdUsed, mimeType, fileExt }
+            = await synthesizeSpeechWithTiming({
                 text, voiceId: ELEVEN_LABS_VOICE_ID, apiKey: ELEVEN_LABS_API_KEY,
                 modelId: 'eleven_multilingual_v2',
                 stability, similarityBoost, emotion,
@@ -7149,12 +9635,12 @@ app.post('/api/audio/generate-dialogue', requireAuth, async (req: any, res: any)
 
         // Upload to Supabase Storage — use 'videos' bucket (consistent with other voice endpoints)
         const supabaseAdmin = getSupabaseAdmin();
-        const fileName = `dialogue_${Date.now()}.mp3`;
+        const fileName = `dialogue_${Date.now()}.${fileExt}`;
 
         const { data, error } = await supabaseAdmin.storage
             .from('videos')
             .upload(`audio/${fileName}`, audioBuffer, {
-                contentType: 'audio/mpeg',
+                contentType: mimeType,
                 upsert: true
             });
 
@@ -7176,7 +9662,7 @@ app.post('/api/audio/generate-dialogue', requireAuth, async (req: any, res: any)
             duration: durationSec,         // real duration from alignment
             duration_sec: durationSec,
             timing_blocks: timingBlocks,   // sentence-level [{text, start_sec, end_sec}]
-            timing_source: timingSource,   // "elevenlabs_alignment" — never a mock estimate
+            timing_source: timingSource,   // "elevenlabs_alignment", or "estimated" for non-ElevenLabs providers
             voice_id_used: voiceIdUsed,
         });
 
@@ -7197,7 +9683,7 @@ app.post('/api/audio/generate-music', async (req: any, res: any) => {
         const userId = await getUserId(supabaseUser);
         if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
-        const { vibe, duration = 10 } = req.body;
+        const { vibe, duration = 10, project_id } = req.body;
 
         if (!vibe) {
             return res.status(400).json({ error: 'Missing vibe description' });
@@ -7231,6 +9717,7 @@ app.post('/api/audio/generate-music', async (req: any, res: any) => {
         }
 
         const prediction = await response.json() as any;
+        watchProjectPrediction(project_id, prediction, { kind: 'music' });
 
         res.json({
             ok: true,
@@ -3,6 +3,8 @@
 // Three distinct expert personas: DIRECTOR · SCREENWRITER · DOP
 // ─────────────────────────────────────────────────────────────────────────────
 
+import type { StoryStructureTemplate, StructureScenePlan } from '../lib/storyStructure.js';
+
 export interface DirectorControlsInput {
     // Narrative
     tone?: string;
@@ -73,6 +75,35 @@ function buildDirectorControlsBlock(dc: DirectorControlsInput): string {
     return `\n◈ DIRECTOR MANDATES (non-negotiable):\n${lines.map(l => `  → ${l}`).join('\n')}\n`;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal helper: the structure law — the default three-act skeleton, or the
+// chosen template's beat slots with the scene planned for each
+// ─────────────────────────────────────────────────────────────────────────────
+function buildStructureLaw(structure?: { template: StoryStructureTemplate; plan: StructureScenePlan[] }): string {
+    if (!structure) {
+        return `① THREE-ACT SKELETON
+   Act 1 (≤25% of scenes): Establish world, protagonist desire, inciting incident
+   Act 2A (25-50%): Pursuit of desire, complications escalate, midpoint reversal
+   Act 2B (50-75%): Protagonist at lowest point, all seems lost, dark night
+   Act 3 (≥75%): Climax — protagonist changes or fails to change, resolution`;
+    }
+    const { template, plan } = structure;
+    const slots = template.slots.map(s =>
+        `   ${s.id.padEnd(24)} ${`${s.start_pct}-${s.end_pct}%`.padEnd(8)} act ${s.act} — ${s.label}: ${s.description}${s.optional ? ' (optional)' : ''}`
+    ).join('\n');
+    const scenes = plan.map(p =>
+        `   Scene ${p.scene_number} → ${p.slot.id}${p.also_covers.length ? ` (also carries: ${p.also_covers.map(s => s.id).join(', ')})` : ''}`
+    ).join('\n');
+    return `① STRUCTURE TEMPLATE — ${template.label.toUpperCase()} (${template.acts} acts)
+   ${template.description}
+   Beat slots (window = share of total runtime):
+${slots}
+   Fill every slot. Planned scene for each beat:
+${scenes}
+   Set each scene's "structure_beat" to its slot id and "act" to the slot's act.
+   A scene's length must fit its beat's window — no beat may swallow the runtime.`;
+}
+
 // ═════════════════════════════════════════════════════════════════════════════
 // 1. STORY BRAIN — Hollywood Screenwriter + Director combined
 //    Produces: logline, three-act skeleton, character bibles, style bible, scenes
@@ -83,6 +114,8 @@ export function generateStoryBrainPrompt(inputs: {
     identityAnchor: string;
     sceneCount: number;
     directorControls?: DirectorControlsInput;
+    /** Template beat slots and the scene planned for each (lib/storyStructure.ts) */
+    structure?: { template: StoryStructureTemplate; plan: StructureScenePlan[] };
 }): string {
     const dc = inputs.directorControls || {};
     const directorBlock = inputs.directorControls ? buildDirectorControlsBlock(inputs.directorControls) : '';
@@ -111,11 +144,7 @@ ${directorBlock}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 SCREENWRITER LAWS (enforce without exception):
 
-① THREE-ACT SKELETON
-   Act 1 (≤25% of scenes): Establish world, protagonist desire, inciting incident
-   Act 2A (25-50%): Pursuit of desire, complications escalate, midpoint reversal
-   Act 2B (50-75%): Protagonist at lowest point, all seems lost, dark night
-   Act 3 (≥75%): Climax — protagonist changes or fails to change, resolution
+${buildStructureLaw(inputs.structure)}
 
 ② CHARACTER ARCHITECTURE (every named character must have):
    • DESIRE: What they consciously want (external goal)
@@ -229,7 +258,8 @@ OUTPUT FORMAT — strict JSON, no markdown, no code fences:
     {
       "scene_id": "scene_[number]",
       "scene_number": 1,
-      "act": 1,
+      "act": 1,${inputs.structure ? `
+      "structure_beat": "${inputs.structure.plan[0]?.slot.id || ''}",` : ''}
       "dramatic_function": "setup|confrontation|revelation|climax|resolution|transition",
       "location": "Specific location with architectural/natural details",
       "time_of_day": "string",
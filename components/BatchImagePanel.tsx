@@ -11,10 +11,12 @@
  * - All-done indicator when every shot has a primary image
  */
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Shot, ShotImage, BatchJob, BatchJobItem, ImageModel, ContinueStrategy, VideoModel } from '../types';
+import { Shot, ShotImage, BatchJob, BatchJobItem, ImageModel, ContinueStrategy, VideoModel, RegenerationCascadePlan } from '../types';
 import {
     startBatchGenImagesSSE,
     continueBatchGenImagesSSE,
+    previewRegenerationCascade,
+    runRegenerationCascadeSSE,
     compileBatchPrompts,
     cancelBatchJob,
     retryBatchJob,
@@ -24,7 +26,9 @@ import {
     type BatchProgressResult,
     type CompiledShotPromptPreview,
 } from '../services/batchService';
-import { startVideoTask, checkPredictionStatus } from '../services/replicateService';
+import { startVideoTask } from '../services/replicateService';
+import { waitForPrediction } from '../services/pipelineEventService';
+import { usePipelineEvents } from '../hooks/usePipelineEvents';
 import { useAppContext } from '../context/AppContext';
 import { LoaderIcon } from './IconComponents';
 
@@ -150,6 +154,83 @@ const StrategyDialog: React.FC<{
     );
 };
 
+// ── Regeneration Cascade Confirm Modal ──
+const CASCADE_ACTION_LABELS: Record<string, { label: string; color: string }> = {
+    regenerate: { label: '重生成', color: 'text-indigo-300' },
+    frozen: { label: '🔒 已冻结', color: 'text-emerald-400' },
+    skipped: { label: '已跳过', color: 'text-slate-500' },
+};
+
+const CascadeDialog: React.FC<{
+    plan: RegenerationCascadePlan | null;
+    shotLabels: Record<string, string>;
+    loading: boolean;
+    onToggleFreeze: (freeze: boolean) => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+}> = ({ plan, shotLabels, loading, onToggleFreeze, onConfirm, onCancel }) => {
+    if (!plan) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl space-y-4">
+                <div>
+                    <h3 className="text-lg font-bold text-white mb-1">🔁 从此镜头向后重生成</h3>
+                    <p className="text-xs text-slate-400">
+                        将重生成 <span className="text-indigo-400 font-bold">{plan.regenerate_count}</span> 个镜头
+                        {plan.frozen_shot_ids.length > 0 && <>，保留 <span className="text-emerald-400 font-bold">{plan.frozen_shot_ids.length}</span> 个已批准镜头</>}
+                        ，预计消耗 <span className="text-amber-400 font-bold">{plan.estimated_cost} credits</span>
+                        <span className="text-slate-600 ml-1">({plan.regenerate_count} × {plan.cost_per_shot})</span>
+                    </p>
+                </div>
+
+                <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={plan.freeze_approved}
+                        disabled={loading}
+                        onChange={(e) => onToggleFreeze(e.target.checked)}
+                        className="accent-indigo-500"
+                    />
+                    冻结已批准的镜头（不重生成，仍作为后续镜头的连贯性参考）
+                </label>
+
+                <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+                    {plan.shots.map(entry => {
+                        const action = CASCADE_ACTION_LABELS[entry.action];
+                        return (
+                            <div key={entry.shot_id} className="flex items-center justify-between bg-slate-800/50 rounded-lg px-3 py-1.5 text-[11px]">
+                                <span className="text-slate-300 font-mono">{shotLabels[entry.shot_id] || entry.shot_id.slice(-6)}</span>
+                                <span className={`font-bold ${action.color}`}>{action.label}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex justify-end gap-3 pt-2">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 text-xs font-bold text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-all"
+                    >
+                        取消
+                    </button>
+                    <button
+                        onClick={onConfirm}
+                        disabled={loading || plan.regenerate_count === 0}
+                        className={`px-6 py-2 rounded-xl text-xs font-bold transition-all flex items-center gap-2 ${loading
+                            ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
+                            : 'bg-gradient-to-r from-indigo-600 to-violet-600 text-white hover:from-indigo-500 hover:to-violet-500 shadow-lg shadow-indigo-500/20'
+                            }`}
+                    >
+                        {loading && <LoaderIcon className="w-3 h-3 animate-spin" />}
+                        确认重生成
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // ═══════════════════════════════════════════════════════════════
 // Main BatchImagePanel
 // ═══════════════════════════════════════════════════════════════
@@ -180,6 +261,9 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
     const [compiledPrompts, setCompiledPrompts] = useState<CompiledShotPromptPreview[]>([]);
     const [compileWarnings, setCompileWarnings] = useState<Array<{ code: string; shot_id: string; message: string }>>([]);
     const [isCompilingPrompts, setIsCompilingPrompts] = useState(false);
+    // Regeneration cascade: plan shown for confirmation before anything is spent
+    const [cascadePlan, setCascadePlan] = useState<RegenerationCascadePlan | null>(null);
+    const [isPlanningCascade, setIsPlanningCascade] = useState(false);
     // Storyboard grid: which 12-shot page is visible (0 = shots 1-12, 12 = shots 13-24, …)
     const [gridOffset, setGridOffset] = useState(0);
 
@@ -203,6 +287,7 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
     const [batchVideoDone, setBatchVideoDone] = useState(0);
     const [batchVideoTotal, setBatchVideoTotal] = useState(0);
     const batchVideoAbort = useRef(false);
+    const batchVideoAbortController = useRef<AbortController | null>(null);
 
     // Compute image status from props
     const imageStatus = computeShotImageStatus(
@@ -254,6 +339,7 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
     const handleBatchGenerateVideos = useCallback(async () => {
         if (shotsNeedingVideo.length === 0) return;
         batchVideoAbort.current = false;
+        batchVideoAbortController.current = new AbortController();
         setBatchVideoRunning(true);
         setBatchVideoDone(0);
         setBatchVideoTotal(shotsNeedingVideo.length);
@@ -291,19 +377,15 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
                     { storyEntities, shot_id: shot.shot_id, project_id: projectId }
                 );
 
-                // Poll until done
+                // Wait for the stream to report completion
                 let videoUrl = '';
-                let status = 'processing';
-                while (status === 'processing' || status === 'starting') {
-                    await new Promise(r => setTimeout(r, 3000));
-                    if (batchVideoAbort.current) break;
-                    const check = await checkPredictionStatus(videoRes.id);
-                    status = check.status;
-                    if (status === 'succeeded') {
-                        videoUrl = Array.isArray(check.output) ? check.output[0] : check.output;
-                    } else if (status === 'failed' || status === 'canceled') {
-                        throw new Error(`失败: ${check.error || '未知错误'}`);
-                    }
+                const check = ['processing', 'starting'].includes(videoRes.status)
+                    ? await waitForPrediction(projectId, videoRes.id, { signal: batchVideoAbortController.current?.signal })
+                    : videoRes;
+                if (check.status === 'succeeded') {
+                    videoUrl = Array.isArray(check.output) ? check.output[0] : check.output;
+                } else {
+                    throw new Error(`失败: ${check.error || '未知错误'}`);
                 }
 
                 if (videoUrl) {
@@ -312,6 +394,7 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
                     setBatchVideoDone(i + 1);
                 }
             } catch (err: any) {
+                if (batchVideoAbort.current) break;
                 setBatchVideoLog(`⚠️ [${i + 1}] 失败: ${err.message || '视频生成错误'} — 继续下一个`);
                 await new Promise(r => setTimeout(r, 1000));
             }
@@ -335,14 +418,11 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
             const activeVideoModel: VideoModel = videoModel || 'wan_2_2_fast';
             const videoRes = await startVideoTask(prompt, imageUrl, activeVideoModel, 'none', 'storyboard', 'standard', 6, 24, '720p', characterAnchor, '16:9', { storyEntities, shot_id: shot.shot_id, project_id: projectId });
             let videoUrl = '';
-            let status = 'processing';
-            while (status === 'processing' || status === 'starting') {
-                await new Promise(r => setTimeout(r, 3000));
-                const check = await checkPredictionStatus(videoRes.id);
-                status = check.status;
-                if (status === 'succeeded') videoUrl = Array.isArray(check.output) ? check.output[0] : check.output;
-                else if (status === 'failed' || status === 'canceled') throw new Error(check.error || '视频生成失败');
-            }
+            const check = ['processing', 'starting'].includes(videoRes.status)
+                ? await waitForPrediction(projectId, videoRes.id)
+                : videoRes;
+            if (check.status === 'succeeded') videoUrl = Array.isArray(check.output) ? check.output[0] : check.output;
+            else throw new Error(check.error || '视频生成失败');
             if (videoUrl) {
                 setVideosByShot(prev => ({ ...prev, [shot.shot_id]: videoUrl }));
                 onVideoGenerated?.(shot.shot_id, videoUrl);
@@ -388,6 +468,25 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
         }
     }, [onImagesGenerated, refreshBalance]);
 
+    // ── Project event stream ──────────────────────────────────────────────────
+    // Batches started in another tab (or whose request stream dropped) keep
+    // reporting completed items here; this tab's own run already gets them inline.
+    usePipelineEvents(projectId, (m) => {
+        if (m.type !== 'batch_item_completed' || isStarting) return;
+        const { job: streamedJob, item } = m.data;
+        setJob(streamedJob);
+        setItems(prev => {
+            const idx = prev.findIndex(i => i.id === item.id);
+            if (idx < 0) return [...prev, item];
+            const next = [...prev];
+            next[idx] = item;
+            return next;
+        });
+        if (item.status === 'succeeded' && item.image_url && !imagesByShot[item.shot_id]?.some(img => img.url === item.image_url)) {
+            onImagesGenerated([{ shot_id: item.shot_id, image_id: item.image_id || item.id, image_url: item.image_url }]);
+        }
+    });
+
     // ── Sync screenplay fail map from compiled prompts ─────────────────────────
     // Whenever compiledPrompts updates, rebuild the failure map.
     useEffect(() => {
@@ -605,6 +704,71 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
         }
     };
 
+    // ── Regeneration cascade: preview, then run on confirm (SSE) ──
+    const handlePreviewCascade = async (shotId: string, freezeApproved = false) => {
+        if (!isAuthenticated) return alert('请先登录');
+        if (!projectId) return;
+        setIsPlanningCascade(true);
+        setError(null);
+        try {
+            const plan = await previewRegenerationCascade({
+                project_id: projectId,
+                shot_id: shotId,
+                shots: sortedShots.map(toShotForBatch),
+                freeze_approved: freezeApproved,
+                model,
+            });
+            setCascadePlan(plan);
+        } catch (err: any) {
+            setError(err.message || 'Failed to plan cascade');
+        } finally {
+            setIsPlanningCascade(false);
+        }
+    };
+
+    const handleConfirmCascade = async () => {
+        const plan = cascadePlan;
+        if (!plan || !projectId) return;
+        if (!hasEnoughCredits(plan.estimated_cost)) return openPricingModal();
+
+        setCascadePlan(null);
+        setIsStarting(true);
+        setError(null);
+        setRangeLabel(null);
+        setJobId('streaming');
+        abortRef.current = new AbortController();
+
+        try {
+            const result = await runRegenerationCascadeSSE({
+                project_id: projectId,
+                shot_id: plan.from_shot_id,
+                expected_cost: plan.estimated_cost,
+                shots: sortedShots.map(toShotForBatch),
+                freeze_approved: plan.freeze_approved,
+                model,
+                aspect_ratio: '16:9',
+                style: 'none',
+                character_anchor: characterAnchor,
+                story_entities: storyEntities,
+                style_bible: styleBible,
+                director_brain: directorBrain,
+            }, handleSSEProgress, abortRef.current.signal);
+            setJobId(result.job.id);
+        } catch (err: any) {
+            console.error('[BatchPanel] Cascade error:', err);
+            if (err.code === 'CASCADE_PLAN_CHANGED' && err.cascade) {
+                // Approvals changed since the preview — ask again with the new cost
+                setJobId(null);
+                setCascadePlan(err.cascade);
+            } else {
+                setError(err.message || 'Regeneration cascade failed');
+                if (err.code === 'INSUFFICIENT_CREDITS') openPricingModal();
+            }
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
     // ── Cancel ──
     const handleCancel = async () => {
         // For SSE mode, abort the fetch request
@@ -813,6 +977,16 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
                 onCancel={() => setShowStrategyDialog(false)}
             />
 
+            {/* Regeneration Cascade Dialog */}
+            <CascadeDialog
+                plan={cascadePlan}
+                shotLabels={Object.fromEntries(sortedShots.map(s => [s.shot_id, `S${s.scene_id}.${s.shot_number}`]))}
+                loading={isPlanningCascade}
+                onToggleFreeze={(freeze) => cascadePlan && handlePreviewCascade(cascadePlan.from_shot_id, freeze)}
+                onConfirm={handleConfirmCascade}
+                onCancel={() => setCascadePlan(null)}
+            />
+
             {/* Error */}
             {error && (
                 <div className="bg-red-900/20 border border-red-500/20 rounded-xl p-3 text-xs text-red-400 flex items-center justify-between">
@@ -898,7 +1072,7 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
                                     )}
                                     {batchVideoRunning ? (
                                         <button
-                                            onClick={() => { batchVideoAbort.current = true; }}
+                                            onClick={() => { batchVideoAbort.current = true; batchVideoAbortController.current?.abort(); }}
                                             className="px-3 py-1.5 rounded-lg text-[11px] font-bold bg-red-900/50 border border-red-500/40 text-red-300 hover:bg-red-900 transition-all flex items-center gap-1.5"
                                         >
                                             <LoaderIcon className="w-3 h-3 animate-spin" />
@@ -1042,6 +1216,18 @@ const BatchImagePanel: React.FC<BatchImagePanelProps> = ({
                                                 {/* Green dot: already generated */}
                                                 <div className="absolute top-1 right-1 w-2 h-2 rounded-full bg-green-400 border border-green-200/40 shadow" />
 
+                                                {/* Regenerate from this shot forward */}
+                                                {projectId && !isRunning && (
+                                                    <button
+                                                        onClick={e => { e.stopPropagation(); handlePreviewCascade(shot.shot_id); }}
+                                                        disabled={isPlanningCascade}
+                                                        className="absolute top-1 right-4 opacity-0 group-hover/cell:opacity-100 transition-opacity w-6 h-6 rounded-full bg-indigo-700/90 border border-indigo-400/40 flex items-center justify-center hover:bg-indigo-600"
+                                                        title="从此镜头向后重生成"
+                                                    >
+                                                        <span className="text-white text-[9px]">🔁</span>
+                                                    </button>
+                                                )}
+
                                                 {/* Per-cell video overlay */}
                                                 {hasVideo ? (
                                                     <a
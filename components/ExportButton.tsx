@@ -3,7 +3,7 @@
  */
 import React, { useState, useRef, useEffect } from 'react';
 import { StoryboardProject } from '../types';
-import { exportProjectJson, exportShotBible, exportScenesCsv } from '../utils/exportProject';
+import { exportProjectJson, exportShotBible, exportScenesCsv, exportContinuityReport } from '../utils/exportProject';
 
 interface Props {
   project: StoryboardProject;
@@ -26,10 +26,10 @@ const ExportButton: React.FC<Props> = ({ project, lang = 'en' }) => {
     return () => document.removeEventListener('mousedown', handler);
   }, []);
 
-  const run = async (key: string, fn: () => void) => {
+  const run = async (key: string, fn: () => void | Promise<void>) => {
     setExporting(key);
     setOpen(false);
-    try { fn(); } catch (e) { console.error('Export failed:', e); }
+    try { await fn(); } catch (e) { console.error('Export failed:', e); }
     setTimeout(() => setExporting(null), 1500);
   };
 
@@ -55,6 +55,20 @@ const ExportButton: React.FC<Props> = ({ project, lang = 'en' }) => {
       desc: isZh ? '适合导入电子表格' : 'Import into spreadsheets',
       fn: () => exportScenesCsv(project),
     },
+    {
+      key: 'continuity-html',
+      icon: '🎞️',
+      label: isZh ? '场记连戏报告 (HTML)' : 'Continuity Log (HTML)',
+      desc: isZh ? '逐镜头服装、道具、方向与违规，可打印' : 'Per-shot wardrobe, props, direction & violations — printable',
+      fn: () => exportContinuityReport(project, 'html'),
+    },
+    {
+      key: 'continuity-pdf',
+      icon: '🧾',
+      label: isZh ? '场记连戏报告 (PDF)' : 'Continuity Log (PDF)',
+      desc: isZh ? '适合附在审阅邮件中' : 'For attaching to review emails',
+      fn: () => exportContinuityReport(project, 'pdf'),
+    },
   ];
 
   return (
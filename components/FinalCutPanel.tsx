@@ -9,7 +9,7 @@
  *  • Per-scene: background music auto-triggered via MusicGen
  *  • Timeline playhead with scrub
  *  • "Render Final Film" → calls /api/video/finalize (FFmpeg stitch)
- *  • Polling for async render job completion
+ *  • Render progress + music completion via the project event stream
  *  • Download final film
  *
  * Architecture note: all API calls go to the Express backend (/api/*).
@@ -20,6 +20,8 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { StoryboardProject, Shot, Scene } from '../types';
 import { useAppContext } from '../context/AppContext';
 import { supabase } from '../lib/supabaseClient';
+import { waitForPrediction } from '../services/pipelineEventService';
+import { usePipelineEvents } from '../hooks/usePipelineEvents';
 
 // ─── Icon helpers ────────────────────────────────────────────────────────────
 
@@ -134,7 +136,7 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
   const [activePreview, setActivePreview] = useState<string | null>(null);
   const [playingVoice, setPlayingVoice] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const renderIdRef = useRef<string | null>(null);
 
   // Build tracks from project on mount / project change
   useEffect(() => {
@@ -289,7 +291,7 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
       const res = await fetch(`${getApiBase()}/api/audio/generate-music`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json', ...await getAuthHeader() },
-        body: JSON.stringify({ vibe, duration: Math.max(10, Math.ceil(dur)) }),
+        body: JSON.stringify({ vibe, duration: Math.max(10, Math.ceil(dur)), project_id: project.id }),
       });
 
       if (!res.ok) {
@@ -304,51 +306,40 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
           : st
       ));
 
-      // Start polling for music completion
-      pollMusicPrediction(sceneNum, data.prediction_id);
+      // Completion is announced on the project event stream
+      awaitMusicPrediction(sceneNum, data.prediction_id);
     } catch (err: any) {
       setSceneTracks(prev => prev.map(st =>
         st.scene_number === sceneNum ? { ...st, music_status: 'error', music_error: err.message } : st
       ));
     }
-  }, [sceneTracks, tracks, getAuthHeader]);
+  }, [sceneTracks, tracks, getAuthHeader, project.id]);
 
-  const pollMusicPrediction = useCallback((sceneNum: number, predId: string) => {
-    const poll = async () => {
-      try {
-        const res = await fetch(`${getApiBase()}/api/replicate/predictions/${predId}`, {
-          headers: await getAuthHeader(),
-        });
-        if (!res.ok) throw new Error('Poll failed');
-        const data = await res.json();
-
-        if (data.status === 'succeeded') {
-          const musicUrl = Array.isArray(data.output) ? data.output[0] : data.output;
-          setSceneTracks(prev => prev.map(st =>
-            st.scene_number === sceneNum
-              ? { ...st, music_status: 'done', music_url: musicUrl }
-              : st
-          ));
-        } else if (data.status === 'failed' || data.status === 'canceled') {
-          setSceneTracks(prev => prev.map(st =>
-            st.scene_number === sceneNum
-              ? { ...st, music_status: 'error', music_error: data.error || 'Music generation failed' }
-              : st
-          ));
-        } else {
-          // Still processing — poll again in 3s
-          pollRef.current = setTimeout(poll, 3000);
-        }
-      } catch (err: any) {
+  const awaitMusicPrediction = useCallback(async (sceneNum: number, predId: string) => {
+    try {
+      const data = await waitForPrediction(project.id, predId);
+      if (data.status === 'succeeded') {
+        const musicUrl = Array.isArray(data.output) ? data.output[0] : data.output;
+        setSceneTracks(prev => prev.map(st =>
+          st.scene_number === sceneNum
+            ? { ...st, music_status: 'done', music_url: musicUrl }
+            : st
+        ));
+      } else {
         setSceneTracks(prev => prev.map(st =>
           st.scene_number === sceneNum
-            ? { ...st, music_status: 'error', music_error: err.message }
+            ? { ...st, music_status: 'error', music_error: data.error || 'Music generation failed' }
             : st
         ));
       }
-    };
-    poll();
-  }, [getAuthHeader]);
+    } catch (err: any) {
+      setSceneTracks(prev => prev.map(st =>
+        st.scene_number === sceneNum
+          ? { ...st, music_status: 'error', music_error: err.message }
+          : st
+      ));
+    }
+  }, [project.id]);
 
   const generateAllMusic = useCallback(async () => {
     const needsMusic = sceneTracks.filter(st => st.music_status === 'idle');
@@ -359,7 +350,20 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
 
   // ── Render Final Film ─────────────────────────────────────────────────────
 
+  // Stitcher progress for the render this panel started (matched by render_id)
+  usePipelineEvents(project.id, (m) => {
+    if (m.type !== 'render_progress' || m.data.render_id !== renderIdRef.current) return;
+    if (m.data.status === 'rendering') {
+      setRenderProgress(prev => Math.max(prev, m.data.progress));
+    } else if (m.data.status === 'failed') {
+      setRenderStatus('error');
+      setRenderError(m.data.error || 'Render job failed');
+    }
+  });
+
   const renderFinalFilm = useCallback(async () => {
+    const renderId = crypto.randomUUID();
+    renderIdRef.current = renderId;
     setRenderStatus('rendering');
     setRenderError(null);
     setRenderProgress(10);
@@ -392,6 +396,7 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
         headers: { 'Content-Type': 'application/json', ...await getAuthHeader() },
         body: JSON.stringify({
           project_id: project.id || `project_${Date.now()}`,
+          render_id: renderId,
           segments,
           background_music: bgMusic ? { url: bgMusic, volume: 0.3, loop: true } : undefined,
           transitions: { type: 'crossfade', duration: 0.5 },
@@ -405,17 +410,12 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
       }
 
       const data = await res.json();
-      setRenderProgress(60);
+      setRenderJobId(data.job_id || null);
 
       if (data.output_url) {
-        // Synchronous result
         setRenderUrl(data.output_url);
         setRenderStatus('done');
         setRenderProgress(100);
-      } else if (data.job_id) {
-        // Async job — poll
-        setRenderJobId(data.job_id);
-        pollRenderJob(data.job_id);
       } else {
         // Playlist / fallback — use first video
         const fallback = data.video_urls?.[0] || segments[0]?.video_url || null;
@@ -430,37 +430,6 @@ const FinalCutPanel: React.FC<FinalCutPanelProps> = ({ project, lang = 'en' }) =
     }
   }, [tracks, sceneTracks, project.id, getAuthHeader]);
 
-  const pollRenderJob = useCallback((jobId: string) => {
-    const poll = async () => {
-      try {
-        const res = await fetch(`${getApiBase()}/api/video/status/${jobId}`, {
-          headers: await getAuthHeader(),
-        });
-        if (!res.ok) throw new Error('Status poll failed');
-        const data = await res.json();
-
-        setRenderProgress(data.progress ?? 75);
-
-        if (data.status === 'succeeded' || data.output_url) {
-          setRenderUrl(data.output_url);
-          setRenderStatus('done');
-          setRenderProgress(100);
-        } else if (data.status === 'failed') {
-          throw new Error(data.error || 'Render job failed');
-        } else {
-          pollRef.current = setTimeout(poll, 4000);
-        }
-      } catch (err: any) {
-        setRenderStatus('error');
-        setRenderError(err.message);
-      }
-    };
-    poll();
-  }, [getAuthHeader]);
-
-  // Cleanup polling on unmount
-  useEffect(() => () => { if (pollRef.current) clearTimeout(pollRef.current); }, []);
-
   // ── Voice playback ────────────────────────────────────────────────────────
 
   const playVoice = (url: string, shotId: string) => {
@@ -4,6 +4,7 @@ import { generateStoryboard } from '../services/geminiService';
 import { StoryboardProject, Scene, Language } from '../types';
 import { supabase } from '../lib/supabaseClient';
 import { t } from '../i18n';
+import { BUILTIN_STRUCTURE_TEMPLATES } from '../lib/storyStructure';
 import {
   buildConsistencyProfile,
   composeConsistentPrompt,
@@ -230,6 +231,7 @@ const OneClickDirector: React.FC<Props> = ({ onBack }) => {
   const [scriptInput, setScriptInput] = useState('');
   const [sceneCount, setSceneCount] = useState(4);
   const [visualStyle, setVisualStyle] = useState('cinematic');
+  const [structureTemplate, setStructureTemplate] = useState('');
 
   // Pipeline state
   const [currentStep, setCurrentStep] = useState<PipelineStep>('idle');
@@ -528,7 +530,11 @@ const OneClickDirector: React.FC<Props> = ({ onBack }) => {
         settings.lang as Language,
         settings.generationMode || 'storyboard',
         undefined,
-        sceneCount
+        sceneCount,
+        undefined,
+        undefined,
+        undefined,
+        structureTemplate || undefined
       );
       
       setProject(storyData);
@@ -771,6 +777,21 @@ const OneClickDirector: React.FC<Props> = ({ onBack }) => {
               </div>
             </div>
 
+            {/* Story Structure */}
+            <div>
+              <label className="block text-sm font-medium text-white/60 mb-2">{t(settings.lang, 'structureTemplateLabel')}</label>
+              <select
+                value={structureTemplate}
+                onChange={e => setStructureTemplate(e.target.value)}
+                className="w-full bg-white/5 border border-white/5 rounded-xl px-3 py-2.5 text-sm text-white/80 focus:border-amber-500/50 outline-none"
+              >
+                <option value="" className="bg-slate-900">{t(settings.lang, 'structureTemplateNone')}</option>
+                {BUILTIN_STRUCTURE_TEMPLATES.map(tpl => (
+                  <option key={tpl.id} value={tpl.id} className="bg-slate-900">{tpl.label}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Launch Button */}
             <button
               onClick={runPipeline}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { StoryboardProject, Scene, MODEL_COSTS, CREDIT_COSTS, MODEL_MULTIPLIERS, CREDIT_PACKS, BUSINESS_PLANS, API_PLANS, BusinessPlan, APIPlan } from '../types';
+import { StoryboardProject, Scene, MODEL_COSTS, CREDIT_COSTS, MODEL_MULTIPLIERS, CREDIT_PACKS, BUSINESS_PLANS, API_PLANS, ADDON_SERVICES, BusinessPlan, APIPlan } from '../types';
 import { useAppContext } from '../context/AppContext';
 import { LoaderIcon, CheckIcon } from './IconComponents';
 import { supabase } from '../lib/supabaseClient';
@@ -136,6 +136,41 @@ const PricingModal: React.FC<PricingModalProps> = ({ isOpen, onClose, onUpgrade
     }
   };
 
+  const handleBuyAddon = async (addonId: keyof typeof ADDON_SERVICES) => {
+    const btnKey = `addon-${addonId}`;
+    try {
+      setProcessingButton(btnKey);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        showToast(t(lang, 'loginToBuy'), 'error');
+        return;
+      }
+
+      showToast(t(lang, 'redirecting'), 'info');
+
+      const response = await fetch('/api/billing/addon-checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ addonId }),
+      });
+
+      const responseData = await response.json();
+      if (!response.ok) throw new Error(responseData.error || 'Request failed');
+
+      if (responseData.url) {
+        window.location.href = responseData.url;
+      }
+    } catch (e: any) {
+      showToast(`${t(lang, 'paymentFailed')}: ${e.message}`, 'error');
+    } finally {
+      setProcessingButton(null);
+    }
+  };
+
   const currentTabClass = (mode: typeof viewMode) => 
     `px-6 py-2 rounded-lg font-medium transition-all ${viewMode === mode ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/30' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`;
 
@@ -292,6 +327,20 @@ const PricingModal: React.FC<PricingModalProps> = ({ isOpen, onClose, onUpgrade
                   </div>
                 ))}
               </div>
+              {/* Priority Queue add-on: raises the fair-share tier of every generation call */}
+              <div className="mt-6 bg-slate-950/50 rounded-2xl p-6 border border-slate-800 flex flex-col md:flex-row justify-between items-center gap-4">
+                <div className="text-center md:text-left">
+                  <h4 className="text-lg font-bold text-white">{isZh ? ADDON_SERVICES.priority_queue.nameZh : ADDON_SERVICES.priority_queue.name}</h4>
+                  <p className="text-xs text-slate-500">{isZh ? ADDON_SERVICES.priority_queue.description : 'Your generations are scheduled ahead of the shared queue'}</p>
+                </div>
+                <button
+                  disabled={processingButton === 'addon-priority_queue'}
+                  onClick={() => handleBuyAddon('priority_queue')}
+                  className="px-8 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all whitespace-nowrap flex items-center justify-center gap-2"
+                >
+                  {processingButton === 'addon-priority_queue' ? <LoaderIcon className="w-4 h-4 animate-spin"/> : `$${ADDON_SERVICES.priority_queue.price} · ${t(lang, 'buyNow')}`}
+                </button>
+              </div>
             </div>
           )}
 
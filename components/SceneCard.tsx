@@ -90,6 +90,7 @@ const ShotInspectorPanel = ({ scene }: { scene: any }) => {
   const failReasons = Array.isArray(scene.verifier_fail_reasons) ? scene.verifier_fail_reasons : [];
   const canonical   = scene.canonical_prompt || scene.image_prompt || '';
   const rewrites    = scene.rewrite_count ?? 0;
+  const ruleHits    = Array.isArray(scene.director_rule_violations) ? scene.director_rule_violations : [];
 
   // SDC fields
   const narrativeFn   = scene.narrative_function || '';
@@ -102,7 +103,7 @@ const ShotInspectorPanel = ({ scene }: { scene: any }) => {
   const hasSdc = !!(narrativeFn || newInfo || visualDelta || dupRisk != null);
   if (!beat && score == null && !hasSdc) return null;
 
-  const scoreMax   = 40; // upgraded from 35 to 40 (8 dims × 5)
+  const scoreMax   = scene.verifier_max_score ?? 40; // 8 dims × 5 unless a weighted profile applies
   const scoreColor = passes === true  ? 'text-emerald-400 border-emerald-500/40'
                    : passes === false ? 'text-red-400 border-red-500/40'
                    : 'text-slate-400 border-slate-600/40';
@@ -135,6 +136,9 @@ const ShotInspectorPanel = ({ scene }: { scene: any }) => {
           {score != null && (
             <span className={`text-[10px] font-mono font-bold px-1.5 py-0.5 rounded border ${scoreColor}`}>
               {score}/{scoreMax} {passes === true ? '✓' : passes === false ? '✗' : ''}
+              {scene.verifier_profile && scene.verifier_profile !== 'dialogue_drama' && (
+                <span className="ml-1 font-normal text-slate-500">{scene.verifier_profile.replace(/_/g, ' ')}</span>
+              )}
             </span>
           )}
           {/* Duplicate risk badge */}
@@ -274,6 +278,21 @@ const ShotInspectorPanel = ({ scene }: { scene: any }) => {
             </div>
           )}
 
+          {/* Director rules (bannedElements / avoidPhrases) */}
+          {ruleHits.length > 0 && (
+            <div className={`${scene.director_rules_blocked ? 'bg-red-950/30 border-red-500/20' : 'bg-amber-950/20 border-amber-500/20'} border rounded p-2`}>
+              <p className={`text-[9px] font-mono uppercase tracking-widest mb-1 ${scene.director_rules_blocked ? 'text-red-400' : 'text-amber-400'}`}>
+                Director Rules {scene.director_rules_blocked ? '— Blocked' : '— Auto-repaired'}
+              </p>
+              {ruleHits.map((v: any, idx: number) => (
+                <p key={idx} className="text-[10px] text-slate-300">
+                  • <span className="font-mono">{v.source === 'avoidPhrases' ? 'AVOID' : 'BANNED'}</span> “{v.term}” in {v.field.replace(/_/g, ' ')}
+                  <span className={v.repaired ? 'text-emerald-400' : 'text-red-400'}> {v.repaired ? '✓ removed' : '✗ unrepaired'}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* Approved canonical prompt */}
           {canonical && (
             <div className="bg-slate-950/60 border border-slate-700/20 rounded p-2">
@@ -1,10 +1,14 @@
 /**
  * ShotEditDrawer — Slide-out panel for editing a single shot's fields.
- * Supports field-level locking, AI rewrite, and inline editing.
+ * Supports field-level locking, AI rewrite, inline editing, and a prompt diff
+ * against earlier revisions.
  */
 import React, { useState, useCallback } from 'react';
-import { Shot, CameraType, CameraMovement, TimeOfDay, LocationType } from '../types';
+import { Shot, ShotRevision, Scene, CameraType, CameraMovement, TimeOfDay, LocationType } from '../types';
 import { LoaderIcon } from './IconComponents';
+import { diffShotPrompts } from '../services/shotService';
+import { useAppContext } from '../context/AppContext';
+import type { PromptDiffResult, PromptSectionDiff } from '../lib/promptDiff';
 
 interface ShotEditDrawerProps {
     shot: Shot;
@@ -16,8 +20,28 @@ interface ShotEditDrawerProps {
         character_anchor: string;
         scene_title: string;
     };
+    /** Earlier versions of this shot, oldest first (for the prompt diff) */
+    revisions?: ShotRevision[];
+    scene?: Scene;
+    previousShot?: Shot;
 }
 
+const DIFF_STATUS_STYLE: Record<PromptSectionDiff['status'], string> = {
+    added: 'text-emerald-300 border-emerald-500/30 bg-emerald-500/10',
+    removed: 'text-rose-300 border-rose-500/30 bg-rose-500/10',
+    changed: 'text-sky-300 border-sky-500/30 bg-sky-500/10',
+    unchanged: 'text-slate-500 border-slate-700 bg-slate-800/50',
+};
+
+const DIFF_ORIGIN_LABEL: Record<PromptSectionDiff['origin'], string> = {
+    canonical_prompt: 'SDC 剧本契约',
+    identity_lock: '身份锁 Identity',
+    continuity_locks: '连续性锁 Locks',
+    style: '风格 Style',
+    negative_prompt: '负面词 Negative',
+    prompt: '提示词 Prompt',
+};
+
 // Field definitions for rendering the edit form
 type FieldDef = {
     key: keyof Shot;
@@ -32,7 +56,7 @@ const FIELD_DEFS: FieldDef[] = [
     // Camera & Movement
     { key: 'camera', label: '机位 Camera', group: '📷 Camera', type: 'select', options: ['wide', 'medium', 'close', 'ecu', 'over-shoulder', 'pov', 'aerial', 'two-shot'] },
     { key: 'lens', label: '镜头 Lens', group: '📷 Camera', type: 'text', placeholder: 'e.g. 35mm anamorphic' },
-    { key: 'movement', label: '运镜 Movement', group: '📷 Camera', type: 'select', options: ['static', 'push-in', 'pull-out', 'pan-left', 'pan-right', 'tilt-up', 'tilt-down', 'dolly', 'tracking', 'crane', 'handheld', 'steadicam', 'whip-pan', 'zoom'] },
+    { key: 'movement', label: '运镜 Movement', group: '📷 Camera', type: 'select', options: ['static', 'push-in', 'pull-out', 'pan-left', 'pan-right', 'tilt-up', 'tilt-down', 'dolly', 'tracking', 'crane', 'handheld', 'steadicam', 'whip-pan', 'zoom', 'zoom-out'] },
     { key: 'composition', label: '构图 Composition', group: '📷 Camera', type: 'text', placeholder: 'Rule of thirds, center frame...' },
     { key: 'duration_sec', label: '时长 (秒)', group: '📷 Camera', type: 'number' },
 
@@ -70,7 +94,8 @@ const FIELD_DEFS: FieldDef[] = [
     { key: 'spectacle_budget', label: '允许AI发散创作程度 Spectacle Budget (0-100)', group: '🔒 Consistency', type: 'number' },
 ];
 
-const ShotEditDrawer: React.FC<ShotEditDrawerProps> = ({ shot, onClose, onSave, onRewrite, projectContext }) => {
+const ShotEditDrawer: React.FC<ShotEditDrawerProps> = ({ shot, onClose, onSave, onRewrite, projectContext, revisions = [], scene, previousShot }) => {
+    const { settings } = useAppContext();
     // Local editable state (copy of shot fields)
     const [draft, setDraft] = useState<Record<string, any>>(() => {
         const d: Record<string, any> = {};
@@ -85,6 +110,11 @@ const ShotEditDrawer: React.FC<ShotEditDrawerProps> = ({ shot, onClose, onSave,
     const [selectedRewriteFields, setSelectedRewriteFields] = useState<Set<string>>(new Set());
     const [isRewriting, setIsRewriting] = useState(false);
     const [showRewritePanel, setShowRewritePanel] = useState(false);
+    const [showDiffPanel, setShowDiffPanel] = useState(false);
+    const [diffRevisionId, setDiffRevisionId] = useState(() => revisions[revisions.length - 1]?.revision_id || '');
+    const [promptDiff, setPromptDiff] = useState<PromptDiffResult | null>(null);
+    const [diffError, setDiffError] = useState('');
+    const [isDiffing, setIsDiffing] = useState(false);
 
     const toggleLock = (field: string) => {
         setLockedFields(prev => {
@@ -129,6 +159,34 @@ const ShotEditDrawer: React.FC<ShotEditDrawerProps> = ({ shot, onClose, onSave,
         }
     };
 
+    // Compares the selected revision against the shot as currently edited (unsaved draft included)
+    const handleDiff = async () => {
+        const revision = revisions.find(r => r.revision_id === diffRevisionId);
+        if (!revision) return;
+
+        const context = {
+            scene,
+            previous_shot: previousShot,
+            style: projectContext.visual_style,
+            character_anchor: projectContext.character_anchor,
+            // Compile for the model the shot is generated with, so dialect changes show up
+            image_model: settings.imageModel,
+        };
+        setIsDiffing(true);
+        setDiffError('');
+        try {
+            setPromptDiff(await diffShotPrompts({
+                from: { ...context, shot: { ...shot, ...revision.snapshot } },
+                to: { ...context, shot: { ...shot, ...draft } },
+            }));
+        } catch (e: any) {
+            setPromptDiff(null);
+            setDiffError(e?.message || 'Prompt diff failed');
+        } finally {
+            setIsDiffing(false);
+        }
+    };
+
     const updateField = (key: string, value: any) => {
         setDraft(prev => ({ ...prev, [key]: value }));
     };
@@ -162,6 +220,15 @@ const ShotEditDrawer: React.FC<ShotEditDrawerProps> = ({ shot, onClose, onSave,
                         <p className="text-xs text-slate-500">{shot.scene_title}</p>
                     </div>
                     <div className="flex gap-2">
+                        <button
+                            onClick={() => setShowDiffPanel(!showDiffPanel)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${showDiffPanel
+                                ? 'bg-sky-600/20 text-sky-400 border border-sky-500/30'
+                                : 'bg-slate-800 text-slate-400 hover:text-sky-400 hover:bg-sky-600/10'
+                                }`}
+                        >
+                            🧬 Prompt Diff
+                        </button>
                         <button
                             onClick={() => setShowRewritePanel(!showRewritePanel)}
                             className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${showRewritePanel
@@ -223,6 +290,75 @@ const ShotEditDrawer: React.FC<ShotEditDrawerProps> = ({ shot, onClose, onSave,
                     </div>
                 )}
 
+                {/* Prompt diff panel (collapsible) */}
+                {showDiffPanel && (
+                    <div className="px-5 py-3 border-b border-sky-500/20 bg-sky-900/10 shrink-0 space-y-3 max-h-[45%] overflow-y-auto animate-in fade-in slide-in-from-top-2 duration-200">
+                        <p className="text-xs text-sky-300 font-bold uppercase tracking-wider">提示词差异：历史版本 → 当前编辑</p>
+                        {revisions.length === 0 ? (
+                            <p className="text-xs text-slate-500">暂无历史版本（保存修改后可对比）</p>
+                        ) : (
+                            <div className="flex gap-2">
+                                <select
+                                    value={diffRevisionId}
+                                    onChange={e => setDiffRevisionId(e.target.value)}
+                                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:border-sky-500/50 outline-none"
+                                >
+                                    {revisions.map(r => (
+                                        <option key={r.revision_id} value={r.revision_id}>
+                                            v{r.version} · {r.change_source} · {r.changed_fields.join(', ') || r.change_description}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={handleDiff}
+                                    disabled={isDiffing || !diffRevisionId}
+                                    className={`px-4 py-2 rounded-lg text-xs font-bold transition-all flex items-center gap-1
+                                        ${isDiffing || !diffRevisionId
+                                            ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
+                                            : 'bg-sky-600 hover:bg-sky-500 text-white'}`}
+                                >
+                                    {isDiffing && <LoaderIcon className="w-3 h-3 animate-spin" />}
+                                    {isDiffing ? '对比中...' : '对比'}
+                                </button>
+                            </div>
+                        )}
+                        {diffError && <p className="text-xs text-rose-400">{diffError}</p>}
+                        {promptDiff && (
+                            <div className="space-y-2">
+                                <p className="text-[11px] text-slate-400">{promptDiff.summary}</p>
+                                {promptDiff.sections.filter(s => s.status !== 'unchanged').map(s => (
+                                    <div key={s.key} className="bg-slate-950 border border-slate-800 rounded-lg p-2 space-y-1">
+                                        <div className="flex items-center gap-1.5 flex-wrap">
+                                            <span className={`text-[9px] uppercase font-bold px-1.5 py-0.5 rounded border ${DIFF_STATUS_STYLE[s.status]}`}>{s.status}</span>
+                                            <span className="text-[11px] font-bold text-white">{s.label}</span>
+                                            <span className="text-[10px] text-slate-500">{DIFF_ORIGIN_LABEL[s.origin]}</span>
+                                        </div>
+                                        {s.removed_terms.length > 0 && (
+                                            <p className="text-[10px] font-mono text-rose-300/80 line-through">− {s.removed_terms.join(' · ')}</p>
+                                        )}
+                                        {s.added_terms.length > 0 && (
+                                            <p className="text-[10px] font-mono text-emerald-300/80">+ {s.added_terms.join(' · ')}</p>
+                                        )}
+                                        <div className="flex flex-wrap gap-1">
+                                            {s.sources.map(src => (
+                                                <span
+                                                    key={src}
+                                                    className={`text-[9px] px-1.5 py-0.5 rounded border ${s.attribution === 'exact'
+                                                        ? 'text-amber-300 border-amber-500/30 bg-amber-500/10'
+                                                        : 'text-slate-400 border-slate-700 bg-slate-800'}`}
+                                                    title={s.attribution === 'exact' ? '单独修改此字段即会改变该段' : '仅多个字段共同作用时改变'}
+                                                >
+                                                    ← {src}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Scrollable form */}
                 <div className="flex-1 overflow-y-auto px-5 py-4 space-y-6">
                     {Object.entries(groups).map(([groupName, fields]) => (
@@ -4,7 +4,7 @@
  * Includes generate/reroll/edit/download/video buttons per image.
  */
 import React, { useState, useRef } from 'react';
-import { Shot, ShotImage, ImageModel, AspectRatio, VideoStyle, MODEL_COSTS, StoryEntity, ContinuityConfig, ContinuityStrictness } from '../types';
+import { Shot, ShotImage, ImageModel, AspectRatio, VideoStyle, MODEL_COSTS, StoryEntity, ContinuityConfig, ContinuityStrictness, ShotCandidateHistory, StoryboardCandidate } from '../types';
 import {
     generateShotImage,
     editShotImage,
@@ -12,8 +12,13 @@ import {
     validateStoryboardShot,
     approveStoryboardShot,
     regenerateStoryboardShot,
+    getStoryboardCandidates,
+    promoteStoryboardCandidate,
 } from '../services/shotImageService';
-import { startVideoTask, checkPredictionStatus } from '../services/replicateService';
+import { startVideoTask } from '../services/replicateService';
+import { waitForPrediction } from '../services/pipelineEventService';
+import { usePipelineEvents } from '../hooks/usePipelineEvents';
+import { useReplicateQueueStatus } from '../hooks/useReplicateQueueStatus';
 import { useAppContext } from '../context/AppContext';
 import { LoaderIcon } from './IconComponents';
 import ShotImageEditor from './ShotImageEditor';
@@ -48,7 +53,7 @@ interface ShotImageGridProps {
 const ShotImageGrid: React.FC<ShotImageGridProps> = ({
     shot, images, onImagesChange, characterAnchor, visualStyle, projectId, storyEntities, referenceImageDataUrl, onSetGlobalAnchor, sceneDescription
 }) => {
-    const { settings, userState, isAuthenticated, hasEnoughCredits, openPricingModal, refreshBalance, deductCredits } = useAppContext();
+    const { settings, userState, isAuthenticated, hasEnoughCredits, openPricingModal, refreshBalance, deductCredits, releaseCredits } = useAppContext();
     const [isGenerating, setIsGenerating] = useState(false);
     const [editingImage, setEditingImage] = useState<ShotImage | null>(null);
     const [error, setError] = useState<string | null>(null);
@@ -68,8 +73,44 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
     const [validationReport, setValidationReport] = useState<any | null>(null);
     const [isValidating, setIsValidating] = useState(false);
     const [isApproving, setIsApproving] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [candidateHistory, setCandidateHistory] = useState<ShotCandidateHistory | null>(null);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+    const [promotingCandidateId, setPromotingCandidateId] = useState<string | null>(null);
     const [regenMode, setRegenMode] = useState<'regenerate_same_shot_keep_bible' | 'regenerate_same_shot_change_framing' | 'regenerate_same_shot_fix_face' | 'regenerate_same_shot_fix_costume' | 'regenerate_same_shot_fix_scene' | 'regenerate_from_shot_forward'>('regenerate_same_shot_keep_bible');
 
+    // While this shot is generating, show where the user's work sits in the fair-share queue;
+    // the task that finishes last bounds how long the user waits
+    const queueUpdates = useReplicateQueueStatus(isGenerating || generatingVideoForImage !== null);
+    const queueTask = Object.values(queueUpdates).reduce<typeof queueUpdates[string] | null>(
+        (latest, u) => (!latest || u.etaMs > latest.etaMs ? u : latest), null);
+    const queueLabel = queueTask
+        ? `${queueTask.status === 'queued' ? `排队第 ${queueTask.position} 位 · ` : ''}约 ${Math.max(1, Math.ceil(queueTask.etaMs / 1000))} 秒`
+        : null;
+
+    // Keep the storyboard badge in sync with validations/approvals made elsewhere (other tabs, batch runs)
+    usePipelineEvents(projectId, (m) => {
+        if (m.type === 'candidate_registered' && m.data.shot_id === shot.shot_id) {
+            setValidationReport((prev: any) => ({
+                ...(prev || {}),
+                continuity_score: m.data.continuity_score,
+                narrative_score: m.data.narrative_score,
+                visual_match_score: m.data.visual_match_score,
+                violation_tags: m.data.violations,
+                approved: false,
+            }));
+        } else if (m.type === 'shot_approved' && m.data.shot_id === shot.shot_id) {
+            setValidationReport((prev: any) => ({ ...(prev || {}), approved: true }));
+        } else if (m.type === 'shot_regenerated' && m.data.shot_id === shot.shot_id) {
+            setValidationReport((prev: any) => (prev ? { ...prev, approved: false } : prev));
+        } else if (m.type === 'candidate_promoted' && m.data.shot_id === shot.shot_id) {
+            setValidationReport((prev: any) => ({ ...(prev || {}), approved: true }));
+        }
+        if ('shot_id' in m.data && m.data.shot_id === shot.shot_id && showHistory && m.type !== 'prediction_updated') {
+            loadCandidateHistory();
+        }
+    });
+
     const continuityPayload: ContinuityConfig = {
         strictness,
         lockCharacter,
@@ -155,12 +196,10 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
                 }
             );
 
-            // Poll for completion
-            let result = prediction;
-            while (['starting', 'processing'].includes(result.status)) {
-                await new Promise(r => setTimeout(r, 3000));
-                result = await checkPredictionStatus(result.id);
-            }
+            // Wait for completion via the project event stream
+            const result = ['starting', 'processing'].includes(prediction.status)
+                ? await waitForPrediction(projectId, prediction.id)
+                : prediction;
 
             if (result.status === 'succeeded' && result.output) {
                 const url = Array.isArray(result.output) ? result.output[0] : result.output;
@@ -202,6 +241,8 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
                 aspect_ratio: settings.aspectRatio,
                 style: settings.videoStyle,
                 seed: shot.seed_hint,
+                // A repeat generation for this shot wants a new take, not the cached one
+                cache: images.length > 0 ? 'bypass' : undefined,
                 character_anchor: characterAnchor,
                 reference_policy: shot.reference_policy || (images.length > 0 ? 'previous-frame' : 'anchor'),
                 project_id: projectId,
@@ -244,6 +285,8 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
             };
 
             onImagesChange([...images, newImage]);
+            // Served from the generation cache → the backend reserved nothing
+            if (result.cache?.hit && !userState.isAdmin) releaseCredits(imageCost);
             refreshBalance().catch(() => { });
         } catch (e: any) {
             await refreshBalance();
@@ -358,6 +401,70 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
         }
     };
 
+    const loadCandidateHistory = async () => {
+        if (!projectId) return;
+        setIsLoadingHistory(true);
+        try {
+            setCandidateHistory(await getStoryboardCandidates({ project_id: projectId, shot_id: shot.shot_id }));
+        } catch (e: any) {
+            setError(e.message || 'Failed to load candidate history');
+        } finally {
+            setIsLoadingHistory(false);
+        }
+    };
+
+    const handleToggleHistory = () => {
+        const next = !showHistory;
+        setShowHistory(next);
+        if (next) loadCandidateHistory();
+    };
+
+    // Roll the shot back to an earlier take: it becomes the approved frame and the primary image
+    const handlePromoteCandidate = async (candidate: StoryboardCandidate) => {
+        if (!projectId || !candidate.image_url) return;
+        setPromotingCandidateId(candidate.candidate_id);
+        setError(null);
+        try {
+            const result = await promoteStoryboardCandidate({
+                project_id: projectId,
+                shot_id: shot.shot_id,
+                candidate_id: candidate.candidate_id,
+                reason: `rollback to take from ${new Date(candidate.created_at).toLocaleString()}`,
+            });
+            setCandidateHistory(result.history);
+            setValidationReport({
+                continuity_score: candidate.continuity_score,
+                narrative_score: candidate.narrative_score,
+                visual_match_score: candidate.visual_match_score,
+                violation_tags: candidate.violation_tags,
+                approved: true,
+            });
+
+            const url = candidate.image_url;
+            const existing = images.find(i => i.url === url);
+            const restored: ShotImage[] = existing
+                ? images.map(i => ({ ...i, is_primary: i.id === existing.id }))
+                : [
+                    {
+                        id: crypto.randomUUID(),
+                        shot_id: shot.shot_id,
+                        project_id: projectId,
+                        url,
+                        is_primary: true,
+                        status: 'succeeded',
+                        label: `Restored v${result.version}`,
+                        created_at: new Date().toISOString(),
+                    },
+                    ...images.map(i => ({ ...i, is_primary: false })),
+                ];
+            onImagesChange(restored);
+        } catch (e: any) {
+            setError(e.message || 'Rollback failed');
+        } finally {
+            setPromotingCandidateId(null);
+        }
+    };
+
     const handleRegenerateStoryboard = async () => {
         if (!projectId) return;
         setError(null);
@@ -438,6 +545,13 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
                         >
                             Regenerate
                         </button>
+                        <button
+                            onClick={handleToggleHistory}
+                            className={`px-2.5 py-1 rounded text-white text-[11px] font-semibold transition-colors
+                                ${showHistory ? 'bg-slate-500' : 'bg-slate-700/70 hover:bg-slate-600'}`}
+                        >
+                            History{candidateHistory ? ` (${candidateHistory.candidates.length})` : ''}
+                        </button>
                         {validationReport && (
                             <div className="flex flex-col gap-0.5 w-full mt-1">
                                 <span className="text-[11px] text-slate-300">
@@ -455,6 +569,75 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
                                         ))}
                                     </div>
                                 )}
+                                {validationReport.must_show_results?.some((r: any) => !r.pass) && (
+                                    <ul className="text-[10px] text-slate-400 space-y-0.5">
+                                        {validationReport.must_show_results.filter((r: any) => !r.pass).map((r: any) => (
+                                            <li key={r.item} title={r.evidence}>
+                                                <span className="text-red-400">✗</span> {r.kind === 'required_action' ? 'Action: ' : ''}{r.item}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                        {showHistory && (
+                            <div className="w-full mt-1 space-y-1.5">
+                                {isLoadingHistory && !candidateHistory && (
+                                    <span className="text-[10px] text-slate-400">Loading history...</span>
+                                )}
+                                {candidateHistory && candidateHistory.candidates.length === 0 && (
+                                    <span className="text-[10px] text-slate-500">No validated candidates yet.</span>
+                                )}
+                                {candidateHistory?.candidates.map(c => (
+                                    <div
+                                        key={c.candidate_id}
+                                        className={`flex items-start gap-2 p-1.5 rounded border ${c.is_approved ? 'border-emerald-500/60 bg-emerald-900/20' : 'border-slate-700/60 bg-slate-800/40'}`}
+                                    >
+                                        {c.image_url ? (
+                                            <img src={c.image_url} alt="" className="w-16 h-9 object-cover rounded flex-shrink-0" />
+                                        ) : (
+                                            <div className="w-16 h-9 rounded bg-slate-800 flex-shrink-0" />
+                                        )}
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-[10px] text-slate-400">
+                                                {new Date(c.created_at).toLocaleString()}
+                                                {c.is_latest && <span className="ml-1.5 text-indigo-300">latest</span>}
+                                                {c.is_approved && <span className="ml-1.5 text-emerald-300">approved</span>}
+                                            </div>
+                                            <div className="text-[11px] text-slate-300">
+                                                C:<span className="font-bold ml-0.5">{c.continuity_score}</span>
+                                                {' '}N:<span className="font-bold ml-0.5">{c.narrative_score}</span>
+                                                {' '}V:<span className="font-bold ml-0.5">{c.visual_match_score}</span>
+                                                {' '}· {c.overall_score}
+                                            </div>
+                                            {c.violation_tags.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mt-0.5">
+                                                    {c.violation_tags.map(tag => (
+                                                        <span key={tag} className="px-1 py-0.5 rounded bg-red-900/40 text-red-300 text-[9px]">{tag.replace(/_/g, ' ')}</span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                        {!c.is_approved && c.image_url && (
+                                            <button
+                                                onClick={() => handlePromoteCandidate(c)}
+                                                disabled={!!promotingCandidateId}
+                                                className="px-2 py-0.5 rounded bg-emerald-800/70 hover:bg-emerald-700 text-white text-[10px] font-semibold disabled:opacity-50 flex-shrink-0"
+                                            >
+                                                {promotingCandidateId === c.candidate_id ? 'Restoring...' : 'Restore'}
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                {candidateHistory && candidateHistory.regeneration_jobs.length > 0 && (
+                                    <div className="text-[10px] text-slate-500">
+                                        {candidateHistory.regeneration_jobs.slice(-5).reverse().map(j => (
+                                            <div key={j.id}>
+                                                v{j.from_version}→v{j.to_version} · {j.mode.replace('regenerate_same_shot_', '').replace(/_/g, ' ')}{j.reason ? ` — ${j.reason}` : ''}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         )}
                     </div>
@@ -484,6 +667,7 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
                         {isGenerating && <LoaderIcon className="w-3 h-3 animate-spin" />}
                         {isGenerating ? '生成中...' : `🎨 生成图片 (${imageCost} credits)`}
                     </button>
+                    {isGenerating && queueLabel && <p className="text-[10px] text-slate-500 mt-2">{queueLabel}</p>}
                 </div>
             )}
 
@@ -546,6 +730,7 @@ const ShotImageGrid: React.FC<ShotImageGridProps> = ({
                         <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-2">
                             <LoaderIcon className="w-8 h-8 text-sky-400 animate-spin" />
                             <span className="text-xs text-slate-300">{generatingVideoForImage === primaryImage.id ? '视频生成中...' : '图片生成中...'}</span>
+                            {queueLabel && <span className="text-[10px] text-slate-400">{queueLabel}</span>}
                         </div>
                     )}
                 </div>
@@ -83,6 +83,13 @@ const ShotCard: React.FC<{
                 <span className="text-xs">{moveEmoji} {shot.movement}</span>
                 <span className="text-xs text-slate-500 font-mono">{shot.duration_sec}s</span>
                 <span className="text-xs text-slate-400 truncate flex-1">{shot.action}</span>
+                <button
+                    onClick={e => { e.stopPropagation(); onEdit(); }}
+                    className="text-xs text-slate-500 hover:text-indigo-300 px-1.5 py-0.5 rounded hover:bg-slate-800 transition-all"
+                    title="编辑镜头 / 提示词差异"
+                >
+                    ✏️
+                </button>
                 <svg className={`w-4 h-4 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                 </svg>
@@ -201,7 +208,8 @@ const SceneSection: React.FC<{
     // ★ Voice / timing props (populated after ElevenLabs generation)
     voiceUrl?: string;
     voiceTiming?: { duration_sec: number; timing_blocks: Array<{ text: string; start_sec: number; end_sec: number }>; timing_source: string; voice_id_used: string };
-}> = ({ scene, sceneIndex, shots, isGenerating, onGenerateShots, onUpdateShot, onRewriteShot, project, imagesByShot, onImagesChange, effectiveProjectId, referenceImageDataUrl, onUpdateScene, videoModel, onSetGlobalAnchor, lang, voiceUrl, voiceTiming }) => {
+    revisionsByShot: Record<string, ShotRevision[]>;
+}> = ({ scene, sceneIndex, shots, isGenerating, onGenerateShots, onUpdateShot, onRewriteShot, project, imagesByShot, onImagesChange, effectiveProjectId, referenceImageDataUrl, onUpdateScene, videoModel, onSetGlobalAnchor, lang, voiceUrl, voiceTiming, revisionsByShot }) => {
     const [expandedShots, setExpandedShots] = useState<Set<string>>(new Set());
     const [editingShot, setEditingShot] = useState<Shot | null>(null);
 
@@ -523,6 +531,23 @@ const SceneSection: React.FC<{
                     ))}
                 </div>
             )}
+
+            {editingShot && (
+                <ShotEditDrawer
+                    shot={editingShot}
+                    revisions={revisionsByShot[editingShot.shot_id] || []}
+                    scene={scene}
+                    previousShot={shots[shots.findIndex(s => s.shot_id === editingShot.shot_id) - 1]}
+                    onClose={() => setEditingShot(null)}
+                    onSave={(updates) => { onUpdateShot(editingShot.shot_id, updates); setEditingShot(null); }}
+                    onRewrite={(fields, instruction) => { onRewriteShot(editingShot, fields, instruction); setEditingShot(null); }}
+                    projectContext={{
+                        visual_style: project.visual_style,
+                        character_anchor: project.character_anchor,
+                        scene_title: scene.scene_title || '',
+                    }}
+                />
+            )}
         </div>
     );
 };
@@ -1371,6 +1396,7 @@ const ShotListView: React.FC<ShotListViewProps> = ({ project, referenceImageData
                             lang={settings.lang}
                             voiceUrl={sceneVoices[sceneNum]}
                             voiceTiming={sceneTiming[sceneNum]}
+                            revisionsByShot={revisionHistory}
                         />
                     );
                 })}
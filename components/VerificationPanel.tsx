@@ -1,6 +1,9 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { StoryboardProject, Language } from '../types';
 import { t } from '../i18n';
+import { getContinuityLedger, getShotSimilarityIndex } from '../services/shotService';
+import type { ShotSimilarityIndex } from '../lib/shotSimilarityIndex';
+import type { ContinuityLedger } from '../lib/continuityLedger';
 
 interface Props {
     project: StoryboardProject | null;
@@ -138,6 +141,45 @@ const VerificationPanel: React.FC<Props> = ({ project, lang }) => {
         repair_entries: Array<{ shot_id: string; issue: string; suggested_fix: string }>;
     } | undefined;
 
+    // Project-wide redundant shot clusters (server-side similarity index)
+    const [similarity, setSimilarity] = useState<ShotSimilarityIndex | null>(null);
+    const [similarityError, setSimilarityError] = useState<string | null>(null);
+    useEffect(() => {
+        const shots = project?.scenes || [];
+        setSimilarity(null);
+        setSimilarityError(null);
+        if (shots.length < 2) return;
+        let cancelled = false;
+        getShotSimilarityIndex({ shots })
+            .then(index => { if (!cancelled) setSimilarity(index); })
+            .catch((err: any) => { if (!cancelled) setSimilarityError(err?.message || String(err)); });
+        return () => { cancelled = true; };
+    }, [project?.scenes]);
+
+    // Prop / wardrobe state regressions (server-side continuity ledger)
+    const [ledger, setLedger] = useState<ContinuityLedger | null>(null);
+    const [ledgerError, setLedgerError] = useState<string | null>(null);
+    useEffect(() => {
+        const shots = project?.scenes || [];
+        setLedger(null);
+        setLedgerError(null);
+        const tracked = project?.prop_bible?.length || project?.costume_bible?.length
+            || project?.story_entities?.some(e => e.type === 'prop');
+        if (shots.length < 2 || !tracked) return;
+        let cancelled = false;
+        getContinuityLedger({
+            shots,
+            project_id: project?.id,
+            pins: project?.continuity_pins,
+            prop_bible: project?.prop_bible,
+            costume_bible: project?.costume_bible,
+            story_entities: project?.story_entities,
+        })
+            .then(result => { if (!cancelled) setLedger(result); })
+            .catch((err: any) => { if (!cancelled) setLedgerError(err?.message || String(err)); });
+        return () => { cancelled = true; };
+    }, [project?.scenes, project?.prop_bible, project?.costume_bible, project?.continuity_pins]);
+
     const scoreColor = passed / total >= 0.8
         ? 'text-emerald-400'
         : passed / total >= 0.5
@@ -247,6 +289,69 @@ const VerificationPanel: React.FC<Props> = ({ project, lang }) => {
                     )}
                 </div>
             )}
+
+            {/* ── Redundant shot clusters ── */}
+            {(similarity || similarityError) && (
+                <div className="mt-4 space-y-2 border-t border-slate-700/40 pt-4">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+                            {lang === 'zh' ? '重复镜头聚类' : 'Redundant Shot Clusters'}
+                        </span>
+                        {similarity && (
+                            <span className={`text-xs font-bold font-mono ${similarity.clusters.length === 0 ? 'text-emerald-400' : 'text-amber-400'}`}>
+                                {similarity.clusters.length === 0 ? '✓ NONE' : `${similarity.clusters.length} / ${similarity.shot_count} shots`}
+                            </span>
+                        )}
+                    </div>
+                    {similarityError && (
+                        <p className="text-[10px] text-rose-400">{similarityError}</p>
+                    )}
+                    {similarity?.clusters.map(cluster => (
+                        <div key={cluster.id} className="bg-amber-900/10 border border-amber-500/20 rounded-lg px-3 py-2 text-[10px] space-y-1">
+                            <p className="text-amber-300">{cluster.reason}</p>
+                            {cluster.members.map(member => (
+                                <div key={member.shot_id} className="flex gap-2">
+                                    <span className={`font-mono shrink-0 ${member.shot_id === cluster.least_valuable_shot_id ? 'text-rose-400' : 'text-slate-500'}`}>
+                                        #{member.index + 1}{member.scene_number != null ? ` · S${member.scene_number}` : ''}
+                                    </span>
+                                    <span className="text-slate-400 shrink-0">{member.removal_value}/5</span>
+                                    <span className="text-slate-600 truncate">{member.removal_reason}</span>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* ── Prop / wardrobe state regressions ── */}
+            {(ledger || ledgerError) && (
+                <div className="mt-4 space-y-2 border-t border-slate-700/40 pt-4">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">
+                            {lang === 'zh' ? '道具 / 服装状态回退' : 'Prop & Wardrobe Regressions'}
+                        </span>
+                        {ledger && (
+                            <span className={`text-xs font-bold font-mono ${ledger.pass ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                {ledger.pass ? '✓ NONE' : `${ledger.regressions.length} / ${ledger.shots.length} shots`}
+                            </span>
+                        )}
+                    </div>
+                    {ledgerError && (
+                        <p className="text-[10px] text-rose-400">{ledgerError}</p>
+                    )}
+                    {ledger?.regressions.map(r => (
+                        <div key={`${r.entity_id}-${r.shot_id}`} className="bg-rose-900/10 border border-rose-500/20 rounded-lg px-3 py-2 text-[10px] flex gap-2">
+                            <span className="font-mono shrink-0 text-rose-400">#{r.index + 1}</span>
+                            <span className="text-rose-300">{r.reason}</span>
+                        </div>
+                    ))}
+                    {ledger?.unresolved_pins.map(pin => (
+                        <p key={`${pin.entity_id}-${pin.shot_id}`} className="text-[10px] text-amber-400">
+                            {lang === 'zh' ? '未应用的固定状态' : 'Pin not applied'}: {pin.entity_id} @ {pin.shot_id} — {pin.reason}
+                        </p>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
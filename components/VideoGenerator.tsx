@@ -95,6 +95,7 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({
     hasEnoughCredits,
     refreshBalance,
     deductCredits,
+    releaseCredits,
   } = useAppContext();
 
   const imageCost =
@@ -628,9 +629,13 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({
           },
           project_id: project.id,
           shot_id: `scene-${scene.scene_number}`,
+          // 重新生成时跳过缓存，否则会拿回同一条视频
+          cache: sceneVideoUrls[sceneNum] ? 'bypass' : undefined,
         },
         promptEngineVersion
       );
+      // 命中生成缓存 → 后端未扣款，退回乐观预扣
+      if (res.cache?.hit && !userState.isAdmin) releaseCredits(baseCost);
 
       setActiveVideoJobs((prev) => ({
         ...prev,
@@ -66,6 +66,7 @@ interface AppContextType {
   buyCredits: (amount: number, cost: number) => Promise<void>;
   enableGodMode: () => void;
   refreshBalance: () => Promise<void>; // ★ NEW: Sync balance from DB
+  releaseCredits: (amount: number) => void; // Undo a UI pre-reservation the backend never charged (cache hit)
 
   // UI Control
   isPricingOpen: boolean;
@@ -507,6 +508,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return true;
   };
 
+  // ★ Undo a deductCredits() pre-reservation when the backend did not charge
+  // (e.g. the result was served from the generation cache). Lifts the sync lock
+  // so the next refreshBalance() reads the real value from DB.
+  const releaseCredits = (amount: number) => {
+    if (userState.isAdmin || amount <= 0) return;
+    balanceRef.current = balanceRef.current + amount;
+    syncLockRef.current = 0;
+    console.log(`[CREDIT GUARD] UI released ${amount}, ref now=${balanceRef.current}`);
+    setUserState(prev => ({ ...prev, balance: balanceRef.current }));
+  };
+
   // ★ Credit check + auto-paywall: Returns false AND opens pricing modal if insufficient
   const hasEnoughCredits = (amount: number): boolean => {
     if (userState.isAdmin) return true;
@@ -638,6 +650,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       upgradeUser,
       enableGodMode,
       refreshBalance,
+      releaseCredits,
       isPricingOpen,
       openPricingModal: () => setIsPricingOpen(true),
       closePricingModal: () => setIsPricingOpen(false),
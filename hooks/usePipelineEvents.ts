@@ -0,0 +1,18 @@
+import { useEffect, useRef, useState } from "react";
+import { subscribePipelineEvents, PipelineStreamMessage } from "../services/pipelineEventService";
+
+export function usePipelineEvents(
+  projectId: string | undefined,
+  onEvent: (message: PipelineStreamMessage) => void
+) {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!projectId) return;
+    return subscribePipelineEvents(projectId, (m) => handlerRef.current(m), setConnected);
+  }, [projectId]);
+
+  return connected;
+}
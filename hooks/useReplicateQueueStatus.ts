@@ -1,15 +1,53 @@
-
 import { useEffect, useState } from "react";
-import { replicateQueue, QueueUpdate } from "../lib/replicateQueue";
+import { getGenerationQueueStatus } from "../services/replicateService";
+
+const SERVER_POLL_MS = 5000;
+
+export interface QueueUpdate {
+  id: string;
+  status: 'queued' | 'running';
+  position: number;  // 0 = running, 1.. = place in the provider's queue
+  message?: string;
+  etaMs: number;
+}
 
-export function useReplicateQueueStatus() {
-  const [updates, setUpdates] = useState<Record<string, QueueUpdate>>({});
+// The user's server-side scheduler tasks from /api/queue/status (keyed "server:<id>"),
+// each with its queue position and an ETA in etaMs. Polls only while `active`.
+export function useReplicateQueueStatus(active = true) {
+  const [serverUpdates, setServerUpdates] = useState<Record<string, QueueUpdate>>({});
 
   useEffect(() => {
-    return replicateQueue.onUpdate((u) => {
-      setUpdates((prev) => ({ ...prev, [u.id]: u }));
-    });
-  }, []);
+    if (!active) {
+      setServerUpdates({});
+      return;
+    }
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const status = await getGenerationQueueStatus();
+        if (cancelled) return;
+        const next: Record<string, QueueUpdate> = {};
+        for (const task of status.tasks) {
+          next[`server:${task.id}`] = {
+            id: `server:${task.id}`,
+            status: task.status,
+            position: task.position,
+            message: task.kind,
+            etaMs: task.eta_ms,
+          };
+        }
+        setServerUpdates(next);
+      } catch {
+        // Signed out or offline: keep the last known server state
+      }
+    };
+    poll();
+    const timer = setInterval(poll, SERVER_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [active]);
 
-  return updates;
+  return serverUpdates;
 }
@@ -152,6 +152,8 @@ export const translations = {
     charCount: "chars",
     sceneCountLabel: "🎬 Number of Scenes",
     visualStyleLabel: "🎨 Visual Style",
+    structureTemplateLabel: "📐 Story Structure",
+    structureTemplateNone: "Free form",
     launchButton: "🚀 Generate Cinematic Short Film",
     enterScript: "Please enter a script or story description",
     pipelineTitle: "🎬 Generation Pipeline",
@@ -443,6 +445,8 @@ export const translations = {
     charCount: "字",
     sceneCountLabel: "🎬 场景数量",
     visualStyleLabel: "🎨 视觉风格",
+    structureTemplateLabel: "📐 故事结构",
+    structureTemplateNone: "自由结构",
     launchButton: "🚀 一键生成电影短片",
     enterScript: "请输入剧本或故事描述",
     pipelineTitle: "🎬 生成管线",
@@ -0,0 +1,364 @@
+/**
+ * batchQueue.ts — Durable batch generation queue
+ *
+ * Jobs and items live in a BatchQueueStore (see batchQueueStore.ts), so
+ * GET /api/batch/:jobId keeps answering after a redeploy and a cancel
+ * requested on one instance stops the worker on another.
+ *
+ * A worker runs a job by claiming its items one at a time (up to the job's
+ * concurrency), renewing each item's lease while the executor runs and
+ * checking the job's cancel flag in the store before every claim. Items
+ * whose lease lapses — their worker died — are requeued by
+ * recoverBatchJobs() and finished by whichever instance runs it next, using
+ * the executor registered for the job type and the params stored with the
+ * job. A job's credit reservation is stored in its params, and whichever
+ * worker finishes the job settles it through the onFinished listener.
+ *
+ * Items do not call providers directly: each execution waits for its turn
+ * in the shared generation scheduler, weighted by the job owner's tier, so
+ * a large batch shares provider slots fairly with other users.
+ */
+
+import {
+  createMemoryBatchQueueStore,
+  type BatchJob,
+  type BatchJobItem,
+  type BatchJobType,
+  type BatchQueueStore,
+} from './batchQueueStore.js';
+import { generationScheduler, type SchedulerTier } from './generationScheduler.js';
+
+export type BatchItemExecutor = (
+  item: BatchJobItem,
+  job: BatchJob,
+  params: Record<string, any>
+) => Promise<Pick<BatchJobItem, 'image_id' | 'image_url' | 'video_url'>>;
+
+/** Called when an item starts (`item` running) or settles, with fresh copies. */
+export type BatchProgressListener = (job: BatchJob, items: BatchJobItem[], item: BatchJobItem) => void;
+
+/** Called once a background worker has run out of items, with the stored params. */
+export type BatchFinishedListener = (job: BatchJob, items: BatchJobItem[], params: Record<string, any>) => Promise<void> | void;
+
+export interface BatchRunOptions {
+  /** Overrides the registered executor (request-scoped runners such as the SSE routes). */
+  executor?: BatchItemExecutor;
+  /** Overrides the stored job params for this run. */
+  params?: Record<string, any>;
+  onProgress?: BatchProgressListener;
+  /** Stop claiming items, like a store-side cancel (e.g. the client went away). */
+  shouldStop?: () => boolean;
+}
+
+/** A lease must outlive several missed heartbeats before the item is reclaimed. */
+const LEASE_MS = 90_000;
+const HEARTBEAT_MS = 20_000;
+/** Claims per item before it is failed instead of retried again. */
+const MAX_ATTEMPTS = 3;
+
+const WORKER_ID = `worker-${Math.random().toString(36).slice(2, 10)}`;
+
+let store: BatchQueueStore = createMemoryBatchQueueStore();
+const executors = new Map<BatchJobType, BatchItemExecutor>();
+/** Jobs this process is working on, so recovery does not start a second worker. */
+const activeRuns = new Map<string, Promise<{ job: BatchJob; items: BatchJobItem[] } | null>>();
+
+export function configureBatchQueue(next: BatchQueueStore): void {
+  store = next;
+}
+
+export function getBatchQueueStore(): BatchQueueStore {
+  return store;
+}
+
+/** Executor used for retries and for jobs resumed after their worker died. */
+export function registerBatchExecutor(type: BatchJobType, executor: BatchItemExecutor): void {
+  executors.set(type, executor);
+}
+
+function summarize(job: BatchJob, items: BatchJobItem[]): BatchJob {
+  const succeeded = items.filter((i) => i.status === 'succeeded').length;
+  const failed = items.filter((i) => i.status === 'failed').length;
+  return {
+    ...job,
+    total: items.length,
+    succeeded,
+    failed,
+    done: succeeded + failed,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/** Records a new job with all items queued. Nothing runs until runBatchJob/startBatchJob. */
+export async function createBatchJob(params: {
+  jobId?: string;
+  projectId: string;
+  userId?: string;
+  type: BatchJobType;
+  concurrency: number;
+  items: Array<{ shotId: string; shotNumber: number; sceneNumber: number }>;
+  params?: Record<string, any>;
+  /** Owner's scheduling tier, kept with the params so resumed runs keep their share. */
+  tier?: SchedulerTier;
+  extra?: Partial<BatchJob>;
+}): Promise<{ job: BatchJob; items: BatchJobItem[] }> {
+  const now = new Date().toISOString();
+  const jobId = params.jobId || crypto.randomUUID();
+  const job: BatchJob = {
+    ...params.extra,
+    id: jobId,
+    project_id: params.projectId,
+    user_id: params.userId,
+    type: params.type,
+    total: params.items.length,
+    done: 0,
+    succeeded: 0,
+    failed: 0,
+    status: 'pending',
+    created_at: now,
+    updated_at: now,
+    concurrency: Math.max(1, params.concurrency),
+  };
+  const items: BatchJobItem[] = params.items.map((item) => ({
+    id: crypto.randomUUID(),
+    job_id: jobId,
+    shot_id: item.shotId,
+    shot_number: item.shotNumber,
+    scene_number: item.sceneNumber,
+    status: 'queued',
+  }));
+
+  const stored = { ...(params.params || {}), tier: params.tier || 'free' };
+  await store.insertJob({ job, params: stored, cancelRequested: false }, items);
+  return { job: { ...job }, items: items.map((i) => ({ ...i })) };
+}
+
+export async function getBatchJobStatus(jobId: string): Promise<{ job: BatchJob; items: BatchJobItem[] } | null> {
+  const record = await store.loadJob(jobId);
+  if (!record) return null;
+  const items = await store.loadItems(jobId);
+  return { job: { ...summarize(record.job, items), updated_at: record.job.updated_at }, items };
+}
+
+/**
+ * Flags the job for cancellation. Whichever instance runs it stops claiming
+ * items; running items finish. Returns false for unknown or finished jobs.
+ */
+export async function cancelBatchJob(jobId: string): Promise<boolean> {
+  const record = await store.loadJob(jobId);
+  if (!record || record.job.status === 'completed' || record.job.status === 'cancelled' || record.job.status === 'failed') {
+    return false;
+  }
+  await store.setCancelRequested(jobId, true);
+  return true;
+}
+
+/** Runs a job to completion in this process; a second call joins the first run. */
+export async function runBatchJob(
+  jobId: string,
+  options: BatchRunOptions = {}
+): Promise<{ job: BatchJob; items: BatchJobItem[] } | null> {
+  const existing = activeRuns.get(jobId);
+  if (existing) return existing;
+
+  const run = runWorker(jobId, options).finally(() => activeRuns.delete(jobId));
+  activeRuns.set(jobId, run);
+  return run;
+}
+
+/** Starts a worker in the background with the registered executor. */
+export function startBatchJob(jobId: string, onProgress?: BatchProgressListener, onFinished?: BatchFinishedListener): void {
+  runBatchJob(jobId, { onProgress })
+    .then(async (result) => {
+      if (!result || !onFinished) return;
+      const record = await store.loadJob(jobId);
+      await onFinished(result.job, result.items, record?.params || {});
+    })
+    .catch((e: any) => {
+      console.error(`[BatchQueue] Worker for ${jobId} crashed:`, e?.message || e);
+    });
+}
+
+async function runWorker(
+  jobId: string,
+  options: BatchRunOptions
+): Promise<{ job: BatchJob; items: BatchJobItem[] } | null> {
+  const record = await store.loadJob(jobId);
+  if (!record) return null;
+  const executor = options.executor || executors.get(record.job.type);
+  if (!executor) throw new Error(`No batch executor registered for ${record.job.type}`);
+
+  let job: BatchJob = { ...record.job, status: 'running', updated_at: new Date().toISOString() };
+  await store.updateJob(jobId, { status: 'running', updated_at: job.updated_at });
+
+  let items = await store.loadItems(jobId);
+  let stopped = false;
+  const running = new Set<string>();
+
+  // Renews item leases and touches the job, which marks it as having a live worker
+  const heartbeat = setInterval(() => {
+    Promise.all([
+      store.renewLeases(WORKER_ID, [...running], Date.now() + LEASE_MS),
+      store.updateJob(jobId, { updated_at: new Date().toISOString() }),
+    ]).catch((e: any) => {
+      console.warn(`[BatchQueue] Heartbeat for ${jobId} failed:`, e?.message || e);
+    });
+  }, HEARTBEAT_MS);
+  (heartbeat as any).unref?.();
+
+  const publish = (item: BatchJobItem) => {
+    items = items.map((i) => (i.id === item.id ? { ...item } : i));
+    job = summarize(job, items);
+    options.onProgress?.({ ...job }, items.map((i) => ({ ...i })), { ...item });
+  };
+
+  const isCancelled = async () => {
+    if (options.shouldStop?.()) return true;
+    return !!(await store.loadJob(jobId))?.cancelRequested;
+  };
+
+  const lane = async (): Promise<void> => {
+    while (!stopped) {
+      if (await isCancelled()) {
+        stopped = true;
+        return;
+      }
+      const claimed = await store.claimNextItem(jobId, WORKER_ID, Date.now() + LEASE_MS);
+      if (!claimed) return;
+
+      const item = claimed.item;
+      if (claimed.attempts > MAX_ATTEMPTS) {
+        item.status = 'failed';
+        item.error = `Abandoned after ${MAX_ATTEMPTS} interrupted attempts`;
+        item.completed_at = new Date().toISOString();
+        await store.saveItem(item);
+        publish(item);
+        continue;
+      }
+
+      running.add(item.id);
+      publish(item);
+      try {
+        const runParams = options.params || record.params;
+        const result = await generationScheduler.schedule(
+          { userId: job.user_id || 'anonymous', tier: runParams.tier, provider: 'replicate', kind: `batch:${job.type}` },
+          () => executor({ ...item }, { ...job }, runParams)
+        );
+        item.status = 'succeeded';
+        item.image_id = result.image_id;
+        item.image_url = result.image_url;
+        item.video_url = result.video_url;
+        item.error = undefined;
+      } catch (err: any) {
+        item.status = 'failed';
+        item.error = err?.message || 'Unknown error';
+        console.error(`[BatchQueue] Item ${item.id} (shot ${item.shot_id}) failed:`, item.error);
+      }
+      item.completed_at = new Date().toISOString();
+      running.delete(item.id);
+      await store.saveItem(item);
+      publish(item);
+      await store.updateJob(jobId, { done: job.done, succeeded: job.succeeded, failed: job.failed, updated_at: job.updated_at });
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, job.concurrency) }, () => lane()));
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  // Another worker may still hold leased items of this job (e.g. after a
+  // partial recovery); the job is only finished once none are running.
+  items = await store.loadItems(jobId);
+  if (stopped) {
+    for (const item of items) {
+      if (item.status !== 'queued') continue;
+      item.status = 'cancelled';
+      await store.saveItem(item);
+    }
+  }
+  job = summarize(job, items);
+  if (items.some((i) => i.status === 'running' || i.status === 'queued')) {
+    return { job, items };
+  }
+
+  if (stopped) job.status = 'cancelled';
+  else if (job.failed > 0 && job.succeeded === 0) job.status = 'failed';
+  else job.status = 'completed';
+  await store.updateJob(jobId, { status: job.status, done: job.done, succeeded: job.succeeded, failed: job.failed, updated_at: job.updated_at });
+  return { job, items };
+}
+
+/**
+ * Requeues failed items and starts a worker for them with the registered
+ * executor. `params` is merged over the stored job params for this run only
+ * (e.g. fresh shot data from the client, or the retry's own credit
+ * reservation); onFinished receives those merged params once the worker runs
+ * out of items. Returns false while the job is running or when nothing failed.
+ */
+export async function retryFailedBatchItems(
+  jobId: string,
+  params?: Record<string, any>,
+  onFinished?: BatchFinishedListener
+): Promise<boolean> {
+  const record = await store.loadJob(jobId);
+  if (!record || record.job.status === 'running' || activeRuns.has(jobId)) return false;
+  if (!executors.has(record.job.type)) return false;
+
+  const failed = (await store.loadItems(jobId)).filter((i) => i.status === 'failed');
+  if (failed.length === 0) return false;
+
+  for (const item of failed) {
+    await store.saveItem({
+      ...item,
+      status: 'queued',
+      error: undefined,
+      started_at: undefined,
+      completed_at: undefined,
+      image_id: undefined,
+      image_url: undefined,
+      video_url: undefined,
+    });
+  }
+  await store.setCancelRequested(jobId, false);
+  await store.updateJob(jobId, { status: 'pending', updated_at: new Date().toISOString() });
+
+  const runParams = params ? { ...record.params, ...params } : undefined;
+  runBatchJob(jobId, { params: runParams })
+    .then(async (result) => {
+      if (result && onFinished) await onFinished(result.job, result.items, runParams || record.params);
+    })
+    .catch((e: any) => {
+      console.error(`[BatchQueue] Retry worker for ${jobId} crashed:`, e?.message || e);
+    });
+  return true;
+}
+
+/**
+ * Requeues items whose worker died and resumes unfinished jobs that no live
+ * worker is on: jobs with reclaimed items, or without a heartbeat for a
+ * lease period. Call on startup and periodically.
+ */
+export async function recoverBatchJobs(onProgress?: BatchProgressListener, onFinished?: BatchFinishedListener): Promise<string[]> {
+  const reclaimed = await store.reclaimExpiredItems(Date.now());
+  if (reclaimed.length) {
+    console.warn(`[BatchQueue] Reclaimed interrupted items of ${reclaimed.length} job(s)`);
+  }
+
+  const resumed: string[] = [];
+  for (const jobId of await store.listUnfinishedJobIds()) {
+    if (activeRuns.has(jobId)) continue;
+    const record = await store.loadJob(jobId);
+    if (!record || !executors.has(record.job.type)) continue;
+    const stale = Date.now() - Date.parse(record.job.updated_at) > LEASE_MS;
+    if (!reclaimed.includes(jobId) && !stale) continue;
+    const items = await store.loadItems(jobId);
+    // Items still leased by a live worker elsewhere: leave the job to it.
+    // Otherwise the worker runs what is queued, or just settles the job status.
+    if (items.some((i) => i.status === 'running')) continue;
+    startBatchJob(jobId, onProgress, onFinished);
+    resumed.push(jobId);
+  }
+  return resumed;
+}
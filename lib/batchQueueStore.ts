@@ -0,0 +1,528 @@
+/**
+ * batchQueueStore.ts — Durable backends for the batch generation queue
+ *
+ * lib/batchQueue.ts keeps every batch job and item here instead of in process
+ * memory, so job status survives redeploys and any instance can read it,
+ * cancel it or pick up its interrupted items.
+ *
+ * Items are leased: a worker claims a queued item (status → running) together
+ * with a lease expiry it keeps renewing while the item runs. An item whose
+ * lease lapsed belongs to a dead worker and is put back in the queue.
+ *
+ * Backends:
+ *   - sqlite   — local dev / tests, built on lib/db.ts
+ *   - supabase — batch_jobs / batch_job_items (supabase/batch_jobs_migration.sql
+ *                plus the lease columns in supabase/migrations)
+ *   - memory   — no durability, same semantics
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type BatchJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type BatchItemStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type BatchJobType = 'gen_images' | 'gen_images_continue' | 'regen_cascade' | 'gen_videos';
+
+export interface BatchJob {
+  id: string;
+  project_id: string;
+  user_id?: string;
+  type: BatchJobType;
+  total: number;
+  done: number;
+  succeeded: number;
+  failed: number;
+  status: BatchJobStatus;
+  created_at: string;
+  updated_at: string;
+  concurrency: number;
+  range_start_scene?: number;
+  range_start_shot?: number;
+  range_end_scene?: number;
+  range_end_shot?: number;
+  strategy?: 'strict' | 'skip_failed';
+  all_done?: boolean;
+  remaining_count?: number;
+}
+
+export interface BatchJobItem {
+  id: string;
+  job_id: string;
+  shot_id: string;
+  shot_number: number;
+  scene_number: number;
+  status: BatchItemStatus;
+  image_id?: string;
+  image_url?: string;
+  video_url?: string;
+  error?: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface StoredBatchJob {
+  job: BatchJob;
+  /** Whatever the job's executor needs to (re)run an item: shots, model, style… */
+  params: Record<string, any>;
+  cancelRequested: boolean;
+}
+
+export interface ClaimedBatchItem {
+  item: BatchJobItem;
+  /** Times the item has been claimed, this claim included. */
+  attempts: number;
+}
+
+export interface BatchQueueStore {
+  readonly backend: 'sqlite' | 'supabase' | 'memory';
+  /** Items keep the given order; workers claim them in that order. */
+  insertJob(record: StoredBatchJob, items: BatchJobItem[]): Promise<void>;
+  loadJob(jobId: string): Promise<StoredBatchJob | null>;
+  loadItems(jobId: string): Promise<BatchJobItem[]>;
+  updateJob(jobId: string, patch: Partial<Omit<BatchJob, 'id'>>): Promise<void>;
+  setCancelRequested(jobId: string, value: boolean): Promise<void>;
+  /** Moves the first queued item to running, leased to workerId until leaseUntil (ms). */
+  claimNextItem(jobId: string, workerId: string, leaseUntil: number): Promise<ClaimedBatchItem | null>;
+  renewLeases(workerId: string, itemIds: string[], leaseUntil: number): Promise<void>;
+  /** Writes item fields and drops its lease. */
+  saveItem(item: BatchJobItem): Promise<void>;
+  /** Requeues running items whose lease expired before `now`; returns their job ids. */
+  reclaimExpiredItems(now: number): Promise<string[]>;
+  /** Jobs still pending or running — candidates for a worker after a restart. */
+  listUnfinishedJobIds(): Promise<string[]>;
+}
+
+const ITEM_FIELDS = ['status', 'image_id', 'image_url', 'video_url', 'error', 'started_at', 'completed_at'] as const;
+
+// ═══════════════════════════════════════════════════════════════
+// Memory backend
+// ═══════════════════════════════════════════════════════════════
+
+interface MemoryItem {
+  item: BatchJobItem;
+  position: number;
+  attempts: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: number;
+}
+
+export function createMemoryBatchQueueStore(): BatchQueueStore {
+  const jobs = new Map<string, StoredBatchJob>();
+  const items = new Map<string, MemoryItem[]>();
+  const findItem = (itemId: string) => {
+    for (const list of items.values()) {
+      const found = list.find((m) => m.item.id === itemId);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  return {
+    backend: 'memory',
+
+    async insertJob(record, jobItems) {
+      jobs.set(record.job.id, structuredClone(record));
+      items.set(record.job.id, jobItems.map((item, position) => ({ item: { ...item }, position, attempts: 0 })));
+    },
+
+    async loadJob(jobId) {
+      const record = jobs.get(jobId);
+      return record ? structuredClone(record) : null;
+    },
+
+    async loadItems(jobId) {
+      return (items.get(jobId) || []).map((m) => ({ ...m.item }));
+    },
+
+    async updateJob(jobId, patch) {
+      const record = jobs.get(jobId);
+      if (record) record.job = { ...record.job, ...patch };
+    },
+
+    async setCancelRequested(jobId, value) {
+      const record = jobs.get(jobId);
+      if (record) record.cancelRequested = value;
+    },
+
+    async claimNextItem(jobId, workerId, leaseUntil) {
+      const next = (items.get(jobId) || []).find((m) => m.item.status === 'queued');
+      if (!next) return null;
+      next.item.status = 'running';
+      next.item.started_at = new Date().toISOString();
+      next.attempts += 1;
+      next.leaseOwner = workerId;
+      next.leaseExpiresAt = leaseUntil;
+      return { item: { ...next.item }, attempts: next.attempts };
+    },
+
+    async renewLeases(workerId, itemIds, leaseUntil) {
+      for (const id of itemIds) {
+        const m = findItem(id);
+        if (m && m.leaseOwner === workerId && m.item.status === 'running') m.leaseExpiresAt = leaseUntil;
+      }
+    },
+
+    async saveItem(item) {
+      const m = findItem(item.id);
+      if (!m) return;
+      m.item = { ...item };
+      m.leaseOwner = undefined;
+      m.leaseExpiresAt = undefined;
+    },
+
+    async reclaimExpiredItems(now) {
+      const jobIds = new Set<string>();
+      for (const [jobId, list] of items) {
+        for (const m of list) {
+          if (m.item.status === 'running' && (m.leaseExpiresAt || 0) < now) {
+            m.item.status = 'queued';
+            m.leaseOwner = undefined;
+            m.leaseExpiresAt = undefined;
+            jobIds.add(jobId);
+          }
+        }
+      }
+      return [...jobIds];
+    },
+
+    async listUnfinishedJobIds() {
+      return [...jobs.values()]
+        .filter((r) => r.job.status === 'pending' || r.job.status === 'running')
+        .map((r) => r.job.id);
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SQLite backend
+// ═══════════════════════════════════════════════════════════════
+
+type SqliteDatabase = typeof import('./db.js')['default'];
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS batch_jobs (
+    id TEXT PRIMARY KEY,
+    job TEXT NOT NULL,
+    status TEXT NOT NULL,
+    params TEXT NOT NULL,
+    cancel_requested INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS batch_job_items (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    item TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    lease_owner TEXT,
+    lease_expires_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_batch_job_items_job ON batch_job_items(job_id, position);
+  CREATE INDEX IF NOT EXISTS idx_batch_job_items_status ON batch_job_items(status);
+`;
+
+/**
+ * SQLite-backed store. Rows keep the job / item as JSON next to the columns
+ * the queue filters on. The handle defaults to lib/db.ts, loaded lazily.
+ */
+export function createSqliteBatchQueueStore(database?: SqliteDatabase): BatchQueueStore {
+  let ready: Promise<SqliteDatabase> | null = null;
+  const getDb = () => {
+    if (!ready) {
+      ready = (database ? Promise.resolve(database) : import('./db.js').then((m) => m.default)).then((db) => {
+        db.exec(SQLITE_SCHEMA);
+        return db;
+      });
+    }
+    return ready;
+  };
+
+  return {
+    backend: 'sqlite',
+
+    async insertJob(record, items) {
+      const db = await getDb();
+      const insertItem = db.prepare(
+        'INSERT INTO batch_job_items (id, job_id, position, status, item) VALUES (?, ?, ?, ?, ?)'
+      );
+      db.transaction(() => {
+        db.prepare('INSERT INTO batch_jobs (id, job, status, params, cancel_requested) VALUES (?, ?, ?, ?, ?)')
+          .run(record.job.id, JSON.stringify(record.job), record.job.status, JSON.stringify(record.params), record.cancelRequested ? 1 : 0);
+        items.forEach((item, position) => insertItem.run(item.id, item.job_id, position, item.status, JSON.stringify(item)));
+      })();
+    },
+
+    async loadJob(jobId) {
+      const db = await getDb();
+      const row = db.prepare('SELECT job, params, cancel_requested FROM batch_jobs WHERE id = ?').get(jobId) as
+        | { job: string; params: string; cancel_requested: number }
+        | undefined;
+      return row ? { job: JSON.parse(row.job), params: JSON.parse(row.params), cancelRequested: !!row.cancel_requested } : null;
+    },
+
+    async loadItems(jobId) {
+      const db = await getDb();
+      const rows = db
+        .prepare('SELECT item, status FROM batch_job_items WHERE job_id = ? ORDER BY position ASC')
+        .all(jobId) as Array<{ item: string; status: BatchItemStatus }>;
+      return rows.map((r) => ({ ...JSON.parse(r.item), status: r.status }));
+    },
+
+    async updateJob(jobId, patch) {
+      const db = await getDb();
+      db.transaction(() => {
+        const row = db.prepare('SELECT job FROM batch_jobs WHERE id = ?').get(jobId) as { job: string } | undefined;
+        if (!row) return;
+        const job = { ...JSON.parse(row.job), ...patch };
+        db.prepare('UPDATE batch_jobs SET job = ?, status = ? WHERE id = ?').run(JSON.stringify(job), job.status, jobId);
+      })();
+    },
+
+    async setCancelRequested(jobId, value) {
+      const db = await getDb();
+      db.prepare('UPDATE batch_jobs SET cancel_requested = ? WHERE id = ?').run(value ? 1 : 0, jobId);
+    },
+
+    async claimNextItem(jobId, workerId, leaseUntil) {
+      const db = await getDb();
+      return db.transaction((): ClaimedBatchItem | null => {
+        const row = db
+          .prepare("SELECT id, item, attempts FROM batch_job_items WHERE job_id = ? AND status = 'queued' ORDER BY position ASC LIMIT 1")
+          .get(jobId) as { id: string; item: string; attempts: number } | undefined;
+        if (!row) return null;
+        const item: BatchJobItem = { ...JSON.parse(row.item), status: 'running', started_at: new Date().toISOString() };
+        db.prepare(
+          "UPDATE batch_job_items SET status = 'running', item = ?, attempts = attempts + 1, lease_owner = ?, lease_expires_at = ? WHERE id = ?"
+        ).run(JSON.stringify(item), workerId, leaseUntil, row.id);
+        return { item, attempts: row.attempts + 1 };
+      })();
+    },
+
+    async renewLeases(workerId, itemIds, leaseUntil) {
+      if (itemIds.length === 0) return;
+      const db = await getDb();
+      const renew = db.prepare(
+        "UPDATE batch_job_items SET lease_expires_at = ? WHERE id = ? AND lease_owner = ? AND status = 'running'"
+      );
+      db.transaction(() => {
+        for (const id of itemIds) renew.run(leaseUntil, id, workerId);
+      })();
+    },
+
+    async saveItem(item) {
+      const db = await getDb();
+      db.prepare(
+        'UPDATE batch_job_items SET status = ?, item = ?, lease_owner = NULL, lease_expires_at = NULL WHERE id = ?'
+      ).run(item.status, JSON.stringify(item), item.id);
+    },
+
+    async reclaimExpiredItems(now) {
+      const db = await getDb();
+      return db.transaction(() => {
+        const rows = db
+          .prepare("SELECT DISTINCT job_id FROM batch_job_items WHERE status = 'running' AND COALESCE(lease_expires_at, 0) < ?")
+          .all(now) as Array<{ job_id: string }>;
+        db.prepare(
+          "UPDATE batch_job_items SET status = 'queued', lease_owner = NULL, lease_expires_at = NULL WHERE status = 'running' AND COALESCE(lease_expires_at, 0) < ?"
+        ).run(now);
+        return rows.map((r) => r.job_id);
+      })();
+    },
+
+    async listUnfinishedJobIds() {
+      const db = await getDb();
+      const rows = db.prepare("SELECT id FROM batch_jobs WHERE status IN ('pending', 'running')").all() as Array<{ id: string }>;
+      return rows.map((r) => r.id);
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Supabase backend
+// ═══════════════════════════════════════════════════════════════
+
+/** Continue-batch fields of BatchJob; optional, so NULL columns are left off the job. */
+const JOB_RANGE_FIELDS = ['range_start_scene', 'range_start_shot', 'range_end_scene', 'range_end_shot', 'strategy', 'all_done', 'remaining_count'] as const;
+const JOB_COLUMNS = `id, project_id, user_id, type, total, done, succeeded, failed, status, concurrency, created_at, updated_at, ${JOB_RANGE_FIELDS.join(', ')}, params, cancel_requested`;
+const ITEM_COLUMNS = 'id, job_id, shot_id, shot_number, scene_number, status, image_id, image_url, video_url, error, started_at, completed_at';
+/** Claims race between instances; give up after this many lost races. */
+const CLAIM_RETRIES = 5;
+
+function rowToJob(row: any): StoredBatchJob {
+  const { params, cancel_requested, ...job } = row;
+  for (const field of JOB_RANGE_FIELDS) {
+    if (job[field] === null) delete job[field];
+  }
+  return { job: job as BatchJob, params: params || {}, cancelRequested: !!cancel_requested };
+}
+
+function pickRangeFields(job: Partial<BatchJob>): Partial<BatchJob> {
+  return Object.fromEntries(JOB_RANGE_FIELDS.filter((f) => job[f] !== undefined).map((f) => [f, job[f]]));
+}
+
+function rowToItem(row: any): BatchJobItem {
+  const item: any = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null && value !== undefined) item[key] = value;
+  }
+  return item as BatchJobItem;
+}
+
+export function createSupabaseBatchQueueStore(getClient: () => SupabaseClient<any, any, any>): BatchQueueStore {
+  return {
+    backend: 'supabase',
+
+    async insertJob(record, items) {
+      const client = getClient();
+      const { job } = record;
+      const { error: jobError } = await client.from('batch_jobs').insert({
+        id: job.id,
+        project_id: job.project_id,
+        user_id: job.user_id,
+        type: job.type,
+        total: job.total,
+        done: job.done,
+        succeeded: job.succeeded,
+        failed: job.failed,
+        status: job.status,
+        concurrency: job.concurrency,
+        created_at: job.created_at,
+        ...pickRangeFields(job),
+        params: record.params,
+        cancel_requested: record.cancelRequested,
+      });
+      if (jobError) throw new Error(`batch_jobs insert failed: ${jobError.message}`);
+
+      const { error: itemsError } = await client.from('batch_job_items').insert(items.map((item, position) => ({
+        id: item.id,
+        job_id: item.job_id,
+        shot_id: item.shot_id,
+        shot_number: item.shot_number || 0,
+        scene_number: item.scene_number || 0,
+        status: item.status,
+        position,
+      })));
+      if (itemsError) throw new Error(`batch_job_items insert failed: ${itemsError.message}`);
+    },
+
+    async loadJob(jobId) {
+      const { data, error } = await getClient().from('batch_jobs').select(JOB_COLUMNS).eq('id', jobId).maybeSingle();
+      if (error) throw new Error(`batch_jobs select failed: ${error.message}`);
+      return data ? rowToJob(data) : null;
+    },
+
+    async loadItems(jobId) {
+      const { data, error } = await getClient()
+        .from('batch_job_items')
+        .select(ITEM_COLUMNS)
+        .eq('job_id', jobId)
+        .order('position', { ascending: true });
+      if (error) throw new Error(`batch_job_items select failed: ${error.message}`);
+      return (data || []).map(rowToItem);
+    },
+
+    async updateJob(jobId, patch) {
+      const { total, done, succeeded, failed, status, updated_at } = patch;
+      const row = {
+        ...Object.fromEntries(Object.entries({ total, done, succeeded, failed, status, updated_at }).filter(([, v]) => v !== undefined)),
+        ...pickRangeFields(patch),
+      };
+      const { error } = await getClient().from('batch_jobs').update(row).eq('id', jobId);
+      if (error) throw new Error(`batch_jobs update failed: ${error.message}`);
+    },
+
+    async setCancelRequested(jobId, value) {
+      const { error } = await getClient().from('batch_jobs').update({ cancel_requested: value }).eq('id', jobId);
+      if (error) throw new Error(`batch_jobs update failed: ${error.message}`);
+    },
+
+    async claimNextItem(jobId, workerId, leaseUntil) {
+      const client = getClient();
+      for (let attempt = 0; attempt < CLAIM_RETRIES; attempt++) {
+        const { data: next, error } = await client
+          .from('batch_job_items')
+          .select('id, attempts')
+          .eq('job_id', jobId)
+          .eq('status', 'queued')
+          .order('position', { ascending: true })
+          .limit(1)
+          .maybeSingle();
+        if (error) throw new Error(`batch_job_items select failed: ${error.message}`);
+        if (!next) return null;
+
+        // Compare-and-set on status: only one instance wins the item
+        const attempts = Number((next as any).attempts || 0) + 1;
+        const { data: claimed, error: claimError } = await client
+          .from('batch_job_items')
+          .update({
+            status: 'running',
+            started_at: new Date().toISOString(),
+            attempts,
+            lease_owner: workerId,
+            lease_expires_at: new Date(leaseUntil).toISOString(),
+          })
+          .eq('id', (next as any).id)
+          .eq('status', 'queued')
+          .select(ITEM_COLUMNS);
+        if (claimError) throw new Error(`batch_job_items claim failed: ${claimError.message}`);
+        if (claimed?.length) return { item: rowToItem(claimed[0]), attempts };
+      }
+      return null;
+    },
+
+    async renewLeases(workerId, itemIds, leaseUntil) {
+      if (itemIds.length === 0) return;
+      const { error } = await getClient()
+        .from('batch_job_items')
+        .update({ lease_expires_at: new Date(leaseUntil).toISOString() })
+        .in('id', itemIds)
+        .eq('lease_owner', workerId)
+        .eq('status', 'running');
+      if (error) throw new Error(`batch_job_items lease renewal failed: ${error.message}`);
+    },
+
+    async saveItem(item) {
+      const row: Record<string, any> = { lease_owner: null, lease_expires_at: null };
+      for (const field of ITEM_FIELDS) row[field] = item[field] ?? null;
+      const { error } = await getClient().from('batch_job_items').update(row).eq('id', item.id);
+      if (error) throw new Error(`batch_job_items update failed: ${error.message}`);
+    },
+
+    async reclaimExpiredItems(now) {
+      const { data, error } = await getClient()
+        .from('batch_job_items')
+        .update({ status: 'queued', lease_owner: null, lease_expires_at: null })
+        .eq('status', 'running')
+        // A running item without a lease is as orphaned as one whose lease lapsed
+        .or(`lease_expires_at.is.null,lease_expires_at.lt.${new Date(now).toISOString()}`)
+        .select('job_id');
+      if (error) throw new Error(`batch_job_items reclaim failed: ${error.message}`);
+      return [...new Set((data || []).map((r: any) => String(r.job_id)))];
+    },
+
+    async listUnfinishedJobIds() {
+      const { data, error } = await getClient().from('batch_jobs').select('id').in('status', ['pending', 'running']);
+      if (error) throw new Error(`batch_jobs select failed: ${error.message}`);
+      return (data || []).map((r: any) => String(r.id));
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Backend selection
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Picks a backend from BATCH_QUEUE_STORE ('sqlite' | 'supabase' | 'memory'),
+ * defaulting the same way as PIPELINE_STORE.
+ */
+export function createBatchQueueStoreFromEnv(getSupabaseClient: () => SupabaseClient<any, any, any>): BatchQueueStore {
+  const requested = (process.env.BATCH_QUEUE_STORE || '').trim().toLowerCase();
+  const backend = requested || (process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'sqlite');
+
+  if (backend === 'memory') return createMemoryBatchQueueStore();
+  if (backend === 'sqlite') return createSqliteBatchQueueStore();
+  if (backend === 'supabase') return createSupabaseBatchQueueStore(getSupabaseClient);
+
+  console.warn(`[BatchQueueStore] Unknown BATCH_QUEUE_STORE "${requested}", falling back to in-memory jobs`);
+  return createMemoryBatchQueueStore();
+}
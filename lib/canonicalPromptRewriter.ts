@@ -14,20 +14,41 @@
  *   5. Detects generic portrait collapse patterns
  *   6. Auto-rewrites if verifier score fails thresholds
  *   7. Produces full traceability data for UI display
+ *   8. Enforces DirectorControls bannedElements / avoidPhrases (directorRules.ts):
+ *      violations are repaired, and any that survive are a hard fail
  *
- * PASS THRESHOLDS (all must be met):
+ * PASS THRESHOLDS (all must be met) — default 'dialogue_drama' profile:
  *   total score  ≥ 28 / 40
  *   beat_match   ≥ 4 / 5
  *   non_generic  ≥ 4 / 5
  *   removal_val  ≥ 3 / 5  (shot must add unique value — not cosmetically redundant)
+ * Other projects use a verifier profile (verifierProfiles.ts) with their own
+ * weights, minimums and enabled dimensions.
  */
 
+import {
+  directorRuleFailReasons,
+  enforceDirectorRules,
+  SHOT_RULE_FIELDS,
+  type DirectorRule,
+  type DirectorRuleReport,
+} from './directorRules';
+import {
+  DEFAULT_VERIFIER_PROFILE,
+  dimensionSetting,
+  hardFailEnabled,
+  scoreWithProfile,
+  type VerifierHardFailCode,
+  type VerifierProfile,
+} from './verifierProfiles';
+
 // ─── Public interfaces ────────────────────────────────────────────────────────
 
 export interface VerifierDimension {
   name: string;
   score: number;   // 0–5
   reason: string;
+  weight?: number; // profile weight (default 1)
 }
 
 export interface VerifierHardFail {
@@ -36,7 +57,9 @@ export interface VerifierHardFail {
 }
 
 export interface VerifierResult {
-  total: number;                  // 0–40 (8 dims × 5)
+  total: number;                  // weighted; 0–40 under the default profile (8 dims × 5)
+  max_total: number;              // weighted maximum for the profile's enabled dimensions
+  profile: string;                // verifier profile id the score was computed under
   passes: boolean;
   dimensions: VerifierDimension[];
   fail_reasons: string[];
@@ -65,6 +88,7 @@ export interface CanonicalShotResult {
   rewrite_count:           number;        // How many rewrite iterations were needed
   gemini_prose_discarded:  boolean;       // True when original Gemini image_prompt was replaced
   sdc:                     ShotDifferenceContract; // Shot Difference Contract data
+  director_rules:          DirectorRuleReport;     // bannedElements / avoidPhrases scan of this shot
 }
 
 // ─── Internal utilities ───────────────────────────────────────────────────────
@@ -562,8 +586,8 @@ function buildCanonicalPrompt(
 }
 
 // ─── VERIFIER ─────────────────────────────────────────────────────────────────
-// 8 dimensions (0–5 each = 40 max)
-// Pass: total ≥ 28, beat_match ≥ 4, non_generic ≥ 4, removal_value ≥ 3
+// 8 dimensions (0–5 each = 40 max), plus any plugin dimensions the profile enables
+// Default pass: total ≥ 28, beat_match ≥ 4, non_generic ≥ 4, removal_value ≥ 3
 
 function scoreTokenOverlap(source: string, target: string): number {
   if (!source || !target) return 0;
@@ -580,15 +604,21 @@ export function verifyPrompt(
   scene: any,
   mustShow: string[],
   sdc?: ShotDifferenceContract,
+  profile: VerifierProfile = DEFAULT_VERIFIER_PROFILE,
 ): VerifierResult {
   const dims: VerifierDimension[] = [];
   const failReasons: string[] = [];
+  const enabled = (name: string) => dimensionSetting(profile, name).enabled;
+  const minFor  = (name: string) => enabled(name) ? dimensionSetting(profile, name).min_score : undefined;
+  const beatMin    = minFor('screenplay_beat_match');
+  const actionMin  = minFor('action_visibility');
+  const removalMin = minFor('screenplay_removal_value');
 
   // 1. Screenplay beat match
   const beatRef = s(shot.action || shot.visual_description || '');
   const beatScore = scoreTokenOverlap(beatRef, prompt);
   dims.push({ name: 'screenplay_beat_match', score: beatScore, reason: beatScore < 4 ? `beat tokens from "${beatRef.slice(0,40)}" not found in prompt` : 'beat reflected in prompt' });
-  if (beatScore < 4) failReasons.push(`screenplay beat match too low (${beatScore}/5)`);
+  if (beatMin != null && beatScore < beatMin) failReasons.push(`screenplay beat match too low (${beatScore}/5)`);
 
   // 2. Action visibility — HARD FAIL if no specific action verb
   // Check BOTH the REQUIRED ACTION section AND the SCREENPLAY BEAT section.
@@ -613,7 +643,7 @@ export function verifyPrompt(
   const actionMissing  = !combinedActionText.trim() || (!hasStrongVerb && !hasGenericVerb);
   const actionScore    = hasStrongVerb ? 5 : hasGenericVerb ? 2 : actionMissing ? 0 : 3;
   dims.push({ name: 'action_visibility', score: actionScore, reason: hasStrongVerb ? 'strong specific verb present' : hasGenericVerb ? 'only generic verb found — must use specific physical action' : actionMissing ? 'HARD FAIL: 缺少具体动作 — REQUIRED ACTION/BEAT section lacks any action verb' : 'action present but could be more specific' });
-  if (!hasStrongVerb && (hasGenericVerb || actionMissing)) failReasons.push(`缺少具体动作 — action_visibility ${actionScore}/5: REQUIRED ACTION must use a specific physical verb (not looks/stands/walks/gazes)`);
+  if (actionMin != null && !hasStrongVerb && (hasGenericVerb || actionMissing)) failReasons.push(`缺少具体动作 — action_visibility ${actionScore}/5: REQUIRED ACTION must use a specific physical verb (not looks/stands/walks/gazes)`);
 
   // 3. Location evidence
   const locRef = s(scene?.location || shot.location || '').split(/[,.\n]/)[0].toLowerCase();
@@ -630,7 +660,7 @@ export function verifyPrompt(
     const present = chars.filter((c: string) => prompt.toLowerCase().includes(c.toLowerCase().split(/\s+/)[0]));
     const charScore = Math.round((present.length / chars.length) * 5);
     dims.push({ name: 'character_correctness', score: charScore, reason: charScore < 3 ? `characters not found: ${chars.filter((c: string) => !present.includes(c)).join(', ')}` : 'required characters referenced' });
-    if (charScore < 3) failReasons.push('required characters not referenced in prompt');
+    if (charScore < 3 && enabled('character_correctness')) failReasons.push('required characters not referenced in prompt');
   }
 
   // 5. Threat/object correctness
@@ -642,7 +672,7 @@ export function verifyPrompt(
     const hasObjectDetail = /\b(hand|finger|glove|ring|key|phone|screen|weapon|gun|knife|token|seal|wound|scar|detail|device|button|trigger|dial|wire|cable|crack|chip|symbol|sign|label|badge|stamp|mark)\b/i.test(prompt);
     threatScore = hasObjectDetail ? 5 : 1;
     threatReason = hasObjectDetail ? 'object/detail present in insert shot' : 'INSERT shot missing concrete object detail';
-    if (!hasObjectDetail) failReasons.push('ECU/INSERT shot has no concrete object/detail');
+    if (!hasObjectDetail && enabled('threat_object_correctness')) failReasons.push('ECU/INSERT shot has no concrete object/detail');
   } else if (size === 'ws' || size === 'ews') {
     const hasThreat = /\b(godzilla|monster|creature|villain|enemy|threat|danger|army|explosion|fire|flood|disaster|shadow|silhouette|crowd|scale|vast|massive|towering|looming|enormous)\b/i.test(prompt)
       || /\b(background|backdrop|skyline|horizon|landscape|cityscape|environment|terrain|surroundings)\b/i.test(prompt);
@@ -661,7 +691,7 @@ export function verifyPrompt(
   const genericDetected = GENERIC_PORTRAIT_PATTERNS.some(p => p.test(prompt));
   const nonGenericScore = genericDetected ? 0 : 5;
   dims.push({ name: 'non_genericity', score: nonGenericScore, reason: genericDetected ? 'GENERIC PORTRAIT COLLAPSE DETECTED — prompt describes banned visual pattern' : 'no banned generic patterns found' });
-  if (genericDetected) failReasons.push('generic portrait collapse pattern detected');
+  if (genericDetected && enabled('non_genericity')) failReasons.push('generic portrait collapse pattern detected');
 
   // 8. ── SCREENPLAY REMOVAL VALUE (TASK 6) ─────────────────────────────────────
   // "If this shot were removed, would the scene lose information, emotion, or transition value?"
@@ -681,11 +711,11 @@ export function verifyPrompt(
     if (isDuplicate) {
       removalScore  = 0;
       removalReason = `COSMETIC DUPLICATE — ${sdc.duplicate_fail_reason || 'no new screenplay value added'}`;
-      failReasons.push(`shot removal value = 0: ${sdc.duplicate_fail_reason || 'cosmetic duplicate of previous shot'}`);
+      if (enabled('screenplay_removal_value')) failReasons.push(`shot removal value = 0: ${sdc.duplicate_fail_reason || 'cosmetic duplicate of previous shot'}`);
     } else if (isMinimalDelta && !hasNewInfo) {
       removalScore  = 1;
       removalReason = 'minimal visual and narrative delta from previous shot — nearly redundant';
-      failReasons.push('shot adds minimal unique value (nearly redundant with previous shot)');
+      if (enabled('screenplay_removal_value')) failReasons.push('shot adds minimal unique value (nearly redundant with previous shot)');
     } else if (hasNewInfo && hasDelta) {
       removalScore  = 5;
       removalReason = `shot introduces: "${sdc.new_information_introduced.slice(0, 60)}" — scene would lose this information if removed`;
@@ -699,22 +729,24 @@ export function verifyPrompt(
   }
   dims.push({ name: 'screenplay_removal_value', score: removalScore, reason: removalReason });
 
-  const total = dims.reduce((acc, d) => acc + d.score, 0);
+  // ── Profile weighting: drops disabled dims, adds plugin dims ─────────────────
+  const scored = scoreWithProfile(dims, profile, { prompt, shot, scene, mustShow, sdc });
+  const total          = scored.total;
   const beatMatch      = dims.find(d => d.name === 'screenplay_beat_match')?.score ?? 0;
-  const nonGeneric     = dims.find(d => d.name === 'non_genericity')?.score ?? 0;
   const removal        = dims.find(d => d.name === 'screenplay_removal_value')?.score ?? 0;
   const actionVis      = dims.find(d => d.name === 'action_visibility')?.score ?? 0;
 
   // ── 5 EXPLICIT HARD-FAIL CONDITIONS ─────────────────────────────────────────
   // Any one of these blocks generation regardless of total score.
-  const HARD_FAIL_CHECKS: Array<{ condition: boolean; code: string; reason: string }> = [
+  // Dimension-backed checks use the profile's min_score and vanish when it is unset.
+  const HARD_FAIL_CHECKS: Array<{ condition: boolean; code: VerifierHardFailCode; reason: string }> = [
     {
-      condition: actionVis < 3,
+      condition: actionMin != null && actionVis < actionMin,
       code: 'MISSING_SPECIFIC_ACTION',
       reason: `缺少具体动作 — REQUIRED ACTION must contain a specific physical verb (score ${actionVis}/5). Generic verbs like looks/stands/gazes are banned.`,
     },
     {
-      condition: removal < 3 && !sdc?.visual_delta_from_previous?.includes('Opens scene'),
+      condition: removalMin != null && removal < removalMin && !sdc?.visual_delta_from_previous?.includes('Opens scene'),
       code: 'MISSING_UNIQUE_INFO',
       reason: `缺少本镜头独有信息 — screenplay_removal_value ${removal}/5. This shot does not introduce new narrative information that would be lost if removed.`,
     },
@@ -724,31 +756,47 @@ export function verifyPrompt(
       reason: `缺少与上一镜头的差异 — visual_delta is MINIMAL. This shot must differ from the previous in size, angle, height, function, or emotion.`,
     },
     {
-      condition: genericDetected,
+      condition: genericDetected && enabled('non_genericity'),
       code: 'GENERIC_PORTRAIT',
       reason: `仍然是通用人物肖像/氛围图 — GENERIC_PORTRAIT_COLLAPSE detected. Prompt matches a banned visual pattern (standing/looking, blurred city portrait, centered hero pose, etc.).`,
     },
     {
-      condition: beatMatch < 4,
+      condition: beatMin != null && beatMatch < beatMin,
       code: 'NOT_SCREENPLAY_BOUND',
       reason: `不能回答"这张图为什么必须是S${s(sdc ? (sdc as any).scene_number ?? '?' : '?')}.${s(sdc ? (sdc as any).shot_number ?? '?' : '?')}" — screenplay_beat_match ${beatMatch}/5. The prompt does not trace back to this specific shot's beat.`,
     },
   ];
 
-  const hardFails = HARD_FAIL_CHECKS.filter(c => c.condition);
+  const hardFails: VerifierHardFail[] = [
+    ...HARD_FAIL_CHECKS.filter(c => c.condition && hardFailEnabled(profile, c.code)),
+    ...scored.plugin_hard_fails,
+  ];
   hardFails.forEach(hf => {
     if (!failReasons.includes(hf.reason)) failReasons.push(hf.reason);
   });
+  const explained = ['screenplay_beat_match', 'action_visibility', 'non_genericity', 'screenplay_removal_value'];
+  scored.below_min
+    .filter(b => !explained.includes(b.name))
+    .forEach(b => failReasons.push(`${b.name} ${b.score}/5 below profile minimum ${b.min_score}`));
 
-  // Pass requires ALL hard-fail conditions clear + numeric thresholds
-  // total ≥ 28/40, beat_match ≥ 4, non_generic ≥ 4, removal ≥ 3, action_visibility ≥ 3
-  const passes = hardFails.length === 0 && total >= 28 && beatMatch >= 4 && nonGeneric >= 4 && removal >= 3 && actionVis >= 3;
+  // Pass requires ALL hard-fail conditions clear + the profile's numeric thresholds
+  // (default: total ≥ 28/40, beat_match ≥ 4, non_generic ≥ 4, removal ≥ 3, action_visibility ≥ 3)
+  const passes = hardFails.length === 0 && total >= scored.threshold && scored.below_min.length === 0;
 
   if (!passes && failReasons.length === 0) {
-    failReasons.push(`total score ${total}/40 below threshold 28`);
+    failReasons.push(`total score ${total}/${scored.max_total} below threshold ${scored.threshold} (${profile.id})`);
   }
 
-  return { total, passes, dimensions: dims, fail_reasons: failReasons, generic_portrait_detected: genericDetected, hard_fails: hardFails.map(hf => ({ code: hf.code, reason: hf.reason })) } as VerifierResult;
+  return {
+    total,
+    max_total: scored.max_total,
+    profile: profile.id,
+    passes,
+    dimensions: scored.dimensions,
+    fail_reasons: failReasons,
+    generic_portrait_detected: genericDetected,
+    hard_fails: hardFails.map(hf => ({ code: hf.code, reason: hf.reason })),
+  };
 }
 
 // ─── VIDEO GROUNDING ──────────────────────────────────────────────────────────
@@ -811,6 +859,8 @@ export function rewriteShot(
   characters: any[],
   styleBible: any,
   arcIdx: number,         // 0-based position in scene (0=establish, 1=cover, 2=react, 3=insert)
+  directorRules: DirectorRule[] = [],   // parseDirectorRules(project.director_controls)
+  verifierProfile: VerifierProfile = DEFAULT_VERIFIER_PROFILE,   // resolveVerifierProfile(project)
 ): CanonicalShotResult {
   const geminiProse = s(shot.image_prompt || '');
   const mustShow    = buildMustShow(shot, scene, arcIdx);
@@ -820,7 +870,7 @@ export function rewriteShot(
 
   // ── Build canonical prompt (pass 1) — SDC fields FIRST (TASK 3) ────────────
   let canonical = buildCanonicalPrompt(shot, scene, prevShot, characters, styleBible, arcIdx, mustShow, sdc);
-  let verifier  = verifyPrompt(canonical, shot, scene, mustShow, sdc);
+  let verifier  = verifyPrompt(canonical, shot, scene, mustShow, sdc, verifierProfile);
   let rewrites  = 0;
 
   // ── Auto-rewrite if fails (pass 2) ─────────────────────────────────────────
@@ -832,21 +882,22 @@ export function rewriteShot(
     if (verifier.generic_portrait_detected) {
       fixInstructions.push('BANNED PATTERN DETECTED — rewrite action to show specific physical event, not standing/looking posture');
     }
+    const minOr = (name: string, fallback: number) => dimensionSetting(verifierProfile, name).min_score ?? fallback;
     const beatDim = verifier.dimensions.find(d => d.name === 'screenplay_beat_match');
-    if (beatDim && beatDim.score < 4) {
+    if (beatDim && beatDim.score < minOr('screenplay_beat_match', 4)) {
       fixInstructions.push(`BEAT MISMATCH — action must reference: "${s(shot.action || '').slice(0, 60)}"`);
     }
     const locDim = verifier.dimensions.find(d => d.name === 'location_evidence');
-    if (locDim && locDim.score < 3) {
+    if (locDim && locDim.score < minOr('location_evidence', 3)) {
       const locRef = s(scene?.location || '').split(/[,.\n]/)[0].trim();
       fixInstructions.push(`LOCATION MISSING — must include location terms from: "${locRef}"`);
     }
     const objDim = verifier.dimensions.find(d => d.name === 'threat_object_correctness');
-    if (objDim && objDim.score < 3) {
+    if (objDim && objDim.score < minOr('threat_object_correctness', 3)) {
       fixInstructions.push('OBJECT MISSING — ECU/INSERT shot must name a specific physical object, body part, or detail');
     }
     const removeDim = verifier.dimensions.find(d => d.name === 'screenplay_removal_value');
-    if (removeDim && removeDim.score < 3) {
+    if (removeDim && removeDim.score < minOr('screenplay_removal_value', 3)) {
       fixInstructions.push(`REMOVAL VALUE LOW — this shot is near-duplicate of previous; must introduce: "${sdc.new_information_introduced.slice(0, 60)}"`);
     }
 
@@ -859,7 +910,7 @@ export function rewriteShot(
 
     canonical = buildCanonicalPrompt(shotOverride, scene, prevShot, characters, styleBible, arcIdx, mustShow, sdc);
     canonical += `\n\nREWRITE NOTE: ${fixInstructions.join(' | ')}`;
-    verifier = verifyPrompt(canonical, shotOverride, scene, mustShow, sdc);
+    verifier = verifyPrompt(canonical, shotOverride, scene, mustShow, sdc, verifierProfile);
   }
 
   // ── Video grounding ─────────────────────────────────────────────────────────
@@ -872,6 +923,46 @@ export function rewriteShot(
     shot.video_motion_prompt = shot.video_prompt;
   }
 
+  // ── Director mandates: repair banned elements / avoided phrases ─────────────
+  // Scans the generated artifacts (canonical prompt, video prompt, dialogue).
+  // Anything the repair cannot remove blocks the shot as a verifier hard fail.
+  const artifacts: Record<string, any> = {
+    canonical_prompt:    canonical,
+    video_prompt:        shot.video_prompt,
+    video_motion_prompt: shot.video_motion_prompt,
+    dialogue_text:       shot.dialogue_text ?? (typeof shot.dialogue === 'string' ? shot.dialogue : shot.dialogue?.line),
+    dialogue_subtext:    shot.dialogue_subtext ?? shot.dialogue?.subtext,
+  };
+  const directorReport = enforceDirectorRules(artifacts, directorRules, {
+    canonical_prompt:    SHOT_RULE_FIELDS.canonical_prompt,
+    video_prompt:        SHOT_RULE_FIELDS.video_prompt,
+    video_motion_prompt: SHOT_RULE_FIELDS.video_motion_prompt,
+    dialogue_text:       SHOT_RULE_FIELDS.dialogue_text,
+    dialogue_subtext:    SHOT_RULE_FIELDS.dialogue_subtext,
+  });
+  if (directorReport.violations.length > 0) {
+    canonical = artifacts.canonical_prompt;
+    if (typeof shot.video_prompt === 'string') shot.video_prompt = artifacts.video_prompt;
+    if (typeof shot.video_motion_prompt === 'string') shot.video_motion_prompt = artifacts.video_motion_prompt;
+    if (typeof shot.dialogue_text === 'string') shot.dialogue_text = artifacts.dialogue_text;
+    else if (typeof shot.dialogue?.line === 'string') shot.dialogue.line = artifacts.dialogue_text;
+    else if (typeof shot.dialogue === 'string') shot.dialogue = artifacts.dialogue_text;
+    if (typeof shot.dialogue_subtext === 'string') shot.dialogue_subtext = artifacts.dialogue_subtext;
+    else if (typeof shot.dialogue?.subtext === 'string') shot.dialogue.subtext = artifacts.dialogue_subtext;
+  }
+  if (directorReport.blocked) {
+    const reasons = directorRuleFailReasons(directorReport);
+    verifier = {
+      ...verifier,
+      passes: false,
+      fail_reasons: [...verifier.fail_reasons, ...reasons],
+      hard_fails: [
+        ...(verifier.hard_fails || []),
+        ...reasons.map(reason => ({ code: 'DIRECTOR_RULE_VIOLATION', reason })),
+      ],
+    };
+  }
+
   // ── Determine screenplay beat for UI ───────────────────────────────────────
   const scriptBeat = s(shot.action || shot.visual_description || '').split(/[.!?]/)[0].trim().slice(0, 100);
 
@@ -886,6 +977,7 @@ export function rewriteShot(
     rewrite_count:         rewrites,
     gemini_prose_discarded: geminiProseDifferent,
     sdc,
+    director_rules:        directorReport,
   };
 }
 
@@ -909,6 +1001,7 @@ export interface ShotExplain {
   why_differs:     string;    // why it differs from previous shot
   verifier_passes: boolean;
   verifier_score:  string;    // e.g. "32/40"
+  verifier_profile: string;   // profile the score was computed under
   fail_reasons:    string[];  // populated if verifier fails
   hard_fail_codes: string[];  // e.g. ['MISSING_SPECIFIC_ACTION']
   blocked:         boolean;   // true when hard_fails exist → cannot enter video generation
@@ -928,7 +1021,7 @@ export function buildShotExplain(
 
   const beat = s(shot.action || shot.visual_description || '').split(/[.!?]/)[0].trim().slice(0, 100);
 
-  const scoreStr = `${verifier.total}/${verifier.dimensions.length * 5}`;
+  const scoreStr = `${verifier.total}/${verifier.max_total}`;
 
   const hardFailCodes = (verifier.hard_fails ?? []).map(hf => hf.code);
 
@@ -956,6 +1049,7 @@ export function buildShotExplain(
     why_differs:     whyDiffers,
     verifier_passes: verifier.passes,
     verifier_score:  scoreStr,
+    verifier_profile: verifier.profile,
     fail_reasons:    verifier.fail_reasons,
     hard_fail_codes: hardFailCodes,
     blocked,
@@ -35,6 +35,17 @@ export interface SceneContinuityMemory {
   prop_state?: string;
 }
 
+/** One prop or outfit in the state the continuity ledger (lib/continuityLedger.ts) puts it at this shot */
+export interface EntityStateLock {
+  kind: 'prop' | 'costume';
+  name: string;
+  state: string;
+  /** Outfit or prop description the state applies to */
+  description?: string;
+  /** Shot where the state was established */
+  since_shot_id?: string;
+}
+
 export interface ContinuityConfig {
   strictness?: ContinuityStrictness;
   lockCharacter?: boolean;
@@ -45,6 +56,7 @@ export interface ContinuityConfig {
   character_bible?: CharacterBible;
   style_bible?: StyleBible;
   scene_memory?: SceneContinuityMemory;
+  entity_states?: EntityStateLock[];
   project_context?: {
     project_id?: string;
     visual_style?: string;
@@ -63,6 +75,7 @@ export interface ContinuityProfile {
   characterBible: CharacterBible;
   styleBible: StyleBible;
   sceneMemory: SceneContinuityMemory;
+  entityStates: EntityStateLock[];
   lockedCastLine: string;
   identityAnchorLine: string;
 }
@@ -173,6 +186,10 @@ export function buildContinuityProfile(config: ContinuityConfig | undefined, fal
     ...(config?.scene_memory || {}),
   };
 
+  const entityStates = Array.isArray(config?.entity_states)
+    ? config!.entity_states.filter((e) => normalize(e?.name) && normalize(e?.state))
+    : [];
+
   const lockedCastLine = buildLockedCastLine(config?.project_context?.story_entities);
   const identityAnchorLine = characterAnchor;
 
@@ -186,6 +203,7 @@ export function buildContinuityProfile(config: ContinuityConfig | undefined, fal
     characterBible,
     styleBible,
     sceneMemory,
+    entityStates,
     lockedCastLine,
     identityAnchorLine,
   };
@@ -221,6 +239,12 @@ export function applyContinuityLocks(basePrompt: string, profile: ContinuityProf
       parts.push(`[COSTUME/PROP LOCK] ${costumeLine}`);
     }
     parts.push('Keep outfit silhouette, accessory family, and prop design language unchanged unless explicitly changed by shot metadata.');
+    if (profile.entityStates.length > 0) {
+      const stateLine = profile.entityStates
+        .map((e) => `${normalize(e.name)}: ${normalize(e.state)}${normalize(e.description) ? ` (${normalize(e.description)})` : ''}`)
+        .join(' | ');
+      parts.push(`[PROP/COSTUME STATE] ${stateLine}. Show each listed item in exactly this state; do not restore or repair it.`);
+    }
   }
 
   if (profile.lockScene) {
@@ -0,0 +1,443 @@
+/**
+ * lib/continuityLedger.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Prop and wardrobe state tracking across the shot sequence.
+ *
+ * PropBible.continuity_states and CostumeBible.allowed_states name the states a
+ * prop or outfit can be in; the ledger works out which ones hold at every shot.
+ * States sit on independent facets (damage, soil, moisture, readiness, …), so a
+ * sword can be broken and drawn, a cloak torn and wet; within a facet the latest
+ * state wins. Each facet's state is:
+ *   • initial — first listed state, or the scene's default outfit on a scene change
+ *   • derived — a state cue in the shot's action ("the blade snaps" → broken)
+ *   • pinned  — a user pin at that shot; always wins
+ *   • carried — unchanged since an earlier shot
+ *
+ * Some states cannot undo themselves (broken, torn, burned, …). A later shot
+ * whose action puts the entity back in another state of the same facet, with no
+ * restoring action (repair, wash, change of clothes) and no pin, is a
+ * regression: the ledger keeps the established state for the prompt lock and
+ * reports the shot.
+ *
+ * Props come from the prop bible (or story_entities of type prop), outfits from
+ * the costume bible and CharacterIdentityLaw outfit_memory.
+ */
+
+import type { ContinuityStatePin, CostumeBible, PropBible } from '../types';
+import type { EntityStateLock } from './continuity';
+
+export type LedgerEntityKind = EntityStateLock['kind'];
+
+export interface LedgerEntity {
+  entity_id: string;
+  kind: LedgerEntityKind;
+  name: string;
+  /** Allowed states; empty = any state in the cue vocabulary for its kind */
+  states: string[];
+  initial_state: string;
+  /** Lowercase words that identify the entity in shot text */
+  aliases: string[];
+  /** Prop look, or the outfit worn when no scene default applies */
+  description: string;
+  /** Costumes: outfit by scene_id or scene number */
+  outfit_by_scene?: Record<string, string>;
+}
+
+export interface LedgerEntityState extends EntityStateLock {
+  entity_id: string;
+  /** One state per facet, in facet order; `state` joins them */
+  states: string[];
+  source: 'initial' | 'derived' | 'pinned' | 'carried';
+  /** The shot mentions the prop, or the character wearing the outfit is in it */
+  present: boolean;
+}
+
+export interface LedgerShotEntry {
+  shot_id: string;
+  index: number;
+  scene_id: string | null;
+  states: LedgerEntityState[];
+}
+
+export interface ContinuityRegression {
+  entity_id: string;
+  kind: LedgerEntityKind;
+  name: string;
+  shot_id: string;
+  index: number;
+  /** State the ledger keeps */
+  previous_state: string;
+  /** State the shot's action implies */
+  state: string;
+  established_at_shot: string;
+  reason: string;
+}
+
+export interface ContinuityLedger {
+  entities: LedgerEntity[];
+  shots: LedgerShotEntry[];
+  regressions: ContinuityRegression[];
+  /** Pins naming an unknown shot, entity or state; not applied */
+  unresolved_pins: Array<ContinuityStatePin & { reason: string }>;
+  pass: boolean;
+}
+
+export interface ContinuityLedgerSources {
+  prop_bible?: PropBible[];
+  costume_bible?: CostumeBible[];
+  /** identity_lock_bundle.outfit_memory — character_id → outfit */
+  outfit_memory?: Record<string, string>;
+  /** character_registry — resolves character_id to the name used in shot text */
+  characters?: Array<{ character_id: string; name: string }>;
+  /** Locked story entities; those of type prop are tracked when the prop bible omits them */
+  story_entities?: Array<{ id?: string; type?: string; name?: string; description?: string }>;
+}
+
+// ─── Vocabulary ───────────────────────────────────────────────────────────────
+
+const STATE_CUES: Record<string, string[]> = {
+  intact: ['intact', 'whole', 'unbroken', 'undamaged', 'pristine', 'gleaming'],
+  broken: ['broken', 'break', 'breaks', 'snap', 'snaps', 'snapped', 'shatter', 'shatters', 'shattered', 'cracks', 'cracked', 'splinters'],
+  destroyed: ['destroyed', 'destroys', 'smashed', 'smashes', 'crushed', 'crushes'],
+  torn: ['torn', 'ripped', 'rips', 'shredded', 'slashed'],
+  burned: ['burned', 'burnt', 'scorched', 'charred', 'singed'],
+  bloodied: ['bloodied', 'bloody', 'bloodstained', 'blood-stained', 'blood-soaked'],
+  wet: ['wet', 'soaked', 'drenched', 'dripping', 'sodden'],
+  muddy: ['muddy', 'mud-caked', 'mud-splattered'],
+  dirty: ['dirty', 'dusty', 'grimy', 'filthy', 'soot-covered'],
+  clean: ['clean', 'spotless', 'freshly washed'],
+  dry: ['dry', 'dried', 'dries'],
+  drawn: ['drawn', 'draws', 'unsheathes', 'unsheathed', 'brandishes'],
+  sheathed: ['sheathed', 'sheathes', 'holstered', 'holsters'],
+  lit: ['lit', 'lights', 'ignites', 'ignited'],
+  extinguished: ['extinguished', 'extinguishes', 'snuffed', 'snuffs', 'blown out'],
+  open: ['open', 'opens', 'opened', 'unlocked'],
+  closed: ['closed', 'closes', 'shut', 'shuts'],
+  lost: ['lost', 'loses', 'stolen', 'missing'],
+  held: ['held', 'holds', 'holding', 'grips', 'gripping', 'clutches', 'clutching', 'carries', 'carrying', 'retrieves', 'retrieved', 'recovers', 'recovered', 'finds', 'found'],
+};
+
+/**
+ * States on one facet exclude each other; states on different facets coexist.
+ * States outside every facet (bible-specific ones) share the 'custom' facet.
+ */
+const STATE_FACETS: Array<[string, string[]]> = [
+  ['damage', ['intact', 'broken', 'cracked', 'shattered', 'destroyed', 'torn', 'burned']],
+  ['soil', ['clean', 'muddy', 'dirty', 'bloodied']],
+  ['moisture', ['dry', 'wet']],
+  ['readiness', ['drawn', 'sheathed']],
+  ['light', ['lit', 'extinguished']],
+  ['access', ['open', 'closed']],
+  ['possession', ['held', 'lost']],
+];
+const FACET_OF = new Map(STATE_FACETS.flatMap(([facet, states]) => states.map((st) => [st, facet] as const)));
+const FACET_ORDER = [...STATE_FACETS.map(([facet]) => facet), 'custom'];
+
+const facetOf = (state: string) => FACET_OF.get(state) || 'custom';
+
+const PROP_VOCABULARY = ['intact', 'broken', 'destroyed', 'burned', 'bloodied', 'wet', 'dry', 'drawn', 'sheathed', 'lit', 'extinguished', 'open', 'closed', 'held', 'lost'];
+const COSTUME_VOCABULARY = ['clean', 'wet', 'dry', 'muddy', 'dirty', 'torn', 'burned', 'bloodied'];
+
+/** States that never revert on their own */
+const IRREVERSIBLE = new Set(['broken', 'destroyed', 'shattered', 'cracked', 'torn', 'burned', 'bloodied', 'lost']);
+
+/** Actions that legitimately undo an irreversible state */
+const RESTORE_CUE = /\b(repair(s|ed)?|mend(s|ed)?|fix(es|ed)?|reforge[sd]?|restore[sd]?|replace[sd]?|wash(es|ed)?|clean(s|ed)|chang(es|ed) (into|clothes|outfit)|new (outfit|clothes)|retriev(es|ed)|recover(s|ed)|finds|found)\b/i;
+
+const GARMENT_WORD = /\b(outfit|clothes|clothing|coat|jacket|dress|gown|shirt|blouse|robe|cloak|cape|armou?r|uniform|suit|sleeves?|collar|trousers|pants|skirt|boots|shoes|hat|hood|scarf|gloves|kimono|hanfu|vest)\b/i;
+
+const SHOT_TEXT_FIELDS = ['action', 'visual_description', 'shot_description', 'art_direction', 'continuity_notes', 'continuity_constraints'];
+
+const s = (v: any): string => (v == null ? '' : typeof v === 'string' ? v : String(v));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wordPattern = (phrase: string) => new RegExp(`(?<![a-z0-9])${escapeRegExp(phrase.toLowerCase())}(?![a-z0-9])`, 'g');
+
+function cleanStates(states: unknown): string[] {
+  if (!Array.isArray(states)) return [];
+  return [...new Set(states.map((st) => s(st).trim().toLowerCase()).filter(Boolean))];
+}
+
+function cuesFor(state: string): string[] {
+  return [...new Set([state, ...(STATE_CUES[state] || [])])];
+}
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+function propAliases(name: string, id: string): string[] {
+  const words = name.toLowerCase().replace(/['’]s\b/g, '').split(/[^a-z0-9-]+/).filter((w) => w.length > 2);
+  return [...new Set([name.toLowerCase(), words[words.length - 1], id.toLowerCase()].filter((a) => a && a.length > 2))];
+}
+
+/** Tracked props and outfits, in bible order. */
+export function buildLedgerEntities(sources: ContinuityLedgerSources): LedgerEntity[] {
+  const entities: LedgerEntity[] = [];
+  const seenNames = new Set<string>();
+
+  for (const prop of sources.prop_bible || []) {
+    const id = s(prop?.prop_id || prop?.name).trim();
+    if (!id) continue;
+    const name = s(prop.name).trim() || id;
+    const states = cleanStates(prop.continuity_states);
+    seenNames.add(name.toLowerCase());
+    entities.push({
+      entity_id: id,
+      kind: 'prop',
+      name,
+      states,
+      initial_state: states[0] || 'intact',
+      aliases: propAliases(name, id),
+      description: [prop.color, prop.material, ...(prop.must_keep_traits || [])].map((v) => s(v).trim()).filter(Boolean).join(', '),
+    });
+  }
+  for (const entity of sources.story_entities || []) {
+    const name = s(entity?.name).trim();
+    if (s(entity?.type).toLowerCase() !== 'prop' || !name || seenNames.has(name.toLowerCase())) continue;
+    seenNames.add(name.toLowerCase());
+    const id = s(entity.id).trim() || name;
+    entities.push({
+      entity_id: id,
+      kind: 'prop',
+      name,
+      states: [],
+      initial_state: 'intact',
+      aliases: propAliases(name, id),
+      description: s(entity.description).trim().slice(0, 120),
+    });
+  }
+
+  const nameById = new Map((sources.characters || []).map((c) => [s(c?.character_id), s(c?.name).trim()]));
+  const outfitMemory = sources.outfit_memory || {};
+  const costumeFor = (characterId: string, states: string[], outfitByScene?: Record<string, string>): LedgerEntity => {
+    const characterName = nameById.get(characterId) || characterId;
+    return {
+      entity_id: `costume:${characterId}`,
+      kind: 'costume',
+      name: `${characterName}'s outfit`,
+      states,
+      initial_state: states[0] || 'clean',
+      aliases: [...new Set([characterName.toLowerCase(), characterId.toLowerCase()].filter((a) => a.length > 2))],
+      description: s(outfitMemory[characterId]).trim(),
+      outfit_by_scene: outfitByScene,
+    };
+  };
+  const costumed = new Set<string>();
+  for (const costume of sources.costume_bible || []) {
+    const characterId = s(costume?.character_id).trim();
+    if (!characterId || costumed.has(characterId)) continue;
+    costumed.add(characterId);
+    entities.push(costumeFor(characterId, cleanStates(costume.allowed_states), costume.default_outfit_by_scene || undefined));
+  }
+  for (const characterId of Object.keys(outfitMemory)) {
+    if (costumed.has(characterId) || !s(outfitMemory[characterId]).trim()) continue;
+    costumed.add(characterId);
+    entities.push(costumeFor(characterId, []));
+  }
+  return entities;
+}
+
+// ─── Shots ────────────────────────────────────────────────────────────────────
+
+export function ledgerShotId(shot: any, index: number): string {
+  const id = s(shot?.shot_id || shot?.id).trim();
+  if (id) return id;
+  return `${s(shot?.scene_number).trim() || '?'}-${s(shot?.shot_number).trim() || index + 1}`;
+}
+
+function shotSentences(shot: any): string[] {
+  const texts = [...new Set(SHOT_TEXT_FIELDS.map((f) => s(shot?.[f]).trim()).filter(Boolean))];
+  if (texts.length === 0 && s(shot?.image_prompt).trim()) texts.push(s(shot.image_prompt).trim());
+  return texts
+    .flatMap((t) => t.split(/(?<=[.!?])\s+|\n+/))
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function shotCharacters(shot: any): string[] {
+  let list: unknown = shot?.characters ?? shot?.characters_in_shot;
+  if (!Array.isArray(list) && typeof shot?.characters_json === 'string') {
+    try { list = JSON.parse(shot.characters_json); } catch { list = []; }
+  }
+  if (!Array.isArray(list)) return [];
+  return list.map((c: any) => s(typeof c === 'string' ? c : c?.name).trim().toLowerCase()).filter(Boolean);
+}
+
+const mentions = (sentence: string, aliases: string[]) => aliases.some((a) => wordPattern(a).test(sentence));
+
+/** Sentences that speak about the entity; empty when the shot does not show it. */
+function relevantSentences(entity: LedgerEntity, sentences: string[], characters: string[], soloCharacter: boolean): { present: boolean; sentences: string[] } {
+  if (entity.kind === 'prop') {
+    const about = sentences.filter((st) => mentions(st, entity.aliases));
+    return { present: about.length > 0, sentences: about };
+  }
+  const inCast = characters.some((c) => entity.aliases.includes(c));
+  const about = sentences.filter((st) => mentions(st, entity.aliases) || (inCast && soloCharacter && GARMENT_WORD.test(st)));
+  return { present: inCast || about.length > 0, sentences: about };
+}
+
+/** Per facet, the state cue mentioned last in the entity's sentences — the states the shot ends in. */
+function deriveStates(entity: LedgerEntity, sentences: string[]): Map<string, string> {
+  const candidates = entity.states.length > 0
+    ? entity.states
+    : entity.kind === 'prop' ? PROP_VOCABULARY : COSTUME_VOCABULARY;
+  const best = new Map<string, { state: string; at: number }>();
+  sentences.forEach((sentence, si) => {
+    for (const state of candidates) {
+      const facet = facetOf(state);
+      for (const cue of cuesFor(state)) {
+        for (const m of sentence.matchAll(wordPattern(cue))) {
+          const at = si * 10000 + (m.index ?? 0);
+          const prev = best.get(facet);
+          if (!prev || at > prev.at) best.set(facet, { state, at });
+        }
+      }
+    }
+  });
+  return new Map([...best].map(([facet, b]) => [facet, b.state]));
+}
+
+type FacetStates = Map<string, { state: string; since: string }>;
+
+const initialFacets = (entity: LedgerEntity, since: string): FacetStates =>
+  new Map([[facetOf(entity.initial_state), { state: entity.initial_state, since }]]);
+
+function facetList(facets: FacetStates): Array<{ state: string; since: string }> {
+  return FACET_ORDER.filter((f) => facets.has(f)).map((f) => facets.get(f)!);
+}
+
+function sceneOutfit(entity: LedgerEntity, shot: any): string {
+  if (!entity.outfit_by_scene) return '';
+  return s(entity.outfit_by_scene[s(shot?.scene_id)] || entity.outfit_by_scene[s(shot?.scene_number)]).trim();
+}
+
+/**
+ * Walks the shots in story order and records every tracked entity's state at
+ * each one. Pins are matched by shot_id (ledgerShotId) and entity_id.
+ */
+export function buildContinuityLedger(
+  shots: any[],
+  sources: ContinuityLedgerSources = {},
+  pins: ContinuityStatePin[] = [],
+): ContinuityLedger {
+  const entities = buildLedgerEntities(sources);
+  const entityById = new Map(entities.map((e) => [e.entity_id, e]));
+  const shotIds = shots.map((shot, i) => ledgerShotId(shot, i));
+  const shotIndex = new Map(shotIds.map((id, i) => [id, i]));
+
+  const unresolved: ContinuityLedger['unresolved_pins'] = [];
+  const pinsByShot = new Map<string, Map<string, ContinuityStatePin>>();
+  for (const pin of pins) {
+    const entity = entityById.get(s(pin?.entity_id));
+    const state = s(pin?.state).trim().toLowerCase();
+    let reason = '';
+    if (!shotIndex.has(s(pin?.shot_id))) reason = 'unknown shot_id';
+    else if (!entity) reason = 'unknown entity_id';
+    else if (!state) reason = 'empty state';
+    else if (entity.states.length > 0 && !entity.states.includes(state)) reason = `state must be one of: ${entity.states.join(', ')}`;
+    if (reason) {
+      unresolved.push({ ...pin, reason });
+      continue;
+    }
+    if (!pinsByShot.has(pin.shot_id)) pinsByShot.set(pin.shot_id, new Map());
+    pinsByShot.get(pin.shot_id)!.set(pin.entity_id, { ...pin, state });
+  }
+
+  const current = new Map(entities.map((e) => [e.entity_id, {
+    facets: initialFacets(e, shotIds[0] || ''),
+    description: e.description,
+  }]));
+  const regressions: ContinuityRegression[] = [];
+  const entries: LedgerShotEntry[] = [];
+  let previousScene: string | null = null;
+
+  shots.forEach((shot, index) => {
+    const shotId = shotIds[index];
+    const sceneKey = s(shot?.scene_id || shot?.scene_number).trim() || null;
+    const sentences = shotSentences(shot);
+    const characters = shotCharacters(shot);
+    const shotPins = pinsByShot.get(shotId);
+
+    const states = entities.map((entity): LedgerEntityState => {
+      let cur = current.get(entity.entity_id)!;
+      let source: LedgerEntityState['source'] = index === 0 ? 'initial' : 'carried';
+
+      // A new scene with its own default outfit starts that outfit fresh
+      if (entity.kind === 'costume' && index > 0 && sceneKey !== previousScene) {
+        const outfit = sceneOutfit(entity, shot);
+        if (outfit && outfit !== cur.description) {
+          cur = { facets: initialFacets(entity, shotId), description: outfit };
+          source = 'initial';
+        }
+      } else if (entity.kind === 'costume' && index === 0) {
+        cur = { ...cur, description: sceneOutfit(entity, shot) || cur.description };
+      }
+
+      const about = relevantSentences(entity, sentences, characters, characters.length <= 1);
+      const pin = shotPins?.get(entity.entity_id);
+      if (pin) {
+        const facet = facetOf(pin.state);
+        if (cur.facets.get(facet)?.state !== pin.state) {
+          cur = { ...cur, facets: new Map(cur.facets).set(facet, { state: pin.state, since: shotId }) };
+        }
+        source = 'pinned';
+      } else if (about.present) {
+        const restored = about.sentences.some((st) => RESTORE_CUE.test(st));
+        for (const [facet, derived] of deriveStates(entity, about.sentences)) {
+          const held = cur.facets.get(facet);
+          if (held?.state === derived) continue;
+          if (held && IRREVERSIBLE.has(held.state) && !IRREVERSIBLE.has(derived) && !restored) {
+            regressions.push({
+              entity_id: entity.entity_id,
+              kind: entity.kind,
+              name: entity.name,
+              shot_id: shotId,
+              index,
+              previous_state: held.state,
+              state: derived,
+              established_at_shot: held.since,
+              reason: `${entity.name} is ${held.state} since shot ${held.since}, but shot ${shotId} shows it ${derived} with no repair or change`,
+            });
+          } else {
+            cur = { ...cur, facets: new Map(cur.facets).set(facet, { state: derived, since: shotId }) };
+            source = 'derived';
+          }
+        }
+      }
+      current.set(entity.entity_id, cur);
+
+      const held = facetList(cur.facets);
+      return {
+        entity_id: entity.entity_id,
+        kind: entity.kind,
+        name: entity.name,
+        state: held.map((f) => f.state).join(', '),
+        states: held.map((f) => f.state),
+        description: cur.description || undefined,
+        since_shot_id: held.reduce((latest, f) => ((shotIndex.get(f.since) ?? -1) > (shotIndex.get(latest) ?? -1) ? f.since : latest), held[0]?.since || ''),
+        source,
+        present: about.present || !!pin,
+      };
+    });
+
+    entries.push({ shot_id: shotId, index, scene_id: sceneKey, states });
+    previousScene = sceneKey;
+  });
+
+  return {
+    entities,
+    shots: entries,
+    regressions,
+    unresolved_pins: unresolved,
+    pass: regressions.length === 0,
+  };
+}
+
+/** The states to lock into a shot's prompt: entities the shot shows. */
+export function ledgerStatesForShot(ledger: ContinuityLedger, shotId: string): EntityStateLock[] {
+  const entry = ledger.shots.find((e) => e.shot_id === shotId);
+  if (!entry) return [];
+  return entry.states
+    .filter((st) => st.present)
+    .map(({ kind, name, state, description, since_shot_id }) => ({ kind, name, state, description, since_shot_id }));
+}
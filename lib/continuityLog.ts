@@ -0,0 +1,296 @@
+/**
+ * lib/continuityLog.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Script supervisor's continuity log — one printable report per project.
+ *
+ * Collects, shot by shot, what a script supervisor tracks on set:
+ *   characters, wardrobe and props (continuity ledger), location and time of
+ *   day, screen direction, continuity in/out, the scores (verifier, storyboard
+ *   continuity / narrative / visual match, duplicate risk) and every violation
+ *   still open on the shot.
+ * The project header carries the DirectorVerificationReport summary.
+ *
+ * renderContinuityLogHtml() and renderContinuityLogPdf() produce the files
+ * served by POST /api/export/continuity-report, so the same log can be
+ * downloaded or attached to a review email.
+ */
+
+import type { DirectorVerificationReport, StoryboardProject } from '../types';
+import type { ContinuityLedger } from './continuityLedger';
+import { renderTextPdf, type PdfTextLine } from './textPdf';
+
+/** The storyboard scores the pipeline keeps for a shot (RuntimeShotState subset) */
+export interface ContinuityLogRuntimeShot {
+  status?: string;
+  continuityScore?: number;
+  narrativeScore?: number;
+  visualMatchScore?: number;
+  violationTags?: string[];
+}
+
+export interface ContinuityLogScores {
+  verifier: number | null;
+  verifier_max: number | null;
+  continuity: number | null;
+  narrative: number | null;
+  visual_match: number | null;
+  duplicate_risk: number | null;
+}
+
+export interface ContinuityLogRow {
+  index: number;
+  shot_id: string;
+  scene_number: number | null;
+  scene_title: string;
+  status: string;
+  characters: string[];
+  /** "name: state (outfit)" per outfit in frame */
+  wardrobe: string[];
+  /** "name: state" per prop in frame */
+  props: string[];
+  location: string;
+  time_of_day: string;
+  screen_direction: string;
+  continuity_in: string;
+  continuity_out: string;
+  scores: ContinuityLogScores;
+  violations: string[];
+}
+
+export interface ContinuityLog {
+  project_id: string | null;
+  project_title: string;
+  generated_at: string;
+  shot_count: number;
+  verification: Pick<DirectorVerificationReport, 'overall_score' | 'pass' | 'failed_reasons'> | null;
+  /** Shots with at least one open violation */
+  shots_with_violations: number;
+  open_violation_count: number;
+  rows: ContinuityLogRow[];
+}
+
+export interface ContinuityLogOptions {
+  /** Pipeline runtime by shot id */
+  runtime?: Map<string, ContinuityLogRuntimeShot>;
+  ledger?: ContinuityLedger | null;
+  /** Override for tests and re-exports; default now */
+  generatedAt?: Date;
+}
+
+const s = (v: any): string => (v == null ? '' : typeof v === 'string' ? v : String(v)).trim();
+
+const num = (v: any): number | null => {
+  const n = typeof v === 'number' ? v : v == null || v === '' ? NaN : Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+const SCREEN_DIRECTION = /\b(left[- ]to[- ]right|right[- ]to[- ]left|towards? (?:the )?(?:camera|lens)|away from (?:the )?camera|(?:enters|exits|moves|looks|faces|facing|runs|walks) (?:frame |screen )?(?:left|right)|(?:frame|screen) (?:left|right))\b/i;
+
+/** Explicit screen_direction, else the first direction phrase in the motion / composition / action text. */
+function screenDirection(shot: any): string {
+  const explicit = s(shot?.screen_direction);
+  if (explicit) return explicit;
+  for (const field of ['motion_bridge', 'camera_motion', 'movement', 'composition', 'visual_description', 'action']) {
+    const match = s(shot?.[field]).match(SCREEN_DIRECTION);
+    if (match) return match[0].toLowerCase();
+  }
+  return '';
+}
+
+function shotCharacters(shot: any): string[] {
+  let list: unknown = shot?.characters;
+  if (!Array.isArray(list) && typeof shot?.characters_json === 'string') {
+    try { list = JSON.parse(shot.characters_json); } catch { list = []; }
+  }
+  return Array.isArray(list) ? list.map((c: any) => s(typeof c === 'string' ? c : c?.name)).filter(Boolean) : [];
+}
+
+/** Ids the same shot may be known by: stored row id, pipeline shot_id, or its generated fallback. */
+function runtimeKeys(shot: any): string[] {
+  return [s(shot?.shot_id), s(shot?.id), s(shot?.panel_id), `shot-${s(shot?.scene_number)}`].filter(Boolean);
+}
+
+export function buildContinuityLog(project: StoryboardProject, opts: ContinuityLogOptions = {}): ContinuityLog {
+  const shots: any[] = project.scenes || [];
+  const ledgerByShot = new Map((opts.ledger?.shots || []).map((e) => [e.shot_id, e]));
+  const regressionsByShot = new Map<string, string[]>();
+  for (const r of opts.ledger?.regressions || []) {
+    if (!regressionsByShot.has(r.shot_id)) regressionsByShot.set(r.shot_id, []);
+    regressionsByShot.get(r.shot_id)!.push(`${r.name}: ${r.previous_state} → ${r.state} (established at ${r.established_at_shot})`);
+  }
+
+  const rows: ContinuityLogRow[] = shots.map((shot, index) => {
+    const keys = runtimeKeys(shot);
+    const runtime = keys.map((k) => opts.runtime?.get(k)).find(Boolean);
+    const ledgerEntry = keys.map((k) => ledgerByShot.get(k)).find(Boolean)
+      // Ledger built from this same shot list: positions line up even without ids
+      || (opts.ledger?.shots.length === shots.length ? opts.ledger.shots[index] : undefined);
+    const inFrame = (ledgerEntry?.states || []).filter((st) => st.present);
+
+    const violations: string[] = [...(runtime?.violationTags || [])];
+    if (shot.verifier_pass === false) violations.push(...(shot.verifier_fail_reasons || []).map((r: any) => `verifier: ${s(r)}`));
+    if (s(shot.duplicate_fail_reason)) violations.push(`duplicate: ${s(shot.duplicate_fail_reason)}`);
+    for (const v of shot.director_rule_violations || []) {
+      if (!v?.repaired) violations.push(`director rule (${s(v.source)}): ${s(v.term)}`);
+    }
+    if (ledgerEntry) violations.push(...(regressionsByShot.get(ledgerEntry.shot_id) || []).map((r) => `state regression: ${r}`));
+
+    return {
+      index,
+      shot_id: keys[0] || `#${index + 1}`,
+      scene_number: num(shot.scene_number),
+      scene_title: s(shot.scene_title),
+      status: s(runtime?.status) || (shot.image_url ? 'generated' : 'pending'),
+      characters: shotCharacters(shot),
+      wardrobe: inFrame
+        .filter((st) => st.kind === 'costume')
+        .map((st) => `${st.name}: ${st.state}${st.description ? ` (${st.description})` : ''}`),
+      props: inFrame.filter((st) => st.kind === 'prop').map((st) => `${st.name}: ${st.state}`),
+      location: s(shot.location || shot.scene_setting),
+      time_of_day: s(shot.time_of_day),
+      screen_direction: screenDirection(shot),
+      continuity_in: s(shot.continuity_in || shot.entering_state),
+      continuity_out: s(shot.continuity_out || shot.exiting_state),
+      scores: {
+        verifier: num(shot.verifier_score),
+        verifier_max: num(shot.verifier_max_score),
+        continuity: num(runtime?.continuityScore),
+        narrative: num(runtime?.narrativeScore),
+        visual_match: num(runtime?.visualMatchScore),
+        duplicate_risk: num(shot.duplicate_risk_score),
+      },
+      violations: [...new Set(violations.filter(Boolean))],
+    };
+  });
+
+  const report = project.verifier_report;
+  return {
+    project_id: project.id || null,
+    project_title: project.project_title || 'Untitled Project',
+    generated_at: (opts.generatedAt || new Date()).toISOString(),
+    shot_count: rows.length,
+    verification: report
+      ? { overall_score: report.overall_score, pass: report.pass, failed_reasons: report.failed_reasons || [] }
+      : null,
+    shots_with_violations: rows.filter((r) => r.violations.length > 0).length,
+    open_violation_count: rows.reduce((acc, r) => acc + r.violations.length, 0),
+    rows,
+  };
+}
+
+// ─── Formatting ───────────────────────────────────────────────────────────────
+
+const DASH = '—';
+
+function scoreText(scores: ContinuityLogScores): string[] {
+  return [
+    scores.verifier != null ? `verifier ${scores.verifier}${scores.verifier_max != null ? `/${scores.verifier_max}` : ''}` : '',
+    scores.continuity != null ? `continuity ${scores.continuity}` : '',
+    scores.narrative != null ? `narrative ${scores.narrative}` : '',
+    scores.visual_match != null ? `visual ${scores.visual_match}` : '',
+    scores.duplicate_risk != null ? `dup risk ${scores.duplicate_risk}` : '',
+  ].filter(Boolean);
+}
+
+const shotLabel = (row: ContinuityLogRow) =>
+  `#${row.index + 1}${row.scene_number != null ? ` · S${row.scene_number}` : ''}${row.scene_title ? ` · ${row.scene_title}` : ''}`;
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function renderContinuityLogHtml(log: ContinuityLog): string {
+  const list = (items: string[]) => (items.length ? items.map((i) => `<div>${escapeHtml(i)}</div>`).join('') : DASH);
+  const cell = (text: string) => (text ? escapeHtml(text) : DASH);
+  const rows = log.rows.map((row) => `
+      <tr class="${row.violations.length ? 'open' : ''}">
+        <td class="shot">${escapeHtml(shotLabel(row))}<div class="muted">${escapeHtml(row.shot_id)} · ${escapeHtml(row.status)}</div></td>
+        <td>${list(row.characters)}</td>
+        <td>${list(row.wardrobe)}</td>
+        <td>${list(row.props)}</td>
+        <td>${cell(row.location)}<div class="muted">${cell(row.time_of_day)}</div></td>
+        <td>${cell(row.screen_direction)}</td>
+        <td><div><b>in</b> ${cell(row.continuity_in)}</div><div><b>out</b> ${cell(row.continuity_out)}</div></td>
+        <td>${list(scoreText(row.scores))}</td>
+        <td class="violations">${list(row.violations)}</td>
+      </tr>`).join('');
+
+  const verification = log.verification
+    ? `<p><b>Director verification:</b> ${log.verification.overall_score} — ${log.verification.pass ? 'PASS' : 'FAIL'}${
+      log.verification.failed_reasons.length ? `<br>${log.verification.failed_reasons.map(escapeHtml).join('<br>')}` : ''}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Continuity Log — ${escapeHtml(log.project_title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font: 10px/1.35 -apple-system, "Helvetica Neue", Arial, "PingFang SC", sans-serif; color: #111; margin: 0; padding: 16px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .summary { margin: 0 0 12px; color: #444; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; vertical-align: top; text-align: left; }
+  th { background: #f2f2f2; font-size: 9px; text-transform: uppercase; letter-spacing: .04em; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  tr.open td.violations { color: #b00020; }
+  .shot { white-space: nowrap; font-weight: 600; }
+  .muted { color: #777; font-weight: 400; }
+</style>
+</head>
+<body>
+  <h1>Continuity Log — ${escapeHtml(log.project_title)}</h1>
+  <p class="summary">Generated ${escapeHtml(log.generated_at)} · ${log.shot_count} shots · ${log.shots_with_violations} with open violations (${log.open_violation_count} total)</p>
+  ${verification}
+  <table>
+    <thead>
+      <tr>
+        <th>Shot</th><th>Characters</th><th>Wardrobe</th><th>Props</th><th>Location / Time</th>
+        <th>Screen direction</th><th>Continuity in / out</th><th>Scores</th><th>Open violations</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+export function renderContinuityLogPdf(log: ContinuityLog): Buffer {
+  const RED: [number, number, number] = [0.69, 0, 0.13];
+  const GREY: [number, number, number] = [0.35, 0.35, 0.35];
+  const joined = (items: string[]) => (items.length ? items.join('; ') : DASH);
+  const lines: PdfTextLine[] = [
+    { text: `Continuity Log — ${log.project_title}`, size: 16, bold: true },
+    {
+      text: `Generated ${log.generated_at} · ${log.shot_count} shots · ${log.shots_with_violations} with open violations (${log.open_violation_count} total)`,
+      color: GREY,
+      spaceBefore: 4,
+    },
+  ];
+  if (log.verification) {
+    lines.push({
+      text: `Director verification: ${log.verification.overall_score} — ${log.verification.pass ? 'PASS' : 'FAIL'}`,
+      bold: true,
+      spaceBefore: 6,
+      color: log.verification.pass ? undefined : RED,
+    });
+    for (const reason of log.verification.failed_reasons) lines.push({ text: `- ${reason}`, indent: 12 });
+  }
+
+  for (const row of log.rows) {
+    lines.push({ text: `${shotLabel(row)}   [${row.shot_id} · ${row.status}]`, bold: true, size: 10, spaceBefore: 10 });
+    lines.push({ text: `Characters: ${joined(row.characters)}   |   Location: ${row.location || DASH}   |   Time: ${row.time_of_day || DASH}   |   Screen direction: ${row.screen_direction || DASH}`, indent: 12 });
+    lines.push({ text: `Wardrobe: ${joined(row.wardrobe)}`, indent: 12 });
+    lines.push({ text: `Props: ${joined(row.props)}`, indent: 12 });
+    lines.push({ text: `Continuity in: ${row.continuity_in || DASH}   |   out: ${row.continuity_out || DASH}`, indent: 12 });
+    lines.push({ text: `Scores: ${joined(scoreText(row.scores))}`, indent: 12 });
+    if (row.violations.length) {
+      lines.push({ text: `Open violations: ${row.violations.join('; ')}`, indent: 12, color: RED });
+    }
+  }
+
+  return renderTextPdf(lines, { title: `Continuity Log — ${log.project_title}`, footer: log.project_title });
+}
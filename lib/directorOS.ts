@@ -87,6 +87,28 @@ export interface ShotGraphNode {
   environment_bridge: string;
   object_bridge: string;
   temporal_guidance: ShotTemporalGuidance;
+  /** Set on shots of an alternate take (ShotGraphBranch); main-line shots have none */
+  branch_id?: string;
+}
+
+/** A named alternate for a range of main-line shots, e.g. a different ending. */
+export interface ShotGraphBranch {
+  branch_id: string;
+  name: string;
+  /** First and last main-line shots the alternate replaces (inclusive) */
+  from_shot_id: string;
+  to_shot_id: string;
+  /** The alternate's own shots in order, each with its own image_url / video_url */
+  shots: any[];
+  notes?: string;
+  created_at?: string;
+}
+
+export class ShotBranchError extends Error {
+  constructor(public branchId: string | undefined, message: string) {
+    super(message);
+    this.name = 'ShotBranchError';
+  }
 }
 
 export function buildDirectorBrainLayer(input: {
@@ -308,6 +330,58 @@ export function buildShotTemporalGuidance(input: {
   };
 }
 
+export function shotRoleAt(idx: number, total: number): ShotGraphNode['shot_role'] {
+  return idx === 0
+    ? 'setup'
+    : idx === total - 1
+    ? 'climax'
+    : idx % 5 === 0
+    ? 'transition'
+    : idx % 3 === 0
+    ? 'reaction'
+    : 'push';
+}
+
+/** One node with its prev/next links and bridges; temporal_guidance is left pending. */
+export function buildShotGraphNode(input: {
+  shot: any;
+  prev?: any;
+  next?: any;
+  idx: number;
+  total: number;
+  panel?: Pick<StoryboardPanel, 'panel_id' | 'panel_index'> | null;
+}): ShotGraphNode {
+  const { shot, prev, next, idx, panel } = input;
+  const entering = asText(shot.continuity_from_previous || shot.action || 'enter with previous state continuity');
+  const exiting = asText(shot.continuity_to_next || shot.action || 'exit with narrative handoff');
+
+  return {
+    shot_id: asText(shot.shot_id || shot.id || `shot_${idx + 1}`),
+    panel_id: asText(panel?.panel_id || `panel_${String((idx % 12) + 1).padStart(2, '0')}`),
+    panel_index: Number(panel?.panel_index || ((idx % 12) + 1)),
+    prev_shot_id: prev ? asText(prev.shot_id || prev.id) : undefined,
+    next_shot_id: next ? asText(next.shot_id || next.id) : undefined,
+    shot_role: shotRoleAt(idx, input.total),
+    entering_state: entering,
+    exiting_state: exiting,
+    continuity_in: asText(shot.continuity_from_previous || 'inherit identity + position + light axis'),
+    continuity_out: asText(shot.continuity_to_next || 'handoff with motion and expression continuity'),
+    motion_bridge: `${asText(prev?.camera_motion || 'hold')} -> ${asText(shot.camera_motion || 'motivated motion')}`,
+    expression_bridge: `${asText(prev?.emotional_beat || 'neutral tension')} -> ${asText(shot.emotional_beat || 'current emotional beat')}`,
+    environment_bridge: `${asText(prev?.scene_setting || prev?.location || 'same environment')} -> ${asText(shot.scene_setting || shot.location || 'current environment')}`,
+    object_bridge: `${asText(prev?.props || 'prop continuity')} -> ${asText(shot.props || 'prop continuity')}`,
+    temporal_guidance: {
+      previous_visual_state: 'pending',
+      current_target_frame_state: 'pending',
+      next_visual_target_state: 'pending',
+      start_frame_intent: 'pending',
+      middle_motion_intent: 'pending',
+      end_frame_intent: 'pending',
+    },
+    ...(shot.branch_id ? { branch_id: asText(shot.branch_id) } : {}),
+  };
+}
+
 export function buildShotGraph(input: {
   shots: any[];
   panels: StoryboardPanel[];
@@ -317,48 +391,14 @@ export function buildShotGraph(input: {
 
   const nodes: ShotGraphNode[] = sorted.map((shot: any, idx: number) => {
     const panel = panels[Math.min(panels.length - 1, Math.floor((idx / Math.max(1, sorted.length)) * panels.length))] || panels[0];
-    const prev = idx > 0 ? sorted[idx - 1] : null;
-    const next = idx < sorted.length - 1 ? sorted[idx + 1] : null;
-
-    const role: ShotGraphNode['shot_role'] = idx === 0
-      ? 'setup'
-      : idx === sorted.length - 1
-      ? 'climax'
-      : idx % 5 === 0
-      ? 'transition'
-      : idx % 3 === 0
-      ? 'reaction'
-      : 'push';
-
-    const entering = asText(shot.continuity_from_previous || shot.action || 'enter with previous state continuity');
-    const exiting = asText(shot.continuity_to_next || shot.action || 'exit with narrative handoff');
-
-    const node: ShotGraphNode = {
-      shot_id: asText(shot.shot_id || shot.id || `shot_${idx + 1}`),
-      panel_id: asText(panel?.panel_id || `panel_${String((idx % 12) + 1).padStart(2, '0')}`),
-      panel_index: Number(panel?.panel_index || ((idx % 12) + 1)),
-      prev_shot_id: prev ? asText(prev.shot_id || prev.id) : undefined,
-      next_shot_id: next ? asText(next.shot_id || next.id) : undefined,
-      shot_role: role,
-      entering_state: entering,
-      exiting_state: exiting,
-      continuity_in: asText(shot.continuity_from_previous || 'inherit identity + position + light axis'),
-      continuity_out: asText(shot.continuity_to_next || 'handoff with motion and expression continuity'),
-      motion_bridge: `${asText(prev?.camera_motion || 'hold')} -> ${asText(shot.camera_motion || 'motivated motion')}`,
-      expression_bridge: `${asText(prev?.emotional_beat || 'neutral tension')} -> ${asText(shot.emotional_beat || 'current emotional beat')}`,
-      environment_bridge: `${asText(prev?.scene_setting || prev?.location || 'same environment')} -> ${asText(shot.scene_setting || shot.location || 'current environment')}`,
-      object_bridge: `${asText(prev?.props || 'prop continuity')} -> ${asText(shot.props || 'prop continuity')}`,
-      temporal_guidance: {
-        previous_visual_state: 'pending',
-        current_target_frame_state: 'pending',
-        next_visual_target_state: 'pending',
-        start_frame_intent: 'pending',
-        middle_motion_intent: 'pending',
-        end_frame_intent: 'pending',
-      },
-    };
-
-    return node;
+    return buildShotGraphNode({
+      shot,
+      prev: idx > 0 ? sorted[idx - 1] : null,
+      next: idx < sorted.length - 1 ? sorted[idx + 1] : null,
+      idx,
+      total: sorted.length,
+      panel,
+    });
   });
 
   nodes.forEach((node, idx) => {
@@ -373,6 +413,54 @@ export function buildShotGraph(input: {
   return nodes;
 }
 
+const shotKey = (shot: any): string => asText(shot?.shot_id || shot?.id || shot?.shotId);
+const bySequence = (a: any, b: any) => Number(a.sequence_order || a.shot_number || 0) - Number(b.sequence_order || b.shot_number || 0);
+
+/** Index range of a branch on the (sorted) main line. */
+export function branchRange(mainShots: any[], branch: ShotGraphBranch): [number, number] {
+  const from = mainShots.findIndex((s) => shotKey(s) === branch.from_shot_id);
+  const to = mainShots.findIndex((s) => shotKey(s) === branch.to_shot_id);
+  if (from < 0 || to < 0) {
+    throw new ShotBranchError(branch.branch_id, `branch ${branch.branch_id}: range shot ${from < 0 ? branch.from_shot_id : branch.to_shot_id} is not on the main line`);
+  }
+  if (from > to) throw new ShotBranchError(branch.branch_id, `branch ${branch.branch_id}: ${branch.from_shot_id} comes after ${branch.to_shot_id}`);
+  return [from, to];
+}
+
+/**
+ * The linear cut for a branch selection: main-line shots in story order with
+ * each active branch's range replaced by its own shots (tagged with branch_id),
+ * sequence_order renumbered. Active branches must not overlap.
+ */
+export function resolveBranchSequence(input: {
+  shots: any[];
+  branches?: ShotGraphBranch[];
+  active_branch_ids?: string[];
+}): any[] {
+  const main = [...arr(input.shots)].sort(bySequence);
+  const branches = arr<ShotGraphBranch>(input.branches);
+  const active = [...new Set(arr<string>(input.active_branch_ids))].map((id) => {
+    const branch = branches.find((b) => b.branch_id === id);
+    if (!branch) throw new ShotBranchError(id, `branch ${id} not found`);
+    return { branch, range: branchRange(main, branch) };
+  }).sort((a, b) => a.range[0] - b.range[0]);
+  for (let i = 1; i < active.length; i++) {
+    if (active[i].range[0] <= active[i - 1].range[1]) {
+      throw new ShotBranchError(active[i].branch.branch_id, `branches ${active[i - 1].branch.branch_id} and ${active[i].branch.branch_id} replace overlapping shots`);
+    }
+  }
+
+  const out: any[] = [];
+  let cursor = 0;
+  for (const { branch, range } of active) {
+    out.push(...main.slice(cursor, range[0]));
+    out.push(...arr(branch.shots).map((shot: any) => ({ ...shot, branch_id: branch.branch_id })));
+    cursor = range[1] + 1;
+  }
+  out.push(...main.slice(cursor));
+  return out.map((shot, idx) => ({ ...shot, sequence_order: idx + 1 }));
+}
+
 export function validateContinuityAgainstPrevNext(input: {
   previous?: ShotGraphNode | null;
   current: ShotGraphNode;
@@ -400,8 +488,14 @@ export function buildEditPlan(input: {
   project_id: string;
   shots: any[];
   audioSegments?: any[];
+  /** Alternates to cut in instead of their main-line ranges (see resolveBranchSequence) */
+  branches?: ShotGraphBranch[];
+  active_branch_ids?: string[];
 }) {
-  const shots = [...arr(input.shots)].sort((a: any, b: any) => Number(a.sequence_order || a.shot_number || 0) - Number(b.sequence_order || b.shot_number || 0));
+  const activeBranchIds = arr<string>(input.active_branch_ids);
+  const shots = activeBranchIds.length > 0
+    ? resolveBranchSequence({ shots: input.shots, branches: input.branches, active_branch_ids: activeBranchIds })
+    : [...arr(input.shots)].sort(bySequence);
   let cursor = 0;
 
   const timeline = shots.map((s: any, idx: number) => {
@@ -424,11 +518,13 @@ export function buildEditPlan(input: {
       music_bed_hint: idx < 2 ? 'intro low' : idx > shots.length - 3 ? 'resolve soft' : 'adaptive underscore',
       j_cut_opportunity: idx > 0,
       l_cut_opportunity: idx < shots.length - 1,
+      ...(s.branch_id ? { branch_id: asText(s.branch_id) } : {}),
     };
   });
 
   return {
     project_id: input.project_id,
+    ...(activeBranchIds.length > 0 ? { active_branch_ids: activeBranchIds } : {}),
     total_duration_sec: Number(cursor.toFixed(2)),
     shot_order: timeline.map((t) => t.shot_id),
     timeline,
@@ -0,0 +1,322 @@
+/**
+ * lib/directorRules.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Hard enforcement of DirectorControls.bannedElements / avoidPhrases.
+ *
+ * Both fields are free text ("No CGI backgrounds, no jump cuts"). Gemini only
+ * sees them as DIRECTOR MANDATES, so nothing guarantees the output obeys them.
+ * This module turns them into matchers and checks the generated text itself:
+ *   • parse   — split on , ; newlines, strip the leading "no / never / avoid /
+ *               不要 …", expand each term with synonyms
+ *   • scan    — whole words only, with an explicit list of plural / verb
+ *               forms (car → cars, smoke → smoking; never care or caring).
+ *               A mention counts only when it is not negated ("without CGI",
+ *               "no gun in frame") and not inside a negative section
+ *               ("REJECT IF: …", "Avoid: …")
+ *   • repair  — prompts lose the clause that carries the term; dialogue is
+ *               never rewritten
+ *   • report  — whatever is not repaired blocks the shot (verifier hard fail)
+ */
+
+export type DirectorRuleSource = 'bannedElements' | 'avoidPhrases';
+
+export interface DirectorRule {
+  id: string;
+  source: DirectorRuleSource;
+  /** The item as the director typed it, e.g. "No CGI backgrounds" */
+  raw: string;
+  /** Normalised term, e.g. "cgi backgrounds" */
+  term: string;
+  /** term + synonym forms, all matched */
+  variants: string[];
+}
+
+export interface DirectorRuleViolation {
+  rule_id: string;
+  source: DirectorRuleSource;
+  term: string;
+  /** Artifact field the text came from, e.g. 'canonical_prompt', 'dialogue_text' */
+  field: string;
+  /** The text that matched */
+  matched: string;
+  excerpt: string;
+  repaired: boolean;
+}
+
+export interface DirectorRuleReport {
+  rules: number;
+  violations: DirectorRuleViolation[];
+  repaired: number;
+  /** True when a violation could not be repaired — the shot must not be generated */
+  blocked: boolean;
+}
+
+/** 'clause' drops the comma/sentence fragment carrying the term; 'none' only reports it. */
+export type DirectorRuleRepairMode = 'clause' | 'none';
+
+// Interchangeable phrasings. A term containing one of them also matches the others.
+const SYNONYM_GROUPS: string[][] = [
+  ['cgi', 'cg', 'computer generated', 'computer-generated', 'digital effects', '3d render'],
+  ['jump cut', 'jump-cut', 'smash cut'],
+  ['gun', 'pistol', 'rifle', 'firearm', 'revolver', 'handgun'],
+  ['blood', 'gore', 'bloody', 'bleeding'],
+  ['cigarette', 'smoking', 'cigar', 'vape'],
+  ['alcohol', 'beer', 'wine', 'whiskey', 'liquor'],
+  ['lens flare', 'flare'],
+  ['slow motion', 'slow-motion', 'slow-mo', 'slowmo'],
+  ['text', 'caption', 'subtitle', 'watermark', 'logo'],
+  ['shaky cam', 'shaky camera', 'camera shake'],
+  ['flashback', 'flash back'],
+  ['dream sequence', 'dream', 'hallucination'],
+  ['phone', 'smartphone', 'cellphone', 'mobile phone'],
+  ['car', 'vehicle', 'automobile'],
+  ['dog', 'puppy', 'hound'],
+  ['cat', 'kitten'],
+  ['explosion', 'blast', 'fireball'],
+  ['nudity', 'naked', 'nude'],
+  ['枪', '手枪', '步枪'],
+  ['血', '流血', '血腥'],
+  ['烟', '香烟', '抽烟'],
+];
+
+const LEADING_NEGATION = /^(?:no|never|avoid|without|ban(?:ned)?|don'?t(?:\s+(?:use|show|include))?|do\s+not(?:\s+(?:use|show|include))?|not|禁止|不要|避免|不能|不准|不得|无)[\s:：]*/i;
+const TEXT_NEGATION = /(?:\b(?:no|not|never|without|avoid(?:ing)?|don'?t|do\s+not|zero|free\s+of|instead\s+of)\b(?:\s+[\w'-]+){0,3}\s*|(?:不要|没有|禁止|避免|不能|无|不)[^\s，。,.]{0,4})$/i;
+const CJK = /[㐀-鿿]/;
+// Text after these labels lists what must NOT appear ("REJECT IF: a gun is visible")
+const NEGATED_SECTION = /(?:^|(?<=[\s.;。；]))(?:reject if|negative(?: prompt)?|avoid|forbidden|do not show|must not show|禁止|避免)\s*[:：]/i;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The inflections one English word is matched in: itself, its singular,
+ * plural and -ing / -ed forms. Built explicitly so "car" never reaches
+ * "care" / "caring" and "wine" never reaches "win".
+ */
+function wordForms(word: string): string[] {
+  const singular = word.length <= 3 ? word
+    : /[^aeiou]ies$/.test(word) ? word.slice(0, -3) + 'y'
+    : /(?:ss|x|z|ch|sh)es$/.test(word) ? word.slice(0, -2)
+    : /[^s]s$/.test(word) ? word.slice(0, -1)
+    : word;
+  const forms = new Set([word, singular]);
+  forms.add(/[^aeiou]y$/.test(singular) ? singular.slice(0, -1) + 'ies'
+    : /(?:s|x|z|ch|sh)$/.test(singular) ? singular + 'es'
+    : singular + 's');
+  if (/[^e]e$/.test(singular)) {
+    forms.add(singular.slice(0, -1) + 'ing');
+    forms.add(singular + 'd');
+  } else if (singular.length <= 4 && /(?:^|[^aeiou])[aeiou][bdgkmnprt]$/.test(singular)) {
+    // Short consonant-vowel-consonant words double the last letter: cut → cutting
+    const doubled = singular + singular.slice(-1);
+    forms.add(doubled + 'ing');
+    forms.add(doubled + 'ed');
+  } else {
+    forms.add(singular + 'ing');
+    forms.add(singular + 'ed');
+  }
+  return [...forms].sort((a, b) => b.length - a.length);
+}
+
+/** Whole-word matcher for a phrase; only its last word is inflected. */
+function phrasePattern(phrase: string, flags: string): RegExp {
+  if (CJK.test(phrase)) return new RegExp(escapeRegex(phrase), flags.replace(/[iu]/g, ''));
+  const words = phrase.split(/[\s-]+/).filter(Boolean);
+  const last = wordForms(words.pop()!).map(escapeRegex).join('|');
+  const body = [...words.map(escapeRegex), `(?:${last})`].join('[\\s-]+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, `${flags}u`);
+}
+
+function expandSynonyms(term: string): string[] {
+  const variants = new Set([term]);
+  for (const group of SYNONYM_GROUPS) {
+    for (const phrase of group) {
+      const pattern = phrasePattern(phrase, 'i');
+      if (!pattern.test(term)) continue;
+      for (const other of group) variants.add(term.replace(pattern, other));
+    }
+  }
+  return [...variants];
+}
+
+function variantPattern(variant: string): RegExp {
+  return phrasePattern(variant, 'gi');
+}
+
+/** Turns DirectorControls.bannedElements / avoidPhrases into rules. Empty fields give no rules. */
+export function parseDirectorRules(controls?: { bannedElements?: string; avoidPhrases?: string } | null): DirectorRule[] {
+  const rules: DirectorRule[] = [];
+  const seen = new Set<string>();
+  for (const source of ['bannedElements', 'avoidPhrases'] as const) {
+    const text = String(controls?.[source] || '');
+    for (const raw of text.split(/[\n,;，；、]+/).map((item) => item.trim()).filter(Boolean)) {
+      let term = raw.toLowerCase().replace(/^["'“”‘’]+|["'“”‘’.。!！]+$/g, '').trim();
+      while (LEADING_NEGATION.test(term)) {
+        const stripped = term.replace(LEADING_NEGATION, '').trim();
+        if (stripped === term) break;
+        term = stripped;
+      }
+      term = term.replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').trim();
+      if (term.length < 2 && !CJK.test(term)) continue;
+      if (seen.has(`${source}:${term}`)) continue;
+      seen.add(`${source}:${term}`);
+      rules.push({ id: `${source}:${rules.length + 1}`, source, raw, term, variants: expandSynonyms(term) });
+    }
+  }
+  return rules;
+}
+
+interface RuleMatch {
+  rule: DirectorRule;
+  index: number;
+  matched: string;
+}
+
+function findMatches(text: string, rules: DirectorRule[]): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  for (const rule of rules) {
+    for (const variant of rule.variants) {
+      for (const m of text.matchAll(variantPattern(variant))) {
+        const index = m.index ?? 0;
+        // Negation only reaches back within the same clause
+        const clauseStart = Math.max(...['.', ',', ';', '\n', '。', '，', '；'].map((sep) => text.lastIndexOf(sep, index - 1))) + 1;
+        if (TEXT_NEGATION.test(text.slice(clauseStart, index))) continue;
+        // A negative section ("REJECT IF: …") negates the rest of its line
+        if (NEGATED_SECTION.test(text.slice(text.lastIndexOf('\n', index - 1) + 1, index))) continue;
+        if (matches.some((x) => x.rule === rule && x.index === index)) continue;
+        matches.push({ rule, index, matched: m[0] });
+      }
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+function toViolation(text: string, field: string, match: RuleMatch, repaired: boolean): DirectorRuleViolation {
+  const start = Math.max(0, match.index - 30);
+  const end = Math.min(text.length, match.index + match.matched.length + 30);
+  return {
+    rule_id: match.rule.id,
+    source: match.rule.source,
+    term: match.rule.term,
+    field,
+    matched: match.matched,
+    excerpt: `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`,
+    repaired,
+  };
+}
+
+/** Non-negated mentions of any rule in `text`. */
+export function findDirectorRuleViolations(text: string, rules: DirectorRule[], field: string): DirectorRuleViolation[] {
+  if (!text || rules.length === 0) return [];
+  return findMatches(text, rules).map((match) => toViolation(text, field, match, false));
+}
+
+// Drops comma / sentence fragments that carry a match; a leading "LABEL:" and
+// negative sections ("REJECT IF: …", "Avoid: …") survive untouched
+function dropClauses(text: string, rules: DirectorRule[]): string {
+  return text.split('\n').map((line) => {
+    const label = line.match(/^\s*[A-Z][A-Z ()/]+:\s*/)?.[0] ?? '';
+    if (NEGATED_SECTION.test(label)) return line;
+    const rest = line.slice(label.length);
+    const negatedAt = rest.search(NEGATED_SECTION);
+    const body = negatedAt >= 0 ? rest.slice(0, negatedAt) : rest;
+    const negated = negatedAt >= 0 ? rest.slice(negatedAt).trim() : '';
+    const sentences = body.split(/(?<=[.!?;。！？；])\s*/).map((sentence) => {
+      const fragments = sentence.split(/(?<=[,，·|])\s*/);
+      const kept = fragments.filter((fragment) => findMatches(fragment, rules).length === 0);
+      if (kept.length === fragments.length) return sentence;
+      return kept.join(' ').replace(/[,，·|]\s*$/, '').trim();
+    }).filter(Boolean);
+    const rebuilt = [sentences.join(' ').trim(), negated].filter(Boolean).join(' ');
+    if (!rebuilt) return label && !body.trim() ? line : '';
+    return `${label}${rebuilt}`;
+  }).filter((line, i, lines) => line !== '' || lines.length === 1).join('\n');
+}
+
+/**
+ * Repairs one artifact. Returns the new text and every violation found in the
+ * original, marked repaired when it is gone from the result.
+ */
+export function repairDirectorRuleViolations(
+  text: string,
+  rules: DirectorRule[],
+  field: string,
+  mode: DirectorRuleRepairMode,
+): { text: string; violations: DirectorRuleViolation[] } {
+  const matches = text && rules.length ? findMatches(text, rules) : [];
+  if (matches.length === 0 || mode === 'none') {
+    return { text, violations: matches.map((m) => toViolation(text, field, m, false)) };
+  }
+  const repaired = dropClauses(text, rules);
+  // A repair that empties the artifact is no repair: keep it and block instead
+  if (!repaired.replace(/[^\p{L}\p{N}]/gu, '')) {
+    return { text, violations: matches.map((m) => toViolation(text, field, m, false)) };
+  }
+  const remaining = findMatches(repaired, rules);
+  return {
+    text: repaired,
+    violations: matches.map((m) => toViolation(text, field, m, !remaining.some((r) => r.rule === m.rule))),
+  };
+}
+
+/**
+ * Scans and repairs the text fields of one artifact (a shot, a scene) in place.
+ * `fields` maps each field to how it may be repaired; non-string fields are skipped.
+ */
+export function enforceDirectorRules(
+  target: Record<string, any>,
+  rules: DirectorRule[],
+  fields: Record<string, DirectorRuleRepairMode>,
+): DirectorRuleReport {
+  const violations: DirectorRuleViolation[] = [];
+  if (rules.length > 0) {
+    for (const [field, mode] of Object.entries(fields)) {
+      const value = target[field];
+      if (typeof value !== 'string' || !value.trim()) continue;
+      const result = repairDirectorRuleViolations(value, rules, field, mode);
+      if (result.text !== value) target[field] = result.text;
+      violations.push(...result.violations);
+    }
+  }
+  return mergeDirectorRuleReports(rules.length, [{ rules: rules.length, violations, repaired: 0, blocked: false }]);
+}
+
+export function mergeDirectorRuleReports(ruleCount: number, reports: DirectorRuleReport[]): DirectorRuleReport {
+  const violations = reports.flatMap((r) => r.violations);
+  return {
+    rules: ruleCount,
+    violations,
+    repaired: violations.filter((v) => v.repaired).length,
+    blocked: violations.some((v) => !v.repaired),
+  };
+}
+
+/** One line per unrepaired violation, in the verifier's fail_reasons style. */
+export function directorRuleFailReasons(report: DirectorRuleReport): string[] {
+  return report.violations
+    .filter((v) => !v.repaired)
+    .map((v) => `DIRECTOR RULE [${v.source}]: "${v.term}" in ${v.field} — ${v.excerpt}`);
+}
+
+/** Shot text the generator writes, and how each field may be repaired. */
+export const SHOT_RULE_FIELDS: Record<string, DirectorRuleRepairMode> = {
+  image_prompt: 'clause',
+  canonical_prompt: 'clause',
+  video_prompt: 'clause',
+  video_motion_prompt: 'clause',
+  action: 'clause',
+  visual_description: 'clause',
+  emotional_beat: 'clause',
+  // Dialogue is the writer's line: report it and block the shot, never rewrite it
+  dialogue_text: 'none',
+  dialogue_subtext: 'none',
+};
+
+/** Scene text the story brain writes. */
+export const SCENE_RULE_FIELDS: Record<string, DirectorRuleRepairMode> = {
+  synopsis: 'clause',
+  visual_description: 'clause',
+  location: 'clause',
+  emotional_goal: 'clause',
+  audio_description: 'clause',
+  dialogue_text: 'none',
+};
@@ -0,0 +1,245 @@
+/**
+ * generationCache.ts — Content-addressed cache for generation requests
+ *
+ * Identical generations (same provider, model, prompt, negative prompt,
+ * aspect ratio, seed, reference images and model inputs) produce the same
+ * output, so re-running a batch or reopening a project should not pay for
+ * them twice. Routes build a GenerationCacheRequest from exactly what they
+ * send to the provider; its canonical form is hashed into the cache key and
+ * the output is stored per user in a GenerationCacheStore.
+ *
+ * Only seeded requests are cached: without a seed every run is a fresh
+ * sample, and serving the stored output would make "regenerate" return the
+ * same image forever. Outputs on temporary provider hosts (Replicate
+ * deletes delivery files after an hour) expire from the cache before the
+ * file does.
+ *
+ * A lookup never throws: if the store is unreachable the request is simply
+ * treated as a miss. Callers pass cache: 'bypass' to skip the lookup (the
+ * fresh output still replaces the stored one), and GENERATION_CACHE=off
+ * disables the cache entirely.
+ */
+
+import { createHash } from 'crypto';
+import {
+  createMemoryGenerationCacheStore,
+  type GenerationCacheEntry,
+  type GenerationCacheKind,
+  type GenerationCacheListOptions,
+  type GenerationCacheStore,
+} from './generationCacheStore.js';
+
+export type GenerationCacheMode = 'default' | 'bypass';
+
+export interface GenerationCacheRequest {
+  kind: GenerationCacheKind;
+  /** Generation provider that renders it ('replicate', 'local', …); outputs differ per provider. */
+  provider: string;
+  model: string;
+  prompt: string;
+  negativePrompt?: string | null;
+  aspectRatio?: string | null;
+  seed?: number | null;
+  /** Reference images (URLs or data URLs) in the order the provider receives them. */
+  references?: Array<string | null | undefined>;
+  /** Any other input that changes the output (raw model input, continuity strictness…). */
+  params?: Record<string, unknown>;
+}
+
+export interface GenerationCacheHit {
+  entry: GenerationCacheEntry;
+  /** True while the entry still waits on its prediction. */
+  pending: boolean;
+}
+
+/** A pending prediction older than this is assumed lost and no longer served. */
+const PENDING_TTL_MS = 30 * 60_000;
+/** Ready entries whose output lives on a temporary host are served for this long. */
+const TEMPORARY_OUTPUT_TTL_MS = 50 * 60_000;
+/** Hosts that delete generated files after a while; their URLs cannot be cached indefinitely. */
+const TEMPORARY_OUTPUT_HOSTS = ['replicate.delivery'];
+/** Strings longer than this (inline images, base64 payloads) are hashed in the canonical request. */
+const MAX_INLINE_STRING = 512;
+
+let store: GenerationCacheStore = createMemoryGenerationCacheStore();
+
+export function configureGenerationCache(next: GenerationCacheStore): void {
+  store = next;
+}
+
+export function getGenerationCacheStore(): GenerationCacheStore {
+  return store;
+}
+
+export function isGenerationCacheEnabled(): boolean {
+  const flag = (typeof process !== 'undefined' ? process.env.GENERATION_CACHE : '') || '';
+  return !['off', 'false', '0'].includes(flag.trim().toLowerCase());
+}
+
+/** Reads the `cache` field of a request body; only an explicit bypass changes behaviour. */
+export function parseGenerationCacheMode(value: unknown): GenerationCacheMode {
+  return value === 'bypass' || value === false || value === 'no-cache' ? 'bypass' : 'default';
+}
+
+/** A request is cacheable only when a fixed seed makes its output reproducible. */
+export function isGenerationCacheable(req: Pick<GenerationCacheRequest, 'seed'>): boolean {
+  return typeof req.seed === 'number' && Number.isFinite(req.seed);
+}
+
+function isTemporaryOutputUrl(url: string | null | undefined): boolean {
+  if (!url) return false;
+  try {
+    const host = new URL(url).hostname;
+    return TEMPORARY_OUTPUT_HOSTS.some((h) => host === h || host.endsWith(`.${h}`));
+  } catch {
+    return false;
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function canonicalValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string') {
+    return value.length > MAX_INLINE_STRING || value.startsWith('data:') ? `sha256:${sha256(value)}` : value;
+  }
+  if (Array.isArray(value)) return value.map((v) => canonicalValue(v) ?? null);
+  if (typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      const v = canonicalValue((value as Record<string, unknown>)[key]);
+      if (v !== undefined) out[key] = v;
+    }
+    return out;
+  }
+  return value;
+}
+
+/**
+ * The request in canonical form: whitespace-normalised prompts, keys sorted,
+ * empty fields dropped and inline images replaced by their hash.
+ */
+export function canonicalGenerationRequest(req: GenerationCacheRequest): Record<string, unknown> {
+  const normalise = (text: string | null | undefined) => String(text || '').replace(/\s+/g, ' ').trim();
+  const canonical = canonicalValue({
+    kind: req.kind,
+    provider: req.provider,
+    model: req.model,
+    aspect_ratio: req.aspectRatio,
+    seed: req.seed,
+    references: (req.references || []).filter(Boolean),
+    params: req.params,
+  }) as Record<string, unknown>;
+  // Prompts stay readable for cache inspection, however long they are
+  canonical.prompt = normalise(req.prompt);
+  if (req.negativePrompt) canonical.negative_prompt = normalise(req.negativePrompt);
+  return Object.fromEntries(Object.entries(canonical).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function generationCacheKey(canonical: Record<string, unknown>): string {
+  return sha256(JSON.stringify(canonical));
+}
+
+/** Stored output for the key, or null on a miss. Pending predictions count as hits only when asked for. */
+export async function lookupGenerationCache(
+  userId: string,
+  key: string,
+  opts: { acceptPending?: boolean } = {}
+): Promise<GenerationCacheHit | null> {
+  if (!isGenerationCacheEnabled()) return null;
+  try {
+    const entry = await store.get(userId, key);
+    if (!entry) return null;
+    const pending = entry.status === 'pending';
+    const age = Date.now() - Date.parse(entry.updated_at);
+    if (pending && (!opts.acceptPending || age > PENDING_TTL_MS)) return null;
+    if (!pending && isTemporaryOutputUrl(entry.output_url) && age > TEMPORARY_OUTPUT_TTL_MS) {
+      await store.delete(userId, key);
+      return null;
+    }
+    const now = new Date().toISOString();
+    await store.recordHit(userId, key, now);
+    return { entry: { ...entry, hits: entry.hits + 1, last_hit_at: now }, pending };
+  } catch (e: any) {
+    console.warn(`[GenerationCache] Lookup for ${key} failed:`, e?.message || e);
+    return null;
+  }
+}
+
+/** Stores (or replaces) the output for a key. Unseeded requests are not stored; failures are logged, never thrown. */
+export async function storeGenerationResult(input: {
+  userId: string;
+  key: string;
+  request: GenerationCacheRequest;
+  canonical: Record<string, unknown>;
+  outputUrl: string | null;
+  output?: Record<string, any> | null;
+  predictionId?: string | null;
+  status?: GenerationCacheEntry['status'];
+}): Promise<void> {
+  if (!isGenerationCacheEnabled() || !isGenerationCacheable(input.request)) return;
+  const now = new Date().toISOString();
+  try {
+    await store.put({
+      key: input.key,
+      user_id: input.userId,
+      kind: input.request.kind,
+      model: input.request.model,
+      status: input.status || 'ready',
+      request: input.canonical,
+      output_url: input.outputUrl,
+      output: input.output ?? null,
+      prediction_id: input.predictionId ?? null,
+      hits: 0,
+      created_at: now,
+      updated_at: now,
+      last_hit_at: null,
+    });
+  } catch (e: any) {
+    console.warn(`[GenerationCache] Store for ${input.key} failed:`, e?.message || e);
+  }
+}
+
+/**
+ * Completes pending entries once their prediction settles: a success becomes
+ * a ready entry with the final prediction, anything else is dropped so the
+ * next identical request generates again.
+ */
+export async function settleCachedPrediction(prediction: { id: string; status: string; output?: any; [key: string]: any }): Promise<void> {
+  if (!isGenerationCacheEnabled() || !prediction?.id) return;
+  if (!['succeeded', 'failed', 'canceled'].includes(prediction.status)) return;
+  try {
+    const entries = await store.findByPrediction(prediction.id);
+    for (const entry of entries) {
+      if (entry.status !== 'pending') continue;
+      if (prediction.status !== 'succeeded') {
+        await store.delete(entry.user_id, entry.key);
+        continue;
+      }
+      const output = prediction.output;
+      await store.put({
+        ...entry,
+        status: 'ready',
+        output_url: (Array.isArray(output) ? output[0] : output) || null,
+        output: prediction,
+        updated_at: new Date().toISOString(),
+      });
+    }
+  } catch (e: any) {
+    console.warn(`[GenerationCache] Settling prediction ${prediction.id} failed:`, e?.message || e);
+  }
+}
+
+export function getGenerationCacheEntry(userId: string, key: string): Promise<GenerationCacheEntry | null> {
+  return store.get(userId, key);
+}
+
+export function listGenerationCache(userId: string, opts?: GenerationCacheListOptions): Promise<GenerationCacheEntry[]> {
+  return store.list(userId, opts);
+}
+
+export function deleteGenerationCacheEntry(userId: string, key: string): Promise<boolean> {
+  return store.delete(userId, key);
+}
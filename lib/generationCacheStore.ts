@@ -0,0 +1,287 @@
+/**
+ * generationCacheStore.ts — Durable backends for the generation cache
+ *
+ * lib/generationCache.ts keys every cacheable generation by a hash of its
+ * canonical request and keeps the output here, per user. Entries are
+ * 'ready' once the output is known; Replicate predictions that are still
+ * running are stored 'pending' under their prediction id and completed (or
+ * dropped) when the prediction settles.
+ *
+ * Backends:
+ *   - sqlite   — local dev, built on lib/db.ts
+ *   - supabase — generation_cache (see supabase/migrations)
+ *   - memory   — no durability, same semantics
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type GenerationCacheKind = 'image' | 'shot_image' | 'prediction';
+export type GenerationCacheStatus = 'pending' | 'ready';
+
+export interface GenerationCacheEntry {
+  key: string;
+  user_id: string;
+  kind: GenerationCacheKind;
+  model: string;
+  status: GenerationCacheStatus;
+  /** The canonical request the key was hashed from (reference images appear as hashes). */
+  request: Record<string, unknown>;
+  output_url: string | null;
+  /** Route-specific response payload, e.g. the finished Replicate prediction. */
+  output: Record<string, any> | null;
+  prediction_id: string | null;
+  hits: number;
+  created_at: string;
+  updated_at: string;
+  last_hit_at: string | null;
+}
+
+export interface GenerationCacheListOptions {
+  kind?: GenerationCacheKind;
+  limit?: number;
+}
+
+export interface GenerationCacheStore {
+  readonly backend: 'sqlite' | 'supabase' | 'memory';
+  get(userId: string, key: string): Promise<GenerationCacheEntry | null>;
+  /** Inserts or replaces the entry for (user_id, key). */
+  put(entry: GenerationCacheEntry): Promise<void>;
+  recordHit(userId: string, key: string, at: string): Promise<void>;
+  /** Entries waiting on a Replicate prediction. */
+  findByPrediction(predictionId: string): Promise<GenerationCacheEntry[]>;
+  delete(userId: string, key: string): Promise<boolean>;
+  /** Newest first. */
+  list(userId: string, opts?: GenerationCacheListOptions): Promise<GenerationCacheEntry[]>;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+// ═══════════════════════════════════════════════════════════════
+// Memory backend
+// ═══════════════════════════════════════════════════════════════
+
+export function createMemoryGenerationCacheStore(): GenerationCacheStore {
+  const entries = new Map<string, GenerationCacheEntry>();
+  const id = (userId: string, key: string) => `${userId}:${key}`;
+
+  return {
+    backend: 'memory',
+
+    async get(userId, key) {
+      const entry = entries.get(id(userId, key));
+      return entry ? structuredClone(entry) : null;
+    },
+
+    async put(entry) {
+      entries.set(id(entry.user_id, entry.key), structuredClone(entry));
+    },
+
+    async recordHit(userId, key, at) {
+      const entry = entries.get(id(userId, key));
+      if (!entry) return;
+      entry.hits += 1;
+      entry.last_hit_at = at;
+    },
+
+    async findByPrediction(predictionId) {
+      return [...entries.values()].filter((e) => e.prediction_id === predictionId).map((e) => structuredClone(e));
+    },
+
+    async delete(userId, key) {
+      return entries.delete(id(userId, key));
+    },
+
+    async list(userId, opts = {}) {
+      return [...entries.values()]
+        .filter((e) => e.user_id === userId && (!opts.kind || e.kind === opts.kind))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, opts.limit ?? DEFAULT_LIST_LIMIT)
+        .map((e) => structuredClone(e));
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SQLite backend
+// ═══════════════════════════════════════════════════════════════
+
+type SqliteDatabase = typeof import('./db.js')['default'];
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS generation_cache (
+    user_id TEXT NOT NULL,
+    cache_key TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    prediction_id TEXT,
+    created_at TEXT NOT NULL,
+    entry TEXT NOT NULL,
+    PRIMARY KEY (user_id, cache_key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_generation_cache_prediction ON generation_cache(prediction_id);
+  CREATE INDEX IF NOT EXISTS idx_generation_cache_user_created ON generation_cache(user_id, created_at);
+`;
+
+/**
+ * SQLite-backed store. Rows keep the entry as JSON next to the columns the
+ * cache filters on. The handle defaults to lib/db.ts, loaded lazily.
+ */
+export function createSqliteGenerationCacheStore(database?: SqliteDatabase): GenerationCacheStore {
+  let ready: Promise<SqliteDatabase> | null = null;
+  const getDb = () => {
+    if (!ready) {
+      ready = (database ? Promise.resolve(database) : import('./db.js').then((m) => m.default)).then((db) => {
+        db.exec(SQLITE_SCHEMA);
+        return db;
+      });
+    }
+    return ready;
+  };
+  const parse = (row: { entry: string } | undefined) => (row ? JSON.parse(row.entry) as GenerationCacheEntry : null);
+
+  return {
+    backend: 'sqlite',
+
+    async get(userId, key) {
+      const db = await getDb();
+      return parse(db.prepare('SELECT entry FROM generation_cache WHERE user_id = ? AND cache_key = ?').get(userId, key) as any);
+    },
+
+    async put(entry) {
+      const db = await getDb();
+      db.prepare(
+        `INSERT INTO generation_cache (user_id, cache_key, kind, prediction_id, created_at, entry) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, cache_key) DO UPDATE SET kind = excluded.kind, prediction_id = excluded.prediction_id,
+           created_at = excluded.created_at, entry = excluded.entry`
+      ).run(entry.user_id, entry.key, entry.kind, entry.prediction_id, entry.created_at, JSON.stringify(entry));
+    },
+
+    async recordHit(userId, key, at) {
+      const db = await getDb();
+      db.transaction(() => {
+        const entry = parse(db.prepare('SELECT entry FROM generation_cache WHERE user_id = ? AND cache_key = ?').get(userId, key) as any);
+        if (!entry) return;
+        entry.hits += 1;
+        entry.last_hit_at = at;
+        db.prepare('UPDATE generation_cache SET entry = ? WHERE user_id = ? AND cache_key = ?').run(JSON.stringify(entry), userId, key);
+      })();
+    },
+
+    async findByPrediction(predictionId) {
+      const db = await getDb();
+      const rows = db.prepare('SELECT entry FROM generation_cache WHERE prediction_id = ?').all(predictionId) as Array<{ entry: string }>;
+      return rows.map((row) => parse(row) as GenerationCacheEntry);
+    },
+
+    async delete(userId, key) {
+      const db = await getDb();
+      return db.prepare('DELETE FROM generation_cache WHERE user_id = ? AND cache_key = ?').run(userId, key).changes > 0;
+    },
+
+    async list(userId, opts = {}) {
+      const db = await getDb();
+      const rows = (opts.kind
+        ? db.prepare('SELECT entry FROM generation_cache WHERE user_id = ? AND kind = ? ORDER BY created_at DESC LIMIT ?')
+          .all(userId, opts.kind, opts.limit ?? DEFAULT_LIST_LIMIT)
+        : db.prepare('SELECT entry FROM generation_cache WHERE user_id = ? ORDER BY created_at DESC LIMIT ?')
+          .all(userId, opts.limit ?? DEFAULT_LIST_LIMIT)) as Array<{ entry: string }>;
+      return rows.map((row) => parse(row) as GenerationCacheEntry);
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Supabase backend
+// ═══════════════════════════════════════════════════════════════
+
+const CACHE_COLUMNS = 'cache_key, user_id, kind, model, status, request, output_url, output, prediction_id, hits, created_at, updated_at, last_hit_at';
+
+function rowToEntry(row: any): GenerationCacheEntry {
+  const { cache_key, ...rest } = row;
+  return { key: cache_key, ...rest } as GenerationCacheEntry;
+}
+
+export function createSupabaseGenerationCacheStore(getClient: () => SupabaseClient<any, any, any>): GenerationCacheStore {
+  return {
+    backend: 'supabase',
+
+    async get(userId, key) {
+      const { data, error } = await getClient()
+        .from('generation_cache')
+        .select(CACHE_COLUMNS)
+        .eq('user_id', userId)
+        .eq('cache_key', key)
+        .maybeSingle();
+      if (error) throw new Error(`generation_cache select failed: ${error.message}`);
+      return data ? rowToEntry(data) : null;
+    },
+
+    async put(entry) {
+      const { key, ...rest } = entry;
+      const { error } = await getClient()
+        .from('generation_cache')
+        .upsert({ cache_key: key, ...rest }, { onConflict: 'user_id,cache_key' });
+      if (error) throw new Error(`generation_cache upsert failed: ${error.message}`);
+    },
+
+    async recordHit(userId, key, at) {
+      // Read-modify-write: a lost increment under concurrent hits only skews the counter
+      const entry = await this.get(userId, key);
+      if (!entry) return;
+      const { error } = await getClient()
+        .from('generation_cache')
+        .update({ hits: entry.hits + 1, last_hit_at: at })
+        .eq('user_id', userId)
+        .eq('cache_key', key);
+      if (error) throw new Error(`generation_cache update failed: ${error.message}`);
+    },
+
+    async findByPrediction(predictionId) {
+      const { data, error } = await getClient()
+        .from('generation_cache')
+        .select(CACHE_COLUMNS)
+        .eq('prediction_id', predictionId);
+      if (error) throw new Error(`generation_cache select failed: ${error.message}`);
+      return (data || []).map(rowToEntry);
+    },
+
+    async delete(userId, key) {
+      const { data, error } = await getClient()
+        .from('generation_cache')
+        .delete()
+        .eq('user_id', userId)
+        .eq('cache_key', key)
+        .select('cache_key');
+      if (error) throw new Error(`generation_cache delete failed: ${error.message}`);
+      return (data || []).length > 0;
+    },
+
+    async list(userId, opts = {}) {
+      let query = getClient()
+        .from('generation_cache')
+        .select(CACHE_COLUMNS)
+        .eq('user_id', userId);
+      if (opts.kind) query = query.eq('kind', opts.kind);
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(opts.limit ?? DEFAULT_LIST_LIMIT);
+      if (error) throw new Error(`generation_cache select failed: ${error.message}`);
+      return (data || []).map(rowToEntry);
+    },
+  };
+}
+
+/**
+ * Picks a backend from GENERATION_CACHE_STORE ('sqlite' | 'supabase' | 'memory'),
+ * defaulting the same way as PIPELINE_STORE.
+ */
+export function createGenerationCacheStoreFromEnv(getSupabaseClient: () => SupabaseClient<any, any, any>): GenerationCacheStore {
+  const requested = (process.env.GENERATION_CACHE_STORE || '').trim().toLowerCase();
+  const backend = requested || (process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'sqlite');
+
+  if (backend === 'memory') return createMemoryGenerationCacheStore();
+  if (backend === 'sqlite') return createSqliteGenerationCacheStore();
+  if (backend === 'supabase') return createSupabaseGenerationCacheStore(getSupabaseClient);
+
+  console.warn(`[GenerationCacheStore] Unknown GENERATION_CACHE_STORE "${requested}", falling back to an in-memory cache`);
+  return createMemoryGenerationCacheStore();
+}
@@ -0,0 +1,171 @@
+/**
+ * generationProvider.ts — Pluggable generation backends
+ *
+ * Image, video, speech, music, sound-effect and text calls go through a
+ * GenerationProvider looked up by name instead of talking to Replicate,
+ * ElevenLabs or Gemini directly. A provider implements whichever
+ * capabilities it supports; resolveGenerationProvider() picks the configured
+ * provider for one capability:
+ *
+ *   GENERATION_PROVIDER_<CAPABILITY>=local   (e.g. GENERATION_PROVIDER_TTS)
+ *   GENERATION_PROVIDER=local                (every capability)
+ *
+ * and otherwise falls back to DEFAULT_GENERATION_PROVIDERS (sound effects
+ * default to the audio engine's built-in clip library). Setting
+ * GENERATION_PROVIDER=local runs the whole pipeline without network access
+ * (see localGenerationProvider.ts).
+ */
+
+export type GenerationCapability = 'image' | 'video' | 'tts' | 'music' | 'sfx' | 'llm';
+
+export const GENERATION_CAPABILITIES: GenerationCapability[] = ['image', 'video', 'tts', 'music', 'sfx', 'llm'];
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  /** Provider-specific model id, e.g. a Replicate model path. */
+  model?: string;
+  aspectRatio?: string;
+  seed?: number | null;
+  negativePrompt?: string;
+  /** URL or data URL of a reference image. */
+  referenceImageUrl?: string;
+}
+
+export interface VideoGenerationRequest {
+  prompt: string;
+  model?: string;
+  /** Start frame for image-to-video. */
+  imageUrl?: string;
+  durationSec?: number;
+  aspectRatio?: string;
+  /** Raw model input for providers that take one (Replicate). */
+  input?: Record<string, any>;
+}
+
+export interface SpeechGenerationRequest {
+  text: string;
+  voiceId?: string;
+  emotion?: string;
+  speed?: number;
+}
+
+export interface MusicGenerationRequest {
+  prompt: string;
+  durationSec?: number;
+}
+
+export interface SfxGenerationRequest {
+  description: string;
+  durationSec?: number;
+  /** Ambience beds loop for the whole scene; sfx are short one-shots. */
+  kind?: 'sfx' | 'ambience';
+}
+
+export interface LlmGenerationRequest {
+  /** A prompt string or a Gemini-style contents array. */
+  prompt: any;
+  systemInstruction?: string;
+  temperature?: number;
+  responseMimeType?: string;
+  responseSchema?: any;
+  model?: string;
+  maxOutputTokens?: number;
+}
+
+export interface MediaResult {
+  url: string;
+  mimeType: string;
+  durationSec?: number;
+  /** Set when the media exists on this machine. */
+  filePath?: string;
+  /** Provider-side job id, e.g. the Replicate prediction id. */
+  predictionId?: string;
+}
+
+export interface LlmResult {
+  text: string;
+}
+
+export interface GenerationProvider {
+  name: string;
+  generateImage?(req: ImageGenerationRequest): Promise<MediaResult>;
+  generateVideo?(req: VideoGenerationRequest): Promise<MediaResult>;
+  synthesizeSpeech?(req: SpeechGenerationRequest): Promise<MediaResult>;
+  generateMusic?(req: MusicGenerationRequest): Promise<MediaResult>;
+  generateSfx?(req: SfxGenerationRequest): Promise<MediaResult>;
+  completeText?(req: LlmGenerationRequest): Promise<LlmResult>;
+}
+
+const CAPABILITY_METHODS: Record<GenerationCapability, keyof GenerationProvider> = {
+  image: 'generateImage',
+  video: 'generateVideo',
+  tts: 'synthesizeSpeech',
+  music: 'generateMusic',
+  sfx: 'generateSfx',
+  llm: 'completeText',
+};
+
+export const DEFAULT_GENERATION_PROVIDERS: Record<GenerationCapability, string> = {
+  image: 'replicate',
+  video: 'replicate',
+  tts: 'elevenlabs',
+  music: 'replicate',
+  sfx: 'library',
+  llm: 'gemini',
+};
+
+export class GenerationProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationProviderError';
+  }
+}
+
+const providers = new Map<string, GenerationProvider>();
+
+/** Registers (or replaces) a provider under its name. */
+export function registerGenerationProvider(provider: GenerationProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getGenerationProvider(name: string): GenerationProvider | undefined {
+  return providers.get(name);
+}
+
+export function providerSupports(provider: GenerationProvider, capability: GenerationCapability): boolean {
+  return typeof provider[CAPABILITY_METHODS[capability]] === 'function';
+}
+
+export function listGenerationProviders(): Array<{ name: string; capabilities: GenerationCapability[] }> {
+  return [...providers.values()].map((provider) => ({
+    name: provider.name,
+    capabilities: GENERATION_CAPABILITIES.filter((capability) => providerSupports(provider, capability)),
+  }));
+}
+
+/**
+ * Provider name configured for a capability. The global GENERATION_PROVIDER is
+ * skipped for capabilities its provider doesn't implement (e.g. llm on replicate).
+ */
+export function configuredProviderName(capability: GenerationCapability): string {
+  const env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {};
+  const explicit = env[`GENERATION_PROVIDER_${capability.toUpperCase()}`]?.trim();
+  if (explicit) return explicit;
+  const global = env.GENERATION_PROVIDER?.trim();
+  const globalProvider = global ? providers.get(global) : undefined;
+  if (global && (!globalProvider || providerSupports(globalProvider, capability))) return global;
+  return DEFAULT_GENERATION_PROVIDERS[capability];
+}
+
+/** The registered provider configured for a capability; throws if it is missing or lacks the capability. */
+export function resolveGenerationProvider(capability: GenerationCapability): GenerationProvider {
+  const name = configuredProviderName(capability);
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new GenerationProviderError(`Generation provider "${name}" is not registered (capability: ${capability})`);
+  }
+  if (!providerSupports(provider, capability)) {
+    throw new GenerationProviderError(`Generation provider "${name}" does not support ${capability}`);
+  }
+  return provider;
+}
@@ -0,0 +1,254 @@
+/**
+ * generationScheduler.ts — Fair-share scheduler for generation provider calls
+ *
+ * Replicate requests and batch items run through schedule(). Each provider
+ * has a concurrency cap; whenever a slot frees up the next task is chosen by
+ * start-time fair queuing across users: every task gets a virtual start tag
+ * (the later of the scheduler's virtual clock and the user's previous finish
+ * tag) and a finish tag that advances by expected run time / tier weight.
+ * The smallest start tag runs first, so one user's large batch interleaves
+ * with everyone else's work instead of starving it, and higher tiers
+ * (paid, business, the priority_queue add-on) get proportionally more slots
+ * without shutting free users out.
+ *
+ * State is per process. ETAs replay the current queue against the provider
+ * caps using a moving average of observed run times per task kind.
+ */
+
+export type SchedulerTier = 'free' | 'paid' | 'business' | 'priority';
+
+/** Relative share of provider slots per tier. */
+export const TIER_WEIGHTS: Record<SchedulerTier, number> = {
+  free: 1,
+  paid: 2,
+  business: 4,
+  priority: 8,
+};
+
+export interface ScheduleOptions {
+  userId: string;
+  tier?: SchedulerTier;
+  provider: string;
+  /** Groups tasks for run-time estimates, e.g. 'replicate:predict' or 'batch:gen_videos'. */
+  kind: string;
+  /** Expected run time until the kind has observed runs. */
+  estimatedMs?: number;
+}
+
+export interface ScheduledTaskStatus {
+  id: string;
+  userId: string;
+  tier: SchedulerTier;
+  provider: string;
+  kind: string;
+  status: 'queued' | 'running';
+  /** 0 = running, 1.. = place in the provider's dispatch order. */
+  position: number;
+  /** Estimated ms until the task finishes. */
+  etaMs: number;
+}
+
+export interface ProviderLoad {
+  cap: number;
+  running: number;
+  queued: number;
+}
+
+interface ScheduledTask {
+  id: string;
+  seq: number;
+  userId: string;
+  tier: SchedulerTier;
+  provider: string;
+  kind: string;
+  expectedMs: number;
+  startTag: number;
+  startedAt?: number;
+  run: () => void;
+}
+
+const DEFAULT_PROVIDER_CAP = 4;
+const DEFAULT_TASK_MS = 20_000;
+/** Weight of the newest observation in the per-kind run-time average. */
+const EWMA_ALPHA = 0.3;
+
+/** Maps a profile row to its scheduling tier; the add-on outranks the plan. */
+export function tierForProfile(profile: { is_pro?: boolean; plan_type?: string | null; addons?: string[] | null } | null): SchedulerTier {
+  if (!profile) return 'free';
+  if (Array.isArray(profile.addons) && profile.addons.includes('priority_queue')) return 'priority';
+  const plan = String(profile.plan_type || '').replace(/^plan_/, '');
+  if (profile.is_pro && (plan === 'business' || plan === 'enterprise')) return 'business';
+  return profile.is_pro ? 'paid' : 'free';
+}
+
+/** Parses "replicate=4,gemini=8" into provider caps; bad entries are ignored. */
+export function parseProviderCaps(raw: string | undefined): Record<string, number> {
+  const caps: Record<string, number> = {};
+  for (const entry of (raw || '').split(',')) {
+    const [provider, value] = entry.split('=').map((s) => s.trim());
+    const cap = Number(value);
+    if (provider && Number.isInteger(cap) && cap > 0) caps[provider] = cap;
+  }
+  return caps;
+}
+
+export class GenerationScheduler {
+  private caps: Record<string, number>;
+  private defaultTaskMs: Record<string, number>;
+  private queued: ScheduledTask[] = [];
+  private running = new Map<string, ScheduledTask>();
+  private userFinishTags = new Map<string, number>();
+  private observedMs = new Map<string, number>();
+  private virtualTime = 0;
+  private seq = 0;
+
+  constructor(opts?: { providerCaps?: Record<string, number>; defaultTaskMs?: Record<string, number> }) {
+    this.caps = { ...(opts?.providerCaps || {}) };
+    this.defaultTaskMs = { ...(opts?.defaultTaskMs || {}) };
+  }
+
+  capFor(provider: string): number {
+    return this.caps[provider] ?? DEFAULT_PROVIDER_CAP;
+  }
+
+  /** Runs fn once the provider has a free slot and the task's fair turn has come. */
+  schedule<T>(opts: ScheduleOptions, fn: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const tier = opts.tier || 'free';
+      const expectedMs = this.expectedMs(opts.kind, opts.estimatedMs);
+      const startTag = Math.max(this.virtualTime, this.userFinishTags.get(opts.userId) ?? 0);
+      this.userFinishTags.set(opts.userId, startTag + expectedMs / TIER_WEIGHTS[tier]);
+
+      const seq = this.seq++;
+      const task: ScheduledTask = {
+        id: `task-${seq}`,
+        seq,
+        userId: opts.userId,
+        tier,
+        provider: opts.provider,
+        kind: opts.kind,
+        expectedMs,
+        startTag,
+        run: () => {
+          task.startedAt = Date.now();
+          Promise.resolve().then(fn).then(
+            (value) => {
+              this.observe(task.kind, Date.now() - (task.startedAt as number));
+              resolve(value);
+            },
+            reject
+          ).finally(() => {
+            this.running.delete(task.id);
+            this.dispatch();
+          });
+        },
+      };
+      this.queued.push(task);
+      this.dispatch();
+    });
+  }
+
+  /** Queued and running tasks with positions and ETAs, optionally for one user. */
+  getStatus(userId?: string): ScheduledTaskStatus[] {
+    const now = Date.now();
+    const slots = new Map<string, number[]>();
+    const slotsFor = (provider: string) => {
+      let free = slots.get(provider);
+      if (!free) {
+        free = [];
+        for (const task of this.running.values()) {
+          if (task.provider !== provider) continue;
+          free.push(now + Math.max(0, task.expectedMs - (now - (task.startedAt as number))));
+        }
+        while (free.length < this.capFor(provider)) free.push(now);
+        slots.set(provider, free);
+      }
+      return free;
+    };
+
+    const statuses: ScheduledTaskStatus[] = [];
+    for (const task of this.running.values()) {
+      statuses.push(this.toStatus(task, 'running', 0, Math.max(0, task.expectedMs - (now - (task.startedAt as number)))));
+    }
+
+    const positions = new Map<string, number>();
+    for (const task of this.dispatchOrder()) {
+      const free = slotsFor(task.provider);
+      free.sort((a, b) => a - b);
+      const finish = free[0] + task.expectedMs;
+      free[0] = finish;
+      const position = (positions.get(task.provider) || 0) + 1;
+      positions.set(task.provider, position);
+      statuses.push(this.toStatus(task, 'queued', position, finish - now));
+    }
+
+    return userId ? statuses.filter((s) => s.userId === userId) : statuses;
+  }
+
+  getLoad(): Record<string, ProviderLoad> {
+    const load: Record<string, ProviderLoad> = {};
+    const entry = (provider: string) => (load[provider] ||= { cap: this.capFor(provider), running: 0, queued: 0 });
+    for (const task of this.running.values()) entry(task.provider).running += 1;
+    for (const task of this.queued) entry(task.provider).queued += 1;
+    return load;
+  }
+
+  private toStatus(task: ScheduledTask, status: 'queued' | 'running', position: number, etaMs: number): ScheduledTaskStatus {
+    return {
+      id: task.id,
+      userId: task.userId,
+      tier: task.tier,
+      provider: task.provider,
+      kind: task.kind,
+      status,
+      position,
+      etaMs: Math.round(etaMs),
+    };
+  }
+
+  private dispatchOrder(): ScheduledTask[] {
+    return [...this.queued].sort((a, b) => (a.startTag - b.startTag) || (a.seq - b.seq));
+  }
+
+  private runningCount(provider: string): number {
+    let count = 0;
+    for (const task of this.running.values()) if (task.provider === provider) count += 1;
+    return count;
+  }
+
+  private dispatch(): void {
+    for (const task of this.dispatchOrder()) {
+      if (this.runningCount(task.provider) >= this.capFor(task.provider)) continue;
+      this.queued.splice(this.queued.indexOf(task), 1);
+      this.virtualTime = Math.max(this.virtualTime, task.startTag);
+      this.running.set(task.id, task);
+      task.run();
+    }
+    // Idle: finish tags only matter relative to queued work
+    if (this.queued.length === 0 && this.running.size === 0) {
+      this.userFinishTags.clear();
+      this.virtualTime = 0;
+    }
+  }
+
+  private expectedMs(kind: string, hint?: number): number {
+    return this.observedMs.get(kind) ?? hint ?? this.defaultTaskMs[kind] ?? DEFAULT_TASK_MS;
+  }
+
+  private observe(kind: string, ms: number): void {
+    const previous = this.observedMs.get(kind);
+    this.observedMs.set(kind, previous === undefined ? ms : previous + EWMA_ALPHA * (ms - previous));
+  }
+}
+
+// Global singleton shared by the Replicate proxy and the batch queue
+export const generationScheduler = new GenerationScheduler({
+  providerCaps: {
+    replicate: DEFAULT_PROVIDER_CAP,
+    ...parseProviderCaps(typeof process !== 'undefined' ? process.env.GENERATION_PROVIDER_CAPS : undefined),
+  },
+  defaultTaskMs: {
+    'replicate:poll': 1_000,
+    'batch:gen_videos': 120_000,
+  },
+});
@@ -0,0 +1,315 @@
+/**
+ * lib/goldenCorpus.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Golden-corpus regression checks for the prompt compiler and verifier.
+ *
+ * A case is a small project (style, cast, scenes with shots). Running it
+ * compiles every shot through composeAllPrompts() and records the prompts,
+ * the VerifierResult and checkDuplicateRisk() against the previous shot.
+ * The recorded snapshot is compared with a fresh run:
+ *   • numbers (verifier total / dimensions, duplicate risk) within ± tolerance
+ *   • prompts by token similarity, with the added / removed terms listed
+ *   • pass flags and hard-fail codes must match exactly
+ *
+ * scripts/golden-corpus.ts reads cases from scripts/golden/cases, checks them
+ * against scripts/golden/snapshots and re-records on `approve`.
+ */
+
+import { composeAllPrompts, type ComposeAllPromptsInput } from './shotPromptCompiler';
+import { checkDuplicateRisk } from './canonicalPromptRewriter';
+
+export interface GoldenTolerance {
+  /** Max absolute change in verifier total and each dimension score */
+  score: number;
+  /** Max absolute change in duplicate_risk_score (0–100) */
+  duplicate_risk: number;
+  /** Min token similarity (0–1) between recorded and current prompts */
+  text_similarity: number;
+}
+
+export const DEFAULT_GOLDEN_TOLERANCE: GoldenTolerance = {
+  score: 1,
+  duplicate_risk: 5,
+  text_similarity: 0.97,
+};
+
+export interface GoldenCase {
+  id: string;
+  description: string;
+  /** Project-level compiler inputs shared by every shot */
+  project: Omit<ComposeAllPromptsInput, 'shot' | 'scene' | 'previousShot'>;
+  scenes: Array<{ scene: any; shots: any[] }>;
+  /** Per-case overrides of DEFAULT_GOLDEN_TOLERANCE */
+  tolerance?: Partial<GoldenTolerance>;
+}
+
+export interface GoldenShotSnapshot {
+  shot_id: string;
+  image_prompt: string;
+  image_negative_prompt: string;
+  video_prompt: string;
+  verifier: {
+    profile: string;
+    total: number;
+    max_total: number;
+    passes: boolean;
+    dimensions: Record<string, number>;
+    hard_fail_codes: string[];
+  } | null;
+  duplicate_risk_score: number;
+}
+
+export interface GoldenSnapshot {
+  case_id: string;
+  recorded_at: string;
+  shots: GoldenShotSnapshot[];
+}
+
+export type GoldenDriftKind = 'text' | 'number' | 'flag' | 'list' | 'shot';
+
+export interface GoldenDrift {
+  shot_id: string;
+  /** e.g. 'image_prompt', 'verifier.total', 'verifier.dimensions.location_evidence' */
+  field: string;
+  kind: GoldenDriftKind;
+  expected: unknown;
+  actual: unknown;
+  /** number drifts: actual − expected */
+  delta?: number;
+  /** text drifts: token similarity 0–1 */
+  similarity?: number;
+  added_terms?: string[];
+  removed_terms?: string[];
+  within_tolerance: boolean;
+}
+
+export interface GoldenCaseReport {
+  case_id: string;
+  description: string;
+  /** pass = identical, drift = changed within tolerance, fail = out of tolerance, new = no snapshot yet */
+  status: 'pass' | 'drift' | 'fail' | 'new';
+  drifts: GoldenDrift[];
+  snapshot: GoldenSnapshot;
+}
+
+export interface GoldenRunReport {
+  cases: GoldenCaseReport[];
+  passed: number;
+  drifted: number;
+  failed: number;
+  missing: number;
+}
+
+// ─── Recording ────────────────────────────────────────────────────────────────
+
+function shotKey(shot: any, sceneIdx: number, shotIdx: number): string {
+  return String(shot?.shot_id || `S${sceneIdx + 1}.${shotIdx + 1}`);
+}
+
+/** Compiles every shot of a case. Shots are cloned, so the case stays reusable. */
+export function recordGoldenCase(goldenCase: GoldenCase): GoldenSnapshot {
+  const shots: GoldenShotSnapshot[] = [];
+  goldenCase.scenes.forEach(({ scene, shots: sceneShots }, sceneIdx) => {
+    let previousShot: any = null;
+    sceneShots.forEach((rawShot, shotIdx) => {
+      const shot = structuredClone(rawShot);
+      const composed = composeAllPrompts({
+        ...goldenCase.project,
+        shot,
+        scene: structuredClone(scene),
+        previousShot,
+      });
+      const verifier = composed.screenplay_binding?.verifier;
+      shots.push({
+        shot_id: shotKey(rawShot, sceneIdx, shotIdx),
+        image_prompt: composed.image_prompt,
+        image_negative_prompt: composed.image_negative_prompt,
+        video_prompt: composed.video_prompt,
+        verifier: verifier
+          ? {
+              profile: verifier.profile,
+              total: verifier.total,
+              max_total: verifier.max_total,
+              passes: verifier.passes,
+              dimensions: Object.fromEntries(verifier.dimensions.map((d) => [d.name, d.score])),
+              hard_fail_codes: (verifier.hard_fails || []).map((h) => h.code),
+            }
+          : null,
+        duplicate_risk_score: checkDuplicateRisk(rawShot, previousShot).duplicate_risk_score,
+      });
+      previousShot = rawShot;
+    });
+  });
+  return { case_id: goldenCase.id, recorded_at: new Date().toISOString(), shots };
+}
+
+// ─── Comparison ───────────────────────────────────────────────────────────────
+
+function tokens(text: string): string[] {
+  return (text || '').toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu) || [];
+}
+
+/** Multiset token overlap (Dice): 1 = same words, 0 = nothing shared. */
+export function tokenSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.length === 0 && tb.length === 0) return 1;
+  const counts = new Map<string, number>();
+  ta.forEach((t) => counts.set(t, (counts.get(t) || 0) + 1));
+  let shared = 0;
+  tb.forEach((t) => {
+    const c = counts.get(t) || 0;
+    if (c > 0) {
+      shared += 1;
+      counts.set(t, c - 1);
+    }
+  });
+  return (2 * shared) / (ta.length + tb.length);
+}
+
+function countTokens(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokens(text).forEach((t) => counts.set(t, (counts.get(t) || 0) + 1));
+  return counts;
+}
+
+// Counted per occurrence, so a word moved or repeated still shows up
+function termDelta(before: string, after: string): { added: string[]; removed: string[] } {
+  const a = countTokens(before);
+  const b = countTokens(after);
+  const surplus = (x: Map<string, number>, y: Map<string, number>) =>
+    [...x].filter(([t, c]) => c > (y.get(t) || 0)).map(([t]) => t).slice(0, 12);
+  return { added: surplus(b, a), removed: surplus(a, b) };
+}
+
+function compareShot(expected: GoldenShotSnapshot, actual: GoldenShotSnapshot, tol: GoldenTolerance): GoldenDrift[] {
+  const drifts: GoldenDrift[] = [];
+  const id = expected.shot_id;
+
+  for (const field of ['image_prompt', 'image_negative_prompt', 'video_prompt'] as const) {
+    if (expected[field] === actual[field]) continue;
+    const similarity = tokenSimilarity(expected[field], actual[field]);
+    const { added, removed } = termDelta(expected[field], actual[field]);
+    drifts.push({
+      shot_id: id, field, kind: 'text', expected: expected[field], actual: actual[field],
+      similarity: Math.round(similarity * 1000) / 1000,
+      added_terms: added, removed_terms: removed,
+      within_tolerance: similarity >= tol.text_similarity,
+    });
+  }
+
+  const number = (field: string, e: number | undefined, a: number | undefined, max: number) => {
+    if (e === a) return;
+    const delta = (a ?? 0) - (e ?? 0);
+    drifts.push({
+      shot_id: id, field, kind: 'number', expected: e ?? null, actual: a ?? null, delta,
+      within_tolerance: e != null && a != null && Math.abs(delta) <= max,
+    });
+  };
+  number('duplicate_risk_score', expected.duplicate_risk_score, actual.duplicate_risk_score, tol.duplicate_risk);
+
+  const ev = expected.verifier;
+  const av = actual.verifier;
+  if (!ev || !av) {
+    if (ev !== av) {
+      drifts.push({ shot_id: id, field: 'verifier', kind: 'shot', expected: ev, actual: av, within_tolerance: false });
+    }
+    return drifts;
+  }
+  if (ev.profile !== av.profile) {
+    drifts.push({ shot_id: id, field: 'verifier.profile', kind: 'flag', expected: ev.profile, actual: av.profile, within_tolerance: false });
+  }
+  if (ev.passes !== av.passes) {
+    drifts.push({ shot_id: id, field: 'verifier.passes', kind: 'flag', expected: ev.passes, actual: av.passes, within_tolerance: false });
+  }
+  number('verifier.total', ev.total, av.total, tol.score);
+  number('verifier.max_total', ev.max_total, av.max_total, 0);
+  const dimNames = [...new Set([...Object.keys(ev.dimensions), ...Object.keys(av.dimensions)])];
+  dimNames.forEach((name) => number(`verifier.dimensions.${name}`, ev.dimensions[name], av.dimensions[name], tol.score));
+  const eCodes = [...ev.hard_fail_codes].sort().join(',');
+  const aCodes = [...av.hard_fail_codes].sort().join(',');
+  if (eCodes !== aCodes) {
+    drifts.push({ shot_id: id, field: 'verifier.hard_fail_codes', kind: 'list', expected: ev.hard_fail_codes, actual: av.hard_fail_codes, within_tolerance: false });
+  }
+  return drifts;
+}
+
+/** Compares a fresh recording with the stored snapshot (null = not recorded yet). */
+export function compareGoldenCase(
+  goldenCase: GoldenCase,
+  expected: GoldenSnapshot | null,
+  actual: GoldenSnapshot = recordGoldenCase(goldenCase),
+): GoldenCaseReport {
+  const base = { case_id: goldenCase.id, description: goldenCase.description, snapshot: actual };
+  if (!expected) return { ...base, status: 'new', drifts: [] };
+
+  const tol: GoldenTolerance = { ...DEFAULT_GOLDEN_TOLERANCE, ...(goldenCase.tolerance || {}) };
+  const drifts: GoldenDrift[] = [];
+  const actualById = new Map(actual.shots.map((s) => [s.shot_id, s]));
+  const expectedIds = new Set(expected.shots.map((s) => s.shot_id));
+
+  for (const shot of expected.shots) {
+    const current = actualById.get(shot.shot_id);
+    if (!current) {
+      drifts.push({ shot_id: shot.shot_id, field: 'shot', kind: 'shot', expected: 'recorded', actual: 'missing', within_tolerance: false });
+      continue;
+    }
+    drifts.push(...compareShot(shot, current, tol));
+  }
+  for (const shot of actual.shots) {
+    if (!expectedIds.has(shot.shot_id)) {
+      drifts.push({ shot_id: shot.shot_id, field: 'shot', kind: 'shot', expected: 'missing', actual: 'recorded', within_tolerance: false });
+    }
+  }
+
+  const status = drifts.length === 0 ? 'pass' : drifts.every((d) => d.within_tolerance) ? 'drift' : 'fail';
+  return { ...base, status, drifts };
+}
+
+export function summarizeGoldenRun(cases: GoldenCaseReport[]): GoldenRunReport {
+  return {
+    cases,
+    passed: cases.filter((c) => c.status === 'pass').length,
+    drifted: cases.filter((c) => c.status === 'drift').length,
+    failed: cases.filter((c) => c.status === 'fail').length,
+    missing: cases.filter((c) => c.status === 'new').length,
+  };
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+const STATUS_LABEL: Record<GoldenCaseReport['status'], string> = {
+  pass: 'PASS ',
+  drift: 'DRIFT',
+  fail: 'FAIL ',
+  new: 'NEW  ',
+};
+
+function formatDrift(d: GoldenDrift): string {
+  const mark = d.within_tolerance ? '~' : '✗';
+  switch (d.kind) {
+    case 'text': {
+      const parts = [`similarity ${d.similarity}`];
+      if (d.added_terms?.length) parts.push(`+ ${d.added_terms.join(' ')}`);
+      if (d.removed_terms?.length) parts.push(`− ${d.removed_terms.join(' ')}`);
+      return `    ${mark} ${d.shot_id} ${d.field}: ${parts.join(' | ')}`;
+    }
+    case 'number':
+      return `    ${mark} ${d.shot_id} ${d.field}: ${d.expected} → ${d.actual} (${(d.delta ?? 0) > 0 ? '+' : ''}${d.delta})`;
+    default:
+      return `    ${mark} ${d.shot_id} ${d.field}: ${JSON.stringify(d.expected)} → ${JSON.stringify(d.actual)}`;
+  }
+}
+
+/** Plain-text report: one line per case, then one line per drift. */
+export function formatGoldenReport(report: GoldenRunReport): string {
+  const lines: string[] = [];
+  for (const c of report.cases) {
+    lines.push(`${STATUS_LABEL[c.status]} ${c.case_id} — ${c.description}`);
+    if (c.status === 'new') lines.push('    no snapshot recorded — run approve to accept the current output');
+    c.drifts.forEach((d) => lines.push(formatDrift(d)));
+  }
+  lines.push('');
+  lines.push(`${report.cases.length} cases: ${report.passed} pass, ${report.drifted} drift within tolerance, ${report.failed} fail, ${report.missing} without snapshot`);
+  return lines.join('\n');
+}
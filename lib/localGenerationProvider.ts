@@ -0,0 +1,234 @@
+/**
+ * localGenerationProvider.ts — Offline generation provider
+ *
+ * Renders deterministic placeholder media with ffmpeg so the pipeline can run
+ * end-to-end with no network: images are a solid colour with a block seeded
+ * from the prompt hash, clips loop the start frame (or that colour) under a
+ * moving progress marker, and speech/music/sfx are tones, noise or silence
+ * with plausible durations. Text completions echo the prompt, or return '{}'
+ * for JSON requests so callers take their existing fallback paths.
+ *
+ * Files are keyed by a hash of the request, so the same request always maps
+ * to the same file and is only rendered once. They live in LOCAL_MEDIA_DIR
+ * and are served from LOCAL_MEDIA_URL_PREFIX (GET /api/local-media/:file).
+ */
+
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import type {
+  GenerationProvider,
+  ImageGenerationRequest,
+  LlmGenerationRequest,
+  MediaResult,
+  MusicGenerationRequest,
+  SfxGenerationRequest,
+  SpeechGenerationRequest,
+  VideoGenerationRequest,
+} from './generationProvider.js';
+
+const execFileAsync = promisify(execFile);
+
+const LOCAL_MEDIA_FILE = /^[a-f0-9]{32}\.(png|mp4|wav)$/;
+const MIME_TYPES: Record<string, string> = { png: 'image/png', mp4: 'video/mp4', wav: 'audio/wav' };
+const AUDIO_SAMPLE_RATE = 44100;
+const VIDEO_FPS = 24;
+
+export interface LocalGenerationProviderOptions {
+  /** Where rendered files are written; defaults to LOCAL_MEDIA_DIR or <tmpdir>/local-media. */
+  mediaDir?: string;
+  /** URL prefix the files are served under; defaults to LOCAL_MEDIA_URL_PREFIX or /api/local-media. */
+  urlPrefix?: string;
+  /** 'tone' renders audible placeholders; 'silence' renders silent audio of the same length. */
+  audio?: 'tone' | 'silence';
+  ffmpegPath?: string;
+}
+
+function envValue(name: string): string | undefined {
+  return typeof process !== 'undefined' ? process.env[name]?.trim() || undefined : undefined;
+}
+
+export function localMediaDir(): string {
+  return envValue('LOCAL_MEDIA_DIR') || path.join(os.tmpdir(), 'local-media');
+}
+
+export function localMediaUrlPrefix(): string {
+  return (envValue('LOCAL_MEDIA_URL_PREFIX') || '/api/local-media').replace(/\/+$/, '');
+}
+
+/** Path of a rendered file by name, or null if the name is not one of ours or the file is gone. */
+export function localMediaPath(fileName: string, mediaDir = localMediaDir()): string | null {
+  if (!LOCAL_MEDIA_FILE.test(fileName)) return null;
+  const filePath = path.join(mediaDir, fileName);
+  return existsSync(filePath) ? filePath : null;
+}
+
+/** Maps a URL handed out by the local provider back to its file, or null for any other URL. */
+export function resolveLocalMediaUrl(url: string | undefined | null, mediaDir = localMediaDir()): string | null {
+  if (!url) return null;
+  const match = String(url).match(/\/local-media\/([^/?#]+)(?:[?#].*)?$/);
+  return match ? localMediaPath(match[1], mediaDir) : null;
+}
+
+export function localMediaMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).slice(1)] || 'application/octet-stream';
+}
+
+function requestHash(kind: string, req: unknown): string {
+  return createHash('sha256').update(JSON.stringify([kind, req])).digest('hex').slice(0, 32);
+}
+
+/** Deterministic 0..1 values derived from a hash, for colours, pitches and positions. */
+function hashFractions(hash: string): number[] {
+  const out: number[] = [];
+  for (let i = 0; i + 2 <= hash.length; i += 2) out.push(parseInt(hash.slice(i, i + 2), 16) / 255);
+  return out;
+}
+
+function hexColor(r: number, g: number, b: number): string {
+  const channel = (v: number) => Math.round(40 + v * 175).toString(16).padStart(2, '0');
+  return `0x${channel(r)}${channel(g)}${channel(b)}`;
+}
+
+function frameSize(aspectRatio: string | undefined, longSide: number): { width: number; height: number } {
+  const [w, h] = String(aspectRatio || '16:9').split(':').map(Number);
+  const ratio = w > 0 && h > 0 ? w / h : 16 / 9;
+  // libx264 with yuv420p needs even dimensions
+  const even = (v: number) => Math.max(2, Math.round(v / 2) * 2);
+  return ratio >= 1
+    ? { width: even(longSide), height: even(longSide / ratio) }
+    : { width: even(longSide * ratio), height: even(longSide) };
+}
+
+/** Rough spoken length: ~2.5 words/s for spaced scripts, ~4 characters/s for CJK. */
+export function estimateSpeechSeconds(text: string, speed = 1): number {
+  const cjk = (text.match(/[぀-ヿ㐀-鿿가-힯]/g) || []).length;
+  const words = text.replace(/[぀-ヿ㐀-鿿가-힯]/g, ' ').split(/\s+/).filter(Boolean).length;
+  const seconds = words / 2.5 + cjk / 4;
+  return Number(Math.max(1, seconds / (speed > 0 ? speed : 1)).toFixed(2));
+}
+
+export function createLocalGenerationProvider(opts: LocalGenerationProviderOptions = {}): GenerationProvider {
+  const mediaDir = () => opts.mediaDir || localMediaDir();
+  const urlPrefix = () => (opts.urlPrefix || localMediaUrlPrefix()).replace(/\/+$/, '');
+  const audioMode = () => opts.audio || (envValue('LOCAL_PROVIDER_AUDIO') === 'silence' ? 'silence' : 'tone');
+  const ffmpegPath = () => opts.ffmpegPath || envValue('FFMPEG_PATH') || ffmpegInstaller?.path || 'ffmpeg';
+
+  // Renders once per request hash; later calls reuse the file on disk
+  async function render(kind: string, req: unknown, ext: string, args: (out: string, hash: string) => string[], durationSec?: number): Promise<MediaResult> {
+    const hash = requestHash(kind, req);
+    const fileName = `${hash}.${ext}`;
+    const dir = mediaDir();
+    const filePath = path.join(dir, fileName);
+    if (!existsSync(filePath)) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write to a temp name so a half-written file is never served
+      const tmpPath = path.join(dir, `${hash}.tmp-${process.pid}.${ext}`);
+      try {
+        await execFileAsync(ffmpegPath(), ['-y', '-hide_banner', '-loglevel', 'error', ...args(tmpPath, hash)], { timeout: 120_000 });
+        await fs.rename(tmpPath, filePath);
+      } catch (err: any) {
+        await fs.rm(tmpPath, { force: true });
+        throw new Error(`Local ${kind} render failed: ${String(err?.stderr || err?.message || err).slice(0, 300)}`);
+      }
+    }
+    return {
+      url: `${urlPrefix()}/${fileName}`,
+      mimeType: MIME_TYPES[ext],
+      durationSec,
+      filePath,
+      predictionId: `local-${hash}`,
+    };
+  }
+
+  function audioArgs(source: string, durationSec: number, out: string, fadeOut = false): string[] {
+    const filters = fadeOut ? ['-af', `afade=t=out:st=${Math.max(0, durationSec - 0.3)}:d=0.3`] : [];
+    return ['-f', 'lavfi', '-i', source, '-t', String(durationSec), ...filters, '-ac', '1', '-c:a', 'pcm_s16le', out];
+  }
+
+  const silence = `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=mono`;
+
+  return {
+    name: 'local',
+
+    generateImage(req: ImageGenerationRequest) {
+      const { width, height } = frameSize(req.aspectRatio, 1024);
+      const key = { prompt: req.prompt, aspectRatio: req.aspectRatio, seed: req.seed ?? null };
+      return render('image', key, 'png', (out, hash) => {
+        const f = hashFractions(hash);
+        const box = `drawbox=x=${Math.round(f[6] * width * 0.6)}:y=${Math.round(f[7] * height * 0.6)}:w=${Math.round(width * 0.35)}:h=${Math.round(height * 0.35)}:color=${hexColor(f[3], f[4], f[5])}:t=fill`;
+        return ['-f', 'lavfi', '-i', `color=c=${hexColor(f[0], f[1], f[2])}:s=${width}x${height}`, '-vf', box, '-frames:v', '1', out];
+      });
+    },
+
+    generateVideo(req: VideoGenerationRequest) {
+      const durationSec = Math.max(1, Math.round(req.durationSec || 5));
+      const { width, height } = frameSize(req.aspectRatio, 640);
+      const startFrame = resolveLocalMediaUrl(req.imageUrl, mediaDir());
+      const key = { prompt: req.prompt, imageUrl: req.imageUrl || null, durationSec, aspectRatio: req.aspectRatio };
+      return render('video', key, 'mp4', (out, hash) => {
+        const f = hashFractions(hash);
+        const base = startFrame
+          ? ['-loop', '1', '-framerate', String(VIDEO_FPS), '-i', startFrame]
+          : ['-f', 'lavfi', '-i', `color=c=${hexColor(f[0], f[1], f[2])}:s=${width}x${height}:r=${VIDEO_FPS}`];
+        const marker = ['-f', 'lavfi', '-i', `color=c=white:s=${Math.max(2, Math.round(width / 12 / 2) * 2)}x${Math.max(2, Math.round(height / 24 / 2) * 2)}:r=${VIDEO_FPS}`];
+        const filter = `[0:v]scale=${width}:${height},setsar=1[bg];[bg][1:v]overlay=x='(W-w)*t/${durationSec}':y=H-h,format=yuv420p[v]`;
+        return [
+          ...base, ...marker,
+          '-filter_complex', filter, '-map', '[v]',
+          '-t', String(durationSec), '-r', String(VIDEO_FPS),
+          '-c:v', 'libx264', '-preset', 'ultrafast', '-movflags', '+faststart', out,
+        ];
+      }, durationSec);
+    },
+
+    synthesizeSpeech(req: SpeechGenerationRequest) {
+      const durationSec = estimateSpeechSeconds(req.text, req.speed);
+      const mode = audioMode();
+      return render('tts', { ...req, mode }, 'wav', (out, hash) => {
+        const pitch = Math.round(160 + hashFractions(requestHash('voice', req.voiceId || ''))[0] * 200);
+        const source = mode === 'silence' ? silence : `sine=frequency=${pitch}:sample_rate=${AUDIO_SAMPLE_RATE}`;
+        return audioArgs(source, durationSec, out, mode !== 'silence');
+      }, durationSec);
+    },
+
+    generateMusic(req: MusicGenerationRequest) {
+      const durationSec = Math.max(1, Math.round(req.durationSec || 10));
+      const mode = audioMode();
+      return render('music', { ...req, durationSec, mode }, 'wav', (out, hash) => {
+        // Major triad on a root picked from the prompt hash
+        const root = Math.round(110 + hashFractions(hash)[0] * 110);
+        const chord = [1, 1.25, 1.5].map((m) => `0.08*sin(2*PI*${Math.round(root * m)}*t)`).join('+');
+        const source = mode === 'silence' ? silence : `aevalsrc=${chord}:s=${AUDIO_SAMPLE_RATE}`;
+        return audioArgs(source, durationSec, out, mode !== 'silence');
+      }, durationSec);
+    },
+
+    generateSfx(req: SfxGenerationRequest) {
+      const kind = req.kind || 'sfx';
+      const durationSec = Math.max(0.5, req.durationSec || (kind === 'ambience' ? 10 : 2));
+      const mode = audioMode();
+      return render('sfx', { ...req, kind, durationSec, mode }, 'wav', (out, hash) => {
+        const seed = parseInt(hash.slice(0, 8), 16);
+        const source = mode === 'silence'
+          ? silence
+          : kind === 'ambience'
+            ? `anoisesrc=color=brown:amplitude=0.08:sample_rate=${AUDIO_SAMPLE_RATE}:seed=${seed}`
+            : `anoisesrc=color=white:amplitude=0.3:sample_rate=${AUDIO_SAMPLE_RATE}:seed=${seed}`;
+        return audioArgs(source, durationSec, out, kind === 'sfx' && mode !== 'silence');
+      }, durationSec);
+    },
+
+    async completeText(req: LlmGenerationRequest) {
+      if (req.responseMimeType === 'application/json') return { text: '{}' };
+      const prompt = typeof req.prompt === 'string'
+        ? req.prompt
+        : JSON.stringify(req.prompt?.[0]?.parts?.[0]?.text ?? req.prompt);
+      return { text: `[local] ${String(prompt).replace(/\s+/g, ' ').trim().slice(0, 200)}` };
+    },
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * modelRateLimiter.ts — Adaptive per-model token buckets for Replicate calls
+ *
+ * Every model in REPLICATE_MODEL_PATHS gets its own bucket: `ratePerMin`
+ * tokens refill continuously up to `burst`, and each prediction request
+ * takes one. Replicate's answers steer the bucket:
+ *
+ *   - a 429 halves the current rate and blocks the bucket until Retry-After
+ *     (or until one token would refill at the new rate);
+ *   - `x-ratelimit-remaining: 0` / `ratelimit-remaining: 0` blocks it until
+ *     the advertised reset;
+ *   - a run of unthrottled successes raises the rate again in small steps,
+ *     never above the configured rate.
+ *
+ * Unknown models share the `default` bucket. Status polls (GET
+ * /v1/predictions/:id) count against Replicate's much larger read limit and
+ * take from their own `poll` bucket, so a batch polling its predictions never
+ * starves new predictions. Limits come from DEFAULT_MODEL_RATE_LIMITS,
+ * overridden by REPLICATE_MODEL_RATE_LIMITS ("wan_2_2_fast=60/10,veo_3=2" —
+ * per minute, optional burst).
+ */
+
+export interface ModelRateLimit {
+  /** Sustained requests per minute. */
+  ratePerMin: number;
+  /** Bucket size: requests that may start back to back. */
+  burst: number;
+}
+
+/** Bucket for prediction status polls. */
+export const POLL_BUCKET = 'poll';
+
+export const DEFAULT_MODEL_RATE_LIMITS: Record<string, ModelRateLimit> = {
+  // Fast, cheap models: let batches go
+  wan_2_2_fast: { ratePerMin: 30, burst: 5 },
+  flux_schnell: { ratePerMin: 60, burst: 10 },
+  nano_banana: { ratePerMin: 30, burst: 5 },
+  flux: { ratePerMin: 20, burst: 4 },
+  // Premium video models throttle early
+  kling_2_5_pro: { ratePerMin: 6, burst: 2 },
+  kling_2_6_pro: { ratePerMin: 6, burst: 2 },
+  seedance_pro: { ratePerMin: 6, burst: 2 },
+  veo_3: { ratePerMin: 4, burst: 1 },
+  veo_3_1: { ratePerMin: 4, burst: 1 },
+  sora_2: { ratePerMin: 4, burst: 1 },
+  default: { ratePerMin: 60, burst: 10 },
+  // Status polls: Replicate allows far more reads than prediction creates
+  [POLL_BUCKET]: { ratePerMin: 3000, burst: 100 },
+};
+
+export interface RateLimitHeaderInfo {
+  retryAfterMs?: number;
+  limit?: number;
+  remaining?: number;
+  /** ms until the provider's window resets. */
+  resetMs?: number;
+}
+
+export interface ModelRateLimiterSnapshot {
+  model: string;
+  rate_per_min: number;
+  max_rate_per_min: number;
+  burst: number;
+  tokens: number;
+  blocked_until: string | null;
+  throttled_count: number;
+  last_throttled_at: string | null;
+  /** Last rate-limit headers Replicate sent for this model. */
+  last_headers: RateLimitHeaderInfo | null;
+}
+
+type HeaderGetter = { get(name: string): string | null };
+
+type HeaderSource =
+  | HeaderGetter
+  | Record<string, string | string[] | number | undefined>;
+
+/** Never adapt below this fraction of the configured rate. */
+const MIN_RATE_FRACTION = 0.05;
+/** Unthrottled successes needed before the rate is raised one step. */
+const RECOVERY_STREAK = 5;
+/** Each recovery step adds this fraction of the configured rate. */
+const RECOVERY_STEP = 0.1;
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/** Fetch `Headers` (or anything with get()) rather than a plain header record. */
+function isHeaderGetter(headers: HeaderSource): headers is HeaderGetter {
+  return typeof (headers as Partial<HeaderGetter>).get === 'function';
+}
+
+function readHeader(headers: HeaderSource | null | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (isHeaderGetter(headers)) return headers.get(name) ?? undefined;
+  const record = headers as Record<string, unknown>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+  const value = key ? record[key] : undefined;
+  if (value === undefined || value === null) return undefined;
+  return String(Array.isArray(value) ? value[0] : value);
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Retry-After is either delta seconds or an HTTP date. */
+export function parseRetryAfter(value: string | number | null | undefined, now = Date.now()): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(String(value));
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+/**
+ * Reads Retry-After plus the x-ratelimit-* and IETF ratelimit-* headers.
+ * Reset values above 1e9 are epoch seconds, anything else delta seconds.
+ */
+export function parseRateLimitHeaders(headers: HeaderSource | null | undefined, now = Date.now()): RateLimitHeaderInfo {
+  const info: RateLimitHeaderInfo = {};
+  const retryAfterMs = parseRetryAfter(readHeader(headers, 'retry-after'), now);
+  if (retryAfterMs !== undefined) info.retryAfterMs = retryAfterMs;
+
+  const limit = toNumber(readHeader(headers, 'x-ratelimit-limit') ?? readHeader(headers, 'ratelimit-limit'));
+  const remaining = toNumber(readHeader(headers, 'x-ratelimit-remaining') ?? readHeader(headers, 'ratelimit-remaining'));
+  const reset = toNumber(readHeader(headers, 'x-ratelimit-reset') ?? readHeader(headers, 'ratelimit-reset'));
+  if (limit !== undefined) info.limit = limit;
+  if (remaining !== undefined) info.remaining = remaining;
+  if (reset !== undefined) info.resetMs = Math.max(0, reset > 1e9 ? reset * 1000 - now : reset * 1000);
+  return info;
+}
+
+/** Retry delay carried by a thrown error: retryAfterMs, retryAfter (seconds) or the response headers. */
+export function retryAfterFromError(err: any): number | undefined {
+  if (Number.isFinite(err?.retryAfterMs)) return Math.max(0, err.retryAfterMs);
+  const fromField = parseRetryAfter(err?.retryAfter);
+  if (fromField !== undefined) return fromField;
+  return parseRateLimitHeaders(err?.headers ?? err?.response?.headers).retryAfterMs;
+}
+
+export class TokenBucketLimiter {
+  readonly model: string;
+  readonly burst: number;
+  readonly maxRatePerMin: number;
+  private ratePerMin: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private blockedUntil = 0;
+  private successStreak = 0;
+  private throttledCount = 0;
+  private lastThrottledAt = 0;
+  private lastHeaders: RateLimitHeaderInfo | null = null;
+
+  constructor(model: string, limit: ModelRateLimit) {
+    this.model = model;
+    this.burst = Math.max(1, limit.burst);
+    this.maxRatePerMin = Math.max(0.1, limit.ratePerMin);
+    this.ratePerMin = this.maxRatePerMin;
+    this.tokens = this.burst;
+  }
+
+  get currentRatePerMin() {
+    return this.ratePerMin;
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.refilledAt;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.burst, this.tokens + (elapsed * this.ratePerMin) / 60_000);
+      this.refilledAt = now;
+    }
+  }
+
+  /** ms until `count` tokens are available (0 = now). */
+  msUntilTokens(count = 1, now = Date.now()): number {
+    this.refill(now);
+    const blocked = Math.max(0, this.blockedUntil - now);
+    const missing = Math.max(0, count - this.tokens);
+    return Math.max(blocked, Math.ceil((missing * 60_000) / this.ratePerMin));
+  }
+
+  /** Takes a token if one is available right now. */
+  tryTake(now = Date.now()): boolean {
+    if (this.msUntilTokens(1, now) > 0) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /** Waits for a token. Re-checks after every sleep so a 429 seen meanwhile extends the wait. */
+  async acquire(): Promise<void> {
+    for (;;) {
+      const wait = this.msUntilTokens(1);
+      if (wait <= 0 && this.tryTake()) return;
+      await sleep(Math.max(wait, 10));
+    }
+  }
+
+  /** Replicate answered 429: back off the rate and honour Retry-After. */
+  onThrottled(retryAfterMs?: number, now = Date.now()) {
+    this.refill(now);
+    this.ratePerMin = Math.max(this.maxRatePerMin * MIN_RATE_FRACTION, this.ratePerMin / 2);
+    this.tokens = Math.min(this.tokens, 0);
+    this.successStreak = 0;
+    this.throttledCount += 1;
+    this.lastThrottledAt = now;
+    const wait = retryAfterMs ?? Math.ceil(60_000 / this.ratePerMin);
+    this.blockedUntil = Math.max(this.blockedUntil, now + wait);
+  }
+
+  /** A request went through: follow the advertised budget and slowly regain rate. */
+  onSuccess(info: RateLimitHeaderInfo = {}, now = Date.now()) {
+    if (info.remaining === 0) {
+      this.refill(now);
+      this.tokens = Math.min(this.tokens, 0);
+      this.blockedUntil = Math.max(this.blockedUntil, now + (info.resetMs ?? info.retryAfterMs ?? 0));
+      this.successStreak = 0;
+      return;
+    }
+    this.successStreak += 1;
+    if (this.successStreak >= RECOVERY_STREAK && this.ratePerMin < this.maxRatePerMin) {
+      this.refill(now);
+      this.ratePerMin = Math.min(this.maxRatePerMin, this.ratePerMin + this.maxRatePerMin * RECOVERY_STEP);
+      this.successStreak = 0;
+    }
+  }
+
+  /** Feeds a response status and headers into the bucket. */
+  observe(status: number, headers?: HeaderSource | null, now = Date.now()) {
+    const info = parseRateLimitHeaders(headers, now);
+    if (Object.keys(info).length > 0) this.lastHeaders = info;
+    if (status === 429) this.onThrottled(info.retryAfterMs, now);
+    else if (status < 400) this.onSuccess(info, now);
+  }
+
+  snapshot(now = Date.now()): ModelRateLimiterSnapshot {
+    this.refill(now);
+    return {
+      model: this.model,
+      rate_per_min: Math.round(this.ratePerMin * 100) / 100,
+      max_rate_per_min: this.maxRatePerMin,
+      burst: this.burst,
+      tokens: Math.round(this.tokens * 100) / 100,
+      blocked_until: this.blockedUntil > now ? new Date(this.blockedUntil).toISOString() : null,
+      throttled_count: this.throttledCount,
+      last_throttled_at: this.lastThrottledAt ? new Date(this.lastThrottledAt).toISOString() : null,
+      last_headers: this.lastHeaders,
+    };
+  }
+}
+
+/** Parses "wan_2_2_fast=60/10,veo_3=2" (per minute, optional burst); bad entries are ignored. */
+export function parseModelRateLimits(raw: string | undefined): Record<string, ModelRateLimit> {
+  const limits: Record<string, ModelRateLimit> = {};
+  for (const entry of (raw || '').split(',')) {
+    const [model, value] = entry.split('=').map((s) => s.trim());
+    const [rate, burst] = String(value || '').split('/').map(Number);
+    if (!model || !Number.isFinite(rate) || rate <= 0) continue;
+    limits[model] = {
+      ratePerMin: rate,
+      burst: Number.isInteger(burst) && burst > 0 ? burst : Math.max(1, Math.round(rate / 6)),
+    };
+  }
+  return limits;
+}
+
+export class ModelRateLimiterRegistry {
+  private limits: Record<string, ModelRateLimit>;
+  private pathToModel = new Map<string, string>();
+  private limiters = new Map<string, TokenBucketLimiter>();
+
+  constructor(opts?: { limits?: Record<string, ModelRateLimit>; modelPaths?: Record<string, string> }) {
+    this.limits = { ...DEFAULT_MODEL_RATE_LIMITS, ...(opts?.limits || {}) };
+    for (const [model, path] of Object.entries(opts?.modelPaths || {})) {
+      if (!this.pathToModel.has(path)) this.pathToModel.set(path, model);
+    }
+  }
+
+  /** Model key for a key, a Replicate model path or a pinned `owner/name:version`. */
+  resolveModel(modelOrPath?: string | null): string {
+    const value = String(modelOrPath || '').trim();
+    if (!value) return 'default';
+    if (this.limits[value]) return value;
+    const path = value.split(':')[0];
+    return this.pathToModel.get(path) ?? this.pathToModel.get(value) ?? 'default';
+  }
+
+  forModel(modelOrPath?: string | null): TokenBucketLimiter {
+    const model = this.resolveModel(modelOrPath);
+    let limiter = this.limiters.get(model);
+    if (!limiter) {
+      limiter = new TokenBucketLimiter(model, this.limits[model] ?? this.limits.default);
+      this.limiters.set(model, limiter);
+    }
+    return limiter;
+  }
+
+  observe(modelOrPath: string | null | undefined, response: { status: number; headers?: HeaderSource | null }) {
+    this.forModel(modelOrPath).observe(response.status, response.headers);
+  }
+
+  /** Every configured model, including ones not used yet. */
+  snapshot(): ModelRateLimiterSnapshot[] {
+    return Object.keys(this.limits).map((model) => this.forModel(model).snapshot());
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * mustShowVerifier.ts — Image-grounded must_show verification
+ *
+ * The canonical prompt verifier only checks that a shot's prompt names its
+ * must_show items and required_visible_action. This module checks the frame
+ * that was actually generated: the image and the checklist go to a vision
+ * provider, which answers pass/fail per item.
+ *
+ * Providers are looked up by name, like generation providers:
+ *
+ *   MUST_SHOW_PROVIDER=stub   deterministic, no network (tests, offline runs);
+ *                             api/index.ts registers it only when configured,
+ *                             so a request cannot pick it to pass its frames
+ *   (unset)                   'gemini', registered by api/index.ts
+ *
+ * mergeMustShowIntoReport() folds a result into a ContinuityReport: failing
+ * items add violation_tags and, when the report has no recommendation yet,
+ * pick the regen_recommendation that addresses them.
+ */
+
+import type { ContinuityReport, MustShowItemResult } from '../types';
+
+export interface MustShowChecklistItem {
+  item: string;
+  kind: MustShowItemResult['kind'];
+}
+
+export interface MustShowFrame {
+  /** Raw base64, no data: prefix */
+  base64: string;
+  mimeType: string;
+}
+
+export interface MustShowVisionRequest {
+  frame: MustShowFrame;
+  checklist: MustShowChecklistItem[];
+  /** Shot action and prompt, for the provider's context */
+  context?: string;
+}
+
+export interface MustShowVisionProvider {
+  name: string;
+  check(req: MustShowVisionRequest): Promise<MustShowItemResult[]>;
+}
+
+export interface MustShowCheckResult {
+  provider: string;
+  passed: boolean;
+  results: MustShowItemResult[];
+  failed: MustShowItemResult[];
+}
+
+export const DEFAULT_MUST_SHOW_PROVIDER = 'gemini';
+
+export class MustShowProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MustShowProviderError';
+  }
+}
+
+const providers = new Map<string, MustShowVisionProvider>();
+
+/** Registers (or replaces) a provider under its name. */
+export function registerMustShowProvider(provider: MustShowVisionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getMustShowProvider(name: string): MustShowVisionProvider | undefined {
+  return providers.get(name);
+}
+
+export function configuredMustShowProviderName(): string {
+  const env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {};
+  return env.MUST_SHOW_PROVIDER?.trim() || DEFAULT_MUST_SHOW_PROVIDER;
+}
+
+/** The named provider, or the configured one; throws if it is not registered. */
+export function resolveMustShowProvider(name?: string): MustShowVisionProvider {
+  const resolved = name || configuredMustShowProviderName();
+  const provider = providers.get(resolved);
+  if (!provider) throw new MustShowProviderError(`Must-show provider "${resolved}" is not registered`);
+  return provider;
+}
+
+// ─── Checklist ────────────────────────────────────────────────────────────────
+
+/** must_show items (array or stored must_show_json) followed by required_visible_action. */
+export function buildMustShowChecklist(shot: any): MustShowChecklistItem[] {
+  let mustShow: unknown = shot?.must_show;
+  if (!Array.isArray(mustShow) && typeof shot?.must_show_json === 'string') {
+    try { mustShow = JSON.parse(shot.must_show_json); } catch { mustShow = []; }
+  }
+  const checklist: MustShowChecklistItem[] = [];
+  const seen = new Set<string>();
+  const add = (item: unknown, kind: MustShowChecklistItem['kind']) => {
+    const text = typeof item === 'string' ? item.trim() : '';
+    if (!text || seen.has(text.toLowerCase())) return;
+    seen.add(text.toLowerCase());
+    checklist.push({ item: text, kind });
+  };
+  if (Array.isArray(mustShow)) mustShow.forEach((item) => add(item, 'must_show'));
+  add(shot?.required_visible_action, 'required_action');
+  return checklist;
+}
+
+export function buildMustShowVisionPrompt(checklist: MustShowChecklistItem[], context?: string): string {
+  const lines = checklist.map((c, i) => `${i + 1}. ${c.kind === 'required_action' ? '[ACTION] ' : ''}${c.item}`);
+  return `You are a strict storyboard supervisor checking a generated frame against its shot checklist.
+${context ? `\nShot context:\n${context}\n` : ''}
+Checklist — each item must be clearly visible in THIS image (an [ACTION] item must be visibly in progress):
+${lines.join('\n')}
+
+Judge only what is visible in the image, not what the prompt intended.
+Output ONLY a valid JSON object with this exact shape:
+{
+  "items": [
+    { "index": <number>, "pass": <boolean>, "evidence": "<what you see, or what is missing>" }
+  ]
+}`;
+}
+
+/**
+ * Maps a provider's JSON answer back onto the checklist. Accepts { items: [...] }
+ * or a bare array, matched by 1-based index or item text. Unanswered items fail.
+ */
+export function parseMustShowVisionResponse(data: any, checklist: MustShowChecklistItem[]): MustShowItemResult[] {
+  const answers: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [];
+  return checklist.map((c, i) => {
+    const answer = answers.find((a) => Number(a?.index) === i + 1)
+      ?? answers.find((a) => typeof a?.item === 'string' && a.item.trim().toLowerCase() === c.item.toLowerCase());
+    if (!answer) return { ...c, pass: false, evidence: 'not assessed by provider' };
+    return {
+      ...c,
+      pass: answer.pass === true || answer.pass === 'true',
+      evidence: typeof answer.evidence === 'string' ? answer.evidence : '',
+    };
+  });
+}
+
+// ─── Stub provider ────────────────────────────────────────────────────────────
+
+const contentWords = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter((w) => w.length > 3);
+
+/**
+ * Deterministic provider for tests and offline runs. It "sees" a caption —
+ * opts.caption, else the request context — and passes an item when at least
+ * half its content words appear there. Items containing any opts.failing
+ * string always fail. With no caption and no context every item passes.
+ */
+export function createStubMustShowProvider(opts: { caption?: string; failing?: string[] } = {}): MustShowVisionProvider {
+  return {
+    name: 'stub',
+    async check(req) {
+      const caption = (opts.caption ?? req.context ?? '').toLowerCase();
+      const failing = (opts.failing || []).map((f) => f.toLowerCase());
+      return req.checklist.map((c) => {
+        if (failing.some((f) => c.item.toLowerCase().includes(f))) {
+          return { ...c, pass: false, evidence: 'stub: marked failing' };
+        }
+        const words = contentWords(c.item);
+        if (!caption || words.length === 0) return { ...c, pass: true, evidence: 'stub: no caption to check against' };
+        const seen = words.filter((w) => caption.includes(w));
+        const pass = seen.length * 2 >= words.length;
+        return {
+          ...c,
+          pass,
+          evidence: pass
+            ? `stub: caption shows ${seen.join(', ')}`
+            : `stub: caption lacks ${words.filter((w) => !caption.includes(w)).join(', ')}`,
+        };
+      });
+    },
+  };
+}
+
+
+// ─── Check + merge ────────────────────────────────────────────────────────────
+
+export async function verifyMustShow(
+  frame: MustShowFrame,
+  shot: any,
+  provider: MustShowVisionProvider = resolveMustShowProvider(),
+): Promise<MustShowCheckResult> {
+  const checklist = buildMustShowChecklist(shot);
+  if (checklist.length === 0) return { provider: provider.name, passed: true, results: [], failed: [] };
+
+  const context = [
+    shot?.action && `Action: ${shot.action}`,
+    (shot?.canonical_prompt || shot?.image_prompt) && `Prompt: ${String(shot.canonical_prompt || shot.image_prompt).slice(0, 600)}`,
+  ].filter(Boolean).join('\n');
+  const results = await provider.check({ frame, checklist, context: context || undefined });
+  const failed = results.filter((r) => !r.pass);
+  return { provider: provider.name, passed: failed.length === 0, results, failed };
+}
+
+/**
+ * The result when the frame could not be checked (frame not loadable,
+ * provider error): every item fails, so an unverified shot never passes.
+ */
+export function failedMustShowCheck(shot: any, reason: string, provider = 'unavailable'): MustShowCheckResult {
+  const results = buildMustShowChecklist(shot).map((c) => ({ ...c, pass: false, evidence: `not verified: ${reason}` }));
+  return { provider, passed: results.length === 0, results, failed: results };
+}
+
+const FRAMING_ITEM = /\b(frame|framing|camera|angle|close|wide|depth|foreground|midground|occupies|ground-level|low|high|eye-level)\b/i;
+const SCENE_ITEM = /\b(location|environment|room|street|interior|exterior|sky|weather|building|architecture|readable|threat)\b/i;
+
+/** violation_tags for failed items; reuses the storyboard validator's vocabulary where it fits. */
+export function mustShowViolationTags(failed: MustShowItemResult[]): string[] {
+  const tags = new Set<string>();
+  for (const r of failed) {
+    if (r.kind === 'required_action') {
+      tags.add('action_mismatch');
+      continue;
+    }
+    tags.add('must_show_missing');
+    if (FRAMING_ITEM.test(r.item)) tags.add('wrong_framing');
+  }
+  return [...tags];
+}
+
+function recommendationFor(failed: MustShowItemResult[]): ContinuityReport['regen_recommendation'] {
+  if (failed.length === 0) return 'none';
+  if (failed.some((r) => r.kind === 'must_show' && FRAMING_ITEM.test(r.item))) return 'regenerate_same_shot_change_framing';
+  if (failed.some((r) => r.kind === 'must_show' && SCENE_ITEM.test(r.item))) return 'regenerate_same_shot_fix_scene';
+  return 'regenerate_same_shot_keep_bible';
+}
+
+/**
+ * Adds the check to a continuity report: results under must_show_results,
+ * failures as violation_tags, and — when the report does not already
+ * recommend something — the regen_recommendation that addresses them.
+ */
+export function mergeMustShowIntoReport<T extends { violation_tags: string[]; regen_recommendation: string }>(
+  report: T,
+  check: MustShowCheckResult,
+): T & { must_show_results: MustShowItemResult[] } {
+  const tags = [...new Set([...(report.violation_tags || []), ...mustShowViolationTags(check.failed)])];
+  const current = report.regen_recommendation;
+  const regen = !current || current === 'none' ? recommendationFor(check.failed) : current;
+  return { ...report, violation_tags: tags, regen_recommendation: regen, must_show_results: check.results };
+}
@@ -0,0 +1,533 @@
+/**
+ * paletteConsistency.ts — Palette extraction and grade consistency across shots
+ *
+ * StyleBible.color_palette and SceneBible.palette describe the intended look
+ * as text; this module checks generated frames against it. ffmpeg decodes each
+ * approved frame and the first / last keyframe of each video (see
+ * extractFrameRaster, which also rejects private and non-http(s) URLs) and
+ * every frame is measured for:
+ *
+ *   dominant colours   k-means (k = 5) over the raster, with pixel shares
+ *   luma histogram     16 bins of Rec.709 luma, plus mean, contrast, saturation
+ *   white balance      correlated colour temperature (McCamy) and green/magenta
+ *                      tint, from near-neutral pixels or, failing that, gray-world
+ *
+ * Shots are grouped by scene. Each shot is scored against the scene's intended
+ * palette (colour words, hex codes and warm / cool / muted / low-key cues) and
+ * against the scene's median look; outliers in white balance, exposure or
+ * saturation get a corrective ColorGrade that the stitcher applies at render
+ * (videoStitcher: StitchSegment.grade).
+ */
+
+import { extractFrameRaster, type FrameSource, type PerceptualOptions } from './perceptualContinuity.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface DominantColor {
+  hex: string;
+  rgb: [number, number, number];
+  /** Fraction of pixels in this cluster, 0–1 */
+  share: number;
+}
+
+export interface WhiteBalanceEstimate {
+  /** Correlated colour temperature in Kelvin */
+  cct_kelvin: number;
+  /** Green (+) / magenta (−) cast, roughly −1…1 */
+  tint: number;
+  method: 'neutral_pixels' | 'gray_world';
+}
+
+export interface FramePalette {
+  dominant_colors: DominantColor[];
+  /** 16 bins of Rec.709 luma, normalised to sum 1 */
+  luma_histogram: number[];
+  /** 0–1 */
+  mean_luma: number;
+  /** 95th − 5th percentile luma */
+  contrast: number;
+  /** Mean HSV saturation, 0–1 */
+  saturation: number;
+  /** Mean sRGB value per channel, 0–255 */
+  mean_rgb: [number, number, number];
+  white_balance: WhiteBalanceEstimate;
+}
+
+/** Per-channel gains and a saturation factor; identity is all 1s. */
+export interface ColorGrade {
+  r_gain: number;
+  g_gain: number;
+  b_gain: number;
+  saturation: number;
+}
+
+export interface IntendedPalette {
+  source_text: string;
+  colors: Array<{ name: string; hex: string }>;
+  temperature?: 'warm' | 'cool';
+  saturation?: 'muted' | 'vivid';
+  key?: 'low' | 'high';
+}
+
+export interface PaletteMatch {
+  /** 0–100: share of the palette's colours and cues the frame honours */
+  score: number;
+  matched_colors: string[];
+  missing_colors: string[];
+  /** Failed temperature / saturation / key cues */
+  notes: string[];
+}
+
+export type PaletteFrameKind = 'approved_frame' | 'video_first' | 'video_last';
+
+export interface PaletteShotInput {
+  shot_id: string;
+  /** Shots sharing a scene_id are compared with each other */
+  scene_id?: string;
+  /** The shot's approved storyboard frame */
+  image_url?: string;
+  video_url?: string;
+}
+
+export interface ShotPaletteReport {
+  shot_id: string;
+  scene_id: string;
+  frames: Array<{ kind: PaletteFrameKind; url: string; palette: FramePalette }>;
+  /** All of the shot's video keyframes together (the approved frame when there is no video) */
+  palette?: FramePalette;
+  palette_match?: PaletteMatch;
+  /** Distance from the scene's median look */
+  deviation?: { mired: number; luma: number; saturation_ratio: number };
+  outlier: boolean;
+  issues: string[];
+  /** Corrective grade towards the scene's median look; outliers only */
+  grade?: ColorGrade;
+  ffmpeg_filter?: string;
+}
+
+export interface ScenePaletteReport {
+  scene_id: string;
+  intended?: IntendedPalette;
+  /** Median of the scene's shots */
+  reference?: { mean_rgb: [number, number, number]; mean_luma: number; saturation: number; cct_kelvin: number };
+  shot_ids: string[];
+  outlier_shot_ids: string[];
+  /** Consecutive shots whose white balance differs by more than the jump threshold */
+  temperature_jumps: Array<{ from_shot_id: string; to_shot_id: string; mired_delta: number }>;
+}
+
+export interface PaletteConsistencyReport {
+  shots: ShotPaletteReport[];
+  scenes: ScenePaletteReport[];
+  /** Frames that could not be decoded */
+  errors: Array<{ shot_id: string; url: string; error: string }>;
+  outlier_shot_ids: string[];
+  /** Corrective grades by shot id */
+  grades: Record<string, ColorGrade>;
+  pass: boolean;
+}
+
+export interface PaletteConsistencyOptions extends PerceptualOptions {
+  /** SceneBible.palette by scene id */
+  scene_palettes?: Record<string, string>;
+  /** StyleBible.color_palette — used for scenes without their own palette */
+  style_palette?: string;
+}
+
+// White balance within a scene: ~20 mired is a visible shift, 25 a jarring cut
+const OUTLIER_MIRED = 20;
+const JUMP_MIRED = 25;
+const OUTLIER_LUMA = 0.1;
+const OUTLIER_SATURATION_RATIO = 1.3;
+const OFF_PALETTE_SCORE = 50;
+const GAIN_LIMITS: [number, number] = [0.6, 1.6];
+const SATURATION_LIMITS: [number, number] = [0.7, 1.4];
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+const clamp = (v: number, [lo, hi]: [number, number]) => Math.min(hi, Math.max(lo, v));
+const toHex = (rgb: number[]) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+const mired = (kelvin: number) => 1e6 / kelvin;
+
+// ─── Colour maths ─────────────────────────────────────────────────────────────
+
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+function linearize(v: number): number {
+  const c = Math.min(1, Math.max(0, v / 255));
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+/** McCamy's approximation from mean linear RGB (sRGB primaries, D65). */
+function cctFromLinear(r: number, g: number, b: number): number {
+  const X = 0.4124 * r + 0.3576 * g + 0.1805 * b;
+  const Y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const Z = 0.0193 * r + 0.1192 * g + 0.9505 * b;
+  const sum = X + Y + Z;
+  if (sum <= 0) return 6500;
+  const x = X / sum;
+  const y = Y / sum;
+  const n = (x - 0.332) / (0.1858 - y);
+  const cct = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+  return Math.round(Math.min(15000, Math.max(1500, cct)));
+}
+
+function rgbToLab([r, g, b]: number[]): [number, number, number] {
+  const lr = linearize(r), lg = linearize(g), lb = linearize(b);
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const fy = f(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const fz = f((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+const deltaE = (a: number[], b: number[]) => {
+  const la = rgbToLab(a), lb = rgbToLab(b);
+  return Math.hypot(la[0] - lb[0], la[1] - lb[1], la[2] - lb[2]);
+};
+
+const pixelLuma = (r: number, g: number, b: number) => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+const pixelSaturation = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  return max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+};
+
+// ─── Frame analysis ───────────────────────────────────────────────────────────
+
+/** k-means over the pixels, seeded at luma quantiles so results are deterministic. */
+function dominantColors(raster: Uint8Array, k = 5, iterations = 8): DominantColor[] {
+  const count = raster.length / 3;
+  const order = Array.from({ length: count }, (_, i) => i)
+    .sort((a, b) => pixelLuma(raster[a * 3], raster[a * 3 + 1], raster[a * 3 + 2]) - pixelLuma(raster[b * 3], raster[b * 3 + 1], raster[b * 3 + 2]));
+  let centers = Array.from({ length: k }, (_, j) => {
+    const p = order[Math.floor(((j + 0.5) / k) * count)] * 3;
+    return [raster[p], raster[p + 1], raster[p + 2]];
+  });
+  const assignment = new Uint8Array(count);
+  for (let iter = 0; iter < iterations; iter++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (let i = 0; i < count; i++) {
+      const r = raster[i * 3], g = raster[i * 3 + 1], b = raster[i * 3 + 2];
+      let best = 0;
+      let bestDist = Infinity;
+      centers.forEach((c, j) => {
+        const d = (r - c[0]) ** 2 + (g - c[1]) ** 2 + (b - c[2]) ** 2;
+        if (d < bestDist) { bestDist = d; best = j; }
+      });
+      assignment[i] = best;
+      sums[best][0] += r; sums[best][1] += g; sums[best][2] += b; sums[best][3] += 1;
+    }
+    centers = centers.map((c, j) => (sums[j][3] > 0 ? [sums[j][0] / sums[j][3], sums[j][1] / sums[j][3], sums[j][2] / sums[j][3]] : c));
+  }
+  const sizes = new Array(k).fill(0);
+  for (let i = 0; i < count; i++) sizes[assignment[i]]++;
+  return centers
+    .map((c, j) => ({ rgb: c.map(Math.round) as [number, number, number], share: sizes[j] / count }))
+    .filter((c) => c.share >= 0.02)
+    .sort((a, b) => b.share - a.share)
+    .map((c) => ({ hex: toHex(c.rgb), rgb: c.rgb, share: round3(c.share) }));
+}
+
+/** Measures one raster (rgb24) — or several frames concatenated, measured as one. */
+export function analyzeRaster(raster: Uint8Array): FramePalette {
+  const count = raster.length / 3;
+  const histogram = new Array(16).fill(0);
+  const lumas = new Float64Array(count);
+  const sum = [0, 0, 0];
+  const linear = [0, 0, 0];
+  const neutral = [0, 0, 0];
+  let neutralCount = 0;
+  let saturation = 0;
+  for (let i = 0; i < count; i++) {
+    const r = raster[i * 3], g = raster[i * 3 + 1], b = raster[i * 3 + 2];
+    const y = pixelLuma(r, g, b);
+    const sat = pixelSaturation(r, g, b);
+    lumas[i] = y;
+    histogram[Math.min(15, Math.floor(y * 16))]++;
+    sum[0] += r; sum[1] += g; sum[2] += b;
+    linear[0] += SRGB_TO_LINEAR[r]; linear[1] += SRGB_TO_LINEAR[g]; linear[2] += SRGB_TO_LINEAR[b];
+    saturation += sat;
+    // Near-neutral, well-exposed pixels carry the illuminant's colour best
+    if (sat < 0.25 && y > 0.15 && y < 0.9) {
+      neutral[0] += SRGB_TO_LINEAR[r]; neutral[1] += SRGB_TO_LINEAR[g]; neutral[2] += SRGB_TO_LINEAR[b];
+      neutralCount++;
+    }
+  }
+  const sorted = Array.from(lumas).sort((a, b) => a - b);
+  const useNeutral = neutralCount >= count * 0.03;
+  const wb = useNeutral ? neutral : linear;
+  const wbCount = useNeutral ? neutralCount : count;
+  const [lr, lg, lb] = wb.map((v) => v / wbCount);
+  return {
+    dominant_colors: dominantColors(raster),
+    luma_histogram: histogram.map((h) => round3(h / count)),
+    mean_luma: round3(sorted.reduce((acc, v) => acc + v, 0) / count),
+    contrast: round3(sorted[Math.floor(count * 0.95)] - sorted[Math.floor(count * 0.05)]),
+    saturation: round3(saturation / count),
+    mean_rgb: sum.map((v) => Math.round((v / count) * 10) / 10) as [number, number, number],
+    white_balance: {
+      cct_kelvin: cctFromLinear(lr, lg, lb),
+      tint: round3(lg > 0 ? lg / ((lr + lb) / 2 || lg) - 1 : 0),
+      method: useNeutral ? 'neutral_pixels' : 'gray_world',
+    },
+  };
+}
+
+export async function extractFramePalette(source: FrameSource, opts: PerceptualOptions = {}): Promise<FramePalette> {
+  return analyzeRaster(await extractFrameRaster(source, opts));
+}
+
+// ─── Intended palette ─────────────────────────────────────────────────────────
+
+// 金, 青, 白 and 暗 also open everyday words (金属, 青年, 白天, 暗示), so they
+// only count inside colour phrases
+const COLOR_WORDS: Array<[RegExp, string, string]> = [
+  [/\b(crimson|scarlet|blood[- ]red)\b|猩红|血红/i, 'crimson', '#a51c30'],
+  [/\bred\b|红/i, 'red', '#c0392b'],
+  [/\b(amber|orange)\b|橙|琥珀/i, 'orange', '#e08a2e'],
+  [/\b(gold|golden)\b|金(色|黄|光|调)|鎏金/i, 'gold', '#d4a537'],
+  [/\byellow\b|黄/i, 'yellow', '#e8cf3a'],
+  [/\b(olive|khaki)\b|橄榄/i, 'olive', '#7a7a3a'],
+  [/\b(green|emerald)\b|绿/i, 'green', '#2e8b57'],
+  [/\b(teal|cyan|turquoise)\b|(?<!藏)青(色|绿|蓝|灰|调)|蓝青/i, 'teal', '#1f8a8a'],
+  [/\b(navy|indigo)\b|藏青|靛/i, 'navy', '#1f2f5c'],
+  [/\bblue\b|蓝/i, 'blue', '#2e6fc0'],
+  [/\b(purple|violet)\b|紫/i, 'purple', '#6c3a9c'],
+  [/\b(magenta|pink|rose)\b|粉|玫/i, 'pink', '#d66b9a'],
+  [/\b(brown|sepia|umber)\b|棕|褐/i, 'brown', '#6b4a2f'],
+  [/\b(beige|cream|ivory)\b|米色|奶油/i, 'beige', '#e6d8b8'],
+  [/\b(silver|steel)\b|银/i, 'silver', '#b8bcc2'],
+  [/\b(gr[ae]y|ash)\b|灰/i, 'gray', '#808080'],
+  [/\bblack\b|黑/i, 'black', '#141414'],
+  [/\bwhite\b|白(色|调|光)|(纯|雪|乳|苍|银)白/i, 'white', '#f2f2f2'],
+];
+
+/** Reads colour words, hex codes and look cues out of a free-text palette. */
+export function parseIntendedPalette(text: string): IntendedPalette {
+  const source = String(text || '');
+  const colors: IntendedPalette['colors'] = [];
+  for (const hex of source.match(/#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/gi) || []) {
+    const full = hex.length === 4 ? `#${[...hex.slice(1)].map((c) => c + c).join('')}` : hex;
+    colors.push({ name: hex.toLowerCase(), hex: full.toLowerCase() });
+  }
+  // Crimson and red both match "blood red"; keep the more specific one
+  let rest = source.replace(/#[0-9a-f]{3,6}\b/gi, ' ');
+  for (const [re, name, hex] of COLOR_WORDS) {
+    if (re.test(rest)) {
+      colors.push({ name, hex });
+      rest = rest.replace(new RegExp(re.source, 'gi'), ' ');
+    }
+  }
+  const palette: IntendedPalette = { source_text: source, colors };
+  if (/\b(warm|tungsten|golden hour|sunset)\b|暖/i.test(source)) palette.temperature = 'warm';
+  else if (/\b(cool|cold|icy|moonlit)\b|冷/i.test(source)) palette.temperature = 'cool';
+  if (/\b(muted|desaturated|pastel|washed[- ]out|faded)\b|低饱和|褪色/i.test(source)) palette.saturation = 'muted';
+  else if (/\b(vivid|saturated|neon|vibrant)\b|高饱和|鲜艳/i.test(source)) palette.saturation = 'vivid';
+  if (/\b(low[- ]key|noir|dark|shadowy)\b|低调|(昏|幽|阴|黑|偏)暗|暗(调|色|部|沉|光)/i.test(source)) palette.key = 'low';
+  else if (/\b(high[- ]key|bright|airy)\b|高调|明亮/i.test(source)) palette.key = 'high';
+  return palette;
+}
+
+/** How well a frame honours an intended palette; colours count if a dominant cluster is within ΔE 40. */
+export function scorePaletteMatch(palette: FramePalette, intended: IntendedPalette): PaletteMatch {
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const color of intended.colors) {
+    const target = [1, 3, 5].map((i) => parseInt(color.hex.slice(i, i + 2), 16));
+    const hit = palette.dominant_colors.some((d) => d.share >= 0.03 && deltaE(d.rgb, target) < 40);
+    (hit ? matched : missing).push(color.name);
+  }
+  const notes: string[] = [];
+  const cct = palette.white_balance.cct_kelvin;
+  if (intended.temperature === 'warm' && cct > 5000) notes.push(`palette is warm but frame reads ${cct}K`);
+  if (intended.temperature === 'cool' && cct < 6000) notes.push(`palette is cool but frame reads ${cct}K`);
+  if (intended.saturation === 'muted' && palette.saturation > 0.35) notes.push(`palette is muted but saturation is ${palette.saturation}`);
+  if (intended.saturation === 'vivid' && palette.saturation < 0.45) notes.push(`palette is vivid but saturation is ${palette.saturation}`);
+  if (intended.key === 'low' && palette.mean_luma > 0.35) notes.push(`palette is low-key but mean luma is ${palette.mean_luma}`);
+  if (intended.key === 'high' && palette.mean_luma < 0.6) notes.push(`palette is high-key but mean luma is ${palette.mean_luma}`);
+
+  const cues = [intended.temperature, intended.saturation, intended.key].filter(Boolean).length;
+  const total = intended.colors.length + cues;
+  const passed = matched.length + cues - notes.length;
+  return {
+    score: total > 0 ? Math.round((passed / total) * 100) : 100,
+    matched_colors: matched,
+    missing_colors: missing,
+    notes,
+  };
+}
+
+// ─── Grades ───────────────────────────────────────────────────────────────────
+
+export function isValidColorGrade(grade: any): grade is ColorGrade {
+  return !!grade && typeof grade === 'object'
+    && ['r_gain', 'g_gain', 'b_gain', 'saturation'].every((k) => typeof grade[k] === 'number' && grade[k] > 0 && grade[k] < 4);
+}
+
+/** ffmpeg -vf chain for a grade; empty when the grade is (near) identity. */
+export function colorGradeFilter(grade: ColorGrade): string {
+  const filters: string[] = [];
+  const gains = [grade.r_gain, grade.g_gain, grade.b_gain];
+  if (gains.some((g) => Math.abs(g - 1) >= 0.005)) {
+    filters.push(`colorchannelmixer=rr=${gains[0].toFixed(3)}:gg=${gains[1].toFixed(3)}:bb=${gains[2].toFixed(3)}`);
+  }
+  if (Math.abs(grade.saturation - 1) >= 0.01) filters.push(`eq=saturation=${grade.saturation.toFixed(3)}`);
+  return filters.join(',');
+}
+
+/** Channel gains taking the shot's mean colour to the reference's, plus a saturation factor. */
+function correctiveGrade(palette: FramePalette, reference: NonNullable<ScenePaletteReport['reference']>): ColorGrade {
+  const gain = (i: number) => round3(clamp(reference.mean_rgb[i] / Math.max(1, palette.mean_rgb[i]), GAIN_LIMITS));
+  return {
+    r_gain: gain(0),
+    g_gain: gain(1),
+    b_gain: gain(2),
+    saturation: round3(clamp(reference.saturation / Math.max(0.01, palette.saturation), SATURATION_LIMITS)),
+  };
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+function concatRasters(rasters: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(rasters.reduce((acc, r) => acc + r.length, 0));
+  let offset = 0;
+  for (const r of rasters) {
+    out.set(r, offset);
+    offset += r.length;
+  }
+  return out;
+}
+
+/**
+ * Extracts every shot's frames, then compares each scene's shots with its
+ * intended palette and with each other. Shots are taken in story order;
+ * decoding runs one frame at a time.
+ */
+export async function buildPaletteConsistencyReport(
+  inputs: PaletteShotInput[],
+  opts: PaletteConsistencyOptions = {},
+): Promise<PaletteConsistencyReport> {
+  const errors: PaletteConsistencyReport['errors'] = [];
+  const shots: ShotPaletteReport[] = [];
+
+  for (const input of inputs) {
+    const planned: Array<[PaletteFrameKind, FrameSource]> = [];
+    if (input.image_url) planned.push(['approved_frame', { url: input.image_url }]);
+    if (input.video_url) {
+      planned.push(['video_first', { url: input.video_url, position: 'first' }]);
+      planned.push(['video_last', { url: input.video_url, position: 'last' }]);
+    }
+    const frames: ShotPaletteReport['frames'] = [];
+    const rasters: Array<[PaletteFrameKind, Uint8Array]> = [];
+    for (const [kind, source] of planned) {
+      try {
+        const raster = await extractFrameRaster(source, opts);
+        rasters.push([kind, raster]);
+        frames.push({ kind, url: source.url, palette: analyzeRaster(raster) });
+      } catch (err: any) {
+        errors.push({ shot_id: input.shot_id, url: source.url, error: String(err?.message || err).slice(0, 300) });
+      }
+    }
+    // The stitcher grades the video, so its keyframes define the shot's look when there is one
+    const videoRasters = rasters.filter(([kind]) => kind !== 'approved_frame').map(([, r]) => r);
+    const lookRasters = videoRasters.length > 0 ? videoRasters : rasters.map(([, r]) => r);
+    shots.push({
+      shot_id: input.shot_id,
+      scene_id: input.scene_id || 'project',
+      frames,
+      palette: lookRasters.length > 0 ? analyzeRaster(concatRasters(lookRasters)) : undefined,
+      outlier: false,
+      issues: [],
+    });
+  }
+
+  const sceneIds = [...new Set(shots.map((s) => s.scene_id))];
+  const scenes: ScenePaletteReport[] = sceneIds.map((sceneId) => {
+    const sceneShots = shots.filter((s) => s.scene_id === sceneId);
+    const measured = sceneShots.filter((s) => s.palette);
+    const paletteText = opts.scene_palettes?.[sceneId] || opts.style_palette;
+    const intended = paletteText?.trim() ? parseIntendedPalette(paletteText) : undefined;
+    const scene: ScenePaletteReport = {
+      scene_id: sceneId,
+      intended,
+      shot_ids: sceneShots.map((s) => s.shot_id),
+      outlier_shot_ids: [],
+      temperature_jumps: [],
+    };
+
+    if (intended) {
+      for (const shot of measured) {
+        shot.palette_match = scorePaletteMatch(shot.palette!, intended);
+        if (shot.palette_match.score < OFF_PALETTE_SCORE) shot.issues.push('off_palette');
+      }
+    }
+    if (measured.length === 0) return scene;
+
+    const palettes = measured.map((s) => s.palette!);
+    const reference = {
+      mean_rgb: [0, 1, 2].map((i) => median(palettes.map((p) => p.mean_rgb[i]))) as [number, number, number],
+      mean_luma: round3(median(palettes.map((p) => p.mean_luma))),
+      saturation: round3(median(palettes.map((p) => p.saturation))),
+      cct_kelvin: Math.round(1e6 / median(palettes.map((p) => mired(p.white_balance.cct_kelvin)))),
+    };
+    scene.reference = reference;
+
+    // Against each other: the scene's median look, then the cut from the previous shot
+    for (const shot of measured) {
+      const p = shot.palette!;
+      const deviation = {
+        mired: Math.round(mired(p.white_balance.cct_kelvin) - mired(reference.cct_kelvin)),
+        luma: round3(p.mean_luma - reference.mean_luma),
+        saturation_ratio: round3(p.saturation / Math.max(0.01, reference.saturation)),
+      };
+      shot.deviation = deviation;
+      if (measured.length < 2) continue;
+      if (Math.abs(deviation.mired) > OUTLIER_MIRED) shot.issues.push(deviation.mired > 0 ? 'too_warm_for_scene' : 'too_cool_for_scene');
+      if (Math.abs(deviation.luma) > OUTLIER_LUMA) shot.issues.push(deviation.luma > 0 ? 'brighter_than_scene' : 'darker_than_scene');
+      if (deviation.saturation_ratio > OUTLIER_SATURATION_RATIO || deviation.saturation_ratio < 1 / OUTLIER_SATURATION_RATIO) {
+        shot.issues.push('saturation_mismatch');
+      }
+    }
+    for (let i = 1; i < measured.length; i++) {
+      const delta = Math.round(mired(measured[i].palette!.white_balance.cct_kelvin) - mired(measured[i - 1].palette!.white_balance.cct_kelvin));
+      if (Math.abs(delta) > JUMP_MIRED) {
+        scene.temperature_jumps.push({ from_shot_id: measured[i - 1].shot_id, to_shot_id: measured[i].shot_id, mired_delta: delta });
+        // Blame the side of the cut further from the scene's look
+        const culprit = Math.abs(measured[i].deviation!.mired) >= Math.abs(measured[i - 1].deviation!.mired) ? measured[i] : measured[i - 1];
+        if (!culprit.issues.includes('temperature_jump')) culprit.issues.push('temperature_jump');
+      }
+    }
+
+    for (const shot of measured) {
+      if (shot.issues.length === 0) continue;
+      shot.outlier = true;
+      scene.outlier_shot_ids.push(shot.shot_id);
+      // Off-palette alone is a regeneration problem, not something a grade can fix
+      if (shot.issues.some((issue) => issue !== 'off_palette') && measured.length >= 2) {
+        shot.grade = correctiveGrade(shot.palette!, reference);
+        shot.ffmpeg_filter = colorGradeFilter(shot.grade) || undefined;
+      }
+    }
+    return scene;
+  });
+
+  const grades: Record<string, ColorGrade> = {};
+  for (const shot of shots) if (shot.grade && shot.ffmpeg_filter) grades[shot.shot_id] = shot.grade;
+  const outlierShotIds = shots.filter((s) => s.outlier).map((s) => s.shot_id);
+  return {
+    shots,
+    scenes,
+    errors,
+    outlier_shot_ids: outlierShotIds,
+    grades,
+    pass: outlierShotIds.length === 0 && errors.length === 0,
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * perceptualContinuity.ts — Server-side perceptual frame comparison
+ *
+ * utils/continuityValidator.ts compared frames in the browser through a
+ * canvas, so every CORS-blocked URL failed open. Here ffmpeg decodes each
+ * source — an image, or a video's first or last frame; http(s), data: or
+ * local-media URLs — to a small RGB raster, and three measures are taken:
+ *
+ *   dHash      64-bit difference hash of the luma; 1 − Hamming distance / 64
+ *   histogram  4×4×4 RGB histogram; Bhattacharyya coefficient
+ *   structure  mean SSIM over 8×8 luma windows
+ *
+ * Each check weighs them for what it is asking: a video's first frame should
+ * match its storyboard frame almost pixel for pixel, while a cut to the next
+ * shot or an approved neighbour only has to keep palette and light.
+ *
+ * Remote URLs must pass assertSafePublicUrl() and ffmpeg is held to the
+ * protocols each input needs: http(s) for vetted remote URLs, file for local
+ * media and decoded data: URLs, so a crafted playlist cannot pull in other
+ * files or hosts.
+ *
+ * scoreShotPerceptualContinuity() runs the shot-level checks and returns the
+ * continuity / visual-match numbers scoreStoryboardCandidate() takes.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { resolveLocalMediaUrl } from './localGenerationProvider.js';
+import { assertSafePublicUrl } from './publicUrl.js';
+
+const execFileAsync = promisify(execFile);
+
+const RASTER_SIZE = 64;
+const FFMPEG_TIMEOUT_MS = 60_000;
+
+export type FramePosition = 'first' | 'last';
+
+export interface FrameSource {
+  url: string;
+  /** For videos; images ignore it. Default 'first' */
+  position?: FramePosition;
+}
+
+export interface PerceptualComparison {
+  phash_similarity: number;
+  histogram_similarity: number;
+  ssim: number;
+}
+
+export type PerceptualCheckKind = 'storyboard_vs_video_start' | 'video_end_vs_next_shot' | 'approved_neighbor';
+
+export interface PerceptualCheck extends PerceptualComparison {
+  kind: PerceptualCheckKind;
+  a: string;
+  b: string;
+  /** 0–100, weighted for the kind */
+  score: number;
+  threshold: number;
+  pass: boolean;
+}
+
+export interface ShotPerceptualReport {
+  checks: PerceptualCheck[];
+  /** Checks that could not run (unreachable URL, undecodable media) */
+  errors: Array<{ kind: PerceptualCheckKind; a: string; b: string; error: string }>;
+  /** Mean of the cross-shot checks (next shot, approved neighbours) */
+  continuity_score?: number;
+  /** The storyboard-vs-video-start check */
+  visual_match_score?: number;
+  violation_tags: string[];
+}
+
+const CHECK_WEIGHTS: Record<PerceptualCheckKind, { phash: number; histogram: number; ssim: number; threshold: number }> = {
+  storyboard_vs_video_start: { phash: 0.3, histogram: 0.3, ssim: 0.4, threshold: 70 },
+  video_end_vs_next_shot:    { phash: 0.15, histogram: 0.6, ssim: 0.25, threshold: 55 },
+  approved_neighbor:         { phash: 0.1, histogram: 0.8, ssim: 0.1, threshold: 55 },
+};
+
+const VIOLATION_BY_KIND: Record<PerceptualCheckKind, string> = {
+  storyboard_vs_video_start: 'video_start_drift',
+  video_end_vs_next_shot: 'cut_continuity_break',
+  approved_neighbor: 'lighting_mismatch',
+};
+
+export interface PerceptualOptions {
+  ffmpegPath?: string;
+}
+
+function ffmpegPath(opts: PerceptualOptions): string {
+  return opts.ffmpegPath || process.env.FFMPEG_PATH?.trim() || ffmpegInstaller?.path || 'ffmpeg';
+}
+
+// ─── Decoding ─────────────────────────────────────────────────────────────────
+
+/**
+ * ffmpeg input for a URL and the protocols it may use. Image / video data:
+ * URLs are written to a temp file the caller removes; anything else must be
+ * a public http(s) URL.
+ */
+async function resolveInput(url: string, tmpFiles: string[]): Promise<{ input: string; protocols: string }> {
+  const local = resolveLocalMediaUrl(url);
+  if (local) return { input: local, protocols: 'file' };
+  const dataMatch = url.match(/^data:(image|video)\/([a-z0-9.+-]+);base64,/i);
+  if (dataMatch) {
+    const ext = dataMatch[2].replace(/[^a-z0-9]/gi, '') || 'bin';
+    const file = path.join(os.tmpdir(), `perceptual-${createHash('sha1').update(url).digest('hex').slice(0, 16)}-${process.pid}.${ext}`);
+    await fs.writeFile(file, Buffer.from(url.slice(dataMatch[0].length), 'base64'));
+    tmpFiles.push(file);
+    return { input: file, protocols: 'file' };
+  }
+  return { input: assertSafePublicUrl(url).toString(), protocols: 'http,https,tcp,tls' };
+}
+
+/** Decodes one frame to a RASTER_SIZE² rgb24 raster. */
+export async function extractFrameRaster(source: FrameSource, opts: PerceptualOptions = {}): Promise<Uint8Array> {
+  const tmpFiles: string[] = [];
+  try {
+    const { input, protocols } = await resolveInput(source.url, tmpFiles);
+    const last = source.position === 'last';
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      '-protocol_whitelist', protocols,
+      // Seek near the end and keep decoding; the final frame in the output is the last one
+      ...(last ? ['-sseof', '-1'] : []),
+      '-i', input,
+      '-vf', `scale=${RASTER_SIZE}:${RASTER_SIZE}:flags=area`,
+      ...(last ? [] : ['-frames:v', '1']),
+      '-pix_fmt', 'rgb24', '-f', 'rawvideo', 'pipe:1',
+    ];
+    const { stdout } = await execFileAsync(ffmpegPath(opts), args, {
+      encoding: 'buffer',
+      timeout: FFMPEG_TIMEOUT_MS,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    const frameBytes = RASTER_SIZE * RASTER_SIZE * 3;
+    if (stdout.length < frameBytes) throw new Error(`no frame decoded from ${source.url.slice(0, 80)}`);
+    return new Uint8Array(stdout.subarray(stdout.length - frameBytes));
+  } finally {
+    await Promise.all(tmpFiles.map((f) => fs.rm(f, { force: true })));
+  }
+}
+
+// ─── Measures ─────────────────────────────────────────────────────────────────
+
+function luma(raster: Uint8Array): Float64Array {
+  const out = new Float64Array(raster.length / 3);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = 0.299 * raster[i * 3] + 0.587 * raster[i * 3 + 1] + 0.114 * raster[i * 3 + 2];
+  }
+  return out;
+}
+
+/** Mean luma of a w×h grid of cells over the square raster. */
+function cellMeans(y: Float64Array, w: number, h: number): Float64Array {
+  const out = new Float64Array(w * h);
+  for (let cy = 0; cy < h; cy++) {
+    const y0 = Math.floor((cy * RASTER_SIZE) / h), y1 = Math.floor(((cy + 1) * RASTER_SIZE) / h);
+    for (let cx = 0; cx < w; cx++) {
+      const x0 = Math.floor((cx * RASTER_SIZE) / w), x1 = Math.floor(((cx + 1) * RASTER_SIZE) / w);
+      let sum = 0;
+      for (let py = y0; py < y1; py++) for (let px = x0; px < x1; px++) sum += y[py * RASTER_SIZE + px];
+      out[cy * w + cx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+function dHash(y: Float64Array): boolean[] {
+  const cells = cellMeans(y, 9, 8);
+  const bits: boolean[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) bits.push(cells[row * 9 + col] > cells[row * 9 + col + 1]);
+  }
+  return bits;
+}
+
+function histogram(raster: Uint8Array): Float64Array {
+  const bins = new Float64Array(64);
+  const pixels = raster.length / 3;
+  for (let i = 0; i < pixels; i++) {
+    bins[(raster[i * 3] >> 6) * 16 + (raster[i * 3 + 1] >> 6) * 4 + (raster[i * 3 + 2] >> 6)]++;
+  }
+  for (let i = 0; i < bins.length; i++) bins[i] /= pixels;
+  return bins;
+}
+
+function meanSsim(a: Float64Array, b: Float64Array, window = 8): number {
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  let total = 0, count = 0;
+  for (let wy = 0; wy + window <= RASTER_SIZE; wy += window) {
+    for (let wx = 0; wx + window <= RASTER_SIZE; wx += window) {
+      let ma = 0, mb = 0;
+      for (let y = wy; y < wy + window; y++) for (let x = wx; x < wx + window; x++) {
+        ma += a[y * RASTER_SIZE + x];
+        mb += b[y * RASTER_SIZE + x];
+      }
+      const n = window * window;
+      ma /= n; mb /= n;
+      let va = 0, vb = 0, cov = 0;
+      for (let y = wy; y < wy + window; y++) for (let x = wx; x < wx + window; x++) {
+        const da = a[y * RASTER_SIZE + x] - ma, db = b[y * RASTER_SIZE + x] - mb;
+        va += da * da; vb += db * db; cov += da * db;
+      }
+      va /= n - 1; vb /= n - 1; cov /= n - 1;
+      total += ((2 * ma * mb + c1) * (2 * cov + c2)) / ((ma * ma + mb * mb + c1) * (va + vb + c2));
+      count++;
+    }
+  }
+  return count === 0 ? 0 : total / count;
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+/** Compares two decoded rasters. Every measure is 0–1, 1 = identical. */
+export function compareRasters(a: Uint8Array, b: Uint8Array): PerceptualComparison {
+  const ya = luma(a), yb = luma(b);
+  const ha = dHash(ya), hb = dHash(yb);
+  const hamming = ha.reduce((acc, bit, i) => acc + (bit !== hb[i] ? 1 : 0), 0);
+  const pa = histogram(a), pb = histogram(b);
+  let bhattacharyya = 0;
+  for (let i = 0; i < pa.length; i++) bhattacharyya += Math.sqrt(pa[i] * pb[i]);
+  return {
+    phash_similarity: round3(1 - hamming / 64),
+    histogram_similarity: round3(Math.min(1, bhattacharyya)),
+    ssim: round3(Math.max(0, meanSsim(ya, yb))),
+  };
+}
+
+export function scorePerceptualCheck(kind: PerceptualCheckKind, cmp: PerceptualComparison): { score: number; threshold: number; pass: boolean } {
+  const w = CHECK_WEIGHTS[kind];
+  const score = Math.round(100 * (w.phash * cmp.phash_similarity + w.histogram * cmp.histogram_similarity + w.ssim * cmp.ssim));
+  return { score, threshold: w.threshold, pass: score >= w.threshold };
+}
+
+export async function compareFrames(
+  kind: PerceptualCheckKind,
+  a: FrameSource,
+  b: FrameSource,
+  opts: PerceptualOptions = {},
+): Promise<PerceptualCheck> {
+  const [ra, rb] = await Promise.all([extractFrameRaster(a, opts), extractFrameRaster(b, opts)]);
+  const cmp = compareRasters(ra, rb);
+  return { kind, a: a.url, b: b.url, ...cmp, ...scorePerceptualCheck(kind, cmp) };
+}
+
+// ─── Shot-level report ────────────────────────────────────────────────────────
+
+export interface ShotPerceptualInput {
+  /** The shot's storyboard frame (candidate or approved image) */
+  storyboardFrameUrl?: string;
+  /** The shot's generated video */
+  videoUrl?: string;
+  /** The next shot's storyboard frame, for the cut out of this shot */
+  nextShotFrameUrl?: string;
+  /** Approved frames of neighbouring shots in the same scene */
+  neighborFrameUrls?: string[];
+}
+
+/**
+ * Runs every check the input allows: storyboard frame vs video first frame,
+ * video last frame vs next shot, storyboard frame vs each approved neighbour.
+ * Checks that fail to decode are reported under errors, never scored as passes.
+ */
+export async function scoreShotPerceptualContinuity(input: ShotPerceptualInput, opts: PerceptualOptions = {}): Promise<ShotPerceptualReport> {
+  const planned: Array<[PerceptualCheckKind, FrameSource, FrameSource]> = [];
+  if (input.storyboardFrameUrl && input.videoUrl) {
+    planned.push(['storyboard_vs_video_start', { url: input.storyboardFrameUrl }, { url: input.videoUrl, position: 'first' }]);
+  }
+  if (input.videoUrl && input.nextShotFrameUrl) {
+    planned.push(['video_end_vs_next_shot', { url: input.videoUrl, position: 'last' }, { url: input.nextShotFrameUrl }]);
+  }
+  if (input.storyboardFrameUrl) {
+    for (const neighbor of input.neighborFrameUrls || []) {
+      if (neighbor && neighbor !== input.storyboardFrameUrl) {
+        planned.push(['approved_neighbor', { url: input.storyboardFrameUrl }, { url: neighbor }]);
+      }
+    }
+  }
+
+  const checks: PerceptualCheck[] = [];
+  const errors: ShotPerceptualReport['errors'] = [];
+  // One at a time: each check spawns two ffmpeg processes
+  for (const [kind, a, b] of planned) {
+    try {
+      checks.push(await compareFrames(kind, a, b, opts));
+    } catch (err: any) {
+      errors.push({ kind, a: a.url, b: b.url, error: String(err?.message || err).slice(0, 300) });
+    }
+  }
+
+  const crossShot = checks.filter((c) => c.kind !== 'storyboard_vs_video_start');
+  const start = checks.find((c) => c.kind === 'storyboard_vs_video_start');
+  return {
+    checks,
+    errors,
+    continuity_score: crossShot.length > 0
+      ? Math.round(crossShot.reduce((acc, c) => acc + c.score, 0) / crossShot.length)
+      : undefined,
+    visual_match_score: start?.score,
+    violation_tags: [...new Set(checks.filter((c) => !c.pass).map((c) => VIOLATION_BY_KIND[c.kind]))],
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * pipelineEventStream.ts — Per-project fan-out for GET /api/pipeline/:projectId/events
+ *
+ * Producers publish typed events (stage changes, candidates, approvals,
+ * regenerations, batch item completions, render progress, prediction updates).
+ * Every event gets an id of the form `<instanceId>-<n>` and is kept in a
+ * bounded per-project backlog so a reconnecting client can resume from its
+ * Last-Event-ID. Ids from another instance (or evicted from the backlog)
+ * cannot be resumed; the subscriber is told to resync from /status instead.
+ */
+
+import type { PipelineEvent } from './storyPipeline.js';
+
+export type PipelineStreamEventType =
+  | 'stage_changed'
+  | 'candidate_registered'
+  | 'shot_approved'
+  | 'shot_regenerated'
+  | 'candidate_promoted'
+  | 'queue_controlled'
+  | 'batch_item_completed'
+  | 'render_progress'
+  | 'prediction_updated';
+
+export interface PipelineStreamEvent<T = Record<string, any>> {
+  id: string;
+  type: PipelineStreamEventType;
+  project_id: string;
+  at: number;
+  data: T;
+}
+
+export type PipelineStreamListener = (event: PipelineStreamEvent) => void;
+
+/** Events kept per project for Last-Event-ID resume. */
+const MAX_BACKLOG = 500;
+/** Idle projects (no subscribers, no events) are dropped after this long. */
+const BACKLOG_TTL_MS = 30 * 60 * 1000;
+
+const INSTANCE_ID = Math.random().toString(36).slice(2, 8);
+let nextEventNumber = 1;
+
+interface ProjectChannel {
+  backlog: PipelineStreamEvent[];
+  listeners: Set<PipelineStreamListener>;
+  lastActivity: number;
+}
+
+const channels = new Map<string, ProjectChannel>();
+
+function getChannel(projectId: string): ProjectChannel {
+  let channel = channels.get(projectId);
+  if (!channel) {
+    channel = { backlog: [], listeners: new Set(), lastActivity: Date.now() };
+    channels.set(projectId, channel);
+  }
+  return channel;
+}
+
+function pruneIdleChannels(now: number): void {
+  for (const [projectId, channel] of channels) {
+    if (channel.listeners.size === 0 && now - channel.lastActivity > BACKLOG_TTL_MS) {
+      channels.delete(projectId);
+    }
+  }
+}
+
+export function publishPipelineStreamEvent<T extends Record<string, any>>(
+  projectId: string,
+  type: PipelineStreamEventType,
+  data: T
+): PipelineStreamEvent<T> {
+  const now = Date.now();
+  const event: PipelineStreamEvent<T> = {
+    id: `${INSTANCE_ID}-${nextEventNumber++}`,
+    type,
+    project_id: projectId,
+    at: now,
+    data,
+  };
+
+  const channel = getChannel(projectId);
+  channel.backlog.push(event);
+  if (channel.backlog.length > MAX_BACKLOG) channel.backlog.splice(0, channel.backlog.length - MAX_BACKLOG);
+  channel.lastActivity = now;
+
+  for (const listener of channel.listeners) {
+    try {
+      listener(event);
+    } catch (e: any) {
+      console.warn('[PipelineEventStream] Listener failed:', e?.message || e);
+    }
+  }
+
+  pruneIdleChannels(now);
+  return event;
+}
+
+/**
+ * Subscribes to a project's events. When `lastEventId` is given, the events
+ * published after it are returned as `backlog` (to be sent before live ones);
+ * `resync` is true when that id can no longer be resumed.
+ */
+export function subscribePipelineStream(
+  projectId: string,
+  lastEventId: string | undefined,
+  listener: PipelineStreamListener
+): { backlog: PipelineStreamEvent[]; resync: boolean; unsubscribe: () => void } {
+  const channel = getChannel(projectId);
+  channel.listeners.add(listener);
+  channel.lastActivity = Date.now();
+
+  let backlog: PipelineStreamEvent[] = [];
+  let resync = false;
+  if (lastEventId) {
+    const idx = channel.backlog.findIndex((e) => e.id === lastEventId);
+    if (idx >= 0) {
+      backlog = channel.backlog.slice(idx + 1);
+    } else {
+      resync = true;
+    }
+  }
+
+  return {
+    backlog,
+    resync,
+    unsubscribe: () => {
+      channel.listeners.delete(listener);
+      channel.lastActivity = Date.now();
+    },
+  };
+}
+
+export function pipelineStreamSubscriberCount(projectId: string): number {
+  return channels.get(projectId)?.listeners.size || 0;
+}
+
+/** Serializes one event in text/event-stream framing. */
+export function formatSSE(event: { id?: string; type: string; data: any }): string {
+  const lines = [];
+  if (event.id) lines.push(`id: ${event.id}`);
+  lines.push(`event: ${event.type}`);
+  lines.push(`data: ${JSON.stringify(event.data)}`);
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Publishes the stream counterpart of a pipeline runtime event.
+ * project_initialized is not forwarded: subscribers resync from /status.
+ */
+export function publishRuntimeEvent(event: PipelineEvent): void {
+  const base = { seq: event.seq, actor: event.actor || null };
+  switch (event.type) {
+    case 'stage_transitioned':
+      publishPipelineStreamEvent(event.projectId, 'stage_changed', {
+        ...base,
+        from: event.from,
+        to: event.to,
+        transition: event.transition,
+        reason: event.reason || null,
+      });
+      break;
+    case 'candidate_registered':
+      publishPipelineStreamEvent(event.projectId, 'candidate_registered', {
+        ...base,
+        shot_id: event.shotId,
+        candidate_id: event.candidateId,
+        image_url: event.imageUrl || null,
+        continuity_score: event.continuityScore,
+        narrative_score: event.narrativeScore,
+        visual_match_score: event.visualMatchScore,
+        violations: event.violations,
+      });
+      break;
+    case 'shot_approved':
+      publishPipelineStreamEvent(event.projectId, 'shot_approved', {
+        ...base,
+        shot_id: event.shotId,
+        image_url: event.imageUrl || null,
+      });
+      break;
+    case 'shot_regenerated':
+      publishPipelineStreamEvent(event.projectId, 'shot_regenerated', {
+        ...base,
+        shot_id: event.shotId,
+        mode: event.mode,
+        reason: event.reason || null,
+        cascade_shot_ids: event.cascadeShotIds || [],
+      });
+      break;
+    case 'candidate_promoted':
+      publishPipelineStreamEvent(event.projectId, 'candidate_promoted', {
+        ...base,
+        shot_id: event.shotId,
+        candidate_id: event.candidateId,
+        reason: event.reason || null,
+      });
+      break;
+    case 'queue_controlled':
+      publishPipelineStreamEvent(event.projectId, 'queue_controlled', {
+        ...base,
+        action: event.action,
+        shot_id: event.shotId || null,
+      });
+      break;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Prediction watches
+// Replicate predictions started for a project are watched server-side while
+// someone is subscribed, so clients learn about completion from the stream
+// instead of each polling /api/replicate/status/:id.
+// ═══════════════════════════════════════════════════════════════
+
+export interface PredictionWatch {
+  predictionId: string;
+  shotId?: string;
+  kind?: string;
+  lastStatus?: string;
+  registeredAt: number;
+}
+
+/** Watches older than this are abandoned even if never terminal. */
+const WATCH_TTL_MS = 60 * 60 * 1000;
+
+const predictionWatches = new Map<string, Map<string, PredictionWatch>>();
+
+export function watchPrediction(projectId: string, watch: Omit<PredictionWatch, 'registeredAt'>): void {
+  let watches = predictionWatches.get(projectId);
+  if (!watches) {
+    watches = new Map();
+    predictionWatches.set(projectId, watches);
+  }
+  watches.set(watch.predictionId, { ...watch, registeredAt: Date.now() });
+}
+
+export function getPredictionWatches(projectId: string): PredictionWatch[] {
+  const watches = predictionWatches.get(projectId);
+  if (!watches) return [];
+  const now = Date.now();
+  for (const [id, watch] of watches) {
+    if (now - watch.registeredAt > WATCH_TTL_MS) watches.delete(id);
+  }
+  return [...watches.values()];
+}
+
+export function unwatchPrediction(projectId: string, predictionId: string): void {
+  const watches = predictionWatches.get(projectId);
+  if (!watches) return;
+  watches.delete(predictionId);
+  if (watches.size === 0) predictionWatches.delete(projectId);
+}
@@ -0,0 +1,213 @@
+/**
+ * pipelineStore.ts — Durable backends for the storyboard pipeline event log
+ *
+ * lib/storyPipeline.ts records every runtime mutation as a PipelineEvent.
+ * A store keeps those events append-only, plus periodic snapshots so a
+ * cold instance only replays the tail of the log.
+ *
+ * Backends:
+ *   - sqlite   — local dev / single box, built on lib/db.ts
+ *   - supabase — shared by every serverless instance (pipeline_events /
+ *                pipeline_snapshots, see supabase/migrations)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PipelineEvent, SerializedPipelineState } from './storyPipeline.js';
+
+/** Another writer already appended an event with this (projectId, seq). */
+export class PipelineSeqConflictError extends Error {
+  constructor(public projectId: string, public seq: number) {
+    super(`pipeline event ${seq} for ${projectId} already exists`);
+    this.name = 'PipelineSeqConflictError';
+  }
+}
+
+export interface PipelineStore {
+  readonly backend: 'sqlite' | 'supabase';
+  /** Appends events. Rejects with PipelineSeqConflictError if a (projectId, seq) pair already exists. */
+  appendEvents(events: PipelineEvent[]): Promise<void>;
+  /** Events with seq > afterSeq, ordered by seq. */
+  loadEvents(projectId: string, afterSeq: number): Promise<PipelineEvent[]>;
+  /** Stores a snapshot unless a newer one is already present. */
+  saveSnapshot(snapshot: SerializedPipelineState): Promise<void>;
+  loadSnapshot(projectId: string): Promise<SerializedPipelineState | null>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SQLite backend
+// ═══════════════════════════════════════════════════════════════
+
+type SqliteDatabase = typeof import('./db.js')['default'];
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS pipeline_events (
+    project_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (project_id, seq)
+  );
+  CREATE TABLE IF NOT EXISTS pipeline_snapshots (
+    project_id TEXT PRIMARY KEY,
+    seq INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+/**
+ * SQLite-backed store. The database handle defaults to lib/db.ts and is
+ * loaded lazily so serverless bundles that never select this backend do not
+ * open a local database file.
+ */
+export function createSqlitePipelineStore(database?: SqliteDatabase): PipelineStore {
+  let ready: Promise<SqliteDatabase> | null = null;
+  const getDb = () => {
+    if (!ready) {
+      ready = (database ? Promise.resolve(database) : import('./db.js').then((m) => m.default)).then((db) => {
+        db.exec(SQLITE_SCHEMA);
+        return db;
+      });
+    }
+    return ready;
+  };
+
+  return {
+    backend: 'sqlite',
+
+    async appendEvents(events) {
+      const db = await getDb();
+      const insert = db.prepare(
+        'INSERT INTO pipeline_events (project_id, seq, type, payload, created_at) VALUES (?, ?, ?, ?, ?)'
+      );
+      try {
+        db.transaction((rows: PipelineEvent[]) => {
+          for (const e of rows) insert.run(e.projectId, e.seq, e.type, JSON.stringify(e), e.at);
+        })(events);
+      } catch (e: any) {
+        if (e?.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') throw new PipelineSeqConflictError(events[0].projectId, events[0].seq);
+        throw e;
+      }
+    },
+
+    async loadEvents(projectId, afterSeq) {
+      const db = await getDb();
+      const rows = db
+        .prepare('SELECT payload FROM pipeline_events WHERE project_id = ? AND seq > ? ORDER BY seq ASC')
+        .all(projectId, afterSeq) as Array<{ payload: string }>;
+      return rows.map((r) => JSON.parse(r.payload) as PipelineEvent);
+    },
+
+    async saveSnapshot(snapshot) {
+      const db = await getDb();
+      db.prepare(`
+        INSERT INTO pipeline_snapshots (project_id, seq, state, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(project_id) DO UPDATE SET seq = excluded.seq, state = excluded.state, updated_at = excluded.updated_at
+        WHERE excluded.seq > pipeline_snapshots.seq
+      `).run(snapshot.projectId, snapshot.seq || 0, JSON.stringify(snapshot), snapshot.updatedAt);
+    },
+
+    async loadSnapshot(projectId) {
+      const db = await getDb();
+      const row = db
+        .prepare('SELECT state FROM pipeline_snapshots WHERE project_id = ?')
+        .get(projectId) as { state: string } | undefined;
+      return row ? (JSON.parse(row.state) as SerializedPipelineState) : null;
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Supabase backend
+// ═══════════════════════════════════════════════════════════════
+
+const SUPABASE_PAGE_SIZE = 1000;
+
+export function createSupabasePipelineStore(getClient: () => SupabaseClient<any, any, any>): PipelineStore {
+  return {
+    backend: 'supabase',
+
+    async appendEvents(events) {
+      const { error } = await getClient()
+        .from('pipeline_events')
+        .insert(events.map((e) => ({
+          project_id: e.projectId,
+          seq: e.seq,
+          type: e.type,
+          payload: e,
+          created_at: new Date(e.at).toISOString(),
+        })));
+      if (error?.code === '23505') throw new PipelineSeqConflictError(events[0].projectId, events[0].seq);
+      if (error) throw new Error(`pipeline_events insert failed: ${error.message}`);
+    },
+
+    async loadEvents(projectId, afterSeq) {
+      const events: PipelineEvent[] = [];
+      for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+        const { data, error } = await getClient()
+          .from('pipeline_events')
+          .select('payload')
+          .eq('project_id', projectId)
+          .gt('seq', afterSeq)
+          .order('seq', { ascending: true })
+          .range(from, from + SUPABASE_PAGE_SIZE - 1);
+        if (error) throw new Error(`pipeline_events select failed: ${error.message}`);
+        const rows = (data || []) as Array<{ payload: PipelineEvent }>;
+        events.push(...rows.map((r) => r.payload));
+        if (rows.length < SUPABASE_PAGE_SIZE) return events;
+      }
+    },
+
+    async saveSnapshot(snapshot) {
+      const client = getClient();
+      const { data: existing } = await client
+        .from('pipeline_snapshots')
+        .select('seq')
+        .eq('project_id', snapshot.projectId)
+        .maybeSingle();
+      if (existing && Number((existing as any).seq) >= (snapshot.seq || 0)) return;
+
+      const { error } = await client
+        .from('pipeline_snapshots')
+        .upsert({
+          project_id: snapshot.projectId,
+          seq: snapshot.seq || 0,
+          state: snapshot,
+          updated_at: new Date(snapshot.updatedAt).toISOString(),
+        }, { onConflict: 'project_id' });
+      if (error) throw new Error(`pipeline_snapshots upsert failed: ${error.message}`);
+    },
+
+    async loadSnapshot(projectId) {
+      const { data, error } = await getClient()
+        .from('pipeline_snapshots')
+        .select('state')
+        .eq('project_id', projectId)
+        .maybeSingle();
+      if (error) throw new Error(`pipeline_snapshots select failed: ${error.message}`);
+      return ((data as any)?.state as SerializedPipelineState) || null;
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Backend selection
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Picks a backend from PIPELINE_STORE ('sqlite' | 'supabase' | 'memory').
+ * Defaults to Supabase when the service role key is configured, SQLite
+ * otherwise. 'memory' disables durability (state dies with the process).
+ */
+export function createPipelineStoreFromEnv(getSupabaseClient: () => SupabaseClient<any, any, any>): PipelineStore | null {
+  const requested = (process.env.PIPELINE_STORE || '').trim().toLowerCase();
+  const backend = requested || (process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'sqlite');
+
+  if (backend === 'memory') return null;
+  if (backend === 'sqlite') return createSqlitePipelineStore();
+  if (backend === 'supabase') return createSupabasePipelineStore(getSupabaseClient);
+
+  console.warn(`[PipelineStore] Unknown PIPELINE_STORE "${requested}", falling back to in-memory state`);
+  return null;
+}
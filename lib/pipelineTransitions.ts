@@ -0,0 +1,161 @@
+/**
+ * pipelineTransitions.ts — Declarative PipelineStage state machine
+ *
+ * Every stage change goes through a named transition. A transition lists the
+ * stages it may start from, the stage it lands on and optional guards that
+ * must hold for the project runtime. lib/storyPipeline.ts consults this
+ * table before recording a 'stage_transitioned' event.
+ */
+
+import type { PipelineStage, ProjectRuntimeState } from './storyPipeline.js';
+
+export type PipelineTransition =
+  | 'generate_bible'
+  | 'generate_shots'
+  | 'start_storyboard'
+  | 'storyboard_candidates_ready'
+  | 'storyboard_failed'
+  | 'approve_storyboard'
+  | 'reopen_storyboard'
+  | 'start_video'
+  | 'video_failed'
+  | 'videos_complete'
+  | 'finalize';
+
+/** Returns a human-readable rejection, or null when the guard passes. */
+export type TransitionGuard = (state: ProjectRuntimeState) => string | null;
+
+export interface TransitionRule {
+  from: PipelineStage[];
+  to: PipelineStage;
+  guards?: TransitionGuard[];
+}
+
+export interface StageTransitionRecord {
+  seq: number;
+  at: number;
+  from: PipelineStage | null;
+  to: PipelineStage;
+  transition: PipelineTransition | 'reconcile';
+  /** User id whose action caused the move, or 'system'. */
+  actor: string;
+  reason?: string;
+}
+
+export class PipelineTransitionError extends Error {
+  constructor(
+    public projectId: string,
+    public transition: PipelineTransition,
+    public from: PipelineStage,
+    public rejection: string
+  ) {
+    super(`Cannot ${transition} from ${from}: ${rejection}`);
+    this.name = 'PipelineTransitionError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Guards
+// ═══════════════════════════════════════════════════════════════
+
+export function activeShots(state: ProjectRuntimeState) {
+  return [...state.shots.values()].filter((s) => !state.skippedShotIds.has(s.shotId));
+}
+
+const allActiveShotsApproved: TransitionGuard = (state) => {
+  const shots = activeShots(state);
+  if (shots.length === 0) return 'project has no active shots';
+  const pending = shots.filter((s) => s.status !== 'approved').map((s) => s.shotId);
+  return pending.length === 0
+    ? null
+    : `${pending.length} non-skipped shot(s) not storyboard_approved: ${pending.slice(0, 5).join(', ')}${pending.length > 5 ? ', …' : ''}`;
+};
+
+const hasShots: TransitionGuard = (state) =>
+  state.shots.size > 0 ? null : 'project has no shots';
+
+const queueNotPaused: TransitionGuard = (state) =>
+  state.paused ? 'storyboard queue is paused' : null;
+
+// ═══════════════════════════════════════════════════════════════
+// Transition table
+// ═══════════════════════════════════════════════════════════════
+
+export const PIPELINE_TRANSITIONS: Record<PipelineTransition, TransitionRule> = {
+  generate_bible: { from: ['script_ready'], to: 'bible_ready' },
+  generate_shots: { from: ['script_ready', 'bible_ready', 'shots_ready'], to: 'shots_ready' },
+  start_storyboard: {
+    from: ['shots_ready', 'storyboard_review', 'storyboard_partial_failed'],
+    to: 'storyboard_generating',
+    guards: [hasShots, queueNotPaused],
+  },
+  storyboard_candidates_ready: {
+    from: ['shots_ready', 'storyboard_generating', 'storyboard_partial_failed', 'storyboard_review'],
+    to: 'storyboard_review',
+  },
+  storyboard_failed: {
+    from: ['storyboard_generating', 'storyboard_review'],
+    to: 'storyboard_partial_failed',
+  },
+  approve_storyboard: {
+    from: ['storyboard_review', 'storyboard_partial_failed'],
+    to: 'storyboard_approved',
+    guards: [allActiveShotsApproved],
+  },
+  reopen_storyboard: {
+    from: ['storyboard_approved', 'video_generating', 'video_partial_failed', 'assembly_ready', 'final_ready'],
+    to: 'storyboard_review',
+  },
+  start_video: {
+    from: ['storyboard_approved', 'video_generating', 'video_partial_failed'],
+    to: 'video_generating',
+    guards: [allActiveShotsApproved],
+  },
+  video_failed: { from: ['video_generating'], to: 'video_partial_failed' },
+  videos_complete: {
+    from: ['video_generating', 'video_partial_failed'],
+    to: 'assembly_ready',
+    guards: [allActiveShotsApproved],
+  },
+  finalize: { from: ['assembly_ready'], to: 'final_ready' },
+};
+
+/** Stages after the storyboard gate; shot progress alone never moves back past them. */
+export const POST_STORYBOARD_STAGES: PipelineStage[] = [
+  'video_generating',
+  'video_partial_failed',
+  'assembly_ready',
+  'final_ready',
+];
+
+export function isPipelineTransition(value: unknown): value is PipelineTransition {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PIPELINE_TRANSITIONS, value);
+}
+
+export function checkStageTransition(
+  state: ProjectRuntimeState,
+  transition: PipelineTransition
+): { allowed: true; to: PipelineStage } | { allowed: false; rejection: string } {
+  const rule = PIPELINE_TRANSITIONS[transition];
+  if (!rule.from.includes(state.stage)) {
+    return { allowed: false, rejection: `stage must be one of [${rule.from.join(', ')}]` };
+  }
+  for (const guard of rule.guards || []) {
+    const rejection = guard(state);
+    if (rejection) return { allowed: false, rejection };
+  }
+  return { allowed: true, to: rule.to };
+}
+
+/** Transitions that could fire right now, for UIs and status payloads. */
+export function availableTransitions(state: ProjectRuntimeState): PipelineTransition[] {
+  return (Object.keys(PIPELINE_TRANSITIONS) as PipelineTransition[])
+    .filter((t) => checkStageTransition(state, t).allowed);
+}
+
+/** Names an automatic stage change after the table entry that would have produced it. */
+export function transitionNameFor(from: PipelineStage, to: PipelineStage): PipelineTransition | 'reconcile' {
+  const match = (Object.keys(PIPELINE_TRANSITIONS) as PipelineTransition[])
+    .find((t) => PIPELINE_TRANSITIONS[t].to === to && PIPELINE_TRANSITIONS[t].from.includes(from));
+  return match || 'reconcile';
+}
@@ -0,0 +1,326 @@
+/**
+ * lib/promptDialects.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Per-model prompt dialects for the prompts built in shotPromptCompiler.ts.
+ *
+ * The compiler produces one image prompt and one video prompt as a list of
+ * sections, each with a priority. A dialect reshapes those sections for one
+ * ImageModel / VideoModel:
+ *   • length   — lowest-priority sections are dropped first, then the prompt
+ *                is clamped to the model's limit
+ *   • negatives — models without a negative_prompt field get an inline
+ *                "Avoid: …" section instead
+ *   • camera   — CameraMovement is rewritten in the model's motion vocabulary
+ *   • audio    — audio cues are added only for models that generate sound
+ *
+ * Every change is reported as a PromptAdaptation so the UI / logs can show
+ * exactly why a model received a different prompt than the compiled one.
+ */
+
+import type { CameraMovement, ImageModel, VideoModel } from '../types';
+
+export type PromptTargetModel = ImageModel | VideoModel;
+export type PromptKind = 'image' | 'video';
+
+export interface PromptSection {
+  /** Stable name for reports, e.g. 'identity', 'camera', 'style'. */
+  key: string;
+  text: string;
+  /** 0 = never dropped; higher numbers are dropped first when over the limit. */
+  priority: number;
+}
+
+export interface PromptDialect {
+  model: PromptTargetModel;
+  kind: PromptKind;
+  /** Prompt length the model handles well (chars). */
+  maxChars: number;
+  /** 'native' = separate negative_prompt field, 'inline' = folded into the prompt. */
+  negativePrompt: 'native' | 'inline';
+  maxNegativeChars: number;
+  /** Model generates its own soundtrack (dialogue, ambience, sfx). */
+  audio: boolean;
+  /** Model-native wording per CameraMovement (video dialects only). */
+  camera: Partial<Record<CameraMovement, string>>;
+}
+
+export type PromptAdaptationType =
+  | 'section_dropped'
+  | 'truncated'
+  | 'negative_inlined'
+  | 'negative_truncated'
+  | 'camera_mapped'
+  | 'audio_cue_added'
+  | 'audio_cue_omitted';
+
+export interface PromptAdaptation {
+  type: PromptAdaptationType;
+  section?: string;
+  detail: string;
+}
+
+export interface AdaptedPrompt {
+  model: PromptTargetModel;
+  kind: PromptKind;
+  prompt: string;
+  /** Empty when the model takes negatives inline. */
+  negative_prompt: string;
+  adaptations: PromptAdaptation[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Camera vocabularies
+// ─────────────────────────────────────────────────────────────────────────────
+
+const GENERIC_CAMERA: Record<CameraMovement, string> = {
+  'static':    'static camera',
+  'push-in':   'slow push-in',
+  'pull-out':  'slow pull-out',
+  'pan-left':  'pan left',
+  'pan-right': 'pan right',
+  'tilt-up':   'tilt up',
+  'tilt-down': 'tilt down',
+  'dolly':     'dolly move',
+  'tracking':  'tracking shot',
+  'crane':     'crane shot',
+  'handheld':  'handheld camera',
+  'steadicam': 'steadicam glide',
+  'whip-pan':  'whip pan',
+  'zoom':      'zoom in',
+  'zoom-out':  'zoom out',
+};
+
+// Kling / Wan respond best to "camera <verb>" sentences
+const CAMERA_VERB_STYLE: Record<CameraMovement, string> = {
+  'static':    'camera stays still',
+  'push-in':   'camera pushes in slowly',
+  'pull-out':  'camera pulls back slowly',
+  'pan-left':  'camera pans left',
+  'pan-right': 'camera pans right',
+  'tilt-up':   'camera tilts up',
+  'tilt-down': 'camera tilts down',
+  'dolly':     'camera dollies alongside the subject',
+  'tracking':  'camera tracks the subject',
+  'crane':     'camera rises on a crane',
+  'handheld':  'handheld camera with slight natural shake',
+  'steadicam': 'camera glides smoothly on a stabilizer',
+  'whip-pan':  'camera whip-pans',
+  'zoom':      'camera zooms in',
+  'zoom-out':  'camera zooms out',
+};
+
+// Veo follows cinematography terms
+const CINEMATOGRAPHY_TERMS: Record<CameraMovement, string> = {
+  'static':    'locked-off static shot',
+  'push-in':   'dolly in',
+  'pull-out':  'dolly out',
+  'pan-left':  'pan left',
+  'pan-right': 'pan right',
+  'tilt-up':   'tilt up',
+  'tilt-down': 'tilt down',
+  'dolly':     'lateral dolly shot',
+  'tracking':  'tracking shot',
+  'crane':     'crane shot',
+  'handheld':  'handheld shot',
+  'steadicam': 'steadicam shot',
+  'whip-pan':  'whip pan',
+  'zoom':      'slow zoom in',
+  'zoom-out':  'slow zoom out',
+};
+
+// Sora reads plain descriptive sentences
+const DESCRIPTIVE_CAMERA: Record<CameraMovement, string> = {
+  'static':    'The camera holds perfectly still',
+  'push-in':   'The camera slowly moves closer to the subject',
+  'pull-out':  'The camera slowly moves away, revealing more of the space',
+  'pan-left':  'The camera turns to the left',
+  'pan-right': 'The camera turns to the right',
+  'tilt-up':   'The camera tilts upward',
+  'tilt-down': 'The camera tilts downward',
+  'dolly':     'The camera glides sideways with the action',
+  'tracking':  'The camera follows the subject as they move',
+  'crane':     'The camera rises high above the scene',
+  'handheld':  'The camera is handheld and slightly unsteady',
+  'steadicam': 'The camera floats smoothly behind the subject',
+  'whip-pan':  'The camera whips quickly to the side',
+  'zoom':      'The lens slowly zooms in',
+  'zoom-out':  'The lens slowly zooms out',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dialect table
+// ─────────────────────────────────────────────────────────────────────────────
+
+const image = (model: ImageModel, maxChars: number): PromptDialect => ({
+  model, kind: 'image', maxChars, negativePrompt: 'inline', maxNegativeChars: 300, audio: false, camera: {},
+});
+
+export const PROMPT_DIALECTS: Record<PromptTargetModel, PromptDialect> = {
+  // Flux has no negative_prompt input (callReplicateImage folds negatives into
+  // the prompt with foldNegativeIntoPrompt); schnell's T5 encoder stops at ~256 tokens
+  flux:          image('flux', 1800),
+  flux_schnell:  image('flux_schnell', 1000),
+  nano_banana:   image('nano_banana', 2400),
+
+  wan_2_2_fast:  { model: 'wan_2_2_fast', kind: 'video', maxChars: 800, negativePrompt: 'native', maxNegativeChars: 500, audio: false, camera: CAMERA_VERB_STYLE },
+  kling_2_5_pro: { model: 'kling_2_5_pro', kind: 'video', maxChars: 2500, negativePrompt: 'native', maxNegativeChars: 2500, audio: false, camera: CAMERA_VERB_STYLE },
+  kling_2_6_pro: { model: 'kling_2_6_pro', kind: 'video', maxChars: 2500, negativePrompt: 'native', maxNegativeChars: 2500, audio: true, camera: CAMERA_VERB_STYLE },
+  veo_3:         { model: 'veo_3', kind: 'video', maxChars: 1800, negativePrompt: 'native', maxNegativeChars: 500, audio: true, camera: CINEMATOGRAPHY_TERMS },
+  veo_3_1:       { model: 'veo_3_1', kind: 'video', maxChars: 1800, negativePrompt: 'native', maxNegativeChars: 500, audio: true, camera: CINEMATOGRAPHY_TERMS },
+  seedance_pro:  { model: 'seedance_pro', kind: 'video', maxChars: 1200, negativePrompt: 'inline', maxNegativeChars: 200, audio: false, camera: GENERIC_CAMERA },
+  sora_2:        { model: 'sora_2', kind: 'video', maxChars: 2000, negativePrompt: 'inline', maxNegativeChars: 250, audio: true, camera: DESCRIPTIVE_CAMERA },
+};
+
+export function getPromptDialect(model: string | null | undefined): PromptDialect | null {
+  return (model && (PROMPT_DIALECTS as Record<string, PromptDialect>)[model]) || null;
+}
+
+// Longest first, so "zoom-out" is not read as "zoom"
+const CAMERA_MOVEMENTS = (Object.keys(GENERIC_CAMERA) as CameraMovement[]).sort((a, b) => b.length - a.length);
+
+const CAMERA_SYNONYMS: Array<[RegExp, CameraMovement]> = [
+  [/dolly[\s-]*in|push[\s-]*in|move[s]? in/, 'push-in'],
+  [/dolly[\s-]*out|pull[\s-]*(out|back)/, 'pull-out'],
+  [/whip/, 'whip-pan'],
+  [/track|follow/, 'tracking'],
+  [/crane|jib|rise|rising/, 'crane'],
+  [/hand[\s-]*held|shaky/, 'handheld'],
+  [/steadi|gimbal/, 'steadicam'],
+  [/zoom(s|ing)?[\s-]*(out|back)/, 'zoom-out'],
+  [/zoom/, 'zoom'],
+  [/static|locked|still/, 'static'],
+];
+
+/** Maps free-text movement ("slow push in", "Tracking") to a CameraMovement, or null. */
+export function normalizeCameraMovement(raw: string | null | undefined): CameraMovement | null {
+  const text = String(raw || '').toLowerCase().trim();
+  if (!text) return null;
+  const dashed = text.replace(/\s+/g, '-');
+  const exact = CAMERA_MOVEMENTS.find((m) => new RegExp(`(^|-)${m}(-|$)`).test(dashed));
+  if (exact) return exact;
+  return CAMERA_SYNONYMS.find(([re]) => re.test(text))?.[1] ?? null;
+}
+
+/**
+ * Inline negatives for a model without a negative_prompt input: items the
+ * prompt already mentions (e.g. in a dialect's "Avoid: …" section) are
+ * skipped, the rest are appended as one more "Avoid: …" clause.
+ */
+export function foldNegativeIntoPrompt(prompt: string, negativePrompt: string | null | undefined, maxNegativeChars = 300): string {
+  const existing = prompt.toLowerCase();
+  const missing = String(negativePrompt || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item && !existing.includes(item.toLowerCase()));
+  if (missing.length === 0) return prompt;
+  const list = clampList(missing.join(', '), maxNegativeChars);
+  // Extend a trailing "Avoid: …" section rather than starting a second one
+  return /Avoid: [^\n]*$/.test(prompt.trimEnd())
+    ? `${prompt.trimEnd()}, ${list}`
+    : `${prompt.trimEnd()} Avoid: ${list}`;
+}
+
+/** Splits a "LABEL: text" per-line prompt (the canonical rewriter's format) into sections. */
+export function sectionsFromLabeledPrompt(
+  prompt: string,
+  priorities: Record<string, number>,
+  fallbackPriority = 2,
+): PromptSection[] {
+  return prompt.split('\n').map((line) => line.trim()).filter(Boolean).map((line) => {
+    const label = line.startsWith('[') ? 'FINGERPRINT' : (line.match(/^([A-Z][A-Z ()]+):/)?.[1] ?? 'TEXT');
+    return { key: label.toLowerCase().replace(/[^a-z]+/g, '_').replace(/^_|_$/g, ''), text: line, priority: priorities[label] ?? fallbackPriority };
+  });
+}
+
+// Keeps whole comma-separated items while they fit
+function clampList(list: string, max: number): string {
+  if (list.length <= max) return list;
+  const kept: string[] = [];
+  let length = 0;
+  for (const item of list.split(',').map((s) => s.trim()).filter(Boolean)) {
+    if (length + item.length + 2 > max) break;
+    kept.push(item);
+    length += item.length + 2;
+  }
+  return kept.join(', ');
+}
+
+/**
+ * Reshapes compiled prompt sections for one model. `camera` rewrites the
+ * section keyed 'camera'; `audioCue` becomes an 'audio' section on models with
+ * native audio.
+ */
+export function adaptPromptForModel(input: {
+  model: PromptTargetModel;
+  sections: PromptSection[];
+  negativePrompt?: string;
+  separator?: string;
+  camera?: { framing: string; movement: string };
+  audioCue?: string;
+}): AdaptedPrompt {
+  const dialect = PROMPT_DIALECTS[input.model];
+  const separator = input.separator ?? ' ';
+  const adaptations: PromptAdaptation[] = [];
+  let sections = input.sections.filter((s) => s.text.trim()).map((s) => ({ ...s }));
+  let negative = String(input.negativePrompt || '').trim();
+
+  // ── Camera vocabulary ─────────────────────────────────────────────────────
+  if (dialect.kind === 'video' && input.camera) {
+    const movement = normalizeCameraMovement(input.camera.movement);
+    const term = movement ? dialect.camera[movement] : undefined;
+    const cameraSection = sections.find((s) => s.key === 'camera');
+    if (term && cameraSection) {
+      cameraSection.text = `[CAMERA PLAN] ${input.camera.framing}, ${term}.`;
+      adaptations.push({ type: 'camera_mapped', section: 'camera', detail: `${input.camera.movement} → "${term}"` });
+    }
+  }
+
+  // ── Audio cues ────────────────────────────────────────────────────────────
+  const audioCue = String(input.audioCue || '').trim();
+  if (audioCue) {
+    if (dialect.audio) {
+      sections.push({ key: 'audio', text: `[AUDIO] ${audioCue}`, priority: 3 });
+      adaptations.push({ type: 'audio_cue_added', section: 'audio', detail: 'model generates native audio' });
+    } else {
+      adaptations.push({ type: 'audio_cue_omitted', section: 'audio', detail: 'model has no audio track' });
+    }
+  }
+
+  // ── Negatives ─────────────────────────────────────────────────────────────
+  if (negative) {
+    const clamped = clampList(negative, dialect.maxNegativeChars);
+    if (clamped.length < negative.length) {
+      adaptations.push({ type: 'negative_truncated', detail: `${negative.length} → ${clamped.length} chars` });
+      negative = clamped;
+    }
+    if (dialect.negativePrompt === 'inline') {
+      sections.push({ key: 'negative', text: `Avoid: ${negative}`, priority: 2 });
+      adaptations.push({ type: 'negative_inlined', section: 'negative', detail: 'model has no negative_prompt input' });
+      negative = '';
+    }
+  }
+
+  // ── Length: drop lowest-priority sections (latest first), then clamp ──────
+  const length = () => sections.reduce((n, s, i) => n + s.text.length + (i ? separator.length : 0), 0);
+  while (length() > dialect.maxChars) {
+    let victim = -1;
+    sections.forEach((s, i) => {
+      if (s.priority > 0 && (victim < 0 || s.priority >= sections[victim].priority)) victim = i;
+    });
+    if (victim < 0) break;
+    adaptations.push({
+      type: 'section_dropped',
+      section: sections[victim].key,
+      detail: `priority ${sections[victim].priority} (${sections[victim].text.length} chars) dropped to fit ${dialect.maxChars} chars`,
+    });
+    sections = sections.filter((_, i) => i !== victim);
+  }
+
+  let prompt = sections.map((s) => s.text).join(separator);
+  if (prompt.length > dialect.maxChars) {
+    adaptations.push({ type: 'truncated', detail: `${prompt.length} → ${dialect.maxChars} chars` });
+    prompt = prompt.slice(0, dialect.maxChars - 1).trimEnd() + '…';
+  }
+
+  return { model: dialect.model, kind: dialect.kind, prompt, negative_prompt: negative, adaptations };
+}
@@ -0,0 +1,455 @@
+/**
+ * lib/promptDiff.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Section-aware diff of the prompts two shot versions compile to, and of the
+ * prompts two ImageGeneration records were sent with.
+ *
+ * A compiled image prompt is a stack of layers:
+ *   • canonical prompt  — fingerprint + SDC lines from canonicalPromptRewriter.ts
+ *   • identity lock     — IDENTITY LOCK / production identity trail
+ *   • continuity locks  — [STYLE LOCK] / [CHARACTER LOCK] / … from applyContinuityLocks()
+ *   • negative prompt   — compiler negatives + buildContinuityNegativePrompt()
+ * The diff splits both prompts into these sections and compares them one by
+ * one, so "the output changed" becomes "REQUIRED ACTION and [SCENE LOCK] changed".
+ *
+ * Attribution:
+ *   • shot versions  — exact. Each changed input field (shot.*, scene.*,
+ *                      director_brain.*, continuity.*, …) is applied alone to
+ *                      the older version and recompiled; a section changed by
+ *                      that swap is attributed to that field.
+ *   • generations    — inferred. Only the sent prompts and the record's
+ *                      metadata exist, so sections are mapped to the metadata
+ *                      fields that feed them (anchor_refs → identity, …).
+ */
+
+import {
+  composeAllPrompts,
+  type CharacterBibleEntry,
+  type ComposeAllPromptsInput,
+  type DirectorBrainInput,
+} from './shotPromptCompiler';
+import {
+  applyContinuityLocks,
+  buildContinuityNegativePrompt,
+  buildContinuityProfile,
+  type ContinuityConfig,
+} from './continuity';
+import { getPromptDialect } from './promptDialects';
+import type { ImageModel } from '../types';
+
+export type PromptSectionCategory = 'sdc' | 'identity' | 'locks' | 'style' | 'negative' | 'other';
+/** Pipeline stage that produced a section. */
+export type PromptSectionOrigin = 'canonical_prompt' | 'identity_lock' | 'continuity_locks' | 'style' | 'negative_prompt' | 'prompt';
+export type PromptSectionStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ParsedPromptSection {
+  key: string;
+  label: string;
+  category: PromptSectionCategory;
+  text: string;
+}
+
+export interface PromptSectionDiff {
+  key: string;
+  label: string;
+  category: PromptSectionCategory;
+  origin: PromptSectionOrigin;
+  status: PromptSectionStatus;
+  before: string | null;
+  after: string | null;
+  /** Comma / pipe separated items present only in `after` (resp. `before`). */
+  added_terms: string[];
+  removed_terms: string[];
+  /** Input fields that caused the change. */
+  sources: string[];
+  /** 'exact' = proven by recompiling; 'inferred' = from generation metadata; 'combined' = only several fields together explain it. */
+  attribution: 'exact' | 'inferred' | 'combined' | 'none';
+}
+
+export interface PromptFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** One shot version and the context it was compiled in. */
+export interface PromptDiffShotSide {
+  shot: any;
+  scene?: any;
+  previous_shot?: any;
+  style_bible?: ComposeAllPromptsInput['styleBible'];
+  /** Visual style preset id ('none', 'cinematic', …). */
+  style?: string;
+  character_anchor?: string;
+  character_bibles?: CharacterBibleEntry[];
+  director_brain?: DirectorBrainInput;
+  continuity?: ContinuityConfig & { shot_context?: any };
+  /** Image model the prompt is compiled for; its dialect reshapes the prompt and negatives. */
+  image_model?: string;
+}
+
+/** The subset of ImageGeneration the diff reads. */
+export interface PromptDiffGeneration {
+  id?: string;
+  prompt: string;
+  negative_prompt?: string | null;
+  delta_instruction?: string | null;
+  model?: string | null;
+  aspect_ratio?: string | null;
+  style?: string | null;
+  seed?: number | null;
+  anchor_refs?: string[] | null;
+  reference_image_url?: string | null;
+  reference_policy?: string | null;
+  edit_mode?: string | null;
+}
+
+export interface PromptDiffResult {
+  mode: 'shot' | 'generation';
+  from: { prompt: string; negative_prompt: string };
+  to: { prompt: string; negative_prompt: string };
+  sections: PromptSectionDiff[];
+  changed_fields: PromptFieldChange[];
+  summary: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Section parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SectionMarker {
+  key: string;
+  label: string;
+  category: PromptSectionCategory;
+  pattern: RegExp;
+}
+
+const marker = (key: string, label: string, category: PromptSectionCategory, pattern: RegExp): SectionMarker => ({ key, label, category, pattern });
+
+// Canonical rewriter lines (buildCanonicalPrompt). applyContinuityLocks()
+// collapses newlines, so labels are matched anywhere, not only at line start.
+const CANONICAL_MARKERS: SectionMarker[] = [
+  marker('fingerprint', 'Fingerprint', 'sdc', /\[Scene [^\]]*\/ Shot [^\]]*\]/g),
+  marker('narrative_function', 'NARRATIVE FUNCTION', 'sdc', /NARRATIVE FUNCTION:/g),
+  marker('new_information', 'NEW INFORMATION', 'sdc', /NEW INFORMATION:/g),
+  marker('required_action', 'REQUIRED ACTION', 'sdc', /REQUIRED ACTION:/g),
+  marker('visual_delta', 'VISUAL DELTA', 'sdc', /VISUAL DELTA:/g),
+  marker('must_show', 'MUST SHOW', 'sdc', /MUST SHOW:/g),
+  marker('screenplay_beat', 'SCREENPLAY BEAT', 'sdc', /SCREENPLAY BEAT:/g),
+  marker('forbidden_repeat', 'FORBIDDEN REPEAT', 'sdc', /FORBIDDEN REPEAT:/g),
+  marker('location_evidence', 'LOCATION EVIDENCE', 'sdc', /LOCATION EVIDENCE:/g),
+  marker('continuity', 'CONTINUITY', 'sdc', /(?<![A-Z ])CONTINUITY:/g),
+  marker('subject_priority', 'SUBJECT PRIORITY', 'sdc', /SUBJECT PRIORITY:/g),
+  marker('background_dominance', 'BACKGROUND DOMINANCE', 'sdc', /BACKGROUND DOMINANCE:/g),
+  marker('style_support', 'STYLE SUPPORT ONLY', 'style', /STYLE SUPPORT ONLY:/g),
+  marker('identity_production', 'IDENTITY LOCK (production)', 'identity', /IDENTITY LOCK \(production\):/g),
+  marker('identity_lock', 'IDENTITY LOCK', 'identity', /IDENTITY LOCK:/g),
+  marker('reject_if', 'REJECT IF', 'sdc', /REJECT IF:/g),
+];
+
+// Fingerprint-composer fallback ('. '-joined "Label: text" sections), only
+// used when the prompt carries no canonical labels.
+const FINGERPRINT_MARKERS: SectionMarker[] = [
+  marker('fingerprint', 'Fingerprint', 'sdc', /\[Scene [^\]]*\/ Shot [^\]]*\]/g),
+  marker('dramatic_purpose', 'Dramatic purpose', 'sdc', /Dramatic purpose:/g),
+  marker('emotion', 'Emotion', 'sdc', /Emotion:/g),
+  marker('location', 'Location', 'sdc', /(?<!\w)Location:/g),
+  marker('framing', 'Framing', 'sdc', /Framing:/g),
+  marker('lighting', 'Lighting', 'style', /(?<!\w)Lighting:/g),
+  marker('style', 'Style', 'style', /(?<!\w)Style:/g),
+  marker('director', 'Director', 'other', /Director:/g),
+  marker('identity', 'Identity', 'identity', /Identity — do NOT alter:/g),
+  marker('characters', 'Characters', 'sdc', /Characters:/g),
+];
+
+// applyContinuityLocks() segments (each lock's follow-up sentence belongs to it),
+// plus the locks buildFinalPrompt() / retries add on the non-compiled path.
+const LOCK_MARKERS: SectionMarker[] = [
+  marker('lock.style', '[STYLE LOCK]', 'locks', /\[STYLE LOCK\]|Do not switch to anime/g),
+  marker('lock.character', '[CHARACTER LOCK]', 'locks', /\[CHARACTER LOCK\]|Do not change face identity/g),
+  marker('lock.cast', '[LOCKED CAST]', 'locks', /\[LOCKED CAST\]/g),
+  marker('lock.costume', '[COSTUME/PROP LOCK]', 'locks', /\[COSTUME\/PROP LOCK\]|Keep outfit silhouette/g),
+  marker('lock.entity_state', '[PROP/COSTUME STATE]', 'locks', /\[PROP\/COSTUME STATE\]/g),
+  marker('lock.scene', '[SCENE LOCK]', 'locks', /\[SCENE LOCK\]|Do not move into a new environment/g),
+  marker('lock.retry', '[CONTINUITY RETRY]', 'locks', /\[CONTINUITY RETRY \d+\]/g),
+  marker('story_entity_lock', '[STORY ENTITY LOCK]', 'identity', /\[STORY ENTITY LOCK\]/g),
+  marker('character_anchor', 'Same character throughout', 'identity', /Same character throughout:/g),
+  marker('edit', 'Edit', 'other', /(?<!\w)Edit:/g),
+];
+
+function findMarkers(prompt: string, markers: SectionMarker[]) {
+  const hits: Array<{ index: number; marker: SectionMarker }> = [];
+  for (const m of markers) {
+    for (const match of prompt.matchAll(m.pattern)) hits.push({ index: match.index ?? 0, marker: m });
+  }
+  // Earliest first; on a tie the longer label wins (IDENTITY LOCK (production) over IDENTITY LOCK)
+  hits.sort((a, b) => a.index - b.index || b.marker.label.length - a.marker.label.length);
+  return hits.filter((hit, i) => i === 0 || hit.index !== hits[i - 1].index);
+}
+
+/**
+ * Splits a final prompt into labeled sections. Text before the first label is
+ * the 'base' section; repeated labels (a lock and its follow-up sentence) are
+ * merged into one section.
+ */
+export function splitPromptSections(prompt: string): ParsedPromptSection[] {
+  const text = String(prompt || '').replace(/\s+/g, ' ').trim();
+  if (!text) return [];
+
+  const hasCanonical = CANONICAL_MARKERS.slice(1).some((m) => new RegExp(m.pattern.source).test(text));
+  const hits = findMarkers(text, [...(hasCanonical ? CANONICAL_MARKERS : FINGERPRINT_MARKERS), ...LOCK_MARKERS]);
+
+  const sections = new Map<string, ParsedPromptSection>();
+  const push = (section: ParsedPromptSection) => {
+    const body = section.text.replace(/^[\s.]+|[\s.]+$/g, '');
+    if (!body) return;
+    const existing = sections.get(section.key);
+    if (existing) existing.text = `${existing.text}. ${body}`;
+    else sections.set(section.key, { ...section, text: body });
+  };
+
+  push({ key: 'base', label: 'Prompt', category: 'other', text: text.slice(0, hits[0]?.index ?? text.length) });
+  hits.forEach((hit, i) => {
+    push({
+      key: hit.marker.key,
+      label: hit.marker.label,
+      category: hit.marker.category,
+      text: text.slice(hit.index, hits[i + 1]?.index ?? text.length),
+    });
+  });
+  return [...sections.values()];
+}
+
+// Terms are compared without the section's own label
+const splitTerms = (text: string) => text
+  .replace(/^(?:[A-Z][A-Za-z /()—-]{0,40}:|\[[A-Z /]+\])\s*/, '')
+  .split(/[,;|·]|\.\s/)
+  .map((term) => term.replace(/\s+/g, ' ').trim().toLowerCase())
+  .filter(Boolean);
+
+function termDelta(before: string | null, after: string | null) {
+  const beforeTerms = new Set(splitTerms(before || ''));
+  const afterTerms = new Set(splitTerms(after || ''));
+  return {
+    added_terms: [...afterTerms].filter((t) => !beforeTerms.has(t)),
+    removed_terms: [...beforeTerms].filter((t) => !afterTerms.has(t)),
+  };
+}
+
+const ORIGIN_BY_CATEGORY: Record<PromptSectionCategory, PromptSectionOrigin> = {
+  sdc: 'canonical_prompt',
+  identity: 'identity_lock',
+  locks: 'continuity_locks',
+  style: 'style',
+  negative: 'negative_prompt',
+  other: 'prompt',
+};
+
+function diffSections(
+  before: ParsedPromptSection[],
+  after: ParsedPromptSection[],
+): PromptSectionDiff[] {
+  const beforeByKey = new Map(before.map((s) => [s.key, s]));
+  const afterByKey = new Map(after.map((s) => [s.key, s]));
+  // Keep the newer prompt's order, then sections that only existed before
+  const keys = [...after.map((s) => s.key), ...before.map((s) => s.key).filter((k) => !afterByKey.has(k))];
+
+  return keys.map((key) => {
+    const a = beforeByKey.get(key);
+    const b = afterByKey.get(key);
+    const meta = (b || a)!;
+    const status: PromptSectionStatus = !a ? 'added' : !b ? 'removed' : a.text === b.text ? 'unchanged' : 'changed';
+    return {
+      key,
+      label: meta.label,
+      category: meta.category,
+      origin: ORIGIN_BY_CATEGORY[meta.category],
+      status,
+      before: a?.text ?? null,
+      after: b?.text ?? null,
+      ...termDelta(a?.text ?? null, b?.text ?? null),
+      sources: [],
+      attribution: 'none' as const,
+    };
+  });
+}
+
+function negativeSection(negative: string): ParsedPromptSection[] {
+  const text = String(negative || '').replace(/\s+/g, ' ').trim();
+  return text ? [{ key: 'negative', label: 'Negative prompt', category: 'negative', text }] : [];
+}
+
+function summarize(sections: PromptSectionDiff[], changedFields: PromptFieldChange[]): string {
+  const changed = sections.filter((s) => s.status !== 'unchanged');
+  if (changed.length === 0) {
+    return changedFields.length
+      ? `Prompt unchanged; ${changedFields.map((f) => f.field).join(', ')} changed`
+      : 'No differences';
+  }
+  return `${changed.length} section(s) changed: ${changed.map((s) => `${s.label} ← ${s.sources.join(' + ') || 'unattributed'}`).join('; ')}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Shot versions — compile both sides, attribute by single-field swaps
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Runtime / asset fields that never reach the compiler
+const IGNORED_SHOT_FIELDS = new Set([
+  'images', 'primary_image_id', 'image_url', 'video_url', 'status', 'version', 'updated_at', 'locked_fields',
+  'verifier_score', 'verifier_pass', 'verifier_fail_reasons', 'verifier_dimensions', 'verifier_profile', 'rewrite_count',
+  'duplicate_risk_score', 'duplicate_fail_reason', 'video_approved', 'anchor_package', 'source_of_truth_image',
+]);
+
+// Objects diffed (and swapped) per key rather than as a whole
+const PER_KEY_FIELDS = ['shot', 'scene', 'style_bible', 'director_brain', 'continuity'] as const;
+const WHOLE_FIELDS = ['previous_shot', 'style', 'character_anchor', 'character_bibles', 'image_model'] as const;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function changedShotFields(from: PromptDiffShotSide, to: PromptDiffShotSide): PromptFieldChange[] {
+  const changes: PromptFieldChange[] = [];
+  for (const group of PER_KEY_FIELDS) {
+    const a = (from[group] || {}) as Record<string, unknown>;
+    const b = (to[group] || {}) as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (group === 'shot' && IGNORED_SHOT_FIELDS.has(key)) continue;
+      if (!same(a[key], b[key])) changes.push({ field: `${group}.${key}`, before: a[key] ?? null, after: b[key] ?? null });
+    }
+  }
+  for (const field of WHOLE_FIELDS) {
+    if (!same(from[field], to[field])) changes.push({ field, before: from[field] ?? null, after: to[field] ?? null });
+  }
+  return changes;
+}
+
+function withField(side: PromptDiffShotSide, change: PromptFieldChange): PromptDiffShotSide {
+  const [group, key] = change.field.split('.');
+  if (!key) return { ...side, [group]: change.after ?? undefined };
+  const next = { ...((side as any)[group] || {}) };
+  if (change.after === null || change.after === undefined) delete next[key];
+  else next[key] = change.after;
+  return { ...side, [group]: next };
+}
+
+/** Compiles one shot version the way /api/shot-images/:shotId/generate does. */
+export function compileShotSide(side: PromptDiffShotSide): { prompt: string; negative_prompt: string } {
+  const continuity = side.continuity;
+  const composed = composeAllPrompts({
+    shot: side.shot || {},
+    scene: side.scene || {},
+    styleBible: side.style_bible || continuity?.style_bible || {},
+    styleLabel: side.style || 'none',
+    characterBibles: side.character_bibles,
+    characterAnchor: side.character_anchor || '',
+    directorBrain: side.director_brain,
+    previousShot: side.previous_shot,
+    continuityState: continuity,
+    shotGraphNode: side.shot,
+    targetImageModel: getPromptDialect(side.image_model)?.kind === 'image' ? side.image_model as ImageModel : undefined,
+  });
+  const profile = buildContinuityProfile(continuity, {
+    characterAnchor: side.character_anchor,
+    visualStyle: side.style || 'none',
+    sceneMemory: continuity?.scene_memory || continuity?.shot_context || {},
+  });
+  return {
+    prompt: applyContinuityLocks(composed.image_prompt, profile),
+    negative_prompt: buildContinuityNegativePrompt(composed.image_negative_prompt, profile),
+  };
+}
+
+const parseCompiled = (compiled: { prompt: string; negative_prompt: string }) => [
+  ...splitPromptSections(compiled.prompt),
+  ...negativeSection(compiled.negative_prompt),
+];
+
+export function diffShotVersions(from: PromptDiffShotSide, to: PromptDiffShotSide): PromptDiffResult {
+  const compiledFrom = compileShotSide(from);
+  const compiledTo = compileShotSide(to);
+  const fromSections = parseCompiled(compiledFrom);
+  const sections = diffSections(fromSections, parseCompiled(compiledTo));
+  const changedFields = changedShotFields(from, to);
+
+  const pending = sections.filter((s) => s.status !== 'unchanged');
+  if (pending.length > 0) {
+    const fromText = new Map(fromSections.map((s) => [s.key, s.text]));
+    for (const change of changedFields) {
+      const swapped = new Map(parseCompiled(compileShotSide(withField(from, change))).map((s) => [s.key, s.text]));
+      for (const section of pending) {
+        if (swapped.get(section.key) !== fromText.get(section.key)) section.sources.push(change.field);
+      }
+    }
+    for (const section of pending) {
+      if (section.sources.length > 0) section.attribution = 'exact';
+      else if (changedFields.length > 0) {
+        section.sources = changedFields.map((f) => f.field);
+        section.attribution = 'combined';
+      }
+    }
+  }
+
+  return {
+    mode: 'shot',
+    from: compiledFrom,
+    to: compiledTo,
+    sections,
+    changed_fields: changedFields,
+    summary: summarize(sections, changedFields),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ImageGeneration records — diff the sent prompts, infer sources from metadata
+// ─────────────────────────────────────────────────────────────────────────────
+
+const GENERATION_FIELDS: Array<keyof PromptDiffGeneration> = [
+  'delta_instruction', 'model', 'aspect_ratio', 'style', 'seed', 'anchor_refs', 'reference_image_url', 'reference_policy', 'edit_mode',
+];
+
+// Metadata fields that feed a section, by key and then by category; anything
+// else comes from the shot itself or the continuity config
+const GENERATION_SOURCES_BY_KEY: Record<string, Array<keyof PromptDiffGeneration>> = {
+  edit: ['delta_instruction', 'edit_mode'],
+  'lock.style': ['style'],
+  'lock.character': ['anchor_refs'],
+  'lock.cast': ['anchor_refs'],
+  'lock.costume': [],
+  'lock.entity_state': [],
+  'lock.scene': [],
+  'lock.retry': [],
+};
+const GENERATION_SOURCES: Record<PromptSectionCategory, Array<keyof PromptDiffGeneration>> = {
+  sdc: [],
+  identity: ['anchor_refs', 'reference_policy'],
+  locks: [],
+  style: ['style'],
+  negative: ['style'],
+  other: ['style', 'delta_instruction', 'edit_mode'],
+};
+
+export function diffGenerations(from: PromptDiffGeneration, to: PromptDiffGeneration): PromptDiffResult {
+  const sides = [from, to].map((g) => ({ prompt: String(g.prompt || ''), negative_prompt: String(g.negative_prompt || '') }));
+  const sections = diffSections(parseCompiled(sides[0]), parseCompiled(sides[1]));
+  const changedFields: PromptFieldChange[] = GENERATION_FIELDS
+    .filter((field) => !same(from[field], to[field]))
+    .map((field) => ({ field, before: from[field] ?? null, after: to[field] ?? null }));
+  const changed = new Set(changedFields.map((f) => f.field));
+
+  for (const section of sections) {
+    if (section.status === 'unchanged') continue;
+    const fields = (GENERATION_SOURCES_BY_KEY[section.key] ?? GENERATION_SOURCES[section.category])
+      .filter((field) => changed.has(field));
+    // No metadata explains it: the shot content (canonical prompt) or the continuity config changed
+    section.sources = fields.length > 0 ? fields : [section.origin];
+    section.attribution = 'inferred';
+  }
+
+  return {
+    mode: 'generation',
+    from: sides[0],
+    to: sides[1],
+    sections,
+    changed_fields: changedFields,
+    summary: summarize(sections, changedFields),
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * publicUrl.ts — Guard for user-supplied URLs the server fetches
+ *
+ * Routes that fetch or decode a URL from a request body (image proxies,
+ * vision checks, ffmpeg frame decoding) accept only http(s) URLs on public
+ * hosts, so a request cannot make the server read localhost, the private
+ * network or cloud metadata endpoints.
+ */
+
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  if (!host) return true;
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true;
+  if (host === '::1' || host === '[::1]') return true;
+  if (/^127\./.test(host) || /^10\./.test(host) || /^192\.168\./.test(host) || /^169\.254\./.test(host)) return true;
+  if (/^172\.(1[6-9]|2\d|3[0-1])\./.test(host)) return true;
+  if (/^(fc|fd|fe80):/i.test(host)) return true;
+  return false;
+}
+
+/** The parsed URL; throws when it is not http(s) or points at a private host. */
+export function assertSafePublicUrl(rawUrl: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(rawUrl || '').trim());
+  } catch {
+    throw new Error('Invalid url');
+  }
+
+  if (!/^https?:$/i.test(parsed.protocol)) {
+    throw new Error('Only http(s) URLs are allowed');
+  }
+
+  if (isPrivateHostname(parsed.hostname)) {
+    throw new Error('Private network URLs are not allowed');
+  }
+
+  return parsed;
+}
@@ -0,0 +1,89 @@
+/**
+ * regenerationCascade.ts — Planner for regenerate_from_shot_forward
+ *
+ * Regenerating a shot "forward" invalidates it and every later shot in story
+ * order. The plan decides, per downstream shot, whether it is regenerated,
+ * kept because it is approved (freeze_approved_shots) or left alone because
+ * the queue skips it, and prices the regenerated ones. The same plan is shown
+ * to the user before confirming and then executed unchanged.
+ */
+
+import type { ProjectRuntimeState, RuntimeShotState } from './storyPipeline.js';
+
+export type CascadeAction = 'regenerate' | 'frozen' | 'skipped';
+
+export interface CascadePlanEntry {
+  shotId: string;
+  sequenceOrder: number;
+  status: RuntimeShotState['status'];
+  action: CascadeAction;
+}
+
+export interface CascadePlan {
+  projectId: string;
+  fromShotId: string;
+  freezeApproved: boolean;
+  /** The origin shot followed by every downstream shot, in story order. */
+  entries: CascadePlanEntry[];
+  regenerateShotIds: string[];
+  frozenShotIds: string[];
+  costPerShot: number;
+  estimatedCost: number;
+}
+
+/**
+ * Story order of the project's shots. `order` (shot ids as the client sorts
+ * them by scene/shot number) wins where given — sequence_order restarts per
+ * scene for shots generated scene by scene — and unknown ids are ignored.
+ * Remaining shots follow by sequenceOrder, ties in registration order.
+ */
+export function orderCascadeShots(state: ProjectRuntimeState, order?: string[]): RuntimeShotState[] {
+  const ordered: RuntimeShotState[] = [];
+  const seen = new Set<string>();
+  for (const shotId of order || []) {
+    const shot = state.shots.get(shotId);
+    if (!shot || seen.has(shotId)) continue;
+    ordered.push(shot);
+    seen.add(shotId);
+  }
+
+  const rest = [...state.shots.values()]
+    .map((shot, idx) => ({ shot, idx }))
+    .filter(({ shot }) => !seen.has(shot.shotId))
+    .sort((a, b) => (a.shot.sequenceOrder - b.shot.sequenceOrder) || (a.idx - b.idx))
+    .map(({ shot }) => shot);
+  return [...ordered, ...rest];
+}
+
+/**
+ * Returns null when fromShotId is not a runtime shot. The origin shot is
+ * always regenerated, even when approved or skipped: the user asked for it.
+ */
+export function planRegenerationCascade(
+  state: ProjectRuntimeState,
+  fromShotId: string,
+  options: { freezeApproved: boolean; costPerShot: number; order?: string[] }
+): CascadePlan | null {
+  const shots = orderCascadeShots(state, options.order);
+  const startIdx = shots.findIndex((s) => s.shotId === fromShotId);
+  if (startIdx < 0) return null;
+
+  const entries: CascadePlanEntry[] = shots.slice(startIdx).map((shot, idx) => {
+    let action: CascadeAction = 'regenerate';
+    if (idx > 0 && state.skippedShotIds.has(shot.shotId)) action = 'skipped';
+    else if (idx > 0 && options.freezeApproved && shot.status === 'approved') action = 'frozen';
+    return { shotId: shot.shotId, sequenceOrder: shot.sequenceOrder, status: shot.status, action };
+  });
+
+  const regenerateShotIds = entries.filter((e) => e.action === 'regenerate').map((e) => e.shotId);
+  return {
+    projectId: state.projectId,
+    fromShotId,
+    freezeApproved: options.freezeApproved,
+    entries,
+    regenerateShotIds,
+    frozenShotIds: entries.filter((e) => e.action === 'frozen').map((e) => e.shotId),
+    costPerShot: options.costPerShot,
+    estimatedCost: regenerateShotIds.length * options.costPerShot,
+  };
+}
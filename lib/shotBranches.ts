@@ -0,0 +1,195 @@
+/**
+ * shotBranches.ts — Alternate takes: validation and side-by-side comparison
+ *
+ * A ShotGraphBranch replaces a from_shot_id..to_shot_id range of the main line
+ * with its own shots (see resolveBranchSequence in directorOS.ts). Several
+ * branches may cover the same or overlapping ranges as alternates of each
+ * other; only the active selection has to be free of overlaps.
+ *
+ * compareShotBranches() lines the alternates up over the union of their
+ * ranges — the main line as the first column — with each column's shots,
+ * duration, image / video coverage and the bridges at the two cuts where it
+ * joins the main line.
+ */
+
+import {
+  branchRange,
+  buildShotGraphNode,
+  resolveBranchSequence,
+  ShotBranchError,
+  type ShotGraphBranch,
+} from './directorOS';
+
+export interface BranchSeam {
+  /** Main-line shot on the far side of the cut */
+  shot_id: string;
+  motion_bridge: string;
+  expression_bridge: string;
+  environment_bridge: string;
+  object_bridge: string;
+}
+
+export interface BranchComparisonColumn {
+  /** null for the main line */
+  branch_id: string | null;
+  name: string;
+  active: boolean;
+  shot_count: number;
+  total_duration_sec: number;
+  /** Share of shots with an image / a video, 0–1 */
+  image_coverage: number;
+  video_coverage: number;
+  shots: Array<{
+    shot_id: string;
+    branch_id?: string;
+    action: string;
+    dialogue: string;
+    duration_sec: number;
+    image_url?: string;
+    video_url?: string;
+  }>;
+  /** Cut from the shot before the range into the column's first shot; none at the start of the film */
+  entry?: BranchSeam;
+  /** Cut from the column's last shot into the shot after the range; none at the end */
+  exit?: BranchSeam;
+}
+
+export interface BranchComparison {
+  /** Union of the compared branches' ranges on the main line */
+  from_shot_id: string;
+  to_shot_id: string;
+  columns: BranchComparisonColumn[];
+}
+
+const text = (v: any): string => String(v ?? '').trim();
+const shotKey = (shot: any): string => text(shot?.shot_id || shot?.id);
+const duration = (shot: any): number => Math.max(2, Number(shot?.duration_sec || 4));
+const bySequence = (a: any, b: any) => Number(a.sequence_order || a.shot_number || 0) - Number(b.sequence_order || b.shot_number || 0);
+
+/**
+ * Checks branches against the main line before they are stored: names, a
+ * valid range, at least one shot, and shot ids unique across the project
+ * (missing ones are assigned). Active ids must resolve without overlaps.
+ */
+export function normalizeShotBranches(
+  mainShots: any[],
+  branches: any[],
+  activeBranchIds: string[] = []
+): ShotGraphBranch[] {
+  const main = [...mainShots].sort(bySequence);
+  const usedShotIds = new Set(main.map(shotKey).filter(Boolean));
+  const branchIds = new Set<string>();
+  const now = new Date().toISOString();
+
+  const normalized = branches.map((raw: any): ShotGraphBranch => {
+    const branchId = text(raw?.branch_id) || crypto.randomUUID();
+    if (branchIds.has(branchId)) throw new ShotBranchError(branchId, `duplicate branch ${branchId}`);
+    branchIds.add(branchId);
+    const name = text(raw?.name).slice(0, 120);
+    if (!name) throw new ShotBranchError(branchId, `branch ${branchId}: name is required`);
+    if (!Array.isArray(raw?.shots) || raw.shots.length === 0) {
+      throw new ShotBranchError(branchId, `branch ${branchId}: at least one shot is required`);
+    }
+
+    const branch: ShotGraphBranch = {
+      branch_id: branchId,
+      name,
+      from_shot_id: text(raw.from_shot_id),
+      to_shot_id: text(raw.to_shot_id),
+      shots: raw.shots.map((shot: any, idx: number) => {
+        if (!shot || typeof shot !== 'object') throw new ShotBranchError(branchId, `branch ${branchId}: shot ${idx + 1} is not an object`);
+        const shotId = shotKey(shot) || `${branchId}-${idx + 1}`;
+        if (usedShotIds.has(shotId)) throw new ShotBranchError(branchId, `branch ${branchId}: shot id ${shotId} is already used`);
+        usedShotIds.add(shotId);
+        const { branch_id: _branch, ...rest } = shot;
+        return { ...rest, shot_id: shotId };
+      }),
+      ...(text(raw.notes) ? { notes: text(raw.notes).slice(0, 1000) } : {}),
+      created_at: text(raw.created_at) || now,
+    };
+    branchRange(main, branch);
+    return branch;
+  });
+
+  resolveBranchSequence({ shots: main, branches: normalized, active_branch_ids: activeBranchIds });
+  return normalized;
+}
+
+/** Bridges of the cut prev → current; farSide is the main-line shot across it. */
+function seam(prev: any, current: any, farSide: any): BranchSeam {
+  const node = buildShotGraphNode({ shot: current, prev, idx: 0, total: 1 });
+  return {
+    shot_id: shotKey(farSide),
+    motion_bridge: node.motion_bridge,
+    expression_bridge: node.expression_bridge,
+    environment_bridge: node.environment_bridge,
+    object_bridge: node.object_bridge,
+  };
+}
+
+function column(branch: ShotGraphBranch | null, shots: any[], before: any, after: any, active: boolean): BranchComparisonColumn {
+  const count = shots.length;
+  return {
+    branch_id: branch?.branch_id ?? null,
+    name: branch?.name ?? 'Main',
+    active,
+    shot_count: count,
+    total_duration_sec: Number(shots.reduce((acc, s) => acc + duration(s), 0).toFixed(2)),
+    image_coverage: count ? Number((shots.filter((s) => s.image_url).length / count).toFixed(3)) : 0,
+    video_coverage: count ? Number((shots.filter((s) => s.video_url).length / count).toFixed(3)) : 0,
+    shots: shots.map((s) => ({
+      shot_id: shotKey(s),
+      ...(s.branch_id ? { branch_id: s.branch_id } : {}),
+      action: text(s.action || s.visual_description),
+      dialogue: text(s.dialogue || s.dialogue_text),
+      duration_sec: duration(s),
+      ...(s.image_url ? { image_url: s.image_url } : {}),
+      ...(s.video_url ? { video_url: s.video_url } : {}),
+    })),
+    ...(before && count ? { entry: seam(before, shots[0], before) } : {}),
+    ...(after && count ? { exit: seam(shots[count - 1], after, after) } : {}),
+  };
+}
+
+/**
+ * Main line and each requested alternate over the union of their ranges.
+ * The main column is marked active when none of the compared branches is.
+ */
+export function compareShotBranches(input: {
+  shots: any[];
+  branches: ShotGraphBranch[];
+  branch_ids: string[];
+  active_branch_ids?: string[];
+}): BranchComparison {
+  const main = [...input.shots].sort(bySequence);
+  const compared = [...new Set(input.branch_ids)].map((id) => {
+    const branch = input.branches.find((b) => b.branch_id === id);
+    if (!branch) throw new ShotBranchError(id, `branch ${id} not found`);
+    return branch;
+  });
+  if (compared.length === 0) throw new ShotBranchError(undefined, 'no branches to compare');
+
+  const ranges = compared.map((b) => branchRange(main, b));
+  const start = Math.min(...ranges.map((r) => r[0]));
+  const end = Math.max(...ranges.map((r) => r[1]));
+  const window = main.slice(start, end + 1);
+  const before = main[start - 1] || null;
+  const after = main[end + 1] || null;
+  const activeIds = new Set(input.active_branch_ids || []);
+
+  return {
+    from_shot_id: shotKey(main[start]),
+    to_shot_id: shotKey(main[end]),
+    columns: [
+      column(null, window, before, after, !compared.some((b) => activeIds.has(b.branch_id))),
+      ...compared.map((branch) => column(
+        branch,
+        // The branch applied to the union window alone: main shots it does not replace stay in
+        resolveBranchSequence({ shots: window, branches: [branch], active_branch_ids: [branch.branch_id] }),
+        before,
+        after,
+        activeIds.has(branch.branch_id),
+      )),
+    ],
+  };
+}
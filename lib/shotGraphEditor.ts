@@ -0,0 +1,369 @@
+/**
+ * shotGraphEditor.ts — Structural edits on the shot graph
+ *
+ * buildShotGraph() links shots and derives their bridges once, at generation
+ * time. This module applies insert / delete / move / split / merge edits to a
+ * shot list and its graph, then re-links and recomputes only the window the
+ * edits touched: every shot whose content changed or whose previous / next
+ * neighbour changed, plus one shot either side (whose temporal guidance reads
+ * the changed shot's entering / exiting state).
+ *
+ * Continuity text that described a neighbour which is no longer adjacent
+ * (continuity_from_previous / continuity_to_next) is re-derived from the new
+ * neighbour's action; the first and last shots lose the side they no longer have.
+ *
+ * Shot.version stays an optimistic lock: each edit may carry expected_versions
+ * for the shots it targets, checked against the stored versions the caller
+ * supplies (never against the request's own shots) and rejected on a mismatch.
+ * Every shot the edit changes — content, position, links, bridges or
+ * guidance — is bumped once. The list order is the story order;
+ * sequence_order is rewritten to match.
+ */
+
+import {
+  buildSequenceContext,
+  buildShotGraph,
+  buildShotGraphNode,
+  buildShotTemporalGuidance,
+  type ShotGraphNode,
+} from './directorOS';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface EditBase {
+  /** Shot versions the caller last saw, by shot_id */
+  expected_versions?: Record<string, number>;
+}
+
+export type ShotGraphEdit = EditBase & (
+  /** after_shot_id null / omitted: insert at the start */
+  | { op: 'insert'; shot: Record<string, any>; after_shot_id?: string | null }
+  | { op: 'delete'; shot_id: string }
+  | { op: 'move'; shot_id: string; after_shot_id?: string | null }
+  /** The shot keeps the first half; actions default to splitting the action text at a sentence boundary */
+  | { op: 'split'; shot_id: string; new_shot_id?: string; actions?: [string, string] }
+  /** Adjacent shots; the earlier one survives and absorbs the later one */
+  | { op: 'merge'; shot_id: string; with_shot_id: string }
+);
+
+export interface ShotGraphEditResult {
+  /** Story order, with graph fields mirrored onto every recomputed shot */
+  shots: any[];
+  graph: ShotGraphNode[];
+  inserted_shot_ids: string[];
+  removed_shot_ids: string[];
+  /** Shots in the recomputed window */
+  recomputed_shot_ids: string[];
+  /** Shots whose content or graph fields changed; their version was bumped */
+  changed_shot_ids: string[];
+}
+
+export type ShotGraphEditErrorCode = 'not_found' | 'version_conflict' | 'invalid_edit';
+
+export class ShotGraphEditError extends Error {
+  constructor(
+    public code: ShotGraphEditErrorCode,
+    message: string,
+    public details: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'ShotGraphEditError';
+  }
+}
+
+// Graph node fields mirrored onto shots, as the generation route does
+const MIRRORED_FIELDS = [
+  'panel_id', 'panel_index', 'prev_shot_id', 'next_shot_id', 'entering_state', 'exiting_state',
+  'continuity_in', 'continuity_out', 'motion_bridge', 'expression_bridge', 'environment_bridge',
+  'object_bridge', 'temporal_guidance',
+] as const;
+
+const asText = (v: any): string => String(v ?? '').trim();
+const shotIdOf = (shot: any): string => asText(shot?.shot_id || shot?.id);
+const shotActionOf = (shot: any): string => asText(shot?.action || shot?.visual_description || shot?.screenplay_beat);
+
+// ─── Edits ────────────────────────────────────────────────────────────────────
+
+function indexOfShot(shots: any[], shotId: string): number {
+  const idx = shots.findIndex((s) => shotIdOf(s) === shotId);
+  if (idx < 0) throw new ShotGraphEditError('not_found', `shot ${shotId} not found`, { shot_id: shotId });
+  return idx;
+}
+
+/** Position after after_shot_id (0 when null / omitted). */
+function insertionIndex(shots: any[], afterShotId?: string | null): number {
+  return afterShotId ? indexOfShot(shots, afterShotId) + 1 : 0;
+}
+
+/** Shots inserted by an earlier edit of the same request have no stored version yet; they use their working one. */
+function checkVersions(shots: any[], edit: ShotGraphEdit, storedVersions: Record<string, number>, inserted: Set<string>): void {
+  const conflicts: Array<{ shot_id: string; expected: number; actual: number | undefined }> = [];
+  for (const [shotId, expected] of Object.entries(edit.expected_versions || {})) {
+    const shot = shots.find((s) => shotIdOf(s) === shotId);
+    if (!shot) throw new ShotGraphEditError('not_found', `shot ${shotId} not found`, { shot_id: shotId });
+    const actual = inserted.has(shotId) ? shot.version : storedVersions[shotId];
+    if (actual !== expected) conflicts.push({ shot_id: shotId, expected, actual });
+  }
+  if (conflicts.length > 0) {
+    throw new ShotGraphEditError('version_conflict', `${edit.op}: shots changed since they were read`, { op: edit.op, conflicts });
+  }
+}
+
+/** Two halves of an action: at the sentence boundary nearest the middle, else at the middle word. */
+function splitAction(action: string): [string, string] {
+  const sentences = action.split(/(?<=[.!?。！？])\s*/).filter(Boolean);
+  if (sentences.length >= 2) {
+    let best = 1;
+    let bestGap = Infinity;
+    for (let i = 1; i < sentences.length; i++) {
+      const gap = Math.abs(sentences.slice(0, i).join(' ').length - action.length / 2);
+      if (gap < bestGap) { bestGap = gap; best = i; }
+    }
+    return [sentences.slice(0, best).join(' '), sentences.slice(best).join(' ')];
+  }
+  const words = action.split(/\s+/);
+  const mid = Math.ceil(words.length / 2);
+  return [words.slice(0, mid).join(' '), words.slice(mid).join(' ') || words.slice(0, mid).join(' ')];
+}
+
+const joinText = (a: any, b: any, sep = ' ') => [asText(a), asText(b)].filter(Boolean).join(sep);
+
+function halveDuration(shot: any): [number | undefined, number | undefined] {
+  const value = Number(shot.duration_sec);
+  if (!Number.isFinite(value) || value <= 0) return [undefined, undefined];
+  const first = Math.round((value / 2) * 10) / 10;
+  return [first, Math.round((value - first) * 10) / 10];
+}
+
+/** The neighbours a shot's continuity_from_previous / continuity_to_next were written against. */
+type Facing = Map<string, { prev?: string; next?: string }>;
+
+/**
+ * Applies one edit to the list in place. Returns the ids whose own content
+ * changed (inserted, split or merged shots).
+ */
+function applyEdit(
+  shots: any[],
+  edit: ShotGraphEdit,
+  inserted: Set<string>,
+  removed: Set<string>,
+  facing: Facing,
+  storedVersions: Record<string, number>
+): string[] {
+  checkVersions(shots, edit, storedVersions, inserted);
+  switch (edit.op) {
+    case 'insert': {
+      if (!edit.shot || typeof edit.shot !== 'object') throw new ShotGraphEditError('invalid_edit', 'insert: shot is required');
+      const shot = { ...edit.shot };
+      shot.shot_id = shotIdOf(shot) || crypto.randomUUID();
+      if (shots.some((s) => shotIdOf(s) === shot.shot_id)) {
+        throw new ShotGraphEditError('invalid_edit', `insert: shot ${shot.shot_id} already exists`, { shot_id: shot.shot_id });
+      }
+      shot.version = 1;
+      const at = insertionIndex(shots, edit.after_shot_id);
+      shots.splice(at, 0, shot);
+      inserted.add(shot.shot_id);
+      // Continuity text sent with the shot was written for where it is inserted
+      facing.set(shot.shot_id, {
+        prev: shot.continuity_from_previous ? shotIdOf(shots[at - 1]) || undefined : undefined,
+        next: shot.continuity_to_next ? shotIdOf(shots[at + 1]) || undefined : undefined,
+      });
+      return [shot.shot_id];
+    }
+
+    case 'delete': {
+      shots.splice(indexOfShot(shots, edit.shot_id), 1);
+      if (!inserted.delete(edit.shot_id)) removed.add(edit.shot_id);
+      return [];
+    }
+
+    case 'move': {
+      if (edit.after_shot_id === edit.shot_id) throw new ShotGraphEditError('invalid_edit', 'move: a shot cannot follow itself');
+      const [shot] = shots.splice(indexOfShot(shots, edit.shot_id), 1);
+      shots.splice(insertionIndex(shots, edit.after_shot_id), 0, shot);
+      return [];
+    }
+
+    case 'split': {
+      const idx = indexOfShot(shots, edit.shot_id);
+      const original = shots[idx];
+      const newId = asText(edit.new_shot_id) || crypto.randomUUID();
+      if (shots.some((s) => shotIdOf(s) === newId)) {
+        throw new ShotGraphEditError('invalid_edit', `split: shot ${newId} already exists`, { shot_id: newId });
+      }
+      const [firstAction, secondAction] = edit.actions || splitAction(shotActionOf(original));
+      const [firstSec, secondSec] = halveDuration(original);
+      const first = { ...original, action: firstAction };
+      const {
+        id: _id, image_url: _image, video_url: _video, images: _images, primary_image_id: _primary,
+        ...inherited
+      } = original;
+      const second: any = { ...inherited, shot_id: newId, action: secondAction, version: 1 };
+      if (original.dialogue) second.dialogue = '';
+      if (original.dialogue_text) second.dialogue_text = '';
+      if (firstSec !== undefined) {
+        first.duration_sec = firstSec;
+        second.duration_sec = secondSec;
+      }
+      shots.splice(idx, 1, first, second);
+      inserted.add(newId);
+      const faced = facing.get(edit.shot_id) || {};
+      facing.set(edit.shot_id, { prev: faced.prev });
+      facing.set(newId, { next: faced.next });
+      return [shotIdOf(first), newId];
+    }
+
+    case 'merge': {
+      const a = indexOfShot(shots, edit.shot_id);
+      const b = indexOfShot(shots, edit.with_shot_id);
+      if (Math.abs(a - b) !== 1) {
+        throw new ShotGraphEditError('invalid_edit', 'merge: shots must be adjacent', { shot_id: edit.shot_id, with_shot_id: edit.with_shot_id });
+      }
+      const [earlier, later] = a < b ? [shots[a], shots[b]] : [shots[b], shots[a]];
+      const [speakerA, speakerB] = [asText(earlier.dialogue_speaker), asText(later.dialogue_speaker)];
+      // Two speakers share one line field: label each line with who says it
+      const labelled = !!(asText(earlier.dialogue_text) && asText(later.dialogue_text) && speakerA && speakerB && speakerA !== speakerB);
+      const merged = {
+        ...earlier,
+        action: joinText(earlier.action, later.action),
+        dialogue: joinText(earlier.dialogue, later.dialogue, '\n') || earlier.dialogue,
+        dialogue_text: labelled
+          ? `${speakerA}: ${asText(earlier.dialogue_text)}\n${speakerB}: ${asText(later.dialogue_text)}`
+          : joinText(earlier.dialogue_text, later.dialogue_text, '\n') || earlier.dialogue_text,
+        dialogue_speaker: (asText(earlier.dialogue_text) ? speakerA : '') || speakerB || earlier.dialogue_speaker,
+        characters: [...new Set([...(earlier.characters || []), ...(later.characters || [])])],
+        // The later shot's handoff still faces the same next shot
+        continuity_to_next: later.continuity_to_next,
+      };
+      if (earlier.duration_sec != null || later.duration_sec != null) {
+        merged.duration_sec = Number(earlier.duration_sec || 0) + Number(later.duration_sec || 0);
+      }
+      const at = Math.min(a, b);
+      shots.splice(at, 2, merged);
+      const laterId = shotIdOf(later);
+      facing.set(shotIdOf(earlier), { prev: facing.get(shotIdOf(earlier))?.prev, next: facing.get(laterId)?.next });
+      if (!inserted.delete(laterId)) removed.add(laterId);
+      return [shotIdOf(merged)];
+    }
+
+    default:
+      throw new ShotGraphEditError('invalid_edit', `unknown op ${(edit as any)?.op}`);
+  }
+}
+
+// ─── Recompute ────────────────────────────────────────────────────────────────
+
+/**
+ * Applies the edits in order, then re-links and recomputes the affected window
+ * once. Throws ShotGraphEditError on an unknown shot, an invalid edit or a
+ * version conflict; nothing is applied in that case.
+ */
+export function editShotGraph(input: {
+  shots: any[];
+  /** The graph as built for these shots; rebuilt from them when omitted */
+  graph?: ShotGraphNode[];
+  edits: ShotGraphEdit[];
+  /** Stored Shot.version by shot_id; expected_versions are checked against these */
+  stored_versions?: Record<string, number>;
+}): ShotGraphEditResult {
+  const original = input.shots.map((s) => ({ ...s }));
+  if (original.some((s) => !shotIdOf(s))) {
+    throw new ShotGraphEditError('invalid_edit', 'every shot needs a shot_id');
+  }
+  const graph = input.graph && input.graph.length > 0 ? input.graph : buildShotGraph({ shots: original, panels: [] });
+  const nodeById = new Map(graph.map((n) => [n.shot_id, n]));
+
+  const shots = original.map((s) => ({ ...s }));
+  const inserted = new Set<string>();
+  const removed = new Set<string>();
+  const contentChanged = new Set<string>();
+  const facing: Facing = new Map(original.map((s, i) => [shotIdOf(s), {
+    prev: i > 0 ? shotIdOf(original[i - 1]) : undefined,
+    next: i < original.length - 1 ? shotIdOf(original[i + 1]) : undefined,
+  }]));
+  for (const edit of input.edits) {
+    for (const id of applyEdit(shots, edit, inserted, removed, facing, input.stored_versions || {})) contentChanged.add(id);
+  }
+
+  // Continuity text written against a neighbour that is no longer adjacent is re-derived
+  const ids = shots.map(shotIdOf);
+  const touched = new Set<number>();
+  ids.forEach((id, i) => {
+    const faced = facing.get(id) || {};
+    const prevId = ids[i - 1];
+    const nextId = ids[i + 1];
+    if (faced.prev !== prevId) {
+      if (prevId) shots[i].continuity_from_previous = `pick up from: ${shotActionOf(shots[i - 1]) || prevId}`;
+      else delete shots[i].continuity_from_previous;
+      touched.add(i);
+    }
+    if (faced.next !== nextId) {
+      if (nextId) shots[i].continuity_to_next = `hand off into: ${shotActionOf(shots[i + 1]) || nextId}`;
+      else delete shots[i].continuity_to_next;
+      touched.add(i);
+    }
+    // Seams the graph does not have yet
+    const node = nodeById.get(id);
+    if (!node || (node.prev_shot_id || undefined) !== prevId || (node.next_shot_id || undefined) !== nextId || contentChanged.has(id)) {
+      touched.add(i);
+    }
+  });
+
+  const window = new Set<number>();
+  for (const i of touched) {
+    for (const j of [i - 1, i, i + 1]) if (j >= 0 && j < shots.length) window.add(j);
+  }
+
+  // Nodes: recomputed inside the window, carried over outside it
+  const nodes: ShotGraphNode[] = shots.map((shot, i) => {
+    const existing = nodeById.get(ids[i]);
+    if (!window.has(i) && existing) return existing;
+    const panelSource = existing || nodeById.get(ids[i - 1]) || nodeById.get(ids[i + 1]);
+    return buildShotGraphNode({
+      shot,
+      prev: shots[i - 1] || null,
+      next: shots[i + 1] || null,
+      idx: i,
+      total: shots.length,
+      panel: panelSource ? { panel_id: panelSource.panel_id, panel_index: panelSource.panel_index } : null,
+    });
+  });
+  for (const i of window) {
+    const seq = buildSequenceContext(nodes, i);
+    nodes[i] = { ...nodes[i], temporal_guidance: buildShotTemporalGuidance(seq) };
+  }
+
+  // Mirror onto shots; bump each changed shot once
+  const changed: string[] = [];
+  const originalById = new Map(original.map((s) => [shotIdOf(s), s]));
+  const originalOrder = new Map(original.map((s, i) => [shotIdOf(s), i + 1]));
+  const now = new Date().toISOString();
+  const result = shots.map((shot, i) => {
+    const next: any = { ...shot, sequence_order: i + 1 };
+    if (window.has(i)) {
+      for (const field of MIRRORED_FIELDS) next[field] = (nodes[i] as any)[field];
+    }
+    const before = originalById.get(ids[i]);
+    if (inserted.has(ids[i])) return { ...next, updated_at: now };
+    const { sequence_order: _a, ...afterFields } = next;
+    const { sequence_order: _b, ...beforeFields } = before || {};
+    // A shot that only moved in the story order has changed too
+    const reordered = next.sequence_order !== (before?.sequence_order ?? originalOrder.get(ids[i]));
+    if (!reordered && JSON.stringify(afterFields) === JSON.stringify(beforeFields)) return next;
+    changed.push(ids[i]);
+    return {
+      ...next,
+      ...(typeof before?.version === 'number' ? { version: before.version + 1 } : {}),
+      updated_at: now,
+    };
+  });
+
+  return {
+    shots: result,
+    graph: nodes,
+    inserted_shot_ids: [...inserted],
+    removed_shot_ids: [...removed],
+    recomputed_shot_ids: [...window].sort((a, b) => a - b).map((i) => ids[i]),
+    changed_shot_ids: changed,
+  };
+}
@@ -17,6 +17,9 @@
  *   buildShotImagePrompt(input) → CompiledShotPrompt        ← used by batch pipeline
  *   buildShotGenerationPayload(compiled, refs) → payload    ← used by batch pipeline
  *   validateShotPromptVariance(...)  → PromptVarianceReport
+ *
+ * Per-model reshaping (length, negatives, camera vocabulary, audio cues) lives
+ * in promptDialects.ts; pass targetImageModel / targetVideoModel to get it.
  */
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -30,6 +33,19 @@ import {
   type VerifierResult,
   type ShotDifferenceContract,
 } from './canonicalPromptRewriter';
+import {
+  adaptPromptForModel,
+  sectionsFromLabeledPrompt,
+  type AdaptedPrompt,
+  type PromptSection,
+} from './promptDialects';
+import {
+  parseDirectorRules,
+  type DirectorRule,
+  type DirectorRuleReport,
+} from './directorRules';
+import { resolveVerifierProfile, type VerifierProfile } from './verifierProfiles';
+import type { ImageModel, VideoModel } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal utilities
@@ -500,6 +516,23 @@ export interface ComposeAllPromptsInput {
     expression_bridge?: string;
     environment_bridge?: string;
   };
+
+  // ── Target models (promptDialects.ts) ─────────────────────────────────────
+  /** When set, image_prompt / image_negative_prompt are reshaped for this model. */
+  targetImageModel?: ImageModel;
+  /** When set, video_prompt / motion_prompt are reshaped for this model. */
+  targetVideoModel?: VideoModel;
+
+  // ── Director mandates (directorRules.ts) ──────────────────────────────────
+  /** Raw DirectorControls — bannedElements / avoidPhrases are parsed into rules. */
+  directorControls?: { bannedElements?: string; avoidPhrases?: string };
+  /** Pre-parsed rules; takes precedence over directorControls (parse once per project). */
+  directorRules?: DirectorRule[];
+
+  // ── Verifier profile (verifierProfiles.ts) ────────────────────────────────
+  /** Profile id or object; falls back to the projectType mapping, then dialogue_drama. */
+  verifierProfile?: string | VerifierProfile;
+  projectType?: string;
 }
 
 export interface VoiceDirection {
@@ -540,6 +573,8 @@ export interface ScreenplayBinding {
   blocked:         boolean;
   /** Verifier total score e.g. "32/40" */
   verifier_score:  string;
+  /** Verifier profile id the score was computed under */
+  verifier_profile: string;
   /** All verifier dimensions (8 × 0–5) */
   verifier:        VerifierResult;
   /** Shot Difference Contract */
@@ -550,6 +585,8 @@ export interface ScreenplayBinding {
   canonical_prompt: string;
   /** How many auto-rewrite passes were needed (0 = clean first pass) */
   rewrite_count:   number;
+  /** bannedElements / avoidPhrases violations found (and repaired) in this shot */
+  director_rules:  DirectorRuleReport;
 }
 
 export interface ComposeAllPromptsOutput {
@@ -596,6 +633,13 @@ export interface ComposeAllPromptsOutput {
   // ── Screenplay binding (canonical rewriter verification result) ────────────
   /** Null only if rewriteShot() threw an unexpected error (should not happen). */
   screenplay_binding: ScreenplayBinding | null;
+
+  // ── Model dialects (only for the targets requested in the input) ──────────
+  /** Adapted prompt + every adaptation applied, per target model. */
+  prompt_dialects: {
+    image: AdaptedPrompt | null;
+    video: AdaptedPrompt | null;
+  };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -636,6 +680,8 @@ export interface CompiledShotPrompt {
   };
   /** Screenplay binding verification — used by UI to show FAILED markers */
   screenplay_binding?: ScreenplayBinding | null;
+  /** Set when a targetImageModel was given: what the dialect changed */
+  prompt_dialect?: AdaptedPrompt | null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -875,6 +921,59 @@ function buildBgmDirection(params: {
 // Image prompt builder (replaces buildProfessionalImagePrompt in api/index.ts)
 // ─────────────────────────────────────────────────────────────────────────────
 
+// Strips lock prefixes and character description from a Gemini image_prompt,
+// leaving the shot action it describes.
+function extractShotAction(raw: string): string {
+  if (!raw) return '';
+  // Strip [X LOCK] prefix
+  let s = raw.replace(/^\[.*?\s+LOCK\][,.\s]*/i, '').trim();
+  // If "Action:" label is present, grab what follows it (skip "Characters: X." prefix)
+  const actionM = s.match(/\bAction:\s*(?:Characters:[^.]*\.)?\s*([\s\S]{20,})/i);
+  if (actionM) return actionM[1].trim();
+  // Skip character-description sentences (eye/nose/lip/hair/wearing/holding/build)
+  let faceEnd = 0;
+  const faceRe = /\b(?:eyes?|nose\s+bridge|lips?|jawline|cheekbones?|hair|outfit|wearing|holding|props?|build|gait|height|skin\s+tone)[^.]{0,140}\./gi;
+  let m: RegExpExecArray | null;
+  while ((m = faceRe.exec(s.slice(0, 600))) !== null) {
+    faceEnd = Math.max(faceEnd, m.index + m[0].length);
+  }
+  if (faceEnd > 60) {
+    const remainder = s.slice(faceEnd).trim();
+    if (remainder.length > 30) return remainder;
+  }
+  return s;
+}
+
+/**
+ * The shot's cinematic fingerprint — size, angle, subject position, dramatic
+ * purpose and emotion — exactly as the image prompt header derives it.
+ * Also used by shotSimilarityIndex.ts to compare shots anywhere in a project.
+ */
+export function buildCinematicFingerprint(shot: any, scene?: any, directorBrain?: DirectorBrainInput): CinematicFingerprint {
+  const shotNumInt      = parseInt(safeString(shot?.shot_number ?? ''), 10) || 1;
+  const perShotImagePrompt = safeString(shot?.image_prompt).trim();
+  const rawAction       = getField(shot, scene, ['action', 'shot_description', 'visual_description'], '');
+  const emotion         = safeString(directorBrain?.emotional_beat_for_shot)
+    || getField(shot, scene, ['emotion', 'mood', 'emotional_beat'], '');
+  const cameraFraming   = getField(shot, scene, ['camera_framing', 'composition', 'framing', 'camera'], 'balanced framing');
+  const cameraAngle     = getField(shot, scene, ['camera_angle', 'camera'], 'medium shot');
+  const shotType        = getField(shot, scene, ['shot_type'], '');
+  const explicitSize    = getField(shot, scene, ['shot_size'], '');  // new planner field
+  const blocking        = getField(shot, scene, ['blocking', 'composition'], '');
+  const rawDramatic     = getField(shot, scene, ['dramatic_function', 'shot_type', 'dramatic_purpose'], '');
+
+  const shotSize   = parseShotSize(shotType, cameraAngle, cameraFraming, shotNumInt, explicitSize);
+  const shotAction = extractShotAction(perShotImagePrompt) || rawAction || 'Character in motion';
+  return {
+    shot_size:        shotSize,
+    angle:            parseCameraAngle(cameraAngle, cameraFraming, shotNumInt),
+    subject_position: parseSubjectPosition(blocking, cameraFraming),
+    // Specific, never "scene coverage"
+    dramatic_purpose: inferDramaticPurpose(rawDramatic, shotAction, emotion, shotSize, shotNumInt),
+    emotional_beat:   emotion,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // buildImagePromptFromComposer — FINGERPRINT-FIRST architecture
 //
@@ -910,13 +1009,12 @@ function buildImagePromptFromComposer(params: {
   shotGraphNode?: ComposeAllPromptsInput['shotGraphNode'];
   styleLabel?: string;
   previousFingerprint?: CinematicFingerprint;
-}): { prompt: string; negativePrompt: string; fingerprint: CinematicFingerprint; contrastReport: ContrastReport } {
+}): { prompt: string; negativePrompt: string; sections: PromptSection[]; fingerprint: CinematicFingerprint; contrastReport: ContrastReport } {
   const { shot, scene, styleBible, resolvedBibles, characterAnchor, directorBrain, shotGraphNode, styleLabel } = params;
 
   // ── Core field extraction (all via safeString — zero [object Object] risk) ─
   const sceneNumber     = safeString(shot.scene_number  ?? scene?.scene_number  ?? '');
   const shotNumber      = safeString(shot.shot_number   ?? '');
-  const shotNumInt      = parseInt(shotNumber, 10) || 1;  // numeric shot position for heuristics
   const perShotImagePrompt = safeString(shot.image_prompt).trim();
   const rawAction       = getField(shot, scene, ['action', 'shot_description', 'visual_description'], '');
   const locationFull    = getField(shot, scene, ['location', 'scene_setting'], 'Cinematic environment');
@@ -924,55 +1022,16 @@ function buildImagePromptFromComposer(params: {
   const emotion         = safeString(directorBrain?.emotional_beat_for_shot)
     || getField(shot, scene, ['emotion', 'mood', 'emotional_beat'], '');
   const cameraFraming   = getField(shot, scene, ['camera_framing', 'composition', 'framing', 'camera'], 'balanced framing');
-  const cameraAngle     = getField(shot, scene, ['camera_angle', 'camera'], 'medium shot');
-  const shotType        = getField(shot, scene, ['shot_type'], '');
-  const explicitSize    = getField(shot, scene, ['shot_size'], '');  // new planner field
-  const blocking        = getField(shot, scene, ['blocking', 'composition'], '');
   const focalLength     = getField(shot, scene, ['focal_length', 'lens_style', 'lens', 'lens_hint'], '');
   const lightingSetup   = getField(shot, scene, ['lighting_setup'], '');   // per-shot from new planner
   const lightingStyle   = safeString(directorBrain?.lighting_intention)
     || getField(shot, scene, ['lighting'], safeString(styleBible?.lighting));
-  const rawDramatic     = getField(shot, scene, ['dramatic_function', 'shot_type', 'dramatic_purpose'], '');
   const negativeRaw     = getField(shot, scene, ['negative_constraints', 'negative_prompt'], '');
 
   // ── Cinematic fingerprint (shot-position heuristics prevent flat MS/EYE-LEVEL) ─
-  const shotSize  = parseShotSize(shotType, cameraAngle, cameraFraming, shotNumInt, explicitSize);
-  const angleTag  = parseCameraAngle(cameraAngle, cameraFraming, shotNumInt);
-  const subjectPos = parseSubjectPosition(blocking, cameraFraming);
-  // Extract shot action early (needed by inferDramaticPurpose)
-  const extractShotAction = (raw: string): string => {
-    if (!raw) return '';
-    // Strip [X LOCK] prefix
-    let s = raw.replace(/^\[.*?\s+LOCK\][,.\s]*/i, '').trim();
-    // If "Action:" label is present, grab what follows it (skip "Characters: X." prefix)
-    const actionM = s.match(/\bAction:\s*(?:Characters:[^.]*\.)?\s*([\s\S]{20,})/i);
-    if (actionM) return actionM[1].trim();
-    // Skip character-description sentences (eye/nose/lip/hair/wearing/holding/build)
-    let faceEnd = 0;
-    const faceRe = /\b(?:eyes?|nose\s+bridge|lips?|jawline|cheekbones?|hair|outfit|wearing|holding|props?|build|gait|height|skin\s+tone)[^.]{0,140}\./gi;
-    let m: RegExpExecArray | null;
-    while ((m = faceRe.exec(s.slice(0, 600))) !== null) {
-      faceEnd = Math.max(faceEnd, m.index + m[0].length);
-    }
-    if (faceEnd > 60) {
-      const remainder = s.slice(faceEnd).trim();
-      if (remainder.length > 30) return remainder;
-    }
-    return s;
-  };
-
-  const shotAction = extractShotAction(perShotImagePrompt) || rawAction || 'Character in motion';
-
-  // ── Dramatic purpose — specific, never "scene coverage" ──────────────────
-  const dramaticPurpose = inferDramaticPurpose(rawDramatic, shotAction, emotion, shotSize, shotNumInt);
-
-  const fingerprint: CinematicFingerprint = {
-    shot_size:        shotSize,
-    angle:            angleTag,
-    subject_position: subjectPos,
-    dramatic_purpose: dramaticPurpose,
-    emotional_beat:   emotion,
-  };
+  const shotAction  = extractShotAction(perShotImagePrompt) || rawAction || 'Character in motion';
+  const fingerprint = buildCinematicFingerprint(shot, scene, directorBrain);
+  const { shot_size: shotSize, angle: angleTag, subject_position: subjectPos, dramatic_purpose: dramaticPurpose } = fingerprint;
   const contrastReport = checkAdjacentShotContrast(fingerprint, params.previousFingerprint);
 
   // ── Compact location (one short line, not a paragraph) ───────────────────
@@ -1022,36 +1081,42 @@ function buildImagePromptFromComposer(params: {
   const shotLabel = `[Scene ${sceneNumber || '?'} / Shot ${shotNumber || '?'} | ${shotSize} | ${angleTag} | ${subjectPos}]`;
 
   // ── Assemble — FINGERPRINT LEADS, IDENTITY LOCK TRAILS ───────────────────
-  const prompt = [
+  // Priorities tell promptDialects.ts what to drop first on short-prompt models.
+  const sections: PromptSection[] = [
     // ① Cinematic fingerprint — unique per shot
-    shotLabel,
+    { key: 'fingerprint', priority: 0, text: shotLabel },
     // ② Dramatic purpose — what story function this shot serves
-    dramaticPurpose ? `Dramatic purpose: ${dramaticPurpose}` : '',
+    { key: 'dramatic_purpose', priority: 2, text: dramaticPurpose ? `Dramatic purpose: ${dramaticPurpose}` : '' },
     // ③ Emotion — micro-psychological state (different per shot)
-    emotion ? `Emotion: ${emotion}` : '',
+    { key: 'emotion', priority: 2, text: emotion ? `Emotion: ${emotion}` : '' },
     // ④ Shot action — the unique physical/visual moment
-    clamp(shotAction, 280),
+    { key: 'action', priority: 0, text: clamp(shotAction, 280) },
     // ⑤ Location (compact — first sentence only)
-    `Location: ${locationCompact}`,
+    { key: 'location', priority: 1, text: `Location: ${locationCompact}` },
     // ⑥ Camera framing detail (the specific compositional intent)
-    cameraFraming ? `Framing: ${clamp(cameraFraming, 120)}` : '',
+    { key: 'framing', priority: 2, text: cameraFraming ? `Framing: ${clamp(cameraFraming, 120)}` : '' },
     // ⑦ Lighting (per-shot specific, compact)
-    lightingCompact ? `Lighting: ${lightingCompact}. Lens: ${lensTag}` : `Lens: ${lensTag}`,
+    { key: 'lighting', priority: 3, text: lightingCompact ? `Lighting: ${lightingCompact}. Lens: ${lensTag}` : `Lens: ${lensTag}` },
     // ⑧ Style tags (compact — no repeated prose blocks)
-    styleTags || (styleLabel ? `Style: ${styleLabel}` : ''),
+    { key: 'style', priority: 4, text: styleTags || (styleLabel ? `Style: ${styleLabel}` : '') },
     // ⑨ Temporal bridge
-    temporalLine || '',
+    { key: 'temporal', priority: 3, text: temporalLine || '' },
     // ⑩ Director rules
-    directorRule ? `Director: ${directorRule}` : '',
+    { key: 'director', priority: 4, text: directorRule ? `Director: ${directorRule}` : '' },
     // ⑪ Character identity lock — compact form, LAST position
-    identityBlock
-      ? `Identity — do NOT alter: ${identityBlock}`
-      : characters.length > 0 ? 'Maintain full visual continuity.' : '',
+    {
+      key: 'identity',
+      priority: 0,
+      text: identityBlock
+        ? `Identity — do NOT alter: ${identityBlock}`
+        : characters.length > 0 ? 'Maintain full visual continuity.' : '',
+    },
     // ⑫ Characters present
-    characters.length > 0 ? `Characters: ${characters.join(', ')}` : '',
+    { key: 'characters', priority: 1, text: characters.length > 0 ? `Characters: ${characters.join(', ')}` : '' },
     // ⑬ Quality mandate
-    'Cinematic still frame, high detail, physically plausible lighting. Single coherent film frame — not a collage or split screen.',
-  ].filter(Boolean).join('. ');
+    { key: 'quality', priority: 5, text: 'Cinematic still frame, high detail, physically plausible lighting. Single coherent film frame — not a collage or split screen.' },
+  ].filter(section => section.text);
+  const prompt = sections.map(section => section.text).join('. ');
 
   // ── Negative prompt ───────────────────────────────────────────────────────
   const negativePrompt = [
@@ -1068,6 +1133,7 @@ function buildImagePromptFromComposer(params: {
   return {
     prompt: clamp(prompt, 1800),
     negativePrompt: clamp(negativePrompt, 600),
+    sections,
     fingerprint,
     contrastReport,
   };
@@ -1084,7 +1150,7 @@ function buildVideoPromptFromComposer(params: {
   characterAnchor: string;
   directorBrain?: DirectorBrainInput;
   shotGraphNode?: ComposeAllPromptsInput['shotGraphNode'];
-}): { videoPrompt: string; motionPrompt: string; expressionPrompt: string } {
+}): { videoPrompt: string; motionPrompt: string; expressionPrompt: string; sections: PromptSection[]; camera: { framing: string; movement: string }; audioCue: string } {
   const { shot, scene, resolvedBibles, characterAnchor, directorBrain, shotGraphNode } = params;
 
   // The stored video_prompt / video_motion_prompt from Gemini shot planner is the primary source.
@@ -1120,14 +1186,22 @@ function buildVideoPromptFromComposer(params: {
   const editNote = directorBrain?.edit_rhythm || '';
 
   // ── Assemble ──────────────────────────────────────────────────────────────
-  const videoPrompt = [
-    rawVideoPrompt ? `[MOTION DIRECTIVE] ${rawVideoPrompt}` : '',
-    `[CAMERA PLAN] ${camera}, ${movement} camera movement.`,
-    `[TIMED BLOCKING] ${temporalGuidance || motionDefault}`,
-    identityLock,
-    `[SCENE TOPOLOGY LOCK] Remain in ${location}. Lighting: ${clamp(lighting, 160)}. DO NOT hallucinate new geometry. NO environment jump. NO costume drift.`,
-    editNote ? `[EDIT RHYTHM] ${editNote}` : '',
-  ].filter(Boolean).join(' ');
+  const sections: PromptSection[] = [
+    { key: 'motion', priority: 1, text: rawVideoPrompt ? `[MOTION DIRECTIVE] ${rawVideoPrompt}` : '' },
+    { key: 'camera', priority: 1, text: `[CAMERA PLAN] ${camera}, ${movement} camera movement.` },
+    { key: 'blocking', priority: 0, text: `[TIMED BLOCKING] ${temporalGuidance || motionDefault}` },
+    { key: 'identity', priority: 0, text: identityLock },
+    { key: 'topology', priority: 2, text: `[SCENE TOPOLOGY LOCK] Remain in ${location}. Lighting: ${clamp(lighting, 160)}. DO NOT hallucinate new geometry. NO environment jump. NO costume drift.` },
+    { key: 'edit_rhythm', priority: 3, text: editNote ? `[EDIT RHYTHM] ${editNote}` : '' },
+  ].filter(section => section.text);
+  const videoPrompt = sections.map(section => section.text).join(' ');
+
+  // ── Audio cue (only audio-native models receive it, see promptDialects.ts) ─
+  const dialogue = safeString(shot.dialogue_text || shot.dialogue).trim();
+  const audioCue = [
+    safeString(shot.audio_notes).trim(),
+    dialogue ? `${safeString(shot.dialogue_speaker) || 'Character'} says: "${clamp(dialogue, 160)}"` : '',
+  ].filter(Boolean).join('. ');
 
   // ── Expression prompt (for models that support facial direction) ──────────
   const emotion = directorBrain?.emotional_beat_for_shot
@@ -1144,9 +1218,35 @@ function buildVideoPromptFromComposer(params: {
     videoPrompt: motionPrompt,
     motionPrompt,
     expressionPrompt: clamp(expressionPrompt, 300),
+    sections,
+    camera: { framing: String(camera), movement: String(movement) },
+    audioCue,
   };
 }
 
+// Canonical prompt lines by label (see buildCanonicalPrompt in canonicalPromptRewriter.ts):
+// the screenplay contract survives truncation, context and style go first.
+const CANONICAL_SECTION_PRIORITIES: Record<string, number> = {
+  'FINGERPRINT':          0,
+  'REQUIRED ACTION':      0,
+  'MUST SHOW':            0,
+  'IDENTITY LOCK':        0,
+  'NARRATIVE FUNCTION':   1,
+  'SCREENPLAY BEAT':      1,
+  'LOCATION EVIDENCE':    1,
+  'NEW INFORMATION':      2,
+  'VISUAL DELTA':         2,
+  'SUBJECT PRIORITY':     2,
+  'FORBIDDEN REPEAT':     3,
+  'CONTINUITY':           3,
+  'STYLE SUPPORT ONLY':   3,
+  'BACKGROUND DOMINANCE': 4,
+  'REJECT IF':            4,
+};
+
+/** Baseline video negatives, sent to models that take one (inlined for the rest). */
+const VIDEO_NEGATIVE_PROMPT = 'identity drift, face morphing, costume change, flicker, warped limbs, sudden scene change, text overlay, watermark';
+
 // ─────────────────────────────────────────────────────────────────────────────
 // ★ PRIMARY ENTRY POINT: composeAllPrompts()
 // ─────────────────────────────────────────────────────────────────────────────
@@ -1175,6 +1275,7 @@ export function composeAllPrompts(input: ComposeAllPromptsInput): ComposeAllProm
   const {
     prompt: imagePrompt,
     negativePrompt: imageNegativePrompt,
+    sections: fingerprintSections,
     fingerprint,
     contrastReport,
   } = buildImagePromptFromComposer({
@@ -1185,7 +1286,10 @@ export function composeAllPrompts(input: ComposeAllPromptsInput): ComposeAllProm
   });
 
   // ── Build video prompts ───────────────────────────────────────────────────
-  const { videoPrompt, motionPrompt, expressionPrompt } = buildVideoPromptFromComposer({
+  const {
+    videoPrompt, motionPrompt, expressionPrompt,
+    sections: videoSections, camera: videoCamera, audioCue,
+  } = buildVideoPromptFromComposer({
     shot, scene, resolvedBibles,
     characterAnchor: input.characterAnchor || '',
     directorBrain, shotGraphNode: input.shotGraphNode,
@@ -1236,6 +1340,8 @@ export function composeAllPrompts(input: ComposeAllPromptsInput): ComposeAllProm
   // Identity locks from the fingerprint builder are appended at the end.
   let screenplayBinding: ScreenplayBinding | null = null;
   let finalImagePrompt = imagePrompt; // fallback if rewriter throws
+  let imageSections = fingerprintSections;
+  let imageSeparator = '. ';
 
   try {
     // arcIdx: shot's 0-based position within its scene (0=establishing, 1=cover, 2=react, 3=insert)
@@ -1251,6 +1357,8 @@ export function composeAllPrompts(input: ComposeAllPromptsInput): ComposeAllProm
       resolvedBibles,          // already-resolved CharacterBibleEntry[] for this shot
       input.styleBible || {},
       arcIdx,
+      input.directorRules ?? parseDirectorRules(input.directorControls),
+      resolveVerifierProfile({ profile: input.verifierProfile, projectType: input.projectType }),
     );
 
     const explain: ShotExplain = buildShotExplain(
@@ -1268,29 +1376,58 @@ export function composeAllPrompts(input: ComposeAllPromptsInput): ComposeAllProm
       ? `\nIDENTITY LOCK (production): ${compactIdentityDebug}`
       : '';
     finalImagePrompt = clamp(canonicalResult.canonical_prompt + identityTrail, 1800);
+    imageSections = [
+      ...sectionsFromLabeledPrompt(canonicalResult.canonical_prompt, CANONICAL_SECTION_PRIORITIES),
+      ...(identityTrail ? [{ key: 'identity_production', priority: 0, text: identityTrail.trim() }] : []),
+    ];
+    imageSeparator = '\n';
 
-    const verifierScore = `${canonicalResult.verifier.total}/${canonicalResult.verifier.dimensions.length * 5}`;
+    const verifierScore = `${canonicalResult.verifier.total}/${canonicalResult.verifier.max_total}`;
 
     screenplayBinding = {
       approved:         canonicalResult.approved,
       blocked:          !canonicalResult.approved,
       verifier_score:   verifierScore,
+      verifier_profile: canonicalResult.verifier.profile,
       verifier:         canonicalResult.verifier,
       sdc:              canonicalResult.sdc,
       explain,
       canonical_prompt: canonicalResult.canonical_prompt,
       rewrite_count:    canonicalResult.rewrite_count,
+      director_rules:   canonicalResult.director_rules,
     };
   } catch (err: any) {
     console.error('[ScreenplayBinding] rewriteShot() threw:', err?.message);
     // Fall through — use fingerprint prompt, binding = null
   }
 
+  // ── Model dialects ────────────────────────────────────────────────────────
+  const imageDialect = input.targetImageModel
+    ? adaptPromptForModel({
+        model: input.targetImageModel,
+        sections: imageSections,
+        negativePrompt: imageNegativePrompt,
+        separator: imageSeparator,
+      })
+    : null;
+  const videoDialect = input.targetVideoModel
+    ? adaptPromptForModel({
+        model: input.targetVideoModel,
+        sections: videoSections,
+        negativePrompt: [
+          getField(shot, scene, ['negative_constraints'], ''),
+          VIDEO_NEGATIVE_PROMPT,
+        ].filter(Boolean).join(', '),
+        camera: videoCamera,
+        audioCue,
+      })
+    : null;
+
   return {
-    image_prompt: finalImagePrompt,
-    image_negative_prompt: imageNegativePrompt,
-    video_prompt: videoPrompt,
-    motion_prompt: motionPrompt,
+    image_prompt: imageDialect ? imageDialect.prompt : finalImagePrompt,
+    image_negative_prompt: imageDialect ? imageDialect.negative_prompt : imageNegativePrompt,
+    video_prompt: videoDialect ? videoDialect.prompt : videoPrompt,
+    motion_prompt: videoDialect ? videoDialect.prompt : motionPrompt,
     expression_prompt: expressionPrompt,
     voice_direction: voiceDirection,
     bgm_direction: bgmDirection,
@@ -1310,6 +1447,7 @@ export function composeAllPrompts(input: ComposeAllPromptsInput): ComposeAllProm
       contrast:         contrastReport,
     },
     screenplay_binding: screenplayBinding,
+    prompt_dialects: { image: imageDialect, video: videoDialect },
   };
 }
 
@@ -1377,6 +1515,7 @@ export function buildShotImagePrompt(input: ShotPromptCompilerInput): CompiledSh
     },
     // Pass through screenplay binding for UI failure indicators
     screenplay_binding: composed.screenplay_binding,
+    prompt_dialect: composed.prompt_dialects.image,
   };
 }
 
@@ -0,0 +1,285 @@
+/**
+ * lib/shotSimilarityIndex.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Project-wide duplicate shot detection.
+ *
+ * checkDuplicateRisk / checkAdjacentShotContrast only compare a shot with the
+ * one before it, so a shot that repeats scene 2 in scene 7 goes unnoticed.
+ * This index compares every pair of shots in the project on:
+ *   • text        — TF-IDF cosine of the canonical prompt (image prompt fallback);
+ *                   terms every shot shares (style tags, locks) weigh least
+ *   • fingerprint — share of equal CinematicFingerprint fields
+ *                   (size, angle, subject position, dramatic purpose, emotion)
+ *
+ * Pairs at or above the threshold are joined into clusters. Inside a cluster
+ * each member is scored for screenplay removal value against its nearest
+ * neighbour (the verifier's screenplay_removal_value, 0–5); the lowest is the
+ * shot the project can lose with the least damage.
+ */
+
+import { buildSDC, verifyPrompt } from './canonicalPromptRewriter';
+import { buildCinematicFingerprint, type CinematicFingerprint } from './shotPromptCompiler';
+
+export interface ShotSimilarityOptions {
+  /** Combined score (0–1) at which two shots count as redundant. Default 0.65 */
+  threshold?: number;
+  /** Text similarity floor — identical framing alone never clusters. Default 0.45 */
+  minTextSimilarity?: number;
+  /** Share of the combined score taken by text similarity. Default 0.6 */
+  textWeight?: number;
+}
+
+export interface ShotSimilarityPair {
+  a: string;
+  b: string;
+  score: number;
+  text_similarity: number;
+  fingerprint_similarity: number;
+  /** Fingerprint fields the two shots share */
+  shared_fingerprint: Array<keyof CinematicFingerprint>;
+}
+
+export interface RedundantShotMember {
+  shot_id: string;
+  /** Position in the project's shot order */
+  index: number;
+  scene_number: number | null;
+  shot_number: number | null;
+  /** screenplay_removal_value against the nearest cluster member, 0–5 */
+  removal_value: number;
+  removal_reason: string;
+  /** shot_id of the most similar other member */
+  nearest_shot_id: string;
+}
+
+export interface RedundantShotCluster {
+  id: string;
+  /** Members ordered least valuable first */
+  members: RedundantShotMember[];
+  /** Mean score of the linked pairs */
+  similarity: number;
+  least_valuable_shot_id: string;
+  reason: string;
+}
+
+export interface ShotSimilarityIndex {
+  threshold: number;
+  shot_count: number;
+  /** Linked pairs, highest score first */
+  pairs: ShotSimilarityPair[];
+  clusters: RedundantShotCluster[];
+  /** least_valuable_shot_id of every cluster, in shot order */
+  redundant_shot_ids: string[];
+}
+
+const FINGERPRINT_FIELDS: Array<keyof CinematicFingerprint> = [
+  'shot_size', 'angle', 'subject_position', 'dramatic_purpose', 'emotional_beat',
+];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'with', 'from', 'into', 'onto', 'over', 'under', 'for', 'that', 'this',
+  'their', 'his', 'her', 'its', 'are', 'was', 'has', 'have', 'shot', 'scene', 'frame',
+]);
+
+const s = (v: any): string => (v == null ? '' : typeof v === 'string' ? v : String(v));
+
+export function similarityShotId(shot: any, index: number): string {
+  const id = s(shot?.id || shot?.shot_id).trim();
+  if (id) return id;
+  const scene = s(shot?.scene_number).trim() || '?';
+  return `${scene}-${s(shot?.shot_number).trim() || index + 1}`;
+}
+
+function promptText(shot: any): string {
+  return s(shot?.canonical_prompt).trim()
+    || s(shot?.image_prompt).trim()
+    || s(shot?.visual_description || shot?.action).trim();
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/\[[^\]]*\]/g, ' ')            // [S1/2 | MS | EYE-LEVEL] headers and lock tags
+    .replace(/\b[A-Z][A-Z _]+:/g, ' ')      // SECTION: labels
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((t) => t.length > 2 && !STOPWORDS.has(t));
+}
+
+function tfidfVectors(docs: string[][]): Array<Map<string, number>> {
+  const df = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) df.set(term, (df.get(term) || 0) + 1);
+  }
+  return docs.map((doc) => {
+    const tf = new Map<string, number>();
+    for (const term of doc) tf.set(term, (tf.get(term) || 0) + 1);
+    const vec = new Map<string, number>();
+    for (const [term, count] of tf) {
+      // Smoothed idf: in a two-shot project shared terms still count
+      vec.set(term, count * (1 + Math.log((1 + docs.length) / (1 + (df.get(term) || 0)))));
+    }
+    return vec;
+  });
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0, na = 0, nb = 0;
+  for (const [term, w] of a) {
+    na += w * w;
+    const other = b.get(term);
+    if (other) dot += w * other;
+  }
+  for (const w of b.values()) nb += w * w;
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+function fingerprintSimilarity(a: CinematicFingerprint, b: CinematicFingerprint): { score: number; shared: Array<keyof CinematicFingerprint> } {
+  const shared: Array<keyof CinematicFingerprint> = [];
+  let compared = 0;
+  for (const field of FINGERPRINT_FIELDS) {
+    const av = s(a[field]).toLowerCase().trim();
+    const bv = s(b[field]).toLowerCase().trim();
+    if (!av && !bv) continue;
+    compared++;
+    if (av === bv) shared.push(field);
+  }
+  return { score: compared === 0 ? 0 : shared.length / compared, shared };
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Builds the similarity index for a project's shots, in story order.
+ * Shots may be stored Scene rows or compiler shots; scene-level fields
+ * (location, synopsis) are read from the shot itself.
+ */
+export function buildShotSimilarityIndex(shots: any[], opts: ShotSimilarityOptions = {}): ShotSimilarityIndex {
+  const threshold = opts.threshold ?? 0.65;
+  const minText = opts.minTextSimilarity ?? 0.45;
+  const textWeight = opts.textWeight ?? 0.6;
+
+  const usedIds = new Set<string>();
+  const entries = shots.map((raw, index) => {
+    // Stored rows keep the action in visual_description
+    const shot = { ...raw, action: raw?.action || raw?.visual_description || '' };
+    let id = similarityShotId(raw, index);
+    if (usedIds.has(id)) id = `${id}#${index + 1}`;
+    usedIds.add(id);
+    return {
+      shot,
+      index,
+      id,
+      text: promptText(shot),
+      fingerprint: buildCinematicFingerprint(shot, shot),
+    };
+  });
+  const vectors = tfidfVectors(entries.map((e) => tokenize(e.text)));
+
+  const pairs: ShotSimilarityPair[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const text = cosine(vectors[i], vectors[j]);
+      if (text < minText) continue;
+      const fp = fingerprintSimilarity(entries[i].fingerprint, entries[j].fingerprint);
+      const score = textWeight * text + (1 - textWeight) * fp.score;
+      if (score < threshold) continue;
+      pairs.push({
+        a: entries[i].id,
+        b: entries[j].id,
+        score: round2(score),
+        text_similarity: round2(text),
+        fingerprint_similarity: round2(fp.score),
+        shared_fingerprint: fp.shared,
+      });
+    }
+  }
+  pairs.sort((x, y) => y.score - x.score);
+
+  // ── Union-find over linked pairs ───────────────────────────────────────────
+  const indexById = new Map(entries.map((e) => [e.id, e.index]));
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (const pair of pairs) {
+    const ra = find(indexById.get(pair.a)!);
+    const rb = find(indexById.get(pair.b)!);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  }
+  const groups = new Map<number, number[]>();
+  for (const e of entries) {
+    const root = find(e.index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(e.index);
+  }
+
+  // Position of each shot inside its scene drives the SDC arc index
+  const arcIdx = new Map<number, number>();
+  const seenPerScene = new Map<string, number>();
+  for (const e of entries) {
+    const key = s(e.shot.scene_id || e.shot.source_scene_id || e.shot.scene_number);
+    const pos = seenPerScene.get(key) || 0;
+    seenPerScene.set(key, pos + 1);
+    arcIdx.set(e.index, Math.min(pos, 3));
+  }
+
+  const clusters: RedundantShotCluster[] = [];
+  for (const memberIdx of groups.values()) {
+    if (memberIdx.length < 2) continue;
+    const memberIds = new Set(memberIdx.map((i) => entries[i].id));
+    const linked = pairs.filter((p) => memberIds.has(p.a) && memberIds.has(p.b));
+
+    const members: RedundantShotMember[] = memberIdx.map((i) => {
+      const e = entries[i];
+      const nearestPair = linked.find((p) => p.a === e.id || p.b === e.id)!;
+      const nearestId = nearestPair.a === e.id ? nearestPair.b : nearestPair.a;
+      const nearest = entries[indexById.get(nearestId)!];
+      const sdc = buildSDC(e.shot, e.shot, nearest.shot, arcIdx.get(i)!);
+      const removal = verifyPrompt(e.text, e.shot, e.shot, [], sdc).dimensions
+        .find((d) => d.name === 'screenplay_removal_value');
+      const sceneNumber = Number(e.shot.scene_number);
+      const shotNumber = Number(e.shot.shot_number);
+      return {
+        shot_id: e.id,
+        index: i,
+        scene_number: Number.isFinite(sceneNumber) ? sceneNumber : null,
+        shot_number: Number.isFinite(shotNumber) ? shotNumber : null,
+        removal_value: removal?.score ?? 3,
+        removal_reason: removal?.reason || '',
+        nearest_shot_id: nearestId,
+      };
+    });
+    // Least valuable first; on ties the lower stored verifier score, then the later repeat
+    const storedScore = (m: RedundantShotMember) => Number(entries[m.index].shot.verifier_score) || 0;
+    members.sort((x, y) =>
+      x.removal_value - y.removal_value
+      || storedScore(x) - storedScore(y)
+      || y.index - x.index);
+
+    const weakest = members[0];
+    const similarity = round2(linked.reduce((acc, p) => acc + p.score, 0) / linked.length);
+    const weakestPair = linked.find((p) => p.a === weakest.shot_id || p.b === weakest.shot_id)!;
+    const shared = weakestPair.shared_fingerprint.map((f) => s(entries[weakest.index].fingerprint[f])).filter(Boolean);
+    clusters.push({
+      id: `cluster-${clusters.length + 1}`,
+      members,
+      similarity,
+      least_valuable_shot_id: weakest.shot_id,
+      reason: `${members.length} shots ${Math.round(similarity * 100)}% alike`
+        + (shared.length > 0 ? ` (${shared.slice(0, 3).join(' / ')})` : '')
+        + ` — ${weakest.shot_id} has the lowest removal value (${weakest.removal_value}/5)`,
+    });
+  }
+  clusters.sort((x, y) => Math.min(...x.members.map((m) => m.index)) - Math.min(...y.members.map((m) => m.index)));
+  clusters.forEach((c, i) => { c.id = `cluster-${i + 1}`; });
+
+  return {
+    threshold,
+    shot_count: entries.length,
+    pairs,
+    clusters,
+    redundant_shot_ids: clusters
+      .map((c) => c.members[0])
+      .sort((x, y) => x.index - y.index)
+      .map((m) => m.shot_id),
+  };
+}
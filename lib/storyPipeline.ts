@@ -1,3 +1,14 @@
+import { PipelineSeqConflictError, type PipelineStore } from './pipelineStore.js';
+import {
+  PipelineTransitionError,
+  POST_STORYBOARD_STAGES,
+  activeShots,
+  checkStageTransition,
+  transitionNameFor,
+  type PipelineTransition,
+  type StageTransitionRecord,
+} from './pipelineTransitions.js';
+
 export type PipelineStage =
   | 'script_ready'
   | 'bible_ready'
@@ -18,7 +29,31 @@ export type RegenerationMode =
   | 'regenerate_same_shot_fix_costume'
   | 'regenerate_same_shot_fix_scene'
   | 'regenerate_from_shot_forward'
-  | 'freeze_approved_shots';
+  | 'freeze_approved_shots'
+  | 'rollback_to_candidate';
+
+export interface StoryboardCandidate {
+  candidateId: string;
+  imageUrl?: string;
+  continuityScore: number;
+  narrativeScore: number;
+  visualMatchScore: number;
+  createdAt: number;
+  violations: string[];
+}
+
+/** One version bump of a shot: a regeneration request or a rollback to an older candidate. */
+export interface ShotRegenerationRecord {
+  id: string;
+  mode: RegenerationMode;
+  reason: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Candidate restored by a rollback. */
+  candidateId?: string;
+  actor: string;
+  createdAt: number;
+}
 
 export interface RuntimeShotState {
   shotId: string;
@@ -28,21 +63,17 @@ export interface RuntimeShotState {
   status: 'pending' | 'generating' | 'review' | 'approved' | 'failed';
   lastImageUrl?: string;
   approvedImageUrl?: string;
+  /** Candidate whose image is approvedImageUrl, when known. */
+  approvedCandidateId?: string;
   bestCandidateId?: string;
   continuityScore?: number;
   narrativeScore?: number;
   visualMatchScore?: number;
   violationTags: string[];
   regenerateReason?: string;
-  history: Array<{
-    candidateId: string;
-    imageUrl?: string;
-    continuityScore: number;
-    narrativeScore: number;
-    visualMatchScore: number;
-    createdAt: number;
-    violations: string[];
-  }>;
+  /** Every candidate ever registered for the shot, oldest first. */
+  history: StoryboardCandidate[];
+  regenerationJobs: ShotRegenerationRecord[];
 }
 
 export interface ProjectRuntimeState {
@@ -53,69 +84,507 @@ export interface ProjectRuntimeState {
   shots: Map<string, RuntimeShotState>;
   createdAt: number;
   updatedAt: number;
+  /** Sequence number of the last event applied to this state (0 = none). */
+  seq: number;
+  /** Who moved the stage, when and why — oldest first. */
+  stageHistory: StageTransitionRecord[];
 }
 
+// ────────────────────────────────────────────────────────────────────────────
+// Event log
+// Every mutation is recorded as an append-only event. The in-memory map is a
+// cache: any instance can rebuild a project's state from its latest snapshot
+// plus the events recorded after it (see hydrateProjectRuntime).
+// ────────────────────────────────────────────────────────────────────────────
+
+export type PipelineEventPayload =
+  | {
+      type: 'project_initialized';
+      stage: PipelineStage;
+      shots: Array<{ shotId: string; sceneId?: string; sequenceOrder: number }>;
+    }
+  | {
+      type: 'stage_transitioned';
+      transition: PipelineTransition;
+      from: PipelineStage;
+      to: PipelineStage;
+      reason?: string;
+    }
+  | { type: 'queue_controlled'; action: 'pause' | 'resume' | 'skip'; shotId?: string }
+  | {
+      type: 'candidate_registered';
+      shotId: string;
+      candidateId: string;
+      imageUrl?: string;
+      continuityScore: number;
+      narrativeScore: number;
+      visualMatchScore: number;
+      violations: string[];
+    }
+  | { type: 'shot_approved'; shotId: string; imageUrl?: string }
+  | {
+      type: 'shot_regenerated';
+      shotId: string;
+      mode: RegenerationMode;
+      reason?: string;
+      /** Downstream shots a regenerate_from_shot_forward cascade invalidates (see regenerationCascade.ts). */
+      cascadeShotIds?: string[];
+    }
+  | { type: 'candidate_promoted'; shotId: string; candidateId: string; reason?: string };
+
+export type PipelineEventType = PipelineEventPayload['type'];
+
+export type PipelineEvent = PipelineEventPayload & {
+  projectId: string;
+  seq: number;
+  at: number;
+  /** User id that caused the event; absent for system work. */
+  actor?: string;
+};
+
+/** Take a snapshot every N events so replays stay short. */
+const SNAPSHOT_INTERVAL = 25;
+/** Times an event is re-sequenced after another instance took its seq. */
+const MAX_SEQ_CONFLICT_RETRIES = 3;
+
 const projectStateMap = new Map<string, ProjectRuntimeState>();
+const pendingWrites = new Map<string, Promise<void>>();
+/** Writes that could not be stored, reported by the next flushPipelineEvents() */
+const failedWrites = new Map<string, Error>();
+let pipelineStore: PipelineStore | null = null;
+const eventListeners = new Set<(event: PipelineEvent) => void>();
+
+/**
+ * Selects the durable backend for the event log. Without a store the runtime
+ * behaves as before: state lives only in this process.
+ */
+export function configurePipelineStore(store: PipelineStore | null): void {
+  pipelineStore = store;
+}
+
+export function getPipelineStore(): PipelineStore | null {
+  return pipelineStore;
+}
+
+/**
+ * Registers a listener for applied events — both those committed here and
+ * those picked up from other instances during hydration. Returns an
+ * unsubscribe function.
+ */
+export function onPipelineEvent(listener: (event: PipelineEvent) => void): () => void {
+  eventListeners.add(listener);
+  return () => eventListeners.delete(listener);
+}
+
+function notifyEventListeners(event: PipelineEvent): void {
+  for (const listener of eventListeners) {
+    try {
+      listener(event);
+    } catch (e: any) {
+      console.warn('[StoryPipeline] Event listener failed:', e?.message || e);
+    }
+  }
+}
+
+/**
+ * Applies one event to a state. Deterministic: replaying the same events in
+ * seq order always yields the same state, which is what makes the log the
+ * source of truth.
+ */
+export function applyPipelineEvent(state: ProjectRuntimeState | null, event: PipelineEvent): ProjectRuntimeState {
+  if (event.type === 'project_initialized') {
+    const shots = new Map<string, RuntimeShotState>();
+    event.shots.forEach((shot) => {
+      shots.set(shot.shotId, {
+        shotId: shot.shotId,
+        sceneId: shot.sceneId,
+        sequenceOrder: shot.sequenceOrder,
+        version: 1,
+        status: 'pending',
+        violationTags: [],
+        history: [],
+        regenerationJobs: [],
+      });
+    });
+    return {
+      projectId: event.projectId,
+      stage: event.stage,
+      paused: false,
+      skippedShotIds: new Set<string>(),
+      shots,
+      createdAt: event.at,
+      updatedAt: event.at,
+      seq: event.seq,
+      stageHistory: [{
+        seq: event.seq,
+        at: event.at,
+        from: null,
+        to: event.stage,
+        transition: 'generate_shots',
+        actor: event.actor || 'system',
+        reason: 'project initialized',
+      }],
+    };
+  }
+
+  if (!state) {
+    throw new Error(`Pipeline event ${event.seq} (${event.type}) for ${event.projectId} has no initialized state`);
+  }
+
+  switch (event.type) {
+    case 'stage_transitioned':
+      state.stage = event.to;
+      state.stageHistory.push({
+        seq: event.seq,
+        at: event.at,
+        from: event.from,
+        to: event.to,
+        transition: event.transition,
+        actor: event.actor || 'system',
+        reason: event.reason,
+      });
+      break;
+
+    case 'queue_controlled':
+      if (event.action === 'pause') state.paused = true;
+      if (event.action === 'resume') state.paused = false;
+      if (event.action === 'skip' && event.shotId) state.skippedShotIds.add(event.shotId);
+      if (event.action === 'skip') reconcileStage(state, event, `skipped ${event.shotId}`);
+      break;
+
+    case 'candidate_registered': {
+      const shot = state.shots.get(event.shotId);
+      if (!shot) break;
+      shot.status = 'review';
+      shot.lastImageUrl = event.imageUrl;
+      shot.bestCandidateId = event.candidateId;
+      shot.continuityScore = event.continuityScore;
+      shot.narrativeScore = event.narrativeScore;
+      shot.visualMatchScore = event.visualMatchScore;
+      shot.violationTags = event.violations;
+      shot.history.push({
+        candidateId: event.candidateId,
+        imageUrl: event.imageUrl,
+        continuityScore: event.continuityScore,
+        narrativeScore: event.narrativeScore,
+        visualMatchScore: event.visualMatchScore,
+        createdAt: event.at,
+        violations: event.violations,
+      });
+      reconcileStage(state, event, `candidate ${event.candidateId} for ${event.shotId}`);
+      break;
+    }
+
+    case 'shot_approved': {
+      const shot = state.shots.get(event.shotId);
+      if (!shot) break;
+      shot.status = 'approved';
+      shot.approvedImageUrl = event.imageUrl || shot.lastImageUrl;
+      shot.approvedCandidateId = findCandidateByImage(shot, shot.approvedImageUrl)?.candidateId;
+      shot.version += 1;
+      reconcileStage(state, event, `approved ${event.shotId}`);
+      break;
+    }
+
+    case 'candidate_promoted': {
+      const shot = state.shots.get(event.shotId);
+      const candidate = shot?.history.find((c) => c.candidateId === event.candidateId);
+      if (!shot || !candidate) break;
+      recordRegenerationJob(shot, event, 'rollback_to_candidate', event.reason || `restored candidate ${event.candidateId}`, event.candidateId);
+      shot.status = 'approved';
+      shot.approvedImageUrl = candidate.imageUrl;
+      shot.approvedCandidateId = candidate.candidateId;
+      shot.lastImageUrl = candidate.imageUrl;
+      shot.bestCandidateId = candidate.candidateId;
+      shot.continuityScore = candidate.continuityScore;
+      shot.narrativeScore = candidate.narrativeScore;
+      shot.visualMatchScore = candidate.visualMatchScore;
+      shot.violationTags = [...candidate.violations];
+      reconcileStage(state, event, `rolled ${event.shotId} back to ${event.candidateId}`);
+      break;
+    }
+
+    case 'shot_regenerated': {
+      const shot = state.shots.get(event.shotId);
+      if (!shot) break;
+      recordRegenerationJob(shot, event, event.mode, event.reason || '');
+      shot.status = 'pending';
+      shot.regenerateReason = `${event.mode}${event.reason ? `: ${event.reason}` : ''}`;
+      shot.violationTags = [];
+
+      if (event.cascadeShotIds) {
+        for (const nextId of event.cascadeShotIds) {
+          const next = state.shots.get(nextId);
+          if (!next || next === shot) continue;
+          recordRegenerationJob(next, event, event.mode, `cascade from ${event.shotId}`);
+          next.status = 'pending';
+          next.regenerateReason = `${event.mode}: cascade from ${event.shotId}`;
+          next.violationTags = [];
+        }
+      } else if (event.mode === 'regenerate_from_shot_forward') {
+        // Events recorded before cascades were planned: every later shot.
+        for (const next of state.shots.values()) {
+          if (next.sequenceOrder > shot.sequenceOrder) {
+            next.status = 'pending';
+            next.version += 1;
+          }
+        }
+      }
+
+      reconcileStage(state, event, `${event.mode} on ${event.shotId}`);
+      break;
+    }
+  }
+
+  state.seq = event.seq;
+  state.updatedAt = event.at;
+  return state;
+}
+
+function findCandidateByImage(shot: RuntimeShotState, imageUrl?: string): StoryboardCandidate | undefined {
+  if (!imageUrl) return undefined;
+  for (let i = shot.history.length - 1; i >= 0; i--) {
+    if (shot.history[i].imageUrl === imageUrl) return shot.history[i];
+  }
+  return undefined;
+}
+
+/** Bumps the shot version and logs the bump. Ids derive from the event so replays match. */
+function recordRegenerationJob(
+  shot: RuntimeShotState,
+  event: PipelineEvent,
+  mode: RegenerationMode,
+  reason: string,
+  candidateId?: string
+): void {
+  const fromVersion = shot.version;
+  shot.version += 1;
+  shot.regenerationJobs.push({
+    id: `${event.projectId}:${shot.shotId}:${event.seq}`,
+    mode,
+    reason,
+    fromVersion,
+    toVersion: shot.version,
+    candidateId,
+    actor: event.actor || 'system',
+    createdAt: event.at,
+  });
+}
+
+/**
+ * Records an event: applies it to the cached state immediately (callers stay
+ * synchronous) and queues the durable append. Writes for one project are
+ * chained so the log is always appended in seq order; routes await
+ * flushPipelineEvents() before responding so the event is stored by then.
+ */
+function commitEvent(projectId: string, payload: PipelineEventPayload, actor?: string): ProjectRuntimeState {
+  const current = projectStateMap.get(projectId) || null;
+  const event = { ...payload, projectId, seq: (current?.seq || 0) + 1, at: Date.now(), actor } as PipelineEvent;
+  const next = applyPipelineEvent(current, event);
+  projectStateMap.set(projectId, next);
+
+  const store = pipelineStore;
+  if (store) {
+    const snapshot = event.seq % SNAPSHOT_INTERVAL === 0 ? structuredClone(serializePipelineState(next)) : null;
+    const previous = pendingWrites.get(projectId) || Promise.resolve();
+    const write = previous
+      // A failed earlier write left a hole at its seq: rebuild from the log first
+      .then(() => persistEvent(store, event, snapshot, false), () => persistEvent(store, event, snapshot, true))
+      .catch((e: any) => {
+        console.error(`[StoryPipeline] Failed to persist event ${event.seq} (${event.type}) for ${projectId}:`, e?.message || e);
+        // The cache now holds an event the log does not; reload it from the log next time
+        projectStateMap.delete(projectId);
+        failedWrites.set(projectId, e instanceof Error ? e : new Error(String(e)));
+        throw e;
+      });
+    pendingWrites.set(projectId, write);
+    write.then(
+      () => { if (pendingWrites.get(projectId) === write) pendingWrites.delete(projectId); },
+      () => { if (pendingWrites.get(projectId) === write) pendingWrites.delete(projectId); },
+    );
+  }
+
+  notifyEventListeners(event);
+  return next;
+}
+
+/**
+ * Appends one event. When its seq is already taken (another instance wrote
+ * first) the project is reloaded from the log and the event re-applied on top
+ * under the next free seq.
+ */
+async function persistEvent(
+  store: PipelineStore,
+  event: PipelineEvent,
+  snapshot: SerializedPipelineState | null,
+  rebaseFirst: boolean
+): Promise<void> {
+  let pending = rebaseFirst ? await rebaseEvent(store, event) : event;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await store.appendEvents([pending]);
+      break;
+    } catch (e: any) {
+      if (!(e instanceof PipelineSeqConflictError) || attempt >= MAX_SEQ_CONFLICT_RETRIES) throw e;
+      pending = await rebaseEvent(store, pending);
+    }
+  }
+  // A re-sequenced event no longer matches the snapshot taken at commit time
+  if (snapshot && pending.seq === event.seq) await store.saveSnapshot(snapshot);
+}
+
+async function rebaseEvent(store: PipelineStore, event: PipelineEvent): Promise<PipelineEvent> {
+  const durable = await loadDurableState(store, event.projectId, null);
+  const rebased = { ...event, seq: (durable?.seq || 0) + 1 } as PipelineEvent;
+  projectStateMap.set(event.projectId, applyPipelineEvent(durable, rebased));
+  return rebased;
+}
+
+/** Latest snapshot (unless a state is given) plus every event after it. */
+async function loadDurableState(
+  store: PipelineStore,
+  projectId: string,
+  state: ProjectRuntimeState | null,
+  onEvent?: (event: PipelineEvent) => void
+): Promise<ProjectRuntimeState | null> {
+  if (!state) {
+    const snapshot = await store.loadSnapshot(projectId);
+    if (snapshot) state = deserializePipelineState(snapshot);
+  }
+  for (const event of await store.loadEvents(projectId, state?.seq || 0)) {
+    if (event.seq !== (state?.seq || 0) + 1) {
+      throw new Error(`Pipeline event log for ${projectId} has a gap at seq ${(state?.seq || 0) + 1}`);
+    }
+    state = applyPipelineEvent(state, event);
+    onEvent?.(event);
+  }
+  return state;
+}
+
+/**
+ * Resolves once every queued event for the project has reached the store;
+ * rejects if one of them could not be stored since the last flush.
+ */
+export async function flushPipelineEvents(projectId: string): Promise<void> {
+  await pendingWrites.get(projectId)?.catch(() => undefined);
+  const failed = failedWrites.get(projectId);
+  if (failed) {
+    failedWrites.delete(projectId);
+    throw failed;
+  }
+}
+
+/**
+ * Adopts a state recorded before the event log existed: stores it as the
+ * seq-0 snapshot the log builds on, so a cold instance can hydrate it.
+ */
+export async function adoptLegacyPipelineState(state: ProjectRuntimeState): Promise<ProjectRuntimeState> {
+  state.seq = 0;
+  if (pipelineStore) await pipelineStore.saveSnapshot(structuredClone(serializePipelineState(state)));
+  projectStateMap.set(state.projectId, state);
+  return state;
+}
+
+/**
+ * Brings the cached state up to date with the durable log: loads the latest
+ * snapshot when nothing is cached, then replays every event after the cached
+ * seq. Events appended by other instances are picked up the same way.
+ */
+export async function hydrateProjectRuntime(projectId: string): Promise<ProjectRuntimeState | null> {
+  const store = pipelineStore;
+  if (!store) return projectStateMap.get(projectId) || null;
+
+  await flushPipelineEvents(projectId);
+
+  const cached = projectStateMap.get(projectId) || null;
+  // A cold load is not news to anyone here; only events another instance
+  // appended on top of an already cached state are forwarded to listeners.
+  const state = await loadDurableState(store, projectId, cached, (event) => {
+    if (cached) notifyEventListeners(event);
+  });
+
+  if (state) projectStateMap.set(projectId, state);
+  return state;
+}
+
+/** Rebuilds a project's state purely from the durable log, ignoring the cache. */
+export async function replayProjectRuntime(projectId: string): Promise<ProjectRuntimeState | null> {
+  const store = pipelineStore;
+  if (!store) return null;
+  await flushPipelineEvents(projectId);
+
+  const events = await store.loadEvents(projectId, 0);
+  // Projects adopted from legacy state start from their seq-0 snapshot instead of an init event
+  let state: ProjectRuntimeState | null = null;
+  if (events[0]?.type !== 'project_initialized') {
+    const snapshot = await store.loadSnapshot(projectId);
+    if (snapshot && !snapshot.seq) state = deserializePipelineState(snapshot);
+  }
+  for (const event of events) {
+    state = applyPipelineEvent(state, event);
+  }
+  return state;
+}
 
 export function initProjectRuntime(params: {
   projectId: string;
   shots: Array<{ shot_id: string; scene_id?: string; sequence_order?: number; shot_number?: number }>;
   stage?: PipelineStage;
+  actor?: string;
 }): ProjectRuntimeState {
   const existing = projectStateMap.get(params.projectId);
   if (existing) return existing;
 
-  const shots = new Map<string, RuntimeShotState>();
-  params.shots.forEach((shot, idx) => {
-    const order = Number(shot.sequence_order ?? shot.shot_number ?? idx + 1) || idx + 1;
-    shots.set(shot.shot_id, {
+  return commitEvent(params.projectId, {
+    type: 'project_initialized',
+    stage: params.stage || 'shots_ready',
+    shots: params.shots.map((shot, idx) => ({
       shotId: shot.shot_id,
       sceneId: shot.scene_id,
-      sequenceOrder: order,
-      version: 1,
-      status: 'pending',
-      violationTags: [],
-      history: [],
-    });
-  });
-
-  const now = Date.now();
-  const created: ProjectRuntimeState = {
-    projectId: params.projectId,
-    stage: params.stage || 'shots_ready',
-    paused: false,
-    skippedShotIds: new Set<string>(),
-    shots,
-    createdAt: now,
-    updatedAt: now,
-  };
-
-  projectStateMap.set(params.projectId, created);
-  return created;
+      sequenceOrder: Number(shot.sequence_order ?? shot.shot_number ?? idx + 1) || idx + 1,
+    })),
+  }, params.actor);
 }
 
 export function getProjectRuntime(projectId: string): ProjectRuntimeState | null {
   return projectStateMap.get(projectId) || null;
 }
 
-export function setProjectStage(projectId: string, stage: PipelineStage): ProjectRuntimeState | null {
+/**
+ * Moves the project through a named transition of the stage machine
+ * (lib/pipelineTransitions.ts). Throws PipelineTransitionError when the
+ * current stage or a guard rejects it; returns null for unknown projects.
+ */
+export function transitionProjectStage(
+  projectId: string,
+  transition: PipelineTransition,
+  meta: { actor?: string; reason?: string } = {}
+): ProjectRuntimeState | null {
   const state = projectStateMap.get(projectId);
   if (!state) return null;
-  state.stage = stage;
-  state.updatedAt = Date.now();
-  return state;
-}
 
-export function controlStoryboardQueue(projectId: string, action: 'pause' | 'resume' | 'skip', shotId?: string): ProjectRuntimeState | null {
-  const state = projectStateMap.get(projectId);
-  if (!state) return null;
+  const check = checkStageTransition(state, transition);
+  if (check.allowed === false) {
+    throw new PipelineTransitionError(projectId, transition, state.stage, check.rejection);
+  }
 
-  if (action === 'pause') state.paused = true;
-  if (action === 'resume') state.paused = false;
-  if (action === 'skip' && shotId) state.skippedShotIds.add(shotId);
+  return commitEvent(projectId, {
+    type: 'stage_transitioned',
+    transition,
+    from: state.stage,
+    to: check.to,
+    reason: meta.reason,
+  }, meta.actor);
+}
 
-  state.updatedAt = Date.now();
-  return state;
+export function controlStoryboardQueue(
+  projectId: string,
+  action: 'pause' | 'resume' | 'skip',
+  shotId?: string,
+  actor?: string
+): ProjectRuntimeState | null {
+  if (!projectStateMap.has(projectId)) return null;
+  return commitEvent(projectId, { type: 'queue_controlled', action, shotId }, actor);
 }
 
 export function buildShotContextPack(params: {
@@ -173,6 +642,12 @@ export function scoreStoryboardCandidate(params: {
   framing?: string;
   lighting?: string;
   imageUrl?: string;
+  /** Measured frame comparisons (perceptualContinuity.ts); replace the text heuristics where present */
+  perceptual?: {
+    continuity_score?: number;
+    visual_match_score?: number;
+    violation_tags?: string[];
+  };
 }): {
   continuity_score: number;
   narrative_score: number;
@@ -194,9 +669,14 @@ export function scoreStoryboardCandidate(params: {
   if (!hasUrl) violations.push('missing_image_output');
   if (prompt.includes('random') || prompt.includes('abstract metaphor')) violations.push('prompt_ambiguity');
 
-  const continuity = Math.max(0, 100 - violations.length * 18);
+  const measured = params.perceptual;
+  for (const tag of measured?.violation_tags || []) {
+    if (!violations.includes(tag)) violations.push(tag);
+  }
+
+  const continuity = measured?.continuity_score ?? Math.max(0, 100 - violations.length * 18);
   const narrative = hasAction ? 85 : 55;
-  const visual = hasFraming && hasLighting ? 88 : 60;
+  const visual = measured?.visual_match_score ?? (hasFraming && hasLighting ? 88 : 60);
 
   const recommend = continuity < 75
     ? 'regenerate_same_shot_keep_bible'
@@ -222,47 +702,30 @@ export function registerStoryboardCandidate(params: {
   narrativeScore: number;
   visualMatchScore: number;
   violations?: string[];
+  actor?: string;
 }): RuntimeShotState | null {
   const state = projectStateMap.get(params.projectId);
-  if (!state) return null;
-  const shot = state.shots.get(params.shotId);
-  if (!shot) return null;
-
-  shot.status = 'review';
-  shot.lastImageUrl = params.imageUrl;
-  shot.bestCandidateId = params.candidateId;
-  shot.continuityScore = params.continuityScore;
-  shot.narrativeScore = params.narrativeScore;
-  shot.visualMatchScore = params.visualMatchScore;
-  shot.violationTags = params.violations || [];
-  shot.history.push({
+  if (!state?.shots.has(params.shotId)) return null;
+
+  commitEvent(params.projectId, {
+    type: 'candidate_registered',
+    shotId: params.shotId,
     candidateId: params.candidateId,
     imageUrl: params.imageUrl,
     continuityScore: params.continuityScore,
     narrativeScore: params.narrativeScore,
     visualMatchScore: params.visualMatchScore,
-    createdAt: Date.now(),
     violations: params.violations || [],
-  });
-
-  state.stage = computeStage(state);
-  state.updatedAt = Date.now();
-  return shot;
+  }, params.actor);
+  return state.shots.get(params.shotId) || null;
 }
 
-export function approveStoryboardShot(projectId: string, shotId: string, imageUrl?: string): RuntimeShotState | null {
+export function approveStoryboardShot(projectId: string, shotId: string, imageUrl?: string, actor?: string): RuntimeShotState | null {
   const state = projectStateMap.get(projectId);
-  if (!state) return null;
-  const shot = state.shots.get(shotId);
-  if (!shot) return null;
-
-  shot.status = 'approved';
-  shot.approvedImageUrl = imageUrl || shot.lastImageUrl;
-  shot.version += 1;
+  if (!state?.shots.has(shotId)) return null;
 
-  state.stage = computeStage(state);
-  state.updatedAt = Date.now();
-  return shot;
+  commitEvent(projectId, { type: 'shot_approved', shotId, imageUrl }, actor);
+  return state.shots.get(shotId) || null;
 }
 
 export function markShotRegenerated(params: {
@@ -270,37 +733,43 @@ export function markShotRegenerated(params: {
   shotId: string;
   mode: RegenerationMode;
   reason?: string;
+  /** Downstream shots to invalidate with the origin shot, from a CascadePlan. */
+  cascadeShotIds?: string[];
+  actor?: string;
 }): RuntimeShotState | null {
   const state = projectStateMap.get(params.projectId);
-  if (!state) return null;
-
-  const shot = state.shots.get(params.shotId);
-  if (!shot) return null;
-
-  shot.version += 1;
-  shot.status = 'pending';
-  shot.regenerateReason = `${params.mode}${params.reason ? `: ${params.reason}` : ''}`;
-  shot.violationTags = [];
-
-  if (params.mode === 'regenerate_from_shot_forward') {
-    for (const next of state.shots.values()) {
-      if (next.sequenceOrder > shot.sequenceOrder) {
-        next.status = 'pending';
-        next.version += 1;
-      }
-    }
-  }
+  if (!state?.shots.has(params.shotId)) return null;
+
+  commitEvent(params.projectId, {
+    type: 'shot_regenerated',
+    shotId: params.shotId,
+    mode: params.mode,
+    reason: params.reason,
+    cascadeShotIds: params.cascadeShotIds,
+  }, params.actor);
+  return state.shots.get(params.shotId) || null;
+}
 
-  if (params.mode === 'freeze_approved_shots') {
-    for (const s of state.shots.values()) {
-      if (s.status === 'approved') {
-        s.status = 'approved';
-      }
-    }
-  }
+/**
+ * Restores an earlier candidate as the shot's approved frame. Returns null
+ * when the shot or candidate is unknown; callers check for an image first.
+ */
+export function promoteStoryboardCandidate(params: {
+  projectId: string;
+  shotId: string;
+  candidateId: string;
+  reason?: string;
+  actor?: string;
+}): RuntimeShotState | null {
+  const shot = projectStateMap.get(params.projectId)?.shots.get(params.shotId);
+  if (!shot?.history.some((c) => c.candidateId === params.candidateId)) return null;
 
-  state.stage = computeStage(state);
-  state.updatedAt = Date.now();
+  commitEvent(params.projectId, {
+    type: 'candidate_promoted',
+    shotId: params.shotId,
+    candidateId: params.candidateId,
+    reason: params.reason,
+  }, params.actor);
   return shot;
 }
 
@@ -308,7 +777,8 @@ export function hasApprovedStoryboard(projectId: string, shotId?: string): boole
   const state = projectStateMap.get(projectId);
   if (!state) return false;
   if (shotId) return state.shots.get(shotId)?.status === 'approved';
-  return [...state.shots.values()].every((s) => s.status === 'approved');
+  const shots = activeShots(state);
+  return shots.length > 0 && shots.every((s) => s.status === 'approved');
 }
 
 export function getApprovedStoryboardFrame(projectId: string, shotId: string): string | undefined {
@@ -317,8 +787,24 @@ export function getApprovedStoryboardFrame(projectId: string, shotId: string): s
   return state.shots.get(shotId)?.approvedImageUrl;
 }
 
+/** Approved frames of the nearest approved shots before and after shotId in its scene. */
+export function getApprovedNeighborFrames(projectId: string, shotId: string): string[] {
+  const state = projectStateMap.get(projectId);
+  const current = state?.shots.get(shotId);
+  if (!state || !current) return [];
+  const sameScene = [...state.shots.values()].filter((s) =>
+    s.shotId !== shotId && s.approvedImageUrl && (!current.sceneId || s.sceneId === current.sceneId));
+  const before = sameScene
+    .filter((s) => s.sequenceOrder < current.sequenceOrder)
+    .sort((a, b) => b.sequenceOrder - a.sequenceOrder)[0];
+  const after = sameScene
+    .filter((s) => s.sequenceOrder > current.sequenceOrder)
+    .sort((a, b) => a.sequenceOrder - b.sequenceOrder)[0];
+  return [before, after].flatMap((s) => (s?.approvedImageUrl ? [s.approvedImageUrl] : []));
+}
+
 // ────────────────────────────────────────────────────────────────────────────
-// Serialization helpers for Supabase persistence
+// Serialization helpers for snapshots
 // Map / Set objects cannot be JSON.stringify'd directly.
 // ────────────────────────────────────────────────────────────────────────────
 
@@ -335,6 +821,7 @@ export interface SerializedPipelineState {
     status: RuntimeShotState['status'];
     lastImageUrl?: string;
     approvedImageUrl?: string;
+    approvedCandidateId?: string;
     bestCandidateId?: string;
     continuityScore?: number;
     narrativeScore?: number;
@@ -342,9 +829,13 @@ export interface SerializedPipelineState {
     violationTags: string[];
     regenerateReason?: string;
     history: RuntimeShotState['history'];
+    regenerationJobs?: ShotRegenerationRecord[];
   }>;
   createdAt: number;
   updatedAt: number;
+  /** Seq of the last event folded into this snapshot (absent on legacy rows). */
+  seq?: number;
+  stageHistory?: StageTransitionRecord[];
 }
 
 export function serializePipelineState(state: ProjectRuntimeState): SerializedPipelineState {
@@ -361,6 +852,7 @@ export function serializePipelineState(state: ProjectRuntimeState): SerializedPi
       status: s.status,
       lastImageUrl: s.lastImageUrl,
       approvedImageUrl: s.approvedImageUrl,
+      approvedCandidateId: s.approvedCandidateId,
       bestCandidateId: s.bestCandidateId,
       continuityScore: s.continuityScore,
       narrativeScore: s.narrativeScore,
@@ -368,9 +860,12 @@ export function serializePipelineState(state: ProjectRuntimeState): SerializedPi
       violationTags: s.violationTags,
       regenerateReason: s.regenerateReason,
       history: s.history,
+      regenerationJobs: s.regenerationJobs,
     })),
     createdAt: state.createdAt,
     updatedAt: state.updatedAt,
+    seq: state.seq,
+    stageHistory: state.stageHistory,
   };
 }
 
@@ -385,6 +880,7 @@ export function deserializePipelineState(raw: SerializedPipelineState): ProjectR
       status: s.status,
       lastImageUrl: s.lastImageUrl,
       approvedImageUrl: s.approvedImageUrl,
+      approvedCandidateId: s.approvedCandidateId,
       bestCandidateId: s.bestCandidateId,
       continuityScore: s.continuityScore,
       narrativeScore: s.narrativeScore,
@@ -392,6 +888,7 @@ export function deserializePipelineState(raw: SerializedPipelineState): ProjectR
       violationTags: s.violationTags,
       regenerateReason: s.regenerateReason,
       history: s.history || [],
+      regenerationJobs: s.regenerationJobs || [],
     });
   }
 
@@ -403,6 +900,8 @@ export function deserializePipelineState(raw: SerializedPipelineState): ProjectR
     shots,
     createdAt: raw.createdAt,
     updatedAt: raw.updatedAt,
+    seq: raw.seq || 0,
+    stageHistory: raw.stageHistory || [],
   };
 }
 
@@ -412,8 +911,30 @@ export function restorePipelineState(state: ProjectRuntimeState): ProjectRuntime
   return state;
 }
 
+/**
+ * Derives the storyboard-phase stage from shot progress after a shot event and
+ * records the move as a system transition. Once the storyboard gate has been
+ * passed, progress only moves the stage back when a shot is no longer approved.
+ */
+function reconcileStage(state: ProjectRuntimeState, event: PipelineEvent, reason: string): void {
+  const derived = computeStage(state);
+  if (derived === state.stage) return;
+  if (derived === 'storyboard_approved' && POST_STORYBOARD_STAGES.includes(state.stage)) return;
+
+  state.stageHistory.push({
+    seq: event.seq,
+    at: event.at,
+    from: state.stage,
+    to: derived,
+    transition: transitionNameFor(state.stage, derived),
+    actor: event.actor || 'system',
+    reason,
+  });
+  state.stage = derived;
+}
+
 function computeStage(state: ProjectRuntimeState): PipelineStage {
-  const shots = [...state.shots.values()];
+  const shots = activeShots(state);
   if (shots.length === 0) return 'shots_ready';
 
   const approved = shots.filter((s) => s.status === 'approved').length;
@@ -0,0 +1,376 @@
+/**
+ * lib/storyStructure.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Story structure templates: named beat slots with a target window, in percent
+ * of runtime, each mapped onto the coarse BeatPosition arc.
+ *
+ *   • planStructureSlots()  — which scene fills which slot, for the Story Brain
+ *                             prompt (generateStoryBrainPrompt) to write against
+ *   • checkStoryStructure() — which beats an existing project is missing, has
+ *                             in the wrong place, or lets run too long
+ *
+ * Slots tile 0–100% in order. Positions are measured on runtime (shot
+ * duration_sec), not on scene count, so a long scene moves every later beat.
+ * With fewer scenes than slots, the short slots are folded into a neighbouring
+ * scene (structure_also_covers) and count as carried by its shots.
+ * Templates are picked by id (project.structure_template); custom ones
+ * register the same way as verifier profiles.
+ */
+
+import type { BeatPosition } from '../types';
+
+export interface StructureBeatSlot {
+  /** Stored on scenes as structure_beat */
+  id: string;
+  label: string;
+  /** What the beat has to accomplish — quoted to the generator */
+  description: string;
+  act: number;
+  /** Target window, percent of runtime */
+  start_pct: number;
+  end_pct: number;
+  beat_position: BeatPosition;
+  /** Reported when missing, but does not fail the check */
+  optional?: boolean;
+}
+
+export interface StoryStructureTemplate {
+  id: string;
+  label: string;
+  description: string;
+  acts: number;
+  slots: StructureBeatSlot[];
+}
+
+// ─── Built-in templates ───────────────────────────────────────────────────────
+
+export const DEFAULT_STRUCTURE_TEMPLATE_ID = 'three_act';
+
+export const BUILTIN_STRUCTURE_TEMPLATES: StoryStructureTemplate[] = [
+  {
+    id: 'three_act',
+    label: 'Three-act',
+    description: 'Setup, confrontation, resolution, with the midpoint reversal splitting act two.',
+    acts: 3,
+    slots: [
+      { id: 'opening', label: 'Opening', description: 'Establish the world, the protagonist and what they want', act: 1, start_pct: 0, end_pct: 10, beat_position: 'opening' },
+      { id: 'inciting_incident', label: 'Inciting incident', description: 'An event upends the status quo and forces a choice', act: 1, start_pct: 10, end_pct: 25, beat_position: 'inciting_incident' },
+      { id: 'rising_action', label: 'Rising action', description: 'Pursuit of the goal; complications escalate', act: 2, start_pct: 25, end_pct: 45, beat_position: 'rising_action' },
+      { id: 'midpoint', label: 'Midpoint', description: 'A reversal or revelation raises the stakes', act: 2, start_pct: 45, end_pct: 55, beat_position: 'midpoint' },
+      { id: 'crisis', label: 'Crisis', description: 'Everything goes wrong; the protagonist hits their lowest point', act: 2, start_pct: 55, end_pct: 75, beat_position: 'crisis' },
+      { id: 'climax', label: 'Climax', description: 'The decisive confrontation; the protagonist changes or fails to', act: 3, start_pct: 75, end_pct: 90, beat_position: 'climax' },
+      { id: 'resolution', label: 'Resolution', description: 'The new status quo and what it cost', act: 3, start_pct: 90, end_pct: 100, beat_position: 'resolution' },
+    ],
+  },
+  {
+    id: 'save_the_cat',
+    label: 'Save the Cat (15 beats)',
+    description: 'Blake Snyder\'s beat sheet: fifteen beats at fixed points of the runtime.',
+    acts: 3,
+    slots: [
+      { id: 'opening_image', label: 'Opening image', description: 'A snapshot of the protagonist\'s "before" state', act: 1, start_pct: 0, end_pct: 2, beat_position: 'opening' },
+      { id: 'theme_stated', label: 'Theme stated', description: 'Someone states the lesson the protagonist has yet to learn', act: 1, start_pct: 2, end_pct: 5, beat_position: 'opening', optional: true },
+      { id: 'set_up', label: 'Set-up', description: 'The protagonist\'s world, flaws and what is missing from their life', act: 1, start_pct: 5, end_pct: 10, beat_position: 'opening' },
+      { id: 'catalyst', label: 'Catalyst', description: 'The life-changing event that knocks the protagonist out of their world', act: 1, start_pct: 10, end_pct: 12, beat_position: 'inciting_incident' },
+      { id: 'debate', label: 'Debate', description: 'The protagonist doubts, resists and weighs the journey ahead', act: 1, start_pct: 12, end_pct: 20, beat_position: 'inciting_incident' },
+      { id: 'break_into_two', label: 'Break into two', description: 'The protagonist chooses to act and enters the upside-down world', act: 2, start_pct: 20, end_pct: 23, beat_position: 'rising_action' },
+      { id: 'b_story', label: 'B story', description: 'A new relationship that carries the theme', act: 2, start_pct: 23, end_pct: 27, beat_position: 'rising_action', optional: true },
+      { id: 'fun_and_games', label: 'Fun and games', description: 'The promise of the premise: the protagonist explores the new world', act: 2, start_pct: 27, end_pct: 50, beat_position: 'rising_action' },
+      { id: 'midpoint', label: 'Midpoint', description: 'A false victory or false defeat; the stakes are raised', act: 2, start_pct: 50, end_pct: 55, beat_position: 'midpoint' },
+      { id: 'bad_guys_close_in', label: 'Bad guys close in', description: 'External pressure tightens while the team falls apart', act: 2, start_pct: 55, end_pct: 68, beat_position: 'crisis' },
+      { id: 'all_is_lost', label: 'All is lost', description: 'The lowest point; something or someone is lost', act: 2, start_pct: 68, end_pct: 72, beat_position: 'crisis' },
+      { id: 'dark_night_of_the_soul', label: 'Dark night of the soul', description: 'The protagonist mourns and finally faces the lesson', act: 2, start_pct: 72, end_pct: 77, beat_position: 'crisis' },
+      { id: 'break_into_three', label: 'Break into three', description: 'The insight that shows the way to a solution', act: 3, start_pct: 77, end_pct: 80, beat_position: 'climax' },
+      { id: 'finale', label: 'Finale', description: 'The protagonist applies the lesson and defeats the opposition', act: 3, start_pct: 80, end_pct: 97, beat_position: 'climax' },
+      { id: 'final_image', label: 'Final image', description: 'The "after" snapshot, mirroring the opening image', act: 3, start_pct: 97, end_pct: 100, beat_position: 'resolution' },
+    ],
+  },
+  {
+    id: 'heros_journey',
+    label: 'Hero\'s Journey',
+    description: 'Vogler\'s twelve stages: departure, initiation and return.',
+    acts: 3,
+    slots: [
+      { id: 'ordinary_world', label: 'Ordinary world', description: 'The hero at home, before the adventure', act: 1, start_pct: 0, end_pct: 10, beat_position: 'opening' },
+      { id: 'call_to_adventure', label: 'Call to adventure', description: 'A problem or challenge presents itself', act: 1, start_pct: 10, end_pct: 13, beat_position: 'inciting_incident' },
+      { id: 'refusal_of_the_call', label: 'Refusal of the call', description: 'Fear makes the hero hesitate', act: 1, start_pct: 13, end_pct: 17, beat_position: 'inciting_incident', optional: true },
+      { id: 'meeting_the_mentor', label: 'Meeting the mentor', description: 'Advice, training or a gift that prepares the hero', act: 1, start_pct: 17, end_pct: 22, beat_position: 'inciting_incident', optional: true },
+      { id: 'crossing_the_threshold', label: 'Crossing the threshold', description: 'The hero commits and enters the special world', act: 2, start_pct: 22, end_pct: 27, beat_position: 'rising_action' },
+      { id: 'tests_allies_enemies', label: 'Tests, allies, enemies', description: 'The hero learns the rules of the special world', act: 2, start_pct: 27, end_pct: 45, beat_position: 'rising_action' },
+      { id: 'approach', label: 'Approach to the inmost cave', description: 'Preparations for the central ordeal', act: 2, start_pct: 45, end_pct: 50, beat_position: 'rising_action' },
+      { id: 'ordeal', label: 'Ordeal', description: 'The hero faces their greatest fear; a death and rebirth', act: 2, start_pct: 50, end_pct: 60, beat_position: 'midpoint' },
+      { id: 'reward', label: 'Reward', description: 'The hero seizes the sword, the treasure or the knowledge', act: 2, start_pct: 60, end_pct: 72, beat_position: 'crisis' },
+      { id: 'road_back', label: 'The road back', description: 'The hero is pursued on the way home; stakes rise again', act: 3, start_pct: 72, end_pct: 80, beat_position: 'crisis' },
+      { id: 'resurrection', label: 'Resurrection', description: 'A final test where everything is at stake', act: 3, start_pct: 80, end_pct: 93, beat_position: 'climax' },
+      { id: 'return_with_elixir', label: 'Return with the elixir', description: 'The hero comes home transformed, carrying something for others', act: 3, start_pct: 93, end_pct: 100, beat_position: 'resolution' },
+    ],
+  },
+  {
+    id: 'kishotenketsu',
+    label: 'Kishōtenketsu',
+    description: 'Four parts without a central conflict: introduction, development, twist, reconciliation.',
+    acts: 4,
+    slots: [
+      { id: 'ki', label: 'Ki (introduction)', description: 'Introduce the characters and the world', act: 1, start_pct: 0, end_pct: 25, beat_position: 'opening' },
+      { id: 'sho', label: 'Shō (development)', description: 'Develop the situation without a major change', act: 2, start_pct: 25, end_pct: 50, beat_position: 'rising_action' },
+      { id: 'ten', label: 'Ten (twist)', description: 'An unexpected turn that recasts what came before', act: 3, start_pct: 50, end_pct: 80, beat_position: 'climax' },
+      { id: 'ketsu', label: 'Ketsu (reconciliation)', description: 'Bring the parts together into a new understanding', act: 4, start_pct: 80, end_pct: 100, beat_position: 'resolution' },
+    ],
+  },
+  {
+    id: 'five_act_tv',
+    label: '5-act TV',
+    description: 'One-hour episode: teaser, five acts each ending on an act-out, and a tag.',
+    acts: 5,
+    slots: [
+      { id: 'teaser', label: 'Teaser', description: 'A hook that poses the episode\'s question', act: 1, start_pct: 0, end_pct: 8, beat_position: 'opening' },
+      { id: 'act_one', label: 'Act one', description: 'The case or problem of the week; ends on an act-out', act: 1, start_pct: 8, end_pct: 25, beat_position: 'inciting_incident' },
+      { id: 'act_two', label: 'Act two', description: 'First attempts fail; complications stack; act-out', act: 2, start_pct: 25, end_pct: 43, beat_position: 'rising_action' },
+      { id: 'act_three', label: 'Act three', description: 'A midpoint twist changes the approach; act-out', act: 3, start_pct: 43, end_pct: 61, beat_position: 'midpoint' },
+      { id: 'act_four', label: 'Act four', description: 'The darkest turn; the strongest act-out', act: 4, start_pct: 61, end_pct: 79, beat_position: 'crisis' },
+      { id: 'act_five', label: 'Act five', description: 'Resolution of the episode\'s problem', act: 5, start_pct: 79, end_pct: 95, beat_position: 'climax' },
+      { id: 'tag', label: 'Tag', description: 'A closing beat that sets up the next episode', act: 5, start_pct: 95, end_pct: 100, beat_position: 'resolution', optional: true },
+    ],
+  },
+];
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+const templates = new Map<string, StoryStructureTemplate>(BUILTIN_STRUCTURE_TEMPLATES.map((t) => [t.id, t]));
+
+/** Registers (or replaces) a template under its id. Slots must tile 0–100 in order. */
+export function registerStructureTemplate(template: StoryStructureTemplate): void {
+  let cursor = 0;
+  for (const slot of template.slots) {
+    if (slot.start_pct !== cursor || slot.end_pct <= slot.start_pct) {
+      throw new Error(`Structure template "${template.id}": slot "${slot.id}" does not continue from ${cursor}%`);
+    }
+    cursor = slot.end_pct;
+  }
+  if (cursor !== 100) throw new Error(`Structure template "${template.id}": slots end at ${cursor}%, not 100%`);
+  templates.set(template.id, template);
+}
+
+export function getStructureTemplate(id: string): StoryStructureTemplate | undefined {
+  return templates.get(id);
+}
+
+export function listStructureTemplates(): StoryStructureTemplate[] {
+  return [...templates.values()];
+}
+
+// ─── Planning ─────────────────────────────────────────────────────────────────
+
+export interface StructureScenePlan {
+  scene_number: number;
+  /** Slot whose window holds the scene's centre — the scene's structure_beat */
+  slot: StructureBeatSlot;
+  /** Slots too short to get a scene of their own, folded into this one */
+  also_covers: StructureBeatSlot[];
+}
+
+const slotAt = (template: StoryStructureTemplate, pct: number): StructureBeatSlot =>
+  template.slots.find((s) => pct < s.end_pct) || template.slots[template.slots.length - 1];
+
+/**
+ * Spreads the template over sceneCount equal scenes. Every slot ends up with
+ * a scene: one whose centre falls in its window, or else the nearest one.
+ * chosenSlotIds keeps a scene's own pick (e.g. the generator's structure_beat)
+ * when it names a slot of the template; folding works around those picks.
+ */
+export function planStructureSlots(
+  template: StoryStructureTemplate,
+  sceneCount: number,
+  chosenSlotIds: Array<string | null | undefined> = []
+): StructureScenePlan[] {
+  const count = Math.max(1, Math.floor(sceneCount));
+  const centre = (idx: number) => ((idx + 0.5) / count) * 100;
+  const plan: StructureScenePlan[] = Array.from({ length: count }, (_, idx) => ({
+    scene_number: idx + 1,
+    slot: template.slots.find((s) => s.id === chosenSlotIds[idx]) || slotAt(template, centre(idx)),
+    also_covers: [],
+  }));
+
+  const primary = new Set(plan.map((p) => p.slot.id));
+  for (const slot of template.slots) {
+    if (primary.has(slot.id)) continue;
+    const mid = (slot.start_pct + slot.end_pct) / 2;
+    const nearest = plan.reduce((best, p) =>
+      Math.abs(centre(p.scene_number - 1) - mid) < Math.abs(centre(best.scene_number - 1) - mid) ? p : best);
+    nearest.also_covers.push(slot);
+  }
+  return plan;
+}
+
+// ─── Checking ─────────────────────────────────────────────────────────────────
+
+export type StructureBeatIssue = 'missing' | 'misplaced' | 'overlong';
+
+export interface StructureBeatReport {
+  slot_id: string;
+  label: string;
+  act: number;
+  optional: boolean;
+  target_start_pct: number;
+  target_end_pct: number;
+  /** First and last runtime point the beat's shots cover; absent when missing */
+  actual_start_pct?: number;
+  actual_end_pct?: number;
+  /** Share of the runtime the beat's shots take up; shots carrying several beats split theirs */
+  share_pct: number;
+  scene_ids: string[];
+  shot_count: number;
+  issues: StructureBeatIssue[];
+  notes: string[];
+}
+
+export interface StructureCheckReport {
+  template_id: string;
+  total_duration_sec: number;
+  beats: StructureBeatReport[];
+  /** Required slots with no shots (optional ones are only in beats[]) */
+  missing: string[];
+  misplaced: string[];
+  overlong: string[];
+  /** Shots with neither structure_beat, structure_also_covers nor act_position */
+  unassigned_shot_ids: string[];
+  /** Share of the runtime assigned to a beat */
+  coverage_pct: number;
+  pass: boolean;
+}
+
+export interface StructureCheckOptions {
+  /** Percentage points a beat may sit outside its window (default 5) */
+  tolerance_pct?: number;
+  /** A beat is overlong past this multiple of its target span (default 1.5) */
+  overlong_ratio?: number;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const shotKey = (shot: any, idx: number): string => String(shot?.shot_id || shot?.id || `shot-${idx + 1}`);
+const shotDuration = (shot: any): number => {
+  const d = Number(shot?.duration_sec);
+  return Number.isFinite(d) && d > 0 ? d : 4;
+};
+
+/**
+ * Places every shot on the runtime and measures each beat against its slot.
+ * A shot belongs to the slot in its structure_beat; without one, its
+ * act_position picks the slot of that BeatPosition nearest to where it sits.
+ * It also carries the slots folded into its scene (structure_also_covers):
+ * they count for presence and position, and the shot's runtime is shared
+ * between all its slots in proportion to their target spans.
+ */
+export function checkStoryStructure(
+  template: StoryStructureTemplate,
+  shots: any[],
+  opts: StructureCheckOptions = {}
+): StructureCheckReport {
+  const tolerance = opts.tolerance_pct ?? 5;
+  const overlongRatio = opts.overlong_ratio ?? 1.5;
+  const total = shots.reduce((acc, s) => acc + shotDuration(s), 0);
+  const slotById = new Map(template.slots.map((s) => [s.id, s]));
+
+  type Placed = { shot_id: string; scene_id: string; start: number; end: number; folded: boolean; weight: number };
+  const bySlot = new Map<string, Placed[]>();
+  const place = (slotId: string, placed: Placed) => bySlot.set(slotId, [...(bySlot.get(slotId) || []), placed]);
+  const unassigned: string[] = [];
+  let assigned = 0;
+  let elapsed = 0;
+  shots.forEach((shot, idx) => {
+    const start = total ? (elapsed / total) * 100 : 0;
+    elapsed += shotDuration(shot);
+    const end = total ? (elapsed / total) * 100 : 0;
+
+    let slot = slotById.get(String(shot?.structure_beat || ''));
+    if (!slot && shot?.act_position) {
+      const mid = (start + end) / 2;
+      const distance = (s: StructureBeatSlot) => (mid < s.start_pct ? s.start_pct - mid : mid > s.end_pct ? mid - s.end_pct : 0);
+      slot = template.slots
+        .filter((s) => s.beat_position === shot.act_position)
+        .sort((a, b) => distance(a) - distance(b))[0];
+    }
+    const folded = (Array.isArray(shot?.structure_also_covers) ? shot.structure_also_covers : [])
+      .map((id: any) => slotById.get(String(id)))
+      .filter((s: StructureBeatSlot | undefined): s is StructureBeatSlot => !!s && s.id !== slot?.id);
+    if (!slot && folded.length === 0) {
+      unassigned.push(shotKey(shot, idx));
+      return;
+    }
+    const base = { shot_id: shotKey(shot, idx), scene_id: String(shot?.scene_id || shot?.source_scene_id || shotKey(shot, idx)), start, end };
+    const span = (s: StructureBeatSlot) => s.end_pct - s.start_pct;
+    const carried = (slot ? span(slot) : 0) + folded.reduce((acc: number, s: StructureBeatSlot) => acc + span(s), 0);
+    if (slot) place(slot.id, { ...base, folded: false, weight: span(slot) / carried });
+    for (const s of folded) place(s.id, { ...base, folded: true, weight: span(s) / carried });
+    assigned += end - start;
+  });
+
+  const beats = template.slots.map((slot): StructureBeatReport => {
+    const placed = bySlot.get(slot.id) || [];
+    const base = {
+      slot_id: slot.id,
+      label: slot.label,
+      act: slot.act,
+      optional: !!slot.optional,
+      target_start_pct: slot.start_pct,
+      target_end_pct: slot.end_pct,
+    };
+    if (placed.length === 0) {
+      return { ...base, share_pct: 0, scene_ids: [], shot_count: 0, issues: ['missing'], notes: [`no shot carries the ${slot.label} beat`] };
+    }
+
+    const actualStart = Math.min(...placed.map((p) => p.start));
+    const actualEnd = Math.max(...placed.map((p) => p.end));
+    const covered = placed.reduce((acc, p) => acc + (p.end - p.start), 0);
+    const share = placed.reduce((acc, p) => acc + (p.end - p.start) * p.weight, 0);
+    const targetSpan = slot.end_pct - slot.start_pct;
+    const issues: StructureBeatIssue[] = [];
+    const notes: string[] = [];
+
+    if (actualStart > slot.end_pct + tolerance) {
+      issues.push('misplaced');
+      notes.push(`starts at ${round1(actualStart)}%, after its ${slot.start_pct}–${slot.end_pct}% window`);
+    } else if (actualEnd < slot.start_pct - tolerance) {
+      issues.push('misplaced');
+      notes.push(`ends at ${round1(actualEnd)}%, before its ${slot.start_pct}–${slot.end_pct}% window`);
+    }
+    // Split across the film: the gap is as telling as the position
+    if (actualEnd - actualStart > covered + targetSpan + tolerance && !issues.includes('misplaced')) {
+      issues.push('misplaced');
+      notes.push(`scattered between ${round1(actualStart)}% and ${round1(actualEnd)}%`);
+    }
+    if (share > Math.max(targetSpan * overlongRatio, targetSpan + tolerance)) {
+      issues.push('overlong');
+      notes.push(`takes ${round1(share)}% of the runtime against a ${targetSpan}% target`);
+    }
+    if (placed.every((p) => p.folded)) notes.push('folded into a neighbouring beat\'s scene');
+
+    return {
+      ...base,
+      actual_start_pct: round1(actualStart),
+      actual_end_pct: round1(actualEnd),
+      share_pct: round1(share),
+      scene_ids: [...new Set(placed.map((p) => p.scene_id))],
+      shot_count: placed.length,
+      issues,
+      notes,
+    };
+  });
+
+  const withIssue = (issue: StructureBeatIssue) => beats.filter((b) => b.issues.includes(issue)).map((b) => b.slot_id);
+  const missing = beats.filter((b) => b.issues.includes('missing') && !b.optional).map((b) => b.slot_id);
+  const misplaced = withIssue('misplaced');
+  const overlong = withIssue('overlong');
+
+  return {
+    template_id: template.id,
+    total_duration_sec: round1(total),
+    beats,
+    missing,
+    misplaced,
+    overlong,
+    unassigned_shot_ids: unassigned,
+    coverage_pct: round1(Math.min(100, assigned)),
+    pass: shots.length > 0 && missing.length === 0 && misplaced.length === 0 && overlong.length === 0,
+  };
+}
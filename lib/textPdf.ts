@@ -0,0 +1,156 @@
+/**
+ * textPdf.ts — Dependency-free PDF writer for text reports
+ *
+ * Lays out a list of text lines on A4 landscape pages with the PDF base-14
+ * Helvetica fonts: wraps long lines, breaks pages, and numbers them. Enough
+ * for printable logs; no images, no tables.
+ *
+ * Base-14 fonts only cover WinAnsi (Latin-1). Chinese and other BMP text goes
+ * through STSong-Light, the Adobe-GB1 CID font every PDF reader ships or
+ * substitutes (UniGB-UTF16-H), so it needs no font file. Common typographic
+ * punctuation becomes ASCII; characters outside the BMP (emoji) become '?'.
+ */
+
+export interface PdfTextLine {
+  text: string;
+  /** Points; default 9 */
+  size?: number;
+  bold?: boolean;
+  /** RGB 0–1; default black */
+  color?: [number, number, number];
+  /** Extra space above the line, in points */
+  spaceBefore?: number;
+  /** Left indent in points */
+  indent?: number;
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  /** Printed at the bottom of every page, before the page number */
+  footer?: string;
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const LINE_GAP = 1.35;
+// Helvetica's mean advance is ~0.5 em; bold runs a little wider
+const AVG_CHAR_EM = { regular: 0.5, bold: 0.55 };
+
+const PUNCTUATION: Record<string, string> = {
+  '—': '-', '–': '-', '‘': "'", '’': "'", '“': '"', '”': '"',
+  '…': '...', '•': '*', '→': '->', '←': '<-', '✓': 'v', '✗': 'x',
+};
+
+/** Normalises whitespace and punctuation; keeps Latin-1 and BMP text, '?' for the rest. */
+export function toPdfText(text: string): string {
+  let out = '';
+  for (const ch of text.replace(/\s+/g, ' ')) {
+    if (PUNCTUATION[ch]) out += PUNCTUATION[ch];
+    else out += ch.length === 1 ? ch : '?';
+  }
+  return out;
+}
+
+const isWide = (ch: string) => ch.charCodeAt(0) >= 256;
+
+/** Width in Helvetica average-advance units; CID glyphs are a full em, ~2 units. */
+const textUnits = (text: string) => Array.from(text).reduce((n, ch) => n + (isWide(ch) ? 2 : 1), 0);
+
+const escapePdfString = (text: string) => text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const utf16Hex = (text: string) =>
+  Array.from(text).map((ch) => ch.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')).join('');
+
+/** Text-showing operators: Latin-1 runs in the Helvetica font, the rest in the CID font. */
+function showText(text: string, font: string, size: number, bold: boolean): string {
+  const runs = text.match(/[\u0000-\u00ff]+|[^\u0000-\u00ff]+/g) || [];
+  return runs.map((run) => isWide(run)
+    // No bold CID face: fill and stroke the outline instead
+    ? `/F3 ${size} Tf ${bold ? '2 Tr ' : ''}<${utf16Hex(run)}> Tj${bold ? ' 0 Tr' : ''}`
+    : `${font} ${size} Tf (${escapePdfString(run)}) Tj`).join(' ');
+}
+
+function wrap(text: string, maxUnits: number): string[] {
+  // CJK text has no spaces; every wide character is a break opportunity
+  const tokens = text.match(/ |[^\u0000-\u00ff]|[^ \u0100-\uffff]+/g) || [];
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    if (token === ' ' && !current) continue;
+    if (textUnits(current) + textUnits(token) <= maxUnits) current += token;
+    else {
+      if (current.trim()) lines.push(current.trimEnd());
+      current = token === ' ' ? '' : token;
+    }
+    while (textUnits(current) > maxUnits) {
+      lines.push(current.slice(0, maxUnits));
+      current = current.slice(maxUnits);
+    }
+  }
+  if (current.trim() || lines.length === 0) lines.push(current.trimEnd());
+  return lines;
+}
+
+/** Renders the lines into a complete PDF file. */
+export function renderTextPdf(lines: PdfTextLine[], opts: PdfDocumentOptions = {}): Buffer {
+  // ── Layout: wrap and paginate ──────────────────────────────────────────────
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const bottom = MARGIN + 20; // room for the footer
+  for (const line of lines) {
+    const size = line.size ?? 9;
+    const indent = line.indent ?? 0;
+    const em = line.bold ? AVG_CHAR_EM.bold : AVG_CHAR_EM.regular;
+    const maxUnits = Math.max(10, Math.floor((PAGE_WIDTH - 2 * MARGIN - indent) / (size * em)));
+    const color = (line.color || [0, 0, 0]).map((c) => c.toFixed(3)).join(' ');
+    const font = line.bold ? '/F2' : '/F1';
+    y -= line.spaceBefore ?? 0;
+    for (const segment of wrap(toPdfText(line.text), maxUnits)) {
+      if (y - size < bottom) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= size;
+      pages[pages.length - 1].push(
+        `BT ${color} rg ${color} RG 0.3 w ${(MARGIN + indent).toFixed(1)} ${y.toFixed(1)} Td ${showText(segment, font, size, !!line.bold)} ET`,
+      );
+      y -= size * (LINE_GAP - 1);
+    }
+  }
+
+  // ── Objects: 1 catalog, 2 page tree, 3–4 fonts, 5 info, 6–8 CID font, then page + content pairs
+  const footer = toPdfText(opts.footer || '');
+  const objects: string[] = [];
+  const pageRefs = pages.map((_, i) => `${9 + i * 2} 0 R`);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(`<< /Title <FEFF${utf16Hex(toPdfText(opts.title || 'Report'))}> /Producer (textPdf) >>`);
+  objects.push('<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UTF16-H /DescendantFonts [7 0 R] >>');
+  objects.push('<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light /CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 4 >> /FontDescriptor 8 0 R /DW 1000 >>');
+  objects.push('<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>');
+  pages.forEach((ops, i) => {
+    const pageLabel = `${footer ? `${footer}  -  ` : ''}Page ${i + 1} / ${pages.length}`;
+    const content = [
+      ...ops,
+      `BT 0.4 0.4 0.4 rg ${MARGIN} ${MARGIN - 10} Td ${showText(pageLabel, '/F1', 7, false)} ET`,
+    ].join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 6 0 R >> >> /Contents ${10 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  // ── Serialise with a byte-accurate xref table ──────────────────────────────
+  let body = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+  objects.forEach((obj, i) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+  });
+  const xrefAt = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+  return Buffer.from(body, 'latin1');
+}
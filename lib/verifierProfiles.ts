@@ -0,0 +1,296 @@
+/**
+ * lib/verifierProfiles.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Named profiles for the canonical prompt verifier (canonicalPromptRewriter.ts).
+ *
+ * The verifier's 8 dimensions and thresholds were tuned for dialogue dramas.
+ * A profile re-weights them per project:
+ *   • enabled   — a disabled dimension is not scored and cannot fail the shot
+ *   • weight    — multiplies the 0–5 score in the total (and in the maximum)
+ *   • min_score — the shot fails below it; for beat / action / removal this is
+ *                 also the hard-fail line (NOT_SCREENPLAY_BOUND, etc.)
+ *   • pass_ratio — weighted total must reach this share of the weighted maximum
+ *
+ * Profiles are picked by id (project.verifier_profile) or by ProjectType.
+ * Extra dimensions register as plugins and only run in profiles that enable them.
+ * The profile id is recorded on every VerifierResult next to the score.
+ */
+
+import type { ProjectType } from '../types';
+import type { ShotDifferenceContract, VerifierDimension, VerifierHardFail } from './canonicalPromptRewriter';
+
+export type BuiltinVerifierDimension =
+  | 'screenplay_beat_match'
+  | 'action_visibility'
+  | 'location_evidence'
+  | 'character_correctness'
+  | 'threat_object_correctness'
+  | 'continuity_correctness'
+  | 'non_genericity'
+  | 'screenplay_removal_value';
+
+export const BUILTIN_VERIFIER_DIMENSIONS: BuiltinVerifierDimension[] = [
+  'screenplay_beat_match',
+  'action_visibility',
+  'location_evidence',
+  'character_correctness',
+  'threat_object_correctness',
+  'continuity_correctness',
+  'non_genericity',
+  'screenplay_removal_value',
+];
+
+export type VerifierHardFailCode =
+  | 'MISSING_SPECIFIC_ACTION'
+  | 'MISSING_UNIQUE_INFO'
+  | 'MISSING_VISUAL_DELTA'
+  | 'GENERIC_PORTRAIT'
+  | 'NOT_SCREENPLAY_BOUND';
+
+export interface VerifierDimensionSetting {
+  /** Built-ins default to enabled, plugins to disabled */
+  enabled?: boolean;
+  /** Default 1 */
+  weight?: number;
+  /** 0–5; unset = no per-dimension floor */
+  min_score?: number;
+}
+
+export interface VerifierProfile {
+  id: string;
+  label: string;
+  description: string;
+  dimensions: Partial<Record<BuiltinVerifierDimension, VerifierDimensionSetting>> & Record<string, VerifierDimensionSetting>;
+  /** 0.7 = 28/40 when all 8 dimensions weigh 1 */
+  pass_ratio: number;
+  /** Hard fails this profile never raises */
+  disabled_hard_fails?: VerifierHardFailCode[];
+}
+
+export interface VerifierDimensionContext {
+  prompt: string;
+  shot: any;
+  scene: any;
+  mustShow: string[];
+  sdc?: ShotDifferenceContract;
+}
+
+/** A custom dimension. Runs only in profiles that set `dimensions[name].enabled`. */
+export interface VerifierDimensionPlugin {
+  name: string;
+  description?: string;
+  score(ctx: VerifierDimensionContext): { score: number; reason: string };
+  /** Raised when the score is below the profile's min_score for this dimension */
+  hard_fail?: VerifierHardFail;
+}
+
+// ─── Built-in profiles ────────────────────────────────────────────────────────
+
+export const DEFAULT_VERIFIER_PROFILE_ID = 'dialogue_drama';
+
+export const BUILTIN_VERIFIER_PROFILES: VerifierProfile[] = [
+  {
+    id: 'dialogue_drama',
+    label: 'Dialogue drama',
+    description: 'Character-led scenes: every shot must carry a screenplay beat and a specific physical action.',
+    dimensions: {
+      screenplay_beat_match:    { min_score: 4 },
+      action_visibility:        { min_score: 3 },
+      non_genericity:           { min_score: 4 },
+      screenplay_removal_value: { min_score: 3 },
+    },
+    pass_ratio: 0.7,
+  },
+  {
+    id: 'environment_driven',
+    label: 'Environment',
+    description: 'Landscapes and worlds carry the story; a shot may have no actor performing a verb.',
+    dimensions: {
+      screenplay_beat_match:     { min_score: 3 },
+      action_visibility:         { weight: 0.5 },
+      location_evidence:         { weight: 2, min_score: 3 },
+      character_correctness:     { weight: 0.5 },
+      threat_object_correctness: { weight: 1.5 },
+      non_genericity:            { min_score: 4 },
+      screenplay_removal_value:  { min_score: 3 },
+    },
+    pass_ratio: 0.65,
+  },
+  {
+    id: 'destruction_driven',
+    label: 'Destruction / spectacle',
+    description: 'Scale, threat and physical events dominate; cast presence matters less.',
+    dimensions: {
+      screenplay_beat_match:     { min_score: 3 },
+      action_visibility:         { weight: 1.5, min_score: 3 },
+      character_correctness:     { weight: 0.5 },
+      threat_object_correctness: { weight: 2, min_score: 3 },
+      non_genericity:            { min_score: 4 },
+      screenplay_removal_value:  { min_score: 3 },
+    },
+    pass_ratio: 0.7,
+  },
+  {
+    id: 'architecture_driven',
+    label: 'Architecture',
+    description: 'Buildings and spaces are the subject; no character action is expected.',
+    dimensions: {
+      screenplay_beat_match:    { min_score: 3 },
+      action_visibility:        { enabled: false },
+      character_correctness:    { enabled: false },
+      location_evidence:        { weight: 2, min_score: 3 },
+      continuity_correctness:   { weight: 1.5 },
+      non_genericity:           { min_score: 4 },
+      screenplay_removal_value: { min_score: 3 },
+    },
+    pass_ratio: 0.65,
+  },
+  {
+    id: 'object_driven',
+    label: 'Object / product',
+    description: 'A prop or product is the hero; inserts must name it.',
+    dimensions: {
+      screenplay_beat_match:     { min_score: 3 },
+      action_visibility:         { min_score: 2 },
+      character_correctness:     { weight: 0.5 },
+      threat_object_correctness: { weight: 2, min_score: 4 },
+      non_genericity:            { min_score: 4 },
+      screenplay_removal_value:  { min_score: 3 },
+    },
+    pass_ratio: 0.7,
+  },
+];
+
+export const VERIFIER_PROFILE_BY_PROJECT_TYPE: Record<ProjectType, string> = {
+  character_driven:    'dialogue_drama',
+  environment_driven:  'environment_driven',
+  destruction_driven:  'destruction_driven',
+  architecture_driven: 'architecture_driven',
+  object_driven:       'object_driven',
+  hybrid:              'dialogue_drama',
+};
+
+// ─── Registries ───────────────────────────────────────────────────────────────
+
+const profiles = new Map<string, VerifierProfile>(BUILTIN_VERIFIER_PROFILES.map((p) => [p.id, p]));
+const plugins = new Map<string, VerifierDimensionPlugin>();
+
+/** Registers (or replaces) a profile under its id. */
+export function registerVerifierProfile(profile: VerifierProfile): void {
+  profiles.set(profile.id, profile);
+}
+
+export function getVerifierProfile(id: string): VerifierProfile | undefined {
+  return profiles.get(id);
+}
+
+export function listVerifierProfiles(): VerifierProfile[] {
+  return [...profiles.values()];
+}
+
+/** Registers (or replaces) a custom dimension. Built-in names are reserved. */
+export function registerVerifierDimension(plugin: VerifierDimensionPlugin): void {
+  if ((BUILTIN_VERIFIER_DIMENSIONS as string[]).includes(plugin.name)) {
+    throw new Error(`Verifier dimension "${plugin.name}" is built in and cannot be replaced`);
+  }
+  plugins.set(plugin.name, plugin);
+}
+
+export function listVerifierDimensionPlugins(): VerifierDimensionPlugin[] {
+  return [...plugins.values()];
+}
+
+export const DEFAULT_VERIFIER_PROFILE: VerifierProfile = profiles.get(DEFAULT_VERIFIER_PROFILE_ID)!;
+
+/**
+ * The profile for a project: an explicit id wins, then the ProjectType mapping,
+ * then dialogue_drama. Unknown ids fall through rather than fail.
+ */
+export function resolveVerifierProfile(opts: {
+  profile?: string | VerifierProfile | null;
+  projectType?: string | null;
+} = {}): VerifierProfile {
+  if (opts.profile && typeof opts.profile === 'object') return opts.profile;
+  const byId = typeof opts.profile === 'string' ? profiles.get(opts.profile) : undefined;
+  if (byId) return byId;
+  const typeId = opts.projectType ? VERIFIER_PROFILE_BY_PROJECT_TYPE[opts.projectType as ProjectType] : undefined;
+  return (typeId && profiles.get(typeId)) || DEFAULT_VERIFIER_PROFILE;
+}
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+export function dimensionSetting(profile: VerifierProfile, name: string): Required<Pick<VerifierDimensionSetting, 'enabled' | 'weight'>> & { min_score?: number } {
+  const setting = profile.dimensions[name] || {};
+  const builtin = (BUILTIN_VERIFIER_DIMENSIONS as string[]).includes(name);
+  return {
+    enabled: setting.enabled ?? builtin,
+    weight: setting.weight ?? 1,
+    min_score: setting.min_score,
+  };
+}
+
+export function hardFailEnabled(profile: VerifierProfile, code: VerifierHardFailCode): boolean {
+  return !profile.disabled_hard_fails?.includes(code);
+}
+
+export interface ProfiledVerifierScore {
+  /** Enabled dimensions only, built-ins first, each with its weight */
+  dimensions: VerifierDimension[];
+  total: number;
+  max_total: number;
+  /** Weighted total needed to pass */
+  threshold: number;
+  /** Enabled dimensions scoring under their min_score */
+  below_min: Array<{ name: string; score: number; min_score: number }>;
+  /** Hard fails raised by plugins */
+  plugin_hard_fails: VerifierHardFail[];
+}
+
+/**
+ * Applies a profile to the raw built-in scores: drops disabled dimensions,
+ * runs enabled plugins, and weighs everything into total / max_total.
+ */
+export function scoreWithProfile(
+  builtin: VerifierDimension[],
+  profile: VerifierProfile,
+  ctx: VerifierDimensionContext,
+): ProfiledVerifierScore {
+  const dimensions: VerifierDimension[] = [];
+  const pluginHardFails: VerifierHardFail[] = [];
+
+  for (const dim of builtin) {
+    const setting = dimensionSetting(profile, dim.name);
+    if (setting.enabled) dimensions.push({ ...dim, weight: setting.weight });
+  }
+  for (const plugin of plugins.values()) {
+    const setting = dimensionSetting(profile, plugin.name);
+    if (!setting.enabled) continue;
+    let result: { score: number; reason: string };
+    try {
+      result = plugin.score(ctx);
+    } catch (err: any) {
+      result = { score: 0, reason: `plugin error: ${err?.message || String(err)}` };
+    }
+    const score = Math.max(0, Math.min(5, Math.round(result.score)));
+    dimensions.push({ name: plugin.name, score, reason: result.reason, weight: setting.weight });
+    if (plugin.hard_fail && setting.min_score != null && score < setting.min_score) {
+      pluginHardFails.push(plugin.hard_fail);
+    }
+  }
+
+  const total = dimensions.reduce((acc, d) => acc + d.score * (d.weight ?? 1), 0);
+  const maxTotal = dimensions.reduce((acc, d) => acc + 5 * (d.weight ?? 1), 0);
+  const belowMin = dimensions.flatMap((d) => {
+    const min = dimensionSetting(profile, d.name).min_score;
+    return min != null && d.score < min ? [{ name: d.name, score: d.score, min_score: min }] : [];
+  });
+
+  return {
+    dimensions,
+    total: Math.round(total),
+    max_total: Math.round(maxTotal),
+    threshold: Math.round(maxTotal * profile.pass_ratio),
+    below_min: belowMin,
+    plugin_hard_fails: pluginHardFails,
+  };
+}
@@ -5,7 +5,8 @@
  * Downloads all video segments, concatenates them with FFmpeg, and uploads the
  * result to Supabase Storage.
  * 
- * Supports: ordered concatenation, crossfade transitions, audio overlay (BGM + voiceover)
+ * Supports: ordered concatenation, crossfade transitions, audio overlay (BGM + voiceover),
+ * per-segment corrective colour grades
  */
 
 import { createWriteStream, promises as fs, existsSync } from 'fs';
@@ -13,6 +14,8 @@ import { join } from 'path';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 import { createClient } from '@supabase/supabase-js';
+import { resolveLocalMediaUrl } from './localGenerationProvider.js';
+import { colorGradeFilter, type ColorGrade } from './paletteConsistency.js';
 
 const execFileAsync = promisify(execFile);
 
@@ -26,6 +29,7 @@ export interface StitchSegment {
     audio_url?: string;       // Per-segment voiceover
     subtitle_text?: string;   // For future subtitle embedding
     duration?: number;        // Estimated duration in seconds
+    grade?: ColorGrade;       // Corrective grade from the palette consistency report
 }
 
 export interface StitchOptions {
@@ -113,6 +117,13 @@ function getFFmpegPath(): string {
 // ═══════════════════════════════════════════════════════════════
 
 async function downloadFile(url: string, destPath: string): Promise<void> {
+    // Clips rendered by the local generation provider are already on disk
+    const localPath = resolveLocalMediaUrl(url);
+    if (localPath) {
+        await fs.copyFile(localPath, destPath);
+        return;
+    }
+
     const response = await fetch(url, {
         headers: { 'User-Agent': 'Mozilla/5.0 (compatible; AI-Cine-Director/1.0)' }
     });
@@ -146,6 +157,33 @@ async function probeVideoDuration(ffmpegPath: string, videoPath: string): Promis
     }
 }
 
+// ═══════════════════════════════════════════════════════════════
+// Per-segment colour grade
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Re-encodes one segment with its corrective grade before concatenation.
+ * Returns the graded file, or the ungraded one if the grade is identity or fails.
+ */
+async function applyGrade(ffmpegPath: string, inputPath: string, grade: ColorGrade): Promise<string> {
+    const filter = colorGradeFilter(grade);
+    if (!filter) return inputPath;
+    const gradedPath = inputPath.replace(/\.\w+$/, '_graded.mp4');
+    try {
+        await execFileAsync(ffmpegPath, [
+            '-i', inputPath,
+            '-vf', filter,
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '18', '-pix_fmt', 'yuv420p',
+            '-c:a', 'aac', '-b:a', '192k',
+            '-y', gradedPath,
+        ], { timeout: 120000, maxBuffer: 10 * 1024 * 1024 });
+        return gradedPath;
+    } catch (err: any) {
+        console.warn('[VideoStitcher] Grade failed (non-fatal), using ungraded segment:', err.message?.substring(0, 200));
+        return inputPath;
+    }
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Main stitching function
 // ═══════════════════════════════════════════════════════════════
@@ -200,7 +238,7 @@ export async function stitchVideos(
             
             try {
                 await downloadFile(seg.video_url, localPath);
-                localPaths.push(localPath);
+                localPaths.push(seg.grade ? await applyGrade(ffmpegPath, localPath, seg.grade) : localPath);
                 console.log(`[VideoStitcher] Downloaded segment ${i + 1}/${segments.length}`);
             } catch (err: any) {
                 console.error(`[VideoStitcher] Failed to download segment ${i + 1}:`, err.message);
@@ -0,0 +1,83 @@
+/**
+ * golden-corpus — regression guard for shotPromptCompiler / canonicalPromptRewriter
+ *
+ * 用法：
+ *   npx tsx scripts/golden-corpus.ts                 # check every case
+ *   npx tsx scripts/golden-corpus.ts check <id...>   # check selected cases
+ *   npx tsx scripts/golden-corpus.ts approve         # re-record every snapshot
+ *   npx tsx scripts/golden-corpus.ts approve <id...> # re-record selected cases
+ *   add --json to print the full report as JSON
+ *
+ * Cases:     scripts/golden/cases/<id>.json      (GoldenCase)
+ * Snapshots: scripts/golden/snapshots/<id>.json  (GoldenSnapshot)
+ *
+ * check exits 1 when any case drifts beyond its tolerance or has no snapshot.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  compareGoldenCase,
+  formatGoldenReport,
+  recordGoldenCase,
+  summarizeGoldenRun,
+  type GoldenCase,
+  type GoldenSnapshot,
+} from '../lib/goldenCorpus';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), 'golden');
+const CASES_DIR = path.join(ROOT, 'cases');
+const SNAPSHOTS_DIR = path.join(ROOT, 'snapshots');
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+function loadCases(ids: string[]): GoldenCase[] {
+  const cases = fs.readdirSync(CASES_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .map((f) => readJson<GoldenCase>(path.join(CASES_DIR, f)));
+  if (ids.length === 0) return cases;
+  const unknown = ids.filter((id) => !cases.some((c) => c.id === id));
+  if (unknown.length > 0) {
+    console.error(`Unknown case(s): ${unknown.join(', ')}`);
+    process.exit(2);
+  }
+  return cases.filter((c) => ids.includes(c.id));
+}
+
+function snapshotPath(id: string): string {
+  return path.join(SNAPSHOTS_DIR, `${id}.json`);
+}
+
+function loadSnapshot(id: string): GoldenSnapshot | null {
+  const file = snapshotPath(id);
+  return fs.existsSync(file) ? readJson<GoldenSnapshot>(file) : null;
+}
+
+// ─── 执行 ────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+const asJson = args.includes('--json');
+const positional = args.filter((a) => !a.startsWith('--'));
+const command = positional[0] === 'approve' || positional[0] === 'check' ? positional.shift()! : 'check';
+const cases = loadCases(positional);
+
+if (command === 'approve') {
+  fs.mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+  for (const goldenCase of cases) {
+    const report = compareGoldenCase(goldenCase, loadSnapshot(goldenCase.id));
+    fs.writeFileSync(snapshotPath(goldenCase.id), `${JSON.stringify(report.snapshot, null, 2)}\n`);
+    console.log(`approved ${goldenCase.id} (${report.status}, ${report.snapshot.shots.length} shots, ${report.drifts.length} changes)`);
+  }
+} else {
+  const report = summarizeGoldenRun(cases.map((c) => compareGoldenCase(c, loadSnapshot(c.id))));
+  if (asJson) {
+    console.log(JSON.stringify({ ...report, cases: report.cases.map(({ snapshot, ...rest }) => rest) }, null, 2));
+  } else {
+    console.log(formatGoldenReport(report));
+  }
+  process.exit(report.failed > 0 || report.missing > 0 ? 1 : 0);
+}
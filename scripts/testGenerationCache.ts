@@ -0,0 +1,130 @@
+/**
+ * testGenerationCache — 生成缓存的 pending 命中与过期测试
+ *
+ * 用法：
+ *   npx tsx scripts/testGenerationCache.ts
+ *
+ * 用内存 GenerationCacheStore 校验 lib/generationCache.ts 的命中规则：
+ *   - 等待中的 prediction 只有在 acceptPending 时才算命中，超过 30 分钟视为丢失；
+ *   - prediction 结算后条目变为 ready，失败则删除；
+ *   - replicate.delivery 等临时地址的输出 50 分钟后过期并被删除，永久地址不过期；
+ *   - 没有 seed 的请求不写入缓存。
+ */
+
+import assert from 'node:assert/strict';
+import {
+  canonicalGenerationRequest,
+  configureGenerationCache,
+  generationCacheKey,
+  getGenerationCacheEntry,
+  lookupGenerationCache,
+  settleCachedPrediction,
+  storeGenerationResult,
+  type GenerationCacheRequest,
+} from '../lib/generationCache';
+import { createMemoryGenerationCacheStore } from '../lib/generationCacheStore';
+
+const USER_ID = 'user-cache-test';
+const MINUTE = 60_000;
+
+function request(prompt: string, seed: number | null = 42): GenerationCacheRequest {
+  return { kind: 'prediction', provider: 'replicate', model: 'test/model', prompt, aspectRatio: '16:9', seed };
+}
+
+function keyed(req: GenerationCacheRequest) {
+  const canonical = canonicalGenerationRequest(req);
+  return { canonical, key: generationCacheKey(canonical) };
+}
+
+/** 把条目的 updated_at 往前拨，模拟时间流逝 */
+async function age(store: ReturnType<typeof createMemoryGenerationCacheStore>, key: string, ms: number) {
+  const entry = await store.get(USER_ID, key);
+  assert.ok(entry, `条目 ${key} 不存在`);
+  await store.put({ ...entry, updated_at: new Date(Date.now() - ms).toISOString() });
+}
+
+async function main() {
+  delete process.env.GENERATION_CACHE;
+  const store = createMemoryGenerationCacheStore();
+  configureGenerationCache(store);
+
+  // ─── pending 命中 ───────────────────────────────────────
+  const pendingReq = request('a lighthouse at dusk');
+  const pending = keyed(pendingReq);
+  await storeGenerationResult({
+    userId: USER_ID, key: pending.key, request: pendingReq, canonical: pending.canonical,
+    outputUrl: null, predictionId: 'pred-1', status: 'pending',
+  });
+  assert.equal(await lookupGenerationCache(USER_ID, pending.key), null);
+  const pendingHit = await lookupGenerationCache(USER_ID, pending.key, { acceptPending: true });
+  assert.ok(pendingHit);
+  assert.equal(pendingHit.pending, true);
+  assert.equal(pendingHit.entry.prediction_id, 'pred-1');
+  console.log('✓ pending 条目只在 acceptPending 时命中');
+
+  await age(store, pending.key, 31 * MINUTE);
+  assert.equal(await lookupGenerationCache(USER_ID, pending.key, { acceptPending: true }), null);
+  console.log('✓ 超过 30 分钟的 pending 条目视为丢失');
+
+  // ─── 结算 ───────────────────────────────────────────────
+  await age(store, pending.key, 0);
+  await settleCachedPrediction({ id: 'pred-1', status: 'processing' });
+  assert.equal((await getGenerationCacheEntry(USER_ID, pending.key))?.status, 'pending');
+  await settleCachedPrediction({ id: 'pred-1', status: 'succeeded', output: ['https://cdn.example.com/a.png'] });
+  const settled = await lookupGenerationCache(USER_ID, pending.key);
+  assert.ok(settled);
+  assert.equal(settled.pending, false);
+  assert.equal(settled.entry.output_url, 'https://cdn.example.com/a.png');
+  assert.equal(settled.entry.hits, 2, '结算保留 pending 期间的命中次数');
+  console.log('✓ 成功结算后条目变为 ready，可直接命中');
+
+  const failedReq = request('a storm over the sea');
+  const failed = keyed(failedReq);
+  await storeGenerationResult({
+    userId: USER_ID, key: failed.key, request: failedReq, canonical: failed.canonical,
+    outputUrl: null, predictionId: 'pred-2', status: 'pending',
+  });
+  await settleCachedPrediction({ id: 'pred-2', status: 'failed' });
+  assert.equal(await getGenerationCacheEntry(USER_ID, failed.key), null);
+  console.log('✓ 失败的 prediction 删除 pending 条目');
+
+  // ─── 临时地址过期 ───────────────────────────────────────
+  const temporaryReq = request('a forest path');
+  const temporary = keyed(temporaryReq);
+  await storeGenerationResult({
+    userId: USER_ID, key: temporary.key, request: temporaryReq, canonical: temporary.canonical,
+    outputUrl: 'https://replicate.delivery/xezq/out-0.png',
+  });
+  const permanentReq = request('a forest path', 7);
+  const permanent = keyed(permanentReq);
+  await storeGenerationResult({
+    userId: USER_ID, key: permanent.key, request: permanentReq, canonical: permanent.canonical,
+    outputUrl: 'https://cdn.example.com/forest.png',
+  });
+
+  await age(store, temporary.key, 49 * MINUTE);
+  assert.ok(await lookupGenerationCache(USER_ID, temporary.key));
+  await age(store, temporary.key, 51 * MINUTE);
+  await age(store, permanent.key, 51 * MINUTE);
+  assert.equal(await lookupGenerationCache(USER_ID, temporary.key), null);
+  assert.equal(await getGenerationCacheEntry(USER_ID, temporary.key), null);
+  assert.ok(await lookupGenerationCache(USER_ID, permanent.key));
+  console.log('✓ replicate.delivery 输出 50 分钟后过期并被删除，永久地址仍命中');
+
+  // ─── 无 seed 不缓存 ─────────────────────────────────────
+  const unseededReq = request('a forest path', null);
+  const unseeded = keyed(unseededReq);
+  await storeGenerationResult({
+    userId: USER_ID, key: unseeded.key, request: unseededReq, canonical: unseeded.canonical,
+    outputUrl: 'https://cdn.example.com/forest.png',
+  });
+  assert.equal(await getGenerationCacheEntry(USER_ID, unseeded.key), null);
+  console.log('✓ 没有 seed 的请求不写入缓存');
+
+  console.log('\n全部通过');
+}
+
+main().catch((err) => {
+  console.error('✗', err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * testModelRateLimiter — 模型令牌桶的 Retry-After 暂停测试
+ *
+ * 用法：
+ *   npx tsx scripts/testModelRateLimiter.ts
+ *
+ * 校验 lib/modelRateLimiter.ts：Replicate 返回 429 + Retry-After 后，
+ * 该模型的桶在 Retry-After 内不再发放令牌（tryTake 失败、acquire 等待），
+ * 速率减半；暂停结束后恢复发放，其他模型与 poll 桶不受影响。
+ * 同时校验 Retry-After 的两种写法（秒数 / HTTP 日期）与 x-ratelimit-remaining: 0。
+ */
+
+import assert from 'node:assert/strict';
+import {
+  ModelRateLimiterRegistry,
+  POLL_BUCKET,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+} from '../lib/modelRateLimiter';
+
+const RETRY_AFTER_S = 1;
+/** 计时误差容忍（setTimeout 精度 + 每次重试的 10ms 睡眠） */
+const SLACK_MS = 50;
+
+async function main() {
+  // ─── Retry-After 解析 ───────────────────────────────────
+  const now = Date.parse('2026-10-19T00:00:00Z');
+  assert.equal(parseRetryAfter('3', now), 3000);
+  assert.equal(parseRetryAfter(new Date(now + 5000).toUTCString(), now), 5000);
+  assert.equal(parseRetryAfter('garbage', now), undefined);
+  assert.deepEqual(
+    parseRateLimitHeaders(new Headers({ 'Retry-After': '2', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '10' }), now),
+    { retryAfterMs: 2000, remaining: 0, resetMs: 10_000 }
+  );
+  console.log('✓ Retry-After 支持秒数与 HTTP 日期，x-ratelimit-* 头正确解析');
+
+  // ─── 429 + Retry-After 暂停 ─────────────────────────────
+  // 速率足够高，令牌补充几乎瞬时，等待时间只由 Retry-After 决定
+  const registry = new ModelRateLimiterRegistry({
+    limits: { fast_model: { ratePerMin: 60_000, burst: 2 }, other_model: { ratePerMin: 60_000, burst: 2 } },
+  });
+  const limiter = registry.forModel('fast_model');
+  assert.ok(limiter.tryTake());
+
+  registry.observe('fast_model', { status: 429, headers: { 'retry-after': String(RETRY_AFTER_S) } });
+  const pauseMs = limiter.msUntilTokens();
+  assert.ok(pauseMs > RETRY_AFTER_S * 1000 - SLACK_MS && pauseMs <= RETRY_AFTER_S * 1000, `暂停应约为 ${RETRY_AFTER_S}s，实际 ${pauseMs}ms`);
+  assert.equal(limiter.tryTake(), false);
+  assert.equal(limiter.currentRatePerMin, 30_000);
+  const snapshot = limiter.snapshot();
+  assert.equal(snapshot.throttled_count, 1);
+  assert.ok(snapshot.blocked_until);
+  assert.deepEqual(snapshot.last_headers, { retryAfterMs: RETRY_AFTER_S * 1000 });
+  console.log(`✓ 429 后桶暂停 ${pauseMs}ms，tryTake 失败，速率减半为 ${limiter.currentRatePerMin}/min`);
+
+  assert.ok(registry.forModel('other_model').tryTake());
+  assert.ok(registry.forModel(POLL_BUCKET).tryTake());
+  console.log('✓ 其他模型与 poll 桶不受暂停影响');
+
+  const started = Date.now();
+  await limiter.acquire();
+  const waited = Date.now() - started;
+  assert.ok(waited >= RETRY_AFTER_S * 1000 - SLACK_MS, `acquire 过早返回（${waited}ms）`);
+  assert.ok(waited < RETRY_AFTER_S * 1000 + 500, `acquire 等待过久（${waited}ms）`);
+  assert.equal(limiter.snapshot().blocked_until, null);
+  console.log(`✓ acquire 在 Retry-After 结束后返回（等待 ${waited}ms）`);
+
+  // 暂停期间再次 429 会延长等待
+  registry.observe('fast_model', { status: 429, headers: { 'retry-after': '0.2' } });
+  const extended = Date.now();
+  const pending = limiter.acquire();
+  registry.observe('fast_model', { status: 429, headers: { 'retry-after': '0.4' } });
+  await pending;
+  assert.ok(Date.now() - extended >= 400 - SLACK_MS, '等待中的 429 应延长暂停');
+  assert.equal(limiter.currentRatePerMin, 7_500);
+  console.log('✓ 等待期间的新 429 延长暂停，速率继续减半');
+
+  // ─── remaining: 0 ──────────────────────────────────────
+  const other = registry.forModel('other_model');
+  registry.observe('other_model', { status: 201, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '0.3' } });
+  assert.equal(other.tryTake(), false);
+  assert.ok(other.msUntilTokens() > 300 - SLACK_MS);
+  assert.equal(other.currentRatePerMin, 60_000);
+  console.log('✓ x-ratelimit-remaining: 0 暂停到 reset，但不降低速率');
+
+  console.log('\n全部通过');
+}
+
+main().catch((err) => {
+  console.error('✗', err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+/**
+ * testPipelineSeqConflict — 事件日志 seq 冲突后的重放测试
+ *
+ * 用法：
+ *   npx tsx scripts/testPipelineSeqConflict.ts
+ *
+ * 用内存 PipelineStore（与 lib/pipelineStore.ts 的后端一样拒绝重复 seq），模拟另一实例
+ * 抢先写入同一 seq：本实例的事件应重新排序到下一个空闲 seq，
+ * 而从日志完整重放（replayProjectRuntime）得到的状态应与缓存一致，
+ * 并同时包含两个实例的修改。
+ */
+
+import assert from 'node:assert/strict';
+import { PipelineSeqConflictError, type PipelineStore } from '../lib/pipelineStore';
+import {
+  approveStoryboardShot,
+  configurePipelineStore,
+  flushPipelineEvents,
+  getProjectRuntime,
+  initProjectRuntime,
+  replayProjectRuntime,
+  type PipelineEvent,
+  type SerializedPipelineState,
+} from '../lib/storyPipeline';
+
+const PROJECT_ID = 'proj-seq-conflict';
+
+// ─── 内存 PipelineStore ───────────────────────────────────
+
+function createMemoryPipelineStore(): PipelineStore {
+  const events = new Map<string, PipelineEvent[]>();
+  const snapshots = new Map<string, SerializedPipelineState>();
+  return {
+    backend: 'sqlite',
+    async appendEvents(batch) {
+      for (const e of batch) {
+        if ((events.get(e.projectId) || []).some((x) => x.seq === e.seq)) {
+          throw new PipelineSeqConflictError(e.projectId, e.seq);
+        }
+      }
+      for (const e of batch) events.set(e.projectId, [...(events.get(e.projectId) || []), structuredClone(e)]);
+    },
+    async loadEvents(projectId, afterSeq) {
+      return (events.get(projectId) || []).filter((e) => e.seq > afterSeq).sort((a, b) => a.seq - b.seq).map((e) => structuredClone(e));
+    },
+    async saveSnapshot(snapshot) {
+      const existing = snapshots.get(snapshot.projectId);
+      if (!existing || (snapshot.seq || 0) > (existing.seq || 0)) snapshots.set(snapshot.projectId, structuredClone(snapshot));
+    },
+    async loadSnapshot(projectId) {
+      const snapshot = snapshots.get(projectId);
+      return snapshot ? structuredClone(snapshot) : null;
+    },
+  };
+}
+
+// ─── 执行 ────────────────────────────────────────────────
+
+async function main() {
+  const store = createMemoryPipelineStore();
+  configurePipelineStore(store);
+
+  // 1) 本实例初始化项目（seq 1）
+  initProjectRuntime({
+    projectId: PROJECT_ID,
+    shots: [
+      { shot_id: 'shot-1', sequence_order: 1 },
+      { shot_id: 'shot-2', sequence_order: 2 },
+    ],
+  });
+  await flushPipelineEvents(PROJECT_ID);
+  assert.equal(getProjectRuntime(PROJECT_ID)?.seq, 1);
+  console.log('✓ project_initialized 写入 seq 1');
+
+  // 2) 另一实例抢先写入 seq 2（审批 shot-2），本实例缓存对此一无所知
+  const foreign: PipelineEvent = {
+    type: 'shot_approved',
+    shotId: 'shot-2',
+    imageUrl: 'https://example.com/shot-2.jpg',
+    projectId: PROJECT_ID,
+    seq: 2,
+    at: Date.now(),
+    actor: 'other-instance',
+  };
+  await store.appendEvents([foreign]);
+
+  // 3) 本实例审批 shot-1：提交时仍用 seq 2，写入冲突后应重排为 seq 3
+  approveStoryboardShot(PROJECT_ID, 'shot-1', 'https://example.com/shot-1.jpg', 'this-instance');
+  await flushPipelineEvents(PROJECT_ID);
+
+  const events = await store.loadEvents(PROJECT_ID, 0);
+  assert.deepEqual(events.map((e) => [e.seq, e.type]), [
+    [1, 'project_initialized'],
+    [2, 'shot_approved'],
+    [3, 'shot_approved'],
+  ]);
+  assert.equal((events[2] as any).shotId, 'shot-1');
+  console.log('✓ 冲突事件重排为 seq 3，日志无空洞');
+
+  // 4) 缓存与纯日志重放一致，且包含两个实例的审批
+  const cached = getProjectRuntime(PROJECT_ID);
+  const replayed = await replayProjectRuntime(PROJECT_ID);
+  assert.ok(cached && replayed);
+  assert.equal(cached.seq, 3);
+  assert.equal(replayed.seq, 3);
+  for (const state of [cached, replayed]) {
+    assert.equal(state.shots.get('shot-1')?.status, 'approved');
+    assert.equal(state.shots.get('shot-1')?.approvedImageUrl, 'https://example.com/shot-1.jpg');
+    assert.equal(state.shots.get('shot-2')?.status, 'approved');
+    assert.equal(state.shots.get('shot-2')?.approvedImageUrl, 'https://example.com/shot-2.jpg');
+  }
+  console.log('✓ 重放状态与缓存一致，两个实例的审批都保留');
+
+  console.log('\n全部通过');
+}
+
+main().catch((err) => {
+  console.error('✗', err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+/**
+ * testSchedulerTiers — 公平调度器的等级权重测试
+ *
+ * 用法：
+ *   npx tsx scripts/testSchedulerTiers.ts
+ *
+ * 单槽位 provider 上，free 用户与 priority 用户各排队 8 个同类任务：
+ * 按 TIER_WEIGHTS（lib/generationScheduler.ts），priority 的 finish tag
+ * 每次只前进 1/8，所以前 9 个派发中应有 8 个属于 priority 用户，
+ * 而 free 用户仍然先拿到一个槽位（不会被饿死）。
+ * 同时校验 tierForProfile：priority_queue 增值服务优先于套餐。
+ */
+
+import assert from 'node:assert/strict';
+import { GenerationScheduler, TIER_WEIGHTS, tierForProfile } from '../lib/generationScheduler';
+
+const TASKS_PER_USER = 8;
+
+async function main() {
+  // ─── tierForProfile ─────────────────────────────────────
+  assert.equal(tierForProfile(null), 'free');
+  assert.equal(tierForProfile({ is_pro: false, plan_type: 'free' }), 'free');
+  assert.equal(tierForProfile({ is_pro: true, plan_type: 'creator' }), 'paid');
+  assert.equal(tierForProfile({ is_pro: true, plan_type: 'plan_business' }), 'business');
+  assert.equal(tierForProfile({ is_pro: false, plan_type: 'free', addons: ['priority_queue'] }), 'priority');
+  assert.equal(tierForProfile({ is_pro: true, plan_type: 'plan_business', addons: ['priority_queue'] }), 'priority');
+  console.log('✓ tierForProfile：priority_queue 增值服务 → priority，其余按套餐');
+
+  // ─── 加权派发顺序 ───────────────────────────────────────
+  const scheduler = new GenerationScheduler({ providerCaps: { test: 1 } });
+
+  // 先占住唯一的槽位，让两位用户的任务全部进入队列
+  let releaseBlocker!: () => void;
+  const held = new Promise<void>((resolve) => { releaseBlocker = resolve; });
+  const blocker = scheduler.schedule({ userId: 'blocker', provider: 'test', kind: 'blocker' }, () => held);
+
+  const order: string[] = [];
+  const pending: Promise<void>[] = [];
+  for (const [userId, tier] of [['free-user', 'free'], ['priority-user', 'priority']] as const) {
+    for (let i = 0; i < TASKS_PER_USER; i++) {
+      pending.push(scheduler.schedule(
+        { userId, tier, provider: 'test', kind: 'render', estimatedMs: 1000 },
+        async () => { order.push(userId); }
+      ));
+    }
+  }
+
+  const queued = scheduler.getStatus().filter((s) => s.status === 'queued');
+  assert.equal(queued.length, TASKS_PER_USER * 2);
+  assert.deepEqual(queued.map((s) => s.position), queued.map((_, i) => i + 1));
+  console.log(`✓ ${queued.length} 个任务排队，位置连续`);
+
+  releaseBlocker();
+  await Promise.all([blocker, ...pending]);
+
+  const firstWindow = order.slice(0, TASKS_PER_USER + 1);
+  const priorityShare = firstWindow.filter((u) => u === 'priority-user').length;
+  console.log(`  派发顺序: ${order.map((u) => (u === 'priority-user' ? 'P' : 'F')).join('')}`);
+  assert.equal(order[0], 'free-user', 'free 用户先入队，应先拿到槽位');
+  assert.equal(priorityShare, TASKS_PER_USER, `前 ${firstWindow.length} 个派发中 priority 应占 ${TASKS_PER_USER} 个`);
+  assert.equal(order.length, TASKS_PER_USER * 2);
+  console.log(`✓ 权重 ${TIER_WEIGHTS.priority}:${TIER_WEIGHTS.free} 下 priority 用户在前 ${firstWindow.length} 个派发中占 ${priorityShare} 个`);
+
+  console.log('\n全部通过');
+}
+
+main().catch((err) => {
+  console.error('✗', err?.message || err);
+  process.exit(1);
+});
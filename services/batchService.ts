@@ -3,7 +3,7 @@
  * Uses SSE (Server-Sent Events) for real-time progress streaming.
  * Handles starting jobs, progress tracking, cancellation, and retry.
  */
-import { BatchJob, BatchJobItem, ImageModel, AspectRatio, VideoStyle, IMAGE_MODEL_COSTS, CREDIT_COSTS } from '../types';
+import { BatchJob, BatchJobItem, ImageModel, VideoModel, AspectRatio, VideoStyle, IMAGE_MODEL_COSTS, CREDIT_COSTS, RegenerationCascadePlan } from '../types';
 import { supabase } from '../lib/supabaseClient';
 
 const API_BASE = '/api/batch';
@@ -284,7 +284,7 @@ export async function startBatchGenImages(params: {
 }
 
 /**
- * Poll a batch job's status (legacy — kept for backward compatibility but may 404 on Vercel).
+ * Poll a batch job's status. Jobs are persisted, so any instance can answer.
  */
 export async function getBatchProgress(jobId: string): Promise<BatchProgressResult> {
     const response = await fetch(`${API_BASE}/${jobId}`, {
@@ -417,6 +417,160 @@ export async function continueBatchGenImagesSSE(params: {
     return readSSEStream(response, onProgress);
 }
 
+// ── Regeneration cascade (SSE) ──
+
+/**
+ * Plan a regenerate_from_shot_forward cascade: which shots would be
+ * regenerated or stay frozen, and what it costs. Nothing is changed.
+ */
+export async function previewRegenerationCascade(params: {
+    project_id: string;
+    shot_id: string;
+    shots?: ShotForBatch[];
+    freeze_approved?: boolean;
+    model?: ImageModel;
+}): Promise<RegenerationCascadePlan> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/storyboard/${params.project_id}/shots/${params.shot_id}/cascade/preview`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            shots: params.shots,
+            freeze_approved: params.freeze_approved ?? false,
+            model: params.model ?? 'flux',
+        }),
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+        throw new Error(errData.error?.message || errData.error || `Failed to plan cascade (${response.status})`);
+    }
+    return await response.json();
+}
+
+/**
+ * Run a previewed cascade with SSE streaming. expected_cost must be the
+ * previewed estimated_cost; if the plan changed meanwhile the call fails with
+ * code CASCADE_PLAN_CHANGED and the new plan on err.cascade.
+ */
+export async function runRegenerationCascadeSSE(params: {
+    project_id: string;
+    shot_id: string;
+    expected_cost: number;
+    shots: ShotForBatch[];
+    freeze_approved?: boolean;
+    model?: ImageModel;
+    aspect_ratio?: AspectRatio;
+    style?: VideoStyle;
+    character_anchor?: string;
+    story_entities?: any[];
+    style_bible?: any;
+    director_brain?: any;
+    reason?: string;
+}, onProgress: (data: BatchProgressResult) => void, abortSignal?: AbortSignal): Promise<BatchProgressResult> {
+    const headers = await getAuthHeaders();
+
+    const response = await fetch(`/api/storyboard/${params.project_id}/shots/${params.shot_id}/cascade`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            expected_cost: params.expected_cost,
+            shots: params.shots,
+            freeze_approved: params.freeze_approved ?? false,
+            model: params.model ?? 'flux',
+            aspect_ratio: params.aspect_ratio ?? '16:9',
+            style: params.style ?? 'none',
+            character_anchor: params.character_anchor ?? '',
+            story_entities: params.story_entities,
+            style_bible: params.style_bible,
+            director_brain: params.director_brain,
+            reason: params.reason,
+        }),
+        signal: abortSignal,
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream')) {
+        if (response.status === 402) {
+            const err: any = new Error('INSUFFICIENT_CREDITS');
+            err.code = 'INSUFFICIENT_CREDITS';
+            throw err;
+        }
+        const errData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+        const err: any = new Error(errData.error?.message || errData.error || `Failed to run cascade (${response.status})`);
+        if (response.status === 409) {
+            err.code = 'CASCADE_PLAN_CHANGED';
+            err.cascade = errData.cascade;
+        }
+        throw err;
+    }
+
+    return readSSEStream(response, onProgress, abortSignal);
+}
+
+// ── Batch video generation (SSE) ──
+
+export interface ShotForVideoBatch {
+    shot_id: string;
+    shot_number: number;
+    scene_number: number;
+    scene_id?: string;
+    video_prompt?: string;
+    action?: string;
+    image_prompt?: string;
+    duration_sec?: number;
+    video_model?: VideoModel;
+    video_approved?: boolean;
+}
+
+export interface BlockedVideoShot {
+    shot_id: string;
+    reason: 'video_not_approved' | 'no_approved_frame';
+}
+
+/**
+ * Generate videos from the approved storyboard frames of the given shots.
+ * Each shot uses its own video_model / duration_sec when set. Shots with
+ * video_approved === false or no approved frame come back in `blocked`;
+ * if none are left the call fails with code NO_ELIGIBLE_SHOTS.
+ */
+export async function startBatchGenVideosSSE(params: {
+    project_id: string;
+    shots: ShotForVideoBatch[];
+    model?: VideoModel;
+    duration?: number;
+    aspect_ratio?: AspectRatio;
+    style?: VideoStyle;
+    character_anchor?: string;
+}, onProgress: (data: BatchProgressResult) => void, abortSignal?: AbortSignal): Promise<BatchProgressResult & { blocked?: BlockedVideoShot[] }> {
+    const headers = await getAuthHeaders();
+
+    const response = await fetch(`${API_BASE}/gen-videos`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            project_id: params.project_id,
+            shots: params.shots,
+            model: params.model ?? 'wan_2_2_fast',
+            duration: params.duration ?? 6,
+            aspect_ratio: params.aspect_ratio ?? '16:9',
+            style: params.style ?? 'none',
+            character_anchor: params.character_anchor ?? '',
+        }),
+        signal: abortSignal,
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream')) {
+        const errData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+        const err: any = new Error(errData.error?.message || errData.error || `Failed to start batch video job (${response.status})`);
+        err.code = errData.code || (response.status === 402 ? 'INSUFFICIENT_CREDITS' : undefined);
+        err.blocked = errData.blocked;
+        throw err;
+    }
+
+    return readSSEStream(response, onProgress, abortSignal);
+}
+
 // Legacy compatibility wrapper
 export async function continueBatchGenImages(params: {
     project_id: string;
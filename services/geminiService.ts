@@ -98,7 +98,8 @@ export const generateStoryboard = async (
   sceneCount?: number,
   forceHasCast?: boolean,
   projectType?: string,
-  directorControls?: DirectorControls
+  directorControls?: DirectorControls,
+  structureTemplate?: string
 ): Promise<StoryboardProject> => {
   // ★ EXPLICIT MOCK MODE — only if user opts in via settings
   if (isExplicitMockMode()) {
@@ -129,6 +130,7 @@ export const generateStoryboard = async (
       forceHasCast,
       projectType,
       directorControls,
+      structureTemplate,
     }),
   });
 
@@ -0,0 +1,222 @@
+/**
+ * Pipeline Event Service — Frontend client for GET /api/pipeline/:projectId/events.
+ * One shared SSE connection per project (fetch stream, so the auth header can be
+ * sent), reconnecting with Last-Event-ID. Replaces per-component status polling.
+ */
+import { PipelineStreamEventMap, PipelineStreamEventName } from '../types';
+import { supabase } from '../lib/supabaseClient';
+import { checkPredictionStatus, ReplicateResponse } from './replicateService';
+
+const API_BASE = '/api/pipeline';
+
+const RECONNECT_MIN_MS = 3000;
+const RECONNECT_MAX_MS = 30000;
+/** Safety-net poll while waiting on the stream, in case an event is missed. */
+const FALLBACK_POLL_MS = 15000;
+/** Poll interval when there is no project (and so no stream) to listen on. */
+const LEGACY_POLL_MS = 3000;
+
+const TERMINAL_STATUSES = ['succeeded', 'failed', 'canceled'];
+
+export type PipelineStreamMessage = {
+    [K in PipelineStreamEventName]: { id?: string; type: K; data: PipelineStreamEventMap[K] };
+}[PipelineStreamEventName];
+
+type MessageListener = (message: PipelineStreamMessage) => void;
+type ConnectionListener = (connected: boolean) => void;
+
+interface ProjectConnection {
+    listeners: Set<MessageListener>;
+    connectionListeners: Set<ConnectionListener>;
+    connected: boolean;
+    lastEventId?: string;
+    abort: AbortController;
+}
+
+const connections = new Map<string, ProjectConnection>();
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('请先登录以生成内容。');
+    return { 'Authorization': `Bearer ${session.access_token}` };
+}
+
+function setConnected(conn: ProjectConnection, connected: boolean) {
+    if (conn.connected === connected) return;
+    conn.connected = connected;
+    conn.connectionListeners.forEach(l => l(connected));
+}
+
+function dispatch(conn: ProjectConnection, message: PipelineStreamMessage) {
+    if (message.id) conn.lastEventId = message.id;
+    conn.listeners.forEach(l => {
+        try {
+            l(message);
+        } catch (e) {
+            console.warn('[PipelineEvents] Listener failed:', e);
+        }
+    });
+}
+
+/**
+ * Reads one SSE response until it ends. Unlike readSSEStream in batchService,
+ * events carry ids and may be interleaved with keep-alive comments.
+ */
+async function readEventStream(response: Response, conn: ProjectConnection): Promise<void> {
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body stream');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let id: string | undefined;
+    let event = '';
+    let dataLines: string[] = [];
+
+    while (!conn.abort.signal.aborted) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const rawLine of lines) {
+            const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+            if (line.startsWith(':')) continue;
+            if (line.startsWith('id: ')) {
+                id = line.slice(4).trim();
+            } else if (line.startsWith('event: ')) {
+                event = line.slice(7).trim();
+            } else if (line.startsWith('data:')) {
+                // Multi-line data fields join with "\n" (SSE spec); one optional space after the colon
+                dataLines.push(line.slice(5).replace(/^ /, ''));
+            } else if (line === '') {
+                if (event && dataLines.length > 0) {
+                    try {
+                        dispatch(conn, { id, type: event, data: JSON.parse(dataLines.join('\n')) } as PipelineStreamMessage);
+                    } catch {
+                        // Ignore malformed events; the next one carries on
+                    }
+                }
+                id = undefined;
+                event = '';
+                dataLines = [];
+            }
+        }
+    }
+    reader.cancel().catch(() => { });
+}
+
+async function runConnection(projectId: string, conn: ProjectConnection) {
+    let delay = RECONNECT_MIN_MS;
+    while (!conn.abort.signal.aborted) {
+        try {
+            const headers = await getAuthHeaders();
+            if (conn.lastEventId) headers['Last-Event-ID'] = conn.lastEventId;
+            const response = await fetch(`${API_BASE}/${encodeURIComponent(projectId)}/events`, {
+                headers,
+                signal: conn.abort.signal,
+            });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+            setConnected(conn, true);
+            delay = RECONNECT_MIN_MS;
+            await readEventStream(response, conn);
+        } catch (e: any) {
+            if (conn.abort.signal.aborted) break;
+            console.warn(`[PipelineEvents] Stream for ${projectId} dropped:`, e?.message || e);
+        }
+        setConnected(conn, false);
+        if (conn.abort.signal.aborted) break;
+        await new Promise(r => setTimeout(r, delay));
+        delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+    }
+}
+
+/**
+ * Subscribes to a project's event stream. The connection is opened on the
+ * first subscription and closed when the last one unsubscribes.
+ */
+export function subscribePipelineEvents(
+    projectId: string,
+    listener: MessageListener,
+    onConnectionChange?: ConnectionListener,
+): () => void {
+    let conn = connections.get(projectId);
+    if (!conn) {
+        conn = {
+            listeners: new Set(),
+            connectionListeners: new Set(),
+            connected: false,
+            abort: new AbortController(),
+        };
+        connections.set(projectId, conn);
+        runConnection(projectId, conn);
+    }
+    conn.listeners.add(listener);
+    if (onConnectionChange) {
+        conn.connectionListeners.add(onConnectionChange);
+        onConnectionChange(conn.connected);
+    }
+
+    const current = conn;
+    return () => {
+        current.listeners.delete(listener);
+        if (onConnectionChange) current.connectionListeners.delete(onConnectionChange);
+        if (current.listeners.size === 0) {
+            current.abort.abort();
+            if (connections.get(projectId) === current) connections.delete(projectId);
+        }
+    };
+}
+
+/**
+ * Resolves once a Replicate prediction settles. With a project the stream
+ * announces completion (with a slow fallback poll); the final status is then
+ * fetched once so server-side post-processing (e.g. audio engine) applies.
+ * Without a project it falls back to plain polling.
+ */
+export function waitForPrediction(
+    projectId: string | undefined,
+    predictionId: string,
+    options: { signal?: AbortSignal } = {},
+): Promise<ReplicateResponse> {
+    return new Promise((resolve, reject) => {
+        let settled = false;
+        let unsubscribe = () => { };
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const finish = (result?: ReplicateResponse, error?: any) => {
+            if (settled) return;
+            settled = true;
+            unsubscribe();
+            if (timer) clearTimeout(timer);
+            if (error) reject(error);
+            else resolve(result!);
+        };
+
+        const check = async () => {
+            try {
+                const prediction = await checkPredictionStatus(predictionId);
+                if (TERMINAL_STATUSES.includes(prediction.status)) finish(prediction);
+                else if (!settled) timer = setTimeout(check, projectId ? FALLBACK_POLL_MS : LEGACY_POLL_MS);
+            } catch (e) {
+                finish(undefined, e);
+            }
+        };
+
+        options.signal?.addEventListener('abort', () => finish(undefined, new Error('Aborted')));
+
+        if (projectId) {
+            unsubscribe = subscribePipelineEvents(projectId, (message) => {
+                if (message.type !== 'prediction_updated' || message.data.prediction_id !== predictionId) return;
+                if (!TERMINAL_STATUSES.includes(message.data.status)) return;
+                if (timer) clearTimeout(timer);
+                check();
+            });
+            timer = setTimeout(check, FALLBACK_POLL_MS);
+        } else {
+            timer = setTimeout(check, LEGACY_POLL_MS);
+        }
+    });
+}
@@ -12,6 +12,8 @@ export interface ReplicateResponse {
   output?: any;
   error?: string;
   logs?: string;
+  /** Set by /api/replicate/predict; hit means the stored prediction was returned without charging. */
+  cache?: { hit: boolean; key: string };
 }
 
 interface ApiServiceError extends Error {
@@ -375,6 +377,7 @@ export const startVideoTask = async (
       // Only gate on storyboard approval when caller explicitly opts in.
       // Auto-enabling it for every project_id+shot_id combo would block all normal video generation.
       require_approved_storyboard: promptOptions?.requireApprovedStoryboard ?? false,
+      cache: promptOptions?.cache,
     })
   });
 
@@ -393,6 +396,33 @@ export const startVideoTask = async (
   return await response.json();
 };
 
+export interface GenerationQueueTask {
+  id: string;
+  kind: string;
+  provider: string;
+  status: 'queued' | 'running';
+  position: number;  // 0 = running, 1.. = place in the provider's queue
+  eta_ms: number;    // estimated ms until the task finishes
+}
+
+export interface GenerationQueueStatus {
+  tier: 'free' | 'paid' | 'business' | 'priority';
+  tasks: GenerationQueueTask[];
+  providers: Record<string, { cap: number; running: number; queued: number }>;
+}
+
+// The caller's server-side generation tasks in the fair-share scheduler
+export async function getGenerationQueueStatus(): Promise<GenerationQueueStatus> {
+  const headers = await getAuthHeaders();
+  const response = await fetch('/api/queue/status', { method: 'GET', headers });
+
+  if (!response.ok) {
+    throw await toServiceError(response, `HTTP ${response.status}`);
+  }
+
+  return await response.json();
+}
+
 export async function checkPredictionStatus(id: string): Promise<ReplicateResponse> {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_BASE}/status/${id}`, {
@@ -5,8 +5,10 @@
 import {
     ShotImage, ImageGeneration, ImageModel, AspectRatio, VideoStyle,
     ImageEditMode, CREDIT_COSTS, IMAGE_MODEL_COSTS, ContinuityConfig,
+    ShotCandidateHistory, RegenerationJob, ContinuityReport, MustShowItemResult,
 } from '../types';
 import { supabase } from '../lib/supabaseClient';
+import type { PerceptualCheck } from '../lib/perceptualContinuity';
 
 const API_BASE = '/api/shot-images';
 
@@ -23,6 +25,8 @@ async function getAuthHeaders(): Promise<Record<string, string>> {
 export interface GenerateImageResult {
     image: ShotImage;
     generation: ImageGeneration;
+    /** hit = an identical earlier request was returned without charging credits */
+    cache?: { hit: boolean; key: string };
 }
 
 export interface EditImageResult {
@@ -39,8 +43,11 @@ export interface StoryboardValidationResult {
         visual_match_score: number;
         violation_tags: string[];
         regen_recommendation: string;
+        must_show_results?: MustShowItemResult[];
         validated_at: string;
     };
+    /** Measured frame comparisons that fed continuity / visual match */
+    perceptual_checks?: PerceptualCheck[];
     candidate_id: string;
     stage: string;
 }
@@ -68,6 +75,7 @@ export async function generateShotImage(params: {
     scene_payload?: any;
     previous_shot?: any;
     previous_prompt?: string;
+    cache?: 'bypass';  // ★ Always generate, even if an identical request is cached
 }): Promise<GenerateImageResult> {
     const headers = await getAuthHeaders();
 
@@ -149,6 +157,9 @@ export async function validateStoryboardShot(params: {
     previous_shot?: any;
     scene_state?: any;
     character_state?: any;
+    /** The shot's video and the next shot's frame, for the perceptual cut checks */
+    video_url?: string;
+    next_shot_frame_url?: string;
 }): Promise<StoryboardValidationResult> {
     const headers = await getAuthHeaders();
     const response = await fetch(`/api/storyboard/${params.project_id}/shots/${params.shot_id}/validate`, {
@@ -164,6 +175,37 @@ export async function validateStoryboardShot(params: {
     return await response.json();
 }
 
+/**
+ * Checks a generated frame against the shot's must_show checklist and
+ * required_visible_action. Pass a continuity report to get it back with the
+ * failures merged into violation_tags / regen_recommendation.
+ */
+export async function validateMustShow(params: {
+    image_url: string;
+    shot: any;
+    provider?: string;
+    continuity_report?: ContinuityReport;
+}): Promise<{
+    provider: string;
+    passed: boolean;
+    results: MustShowItemResult[];
+    failed: MustShowItemResult[];
+    continuity_report?: ContinuityReport;
+}> {
+    const headers = await getAuthHeaders();
+    const response = await fetch('/api/gemini/validate-must-show', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+        throw new Error(errData.error?.message || errData.error || `Must-show validation failed (${response.status})`);
+    }
+    return await response.json();
+}
+
 export async function approveStoryboardShot(params: {
     project_id: string;
     shot_id: string;
@@ -182,6 +224,43 @@ export async function approveStoryboardShot(params: {
     return await response.json();
 }
 
+export async function getStoryboardCandidates(params: {
+    project_id: string;
+    shot_id: string;
+}): Promise<ShotCandidateHistory | null> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/storyboard/${params.project_id}/candidates?shot_id=${encodeURIComponent(params.shot_id)}`, {
+        method: 'GET',
+        headers,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+        throw new Error(errData.error?.message || errData.error || `Failed to load candidates (${response.status})`);
+    }
+    const data = await response.json();
+    return data.shots?.[0] || null;
+}
+
+export async function promoteStoryboardCandidate(params: {
+    project_id: string;
+    shot_id: string;
+    candidate_id: string;
+    reason?: string;
+}): Promise<{ approved_frame: string; version: number; regeneration_job: RegenerationJob; history: ShotCandidateHistory }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/storyboard/${params.project_id}/shots/${params.shot_id}/candidates/${params.candidate_id}/promote`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ reason: params.reason }),
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+        throw new Error(errData.error?.message || errData.error || `Candidate rollback failed (${response.status})`);
+    }
+    return await response.json();
+}
+
 export async function regenerateStoryboardShot(params: {
     project_id: string;
     shot_id: string;
@@ -3,8 +3,15 @@
  * All requests go through backend server, no API keys exposed.
  * Supports mock mode when backend is unavailable.
  */
-import { Shot, ShotRevision, ShotRewriteRequest, Language, StoryEntity } from '../types';
+import { Shot, ShotRevision, ShotRewriteRequest, Language, StoryEntity, ImageModel, VideoModel, ContinuityStatePin, PropBible, CostumeBible, SceneBible, ShotGraphNode, ShotGraphBranch, EditTimelinePlan } from '../types';
 import { supabase } from '../lib/supabaseClient';
+import type { PromptDiffGeneration, PromptDiffResult, PromptDiffShotSide } from '../lib/promptDiff';
+import type { ShotSimilarityIndex } from '../lib/shotSimilarityIndex';
+import type { ContinuityLedger } from '../lib/continuityLedger';
+import type { PaletteConsistencyReport, PaletteShotInput } from '../lib/paletteConsistency';
+import type { ShotGraphEdit, ShotGraphEditResult } from '../lib/shotGraphEditor';
+import type { BranchComparison } from '../lib/shotBranches';
+import type { StoryStructureTemplate, StructureCheckReport } from '../lib/storyStructure';
 
 const API_BASE = '/api/shots';
 
@@ -105,6 +112,9 @@ export async function generateShots(params: {
     director_brain?: any;
     language: Language;
     num_shots?: number;
+    /** ★ Target models — prompts come back in that model's dialect, with prompt_dialects per shot */
+    image_model?: ImageModel;
+    video_model?: VideoModel;
 }): Promise<{ scene_title: string; shots: Shot[] }> {
     const headers = await getAuthHeaders();
     const { useMockMode } = getAppSettings();
@@ -195,3 +205,265 @@ export async function rewriteShotFields(params: {
         };
     }
 }
+
+/**
+ * Section-aware diff of the prompts two shot versions (or two image generations)
+ * compile to, with each changed section attributed to the field that caused it
+ */
+export async function diffShotPrompts(
+    params: { from: PromptDiffShotSide; to: PromptDiffShotSide }
+        | { from_generation: PromptDiffGeneration; to_generation: PromptDiffGeneration }
+): Promise<PromptDiffResult> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/prompt-diff`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Prompt diff failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Project-wide redundant shot clusters, each ranked by screenplay removal value
+ */
+export async function getShotSimilarityIndex(
+    params: ({ shots: any[] } | { project_id: string }) & { threshold?: number }
+): Promise<ShotSimilarityIndex> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/similarity-index`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Similarity index failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Insert, delete, move, split or merge shots; prev/next links, bridges and
+ * temporal guidance are recomputed for the affected window. Pass
+ * expected_versions on an edit to have it rejected (409) if the stored shots
+ * changed since they were read.
+ */
+export async function editShotGraph(params: {
+    shots: Shot[];
+    shot_graph?: ShotGraphNode[];
+    edits: ShotGraphEdit[];
+}): Promise<ShotGraphEditResult> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/graph/edit`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Shot graph edit failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Prop and wardrobe state at every shot, with regressions (e.g. a broken prop shown whole again).
+ * Bibles and pins not passed here are read from the stored storyboard.
+ */
+export async function getContinuityLedger(
+    params: ({ shots: any[] } | { project_id: string }) & {
+        project_id?: string;
+        pins?: ContinuityStatePin[];
+        prop_bible?: PropBible[];
+        costume_bible?: CostumeBible[];
+        story_entities?: StoryEntity[];
+    }
+): Promise<ContinuityLedger> {
+    const headers = await getAuthHeaders();
+    const response = await fetch('/api/continuity/ledger', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Continuity ledger failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Replace a storyboard's prop/outfit state pins
+ */
+export async function saveContinuityPins(projectId: string, pins: ContinuityStatePin[]): Promise<ContinuityStatePin[]> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/continuity/ledger/${projectId}/pins`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ pins }),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Saving pins failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.pins;
+}
+
+/**
+ * Palette and white-balance consistency of generated frames, per scene, with a
+ * corrective grade for each outlier shot (report.grades, by shot id) that
+ * /api/video/finalize applies when passed as segments[].grade. At most 12
+ * shots per call; check long projects one scene_id at a time.
+ */
+export async function getPaletteConsistency(
+    params: ({ shots: PaletteShotInput[] } | { project_id: string; scene_id?: string }) & {
+        scene_bibles?: SceneBible[];
+        style_palette?: string;
+    }
+): Promise<PaletteConsistencyReport> {
+    const headers = await getAuthHeaders();
+    const response = await fetch('/api/continuity/palette', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Palette check failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * The cut for a branch selection: main-line shots with each active alternate
+ * in place of its range, plus the shot graph and edit plan for that cut.
+ * Omitted shots / branches / active ids are read from the stored storyboard.
+ */
+export async function resolveShotBranches(
+    params: ({ shots: Shot[]; branches: ShotGraphBranch[] } | { project_id: string }) & {
+        project_id?: string;
+        active_branch_ids?: string[];
+    }
+): Promise<{ active_branch_ids: string[]; shots: Shot[]; shot_graph: ShotGraphNode[]; edit_plan: EditTimelinePlan }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/branches/resolve`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Resolving branches failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Main line and the given alternates side by side over the union of their ranges
+ */
+export async function compareShotBranches(
+    params: ({ shots: Shot[]; branches: ShotGraphBranch[] } | { project_id: string }) & {
+        project_id?: string;
+        branch_ids: string[];
+        active_branch_ids?: string[];
+    }
+): Promise<BranchComparison> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/branches/compare`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Branch comparison failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Replace a storyboard's alternate-take branches and the active selection
+ */
+export async function saveShotBranches(
+    projectId: string,
+    branches: ShotGraphBranch[],
+    activeBranchIds: string[] = []
+): Promise<{ branches: ShotGraphBranch[]; active_branch_ids: string[] }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/storyboard/${projectId}/branches`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ branches, active_branch_ids: activeBranchIds }),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Saving branches failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return { branches: data.branches, active_branch_ids: data.active_branch_ids };
+}
+
+/**
+ * Story structure templates (three-act, Save the Cat, ...) and the default id
+ */
+export async function getStructureTemplates(): Promise<{ templates: StoryStructureTemplate[]; default_template_id: string }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/structure-templates`, { headers });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Loading structure templates failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
+
+/**
+ * Beats of a structure template that the shots are missing, have out of place,
+ * or let run too long. Defaults to the storyboard's stored template.
+ */
+export async function checkStoryStructure(
+    params: ({ shots: Shot[] } | { project_id: string }) & {
+        project_id?: string;
+        template_id?: string;
+        tolerance_pct?: number;
+        overlong_ratio?: number;
+    }
+): Promise<StructureCheckReport> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE}/structure-check`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+    });
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(err.error?.message || err.error || `Structure check failed: ${response.status}`);
+    }
+
+    return await response.json();
+}
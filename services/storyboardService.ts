@@ -10,6 +10,11 @@
  *   storyboards.logline          ↔  StoryboardProject.logline
  *   storyboards.world_setting    ↔  StoryboardProject.world_setting
  *   storyboards.updated_at       ↔  used by dashboard for sort/display
+ *   storyboards.prop_bible / costume_bible / continuity_pins ↔ continuity ledger inputs (JSONB)
+ *   storyboards.shot_branches / active_branch_ids ↔ alternate takes and the active selection (JSONB)
+ *   storyboards.structure_template ↔ story structure template; scenes carry act_position / structure_beat
+ *   and structure_also_covers_json (slots folded into the scene)
+ *   storyboards.project_type     ↔  StoryboardProject.project_type (verifier profile fallback)
  */
 import { supabase } from '../lib/supabaseClient';
 import { StoryboardProject, Scene } from '../types';
@@ -35,6 +40,14 @@ function dbRowToProject(row: any, scenes: Scene[] = []): StoryboardProject {
         pipeline_state:   row.pipeline_state   ?? undefined,
         identity_strength: row.identity_strength ?? undefined,
         style_bible:      row.style_bible      ?? undefined,
+        verifier_profile: row.verifier_profile ?? undefined,
+        project_type:     row.project_type     ?? undefined,
+        prop_bible:       row.prop_bible       ?? undefined,
+        costume_bible:    row.costume_bible    ?? undefined,
+        continuity_pins:  row.continuity_pins  ?? undefined,
+        shot_branches:    row.shot_branches    ?? undefined,
+        active_branch_ids: row.active_branch_ids ?? undefined,
+        structure_template: row.structure_template ?? undefined,
         scenes,
     } as StoryboardProject;
 }
@@ -56,6 +69,9 @@ function sceneToDbPayload(scene: Scene, storyboardId: string): any {
         dramatic_function:   raw.dramatic_function  || null,
         tension_level:       raw.tension_level      ?? null,
         emotional_beat:      raw.emotional_beat     || null,
+        act_position:        scene.act_position   || null,
+        structure_beat:      scene.structure_beat || null,
+        structure_also_covers_json: scene.structure_also_covers?.length ? JSON.stringify(scene.structure_also_covers) : null,
         dialogue_text:       scene.dialogue_text               || null,
         dialogue_speaker:    scene.dialogue_speaker            || null,
         // ★ Shot-identity fields — critical for scene grouping after DB round-trip.
@@ -70,6 +86,7 @@ function sceneToDbPayload(scene: Scene, storyboardId: string): any {
         canonical_prompt:    raw.canonical_prompt    || null,
         verifier_score:      raw.verifier_score      ?? null,
         verifier_pass:       raw.verifier_pass       ?? null,
+        verifier_profile:    raw.verifier_profile    || null,
         must_show_json:      Array.isArray(raw.must_show) ? JSON.stringify(raw.must_show) : null,
         screenplay_beat:     raw.screenplay_beat     || null,
         // ★ Phase 4 — Shot Difference Contract (SDC)
@@ -109,6 +126,9 @@ function dbRowToScene(row: any): Scene {
         dramatic_function:   row.dramatic_function   || undefined,
         tension_level:       row.tension_level       ?? undefined,
         emotional_beat:      row.emotional_beat      || undefined,
+        act_position:        row.act_position        || undefined,
+        structure_beat:      row.structure_beat      || undefined,
+        structure_also_covers: (() => { try { return row.structure_also_covers_json ? JSON.parse(row.structure_also_covers_json) : undefined; } catch { return undefined; } })(),
         dialogue_text:       row.dialogue_text        || undefined,
         dialogue_speaker:    row.dialogue_speaker     || undefined,
         // ★ Shot-identity fields restored from DB (may be null on pre-migration rows)
@@ -121,6 +141,7 @@ function dbRowToScene(row: any): Scene {
         canonical_prompt:    row.canonical_prompt    || undefined,
         verifier_score:      row.verifier_score      ?? undefined,
         verifier_pass:       row.verifier_pass       ?? undefined,
+        verifier_profile:    row.verifier_profile    || undefined,
         must_show:           (() => { try { return row.must_show_json ? JSON.parse(row.must_show_json) : undefined; } catch { return undefined; } })(),
         screenplay_beat:     row.screenplay_beat     || undefined,
         // ★ Phase 4 — Shot Difference Contract (SDC)
@@ -153,6 +174,15 @@ export const saveStoryboard = async (
             world_setting:     project.world_setting     ?? null,
             story_entities:    project.story_entities    ?? null,
             director_controls: project.director_controls ?? null,
+            // Only sent when chosen, so DBs without the column keep saving the other fields
+            ...(project.verifier_profile ? { verifier_profile: project.verifier_profile } : {}),
+            ...(project.project_type ? { project_type: project.project_type } : {}),
+            ...(project.prop_bible?.length ? { prop_bible: project.prop_bible } : {}),
+            ...(project.costume_bible?.length ? { costume_bible: project.costume_bible } : {}),
+            ...(project.continuity_pins ? { continuity_pins: project.continuity_pins } : {}),
+            ...(project.shot_branches ? { shot_branches: project.shot_branches } : {}),
+            ...(project.active_branch_ids ? { active_branch_ids: project.active_branch_ids } : {}),
+            ...(project.structure_template ? { structure_template: project.structure_template } : {}),
         };
         // Minimal payload for pre-migration DBs (only original columns)
         const storyboardPayloadBase: any = {
@@ -216,10 +246,13 @@ export const saveStoryboard = async (
             'shot_id','source_scene_id','camera_angle','camera_motion','characters_json',
             // Phase 3 verifier columns — strip on pre-migration DBs
             'canonical_prompt','verifier_score','verifier_pass','must_show_json','screenplay_beat',
+            'verifier_profile',
             // Phase 4 SDC columns — strip on pre-migration DBs
             'narrative_function','new_information_introduced','required_visible_action',
             'forbidden_repetition_json','visual_delta_from_previous',
             'duplicate_risk_score','duplicate_fail_reason',
+            // Story structure columns
+            'act_position','structure_beat','structure_also_covers_json',
         ];
         const stripNewSceneColumns = (rows: any[]) => rows.map(r => {
             const clean = { ...r };
@@ -48,17 +48,17 @@ export async function generateAudioAssets(plan: AudioPlan, character: string): P
 
     if (plan.dialogueEnabled && plan.dialogueText) {
         const asset = await generateDialogue(plan.dialogueText, character, plan.emotionHint || 'neutral');
-        assets.push(asset);
+        if (asset) assets.push(asset);
     }
 
     if (plan.sfxEnabled && plan.sfxDescription) {
         const asset = await generateSFX(plan.sfxDescription);
-        assets.push(asset);
+        if (asset) assets.push(asset);
     }
 
     if (plan.musicEnabled && plan.musicVibe) {
         const asset = await getMusicTrack(plan.musicVibe);
-        assets.push(asset);
+        if (asset) assets.push(asset);
     }
 
     return assets;
@@ -2,6 +2,16 @@
 
 import { createClient } from '@supabase/supabase-js';
 import fetch from 'node-fetch';
+import {
+    configuredProviderName,
+    getGenerationProvider,
+    providerSupports,
+    registerGenerationProvider,
+    type GenerationCapability,
+    type GenerationProvider,
+    type MediaResult,
+} from '../../../lib/generationProvider';
+import { createLocalGenerationProvider } from '../../../lib/localGenerationProvider';
 
 // Eleven Labs API configuration
 const ELEVEN_LABS_API_KEY = process.env.ELEVEN_LABS_API_KEY;
@@ -22,21 +32,86 @@ export interface AudioAsset {
     durationSec?: number;
 }
 
+// Offline stand-in: renders tone/noise placeholders with ffmpeg instead of remote mock URLs
+const localProvider = createLocalGenerationProvider();
+
+// Built-in SFX / ambience clips, matched by keyword in the description
+const SFX_LIBRARY: Record<string, string> = {
+    'explosion': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'gun': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'footstep': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'car': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'door': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'default': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3'
+};
+
+const AMBIENCE_LIBRARY: Record<string, string> = {
+    'rain': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'storm': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'wind': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'city': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'forest': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'ocean': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'fire': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
+    'default': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3'
+};
+
+// The default sfx provider ('library'); GENERATION_PROVIDER_SFX=local renders placeholders instead
+registerGenerationProvider({
+    name: 'library',
+    generateSfx: async ({ description, kind = 'sfx', durationSec }) => {
+        const library = kind === 'ambience' ? AMBIENCE_LIBRARY : SFX_LIBRARY;
+        const lowerDesc = description.toLowerCase();
+        const key = Object.keys(library).find((k) => lowerDesc.includes(k)) || 'default';
+        return { url: library[key], mimeType: 'audio/mpeg', durationSec: durationSec ?? (kind === 'ambience' ? 10 : 2) };
+    },
+});
+
+/**
+ * Provider configured for a capability (GENERATION_PROVIDER[_<CAPABILITY>]).
+ * Falls back to the local provider when the configured one isn't registered in this
+ * process or doesn't support the capability.
+ */
+function providerFor(capability: GenerationCapability): GenerationProvider {
+    const provider = getGenerationProvider(configuredProviderName(capability));
+    return provider && providerSupports(provider, capability) ? provider : localProvider;
+}
+
+/**
+ * Renders an asset through a provider. A failed render (e.g. the local placeholder
+ * when ffmpeg is unavailable) is logged and yields null, so the mix goes on without
+ * that track instead of failing the whole pipeline.
+ */
+async function renderAudioAsset(prefix: string, type: AudioAsset['type'], render: () => Promise<MediaResult>): Promise<AudioAsset | null> {
+    try {
+        const result = await render();
+        return {
+            id: `${prefix}_${Date.now()}`,
+            type,
+            url: result.filePath || result.url, // ffmpeg in the mixer reads local files directly
+            durationSec: result.durationSec
+        };
+    } catch (error: any) {
+        console.error(`[AudioEngine] ${type} render failed, skipping track:`, error?.message || error);
+        return null;
+    }
+}
+
 /**
  * Generate Dialogue using Eleven Labs TTS
  */
-export async function generateDialogue(text: string, character: string, emotion: string): Promise<AudioAsset> {
+export async function generateDialogue(text: string, character: string, emotion: string): Promise<AudioAsset | null> {
     console.log(`[AudioEngine:ElevenLabs] Generating TTS for: "${text.substring(0, 50)}..." [Voice: ${character}, Emotion: ${emotion}]`);
 
+    if (configuredProviderName('tts') !== 'elevenlabs') {
+        const provider = providerFor('tts');
+        return renderAudioAsset('dlg', 'dialogue', () => provider.synthesizeSpeech!({ text, voiceId: character, emotion }));
+    }
+
     // Check if Eleven Labs API key is configured
     if (!ELEVEN_LABS_API_KEY) {
-        console.warn('[AudioEngine:ElevenLabs] No API key configured, using mock');
-        return {
-            id: `dlg_${Date.now()}`,
-            type: 'dialogue',
-            url: 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-            durationSec: 2
-        };
+        console.warn('[AudioEngine:ElevenLabs] No API key configured, using local placeholder');
+        return renderAudioAsset('dlg', 'dialogue', () => localProvider.synthesizeSpeech!({ text, voiceId: character, emotion }));
     }
 
     try {
@@ -127,76 +202,39 @@ export async function generateDialogue(text: string, character: string, emotion:
 
     } catch (error: any) {
         console.error('[AudioEngine:ElevenLabs] Error:', error.message);
-        // Fallback to mock on error
-        return {
-            id: `dlg_${Date.now()}`,
-            type: 'dialogue',
-            url: 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-            durationSec: 2
-        };
+        // Fallback to a local placeholder on error
+        return renderAudioAsset('dlg', 'dialogue', () => localProvider.synthesizeSpeech!({ text, voiceId: character, emotion }));
     }
 }
 
 /**
- * Generate Sound Effects using AI (placeholder for now)
- * Can integrate with services like Eleven Labs for sound effects or use built-in SFX
+ * Generate Sound Effects via the configured sfx provider (the built-in clip library by default)
  */
-export async function generateSFX(description: string): Promise<AudioAsset> {
+export async function generateSFX(description: string): Promise<AudioAsset | null> {
     console.log(`[AudioEngine:SFX] Generating SFX for: "${description.substring(0, 50)}..."`);
 
-    // For now, return a placeholder SFX
-    // In production, you could integrate with services like:
-    // - Eleven Labs SFX (if available)
-    // - AudioShake
-    // - Sonauto
-    // - Built-in SFX library
-    
-    const sfxLibrary: Record<string, string> = {
-        'explosion': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'gun': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'footstep': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'car': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'door': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'default': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3'
-    };
-
-    // Try to match description with SFX library
-    const lowerDesc = description.toLowerCase();
-    let selectedSfx = sfxLibrary.default;
-    
-    for (const [key, url] of Object.entries(sfxLibrary)) {
-        if (lowerDesc.includes(key)) {
-            selectedSfx = url;
-            break;
-        }
-    }
-
-    return {
-        id: `sfx_${Date.now()}`,
-        type: 'sfx',
-        url: selectedSfx,
-        durationSec: 2
-    };
+    const provider = providerFor('sfx');
+    return renderAudioAsset('sfx', 'sfx', () => provider.generateSfx!({ description, kind: 'sfx', durationSec: 2 }));
 }
 
 /**
  * Get Background Music using AI music generation
  * Integrates with Replicate for music generation (can use models like MusicGen, AudioCraft, etc.)
  */
-export async function getMusicTrack(vibe: string): Promise<AudioAsset> {
+export async function getMusicTrack(vibe: string): Promise<AudioAsset | null> {
     console.log(`[AudioEngine:Music] Generating music for vibe: "${vibe}"`);
 
     // Try to use Replicate for music generation
     const REPLICATE_TOKEN = process.env.REPLICATE_API_TOKEN;
     
+    if (configuredProviderName('music') !== 'replicate') {
+        const provider = providerFor('music');
+        return renderAudioAsset('bgm', 'music', () => provider.generateMusic!({ prompt: vibe, durationSec: 10 }));
+    }
+
     if (!REPLICATE_TOKEN) {
-        console.warn('[AudioEngine:Music] No Replicate token, using placeholder');
-        return {
-            id: `bgm_${Date.now()}`,
-            type: 'music',
-            url: 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-            durationSec: 10
-        };
+        console.warn('[AudioEngine:Music] No Replicate token, using local placeholder');
+        return renderAudioAsset('bgm', 'music', () => localProvider.generateMusic!({ prompt: vibe, durationSec: 10 }));
     }
 
     try {
@@ -272,48 +310,17 @@ export async function getMusicTrack(vibe: string): Promise<AudioAsset> {
 
     } catch (error: any) {
         console.error('[AudioEngine:Music] Error:', error.message);
-        // Fallback to royalty-free music
-        return {
-            id: `bgm_${Date.now()}`,
-            type: 'music',
-            url: 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-            durationSec: 10
-        };
+        // Fallback to a local placeholder bed
+        return renderAudioAsset('bgm', 'music', () => localProvider.generateMusic!({ prompt: vibe, durationSec: 10 }));
     }
 }
 
 /**
- * Generate ambience sound for scenes
+ * Generate ambience sound for scenes via the configured sfx provider
  */
-export async function generateAmbience(sceneDescription: string): Promise<AudioAsset> {
+export async function generateAmbience(sceneDescription: string): Promise<AudioAsset | null> {
     console.log(`[AudioEngine:Ambience] Generating ambience for: "${sceneDescription.substring(0, 50)}..."`);
 
-    // Map scene descriptions to ambience sounds
-    const ambienceLibrary: Record<string, string> = {
-        'rain': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'storm': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'wind': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'city': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'forest': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'ocean': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'fire': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3',
-        'default': 'https://raw.githubusercontent.com/mdn/webaudio-examples/master/audio-analyser/viper.mp3'
-    };
-
-    const lowerDesc = sceneDescription.toLowerCase();
-    let selectedAmbience = ambienceLibrary.default;
-    
-    for (const [key, url] of Object.entries(ambienceLibrary)) {
-        if (lowerDesc.includes(key)) {
-            selectedAmbience = url;
-            break;
-        }
-    }
-
-    return {
-        id: `amb_${Date.now()}`,
-        type: 'ambience',
-        url: selectedAmbience,
-        durationSec: 10
-    };
+    const provider = providerFor('sfx');
+    return renderAudioAsset('amb', 'ambience', () => provider.generateSfx!({ description: sceneDescription, kind: 'ambience', durationSec: 10 }));
 }
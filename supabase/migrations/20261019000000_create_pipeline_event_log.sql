@@ -0,0 +1,37 @@
+-- Migration: Pipeline event log + snapshots
+-- Description: Append-only log of storyboard pipeline runtime events (see lib/storyPipeline.ts).
+-- Any server instance rebuilds a project's ProjectRuntimeState from the latest snapshot
+-- plus the events recorded after it. Supersedes storyboards.pipeline_state.
+
+CREATE TABLE IF NOT EXISTS public.pipeline_events (
+    project_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (project_id, seq)
+);
+
+CREATE TABLE IF NOT EXISTS public.pipeline_snapshots (
+    project_id TEXT PRIMARY KEY,
+    seq INTEGER NOT NULL,
+    state JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Only the service role (API server) reads or writes the log
+ALTER TABLE public.pipeline_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- The log is append-only: reject edits and deletes even from privileged roles
+CREATE OR REPLACE FUNCTION public.pipeline_events_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'pipeline_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pipeline_events_no_mutation ON public.pipeline_events;
+CREATE TRIGGER pipeline_events_no_mutation
+    BEFORE UPDATE OR DELETE ON public.pipeline_events
+    FOR EACH ROW EXECUTE FUNCTION public.pipeline_events_append_only();
@@ -0,0 +1,25 @@
+-- Migration: Durable batch queue
+-- Description: Turns batch_jobs / batch_job_items (supabase/batch_jobs_migration.sql) into the
+-- backing store of lib/batchQueue.ts. Workers lease items and renew the lease while they run;
+-- items whose lease expired are requeued by another instance. cancel_requested is read by
+-- whichever instance runs the job, so cancelling works across processes.
+
+ALTER TABLE public.batch_jobs
+    ADD COLUMN IF NOT EXISTS params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN NOT NULL DEFAULT false;
+
+-- Project ids are client-generated strings, not necessarily UUIDs
+ALTER TABLE public.batch_jobs ALTER COLUMN project_id TYPE TEXT USING project_id::text;
+
+ALTER TABLE public.batch_job_items
+    ADD COLUMN IF NOT EXISTS position INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+    ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Shot ids are client strings such as "shot-3", not UUIDs; image ids may be prediction ids
+ALTER TABLE public.batch_job_items ALTER COLUMN shot_id TYPE TEXT USING shot_id::text;
+ALTER TABLE public.batch_job_items ALTER COLUMN image_id TYPE TEXT USING image_id::text;
+
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_claim ON public.batch_job_items(job_id, status, position);
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_lease ON public.batch_job_items(status, lease_expires_at);
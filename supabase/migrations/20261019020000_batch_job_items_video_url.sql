@@ -0,0 +1,5 @@
+-- Migration: Video results on batch items
+-- Description: gen_videos batch jobs store the generated clip next to the source frame.
+
+ALTER TABLE public.batch_job_items
+    ADD COLUMN IF NOT EXISTS video_url TEXT;
@@ -0,0 +1,24 @@
+-- Migration: Purchased add-on services on profiles
+-- Description: Add-ons from ADDON_SERVICES (types.ts) granted to a user. The generation
+-- scheduler gives users with 'priority_queue' the highest fair-share tier.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS addons TEXT[] NOT NULL DEFAULT '{}';
+
+-- grant_profile_addon(target_user_id, addon)
+-- Called by the Stripe webhook after an add-on checkout. Adds the add-on once, so a
+-- replayed event leaves the array unchanged.
+CREATE OR REPLACE FUNCTION grant_profile_addon(
+  target_user_id uuid,
+  addon text
+) RETURNS void
+LANGUAGE sql SECURITY DEFINER AS $$
+  UPDATE profiles
+  SET addons = array_append(addons, addon)
+  WHERE id = target_user_id
+    AND NOT (addon = ANY(addons));
+$$;
+
+-- Server only: callers pass an arbitrary user id
+REVOKE ALL ON FUNCTION grant_profile_addon(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION grant_profile_addon(uuid, text) TO service_role;
@@ -0,0 +1,28 @@
+-- Migration: Generation cache
+-- Description: Content-addressed outputs of image and prediction requests (see lib/generationCache.ts).
+-- cache_key is the sha256 of the canonical request; identical requests by the same user
+-- return the stored output instead of generating (and charging) again.
+
+CREATE TABLE IF NOT EXISTS public.generation_cache (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    cache_key TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('image', 'shot_image', 'prediction')),
+    model TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'ready' CHECK (status IN ('pending', 'ready')),
+    request JSONB NOT NULL,
+    output_url TEXT,
+    output JSONB,
+    prediction_id TEXT,
+    hits INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    last_hit_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (user_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_cache_prediction ON public.generation_cache(prediction_id)
+    WHERE prediction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_generation_cache_user_created ON public.generation_cache(user_id, created_at DESC);
+
+-- Only the service role (API server) reads or writes the cache
+ALTER TABLE public.generation_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- Migration: Verifier profiles
+-- Description: Projects pick a canonical-verifier profile (lib/verifierProfiles.ts);
+-- each shot records the profile its verifier_score was computed under.
+
+ALTER TABLE public.storyboards
+    ADD COLUMN IF NOT EXISTS verifier_profile TEXT DEFAULT NULL;
+
+ALTER TABLE public.scenes
+    ADD COLUMN IF NOT EXISTS verifier_profile TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.storyboards.verifier_profile IS
+  'Verifier profile id (dialogue_drama, environment_driven, ...); NULL = derived from project_type';
+COMMENT ON COLUMN public.scenes.verifier_profile IS
+  'Verifier profile id the shot''s verifier_score was computed under';
@@ -0,0 +1,15 @@
+-- Migration: Continuity ledger inputs
+-- Description: Prop and costume bibles plus user state pins, read by the
+-- prop/wardrobe continuity ledger (lib/continuityLedger.ts).
+
+ALTER TABLE public.storyboards
+    ADD COLUMN IF NOT EXISTS prop_bible      JSONB DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS costume_bible   JSONB DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS continuity_pins JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN public.storyboards.prop_bible IS
+  'JSON-serialized PropBible[] — props and their continuity_states';
+COMMENT ON COLUMN public.storyboards.costume_bible IS
+  'JSON-serialized CostumeBible[] — default outfit per scene and allowed states';
+COMMENT ON COLUMN public.storyboards.continuity_pins IS
+  'JSON-serialized ContinuityStatePin[] — prop/outfit states the user fixed at specific shots';
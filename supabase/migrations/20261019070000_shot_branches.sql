@@ -0,0 +1,13 @@
+-- Migration: Shot graph branches
+-- Description: Named alternate takes for ranges of main-line shots (each with
+-- its own shots, images and videos) and the branches the cut currently uses.
+-- Resolved by resolveBranchSequence() in lib/directorOS.ts.
+
+ALTER TABLE public.storyboards
+    ADD COLUMN IF NOT EXISTS shot_branches    JSONB DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS active_branch_ids JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN public.storyboards.shot_branches IS
+  'JSON-serialized ShotGraphBranch[] — alternates replacing a from_shot_id..to_shot_id range, with their own shots';
+COMMENT ON COLUMN public.storyboards.active_branch_ids IS
+  'JSON array of branch_id — alternates cut in by the edit plan, assembly manifest and stitcher (empty = main line)';
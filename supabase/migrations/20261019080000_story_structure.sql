@@ -0,0 +1,17 @@
+-- Migration: Story structure templates
+-- Description: Projects pick a structure template (lib/storyStructure.ts);
+-- each shot records the dramatic arc position and template beat slot it fills.
+
+ALTER TABLE public.storyboards
+    ADD COLUMN IF NOT EXISTS structure_template TEXT DEFAULT NULL;
+
+ALTER TABLE public.scenes
+    ADD COLUMN IF NOT EXISTS act_position   TEXT DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS structure_beat TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.storyboards.structure_template IS
+  'Structure template id (three_act, save_the_cat, heros_journey, kishotenketsu, five_act_tv, ...); NULL = none chosen';
+COMMENT ON COLUMN public.scenes.act_position IS
+  'BeatPosition of the shot''s scene (opening, inciting_incident, ..., resolution)';
+COMMENT ON COLUMN public.scenes.structure_beat IS
+  'Beat slot id in the storyboard''s structure template';
@@ -0,0 +1,63 @@
+-- Migration: Batch job recovery
+-- Description: Keeps the continue-batch fields of BatchJob (lib/batchQueueStore.ts) on
+-- batch_jobs, and lets the server settle an image batch's credit reservation for the job
+-- owner when the batch is finished by a recovered worker instead of the request that
+-- reserved it (there is no user session to call finalize_reserve / refund_reserve with).
+
+ALTER TABLE public.batch_jobs
+    ADD COLUMN IF NOT EXISTS range_start_scene INT,
+    ADD COLUMN IF NOT EXISTS range_start_shot INT,
+    ADD COLUMN IF NOT EXISTS range_end_scene INT,
+    ADD COLUMN IF NOT EXISTS range_end_shot INT,
+    ADD COLUMN IF NOT EXISTS strategy TEXT,
+    ADD COLUMN IF NOT EXISTS all_done BOOLEAN,
+    ADD COLUMN IF NOT EXISTS remaining_count INT;
+
+-- settle_reserve_for_user(target_user_id, ref_type, ref_id, refund_amount)
+-- Refunds up to refund_amount of a pending reservation and settles the rest. Only the
+-- pending reserve row is touched, so a second call for the same reservation is a no-op.
+CREATE OR REPLACE FUNCTION settle_reserve_for_user(
+  target_user_id uuid,
+  ref_type text,
+  ref_id text,
+  refund_amount numeric DEFAULT 0
+) RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_reserve_id uuid;
+  v_reserved numeric;
+  v_refund numeric;
+BEGIN
+  SELECT id, ABS(delta) INTO v_reserve_id, v_reserved
+    FROM credits_ledger
+    WHERE user_id = target_user_id
+      AND credits_ledger.ref_type = settle_reserve_for_user.ref_type
+      AND credits_ledger.ref_id = settle_reserve_for_user.ref_id
+      AND kind = 'reserve'
+      AND status = 'pending'
+    ORDER BY created_at DESC LIMIT 1
+    FOR UPDATE;
+
+  IF NOT FOUND THEN RETURN false; END IF;
+
+  v_refund := LEAST(GREATEST(refund_amount, 0), v_reserved);
+
+  UPDATE profiles
+  SET credits = credits + v_refund,
+      credits_reserved = GREATEST(0, credits_reserved - v_reserved)
+  WHERE id = target_user_id;
+
+  UPDATE credits_ledger SET status = 'settled' WHERE id = v_reserve_id;
+
+  IF v_refund > 0 THEN
+    INSERT INTO credits_ledger (user_id, delta, kind, ref_type, ref_id, status)
+    VALUES (target_user_id, v_refund, 'refund', ref_type, ref_id, 'settled');
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Server only: callers pass an arbitrary user id
+REVOKE ALL ON FUNCTION settle_reserve_for_user(uuid, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION settle_reserve_for_user(uuid, text, text, numeric) TO service_role;
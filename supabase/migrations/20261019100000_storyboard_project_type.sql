@@ -0,0 +1,10 @@
+-- Migration: Storyboard project type
+-- Description: Persist the project type the storyboard was generated with, so
+-- later verifier runs (rewrite-canonical) can derive the verifier profile from
+-- it when storyboards.verifier_profile is NULL.
+
+ALTER TABLE public.storyboards
+    ADD COLUMN IF NOT EXISTS project_type TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.storyboards.project_type IS
+  'ProjectType (character_driven, environment_driven, destruction_driven, ...); NULL = unknown';
@@ -0,0 +1,10 @@
+-- Migration: Folded structure beats
+-- Description: With fewer scenes than template slots, the short slots are
+-- folded into a neighbouring scene; record them so the structure check counts
+-- them as carried instead of missing.
+
+ALTER TABLE public.scenes
+    ADD COLUMN IF NOT EXISTS structure_also_covers_json TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.scenes.structure_also_covers_json IS
+  'JSON array of beat slot ids folded into this scene besides structure_beat';
@@ -28,7 +28,7 @@ export type NarrativeFunction =
   | 'decision'        // Character at a fork — choice visible in body language
   | 'motion_bridge';  // Connects motion states (running→stopping, falling→landing)
 export type CameraType = 'wide' | 'medium' | 'close' | 'ecu' | 'over-shoulder' | 'pov' | 'aerial' | 'two-shot';
-export type CameraMovement = 'static' | 'push-in' | 'pull-out' | 'pan-left' | 'pan-right' | 'tilt-up' | 'tilt-down' | 'dolly' | 'tracking' | 'crane' | 'handheld' | 'steadicam' | 'whip-pan' | 'zoom';
+export type CameraMovement = 'static' | 'push-in' | 'pull-out' | 'pan-left' | 'pan-right' | 'tilt-up' | 'tilt-down' | 'dolly' | 'tracking' | 'crane' | 'handheld' | 'steadicam' | 'whip-pan' | 'zoom' | 'zoom-out';
 export type TimeOfDay = 'dawn' | 'morning' | 'noon' | 'afternoon' | 'golden-hour' | 'dusk' | 'night' | 'blue-hour';
 export type LocationType = 'INT' | 'EXT' | 'INT/EXT';
 
@@ -127,11 +127,17 @@ export interface Shot {
   must_show?:             string[];  // Checklist: concrete visible proof required
   verifier_score?:        number;    // 0-40 faithfulness score (7 dims × 5 + removal value)
   verifier_pass?:         boolean;   // true if score ≥ 28 AND beat_match ≥ 4 AND non_generic ≥ 4
+  verifier_profile?:      string;    // lib/verifierProfiles.ts profile the score was computed under
+  verifier_max_score?:    number;    // weighted maximum under that profile (40 by default)
   verifier_fail_reasons?: string[];  // Human-readable fail reasons for UI
   verifier_dimensions?:   Array<{ name: string; score: number; reason: string }>;
   rewrite_count?:         number;    // How many rewrite passes were needed (0 or 1)
+  // DirectorControls bannedElements / avoidPhrases hits (lib/directorRules.ts)
+  director_rule_violations?: Array<{ rule_id: string; source: 'bannedElements' | 'avoidPhrases'; term: string; field: string; matched: string; excerpt: string; repaired: boolean }>;
+  director_rules_blocked?:   boolean; // true = a violation could not be repaired
   // Video grounding fields
   video_approved?:        boolean;   // false = block batch video gen for this shot
+  video_model?:           VideoModel; // Per-shot override of the batch video model
 
   // ── Shot Difference Contract (SDC) — distinct screenplay-unit enforcement ────
   // Computed by lib/canonicalPromptRewriter.ts, persisted to DB.
@@ -475,6 +481,8 @@ export interface Scene {
   scene_title?: string;          // Short title for this scene
   episode_number?: number;       // Which episode this scene belongs to
   act_position?: BeatPosition;   // Where in the dramatic arc this scene sits
+  structure_beat?: string;       // Slot id in the project's structure template (lib/storyStructure.ts)
+  structure_also_covers?: string[]; // Short slots folded into this scene when there are fewer scenes than slots
   scene_setting?: string;
   characters?: string[];
   visual_description: string;
@@ -503,9 +511,13 @@ export interface Scene {
   screenplay_beat?:        string;
   verifier_pass?:          boolean;
   verifier_score?:         number;
+  verifier_profile?:       string;
+  verifier_max_score?:     number;
   verifier_fail_reasons?:  string[];
   narrative_function?:     string;
   duplicate_risk_score?:   number;
+  director_rule_violations?: Shot['director_rule_violations'];
+  director_rules_blocked?:   boolean;
 
   // Director OS sequence graph fields
   panel_id?: string;
@@ -588,6 +600,21 @@ export interface ShotGraphNode {
     middle_motion_intent: string;
     end_frame_intent: string;
   };
+  /** Set on shots of an alternate take; main-line shots have none */
+  branch_id?: string;
+}
+
+/** A named alternate for a range of main-line shots (e.g. a different ending) */
+export interface ShotGraphBranch {
+  branch_id: string;
+  name: string;
+  /** First and last main-line shots the alternate replaces (inclusive) */
+  from_shot_id: string;
+  to_shot_id: string;
+  /** The alternate's own shots in order, each with its own image_url / video_url */
+  shots: Scene[];
+  notes?: string;
+  created_at?: string;
 }
 
 export interface CharacterIdentityLaw {
@@ -629,7 +656,10 @@ export interface EditTimelinePlan {
     music_bed_hint: string;
     j_cut_opportunity: boolean;
     l_cut_opportunity: boolean;
+    branch_id?: string;
   }>;
+  /** Branches cut in instead of their main-line ranges */
+  active_branch_ids?: string[];
   rough_cut_assembly: { mode: string; strategy: string };
   preview_export: { format: string; resolution: string };
   final_assembly_plan: { requires_verification: boolean; pass_threshold: number };
@@ -662,14 +692,25 @@ export interface StoryboardProject {
   character_identity_law?: CharacterIdentityLaw;
   edit_timeline_plan?: EditTimelinePlan;
   verifier_report?: DirectorVerificationReport;
+  prop_bible?: PropBible[];
+  costume_bible?: CostumeBible[];
+  /** Prop/outfit state pins for the continuity ledger */
+  continuity_pins?: ContinuityStatePin[];
+  /** Alternate takes for shot ranges, and which of them the cut uses */
+  shot_branches?: ShotGraphBranch[];
+  active_branch_ids?: string[];
 
   // Episode structure
   episode_count?: number;
   episode_arcs?: EpisodeArc[];
+  /** Story structure template id (lib/storyStructure.ts) the scenes' structure_beat refers to */
+  structure_template?: string;
 
   // ★ Zero-Character Project Support
   project_type?: ProjectType;
   has_cast?: boolean;
+  /** Verifier profile id (lib/verifierProfiles.ts); unset = derived from project_type */
+  verifier_profile?: string;
 
   scenes: Scene[];
 
@@ -682,6 +723,8 @@ export interface GenerateRequest {
   visualStyle: string;
   identityAnchor?: string;
   identityStrength?: number;
+  verifierProfile?: string;
+  projectType?: ProjectType;
 }
 
 export enum VisualStyle {
@@ -1313,7 +1356,7 @@ export interface BatchJob {
   id: string;                    // UUID
   project_id: string;
   user_id?: string;
-  type: 'gen_images' | 'gen_images_continue';  // Extensible for future batch types
+  type: 'gen_images' | 'gen_images_continue' | 'regen_cascade' | 'gen_videos';  // Extensible for future batch types
   total: number;                 // Total items
   done: number;                  // Completed (succeeded + failed)
   succeeded: number;
@@ -1343,6 +1386,7 @@ export interface BatchJobItem {
   status: BatchItemStatus;
   image_id?: string;             // Resulting image ID (on success)
   image_url?: string;            // Resulting image URL (on success)
+  video_url?: string;            // Resulting video URL (gen_videos items)
   error?: string;                // Error message (on failure)
   started_at?: string;
   completed_at?: string;
@@ -1408,6 +1452,58 @@ export type PipelineStage =
   | 'assembly_ready'
   | 'final_ready';
 
+/** Named stage-machine transitions accepted by POST /api/pipeline/:projectId/transition */
+export type PipelineTransition =
+  | 'generate_bible'
+  | 'generate_shots'
+  | 'start_storyboard'
+  | 'storyboard_candidates_ready'
+  | 'storyboard_failed'
+  | 'approve_storyboard'
+  | 'reopen_storyboard'
+  | 'start_video'
+  | 'video_failed'
+  | 'videos_complete'
+  | 'finalize';
+
+/** One entry of the per-project stage history returned by /api/pipeline/:projectId/status */
+export interface PipelineStageTransitionRecord {
+  seq: number;
+  at: number;
+  from: PipelineStage | null;
+  to: PipelineStage;
+  transition: PipelineTransition | 'reconcile';
+  actor: string;
+  reason?: string;
+}
+
+/** Events pushed by GET /api/pipeline/:projectId/events, keyed by SSE event name */
+export interface PipelineStreamEventMap {
+  stage_changed: { seq: number; actor: string | null; from: PipelineStage; to: PipelineStage; transition: PipelineTransition; reason: string | null };
+  candidate_registered: {
+    seq: number;
+    actor: string | null;
+    shot_id: string;
+    candidate_id: string;
+    image_url: string | null;
+    continuity_score: number;
+    narrative_score: number;
+    visual_match_score: number;
+    violations: string[];
+  };
+  shot_approved: { seq: number; actor: string | null; shot_id: string; image_url: string | null };
+  shot_regenerated: { seq: number; actor: string | null; shot_id: string; mode: string; reason: string | null; cascade_shot_ids: string[] };
+  candidate_promoted: { seq: number; actor: string | null; shot_id: string; candidate_id: string; reason: string | null };
+  queue_controlled: { seq: number; actor: string | null; action: 'pause' | 'resume' | 'skip'; shot_id: string | null };
+  batch_item_completed: { job: BatchJob; item: BatchJobItem };
+  render_progress: { render_id: string; stage: string; progress: number; status: 'rendering' | 'succeeded' | 'failed'; job_id?: string; output_url?: string; error?: string };
+  prediction_updated: { prediction_id: string; shot_id: string | null; kind: string | null; status: string; output?: any; error?: string | null };
+  /** Sent instead of a backlog when Last-Event-ID can no longer be resumed; refetch /status. */
+  resync: { reason: string };
+}
+
+export type PipelineStreamEventName = keyof PipelineStreamEventMap;
+
 export interface StoryPlan {
   logline: string;
   short_synopsis: string;
@@ -1458,6 +1554,15 @@ export interface PropBible {
   continuity_states: string[];
 }
 
+/** A user-fixed prop or outfit state at one shot (lib/continuityLedger.ts) */
+export interface ContinuityStatePin {
+  shot_id: string;
+  /** PropBible.prop_id, or `costume:<character_id>` */
+  entity_id: string;
+  state: string;
+  note?: string;
+}
+
 export interface ShotContextPack {
   shot_id: string;
   scene_id: string;
@@ -1491,12 +1596,23 @@ export interface StoryboardImageCandidate {
   created_at: string;
 }
 
+/** One must_show / required_visible_action item checked against a generated frame */
+export interface MustShowItemResult {
+  item: string;
+  kind: 'must_show' | 'required_action';
+  pass: boolean;
+  /** What the vision provider saw (or did not see) */
+  evidence: string;
+}
+
 export interface ContinuityReport {
   shot_id: string;
   continuity_score: number;
   narrative_score: number;
   visual_match_score: number;
   violation_tags: string[];
+  /** Image-grounded must_show check, when the shot has a checklist */
+  must_show_results?: MustShowItemResult[];
   regen_recommendation:
     | 'none'
     | 'regenerate_same_shot_keep_bible'
@@ -1537,13 +1653,62 @@ export interface RegenerationJob {
     | 'regenerate_same_shot_fix_costume'
     | 'regenerate_same_shot_fix_scene'
     | 'regenerate_from_shot_forward'
-    | 'freeze_approved_shots';
+    | 'freeze_approved_shots'
+    | 'rollback_to_candidate';
   reason: string;
   from_version: number;
   to_version: number;
+  /** Candidate restored by a rollback_to_candidate job */
+  candidate_id?: string;
+  actor?: string;
   created_at: string;
 }
 
+/** One storyboard candidate as listed by GET /api/storyboard/:projectId/candidates */
+export interface StoryboardCandidate {
+  candidate_id: string;
+  image_url: string | null;
+  continuity_score: number;
+  narrative_score: number;
+  visual_match_score: number;
+  /** Mean of the three scores, for ranking takes */
+  overall_score: number;
+  violation_tags: string[];
+  created_at: string;
+  is_approved: boolean;
+  is_latest: boolean;
+}
+
+export interface ShotCandidateHistory {
+  shot_id: string;
+  version: number;
+  status: 'pending' | 'generating' | 'review' | 'approved' | 'failed';
+  approved_image_url: string | null;
+  approved_candidate_id: string | null;
+  /** Newest first */
+  candidates: StoryboardCandidate[];
+  regeneration_jobs: RegenerationJob[];
+}
+
+/** Plan of a regenerate_from_shot_forward cascade, shown before the user confirms */
+export interface RegenerationCascadePlan {
+  project_id: string;
+  from_shot_id: string;
+  freeze_approved: boolean;
+  /** Origin shot first, then every downstream shot in story order */
+  shots: Array<{
+    shot_id: string;
+    sequence_order: number;
+    status: 'pending' | 'generating' | 'review' | 'approved' | 'failed';
+    action: 'regenerate' | 'frozen' | 'skipped';
+  }>;
+  regenerate_shot_ids: string[];
+  frozen_shot_ids: string[];
+  regenerate_count: number;
+  cost_per_shot: number;
+  estimated_cost: number;
+}
+
 export interface AssemblyManifest {
   project_id: string;
   sequence_preview_url?: string;
@@ -65,7 +65,7 @@ export const ErrorCodes = {
 
   // Pipeline errors
   STORYBOARD_NOT_APPROVED: { code: 'STORYBOARD_NOT_APPROVED', status: 400, message: '分镜未批准' },
-  INVALID_PIPELINE_STATE: { code: 'INVALID_PIPELINE_STATE', status: 400, message: '管道状态无效' },
+  INVALID_PIPELINE_STATE: { code: 'INVALID_PIPELINE_STATE', status: 409, message: '管道状态无效' },
 
   // Server errors
   INTERNAL_ERROR: { code: 'INTERNAL_ERROR', status: 500, message: '内部服务器错误' },
@@ -169,6 +169,15 @@ export const createError = {
       `检查 ${resource} 的ID是否正确`
     ),
 
+  versionConflict: (resource: string, details?: Record<string, any>) =>
+    new ApiError(
+      'CONFLICT',
+      `${resource} 已被修改`,
+      409,
+      details,
+      '请重新加载最新版本后再试'
+    ),
+
   geminiError: (message: string, details?: Record<string, any>) =>
     new ApiError(
       'GEMINI_ERROR',
@@ -196,6 +205,15 @@ export const createError = {
       '请先在分镜审核阶段批准所有镜头'
     ),
 
+  invalidPipelineTransition: (projectId: string, transition: string, from: string, rejection: string) =>
+    new ApiError(
+      'INVALID_PIPELINE_STATE',
+      `管道状态无效: 无法从 ${from} 执行 ${transition}`,
+      409,
+      { projectId, transition, from, rejection },
+      rejection
+    ),
+
   rateLimit: (retryAfter?: number) =>
     new ApiError(
       'RATE_LIMIT',
@@ -1,8 +1,10 @@
 /**
  * exportProject.ts — Export utilities for AI Cine Director projects
- * Supports: JSON dump, Shot Bible (markdown text), CSV scene list
+ * Supports: JSON dump, Shot Bible (markdown text), CSV scene list,
+ * continuity log (HTML / PDF, rendered server-side)
  */
 import { StoryboardProject } from '../types';
+import { supabase } from '../lib/supabaseClient';
 
 // ─── JSON Export ─────────────────────────────────────────────────────────────
 
@@ -135,10 +137,34 @@ export function exportScenesCsv(project: StoryboardProject): void {
   downloadText(csv, `${slugify(project.project_title || 'scenes')}_scenes.csv`, 'text/csv');
 }
 
+// ─── Continuity Log (server-rendered HTML / PDF) ─────────────────────────────
+
+export async function exportContinuityReport(project: StoryboardProject, format: 'html' | 'pdf'): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const token = session?.access_token;
+  const response = await fetch('/api/export/continuity-report', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    },
+    body: JSON.stringify({ project, format }),
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(err.error?.message || err.error || `Continuity report export failed: ${response.status}`);
+  }
+  const blob = await response.blob();
+  downloadBlob(blob, `${slugify(project.project_title || 'project')}_continuity-log.${format}`);
+}
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function downloadText(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;